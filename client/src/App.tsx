@@ -4,24 +4,53 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/Dashboard";
+import CompanyDetail from "@/pages/CompanyDetail";
 import NotFound from "@/pages/not-found";
+import Login from "@/pages/Login";
+import { IS_API_MODE } from "@/lib/db";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard}/>
+      {/* Cada sección y ficha tiene su URL; Dashboard lee cuál mostrar de la ruta */}
+      <Route path="/pipeline" component={Dashboard} />
+      <Route path="/deals/:id" component={Dashboard} />
+      <Route path="/contacts" component={Dashboard} />
+      <Route path="/contacts/:id" component={Dashboard} />
+      <Route path="/companies" component={Dashboard} />
+      <Route path="/companies/:id" component={CompanyDetail} />
+      <Route path="/tasks" component={Dashboard} />
+      <Route path="/metrics" component={Dashboard} />
+      <Route path="/team" component={Dashboard} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Con la API REST los datos son del servidor: hace falta sesión antes de mostrar nada
+function AuthGate() {
+  const { isAuthenticated, isLoading } = useCurrentUser();
+
+  if (!IS_API_MODE) return <Router />;
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#1b2f5f] text-sm text-white/70">
+        Cargando sesión...
+      </div>
+    );
+  }
+  return isAuthenticated ? <Router /> : <Login />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <AuthGate />
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -25,6 +25,7 @@ import {
   AlertCircle
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import type { Deal, Contact } from "@/lib/types";
 
 interface AIEmailGeneratorProps {
@@ -128,6 +129,7 @@ export default function AIEmailGenerator({ deal, contact, trigger }: AIEmailGene
   const [emailSubject, setEmailSubject] = useState("");
   
   const { toast } = useToast();
+  const { displayName } = useCurrentUser();
 
   const generateEmail = async () => {
     setIsGenerating(true);
@@ -142,7 +144,7 @@ export default function AIEmailGenerator({ deal, contact, trigger }: AIEmailGene
     const contactName = contact?.name || "Cliente";
     const dealTitle = deal?.title || "nuestro proyecto";
     const company = deal?.company || contact?.company || "su empresa";
-    const userName = "Equipo Comercial"; // En producción sería el usuario actual
+    const userName = displayName;
     const deadline = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString("es-ES");
     const suggestedDate = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toLocaleDateString("es-ES");
     const focusArea = deal?.stage === "Prospección" ? "sus procesos comerciales" : 
@@ -13,18 +13,27 @@ import {
   XAxis,
   YAxis,
 } from "recharts";
-import { Brain, Clock2, Flame, Sparkles, Target, TrendingUp } from "lucide-react";
+import { Brain, Clock2, Flame, Sparkles, Tag as TagIcon, Target, TrendingUp } from "lucide-react";
 
 import Card from "@/components/Card";
 import Skeleton from "@/components/Skeleton";
-import type { Contact, Deal, Task } from "@/lib/types";
+import PipelineSwitcher from "@/components/PipelineSwitcher";
+import { tagChipStyle } from "@/components/TagChips";
+import { isDealInPipeline, usePipeline, usePipelineSelection } from "@/hooks/usePipeline";
+import { useTags } from "@/hooks/useTags";
+import type { Contact, Deal, PipelineStage, Task } from "@/lib/types";
 import { cn } from "@/lib/utils";
+import { findStage } from "@shared/pipelineStages";
+import { countTags, type TagDefinition } from "@shared/tags";
 
 interface AdvancedMetricsPanelProps {
   deals: Deal[];
   tasks: Task[];
   contacts: Contact[];
   isLoading?: boolean;
+  /** Pipeline analizado; sin valor, el predeterminado. */
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string) => void;
 }
 
 type StageSummary = {
@@ -47,6 +56,14 @@ type DistributionPoint = {
   value: number;
 };
 
+type TagUsage = {
+  tag: TagDefinition;
+  deals: number;
+  openAmount: number;
+  contacts: number;
+  tasks: number;
+};
+
 type Suggestion = {
   title: string;
   description: string;
@@ -97,19 +114,9 @@ function getDaysFromNow(dateLike?: string | null): number | null {
   return Math.round(diffMs / (1000 * 60 * 60 * 24));
 }
 
-function getStageOrder(stage: string): number {
-  const order: Record<string, number> = {
-    Prospección: 1,
-    "Prospeccion": 1,
-    "Calificación": 2,
-    "Calificacion": 2,
-    Descubrimiento: 3,
-    "Propuesta": 4,
-    "Negociación": 5,
-    "Negotiación": 5,
-    "Cierre": 6,
-  };
-  return order[stage] ?? 99;
+// Las etapas que ya no existen en el pipeline van al final
+function getStageOrder(stages: PipelineStage[], stage: string): number {
+  return findStage(stages, stage)?.order_index ?? Number.MAX_SAFE_INTEGER;
 }
 
 function EmptyState({ label }: { label: string }) {
@@ -159,12 +166,18 @@ function LoadingPlaceholder() {
 }
 
 export default function AdvancedMetricsPanel({
-  deals,
+  deals: allDeals,
   tasks,
   contacts,
   isLoading,
+  pipelineId: controlledPipelineId,
+  onPipelineChange,
 }: AdvancedMetricsPanelProps) {
-  const loading = isLoading ?? false;
+  const [pipelineId, changePipeline] = usePipelineSelection(controlledPipelineId, onPipelineChange);
+  const { pipelines, pipeline, stages: pipelineStages, isLoading: stagesLoading } = usePipeline(pipelineId);
+  const deals = useMemo(() => allDeals.filter((deal) => isDealInPipeline(deal, pipeline)), [allDeals, pipeline]);
+  const { tags } = useTags();
+  const loading = (isLoading ?? false) || stagesLoading;
 
   const stageSummary = useMemo<StageSummary[]>(() => {
     if (!deals?.length) return [];
@@ -191,7 +204,7 @@ export default function AdvancedMetricsPanel({
 
     return Object.values(grouped)
       .sort((a, b) => {
-        const orderDiff = getStageOrder(a.stage) - getStageOrder(b.stage);
+        const orderDiff = getStageOrder(pipelineStages, a.stage) - getStageOrder(pipelineStages, b.stage);
         if (orderDiff !== 0) return orderDiff;
         return b.value - a.value;
       })
@@ -200,7 +213,7 @@ export default function AdvancedMetricsPanel({
         value: Math.round(summary.value),
         weighted: Math.round(summary.weighted),
       }));
-  }, [deals]);
+  }, [deals, pipelineStages]);
 
   const forecastSeries = useMemo<ForecastPoint[]>(() => {
     if (!deals?.length) return [];
@@ -283,6 +296,30 @@ export default function AdvancedMetricsPanel({
     ].filter((segment) => segment.value > 0);
   }, [contacts]);
 
+  // Uso de cada etiqueta en el pipeline analizado, de más a menos usada
+  const tagUsage = useMemo<TagUsage[]>(() => {
+    if (!tags.length) return [];
+    const countsById = (records: { tag_ids?: string[] }[]) =>
+      new Map(countTags(records, tags).map(({ tag, count }) => [tag.id, count]));
+    const dealCounts = countsById(deals);
+    const contactCounts = countsById(contacts);
+    const taskCounts = countsById(tasks);
+    const openAmount = new Map<string, number>();
+    deals
+      .filter((deal) => deal.status === "Open")
+      .forEach((deal) => {
+        for (const id of deal.tag_ids ?? []) openAmount.set(id, (openAmount.get(id) ?? 0) + (deal.amount ?? 0));
+      });
+
+    return countTags([...deals, ...contacts, ...tasks], tags).map(({ tag }) => ({
+      tag,
+      deals: dealCounts.get(tag.id) ?? 0,
+      openAmount: openAmount.get(tag.id) ?? 0,
+      contacts: contactCounts.get(tag.id) ?? 0,
+      tasks: taskCounts.get(tag.id) ?? 0,
+    }));
+  }, [deals, contacts, tasks, tags]);
+
   const metrics = useMemo(() => {
     const totalDeals = deals?.length ?? 0;
     const dealsWithAmount = deals?.filter((deal) => typeof deal.amount === "number" && !Number.isNaN(deal.amount)) ?? [];
@@ -443,6 +480,11 @@ export default function AdvancedMetricsPanel({
 
   return (
     <div className="space-y-6">
+      {pipelines.length > 1 && (
+        <div className="flex justify-end">
+          <PipelineSwitcher value={pipeline?.id} onChange={changePipeline} />
+        </div>
+      )}
       <Card>
         <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
           <MetricHighlight
@@ -635,6 +677,47 @@ export default function AdvancedMetricsPanel({
         </Card>
       </div>
 
+      {tagUsage.length > 0 && (
+        <Card>
+          <div className="flex items-center gap-3">
+            <TagIcon className="h-5 w-5 text-sky-300" />
+            <h3 className="text-lg font-semibold text-white">Etiquetas</h3>
+          </div>
+          <p className="text-sm text-white/60">Registros por etiqueta e importe abierto de sus deals</p>
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm text-white/80" data-testid="table-tag-usage">
+              <thead className="text-left text-xs uppercase tracking-wide text-white/50">
+                <tr>
+                  <th className="pb-2 font-medium">Etiqueta</th>
+                  <th className="pb-2 text-right font-medium">Deals</th>
+                  <th className="pb-2 text-right font-medium">Importe abierto</th>
+                  <th className="pb-2 text-right font-medium">Contactos</th>
+                  <th className="pb-2 text-right font-medium">Tareas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tagUsage.map((usage) => (
+                  <tr key={usage.tag.id} className="border-t border-white/10">
+                    <td className="py-2">
+                      <span
+                        className="inline-flex rounded-full border px-2 py-0.5 text-xs font-medium"
+                        style={tagChipStyle(usage.tag.color)}
+                      >
+                        {usage.tag.name}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">{usage.deals}</td>
+                    <td className="py-2 text-right">{formatterCurrency.format(usage.openAmount)}</td>
+                    <td className="py-2 text-right">{usage.contacts}</td>
+                    <td className="py-2 text-right">{usage.tasks}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <div className="flex items-center gap-3">
@@ -0,0 +1,426 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, History, Pencil, Plus, Send, Trash2 } from "lucide-react";
+import {
+  ALERT_CHANNEL_FORMAT_LABELS,
+  ALERT_CHANNEL_FORMATS,
+  ALERT_CHANNEL_INTERVALS,
+  ALERT_DELIVERY_STATUS_LABELS,
+  ALERT_DELIVERY_TRIGGER_LABELS,
+  DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS,
+  alertChannelIntervalLabel,
+  describeAlertChannelFilters,
+  type AlertChannelFormat,
+} from "@shared/alertChannels";
+import {
+  DEAL_ALERT_SENSITIVITIES,
+  DEAL_ALERT_SENSITIVITY_LABELS,
+  type DealAlertSensitivity,
+} from "@shared/dealAlerts";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { usePipeline } from "@/hooks/usePipeline";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { Pipeline, User } from "@/lib/types";
+
+interface AlertChannelsEditorProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type View =
+  | { kind: "list" }
+  | { kind: "edit"; channel: api.AlertChannel | null }
+  | { kind: "deliveries"; channel: api.AlertChannel };
+
+const URL_PLACEHOLDERS: Record<AlertChannelFormat, string> = {
+  slack: "https://hooks.slack.com/services/…",
+  teams: "https://…webhook.office.com/…",
+  json: "https://ejemplo.com/webhook",
+};
+
+function formatDeliveryDate(iso: string) {
+  return new Date(iso).toLocaleString("es-ES", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function userName(users: User[], id: string) {
+  const user = users.find((candidate) => candidate.id === id);
+  return user ? user.full_name || user.username : "Usuario eliminado";
+}
+
+function pipelineName(pipelines: Pipeline[], id: string) {
+  return pipelines.find((candidate) => candidate.id === id)?.name ?? "Pipeline eliminado";
+}
+
+/**
+ * Canales de alertas: webhooks de Slack, Teams o JSON a los que el servidor
+ * envía las alertas abiertas cada cierto tiempo, con su registro de envíos.
+ * Solo para administradores y en modo API.
+ */
+export default function AlertChannelsEditor({ open, onClose }: AlertChannelsEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [view, setView] = useState<View>({ kind: "list" });
+  const { pipelines } = usePipeline();
+
+  const { data: channels = [] } = useQuery({
+    queryKey: QUERY_KEYS.alertChannels,
+    queryFn: api.getAlertChannels,
+    enabled: open,
+  });
+  const { data: users = [] } = useQuery<User[]>({ queryKey: QUERY_KEYS.users, queryFn: api.getUsers, enabled: open });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: QUERY_KEYS.alertChannels });
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar el canal",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string | null; input: api.AlertChannelInput }) =>
+      id ? api.updateAlertChannel(id, input) : api.createAlertChannel(input),
+    onSuccess: () => {
+      setView({ kind: "list" });
+      onSuccess();
+    },
+    onError,
+  });
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => api.updateAlertChannel(id, { enabled }),
+    onSuccess,
+    onError,
+  });
+  const deleteMutation = useMutation({ mutationFn: api.deleteAlertChannel, onSuccess, onError });
+  const sendMutation = useMutation({
+    mutationFn: api.sendAlertChannel,
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.alertDeliveries });
+      toast(
+        delivery.status === "delivered"
+          ? { title: "Alertas enviadas", description: `${delivery.alert_count} alertas enviadas al canal.` }
+          : { title: "No se pudo enviar", description: delivery.error ?? undefined, variant: "destructive" },
+      );
+    },
+    onError,
+  });
+
+  const close = () => {
+    setView({ kind: "list" });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Canales de alertas</DialogTitle>
+          <DialogDescription>
+            El servidor envía a cada canal las alertas abiertas que cumplen sus filtros, con la frecuencia elegida. Si
+            el webhook falla se reintenta dos veces; sin alertas que enviar, el canal no recibe nada.
+          </DialogDescription>
+        </DialogHeader>
+
+        {view.kind === "list" && (
+          <div className="space-y-2">
+            {channels.length === 0 && (
+              <p className="py-2 text-center text-sm text-muted-foreground">Aún no hay canales de alertas.</p>
+            )}
+            {channels.map((channel) => (
+              <ChannelRow
+                key={channel.id}
+                channel={channel}
+                summary={describeAlertChannelFilters(
+                  channel,
+                  (id) => userName(users, id),
+                  (id) => pipelineName(pipelines, id),
+                )}
+                sending={sendMutation.isPending && sendMutation.variables === channel.id}
+                onToggle={(enabled) => toggleMutation.mutate({ id: channel.id, enabled })}
+                onSend={() => sendMutation.mutate(channel.id)}
+                onEdit={() => setView({ kind: "edit", channel })}
+                onShowDeliveries={() => setView({ kind: "deliveries", channel })}
+                onDelete={() => deleteMutation.mutate(channel.id)}
+              />
+            ))}
+            <Button onClick={() => setView({ kind: "edit", channel: null })} data-testid="button-new-alert-channel">
+              <Plus className="mr-1 h-4 w-4" />
+              Nuevo canal
+            </Button>
+          </div>
+        )}
+
+        {view.kind === "edit" && (
+          <ChannelForm
+            channel={view.channel}
+            users={users}
+            pipelines={pipelines}
+            saving={saveMutation.isPending}
+            onCancel={() => setView({ kind: "list" })}
+            onSave={(input) => saveMutation.mutate({ id: view.channel?.id ?? null, input })}
+          />
+        )}
+
+        {view.kind === "deliveries" && (
+          <DeliveriesLog channel={view.channel} onBack={() => setView({ kind: "list" })} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ChannelRowProps {
+  channel: api.AlertChannel;
+  summary: string;
+  sending: boolean;
+  onToggle: (enabled: boolean) => void;
+  onSend: () => void;
+  onEdit: () => void;
+  onShowDeliveries: () => void;
+  onDelete: () => void;
+}
+
+function ChannelRow({
+  channel,
+  summary,
+  sending,
+  onToggle,
+  onSend,
+  onEdit,
+  onShowDeliveries,
+  onDelete,
+}: ChannelRowProps) {
+  const [confirming, setConfirming] = useState(false);
+
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-border p-3" data-testid={`alert-channel-${channel.id}`}>
+      <Switch checked={channel.enabled} onCheckedChange={onToggle} aria-label={`Activar ${channel.name}`} />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <p className="font-medium">{channel.name}</p>
+          <Badge variant="outline">{ALERT_CHANNEL_FORMAT_LABELS[channel.format]}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {alertChannelIntervalLabel(channel.interval_hours)} · {summary}
+        </p>
+        {channel.last_sent_at && (
+          <p className="text-xs text-muted-foreground">Último envío: {formatDeliveryDate(channel.last_sent_at)}</p>
+        )}
+      </div>
+      <Button variant="ghost" size="icon" onClick={onSend} disabled={sending} aria-label="Enviar ahora">
+        <Send className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onShowDeliveries} aria-label="Registro de envíos">
+        <History className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onEdit} aria-label="Editar canal">
+        <Pencil className="h-4 w-4" />
+      </Button>
+      {confirming ? (
+        <>
+          <Button variant="destructive" size="sm" onClick={onDelete}>
+            Borrar
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+            No
+          </Button>
+        </>
+      ) : (
+        <Button variant="ghost" size="icon" onClick={() => setConfirming(true)} aria-label="Borrar canal">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface ChannelFormProps {
+  channel: api.AlertChannel | null;
+  users: User[];
+  pipelines: Pipeline[];
+  saving: boolean;
+  onCancel: () => void;
+  onSave: (input: api.AlertChannelInput) => void;
+}
+
+function ChannelForm({ channel, users, pipelines, saving, onCancel, onSave }: ChannelFormProps) {
+  const [name, setName] = useState(channel?.name ?? "");
+  const [format, setFormat] = useState<AlertChannelFormat>(channel?.format ?? "slack");
+  const [url, setUrl] = useState(channel?.url ?? "");
+  const [intervalHours, setIntervalHours] = useState(channel?.interval_hours ?? DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS);
+  const [severity, setSeverity] = useState<DealAlertSensitivity>(channel?.severity ?? "all");
+  const [ownerIds, setOwnerIds] = useState<string[]>(channel?.owner_ids ?? []);
+  const [pipelineIds, setPipelineIds] = useState<string[]>(channel?.pipeline_ids ?? []);
+
+  // Un intervalo guardado por API que no está entre las opciones también se puede elegir
+  const intervals = ALERT_CHANNEL_INTERVALS.some((option) => option.hours === intervalHours)
+    ? ALERT_CHANNEL_INTERVALS
+    : [...ALERT_CHANNEL_INTERVALS, { hours: intervalHours, label: alertChannelIntervalLabel(intervalHours) }];
+  const toggle = (list: string[], id: string, checked: boolean) =>
+    checked ? [...list, id] : list.filter((candidate) => candidate !== id);
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim(),
+      format,
+      url: url.trim(),
+      interval_hours: intervalHours,
+      severity,
+      owner_ids: ownerIds,
+      pipeline_ids: pipelineIds,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Nombre del canal" />
+        <Select value={format} onValueChange={(value) => setFormat(value as AlertChannelFormat)}>
+          <SelectTrigger aria-label="Formato">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_CHANNEL_FORMATS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {ALERT_CHANNEL_FORMAT_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        type="url"
+        value={url}
+        onChange={(event) => setUrl(event.target.value)}
+        placeholder={URL_PLACEHOLDERS[format]}
+        aria-label="URL del webhook"
+      />
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Select value={String(intervalHours)} onValueChange={(value) => setIntervalHours(Number(value))}>
+          <SelectTrigger aria-label="Frecuencia">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {intervals.map((option) => (
+              <SelectItem key={option.hours} value={String(option.hours)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={severity} onValueChange={(value) => setSeverity(value as DealAlertSensitivity)}>
+          <SelectTrigger aria-label="Severidad">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEAL_ALERT_SENSITIVITIES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {DEAL_ALERT_SENSITIVITY_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium">Owners</h3>
+        <p className="text-xs text-muted-foreground">Sin marcar ninguno se envían las alertas de todos.</p>
+        <div className="grid gap-1 sm:grid-cols-2">
+          {users.map((user) => (
+            <label key={user.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={ownerIds.includes(user.id)}
+                onCheckedChange={(checked) => setOwnerIds((current) => toggle(current, user.id, checked === true))}
+              />
+              {user.full_name || user.username}
+            </label>
+          ))}
+        </div>
+      </section>
+
+      {pipelines.length > 1 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Pipelines</h3>
+          <p className="text-xs text-muted-foreground">Sin marcar ninguno se envían las de todos.</p>
+          <div className="grid gap-1 sm:grid-cols-2">
+            {pipelines.map((pipeline) => (
+              <label key={pipeline.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={pipelineIds.includes(pipeline.id)}
+                  onCheckedChange={(checked) =>
+                    setPipelineIds((current) => toggle(current, pipeline.id, checked === true))
+                  }
+                />
+                {pipeline.name}
+              </label>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={!name.trim() || !url.trim() || saving}
+          data-testid="button-save-alert-channel"
+        >
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DeliveriesLog({ channel, onBack }: { channel: api.AlertChannel; onBack: () => void }) {
+  const { data: deliveries = [], isLoading } = useQuery({
+    queryKey: [...QUERY_KEYS.alertDeliveries, channel.id],
+    queryFn: () => api.getAlertDeliveries(channel.id),
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={onBack} aria-label="Volver">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h3 className="font-medium">Envíos a «{channel.name}»</h3>
+      </div>
+      {!isLoading && deliveries.length === 0 && (
+        <p className="py-2 text-center text-sm text-muted-foreground">Aún no se ha enviado nada a este canal.</p>
+      )}
+      {deliveries.map((delivery) => (
+        <div
+          key={delivery.id}
+          className="space-y-1 rounded-lg border border-border p-2"
+          data-testid={`alert-delivery-${delivery.id}`}
+        >
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant={delivery.status === "delivered" ? "secondary" : "destructive"}>
+              {ALERT_DELIVERY_STATUS_LABELS[delivery.status]}
+            </Badge>
+            <span className="flex-1 truncate">
+              {ALERT_DELIVERY_TRIGGER_LABELS[delivery.trigger]} · {delivery.alert_count} alerta
+              {delivery.alert_count === 1 ? "" : "s"}
+              {delivery.attempts > 1 && ` · ${delivery.attempts} intentos`}
+            </span>
+            <span className="text-xs text-muted-foreground">{formatDeliveryDate(delivery.created_at)}</span>
+          </div>
+          {delivery.error && <p className="text-xs text-destructive">{delivery.error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
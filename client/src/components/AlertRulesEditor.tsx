@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  DEAL_ALERT_RULE_DEFINITIONS,
+  DEAL_ALERT_SEVERITIES,
+  DEAL_ALERT_SEVERITY_LABELS,
+  MAX_ALERT_ACTION_LENGTH,
+  type DealAlertRule,
+  type DealAlertRuleConfig,
+  type DealAlertSeverity,
+  type UpdateDealAlertRule,
+} from "@shared/dealAlerts";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useDealAlertRules } from "@/hooks/useDealAlertRules";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+interface AlertRulesEditorProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Reglas de alerta de deals: activarlas, su severidad, sus umbrales y la
+ * acción recomendada. Solo para administradores y en modo API.
+ */
+export default function AlertRulesEditor({ open, onClose }: AlertRulesEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { rules } = useDealAlertRules();
+
+  const saveMutation = useMutation({
+    mutationFn: ({ rule, patch }: { rule: DealAlertRule; patch: UpdateDealAlertRule }) =>
+      api.updateDealAlertRule(rule, patch),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEYS.dealAlertRules }),
+    onError: (error: unknown) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar la regla",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reglas de alertas</DialogTitle>
+          <DialogDescription>
+            Cada deal abierto se evalúa con las reglas activas; la más grave decide la severidad y la acción que se
+            muestra primero.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rules.map((config) => (
+            <RuleCard
+              // Al guardar llega la configuración nueva: el borrador vuelve a partir de ella
+              key={JSON.stringify(config)}
+              config={config}
+              saving={saveMutation.isPending}
+              onSave={(patch) => saveMutation.mutate({ rule: config.rule, patch })}
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RuleCardProps {
+  config: DealAlertRuleConfig;
+  saving: boolean;
+  onSave: (patch: UpdateDealAlertRule) => void;
+}
+
+function RuleCard({ config, saving, onSave }: RuleCardProps) {
+  const definition = DEAL_ALERT_RULE_DEFINITIONS[config.rule];
+  const [params, setParams] = useState(() =>
+    Object.fromEntries(Object.entries(config.params).map(([key, value]) => [key, String(value)])),
+  );
+  const [action, setAction] = useState(config.recommended_action);
+  const dirty =
+    action.trim() !== config.recommended_action ||
+    definition.params.some((param) => Number(params[param.key]) !== config.params[param.key]);
+
+  const handleSave = () => {
+    onSave({
+      params: Object.fromEntries(definition.params.map((param) => [param.key, Number(params[param.key])])),
+      // Vacío vuelve al texto por defecto
+      recommended_action: action.trim() || null,
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3" data-testid={`alert-rule-${config.rule}`}>
+      <div className="flex items-start gap-3">
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={(enabled) => onSave({ enabled })}
+          aria-label={`Activar ${definition.label}`}
+        />
+        <div className="min-w-0 flex-1">
+          <p className="font-medium">{definition.label}</p>
+          <p className="text-sm text-muted-foreground">{definition.description}</p>
+        </div>
+        <Select value={config.severity} onValueChange={(value) => onSave({ severity: value as DealAlertSeverity })}>
+          <SelectTrigger className="w-32" aria-label="Severidad">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEAL_ALERT_SEVERITIES.map((severity) => (
+              <SelectItem key={severity} value={severity}>
+                {DEAL_ALERT_SEVERITY_LABELS[severity]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {definition.params.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {definition.params.map((param) => (
+            <label key={param.key} className="flex flex-col gap-1 text-xs text-muted-foreground">
+              {param.label}
+              <Input
+                type="number"
+                className="w-32"
+                min={param.min}
+                max={param.max}
+                value={params[param.key] ?? ""}
+                onChange={(event) => setParams((current) => ({ ...current, [param.key]: event.target.value }))}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+        Acción recomendada
+        <Input
+          value={action}
+          maxLength={MAX_ALERT_ACTION_LENGTH}
+          placeholder={definition.recommendedAction}
+          onChange={(event) => setAction(event.target.value)}
+        />
+      </label>
+
+      {dirty && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            Guardar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,600 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, History, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_CONDITION_FIELDS,
+  AUTOMATION_OPERATOR_LABELS,
+  AUTOMATION_OPERATORS,
+  AUTOMATION_SETTABLE_FIELDS,
+  AUTOMATION_TASK_PRIORITIES,
+  AUTOMATION_TRIGGER_ENTITY,
+  AUTOMATION_TRIGGER_LABELS,
+  AUTOMATION_TRIGGERS,
+  MAX_AUTOMATION_ACTIONS,
+  MAX_AUTOMATION_CONDITIONS,
+  describeAutomationRule,
+  type AutomationAction,
+  type AutomationActionType,
+  type AutomationCondition,
+  type AutomationFieldDefinition,
+  type AutomationOperator,
+  type AutomationRunStatus,
+  type AutomationTrigger,
+} from "@shared/automations";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { User } from "@/lib/types";
+
+interface AutomationsEditorProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type View =
+  | { kind: "list" }
+  | { kind: "edit"; rule: api.AutomationRule | null }
+  | { kind: "runs"; rule: api.AutomationRule };
+
+const RUN_STATUS_LABELS: Record<AutomationRunStatus, string> = {
+  success: "Correcta",
+  partial: "Parcial",
+  failed: "Fallida",
+};
+
+const RUN_STATUS_VARIANTS: Record<AutomationRunStatus, "secondary" | "outline" | "destructive"> = {
+  success: "secondary",
+  partial: "outline",
+  failed: "destructive",
+};
+
+function fieldLabel(fields: readonly AutomationFieldDefinition[], key: string): string {
+  return fields.find((field) => field.key === key)?.label ?? key;
+}
+
+function formatRunDate(iso: string) {
+  return new Date(iso).toLocaleString("es-ES", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Reglas de automatización ("cuando se crea un deal Hot, crea una tarea") y
+ * su registro de ejecuciones. Solo para administradores y en modo API.
+ */
+export default function AutomationsEditor({ open, onClose }: AutomationsEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [view, setView] = useState<View>({ kind: "list" });
+
+  const { data: rules = [] } = useQuery({
+    queryKey: QUERY_KEYS.automations,
+    queryFn: api.getAutomationRules,
+    enabled: open,
+  });
+  const { data: users = [] } = useQuery<User[]>({ queryKey: QUERY_KEYS.users, queryFn: api.getUsers, enabled: open });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: QUERY_KEYS.automations });
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar la regla",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string | null; input: api.AutomationRuleInput }) =>
+      id ? api.updateAutomationRule(id, input) : api.createAutomationRule(input),
+    onSuccess: () => {
+      setView({ kind: "list" });
+      onSuccess();
+    },
+    onError,
+  });
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => api.updateAutomationRule(id, { enabled }),
+    onSuccess,
+    onError,
+  });
+  const deleteMutation = useMutation({ mutationFn: api.deleteAutomationRule, onSuccess, onError });
+
+  const close = () => {
+    setView({ kind: "list" });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Automatizaciones</DialogTitle>
+          <DialogDescription>
+            Cuando ocurre el evento y se cumplen todas las condiciones, el servidor ejecuta las acciones en orden. Los
+            cambios que hace una regla no disparan otras reglas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {view.kind === "list" && (
+          <div className="space-y-2">
+            {rules.length === 0 && (
+              <p className="py-2 text-center text-sm text-muted-foreground">Aún no hay automatizaciones.</p>
+            )}
+            {rules.map((rule) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+                onToggle={(enabled) => toggleMutation.mutate({ id: rule.id, enabled })}
+                onEdit={() => setView({ kind: "edit", rule })}
+                onShowRuns={() => setView({ kind: "runs", rule })}
+                onDelete={() => deleteMutation.mutate(rule.id)}
+              />
+            ))}
+            <Button onClick={() => setView({ kind: "edit", rule: null })} data-testid="button-new-automation">
+              <Plus className="mr-1 h-4 w-4" />
+              Nueva regla
+            </Button>
+          </div>
+        )}
+
+        {view.kind === "edit" && (
+          <RuleForm
+            rule={view.rule}
+            users={users}
+            saving={saveMutation.isPending}
+            onCancel={() => setView({ kind: "list" })}
+            onSave={(input) => saveMutation.mutate({ id: view.rule?.id ?? null, input })}
+          />
+        )}
+
+        {view.kind === "runs" && <RunsLog rule={view.rule} onBack={() => setView({ kind: "list" })} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RuleRowProps {
+  rule: api.AutomationRule;
+  onToggle: (enabled: boolean) => void;
+  onEdit: () => void;
+  onShowRuns: () => void;
+  onDelete: () => void;
+}
+
+function RuleRow({ rule, onToggle, onEdit, onShowRuns, onDelete }: RuleRowProps) {
+  const [confirming, setConfirming] = useState(false);
+  const fields = AUTOMATION_CONDITION_FIELDS[AUTOMATION_TRIGGER_ENTITY[rule.trigger]];
+  const summary = describeAutomationRule(rule, (key) => fieldLabel(fields, key));
+
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-border p-3" data-testid={`automation-${rule.id}`}>
+      <Switch checked={rule.enabled} onCheckedChange={onToggle} aria-label={`Activar ${rule.name}`} />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium">{rule.name}</p>
+        <p className="text-sm text-muted-foreground">{summary}</p>
+        {rule.last_run_at && (
+          <p className="text-xs text-muted-foreground">Última ejecución: {formatRunDate(rule.last_run_at)}</p>
+        )}
+      </div>
+      <Button variant="ghost" size="icon" onClick={onShowRuns} aria-label="Registro de ejecuciones">
+        <History className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onEdit} aria-label="Editar regla">
+        <Pencil className="h-4 w-4" />
+      </Button>
+      {confirming ? (
+        <>
+          <Button variant="destructive" size="sm" onClick={onDelete}>
+            Borrar
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+            No
+          </Button>
+        </>
+      ) : (
+        <Button variant="ghost" size="icon" onClick={() => setConfirming(true)} aria-label="Borrar regla">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function defaultAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case "create_task":
+      return { type, title: "", due_in_days: 1, priority: "Media" };
+    case "assign_owner":
+      return { type, owner_id: "" };
+    case "set_field":
+      return { type, field: "", value: "" };
+    case "log_timeline":
+      return { type, message: "" };
+    case "webhook":
+      return { type, url: "" };
+  }
+}
+
+interface RuleFormProps {
+  rule: api.AutomationRule | null;
+  users: User[];
+  saving: boolean;
+  onCancel: () => void;
+  onSave: (input: api.AutomationRuleInput) => void;
+}
+
+function RuleForm({ rule, users, saving, onCancel, onSave }: RuleFormProps) {
+  const [name, setName] = useState(rule?.name ?? "");
+  const [trigger, setTrigger] = useState<AutomationTrigger>(rule?.trigger ?? "deal_created");
+  const [conditions, setConditions] = useState<AutomationCondition[]>(rule?.conditions ?? []);
+  const [actions, setActions] = useState<AutomationAction[]>(rule?.actions ?? [defaultAction("create_task")]);
+  const entity = AUTOMATION_TRIGGER_ENTITY[trigger];
+  const conditionFields = AUTOMATION_CONDITION_FIELDS[entity];
+  const settableFields = AUTOMATION_SETTABLE_FIELDS[entity];
+
+  const changeTrigger = (next: AutomationTrigger) => {
+    setTrigger(next);
+    // Los campos de otra entidad dejan de valer
+    if (AUTOMATION_TRIGGER_ENTITY[next] !== entity) {
+      setConditions([]);
+      setActions((current) =>
+        current.map((action) => (action.type === "set_field" ? defaultAction("set_field") : action)),
+      );
+    }
+  };
+  const updateCondition = (index: number, patch: Partial<AutomationCondition>) =>
+    setConditions((current) => current.map((condition, i) => (i === index ? { ...condition, ...patch } : condition)));
+  const updateAction = (index: number, next: AutomationAction) =>
+    setActions((current) => current.map((action, i) => (i === index ? next : action)));
+
+  const handleSave = () => {
+    // Los campos numéricos se comparan como número
+    const normalized = conditions.map((condition) =>
+      conditionFields.find((field) => field.key === condition.field)?.type === "number"
+        ? { ...condition, value: Number(condition.value) }
+        : condition,
+    );
+    onSave({ name: name.trim(), trigger, conditions: normalized, actions });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Nombre de la regla" />
+        <Select value={trigger} onValueChange={(value) => changeTrigger(value as AutomationTrigger)}>
+          <SelectTrigger aria-label="Disparador">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AUTOMATION_TRIGGERS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {AUTOMATION_TRIGGER_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium">Condiciones</h3>
+        {conditions.length === 0 && (
+          <p className="text-sm text-muted-foreground">Sin condiciones: se aplica siempre.</p>
+        )}
+        {conditions.map((condition, index) => (
+          <ConditionRow
+            key={index}
+            condition={condition}
+            fields={conditionFields}
+            onChange={(patch) => updateCondition(index, patch)}
+            onRemove={() => setConditions((current) => current.filter((_, i) => i !== index))}
+          />
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={conditions.length >= MAX_AUTOMATION_CONDITIONS}
+          onClick={() =>
+            setConditions((current) => [...current, { field: conditionFields[0].key, operator: "eq", value: "" }])
+          }
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Añadir condición
+        </Button>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium">Acciones</h3>
+        {actions.map((action, index) => (
+          <ActionRow
+            key={index}
+            action={action}
+            users={users}
+            settableFields={settableFields}
+            onChange={(next) => updateAction(index, next)}
+            onRemove={
+              actions.length > 1 ? () => setActions((current) => current.filter((_, i) => i !== index)) : undefined
+            }
+          />
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={actions.length >= MAX_AUTOMATION_ACTIONS}
+          onClick={() => setActions((current) => [...current, defaultAction("log_timeline")])}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Añadir acción
+        </Button>
+      </section>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button onClick={handleSave} disabled={!name.trim() || saving} data-testid="button-save-automation">
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ConditionRowProps {
+  condition: AutomationCondition;
+  fields: readonly AutomationFieldDefinition[];
+  onChange: (patch: Partial<AutomationCondition>) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, fields, onChange, onRemove }: ConditionRowProps) {
+  const field = fields.find((candidate) => candidate.key === condition.field);
+  // Los textos y opciones solo admiten "es" y "no es"
+  const operators = field?.type === "number" ? AUTOMATION_OPERATORS : (["eq", "neq"] as const);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={condition.field} onValueChange={(value) => onChange({ field: value, operator: "eq", value: "" })}>
+        <SelectTrigger className="w-40" aria-label="Campo">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map((option) => (
+            <SelectItem key={option.key} value={option.key}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={condition.operator} onValueChange={(value) => onChange({ operator: value as AutomationOperator })}>
+        <SelectTrigger className="w-44" aria-label="Operador">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {AUTOMATION_OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <FieldValueInput field={field} value={String(condition.value)} onChange={(value) => onChange({ value })} />
+      <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Quitar condición">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface FieldValueInputProps {
+  field: AutomationFieldDefinition | undefined;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function FieldValueInput({ field, value, onChange }: FieldValueInputProps) {
+  if (field?.options) {
+    return (
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="flex-1" aria-label="Valor">
+          <SelectValue placeholder="Valor" />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+  return (
+    <Input
+      type={field?.type === "number" ? "number" : "text"}
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      placeholder="Valor"
+      className="flex-1"
+    />
+  );
+}
+
+interface ActionRowProps {
+  action: AutomationAction;
+  users: User[];
+  settableFields: readonly AutomationFieldDefinition[];
+  onChange: (action: AutomationAction) => void;
+  onRemove?: () => void;
+}
+
+function ActionRow({ action, users, settableFields, onChange, onRemove }: ActionRowProps) {
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-2">
+      <div className="flex items-center gap-2">
+        <Select value={action.type} onValueChange={(value) => onChange(defaultAction(value as AutomationActionType))}>
+          <SelectTrigger className="w-56" aria-label="Acción">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AUTOMATION_ACTION_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {AUTOMATION_ACTION_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        {onRemove && (
+          <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Quitar acción">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <ActionFields action={action} users={users} settableFields={settableFields} onChange={onChange} />
+    </div>
+  );
+}
+
+function ActionFields({ action, users, settableFields, onChange }: Omit<ActionRowProps, "onRemove">) {
+  switch (action.type) {
+    case "create_task":
+      return (
+        <div className="grid gap-2 sm:grid-cols-[1fr_8rem_8rem]">
+          <Input
+            value={action.title}
+            onChange={(event) => onChange({ ...action, title: event.target.value })}
+            placeholder="Título de la tarea"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={action.due_in_days}
+            onChange={(event) => onChange({ ...action, due_in_days: Number(event.target.value) })}
+            aria-label="Vence en días"
+            title="Vence en (días)"
+          />
+          <Select
+            value={action.priority}
+            onValueChange={(value) => onChange({ ...action, priority: value as typeof action.priority })}
+          >
+            <SelectTrigger aria-label="Prioridad">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTOMATION_TASK_PRIORITIES.map((priority) => (
+                <SelectItem key={priority} value={priority}>
+                  {priority}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case "assign_owner":
+      return (
+        <Select
+          value={action.owner_id || undefined}
+          onValueChange={(value) => onChange({ ...action, owner_id: value })}
+        >
+          <SelectTrigger aria-label="Owner">
+            <SelectValue placeholder="Elige un usuario" />
+          </SelectTrigger>
+          <SelectContent>
+            {users.map((user) => (
+              <SelectItem key={user.id} value={user.id}>
+                {user.full_name || user.username}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "set_field": {
+      const field = settableFields.find((candidate) => candidate.key === action.field);
+      return (
+        <div className="flex gap-2">
+          <Select
+            value={action.field || undefined}
+            onValueChange={(value) => onChange({ ...action, field: value, value: "" })}
+          >
+            <SelectTrigger className="w-40" aria-label="Campo">
+              <SelectValue placeholder="Campo" />
+            </SelectTrigger>
+            <SelectContent>
+              {settableFields.map((option) => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FieldValueInput field={field} value={action.value} onChange={(value) => onChange({ ...action, value })} />
+        </div>
+      );
+    }
+    case "log_timeline":
+      return (
+        <Input
+          value={action.message}
+          onChange={(event) => onChange({ ...action, message: event.target.value })}
+          placeholder="Texto de la entrada del timeline"
+        />
+      );
+    case "webhook":
+      return (
+        <Input
+          type="url"
+          value={action.url}
+          onChange={(event) => onChange({ ...action, url: event.target.value })}
+          placeholder="https://ejemplo.com/webhook"
+        />
+      );
+  }
+}
+
+function RunsLog({ rule, onBack }: { rule: api.AutomationRule; onBack: () => void }) {
+  const { data: runs = [], isLoading } = useQuery({
+    queryKey: [...QUERY_KEYS.automationRuns, rule.id],
+    queryFn: () => api.getAutomationRuns(rule.id),
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={onBack} aria-label="Volver">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h3 className="font-medium">Ejecuciones de «{rule.name}»</h3>
+      </div>
+      {!isLoading && runs.length === 0 && (
+        <p className="py-2 text-center text-sm text-muted-foreground">Esta regla aún no se ha ejecutado.</p>
+      )}
+      {runs.map((run) => (
+        <div
+          key={run.id}
+          className="space-y-1 rounded-lg border border-border p-2"
+          data-testid={`automation-run-${run.id}`}
+        >
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant={RUN_STATUS_VARIANTS[run.status]}>{RUN_STATUS_LABELS[run.status]}</Badge>
+            <span className="flex-1 truncate">{run.entity_label ?? run.entity_id}</span>
+            <span className="text-xs text-muted-foreground">{formatRunDate(run.created_at)}</span>
+          </div>
+          <ul className="space-y-0.5 text-xs">
+            {run.results.map((result, index) => (
+              <li key={index} className={result.ok ? "text-muted-foreground" : "text-destructive"}>
+                {AUTOMATION_ACTION_LABELS[result.type]}: {result.detail}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, Loader2, X } from "lucide-react";
+import {
+  BULK_ACTION_LABELS,
+  BULK_ACTIONS,
+  BULK_PRIORITIES,
+  BULK_STATUSES,
+  bulkPermission,
+  describeBulkReport,
+  type BulkAction,
+  type BulkActionType,
+  type BulkEntity,
+  type BulkReport,
+} from "@shared/bulkActions";
+import * as api from "@/lib/api";
+import { QUERY_KEYS, type QueryKey } from "@/lib/queryKeys";
+import type { User } from "@/lib/types";
+import type { BulkSelection } from "@/hooks/useBulkSelection";
+import { getUserDisplayName, useCurrentUser } from "@/hooks/useCurrentUser";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTags } from "@/hooks/useTags";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+// Lo que puede cambiar tras la operación: el propio listado, métricas, tareas de seguimiento y timeline
+const INVALIDATES: Record<BulkEntity, QueryKey[]> = {
+  deals: [
+    QUERY_KEYS.deals,
+    QUERY_KEYS.hotDeal,
+    QUERY_KEYS.stalledDeals,
+    QUERY_KEYS.quickMetrics,
+    QUERY_KEYS.funnel,
+    QUERY_KEYS.tasks,
+    QUERY_KEYS.timeline,
+    QUERY_KEYS.dealTimeline,
+  ],
+  contacts: [
+    QUERY_KEYS.contacts,
+    QUERY_KEYS.contactDuplicates,
+    QUERY_KEYS.deals,
+    QUERY_KEYS.tasks,
+    QUERY_KEYS.timeline,
+  ],
+  companies: [QUERY_KEYS.companies, QUERY_KEYS.companyDuplicates, QUERY_KEYS.contacts, QUERY_KEYS.deals],
+  tasks: [QUERY_KEYS.tasks, QUERY_KEYS.timeline],
+};
+
+const OWNER_LABELS: Record<BulkEntity, string> = {
+  deals: "Nuevo owner",
+  contacts: "Nuevo owner",
+  companies: "Nuevo owner",
+  tasks: "Asignar a",
+};
+
+interface BulkForm {
+  owner_id: string;
+  stage: string;
+  priority: string;
+  status: string;
+  close_reason: string;
+  title: string;
+  due_at: string;
+  task_priority: string;
+  tag_id: string;
+}
+
+const EMPTY_FORM: BulkForm = {
+  owner_id: "",
+  stage: "",
+  priority: "",
+  status: "",
+  close_reason: "",
+  title: "",
+  due_at: "",
+  task_priority: "Media",
+  tag_id: "",
+};
+
+const TAG_ACTIONS: readonly BulkActionType[] = ["add_tag", "remove_tag"];
+
+function buildAction(type: BulkActionType, form: BulkForm): BulkAction | null {
+  switch (type) {
+    case "set_owner":
+      return form.owner_id ? { type, owner_id: form.owner_id } : null;
+    case "set_stage":
+      return form.stage ? { type, stage: form.stage } : null;
+    case "set_priority":
+      return form.priority ? { type, priority: form.priority } : null;
+    case "set_status":
+      return form.status ? { type, status: form.status, close_reason: form.close_reason.trim() || null } : null;
+    case "create_task":
+      return form.title.trim()
+        ? {
+            type,
+            title: form.title.trim(),
+            due_at: form.due_at ? new Date(form.due_at).toISOString() : null,
+            priority: form.task_priority,
+          }
+        : null;
+    case "add_tag":
+    case "remove_tag":
+      return form.tag_id ? { type, tag_id: form.tag_id } : null;
+    default:
+      return { type: "delete" };
+  }
+}
+
+interface BulkActionsBarProps {
+  entity: BulkEntity;
+  selection: BulkSelection;
+  /** Etapas del pipeline visible, para "Cambiar etapa". */
+  stages?: string[];
+  /** Nombre del registro para listar los fallos del informe. */
+  recordLabel: (id: string) => string;
+}
+
+/**
+ * Barra de acciones sobre los registros seleccionados. La acción se envía
+ * como una sola operación al servidor, que devuelve un informe por registro.
+ */
+export default function BulkActionsBar({ entity, selection, stages = [], recordLabel }: BulkActionsBarProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { user } = useCurrentUser();
+  const [actionType, setActionType] = useState<BulkActionType | null>(null);
+  const [form, setForm] = useState<BulkForm>(EMPTY_FORM);
+  const [report, setReport] = useState<BulkReport | null>(null);
+
+  // Sin permiso para ver el equipo solo se puede asignar a uno mismo
+  const canListUsers = can("users:view");
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: QUERY_KEYS.users,
+    queryFn: api.getUsers,
+    enabled: canListUsers,
+  });
+  const owners = canListUsers ? users : user ? [user] : [];
+  const { tags } = useTags();
+
+  const actions = BULK_ACTIONS[entity].filter((type) => {
+    if (TAG_ACTIONS.includes(type) && !tags.length) return false;
+    const permission = bulkPermission(entity, type);
+    return !permission || can(permission);
+  });
+
+  const mutation = useMutation({
+    mutationFn: (action: BulkAction) => api.runBulkAction(entity, selection.selectedIds, action),
+    onSuccess: (result) => {
+      INVALIDATES[entity].forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      setReport(result);
+      toast({
+        title: result.failed ? "Acción completada con errores" : "Acción completada",
+        description: describeBulkReport(result),
+        variant: result.failed ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo completar la acción en bloque",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Con el diálogo abierto la barra sigue aunque lo borrado ya no esté en la selección
+  if ((!selection.count && actionType === null) || !actions.length) return null;
+
+  const open = (type: BulkActionType) => {
+    setForm(EMPTY_FORM);
+    setReport(null);
+    setActionType(type);
+  };
+
+  const close = () => {
+    // Tras una operación la selección ya no tiene sentido: lo borrado o cambiado puede no estar en la vista
+    if (report) selection.clear();
+    setActionType(null);
+    setReport(null);
+  };
+
+  const action = actionType ? buildAction(actionType, form) : null;
+  const needsCloseReason =
+    entity === "deals" && actionType === "set_status" && form.status !== "" && form.status !== "Open";
+  const isReady = Boolean(action) && (!needsCloseReason || form.close_reason.trim().length > 0);
+  const update = (patch: Partial<BulkForm>) => setForm((current) => ({ ...current, ...patch }));
+
+  const renderSelect = (
+    id: string,
+    label: string,
+    value: string,
+    options: readonly string[],
+    key: keyof BulkForm,
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={(next) => update({ [key]: next })}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Elige una opción" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const failures = report ? report.results.filter((result) => !result.ok) : [];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 px-3 py-2 text-sm">
+      <span className="font-medium">
+        {selection.count} seleccionado{selection.count === 1 ? "" : "s"}
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" data-testid={`button-bulk-${entity}`}>
+            Acciones
+            <ChevronDown className="ml-1 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {actions.map((type) => (
+            <React.Fragment key={type}>
+              {type === "delete" && actions.length > 1 && <DropdownMenuSeparator />}
+              <DropdownMenuItem
+                className={type === "delete" ? "text-destructive focus:text-destructive" : undefined}
+                onSelect={() => open(type)}
+              >
+                {BULK_ACTION_LABELS[type]}
+              </DropdownMenuItem>
+            </React.Fragment>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button size="sm" variant="ghost" onClick={selection.clear}>
+        <X className="mr-1 h-4 w-4" />
+        Quitar selección
+      </Button>
+
+      <Dialog open={actionType !== null} onOpenChange={(isOpen) => !isOpen && !mutation.isPending && close()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{actionType ? BULK_ACTION_LABELS[actionType] : ""}</DialogTitle>
+            <DialogDescription>
+              {report
+                ? "Resultado de la operación, registro a registro."
+                : `Se aplicará a ${selection.count} registro${selection.count === 1 ? "" : "s"} a la vez.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {report ? (
+            <div className="space-y-3">
+              <Progress value={(report.succeeded / report.total) * 100} />
+              <p className="text-sm">{describeBulkReport(report)}</p>
+              {failures.length > 0 && (
+                <ul className="max-h-48 space-y-1 overflow-y-auto text-xs text-muted-foreground">
+                  {failures.map((failure) => (
+                    <li key={failure.id}>
+                      <span className="font-medium text-foreground">{recordLabel(failure.id)}</span>: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <DialogFooter>
+                <Button onClick={close}>Cerrar</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(event) => {
+                event.preventDefault();
+                if (action && isReady) mutation.mutate(action);
+              }}
+            >
+              {actionType === "set_owner" && (
+                <div className="space-y-2">
+                  <Label htmlFor="bulk-owner">{OWNER_LABELS[entity]}</Label>
+                  <Select value={form.owner_id} onValueChange={(owner_id) => update({ owner_id })}>
+                    <SelectTrigger id="bulk-owner">
+                      <SelectValue placeholder="Elige a alguien del equipo" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {owners.map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id}>
+                          {getUserDisplayName(owner)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {actionType === "set_stage" && renderSelect("bulk-stage", "Nueva etapa", form.stage, stages, "stage")}
+              {actionType === "set_priority" &&
+                renderSelect("bulk-priority", "Nueva prioridad", form.priority, BULK_PRIORITIES[entity], "priority")}
+              {actionType === "set_status" && (
+                <>
+                  {renderSelect("bulk-status", "Nuevo estado", form.status, BULK_STATUSES[entity] ?? [], "status")}
+                  {needsCloseReason && (
+                    <div className="space-y-2">
+                      <Label htmlFor="bulk-close-reason">Motivo de cierre (para todos)</Label>
+                      <Input
+                        id="bulk-close-reason"
+                        value={form.close_reason}
+                        onChange={(event) => update({ close_reason: event.target.value })}
+                        placeholder="Ej. Presupuesto congelado"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+              {actionType === "create_task" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="bulk-task-title">Tarea</Label>
+                    <Input
+                      id="bulk-task-title"
+                      value={form.title}
+                      onChange={(event) => update({ title: event.target.value })}
+                      placeholder="Ej. Llamada de seguimiento"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="bulk-task-due">Fecha límite</Label>
+                      <Input
+                        id="bulk-task-due"
+                        type="datetime-local"
+                        value={form.due_at}
+                        onChange={(event) => update({ due_at: event.target.value })}
+                      />
+                    </div>
+                    {renderSelect(
+                      "bulk-task-priority",
+                      "Prioridad",
+                      form.task_priority,
+                      BULK_PRIORITIES.tasks,
+                      "task_priority",
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Cada tarea se asigna al owner del registro.</p>
+                </>
+              )}
+              {actionType && TAG_ACTIONS.includes(actionType) && (
+                <div className="space-y-2">
+                  <Label htmlFor="bulk-tag">Etiqueta</Label>
+                  <Select value={form.tag_id} onValueChange={(tag_id) => update({ tag_id })}>
+                    <SelectTrigger id="bulk-tag">
+                      <SelectValue placeholder="Elige una etiqueta" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tags.map((tag) => (
+                        <SelectItem key={tag.id} value={tag.id}>
+                          <span className="inline-flex items-center gap-2">
+                            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                            {tag.name}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {actionType === "delete" && (
+                <p className="text-sm text-muted-foreground">
+                  Se eliminarán los registros seleccionados. Esta acción no se puede deshacer.
+                </p>
+              )}
+
+              {mutation.isPending && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Procesando {selection.count} registros…
+                </div>
+              )}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={close} disabled={mutation.isPending}>
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  variant={actionType === "delete" ? "destructive" : "default"}
+                  disabled={!isReady || mutation.isPending}
+                >
+                  {actionType === "delete" ? "Eliminar" : "Aplicar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/** Casilla de cabecera: marca todos los registros filtrados, también los de otras páginas. */
+export function SelectAllCheckbox({ selection }: { selection: BulkSelection }) {
+  return (
+    <Checkbox
+      checked={selection.allSelected ? true : selection.someSelected ? "indeterminate" : false}
+      onCheckedChange={(checked) => selection.toggleAll(checked === true)}
+      aria-label="Seleccionar todos"
+    />
+  );
+}
+
+export function SelectRowCheckbox({ selection, id }: { selection: BulkSelection; id: string }) {
+  return (
+    <Checkbox
+      checked={selection.isSelected(id)}
+      onCheckedChange={(checked) => selection.toggle(id, checked === true)}
+      aria-label="Seleccionar"
+    />
+  );
+}
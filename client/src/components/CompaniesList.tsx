@@ -1,7 +1,16 @@
-import React, { useState, useMemo } from "react";
+import React, { useEffect, useState, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { getCompanies, updateCompany, deleteCompany, addCompany } from "@/lib/companies";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useSearchParamState } from "@/hooks/useSearchParamState";
+import { useCompanyRollupsQuery } from "@/hooks/useCrmQueries";
+import { useBulkSelection } from "@/hooks/useBulkSelection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useListView } from "@/hooks/useListView";
+import { useTags } from "@/hooks/useTags";
+import { arrangeForView, countViewGroups, viewGroupValue, type ViewGroupings } from "@/lib/listView";
 import Card from "./Card";
 import Skeleton from "./Skeleton";
 import ScoreBadge from "./ScoreBadge";
@@ -24,38 +33,113 @@ import {
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
-import { Edit, Trash2, Search, Filter, Plus, Building2 } from "lucide-react";
+import {
+  Edit,
+  Trash2,
+  Search,
+  Filter,
+  Plus,
+  Building2,
+  Upload,
+  Download,
+  GitMerge,
+  SlidersHorizontal,
+  Tag,
+} from "lucide-react";
 import { calculateContactScore } from "@/lib/scoring";
 import type { Company } from "@/lib/types";
+import { IS_API_MODE } from "@/lib/db";
+import { companyPath } from "@/lib/routes";
+import CompanyDuplicatesDialog from "./CompanyDuplicatesDialog";
+import ExportDialog, { activeFilter } from "./ExportDialog";
+import ImportWizard from "./ImportWizard";
+import BulkActionsBar, { SelectAllCheckbox, SelectRowCheckbox } from "./BulkActionsBar";
+import ListViewControls, { ViewGroupRow } from "./ListViewControls";
+import SavedViewsMenu from "./SavedViewsMenu";
+import CustomFieldFilter from "./CustomFieldFilter";
+import CustomFieldInputs from "./CustomFieldInputs";
+import CustomFieldsEditor from "./CustomFieldsEditor";
+import TagChips from "./TagChips";
+import TagFilter, { activeTagFilter } from "./TagFilter";
+import TagManager from "./TagManager";
+import TagPicker from "./TagPicker";
+import { matchesCompanyFilters, type CompanyListFilters } from "@shared/exports";
+import { emptyCompanyRollup } from "@shared/companyRollups";
+import { diffCustomFieldValues, type CustomFieldValues } from "@shared/customFields";
+import { diffTagIds } from "@shared/tags";
 
 interface CompaniesListProps {
   className?: string;
 }
 
 const PRIORITIES = ["Cold", "Warm", "Hot"];
+const PRIORITY_FILTERS = ["all", ...PRIORITIES];
 const SIZES = ["Small", "Medium", "Large", "Enterprise"];
 const INDUSTRIES = ["Tecnología", "Consultoría", "Retail", "Startup", "Manufacturing", "Finanzas", "Salud", "Educación"];
 
+const COMPANY_GROUPINGS: ViewGroupings<Company> = {
+  industry: { value: (company) => company.industry, order: INDUSTRIES },
+  size: { value: (company) => company.size, order: ["Enterprise", "Large", "Medium", "Small"] },
+  priority: { value: (company) => company.priority || "Cold", order: ["Hot", "Warm", "Cold"] },
+};
+
+const EMPTY_GROUP_LABELS: Record<string, string> = {
+  industry: "Sin industria",
+  size: "Sin tamaño",
+  priority: "Sin prioridad",
+};
+
+// Sin score guardado, uno básico por tamaño, facturación e industria
+function getCompanyScore(company: Company): number {
+  if (company.score) return company.score;
+  return Math.min(
+    (company.size === 'Enterprise' ? 30 :
+     company.size === 'Large' ? 20 :
+     company.size === 'Medium' ? 10 : 5) +
+    (company.revenue_estimate ? Math.min(company.revenue_estimate / 1000000, 50) : 0) +
+    (company.industry === 'Tecnología' ? 15 : 0),
+    100
+  );
+}
+
 export default function CompaniesList({ className }: CompaniesListProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [priorityFilter, setPriorityFilter] = useState<string>("all");
-  const [sizeFilter, setSizeFilter] = useState<string>("all");
-  const [industryFilter, setIndustryFilter] = useState<string>("all");
+  const [searchTerm, setSearchTerm] = useSearchParamState("q", "");
+  const [priorityFilter, setPriorityFilter] = useSearchParamState("priority", "all", PRIORITY_FILTERS);
+  const [sizeFilter, setSizeFilter] = useSearchParamState("size", "all");
+  const [industryFilter, setIndustryFilter] = useSearchParamState("industry", "all");
+  const [customFieldFilter, setCustomFieldFilter] = useSearchParamState("cf", "");
+  const [tagFilter, setTagFilter] = useSearchParamState("tag", "");
+  const { fields: customFields } = useCustomFields("companies");
+  const { tags } = useTags();
+  const view = useListView("companies");
   const [currentPage, setCurrentPage] = useState(1);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
   const [deletingCompany, setDeletingCompany] = useState<Company | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
   const [creatingCompany, setCreatingCompany] = useState(false);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [newCustomValues, setNewCustomValues] = useState<CustomFieldValues>({});
+  const [isFieldsEditorOpen, setIsFieldsEditorOpen] = useState(false);
+  const [tagDraft, setTagDraft] = useState<string[]>([]);
+  const [newTagIds, setNewTagIds] = useState<string[]>([]);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: companies = [], isLoading } = useQuery({
     queryKey: ["companies"],
     queryFn: getCompanies,
   });
+  // Totales de los deals vinculados por company_id (dentro del alcance del usuario)
+  const { data: rollups = [] } = useCompanyRollupsQuery();
+  const rollupsById = useMemo(() => new Map(rollups.map((rollup) => [rollup.company_id, rollup])), [rollups]);
 
   const addCompanyMutation = useMutation({
     mutationFn: addCompany,
@@ -81,6 +165,8 @@ export default function CompaniesList({ className }: CompaniesListProps) {
       updateCompany(id, patch),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["companies"] });
+      // Los deals vinculados muestran el nombre nuevo
+      queryClient.invalidateQueries({ queryKey: ["deals"] });
       setIsEditModalOpen(false);
       setEditingCompany(null);
       toast({
@@ -101,6 +187,7 @@ export default function CompaniesList({ className }: CompaniesListProps) {
     mutationFn: deleteCompany,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["companies"] });
+      queryClient.invalidateQueries({ queryKey: ["deals"] });
       setIsDeleteModalOpen(false);
       setDeletingCompany(null);
       toast({
@@ -117,26 +204,53 @@ export default function CompaniesList({ className }: CompaniesListProps) {
     },
   });
 
-  const filteredCompanies = useMemo(() => {
-    return companies.filter((company) => {
-      const matchesSearch = 
-        company.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (company.industry && company.industry.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (company.location && company.location.toLowerCase().includes(searchTerm.toLowerCase()));
-      
-      const matchesPriority = priorityFilter === "all" || company.priority === priorityFilter;
-      const matchesSize = sizeFilter === "all" || company.size === sizeFilter;
-      const matchesIndustry = industryFilter === "all" || company.industry === industryFilter;
-      
-      return matchesSearch && matchesPriority && matchesSize && matchesIndustry;
-    });
-  }, [companies, searchTerm, priorityFilter, sizeFilter, industryFilter]);
+  const filters = useMemo<CompanyListFilters>(
+    () => ({
+      search: searchTerm,
+      priority: activeFilter(priorityFilter),
+      size: activeFilter(sizeFilter),
+      industry: activeFilter(industryFilter),
+      custom_field: customFieldFilter || undefined,
+      tag: activeTagFilter(tagFilter, tags),
+    }),
+    [searchTerm, priorityFilter, sizeFilter, industryFilter, customFieldFilter, tagFilter, tags],
+  );
+
+  const filteredCompanies = useMemo(
+    () =>
+      arrangeForView(
+        companies.filter((company) => matchesCompanyFilters(company, filters, customFields)),
+        view,
+        {
+          name: (company) => company.name,
+          revenue: (company) => company.revenue_estimate,
+          open_amount: (company) => rollupsById.get(company.id)?.open_pipeline ?? 0,
+          won_amount: (company) => rollupsById.get(company.id)?.won_revenue ?? 0,
+          score: getCompanyScore,
+        },
+        COMPANY_GROUPINGS,
+      ),
+    [companies, filters, customFields, view, rollupsById],
+  );
+  const groupCounts = useMemo(
+    () => countViewGroups(filteredCompanies, view.groupBy, COMPANY_GROUPINGS),
+    [filteredCompanies, view.groupBy],
+  );
+
+  const filteredIds = useMemo(() => filteredCompanies.map((company) => company.id), [filteredCompanies]);
+  const selection = useBulkSelection(filteredIds);
+  const companyLabel = (id: string) => companies.find((company) => company.id === id)?.name ?? id;
 
   const itemsPerPage = 5;
   const totalPages = Math.ceil(filteredCompanies.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const paginatedCompanies = filteredCompanies.slice(startIndex, startIndex + itemsPerPage);
 
+  useEffect(() => {
+    setCustomValues(editingCompany?.custom_fields ?? {});
+    setTagDraft(editingCompany?.tag_ids ?? []);
+  }, [editingCompany]);
+
   const handleEdit = (company: Company) => {
     setEditingCompany(company);
     setIsEditModalOpen(true);
@@ -160,6 +274,8 @@ export default function CompaniesList({ className }: CompaniesListProps) {
       location: formData.get("location") as string,
       website: formData.get("website") as string,
       description: formData.get("description") as string,
+      custom_fields: diffCustomFieldValues(customFields, editingCompany.custom_fields, customValues),
+      tag_ids: diffTagIds(editingCompany.tag_ids, tagDraft),
     };
 
     updateCompanyMutation.mutate({ id: editingCompany.id, ...patch });
@@ -226,13 +342,45 @@ export default function CompaniesList({ className }: CompaniesListProps) {
               <span className="text-sm text-muted-foreground">
                 {filteredCompanies.length} empresas
               </span>
-              <Button
-                size="sm"
-                onClick={() => setIsAddModalOpen(true)}
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                Nueva
+              {IS_API_MODE && can("companies:create") && (
+                <Button size="sm" variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="mr-1 h-4 w-4" />
+                  Importar
+                </Button>
+              )}
+              {IS_API_MODE && can("companies:delete") && (
+                <Button size="sm" variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+                  <GitMerge className="mr-1 h-4 w-4" />
+                  Duplicados
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => setIsExportOpen(true)}>
+                <Download className="mr-1 h-4 w-4" />
+                Exportar
               </Button>
+              {IS_API_MODE && can("fields:configure") && (
+                <Button size="sm" variant="outline" onClick={() => setIsFieldsEditorOpen(true)}>
+                  <SlidersHorizontal className="mr-1 h-4 w-4" />
+                  Campos
+                </Button>
+              )}
+              {IS_API_MODE && can("tags:manage") && (
+                <Button size="sm" variant="outline" onClick={() => setIsTagManagerOpen(true)}>
+                  <Tag className="mr-1 h-4 w-4" />
+                  Etiquetas
+                </Button>
+              )}
+              {IS_API_MODE && <SavedViewsMenu list="companies" />}
+              <ListViewControls list="companies" view={view} />
+              {can("companies:create") && (
+                <Button
+                  size="sm"
+                  onClick={() => setIsAddModalOpen(true)}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Nueva
+                </Button>
+              )}
             </div>
           </div>
 
@@ -291,82 +439,142 @@ export default function CompaniesList({ className }: CompaniesListProps) {
                   ))}
                 </SelectContent>
               </Select>
+
+              <CustomFieldFilter
+                fields={customFields}
+                value={customFieldFilter}
+                onChange={setCustomFieldFilter}
+                className="col-span-2"
+              />
+              <TagFilter tags={tags} value={tagFilter} onChange={setTagFilter} className="w-full" />
             </div>
           </div>
 
+          {IS_API_MODE && <BulkActionsBar entity="companies" selection={selection} recordLabel={companyLabel} />}
+
           {/* Table */}
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
+                  {IS_API_MODE && (
+                    <TableHead className="w-8">
+                      <SelectAllCheckbox selection={selection} />
+                    </TableHead>
+                  )}
                   <TableHead>Nombre</TableHead>
-                  <TableHead>Industria</TableHead>
-                  <TableHead>Tamaño</TableHead>
-                  <TableHead>Facturación</TableHead>
-                  <TableHead>Score</TableHead>
-                  <TableHead>Prioridad</TableHead>
-                  <TableHead>Ubicación</TableHead>
+                  {view.isColumnVisible("industry") && <TableHead>Industria</TableHead>}
+                  {view.isColumnVisible("size") && <TableHead>Tamaño</TableHead>}
+                  {view.isColumnVisible("revenue") && <TableHead>Facturación</TableHead>}
+                  {view.isColumnVisible("deals") && <TableHead className="text-right">Deals</TableHead>}
+                  {view.isColumnVisible("open_amount") && (
+                    <TableHead className="text-right">Pipeline abierto</TableHead>
+                  )}
+                  {view.isColumnVisible("won_amount") && <TableHead className="text-right">Ganado</TableHead>}
+                  {view.isColumnVisible("score") && <TableHead>Score</TableHead>}
+                  {view.isColumnVisible("priority") && <TableHead>Prioridad</TableHead>}
+                  {view.isColumnVisible("location") && <TableHead>Ubicación</TableHead>}
                   <TableHead className="w-20">Acciones</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {paginatedCompanies.map((company) => {
-                  // Calcular scoring de la empresa (basado en contactos y deals asociados)
-                  const companyScore = company.score || 0;
+                {paginatedCompanies.map((company, index) => {
                   const companyPriority = company.priority || 'Cold';
-                  
-                  // Por ahora, usar scoring básico basado en tamaño y facturación
-                  const basicScore = Math.min(
-                    (company.size === 'Enterprise' ? 30 : 
-                     company.size === 'Large' ? 20 : 
-                     company.size === 'Medium' ? 10 : 5) +
-                    (company.revenue_estimate ? Math.min(company.revenue_estimate / 1000000, 50) : 0) +
-                    (company.industry === 'Tecnología' ? 15 : 0),
-                    100
-                  );
+                  const rollup = rollupsById.get(company.id) ?? emptyCompanyRollup(company.id);
+                  const group = viewGroupValue(company, view.groupBy, COMPANY_GROUPINGS);
+                  const previous = paginatedCompanies[index - 1];
+                  const startsGroup =
+                    view.groupBy !== null &&
+                    (!previous || viewGroupValue(previous, view.groupBy, COMPANY_GROUPINGS) !== group);
 
                   return (
-                    <TableRow key={company.id}>
-                      <TableCell className="font-medium">{company.name}</TableCell>
-                      <TableCell>{company.industry || "-"}</TableCell>
-                      <TableCell>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getSizeColor(company.size)}`}>
-                          {company.size || "-"}
-                        </span>
-                      </TableCell>
-                      <TableCell>{formatCurrency(company.revenue_estimate)}</TableCell>
-                      <TableCell>
-                        <ScoreBadge 
-                          score={companyScore || basicScore} 
-                          priority={companyPriority} 
-                          size="sm" 
+                    <React.Fragment key={company.id}>
+                      {startsGroup && (
+                        <ViewGroupRow
+                          label={group || EMPTY_GROUP_LABELS[view.groupBy!]}
+                          count={groupCounts.get(group)}
+                          colSpan={view.visibleColumnCount + (IS_API_MODE ? 3 : 2)}
                         />
-                      </TableCell>
-                      <TableCell>
-                        <PriorityBadge priority={companyPriority} size="sm" />
-                      </TableCell>
-                      <TableCell className="text-sm text-muted-foreground">
-                        {company.location || "-"}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex gap-1">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEdit(company)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(company)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
+                      )}
+                      <TableRow data-state={selection.isSelected(company.id) ? "selected" : undefined}>
+                        {IS_API_MODE && (
+                          <TableCell>
+                            <SelectRowCheckbox selection={selection} id={company.id} />
+                          </TableCell>
+                        )}
+                        <TableCell className="font-medium">
+                          <Link href={companyPath(company.id)} className="hover:underline">
+                            {company.name}
+                          </Link>
+                          <TagChips tagIds={company.tag_ids} tags={tags} max={3} className="mt-1" />
+                        </TableCell>
+                        {view.isColumnVisible("industry") && <TableCell>{company.industry || "-"}</TableCell>}
+                        {view.isColumnVisible("size") && (
+                          <TableCell>
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-medium ${getSizeColor(company.size)}`}
+                            >
+                              {company.size || "-"}
+                            </span>
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("revenue") && (
+                          <TableCell>{formatCurrency(company.revenue_estimate)}</TableCell>
+                        )}
+                        {view.isColumnVisible("deals") && (
+                          <TableCell className="text-right" title={`${rollup.open_count} abiertos`}>
+                            {rollup.deal_count || "-"}
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("open_amount") && (
+                          <TableCell className="text-right">{formatCurrency(rollup.open_pipeline)}</TableCell>
+                        )}
+                        {view.isColumnVisible("won_amount") && (
+                          <TableCell className="text-right">{formatCurrency(rollup.won_revenue)}</TableCell>
+                        )}
+                        {view.isColumnVisible("score") && (
+                          <TableCell>
+                            <ScoreBadge
+                              score={getCompanyScore(company)}
+                              priority={companyPriority}
+                              size="sm"
+                            />
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("priority") && (
+                          <TableCell>
+                            <PriorityBadge priority={companyPriority} size="sm" />
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("location") && (
+                          <TableCell className="text-sm text-muted-foreground">
+                            {company.location || "-"}
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {can("companies:update") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEdit(company)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("companies:delete") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(company)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
                   );
                 })}
               </TableBody>
@@ -509,6 +717,9 @@ export default function CompaniesList({ className }: CompaniesListProps) {
                 />
               </div>
 
+              <CustomFieldInputs fields={customFields} values={customValues} onChange={setCustomValues} />
+              <TagPicker tags={tags} value={tagDraft} onChange={setTagDraft} />
+
               <div className="flex justify-end space-x-3 pt-4">
                 <Button
                   type="button"
@@ -551,6 +762,8 @@ export default function CompaniesList({ className }: CompaniesListProps) {
                 location: (formData.get("location") as string)?.trim() || undefined,
                 website: (formData.get("website") as string)?.trim() || undefined,
                 description: (formData.get("description") as string)?.trim() || undefined,
+                custom_fields: diffCustomFieldValues(customFields, {}, newCustomValues),
+                tag_ids: newTagIds.length ? newTagIds : undefined,
                 score: 0,
                 priority: "Cold" as const,
               };
@@ -571,6 +784,8 @@ export default function CompaniesList({ className }: CompaniesListProps) {
                 },
                 onSuccess: () => {
                   (event.target as HTMLFormElement).reset();
+                  setNewCustomValues({});
+                  setNewTagIds([]);
                 },
               });
             }}
@@ -649,6 +864,9 @@ export default function CompaniesList({ className }: CompaniesListProps) {
               <Input name="description" placeholder="Notas breves" />
             </div>
 
+            <CustomFieldInputs fields={customFields} values={newCustomValues} onChange={setNewCustomValues} />
+            <TagPicker tags={tags} value={newTagIds} onChange={setNewTagIds} />
+
             <div className="flex justify-end gap-3 pt-4">
               <Button type="button" variant="outline" onClick={() => setIsAddModalOpen(false)}>
                 Cancelar
@@ -694,6 +912,21 @@ export default function CompaniesList({ className }: CompaniesListProps) {
           )}
         </DialogContent>
       </Dialog>
+      <ImportWizard open={isImportOpen} onClose={() => setIsImportOpen(false)} defaultEntity="companies" />
+      <ExportDialog
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        entity="companies"
+        filters={filters}
+        records={filteredCompanies}
+      />
+      <CompanyDuplicatesDialog open={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} />
+      <CustomFieldsEditor
+        open={isFieldsEditorOpen}
+        onClose={() => setIsFieldsEditorOpen(false)}
+        defaultEntity="companies"
+      />
+      <TagManager open={isTagManagerOpen} onClose={() => setIsTagManagerOpen(false)} />
     </>
   );
 }
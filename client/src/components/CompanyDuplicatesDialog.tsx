@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, GitMerge, Loader2 } from "lucide-react";
+import {
+  COMPANY_DUPLICATE_REASON_LABELS,
+  COMPANY_MERGE_FIELDS,
+  COMPANY_MERGE_FIELD_LABELS,
+  type CompanyDuplicateGroup,
+  type CompanyMergeField,
+} from "@shared/companyDuplicates";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { Company } from "@/lib/types";
+
+interface CompanyDuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type FieldSources = Record<CompanyMergeField, string>;
+
+function fieldValue(company: Company, field: CompanyMergeField): string {
+  const value = company[field];
+  if (value === null || value === undefined) return "";
+  return typeof value === "number" ? value.toLocaleString("es-ES") : value.trim();
+}
+
+/** Por defecto cada campo sale de la superviviente, o de la primera que lo tenga si ella no. */
+function defaultSources(companies: Company[], survivorId: string): FieldSources {
+  const survivor = companies.find((company) => company.id === survivorId) ?? companies[0];
+  const sources = {} as FieldSources;
+  for (const field of COMPANY_MERGE_FIELDS) {
+    const source = fieldValue(survivor, field) ? survivor : companies.find((company) => fieldValue(company, field));
+    sources[field] = (source ?? survivor).id;
+  }
+  return sources;
+}
+
+/**
+ * Revisión de empresas duplicadas ("Acme", "ACME S.L." o la misma web). Al
+ * fusionar se elige la empresa que se conserva y de cuál sale cada campo; los
+ * contactos pasan a la superviviente y los deals toman su nombre.
+ */
+export default function CompanyDuplicatesDialog({ open, onClose }: CompanyDuplicatesDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [group, setGroup] = useState<CompanyDuplicateGroup<Company> | null>(null);
+  const [survivorId, setSurvivorId] = useState("");
+  const [sources, setSources] = useState<FieldSources | null>(null);
+
+  const { data: groups = [], isLoading } = useQuery({
+    queryKey: QUERY_KEYS.companyDuplicates,
+    queryFn: api.getCompanyDuplicates,
+    enabled: open,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (!open) setGroup(null);
+  }, [open]);
+
+  const review = (next: CompanyDuplicateGroup<Company>) => {
+    setGroup(next);
+    setSurvivorId(next.companies[0].id);
+    setSources(defaultSources(next.companies, next.companies[0].id));
+  };
+
+  const changeSurvivor = (id: string) => {
+    setSurvivorId(id);
+    if (group) setSources(defaultSources(group.companies, id));
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: () =>
+      api.mergeCompanies(survivorId, {
+        merge_ids: group!.companies.filter((company) => company.id !== survivorId).map((company) => company.id),
+        fields: sources ?? undefined,
+      }),
+    onSuccess: (result) => {
+      const affected = [
+        QUERY_KEYS.companies,
+        QUERY_KEYS.companyDuplicates,
+        QUERY_KEYS.contacts,
+        QUERY_KEYS.contactDuplicates,
+        QUERY_KEYS.deals,
+        QUERY_KEYS.timeline,
+      ];
+      affected.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      toast({
+        title: "Empresas fusionadas",
+        description: `${result.company.name}: ${result.contacts} contactos y ${result.deals} deals actualizados.`,
+      });
+      setGroup(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo fusionar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Empresas duplicadas</DialogTitle>
+          <DialogDescription>
+            Empresas con el mismo nombre (sin contar mayúsculas, tildes ni la forma jurídica) o la misma web.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!group && (
+          <div className="space-y-3" data-testid="company-duplicate-groups">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Buscando duplicados…
+              </div>
+            )}
+            {!isLoading && groups.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">No hay posibles duplicados.</p>
+            )}
+            {groups.map((candidate) => (
+              <div key={candidate.companies[0].id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex flex-wrap gap-1">
+                    {candidate.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">
+                        {COMPANY_DUPLICATE_REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => review(candidate)}>
+                    Revisar
+                  </Button>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {candidate.companies.map((company) => (
+                    <li key={company.id} className="truncate">
+                      <span className="font-medium">{company.name}</span>
+                      <span className="text-muted-foreground">
+                        {[company.website, company.location].filter(Boolean).map((value) => ` · ${value}`)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {group && sources && (
+          <div className="space-y-6">
+            <Button variant="ghost" size="sm" onClick={() => setGroup(null)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Volver
+            </Button>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Empresa que se conserva</h4>
+              <RadioGroup value={survivorId} onValueChange={changeSurvivor}>
+                {group.companies.map((company) => (
+                  <label key={company.id} className="flex items-center gap-2 text-sm">
+                    <RadioGroupItem value={company.id} />
+                    {company.name}
+                    <span className="text-muted-foreground">
+                      {company.website ?? "sin web"} · alta {new Date(company.created_at).toLocaleDateString("es-ES")}
+                    </span>
+                  </label>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Valores que se conservan</h4>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {COMPANY_MERGE_FIELDS.map((field) => (
+                  <label key={field} className="space-y-1 text-sm">
+                    <span className="font-medium">{COMPANY_MERGE_FIELD_LABELS[field]}</span>
+                    <Select
+                      value={sources[field]}
+                      onValueChange={(id) => setSources((current) => current && { ...current, [field]: id })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {group.companies.map((company) => (
+                          <SelectItem key={company.id} value={company.id}>
+                            {fieldValue(company, field) || "(vacío)"}
+                            <span className="text-muted-foreground"> — {company.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Los contactos y el historial de las demás empresas pasarán a la que se conserva, los deals que las nombran
+              tomarán el nombre final y esas empresas se eliminarán.
+            </p>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => mergeMutation.mutate()}
+                disabled={mergeMutation.isPending}
+                data-testid="button-merge-companies"
+              >
+                {mergeMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <GitMerge className="mr-2 h-4 w-4" />
+                )}
+                Fusionar {group.companies.length} empresas
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useState } from "react";
+import { Check, ChevronsUpDown, Plus, X } from "lucide-react";
+import { normalizeCompanyName } from "@shared/companyDuplicates";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useCompaniesQuery } from "@/hooks/useCrmQueries";
+
+/** Empresa elegida; sin `id` es un nombre nuevo que el servidor enlaza o crea al guardar. */
+export interface CompanyChoice {
+  id?: string;
+  name: string;
+}
+
+interface CompanySelectorProps {
+  value: CompanyChoice | null;
+  onChange: (value: CompanyChoice | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/** Elige la empresa de un deal entre las existentes o escribe una nueva. */
+export default function CompanySelector({
+  value,
+  onChange,
+  placeholder = "Seleccionar empresa (opcional)",
+  className,
+}: CompanySelectorProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const { data: companies = [], isLoading } = useCompaniesQuery();
+
+  useEffect(() => {
+    if (open) setSearch("");
+  }, [open]);
+
+  const term = search.trim().toLowerCase();
+  const filtered = useMemo(
+    () => (term ? companies.filter((company) => company.name.toLowerCase().includes(term)) : companies),
+    [companies, term],
+  );
+  // "ACME S.L." no se ofrece como nueva si ya existe "Acme"
+  const searchKey = normalizeCompanyName(search);
+  const existing = searchKey && companies.some((company) => normalizeCompanyName(company.name) === searchKey);
+
+  const select = (choice: CompanyChoice | null) => {
+    onChange(choice);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between", !value && "text-muted-foreground", className)}
+          data-testid="select-deal-company"
+        >
+          <span className="truncate">{value?.name ?? placeholder}</span>
+          <span className="flex items-center gap-1">
+            {value && (
+              <X
+                className="h-3 w-3 opacity-60 hover:opacity-100"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onChange(null);
+                }}
+              />
+            )}
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-full p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar empresa..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            {isLoading ? (
+              <div className="py-6 text-center text-sm text-muted-foreground">Cargando...</div>
+            ) : (
+              <>
+                {!filtered.length && !searchKey && <CommandEmpty>No hay empresas</CommandEmpty>}
+                <CommandGroup>
+                  {filtered.map((company) => (
+                    <CommandItem
+                      key={company.id}
+                      value={company.id}
+                      onSelect={() => select({ id: company.id, name: company.name })}
+                    >
+                      <Check className={cn("mr-2 h-4 w-4", value?.id === company.id ? "opacity-100" : "opacity-0")} />
+                      <span className="truncate">{company.name}</span>
+                    </CommandItem>
+                  ))}
+                  {searchKey && !existing && (
+                    <CommandItem value={`new:${search}`} onSelect={() => select({ name: search.trim() })}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Nueva empresa «{search.trim()}»
+                    </CommandItem>
+                  )}
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, GitMerge, Loader2 } from "lucide-react";
+import {
+  CONTACT_MERGE_FIELDS,
+  CONTACT_MERGE_FIELD_LABELS,
+  DUPLICATE_REASON_LABELS,
+  type ContactMergeField,
+  type DuplicateGroup,
+} from "@shared/contactDuplicates";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { Contact } from "@/lib/types";
+
+interface ContactDuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type FieldSources = Record<ContactMergeField, string>;
+
+/** Texto que se muestra para el valor de un campo; la empresa por su nombre. */
+function fieldValue(contact: Contact, field: ContactMergeField): string {
+  const value = field === "company_id" ? contact.company : contact[field];
+  return value?.trim() ? value : "";
+}
+
+/** Por defecto cada campo sale del superviviente, o del primero que lo tenga si él no. */
+function defaultSources(contacts: Contact[], survivorId: string): FieldSources {
+  const survivor = contacts.find((contact) => contact.id === survivorId) ?? contacts[0];
+  const sources = {} as FieldSources;
+  for (const field of CONTACT_MERGE_FIELDS) {
+    const source = fieldValue(survivor, field) ? survivor : contacts.find((contact) => fieldValue(contact, field));
+    sources[field] = (source ?? survivor).id;
+  }
+  return sources;
+}
+
+/**
+ * Revisión de posibles duplicados (mismo email, teléfono o nombre parecido
+ * en la misma empresa). Al fusionar se elige el contacto que se conserva y de
+ * cuál sale cada campo; deals, tareas y timeline pasan al superviviente.
+ */
+export default function ContactDuplicatesDialog({ open, onClose }: ContactDuplicatesDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [group, setGroup] = useState<DuplicateGroup<Contact> | null>(null);
+  const [survivorId, setSurvivorId] = useState("");
+  const [sources, setSources] = useState<FieldSources | null>(null);
+
+  const { data: groups = [], isLoading } = useQuery({
+    queryKey: QUERY_KEYS.contactDuplicates,
+    queryFn: api.getContactDuplicates,
+    enabled: open,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (!open) setGroup(null);
+  }, [open]);
+
+  const review = (next: DuplicateGroup<Contact>) => {
+    setGroup(next);
+    setSurvivorId(next.contacts[0].id);
+    setSources(defaultSources(next.contacts, next.contacts[0].id));
+  };
+
+  const changeSurvivor = (id: string) => {
+    setSurvivorId(id);
+    if (group) setSources(defaultSources(group.contacts, id));
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: () =>
+      api.mergeContacts(survivorId, {
+        merge_ids: group!.contacts.filter((contact) => contact.id !== survivorId).map((contact) => contact.id),
+        fields: sources ?? undefined,
+      }),
+    onSuccess: (result) => {
+      const affected = [
+        QUERY_KEYS.contacts,
+        QUERY_KEYS.contactDuplicates,
+        QUERY_KEYS.deals,
+        QUERY_KEYS.tasks,
+        QUERY_KEYS.timeline,
+      ];
+      affected.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      toast({
+        title: "Contactos fusionados",
+        description: `${result.contact.name}: ${result.deals} deals y ${result.tasks} tareas reasignados.`,
+      });
+      setGroup(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo fusionar", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Posibles duplicados</DialogTitle>
+          <DialogDescription>
+            Contactos con el mismo email, el mismo teléfono o un nombre parecido en la misma empresa.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!group && (
+          <div className="space-y-3" data-testid="contact-duplicate-groups">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Buscando duplicados…
+              </div>
+            )}
+            {!isLoading && groups.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">No hay posibles duplicados.</p>
+            )}
+            {groups.map((candidate) => (
+              <div key={candidate.contacts[0].id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex flex-wrap gap-1">
+                    {candidate.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">
+                        {DUPLICATE_REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => review(candidate)}>
+                    Revisar
+                  </Button>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {candidate.contacts.map((contact) => (
+                    <li key={contact.id} className="truncate">
+                      <span className="font-medium">{contact.name}</span>
+                      <span className="text-muted-foreground">
+                        {[contact.email, contact.phone, contact.company].filter(Boolean).map((value) => ` · ${value}`)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {group && sources && (
+          <div className="space-y-6">
+            <Button variant="ghost" size="sm" onClick={() => setGroup(null)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Volver
+            </Button>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Contacto que se conserva</h4>
+              <RadioGroup value={survivorId} onValueChange={changeSurvivor}>
+                {group.contacts.map((contact) => (
+                  <label key={contact.id} className="flex items-center gap-2 text-sm">
+                    <RadioGroupItem value={contact.id} />
+                    {contact.name}
+                    <span className="text-muted-foreground">
+                      {contact.email ?? "sin email"} · alta {new Date(contact.created_at).toLocaleDateString("es-ES")}
+                    </span>
+                  </label>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Valores que se conservan</h4>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {CONTACT_MERGE_FIELDS.map((field) => (
+                  <label key={field} className="space-y-1 text-sm">
+                    <span className="font-medium">{CONTACT_MERGE_FIELD_LABELS[field]}</span>
+                    <Select
+                      value={sources[field]}
+                      onValueChange={(id) => setSources((current) => current && { ...current, [field]: id })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {group.contacts.map((contact) => (
+                          <SelectItem key={contact.id} value={contact.id}>
+                            {fieldValue(contact, field) || "(vacío)"}
+                            <span className="text-muted-foreground"> — {contact.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Los deals, tareas y el historial de los demás contactos pasarán al que se conserva y esos contactos se
+              eliminarán.
+            </p>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => mergeMutation.mutate()}
+                disabled={mergeMutation.isPending}
+                data-testid="button-merge-contacts"
+              >
+                {mergeMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <GitMerge className="mr-2 h-4 w-4" />
+                )}
+                Fusionar {group.contacts.length} contactos
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,17 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { DUPLICATE_REASON_LABELS, findContactDuplicates } from "@shared/contactDuplicates";
 import { addContact } from "@/lib/db";
 import { QUERY_KEYS } from "@/lib/queryKeys";
 import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useContactsQuery } from "@/hooks/useCrmQueries";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import CustomFieldInputs from "@/components/CustomFieldInputs";
+import TagPicker from "@/components/TagPicker";
+import { useTags } from "@/hooks/useTags";
+import { diffCustomFieldValues, type CustomFieldValues } from "@shared/customFields";
 import {
   Dialog,
   DialogContent,
@@ -25,9 +34,22 @@ export default function ContactModal({
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [company, setCompany] = useState("");
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [tagIds, setTagIds] = useState<string[]>([]);
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { data: contacts = [] } = useContactsQuery({ enabled: open });
+  const { fields: customFields } = useCustomFields("contacts");
+  const { tags } = useTags();
+
+  // Aviso, no bloqueo: puede haber dos personas con el mismo nombre
+  const draft = useMemo(() => ({ name, email, company }), [name, email, company]);
+  const candidate = useDebounce(draft, 300);
+  const duplicates = useMemo(
+    () => (candidate.name.trim() ? findContactDuplicates(candidate, contacts) : []),
+    [candidate, contacts],
+  );
 
   const addContactMutation = useMutation({
     mutationFn: addContact,
@@ -55,6 +77,8 @@ export default function ContactModal({
     setName("");
     setEmail("");
     setCompany("");
+    setCustomValues({});
+    setTagIds([]);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -65,6 +89,8 @@ export default function ContactModal({
       name: name.trim(),
       email: email.trim() || undefined,
       company: company.trim() || undefined,
+      custom_fields: diffCustomFieldValues(customFields, {}, customValues),
+      tag_ids: tagIds.length ? tagIds : undefined,
       score: 0,
       priority: "Cold" as const,
       created_at: new Date().toISOString(),
@@ -123,6 +149,36 @@ export default function ContactModal({
             />
           </div>
 
+          {duplicates.length > 0 && (
+            <div
+              className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900"
+              data-testid="contact-duplicates-warning"
+            >
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                Posibles duplicados
+              </p>
+              <ul className="mt-2 space-y-1">
+                {duplicates.slice(0, 3).map(({ contact, reasons }) => (
+                  <li key={contact.id}>
+                    {contact.name}
+                    {contact.email ? ` · ${contact.email}` : ""}
+                    {contact.company ? ` · ${contact.company}` : ""}
+                    <span className="text-amber-700">
+                      {" "}
+                      ({reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(", ")})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-amber-700">
+                Puedes crearlo igualmente y fusionarlos después desde la revisión de duplicados.
+              </p>
+            </div>
+          )}
+
+          <CustomFieldInputs fields={customFields} values={customValues} onChange={setCustomValues} />
+          <TagPicker tags={tags} value={tagIds} onChange={setTagIds} />
 
           <div className="flex justify-end space-x-3 pt-4">
             <button
@@ -1,6 +1,7 @@
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useEffect } from "react";
+import { Link } from "wouter";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { updateContact, deleteContact } from "@/lib/db";
+import { IS_API_MODE, updateContact, deleteContact } from "@/lib/db";
 import { useToast } from "@/hooks/use-toast";
 import Card from "./Card";
 import Skeleton from "./Skeleton";
@@ -25,28 +26,68 @@ import {
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
-import { Edit, Trash2, Search, Filter, Plus, Sparkles, Loader2 } from "lucide-react";
+import { Edit, Trash2, Search, Filter, Plus, Sparkles, Loader2, Upload, Download, GitMerge } from "lucide-react";
 import { calculateContactScore } from "@/lib/scoring";
-import type { Contact, Deal } from "@/lib/types";
+import type { Contact, Deal, Priority } from "@/lib/types";
 import { useContactsQuery, useDealsQuery } from "@/hooks/useCrmQueries";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useSearchParamState } from "@/hooks/useSearchParamState";
+import { useBulkSelection } from "@/hooks/useBulkSelection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useListView } from "@/hooks/useListView";
+import { useTags } from "@/hooks/useTags";
+import { arrangeForView, countViewGroups, dateValue, viewGroupValue, type ViewGroupings } from "@/lib/listView";
+import { contactPath } from "@/lib/routes";
+import ContactDuplicatesDialog from "./ContactDuplicatesDialog";
 import ContactModal from "./ContactModal";
+import ExportDialog, { activeFilter } from "./ExportDialog";
+import ImportWizard from "./ImportWizard";
+import BulkActionsBar, { SelectAllCheckbox, SelectRowCheckbox } from "./BulkActionsBar";
+import ListViewControls, { ViewGroupRow } from "./ListViewControls";
+import SavedViewsMenu from "./SavedViewsMenu";
+import CustomFieldFilter from "./CustomFieldFilter";
+import CustomFieldInputs from "./CustomFieldInputs";
+import TagChips from "./TagChips";
+import TagFilter, { activeTagFilter } from "./TagFilter";
+import TagPicker from "./TagPicker";
+import { matchesContactFilters, type ContactListFilters } from "@shared/exports";
+import { describeCustomFields, diffCustomFieldValues, type CustomFieldValues } from "@shared/customFields";
+import { diffTagIds } from "@shared/tags";
 import { QUERY_KEYS } from "@/lib/queryKeys";
 
 interface ContactsListProps {
   className?: string;
+  /** Contacto abierto (el de la URL `/contacts/:id`). */
+  focusContactId?: string | null;
+  /** Con este callback el contacto abierto lo controla quien lo pasa: al cerrarlo llega null. */
+  onContactChange?: (contactId: string | null) => void;
 }
 
 const PRIORITIES = ["Cold", "Warm", "Hot"];
-
-export default function ContactsList({ className }: ContactsListProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [priorityFilter, setPriorityFilter] = useState<string>("all");
+const PRIORITY_FILTERS = ["all", ...PRIORITIES];
+const PRIORITY_GROUP_ORDER = ["Hot", "Warm", "Cold"];
+
+type ContactScoring = { score: number; priority: Priority };
+
+export default function ContactsList({ className, focusContactId, onContactChange }: ContactsListProps) {
+  const [searchTerm, setSearchTerm] = useSearchParamState("q", "");
+  const [priorityFilter, setPriorityFilter] = useSearchParamState("priority", "all", PRIORITY_FILTERS);
+  const [customFieldFilter, setCustomFieldFilter] = useSearchParamState("cf", "");
+  const [tagFilter, setTagFilter] = useSearchParamState("tag", "");
+  const { fields: customFields } = useCustomFields("contacts");
+  const { tags } = useTags();
+  const view = useListView("contacts");
   const [currentPage, setCurrentPage] = useState(1);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [tagDraft, setTagDraft] = useState<string[]>([]);
   const [deletingContact, setDeletingContact] = useState<Contact | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
   const [insightContact, setInsightContact] = useState<Contact | null>(null);
   const [isInsightOpen, setIsInsightOpen] = useState(false);
   const [insightLoading, setInsightLoading] = useState(false);
@@ -60,6 +101,7 @@ export default function ContactsList({ className }: ContactsListProps) {
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: contactsData, isLoading } = useContactsQuery();
   const { data: dealsData } = useDealsQuery();
@@ -73,8 +115,7 @@ export default function ContactsList({ className }: ContactsListProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.companies });
-      setIsEditModalOpen(false);
-      setEditingContact(null);
+      closeEditor();
       toast({
         title: "Contacto actualizado",
         description: "El contacto se ha actualizado exitosamente",
@@ -110,29 +151,94 @@ export default function ContactsList({ className }: ContactsListProps) {
     },
   });
 
-  const filteredContacts = useMemo(() => {
-    return contacts.filter((contact) => {
-      const matchesSearch = 
-        (contact.name && contact.name.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (contact.email && contact.email.toLowerCase().includes(searchTerm.toLowerCase())) ||
-        (contact.company && typeof contact.company === 'string' && contact.company.toLowerCase().includes(searchTerm.toLowerCase()));
-      
-      const matchesPriority = priorityFilter === "all" || contact.priority === priorityFilter;
-      
-      return matchesSearch && matchesPriority;
+  const filters = useMemo<ContactListFilters>(
+    () => ({
+      search: searchTerm,
+      priority: activeFilter(priorityFilter),
+      custom_field: customFieldFilter || undefined,
+      tag: activeTagFilter(tagFilter, tags),
+    }),
+    [searchTerm, priorityFilter, customFieldFilter, tagFilter, tags],
+  );
+
+  // Sin score guardado se calcula con sus deals, igual para mostrarlo que para ordenar o agrupar
+  const scoringById = useMemo(() => {
+    const scoring = new Map<string, ContactScoring>();
+    contacts.forEach((contact) => {
+      if (contact.score) {
+        scoring.set(contact.id, { score: contact.score, priority: contact.priority || "Cold" });
+      } else {
+        const contactDeals = deals.filter((deal) => deal.contact_id === contact.id);
+        const result = calculateContactScore(contact, contactDeals);
+        scoring.set(contact.id, { score: result.score, priority: result.priority });
+      }
     });
-  }, [contacts, searchTerm, priorityFilter]);
+    return scoring;
+  }, [contacts, deals]);
+
+  const groupings = useMemo<ViewGroupings<Contact>>(
+    () => ({
+      company: { value: (contact) => (typeof contact.company === "string" ? contact.company : null) },
+      priority: { value: (contact) => scoringById.get(contact.id)?.priority, order: PRIORITY_GROUP_ORDER },
+    }),
+    [scoringById],
+  );
+
+  const filteredContacts = useMemo(
+    () =>
+      arrangeForView(
+        contacts.filter((contact) => matchesContactFilters(contact, filters, customFields)),
+        view,
+        {
+          name: (contact) => contact.name,
+          company: (contact) => (typeof contact.company === "string" ? contact.company : null),
+          score: (contact) => scoringById.get(contact.id)?.score,
+          activity: (contact) => dateValue(contact.last_activity),
+        },
+        groupings,
+      ),
+    [contacts, filters, customFields, view, scoringById, groupings],
+  );
+  const groupCounts = useMemo(
+    () => countViewGroups(filteredContacts, view.groupBy, groupings),
+    [filteredContacts, view.groupBy, groupings],
+  );
+  const emptyGroupLabel = view.groupBy === "company" ? "Sin empresa" : "Sin prioridad";
+
+  const filteredIds = useMemo(() => filteredContacts.map((contact) => contact.id), [filteredContacts]);
+  const selection = useBulkSelection(filteredIds);
+  const contactLabel = (id: string) => contacts.find((contact) => contact.id === id)?.name ?? id;
 
   const itemsPerPage = 5;
   const totalPages = Math.ceil(filteredContacts.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const paginatedContacts = filteredContacts.slice(startIndex, startIndex + itemsPerPage);
 
+  // Con la URL al mando, abrirla en /contacts/:id abre el contacto y volver atrás lo cierra
+  useEffect(() => {
+    if (!onContactChange) return;
+    const target = focusContactId ? contacts.find((contact) => contact.id === focusContactId) ?? null : null;
+    setEditingContact(target);
+    setIsEditModalOpen(!!target);
+  }, [focusContactId, contacts, onContactChange]);
+
   const handleEdit = (contact: Contact) => {
     setEditingContact(contact);
     setIsEditModalOpen(true);
+    onContactChange?.(contact.id);
   };
 
+  function closeEditor() {
+    setIsEditModalOpen(false);
+    setEditingContact(null);
+    onContactChange?.(null);
+  }
+
+  useEffect(() => {
+    setCustomValues(editingContact?.custom_fields ?? {});
+    setTagDraft(editingContact?.tag_ids ?? []);
+  }, [editingContact]);
+
   const handleDelete = (contact: Contact) => {
     setDeletingContact(contact);
     setIsDeleteModalOpen(true);
@@ -147,6 +253,8 @@ export default function ContactsList({ className }: ContactsListProps) {
       name: formData.get("name") as string,
       email: formData.get("email") as string,
       company: formData.get("company") as string,
+      custom_fields: diffCustomFieldValues(customFields, editingContact.custom_fields, customValues),
+      tag_ids: diffTagIds(editingContact.tag_ids, tagDraft),
     };
 
     updateContactMutation.mutate({ id: editingContact.id, ...patch });
@@ -205,6 +313,7 @@ export default function ContactsList({ className }: ContactsListProps) {
             role: contact.position ?? null,
             lastActivity: contact.last_activity ?? null,
             owner: contact.owner_id ?? null,
+            customFields: describeCustomFields(customFields, contact.custom_fields),
             deals: relatedDeals.map((deal) => ({
               id: deal.id,
               title: deal.title,
@@ -280,10 +389,30 @@ export default function ContactsList({ className }: ContactsListProps) {
               <span className="text-sm text-muted-foreground">
                 {filteredContacts.length} contactos
               </span>
-              <Button size="sm" onClick={() => setIsAddModalOpen(true)}>
-                <Plus className="mr-1 h-4 w-4" />
-                Nuevo
+              {IS_API_MODE && can("contacts:create") && (
+                <Button size="sm" variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="mr-1 h-4 w-4" />
+                  Importar
+                </Button>
+              )}
+              {IS_API_MODE && can("contacts:delete") && (
+                <Button size="sm" variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+                  <GitMerge className="mr-1 h-4 w-4" />
+                  Duplicados
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => setIsExportOpen(true)}>
+                <Download className="mr-1 h-4 w-4" />
+                Exportar
               </Button>
+              {IS_API_MODE && <SavedViewsMenu list="contacts" />}
+              <ListViewControls list="contacts" view={view} />
+              {can("contacts:create") && (
+                <Button size="sm" onClick={() => setIsAddModalOpen(true)}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Nuevo
+                </Button>
+              )}
             </div>
           </div>
 
@@ -314,37 +443,45 @@ export default function ContactsList({ className }: ContactsListProps) {
                   ))}
                 </SelectContent>
               </Select>
+              <CustomFieldFilter
+                fields={customFields}
+                value={customFieldFilter}
+                onChange={setCustomFieldFilter}
+                className="w-full"
+              />
+              <TagFilter tags={tags} value={tagFilter} onChange={setTagFilter} className="w-full" />
             </div>
           </div>
 
+          {IS_API_MODE && <BulkActionsBar entity="contacts" selection={selection} recordLabel={contactLabel} />}
+
           {/* Table */}
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
+                  {IS_API_MODE && (
+                    <TableHead className="w-8">
+                      <SelectAllCheckbox selection={selection} />
+                    </TableHead>
+                  )}
                   <TableHead>Nombre</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Empresa</TableHead>
-                  <TableHead>Score</TableHead>
-                  <TableHead>Prioridad</TableHead>
-                  <TableHead>Última Actividad</TableHead>
-                  <TableHead className="text-right">IA</TableHead>
+                  {view.isColumnVisible("email") && <TableHead>Email</TableHead>}
+                  {view.isColumnVisible("company") && <TableHead>Empresa</TableHead>}
+                  {view.isColumnVisible("score") && <TableHead>Score</TableHead>}
+                  {view.isColumnVisible("priority") && <TableHead>Prioridad</TableHead>}
+                  {view.isColumnVisible("activity") && <TableHead>Última Actividad</TableHead>}
+                  {view.isColumnVisible("ai") && <TableHead className="text-right">IA</TableHead>}
                   <TableHead className="w-24 text-right">Acciones</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {paginatedContacts.map((contact) => {
-                  // Obtener deals asociados al contacto
-                  const contactDeals = deals.filter(deal => deal.contact_id === contact.id);
-                  
-                  // Calcular scoring del contacto
-                  const contactScore = contact.score || 0;
-                  const contactPriority = contact.priority || 'Cold';
-                  
-                  // Si no tiene score calculado, calcularlo
-                  const scoringResult = contactScore === 0 ? calculateContactScore(contact, contactDeals) : null;
-                  const finalScore = scoringResult ? scoringResult.score : contactScore;
-                  const finalPriority = scoringResult ? scoringResult.priority : contactPriority;
+                {paginatedContacts.map((contact, index) => {
+                  const { score: finalScore, priority: finalPriority } = scoringById.get(contact.id)!;
+                  const group = viewGroupValue(contact, view.groupBy, groupings);
+                  const previous = paginatedContacts[index - 1];
+                  const startsGroup =
+                    view.groupBy !== null && (!previous || viewGroupValue(previous, view.groupBy, groupings) !== group);
                   const tooltipType = finalPriority === 'Hot' ? 'hot' : finalPriority === 'Warm' ? 'warm' : 'cold';
 
                   // Formatear última actividad
@@ -362,51 +499,84 @@ export default function ContactsList({ className }: ContactsListProps) {
                   };
 
                   return (
-                    <TableRow key={contact.id}>
-                      <TableCell className="font-medium">{contact.name}</TableCell>
-                      <TableCell>{contact.email || "-"}</TableCell>
-                      <TableCell>{typeof contact.company === 'string' ? contact.company : "-"}</TableCell>
-                      <TableCell>
-                        <ScoringTooltip type={tooltipType}>
-                          <ScoreBadge 
-                            score={finalScore} 
-                            priority={finalPriority} 
-                            size="sm" 
-                          />
-                        </ScoringTooltip>
-                      </TableCell>
-                      <TableCell>
-                        <PriorityBadge priority={finalPriority} size="sm" />
-                      </TableCell>
-                      <TableCell className="text-sm text-muted-foreground">
-                        {formatLastActivity(contact.last_activity)}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="text-muted-foreground hover:text-white"
-                          onClick={() => handleContactInsight(contact)}
-                          disabled={insightLoading && insightContact?.id === contact.id}
-                        >
-                          {insightLoading && insightContact?.id === contact.id ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <Sparkles className="h-4 w-4" />
-                          )}
-                        </Button>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-1">
-                          <Button variant="ghost" size="sm" onClick={() => handleEdit(contact)}>
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="sm" onClick={() => handleDelete(contact)}>
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
+                    <React.Fragment key={contact.id}>
+                      {startsGroup && (
+                        <ViewGroupRow
+                          label={group || emptyGroupLabel}
+                          count={groupCounts.get(group)}
+                          colSpan={view.visibleColumnCount + (IS_API_MODE ? 3 : 2)}
+                        />
+                      )}
+                      <TableRow data-state={selection.isSelected(contact.id) ? "selected" : undefined}>
+                        {IS_API_MODE && (
+                          <TableCell>
+                            <SelectRowCheckbox selection={selection} id={contact.id} />
+                          </TableCell>
+                        )}
+                        <TableCell className="font-medium">
+                          <Link href={contactPath(contact.id)} className="hover:underline">
+                            {contact.name}
+                          </Link>
+                          <TagChips tagIds={contact.tag_ids} tags={tags} max={3} className="mt-1" />
+                        </TableCell>
+                        {view.isColumnVisible("email") && <TableCell>{contact.email || "-"}</TableCell>}
+                        {view.isColumnVisible("company") && (
+                          <TableCell>{typeof contact.company === 'string' ? contact.company : "-"}</TableCell>
+                        )}
+                        {view.isColumnVisible("score") && (
+                          <TableCell>
+                            <ScoringTooltip type={tooltipType}>
+                              <ScoreBadge
+                                score={finalScore}
+                                priority={finalPriority}
+                                size="sm"
+                              />
+                            </ScoringTooltip>
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("priority") && (
+                          <TableCell>
+                            <PriorityBadge priority={finalPriority} size="sm" />
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("activity") && (
+                          <TableCell className="text-sm text-muted-foreground">
+                            {formatLastActivity(contact.last_activity)}
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("ai") && (
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-muted-foreground hover:text-white"
+                              onClick={() => handleContactInsight(contact)}
+                              disabled={insightLoading && insightContact?.id === contact.id}
+                            >
+                              {insightLoading && insightContact?.id === contact.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Sparkles className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {can("contacts:update") && (
+                              <Button variant="ghost" size="sm" onClick={() => handleEdit(contact)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("contacts:delete") && (
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(contact)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
                   );
                 })}
               </TableBody>
@@ -449,60 +619,67 @@ export default function ContactsList({ className }: ContactsListProps) {
       </Card>
 
       {/* Edit Modal */}
-      <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
+      <Dialog open={isEditModalOpen} onOpenChange={(open) => !open && closeEditor()}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Editar Contacto</DialogTitle>
+            <DialogTitle>{can("contacts:update") ? "Editar Contacto" : "Contacto"}</DialogTitle>
           </DialogHeader>
           
           {editingContact && (
             <form onSubmit={handleEditSubmit} className="space-y-4">
-              <div>
-                <label className="text-sm font-medium text-card-foreground block mb-2">
-                  Nombre *
-                </label>
-                <Input
-                  name="name"
-                  defaultValue={editingContact.name}
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="text-sm font-medium text-card-foreground block mb-2">
-                  Email
-                </label>
-                <Input
-                  name="email"
-                  type="email"
-                  defaultValue={editingContact.email || ""}
-                />
-              </div>
-
-              <div>
-                <label className="text-sm font-medium text-card-foreground block mb-2">
-                  Empresa
-                </label>
-                <Input
-                  name="company"
-                  defaultValue={typeof editingContact.company === 'string' ? editingContact.company : ""}
-                />
-              </div>
+              <fieldset disabled={!can("contacts:update")} className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-card-foreground block mb-2">
+                    Nombre *
+                  </label>
+                  <Input
+                    name="name"
+                    defaultValue={editingContact.name}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-card-foreground block mb-2">
+                    Email
+                  </label>
+                  <Input
+                    name="email"
+                    type="email"
+                    defaultValue={editingContact.email || ""}
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-card-foreground block mb-2">
+                    Empresa
+                  </label>
+                  <Input
+                    name="company"
+                    defaultValue={typeof editingContact.company === 'string' ? editingContact.company : ""}
+                  />
+                </div>
+
+                <CustomFieldInputs fields={customFields} values={customValues} onChange={setCustomValues} />
+                <TagPicker tags={tags} value={tagDraft} onChange={setTagDraft} />
+              </fieldset>
 
               <div className="flex justify-end space-x-3 pt-4">
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setIsEditModalOpen(false)}
-                >
-                  Cancelar
-                </Button>
-                <Button
-                  type="submit"
-                  disabled={updateContactMutation.isPending}
+                  onClick={closeEditor}
                 >
-                  {updateContactMutation.isPending ? "Guardando..." : "Guardar"}
+                  {can("contacts:update") ? "Cancelar" : "Cerrar"}
                 </Button>
+                {can("contacts:update") && (
+                  <Button
+                    type="submit"
+                    disabled={updateContactMutation.isPending}
+                  >
+                    {updateContactMutation.isPending ? "Guardando..." : "Guardar"}
+                  </Button>
+                )}
               </div>
             </form>
           )}
@@ -608,6 +785,15 @@ export default function ContactsList({ className }: ContactsListProps) {
           )}
         </DialogContent>
       </Dialog>
+      <ImportWizard open={isImportOpen} onClose={() => setIsImportOpen(false)} defaultEntity="contacts" />
+      <ContactDuplicatesDialog open={isDuplicatesOpen} onClose={() => setIsDuplicatesOpen(false)} />
+      <ExportDialog
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        entity="contacts"
+        filters={filters}
+        records={filteredContacts}
+      />
     </>
   );
 }
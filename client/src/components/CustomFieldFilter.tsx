@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import {
+  formatCustomFieldFilter,
+  parseCustomFieldFilter,
+  type CustomFieldDefinition,
+} from "@shared/customFields";
+
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface CustomFieldFilterProps {
+  fields: readonly CustomFieldDefinition[];
+  /** Filtro en la forma `clave:valor` (parámetro `cf` de la URL); "" sin filtro. */
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  /** Estilo de los desplegables y la caja de texto, para cabeceras oscuras. */
+  controlClassName?: string;
+}
+
+const NONE = "none";
+
+const RANGE_PLACEHOLDERS: Partial<Record<CustomFieldDefinition["type"], string>> = {
+  number: "10..50",
+  currency: "1000..",
+  date: "2026-01-01..2026-03-31",
+};
+
+/**
+ * Filtro de un listado por un campo personalizado: se elige el campo y el
+ * valor. Números, importes y fechas aceptan rangos con `..`.
+ */
+export default function CustomFieldFilter({
+  fields,
+  value,
+  onChange,
+  className,
+  controlClassName,
+}: CustomFieldFilterProps) {
+  const parsed = parseCustomFieldFilter(value);
+  // El campo elegido se recuerda aunque aún no haya valor (la URL solo guarda filtros completos)
+  const [key, setKey] = useState(parsed?.key ?? "");
+  useEffect(() => {
+    if (parsed?.key) setKey(parsed.key);
+  }, [parsed?.key]);
+  const current = parsed?.key === key ? parsed.value : "";
+  // El texto se edita aparte: la URL recorta espacios y no debe pisar lo que se escribe
+  const [draft, setDraft] = useState(current);
+  useEffect(() => {
+    setDraft((previous) => (previous.trim() === current ? previous : current));
+  }, [current]);
+
+  if (!fields.length) return null;
+  const field = fields.find((candidate) => candidate.key === key);
+
+  const changeField = (next: string) => {
+    setKey(next === NONE ? "" : next);
+    onChange("");
+  };
+  const changeValue = (next: string) => {
+    onChange(field ? formatCustomFieldFilter({ key: field.key, value: next }) ?? "" : "");
+  };
+
+  return (
+    <div className={cn("flex gap-2", className)} data-testid="custom-field-filter">
+      <Select value={field ? field.key : NONE} onValueChange={changeField}>
+        <SelectTrigger className={cn("w-full", controlClassName)}>
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          <SelectValue placeholder="Campo personalizado" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Sin campo personalizado</SelectItem>
+          {fields.map((candidate) => (
+            <SelectItem key={candidate.key} value={candidate.key}>
+              {candidate.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {field && (field.type === "select" || field.type === "multiselect" || field.type === "boolean") ? (
+        <Select value={current || NONE} onValueChange={(next) => changeValue(next === NONE ? "" : next)}>
+          <SelectTrigger className={cn("w-full", controlClassName)}>
+            <SelectValue placeholder="Cualquier valor" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Cualquier valor</SelectItem>
+            {field.type === "boolean" ? (
+              <>
+                <SelectItem value="true">Sí</SelectItem>
+                <SelectItem value="false">No</SelectItem>
+              </>
+            ) : (
+              field.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))
+            )}
+          </SelectContent>
+        </Select>
+      ) : field ? (
+        <Input
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            changeValue(event.target.value);
+          }}
+          placeholder={RANGE_PLACEHOLDERS[field.type] ?? "Contiene..."}
+          aria-label={`Valor de ${field.label}`}
+          className={controlClassName}
+        />
+      ) : null}
+    </div>
+  );
+}
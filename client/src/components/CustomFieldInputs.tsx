@@ -0,0 +1,130 @@
+import {
+  toCustomFieldFormValue,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type CustomFieldValues,
+} from "@shared/customFields";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface CustomFieldInputsProps {
+  fields: readonly CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+// Radix no admite una opción con valor vacío
+const EMPTY = "__empty";
+
+const INPUT_TYPES: Partial<Record<CustomFieldDefinition["type"], string>> = {
+  number: "number",
+  currency: "number",
+  date: "date",
+};
+
+/**
+ * Controles de los campos personalizados de la entidad, en el orden que fija
+ * el admin. El formulario guarda "" para los campos vacíos; al enviar solo se
+ * mandan los cambios (`diffCustomFieldValues`).
+ */
+export default function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  if (!fields.length) return null;
+  const set = (key: string, value: CustomFieldValue) => onChange({ ...values, [key]: value });
+
+  return (
+    <fieldset className="space-y-3 rounded-lg border border-border p-3" data-testid="custom-field-inputs">
+      <legend className="px-1 text-xs font-medium text-muted-foreground">Campos personalizados</legend>
+      {fields.map((field) => {
+        const value = toCustomFieldFormValue(field, values[field.key]);
+        const id = `custom-field-${field.key}`;
+        return (
+          <div key={field.key}>
+            <label htmlFor={id} className="text-sm font-medium text-card-foreground block mb-2">
+              {field.label}
+            </label>
+            <CustomFieldControl id={id} field={field} value={value} onChange={(next) => set(field.key, next)} />
+          </div>
+        );
+      })}
+    </fieldset>
+  );
+}
+
+interface CustomFieldControlProps {
+  id: string;
+  field: CustomFieldDefinition;
+  value: CustomFieldValue;
+  onChange: (value: CustomFieldValue) => void;
+}
+
+function CustomFieldControl({ id, field, value, onChange }: CustomFieldControlProps) {
+  switch (field.type) {
+    case "select":
+      return (
+        <Select
+          value={value === "" ? EMPTY : String(value)}
+          onValueChange={(next) => onChange(next === EMPTY ? "" : next)}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Sin valor" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EMPTY}>Sin valor</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multiselect": {
+      const chosen = Array.isArray(value) ? value : [];
+      return (
+        <div id={id} className="flex flex-wrap gap-x-4 gap-y-2">
+          {field.options.map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={chosen.includes(option)}
+                onCheckedChange={(checked) =>
+                  onChange(checked === true ? [...chosen, option] : chosen.filter((item) => item !== option))
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case "boolean":
+      return (
+        <Select
+          value={value === "" ? EMPTY : String(value)}
+          onValueChange={(next) => onChange(next === EMPTY ? "" : next === "true")}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Sin valor" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EMPTY}>Sin valor</SelectItem>
+            <SelectItem value="true">Sí</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          type={INPUT_TYPES[field.type] ?? "text"}
+          step={field.type === "currency" ? "0.01" : field.type === "number" ? "any" : undefined}
+          inputMode={field.type === "url" ? "url" : undefined}
+          placeholder={field.type === "url" ? "https://..." : undefined}
+          value={String(value)}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+  }
+}
@@ -0,0 +1,36 @@
+import { formatCustomFieldValue, type CustomFieldDefinition, type CustomFieldValues } from "@shared/customFields";
+import { cn } from "@/lib/utils";
+
+interface CustomFieldValuesListProps {
+  fields: readonly CustomFieldDefinition[];
+  values: CustomFieldValues | null | undefined;
+  className?: string;
+}
+
+/** Campos personalizados con valor del registro, para las fichas; sin ninguno no pinta nada. */
+export default function CustomFieldValuesList({ fields, values, className }: CustomFieldValuesListProps) {
+  const filled = fields.filter((field) => formatCustomFieldValue(field, values?.[field.key]) !== "");
+  if (!filled.length) return null;
+
+  return (
+    <dl className={cn("grid gap-x-4 gap-y-2 text-sm sm:grid-cols-2", className)} data-testid="custom-field-values">
+      {filled.map((field) => {
+        const text = formatCustomFieldValue(field, values?.[field.key]);
+        return (
+          <div key={field.key} className="min-w-0">
+            <dt className="text-xs text-muted-foreground">{field.label}</dt>
+            <dd className="truncate text-foreground">
+              {field.type === "url" ? (
+                <a href={text} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                  {text}
+                </a>
+              ) : (
+                text
+              )}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_ENTITY_LABELS,
+  CUSTOM_FIELD_OPTION_TYPES,
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomFieldEntity,
+  type CustomFieldType,
+} from "@shared/customFields";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+interface CustomFieldsEditorProps {
+  open: boolean;
+  onClose: () => void;
+  /** Entidad que se abre primero; desde el diálogo se puede cambiar. */
+  defaultEntity?: CustomFieldEntity;
+}
+
+function parseOptions(text: string): string[] {
+  return text
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Alta, renombrado, opciones, orden y borrado de los campos personalizados de
+ * deals, contactos y empresas. Solo para administradores y en modo API.
+ */
+export default function CustomFieldsEditor({ open, onClose, defaultEntity = "deals" }: CustomFieldsEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [entity, setEntity] = useState<CustomFieldEntity>(defaultEntity);
+  const { fields } = useCustomFields(entity);
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<CustomFieldType>("text");
+  const [options, setOptions] = useState("");
+
+  useEffect(() => {
+    if (open) setEntity(defaultEntity);
+  }, [open, defaultEntity]);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.customFields });
+    // Borrar un campo limpia su valor en los registros
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.companies });
+  };
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar el campo",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: api.createCustomField,
+    onSuccess: () => {
+      setLabel("");
+      setOptions("");
+      onSuccess();
+    },
+    onError,
+  });
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...patch }: { id: string } & Parameters<typeof api.updateCustomField>[1]) =>
+      api.updateCustomField(id, patch),
+    onSuccess,
+    onError,
+  });
+  const reorderMutation = useMutation({ mutationFn: api.reorderCustomFields, onSuccess, onError });
+  const deleteMutation = useMutation({ mutationFn: api.deleteCustomField, onSuccess, onError });
+
+  const needsOptions = CUSTOM_FIELD_OPTION_TYPES.includes(type);
+
+  const move = (index: number, offset: number) => {
+    const ids = fields.map((field) => field.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const handleAdd = () => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    createMutation.mutate({
+      entity,
+      label: trimmed,
+      type,
+      ...(needsOptions ? { options: parseOptions(options) } : {}),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Campos personalizados</DialogTitle>
+          <DialogDescription>
+            Aparecen en los formularios, las fichas, los filtros y las exportaciones. Borrar un campo borra también
+            su valor en todos los registros.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={entity} onValueChange={(value) => setEntity(value as CustomFieldEntity)}>
+          <SelectTrigger data-testid="select-custom-field-entity">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CUSTOM_FIELD_ENTITIES.map((item) => (
+              <SelectItem key={item} value={item}>
+                {CUSTOM_FIELD_ENTITY_LABELS[item]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          {fields.length === 0 && (
+            <p className="py-2 text-center text-sm text-muted-foreground">Aún no hay campos para esta entidad.</p>
+          )}
+          {fields.map((field, index) => (
+            <FieldRow
+              key={`${field.id}-${field.updated_at}`}
+              field={field}
+              isFirst={index === 0}
+              isLast={index === fields.length - 1}
+              onMoveUp={() => move(index, -1)}
+              onMoveDown={() => move(index, 1)}
+              onChange={(patch) => updateMutation.mutate({ id: field.id, ...patch })}
+              onDelete={() => deleteMutation.mutate(field.id)}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <div className="flex gap-2">
+            <Input
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && handleAdd()}
+              placeholder="Nuevo campo"
+              data-testid="input-new-custom-field"
+            />
+            <Select value={type} onValueChange={(value) => setType(value as CustomFieldType)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {CUSTOM_FIELD_TYPE_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleAdd}
+              disabled={!label.trim() || (needsOptions && !parseOptions(options).length) || createMutation.isPending}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Añadir
+            </Button>
+          </div>
+          {needsOptions && (
+            <Input
+              value={options}
+              onChange={(event) => setOptions(event.target.value)}
+              placeholder="Opciones separadas por comas"
+              aria-label="Opciones del nuevo campo"
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface FieldRowProps {
+  field: api.CustomField;
+  isFirst: boolean;
+  isLast: boolean;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onChange: (patch: Parameters<typeof api.updateCustomField>[1]) => void;
+  onDelete: () => void;
+}
+
+// Como en las etapas, los textos se guardan al salir del input
+function FieldRow({ field, isFirst, isLast, onMoveUp, onMoveDown, onChange, onDelete }: FieldRowProps) {
+  const [label, setLabel] = useState(field.label);
+  const [options, setOptions] = useState(field.options.join(", "));
+  const [confirming, setConfirming] = useState(false);
+  const hasOptions = CUSTOM_FIELD_OPTION_TYPES.includes(field.type);
+
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (trimmed && trimmed !== field.label) onChange({ label: trimmed });
+    else setLabel(field.label);
+  };
+
+  const commitOptions = () => {
+    const next = parseOptions(options);
+    if (next.length && next.join("\n") !== field.options.join("\n")) onChange({ options: next });
+    else setOptions(field.options.join(", "));
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-2" data-testid={`custom-field-row-${field.key}`}>
+      <div className="flex items-center gap-2">
+        <Input
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          onBlur={commitLabel}
+          className="flex-1"
+          aria-label={`Etiqueta de ${field.label}`}
+        />
+        <Badge variant="outline" className="shrink-0" title={`Clave: ${field.key}`}>
+          {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+        </Badge>
+        <Button variant="ghost" size="icon" onClick={onMoveUp} disabled={isFirst} aria-label="Subir">
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onMoveDown} disabled={isLast} aria-label="Bajar">
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        {confirming ? (
+          <>
+            <Button variant="destructive" size="sm" onClick={onDelete}>
+              Borrar
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+              No
+            </Button>
+          </>
+        ) : (
+          <Button variant="ghost" size="icon" onClick={() => setConfirming(true)} aria-label="Borrar campo">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {hasOptions && (
+        <Input
+          value={options}
+          onChange={(event) => setOptions(event.target.value)}
+          onBlur={commitOptions}
+          placeholder="Opciones separadas por comas"
+          aria-label={`Opciones de ${field.label}`}
+        />
+      )}
+    </div>
+  );
+}
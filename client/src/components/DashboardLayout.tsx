@@ -10,8 +10,13 @@ import {
   ShieldCheck,
   Menu,
   X,
+  LogOut,
 } from "lucide-react";
+import type { Permission } from "@shared/permissions";
 import { cn } from "@/lib/utils";
+import { IS_API_MODE } from "@/lib/db";
+import { useAuthActions, useCurrentUser } from "@/hooks/useCurrentUser";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface DashboardLayoutProps {
   children: (active: string) => ReactNode;
@@ -27,6 +32,8 @@ type NavItem = {
   label: string;
   icon: ComponentType<{ className?: string }>;
   disabled?: boolean;
+  /** Secciones de servidor: solo en modo API y con este permiso. */
+  permission?: Permission;
 };
 
 const DEFAULT_NAV_ITEMS: NavItem[] = [
@@ -36,7 +43,7 @@ const DEFAULT_NAV_ITEMS: NavItem[] = [
   { label: "Empresas", icon: Building2 },
   { label: "Tareas", icon: ClipboardList },
   { label: "Métricas", icon: LineChart },
-  { label: "Equipo", icon: ShieldCheck, disabled: true },
+  { label: "Equipo", icon: ShieldCheck, permission: "users:view" },
 ];
 
 function DashboardSidebar({
@@ -171,6 +178,9 @@ function DashboardTopbar({
   active: string;
   onToggleSidebar: () => void;
 }) {
+  const { user, displayName } = useCurrentUser();
+  const { logout } = useAuthActions();
+
   return (
     <header className="flex items-center justify-between gap-4 border-b border-white/5 bg-transparent px-4 py-4 backdrop-blur">
       <div className="flex items-center gap-3">
@@ -209,9 +219,21 @@ function DashboardTopbar({
           </button>
         )}
         <div className="hidden sm:flex flex-col items-end text-xs text-white/60">
-          <span className="font-semibold text-white">Borja Armet</span>
-          <span>Sales Rep</span>
+          <span className="font-semibold text-white">{displayName}</span>
+          <span>{user?.role ?? "Modo demo"}</span>
         </div>
+        {user && (
+          <button
+            type="button"
+            onClick={() => logout.mutate()}
+            disabled={logout.isPending}
+            className="flex h-10 w-10 items-center justify-center rounded-lg border border-white/10 text-white/80 transition hover:bg-white/10"
+            aria-label="Cerrar sesión"
+            title="Cerrar sesión"
+          >
+            <LogOut className="h-4 w-4" />
+          </button>
+        )}
       </div>
     </header>
   );
@@ -226,7 +248,14 @@ export default function DashboardLayout({
   activeSection,
   onSectionChange,
 }: DashboardLayoutProps) {
-  const navItems = useMemo(() => DEFAULT_NAV_ITEMS, []);
+  const { can } = usePermissions();
+  const navItems = useMemo(
+    () =>
+      DEFAULT_NAV_ITEMS.map((item) =>
+        item.permission ? { ...item, disabled: !IS_API_MODE || !can(item.permission) } : item,
+      ),
+    [can],
+  );
   const [internalActive, setInternalActive] = useState(initialSection);
   const active = activeSection ?? internalActive;
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DEAL_ALERT_REASON_DEFINITIONS } from "@shared/dealAlerts";
+
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+interface DealAlertHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const PERIOD_OPTIONS = [
+  { days: 7, label: "Últimos 7 días" },
+  { days: 30, label: "Últimos 30 días" },
+  { days: 90, label: "Últimos 90 días" },
+] as const;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+function formatHours(hours: number | null) {
+  if (hours === null) return "—";
+  return hours < 48 ? `${hours} h` : `${Math.round((hours / 24) * 10) / 10} d`;
+}
+
+/**
+ * Historial de alertas del equipo: cuántas saltaron a cada owner, cómo se
+ * cerraron y cuánto se tardó en resolverlas. Para managers y en modo API.
+ */
+export default function DealAlertHistoryDialog({ open, onClose }: DealAlertHistoryDialogProps) {
+  const [days, setDays] = useState<number>(30);
+  const { data: report, isLoading } = useQuery({
+    queryKey: [...QUERY_KEYS.dealAlertReport, days],
+    queryFn: () => api.getDealAlertReport({ from: new Date(Date.now() - days * dayMs).toISOString() }),
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Historial de alertas</DialogTitle>
+          <DialogDescription>
+            Alertas que saltaron en el periodo, por owner. El tiempo de resolución cuenta desde que salta la alerta
+            hasta que alguien la resuelve; las que se resuelven solas no entran en la media.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-48" aria-label="Periodo">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.days} value={String(option.days)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {!isLoading && !report?.owners.length && (
+          <p className="py-4 text-center text-sm text-muted-foreground">No saltó ninguna alerta en el periodo.</p>
+        )}
+        {report && report.owners.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-muted-foreground">
+                <tr>
+                  <th className="py-2 pr-3 font-medium">Owner</th>
+                  <th className="py-2 pr-3 font-medium">Saltaron</th>
+                  <th className="py-2 pr-3 font-medium">Pendientes</th>
+                  <th className="py-2 pr-3 font-medium">Resueltas</th>
+                  <th className="py-2 pr-3 font-medium">Descartadas</th>
+                  <th className="py-2 pr-3 font-medium">Resolución media</th>
+                  <th className="py-2 font-medium">Mediana</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.owners.map((owner) => (
+                  <tr
+                    key={owner.owner_id ?? "none"}
+                    className="border-t border-border"
+                    data-testid={`alert-history-${owner.owner_id ?? "none"}`}
+                  >
+                    <td className="py-2 pr-3">{owner.owner_name ?? "Sin owner"}</td>
+                    <td className="py-2 pr-3">{owner.opened}</td>
+                    <td className="py-2 pr-3">{owner.pending}</td>
+                    <td className="py-2 pr-3">
+                      {owner.resolved}
+                      {owner.auto_resolved > 0 && (
+                        <span className="text-xs text-muted-foreground"> ({owner.auto_resolved} solas)</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">{owner.dismissed}</td>
+                    <td className="py-2 pr-3">{formatHours(owner.avg_resolution_hours)}</td>
+                    <td className="py-2">{formatHours(owner.median_resolution_hours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {report && report.reasons.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Motivos de cierre</h3>
+            <div className="flex flex-wrap gap-2">
+              {report.reasons.map((entry) => (
+                <Badge key={entry.reason} variant="secondary">
+                  {DEAL_ALERT_REASON_DEFINITIONS[entry.reason].label} · {entry.count}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
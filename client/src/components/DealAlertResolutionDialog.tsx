@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import {
+  DEAL_ALERT_REASON_DEFINITIONS,
+  dealAlertReasonsFor,
+  MAX_ALERT_NOTE_LENGTH,
+  type DealAlertReason,
+} from "@shared/dealAlerts";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { DealAlert } from "@/lib/pipelineInsights";
+
+export interface DealAlertResolution {
+  status: "resolved" | "dismissed";
+  reason: DealAlertReason;
+  note: string;
+}
+
+interface DealAlertResolutionDialogProps {
+  /** Alerta que se cierra; null con el diálogo cerrado. */
+  alert: DealAlert | null;
+  saving?: boolean;
+  onClose: () => void;
+  onConfirm: (alert: DealAlert, resolution: DealAlertResolution) => void;
+}
+
+const STATUS_OPTIONS = [
+  { value: "resolved", label: "Resuelta" },
+  { value: "dismissed", label: "Descartada" },
+] as const;
+
+/** Cerrar una alerta: resuelta o descartada, con un motivo y una nota opcional. */
+export default function DealAlertResolutionDialog({
+  alert,
+  saving,
+  onClose,
+  onConfirm,
+}: DealAlertResolutionDialogProps) {
+  const [status, setStatus] = useState<DealAlertResolution["status"]>("resolved");
+  const [reason, setReason] = useState<DealAlertReason | "">("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!alert) return;
+    setStatus("resolved");
+    setReason("");
+    setNote("");
+  }, [alert]);
+
+  const reasons = dealAlertReasonsFor(status);
+
+  return (
+    <Dialog open={alert !== null} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cerrar alerta</DialogTitle>
+          <DialogDescription>{alert?.message}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            {STATUS_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={status === option.value ? "default" : "outline"}
+                onClick={() => {
+                  setStatus(option.value);
+                  setReason("");
+                }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Select value={reason} onValueChange={(value) => setReason(value as DealAlertReason)}>
+            <SelectTrigger aria-label="Motivo">
+              <SelectValue placeholder="Motivo…" />
+            </SelectTrigger>
+            <SelectContent>
+              {reasons.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {DEAL_ALERT_REASON_DEFINITIONS[option].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            placeholder="Nota (opcional)"
+            maxLength={MAX_ALERT_NOTE_LENGTH}
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            disabled={!reason || saving}
+            onClick={() => alert && reason && onConfirm(alert, { status, reason, note: note.trim() })}
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,31 @@
 import { useMemo } from "react";
-import { AlertTriangle, Check, ExternalLink, Share2 } from "lucide-react";
+import { AlarmClock, AlertTriangle, Check, ExternalLink, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { DEAL_ALERT_RULE_DEFINITIONS, DEAL_ALERT_SEVERITY_LABELS } from "@shared/dealAlerts";
 import type { DealAlert, AlertsChannelPayload } from "@/lib/pipelineInsights";
 import { buildAlertsChannelPayload } from "@/lib/pipelineInsights";
 import { cn } from "@/lib/utils";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+/** Plazos para posponer una alerta, en días. */
+const SNOOZE_OPTIONS = [
+  { days: 1, label: "1 día" },
+  { days: 3, label: "3 días" },
+  { days: 7, label: "1 semana" },
+] as const;
 
 interface DealAlertsBannerProps {
   alerts: DealAlert[];
   onResolve: (alert: DealAlert) => void | Promise<void>;
+  /** Sin él no se ofrece posponer (solo en modo API, donde se guarda). */
+  onSnooze?: (alert: DealAlert, days: number) => void;
   onViewDeal: (dealId: string) => void;
   onShareAlerts?: (payload: AlertsChannelPayload) => void;
   isFilteredView?: boolean;
@@ -19,6 +35,7 @@ interface DealAlertsBannerProps {
 export default function DealAlertsBanner({
   alerts,
   onResolve,
+  onSnooze,
   onViewDeal,
   onShareAlerts,
   isFilteredView,
@@ -72,7 +89,7 @@ export default function DealAlertsBanner({
               Alertas de pipeline {titleAddon ? `· ${titleAddon}` : ""}
             </p>
             <p className="text-xs text-amber-200/80">
-              Deals sin próximo paso o con fecha objetivo vencida.
+              Deals que disparan alguna de las reglas de alerta activas.
             </p>
           </div>
         </div>
@@ -128,7 +145,23 @@ export default function DealAlertsBanner({
               </div>
             </div>
 
-            <p className="mt-1 text-[11px] text-white/70">{alert.reasons.join(" · ")}</p>
+            <ul className="mt-2 space-y-1 text-[11px]">
+              {alert.hits.map((hit) => (
+                <li key={hit.rule} className="flex flex-wrap items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      "border-white/30 px-1.5 py-0 text-[10px]",
+                      hit.severity === "critical" ? "text-red-100" : "text-amber-100",
+                    )}
+                  >
+                    {DEAL_ALERT_SEVERITY_LABELS[hit.severity]}
+                  </Badge>
+                  <span className="font-medium text-white/90">{DEAL_ALERT_RULE_DEFINITIONS[hit.rule].label}</span>
+                  <span className="text-white/70">{hit.reason}</span>
+                </li>
+              ))}
+            </ul>
             <p className="mt-1 text-[11px] text-white/90">IA sugiere: {alert.recommendedAction}</p>
 
             <div className="mt-3 flex flex-wrap items-center gap-2 text-[11px]">
@@ -152,6 +185,23 @@ export default function DealAlertsBanner({
                 <Check className="mr-2 h-3.5 w-3.5" />
                 Marcar resuelto
               </Button>
+              {onSnooze && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button type="button" size="sm" variant="ghost" className="h-8 text-white/80 hover:text-white">
+                      <AlarmClock className="mr-2 h-3.5 w-3.5" />
+                      Posponer
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {SNOOZE_OPTIONS.map((option) => (
+                      <DropdownMenuItem key={option.days} onSelect={() => onSnooze(alert, option.days)}>
+                        {option.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           </li>
         ))}
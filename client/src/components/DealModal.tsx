@@ -8,9 +8,18 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import CompanySelector, { type CompanyChoice } from "@/components/CompanySelector";
 import ContactSelector from "@/components/ContactSelector";
+import DealStageHistory from "@/components/DealStageHistory";
 import type { Deal, Contact } from "@/lib/types";
 import { useContactsQuery } from "@/hooks/useCrmQueries";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import CustomFieldInputs from "@/components/CustomFieldInputs";
+import TagPicker from "@/components/TagPicker";
+import { useTags } from "@/hooks/useTags";
+import { diffCustomFieldValues, type CustomFieldValues } from "@shared/customFields";
+import { usePipeline } from "@/hooks/usePipeline";
+import { getActiveStages, getInitialStage, mapStageToPipeline } from "@shared/pipelineStages";
 import { QUERY_KEYS } from "@/lib/queryKeys";
 
 function translateDealError(message: string) {
@@ -32,6 +41,8 @@ interface DealModalProps {
   onCreated?: (deal: Deal) => void;
   deal?: Deal; // Optional deal for editing
   contacts?: Contact[];
+  /** Pipeline propuesto para deals nuevos; sin valor, el predeterminado. */
+  pipelineId?: string | null;
 }
 
 export default function DealModal({ 
@@ -39,17 +50,23 @@ export default function DealModal({
   onClose, 
   onCreated,
   deal,
-  contacts: propContacts 
+  contacts: propContacts,
+  pipelineId,
 }: DealModalProps) {
   const [title, setTitle] = useState("");
-  const [company, setCompany] = useState("");
+  const [company, setCompany] = useState<CompanyChoice | null>(null);
   const [amount, setAmount] = useState("");
+  const [selectedPipelineId, setSelectedPipelineId] = useState<string | null>(null);
   const [stage, setStage] = useState("Prospección");
   const [targetClose, setTargetClose] = useState("");
   const [nextStep, setNextStep] = useState("");
   const [contactId, setContactId] = useState<string | undefined>("");
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [autoProbability, setAutoProbability] = useState<number | null>(null);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const { fields: customFields } = useCustomFields("deals");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const { tags } = useTags();
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -61,32 +78,54 @@ export default function DealModal({
   const contacts = contactsData ?? ([] as Contact[]);
   const availableContacts = propContacts ?? contacts;
 
+  const { pipelines, pipeline, stages: pipelineStages, allStages } = usePipeline(selectedPipelineId);
+  const initialStage = getInitialStage(pipelineStages);
+  const stageNames = getActiveStages(pipelineStages).map((item) => item.name);
+  // Un deal en una etapa desactivada conserva su etapa como opción
+  const stageOptions = stage && !stageNames.includes(stage) ? [...stageNames, stage] : stageNames;
+
   // Populate form when editing a deal
   useEffect(() => {
+    if (open) setSelectedPipelineId(deal?.pipeline_id ?? pipelineId ?? null);
     if (deal && open) {
       setTitle(deal.title || "");
-      setCompany(deal.company || "");
+      setCompany(deal.company ? { id: deal.company_id ?? undefined, name: deal.company } : null);
       setAmount(deal.amount?.toString() || "");
-      setStage(deal.stage || "Prospección");
+      setStage(deal.stage || initialStage);
       setTargetClose(deal.target_close_date || "");
       setNextStep(deal.next_step || "");
       setContactId(deal.contact_id || "");
       setAutoProbability(typeof deal.probability === "number" ? deal.probability : null);
+      setCustomValues(deal.custom_fields ?? {});
+      setTagIds(deal.tag_ids ?? []);
     } else if (open) {
       // Reset form when creating new deal
       resetForm();
     }
   }, [deal, open]);
 
+  // El formulario nuevo arranca en la primera etapa del pipeline elegido
+  useEffect(() => {
+    if (open && !stage) setStage(initialStage);
+  }, [open, stage, initialStage]);
+
+  const handlePipelineChange = (nextPipelineId: string) => {
+    const nextStages = allStages.filter((item) => item.pipeline_id === nextPipelineId);
+    setStage(mapStageToPipeline(pipelineStages, nextStages, stage));
+    setSelectedPipelineId(nextPipelineId);
+  };
+
   const addDealMutation = useMutation({
     mutationFn: addDeal,
     onSuccess: (newDeal) => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.companies });
       // Invalidate dashboard queries
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.hotDeal });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stalledDeals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quickMetrics });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.funnel });
       resetForm();
       onClose();
       onCreated?.(newDeal);
@@ -107,14 +146,16 @@ export default function DealModal({
 
   const resetForm = () => {
     setTitle("");
-    setCompany("");
+    setCompany(null);
     setAmount("");
-    setStage("Prospección");
+    setStage("");
     setTargetClose("");
     setNextStep("");
     setContactId("");
     setErrors({});
     setAutoProbability(null);
+    setCustomValues({});
+    setTagIds([]);
   };
 
   const validateForm = (): boolean => {
@@ -153,12 +194,16 @@ export default function DealModal({
     const nextStepValue = nextStep.trim();
     addDealMutation.mutate({
       title: title.trim(),
-      company: company.trim() || undefined,
+      company: company?.name,
+      company_id: company?.id,
       amount: amountValue,
       stage,
+      pipeline_id: pipeline?.id,
       target_close_date: targetClose,
       next_step: nextStepValue,
       contact_id: contactId || undefined,
+      custom_fields: diffCustomFieldValues(customFields, {}, customValues),
+      tag_ids: tagIds.length ? tagIds : undefined,
       status: 'Open',
       score: 0,
       inactivity_days: 0,
@@ -198,14 +243,7 @@ export default function DealModal({
             <label className="text-sm font-medium text-card-foreground block mb-2">
               Empresa
             </label>
-            <input
-              type="text"
-              value={company}
-              onChange={(e) => setCompany(e.target.value)}
-              className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
-              placeholder="Ej: TechCorp Solutions"
-              data-testid="input-deal-company"
-            />
+            <CompanySelector value={company} onChange={setCompany} />
           </div>
 
           <div>
@@ -231,6 +269,26 @@ export default function DealModal({
             )}
           </div>
 
+          {pipelines.length > 1 && (
+            <div>
+              <label className="text-sm font-medium text-card-foreground block mb-2">
+                Pipeline
+              </label>
+              <select
+                value={pipeline?.id ?? ""}
+                onChange={(e) => handlePipelineChange(e.target.value)}
+                className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                data-testid="select-deal-pipeline"
+              >
+                {pipelines.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="text-sm font-medium text-card-foreground block mb-2">
               Etapa
@@ -241,11 +299,11 @@ export default function DealModal({
               className="w-full px-3 py-2 bg-background border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
               data-testid="select-deal-stage"
             >
-              <option value="Prospección">Prospección</option>
-              <option value="Calificación">Calificación</option>
-              <option value="Negociación">Negociación</option>
-              <option value="Propuesta">Propuesta</option>
-              <option value="Cierre">Cierre</option>
+              {stageOptions.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -290,6 +348,11 @@ export default function DealModal({
             />
           </div>
 
+          <CustomFieldInputs fields={customFields} values={customValues} onChange={setCustomValues} />
+          <TagPicker tags={tags} value={tagIds} onChange={setTagIds} />
+
+          {deal && <DealStageHistory deal={deal} />}
+
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
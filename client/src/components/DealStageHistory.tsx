@@ -0,0 +1,80 @@
+import { useMemo } from "react";
+import { Loader2 } from "lucide-react";
+import { findStage } from "@shared/pipelineStages";
+import { getStagePeriods } from "@shared/stageHistory";
+
+import { useDealStageTransitionsQuery } from "@/hooks/useCrmQueries";
+import { usePipeline } from "@/hooks/usePipeline";
+import type { Deal } from "@/lib/types";
+
+interface DealStageHistoryProps {
+  deal: Deal;
+}
+
+const FALLBACK_COLOR = "#64748B";
+
+const DATE_FORMATTER = new Intl.DateTimeFormat("es-ES", { day: "numeric", month: "short" });
+
+function formatDays(days: number) {
+  if (days < 1) return "< 1 día";
+  const rounded = Math.round(days);
+  return rounded === 1 ? "1 día" : `${rounded} días`;
+}
+
+/** Días que el deal ha pasado en cada etapa, a partir de deal_stage_transitions. */
+export default function DealStageHistory({ deal }: DealStageHistoryProps) {
+  const { data: transitions = [], isLoading } = useDealStageTransitionsQuery(deal.id);
+  const { stages } = usePipeline(deal.pipeline_id);
+
+  const periods = useMemo(() => {
+    // Sin historial (modos sin API o datos previos) solo conocemos la etapa actual
+    const source = transitions.length
+      ? transitions
+      : [{ from_stage: null, to_stage: deal.stage, changed_at: deal.stage_entered_at ?? deal.created_at }];
+    return getStagePeriods(source);
+  }, [transitions, deal.stage, deal.stage_entered_at, deal.created_at]);
+
+  const totalDays = periods.reduce((sum, period) => sum + period.days, 0);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3" data-testid="deal-stage-history">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-card-foreground">Tiempo por etapa</p>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {totalDays > 0 && (
+        <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+          {periods.map((period, index) => (
+            <div
+              key={`${period.stage}-${index}`}
+              style={{
+                width: `${(period.days / totalDays) * 100}%`,
+                backgroundColor: findStage(stages, period.stage)?.color ?? FALLBACK_COLOR,
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <ol className="space-y-1 text-sm">
+        {periods.map((period, index) => (
+          <li key={`${period.stage}-${index}`} className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2 text-card-foreground">
+              <span
+                className="h-2 w-2 shrink-0 rounded-full"
+                style={{ backgroundColor: findStage(stages, period.stage)?.color ?? FALLBACK_COLOR }}
+              />
+              {period.stage}
+              <span className="text-xs text-muted-foreground">
+                {DATE_FORMATTER.format(period.entered_at)}
+                {period.left_at ? ` – ${DATE_FORMATTER.format(period.left_at)}` : " – hoy"}
+              </span>
+            </span>
+            <span className="font-medium text-card-foreground">{formatDays(period.days)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
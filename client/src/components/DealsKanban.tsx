@@ -1,10 +1,11 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   AlertTriangle,
   ArrowRight,
   Calendar,
   ChevronRight,
+  Download,
   Loader2,
   Sparkles,
   Search,
@@ -12,9 +13,27 @@ import {
 
 import Card from "@/components/Card";
 import Skeleton from "@/components/Skeleton";
+import ExportDialog, { activeFilter } from "@/components/ExportDialog";
+import PipelineSwitcher from "@/components/PipelineSwitcher";
+import ListViewControls from "@/components/ListViewControls";
+import SavedViewsMenu from "@/components/SavedViewsMenu";
+import CustomFieldFilter from "@/components/CustomFieldFilter";
+import CustomFieldValuesList from "@/components/CustomFieldValuesList";
+import TagChips from "@/components/TagChips";
+import TagFilter, { activeTagFilter } from "@/components/TagFilter";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useTags } from "@/hooks/useTags";
 import { useDealsQuery, useDealTimelineQuery } from "@/hooks/useCrmQueries";
-import { updateDeal } from "@/lib/db";
-import type { Deal, Priority, RiskLevel, DealStatus } from "@/lib/types";
+import { isDealInPipeline, usePipeline, usePipelineSelection } from "@/hooks/usePipeline";
+import { useListView } from "@/hooks/useListView";
+import { useDealPolicyContext } from "@/hooks/useSlaPolicies";
+import { useSearchParamState } from "@/hooks/useSearchParamState";
+import { IS_API_MODE, updateDeal } from "@/lib/db";
+import { arrangeForView, dateValue } from "@/lib/listView";
+import type { Deal, Priority, RiskLevel, DealStatus, PipelineStage } from "@/lib/types";
+import { AMOUNT_RANGES, TARGET_FILTERS, matchesDealFilters, type DealListFilters } from "@shared/exports";
+import { findStage, getActiveStages, getInitialStage, normalizeStageName } from "@shared/pipelineStages";
+import { describeCustomFields } from "@shared/customFields";
 import { QUERY_KEYS } from "@/lib/queryKeys";
 import { Input } from "@/components/ui/input";
 import {
@@ -40,60 +59,33 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { computeDealAttention } from "@/lib/pipelineInsights";
 import { calculateDealScore } from "@/lib/scoring";
 
-const STAGE_ORDER = [
-  "Prospección",
-  "Calificación",
-  "Propuesta",
-  "Negociación",
-  "Cierre",
-] as const;
-
-type Stage = (typeof STAGE_ORDER)[number];
-
-const STAGE_DETAILS: Record<Stage, {
-  gradient: string;
-  border: string;
-  badge: string;
-  indicator: string;
-  description: string;
-}> = {
-  Prospección: {
-    gradient: "from-sky-500/25 via-slate-900/70 to-slate-950/80",
-    border: "border-sky-400/30",
-    badge: "bg-sky-500/20 text-sky-100",
-    indicator: "bg-sky-400/70",
-    description: "Identifica y prioriza nuevas oportunidades.",
-  },
-  Calificación: {
-    gradient: "from-blue-500/20 via-slate-900/70 to-slate-950/80",
-    border: "border-blue-400/30",
-    badge: "bg-blue-500/20 text-blue-100",
-    indicator: "bg-blue-400/70",
-    description: "Evalúa fit, presupuesto y decisión.",
-  },
-  Propuesta: {
-    gradient: "from-indigo-500/20 via-slate-900/70 to-slate-950/80",
-    border: "border-indigo-400/30",
-    badge: "bg-indigo-500/20 text-indigo-100",
-    indicator: "bg-indigo-400/70",
-    description: "Define oferta y material clave.",
-  },
-  Negociación: {
-    gradient: "from-purple-500/20 via-slate-900/70 to-slate-950/80",
-    border: "border-purple-400/30",
-    badge: "bg-purple-500/20 text-purple-100",
-    indicator: "bg-purple-400/70",
-    description: "Cierra condiciones y compromisos.",
-  },
-  Cierre: {
-    gradient: "from-emerald-500/20 via-slate-900/70 to-slate-950/80",
-    border: "border-emerald-400/30",
-    badge: "bg-emerald-500/20 text-emerald-100",
-    indicator: "bg-emerald-400/70",
-    description: "Ultima firma y traspaso al equipo.",
-  },
+// Texto de ayuda para las etapas por defecto; las personalizadas no llevan descripción
+const STAGE_DESCRIPTIONS: Record<string, string> = {
+  prospeccion: "Identifica y prioriza nuevas oportunidades.",
+  calificacion: "Evalúa fit, presupuesto y decisión.",
+  propuesta: "Define oferta y material clave.",
+  negociacion: "Cierra condiciones y compromisos.",
+  cierre: "Ultima firma y traspaso al equipo.",
 };
 
+function withAlpha(hex: string | null | undefined, alpha: number) {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex ?? "");
+  const value = parseInt(match?.[1] ?? "3B82F6", 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+/** Estilos de columna derivados del color configurado en la etapa. */
+function stageAccent(color: string | null | undefined) {
+  return {
+    column: {
+      borderColor: withAlpha(color, 0.3),
+      backgroundImage: `linear-gradient(to bottom, ${withAlpha(color, 0.22)}, rgba(15, 23, 42, 0.7), rgba(2, 6, 23, 0.8))`,
+    },
+    badge: { backgroundColor: withAlpha(color, 0.2) },
+    indicator: { backgroundColor: withAlpha(color, 0.7) },
+  };
+}
+
 type ClosedStatus = Exclude<DealStatus, "Open">;
 
 const CLOSED_STATUS_ORDER: ClosedStatus[] = ["Won", "Lost"];
@@ -112,16 +104,12 @@ const CLOSED_STATUS_DETAILS: Record<ClosedStatus, { label: string; badge: string
     },
   };
 
-const FALLBACK_STAGE_LABELS: Record<string, string> = {
-  Prospección: "Prospección",
-  Prospeccion: "Prospección",
-  Calificación: "Calificación",
-  Calificacion: "Calificación",
-  Propuesta: "Propuesta",
-  Negociación: "Negociación",
-  Negociacion: "Negociación",
-  Cierre: "Cierre",
-};
+// Valores válidos de los filtros que llegan por la query string
+const PRIORITY_FILTERS = ["all", "Cold", "Warm", "Hot"] as const;
+const RISK_FILTERS = ["all", "Bajo", "Medio", "Alto"] as const;
+const AMOUNT_FILTERS = ["all", ...AMOUNT_RANGES] as const;
+const TARGET_DATE_FILTERS = ["all", ...TARGET_FILTERS] as const;
+const HEADER_BUTTON_CLASS = "border-white/20 bg-white/5 text-white hover:bg-white/10 hover:text-white";
 
 const CURRENCY_FORMATTER = new Intl.NumberFormat("es-ES", {
   style: "currency",
@@ -130,8 +118,13 @@ const CURRENCY_FORMATTER = new Intl.NumberFormat("es-ES", {
 });
 
 interface DealsKanbanProps {
+  /** Deal que se abre y resalta (el de la URL `/deals/:id`). */
   focusDealId?: string | null;
-  onResetFocus?: () => void;
+  /** Con este callback la ficha abierta la controla quien lo pasa: al cerrarla llega null. */
+  onSelectedDealChange?: (dealId: string | null) => void;
+  /** Pipeline mostrado; sin valor, el predeterminado. */
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string) => void;
 }
 
 function translateDealError(message: string) {
@@ -147,31 +140,50 @@ function translateDealError(message: string) {
   }
 }
 
-function normalizeStage(value: string | undefined | null): Stage {
-  if (!value) return "Prospección";
-  const match = STAGE_ORDER.find((stage) => stage === value);
-  if (match) return match;
-  const fallback = FALLBACK_STAGE_LABELS[value];
-  if (fallback && STAGE_ORDER.includes(fallback as Stage)) {
-    return fallback as Stage;
-  }
-  return "Prospección";
+/** Nombre canónico de la etapa; las desconocidas caen en la primera activa. */
+function normalizeStage(stages: PipelineStage[], value: string | undefined | null): string {
+  return findStage(stages, value)?.name ?? getInitialStage(stages);
 }
 
-export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanProps = {}) {
-  const { data: deals = [], isLoading } = useDealsQuery();
+export default function DealsKanban({
+  focusDealId,
+  onSelectedDealChange,
+  pipelineId: controlledPipelineId,
+  onPipelineChange,
+}: DealsKanbanProps = {}) {
+  const [pipelineId, changePipeline] = usePipelineSelection(controlledPipelineId, onPipelineChange);
+
+  const { data: allDeals = [], isLoading: dealsLoading } = useDealsQuery();
+  const { pipelines, pipeline, stages, isLoading: stagesLoading } = usePipeline(pipelineId);
+  const deals = useMemo(() => allDeals.filter((deal) => isDealInPipeline(deal, pipeline)), [allDeals, pipeline]);
+  const isLoading = dealsLoading || stagesLoading;
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [draggedDealId, setDraggedDealId] = useState<string | null>(null);
-  const [priorityFilter, setPriorityFilter] = useState<"all" | Priority>("all");
-  const [riskFilter, setRiskFilter] = useState<"all" | RiskLevel>("all");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [onlyAttention, setOnlyAttention] = useState(false);
+  // Los filtros del tablero viven en la URL para poder compartir la vista
+  const [priorityFilter, setPriorityFilter] = useSearchParamState("priority", "all", PRIORITY_FILTERS);
+  const [riskFilter, setRiskFilter] = useSearchParamState("risk", "all", RISK_FILTERS);
+  const [searchTerm, setSearchTerm] = useSearchParamState("q", "");
+  const [attentionParam, setAttentionParam] = useSearchParamState("attention", "");
+  const onlyAttention = attentionParam === "1";
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
+  const selectDeal = useCallback(
+    (deal: Deal | null) => {
+      setSelectedDeal(deal);
+      onSelectedDealChange?.(deal?.id ?? null);
+    },
+    [onSelectedDealChange],
+  );
   const [highlightedDealId, setHighlightedDealId] = useState<string | null>(null);
-  const [ownerFilter, setOwnerFilter] = useState<string>("all");
-  const [amountRange, setAmountRange] = useState<"all" | "lt10" | "bt10_50" | "gt50">("all");
-  const [targetFilter, setTargetFilter] = useState<"all" | "overdue" | "thisMonth">("all");
+  const [ownerFilter, setOwnerFilter] = useSearchParamState("owner", "all");
+  const [amountRange, setAmountRange] = useSearchParamState("amount", "all", AMOUNT_FILTERS);
+  const [targetFilter, setTargetFilter] = useSearchParamState("target", "all", TARGET_DATE_FILTERS);
+  const [customFieldFilter, setCustomFieldFilter] = useSearchParamState("cf", "");
+  const [tagFilter, setTagFilter] = useSearchParamState("tag", "");
+  const { fields: customFields } = useCustomFields("deals");
+  const { tags } = useTags();
+  const view = useListView("deals_board");
   const [closingStatus, setClosingStatus] = useState<"Won" | "Lost" | null>(null);
   const [closingReason, setClosingReason] = useState("");
   const [nextStepSuggestion, setNextStepSuggestion] = useState<{
@@ -188,10 +200,11 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
     isLoading: timelineLoading,
   } = useDealTimelineQuery(selectedDeal?.id, undefined, 40);
 
-  const attentionDeals = useMemo(() => computeDealAttention(deals), [deals]);
+  const policyContext = useDealPolicyContext();
+  const attentionDeals = useMemo(() => computeDealAttention(deals, policyContext), [deals, policyContext]);
   const selectedDealScoring = useMemo(
-    () => (selectedDeal ? calculateDealScore(selectedDeal) : null),
-    [selectedDeal],
+    () => (selectedDeal ? calculateDealScore(selectedDeal, stages) : null),
+    [selectedDeal, stages],
   );
   const selectedDealAttention = useMemo(
     () =>
@@ -266,12 +279,13 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
   }, [deals]);
 
   const mutation = useMutation({
-    mutationFn: ({ id, stage }: { id: string; stage: Stage }) => updateDeal(id, { stage }),
+    mutationFn: ({ id, stage }: { id: string; stage: string }) => updateDeal(id, { stage }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.hotDeal });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stalledDeals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quickMetrics });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.funnel });
     },
     onError: (error) => {
       const message = error instanceof Error ? error.message : "No se pudo mover el deal";
@@ -293,6 +307,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.hotDeal });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stalledDeals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quickMetrics });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.funnel });
       const finalStatus = (data?.status ?? closingStatus) as "Won" | "Lost" | null;
       toast({
         title: "Deal cerrado",
@@ -305,7 +320,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
       });
       setClosingStatus(null);
       setClosingReason("");
-      setSelectedDeal(null);
+      selectDeal(null);
     },
     onError: (error) => {
       const message = error instanceof Error ? error.message : "No se pudo cerrar el deal";
@@ -317,89 +332,77 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
     },
   });
 
-  const filteredDeals = useMemo(() => {
-    const term = searchTerm.trim().toLowerCase();
-    return deals.filter((deal) => {
-      if (deal.status && deal.status !== "Open") {
-        return false;
-      }
-      const priority = (deal.priority as Priority | undefined) ?? "Cold";
-      const risk = (deal.risk_level as RiskLevel | undefined) ?? "Bajo";
-      const matchesPriority = priorityFilter === "all" || priority === priorityFilter;
-      const matchesRisk = riskFilter === "all" || risk === riskFilter;
-      const matchesOwner = ownerFilter === "all" || deal.owner_id === ownerFilter;
-      const amountValue = Number(deal.amount ?? 0);
-      const matchesAmount =
-        amountRange === "all" ||
-        (amountRange === "lt10" && amountValue < 10000) ||
-        (amountRange === "bt10_50" && amountValue >= 10000 && amountValue <= 50000) ||
-        (amountRange === "gt50" && amountValue > 50000);
-      const matchesTarget = (() => {
-        if (targetFilter === "all") return true;
-        if (!deal.target_close_date) return false;
-        const targetDate = new Date(deal.target_close_date);
-        if (Number.isNaN(targetDate.getTime())) return false;
-        const now = new Date();
-        if (targetFilter === "overdue") {
-          return targetDate.getTime() < now.getTime();
-        }
-        if (targetFilter === "thisMonth") {
-          return (
-            targetDate.getFullYear() === now.getFullYear() &&
-            targetDate.getMonth() === now.getMonth()
-          );
-        }
-        return true;
-      })();
-      const matchesSearch =
-        !term ||
-        (deal.title ?? "").toLowerCase().includes(term) ||
-        (deal.company ?? "").toLowerCase().includes(term);
-      const needsAttention =
-        !deal.next_step ||
-        !deal.next_step.trim() ||
-        risk === "Alto" ||
-        (deal.target_close_date
-          ? new Date(deal.target_close_date).getTime() < Date.now()
-          : false);
-      const matchesAttention = !onlyAttention || needsAttention;
-      return (
-        matchesPriority &&
-        matchesRisk &&
-        matchesOwner &&
-        matchesAmount &&
-        matchesTarget &&
-        matchesSearch &&
-        matchesAttention
-      );
-    });
-  }, [
-    deals,
-    priorityFilter,
-    riskFilter,
-    ownerFilter,
-    amountRange,
-    targetFilter,
-    searchTerm,
-    onlyAttention,
-  ]);
+  // El tablero solo muestra deals abiertos; la exportación usa los mismos filtros
+  const filters = useMemo<DealListFilters>(
+    () => ({
+      search: searchTerm,
+      pipeline_id: pipeline?.id,
+      status: "Open",
+      priority: activeFilter(priorityFilter),
+      risk_level: activeFilter(riskFilter),
+      owner_id: activeFilter(ownerFilter),
+      amount_range: activeFilter(amountRange),
+      target: activeFilter(targetFilter),
+      needs_attention: onlyAttention,
+      custom_field: customFieldFilter || undefined,
+      tag: activeTagFilter(tagFilter, tags),
+    }),
+    [
+      searchTerm,
+      pipeline?.id,
+      priorityFilter,
+      riskFilter,
+      ownerFilter,
+      amountRange,
+      targetFilter,
+      onlyAttention,
+      customFieldFilter,
+      tagFilter,
+      tags,
+    ],
+  );
+
+  // El orden de la vista se aplica dentro de cada etapa
+  const filteredDeals = useMemo(
+    () =>
+      arrangeForView(deals.filter((deal) => matchesDealFilters(deal, filters, undefined, customFields)), view, {
+        updated: (deal) => dateValue(deal.updated_at),
+        amount: (deal) => Number(deal.amount ?? 0),
+        target: (deal) => dateValue(deal.target_close_date),
+        probability: (deal) => deal.probability,
+        title: (deal) => deal.title,
+      }),
+    [deals, filters, customFields, view],
+  );
+
+  const activeStages = useMemo(() => getActiveStages(stages), [stages]);
 
   const columns = useMemo(() => {
-    const grouped = new Map<Stage, { total: number; deals: Deal[] }>();
-    STAGE_ORDER.forEach((stage) => {
-      grouped.set(stage, { total: 0, deals: [] });
+    const grouped = new Map<string, { total: number; deals: Deal[] }>();
+    stages.forEach((stage) => {
+      grouped.set(stage.name, { total: 0, deals: [] });
     });
 
     filteredDeals.forEach((deal) => {
-      const stage = normalizeStage(deal.stage);
-      const entry = grouped.get(stage);
+      const entry = grouped.get(normalizeStage(stages, deal.stage));
       if (!entry) return;
       entry.deals.push(deal);
       entry.total += Number(deal.amount ?? 0);
     });
 
-    return STAGE_ORDER.map((stage) => ({ stage, ...grouped.get(stage)! }));
-  }, [filteredDeals]);
+    // Una etapa desactivada sigue visible mientras conserve deals
+    return stages
+      .filter((stage) => stage.is_active || grouped.get(stage.name)!.deals.length > 0)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((stage) => ({ stage: stage.name, config: stage, ...grouped.get(stage.name)! }));
+  }, [filteredDeals, stages]);
+
+  // Las "columnas" de la vista del tablero son las etapas que se muestran
+  const stageOptions = useMemo(() => columns.map(({ stage }) => ({ key: stage, label: stage })), [columns]);
+  const visibleColumns = useMemo(
+    () => columns.filter(({ stage }) => view.isColumnVisible(stage)),
+    [columns, view],
+  );
 
   const closedDeals = useMemo(() => deals.filter((deal) => deal.status && deal.status !== "Open"), [deals]);
 
@@ -420,10 +423,21 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
     return grouped;
   }, [closedDeals]);
 
+  // Si la ficha la controla la URL, volver atrás en el historial la cierra
+  useEffect(() => {
+    if (onSelectedDealChange && !focusDealId) setSelectedDeal(null);
+  }, [focusDealId, onSelectedDealChange]);
+
   useEffect(() => {
-    if (!focusDealId) return;
-    const targetDeal = deals.find((deal) => deal.id === focusDealId);
+    if (!focusDealId || focusDealId === selectedDeal?.id) return;
+    const targetDeal = allDeals.find((deal) => deal.id === focusDealId);
     if (!targetDeal) return;
+    // El deal enfocado puede estar en otro pipeline: se cambia y el efecto vuelve a ejecutarse
+    if (!isDealInPipeline(targetDeal, pipeline)) {
+      const targetPipelineId = targetDeal.pipeline_id ?? pipelines.find((candidate) => candidate.is_default)?.id;
+      if (targetPipelineId) changePipeline(targetPipelineId);
+      return;
+    }
     setSelectedDeal(targetDeal);
     setHighlightedDealId(focusDealId);
     requestAnimationFrame(() => {
@@ -433,11 +447,10 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
     const timer = window.setTimeout(() => {
       setHighlightedDealId((current) => (current === focusDealId ? null : current));
     }, 4000);
-    onResetFocus?.();
     return () => {
       window.clearTimeout(timer);
     };
-  }, [focusDealId, deals, onResetFocus]);
+  }, [focusDealId, selectedDeal?.id, allDeals, pipeline, pipelines, changePipeline]);
 
   useEffect(() => {
     if (!selectedDeal) return;
@@ -487,6 +500,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
             nextStep: selectedDeal.next_step ?? null,
             lastActivity: selectedDeal.last_activity ?? null,
             targetCloseDate: selectedDeal.target_close_date ?? null,
+            customFields: describeCustomFields(customFields, selectedDeal.custom_fields),
           },
           context: {
             reasons: selectedDealAttention?.reasons ?? null,
@@ -563,7 +577,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
     },
   });
 
-  const handleDrop = (stage: Stage) => {
+  const handleDrop = (stage: string) => {
     if (!draggedDealId) return;
 
     if (mutation.isPending || closeDealMutation.isPending) {
@@ -585,8 +599,8 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
       setDraggedDealId(null);
       return;
     }
-    const normalizedTarget = normalizeStage(stage);
-    const currentStage = normalizeStage(deal.stage);
+    const normalizedTarget = normalizeStage(stages, stage);
+    const currentStage = normalizeStage(stages, deal.stage);
     if (normalizedTarget === currentStage) {
       toast({
         title: "Ya está en esa etapa",
@@ -607,7 +621,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
           <Skeleton className="h-6 w-16" />
         </div>
         <div className="grid gap-4 lg:grid-cols-3 xl:grid-cols-5">
-          {STAGE_ORDER.map((stage) => (
+          {Array.from({ length: Math.max(activeStages.length, 3) }).map((_, stage) => (
             <div key={stage} className="space-y-3 rounded-xl border border-white/5 bg-white/5 p-4">
               <Skeleton className="h-5 w-24" />
               {Array.from({ length: 3 }).map((_, index) => (
@@ -640,6 +654,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
             </div>
           <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
             <div className="flex w-full flex-col gap-2 lg:w-auto lg:flex-row  lg:items-center">
+              <PipelineSwitcher value={pipeline?.id} onChange={changePipeline} />
               <Select value={ownerFilter} onValueChange={(value) => setOwnerFilter(value)}>
                 <SelectTrigger className="bg-white/5 text-white placeholder:text-white/60 focus:ring-white/30 lg:min-w-[160px]">
                   <SelectValue placeholder="Owner" />
@@ -699,10 +714,39 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                   <SelectItem value="thisMonth">Cierre este mes</SelectItem>
                 </SelectContent>
               </Select>
+              <CustomFieldFilter
+                fields={customFields}
+                value={customFieldFilter}
+                onChange={setCustomFieldFilter}
+                controlClassName="bg-white/5 text-white placeholder:text-white/60 focus:ring-white/30 lg:min-w-[150px]"
+              />
+              <TagFilter
+                tags={tags}
+                value={tagFilter}
+                onChange={setTagFilter}
+                className="bg-white/5 text-white placeholder:text-white/60 focus:ring-white/30 lg:min-w-[150px]"
+              />
               <label className="inline-flex items-center gap-2 rounded-full bg-white/5 px-3 py-2 text-xs text-white/70">
-                <Switch checked={onlyAttention} onCheckedChange={(checked) => setOnlyAttention(checked)} />
+                <Switch checked={onlyAttention} onCheckedChange={(checked) => setAttentionParam(checked ? "1" : "")} />
                 En riesgo
               </label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsExportOpen(true)}
+                className={`gap-2 ${HEADER_BUTTON_CLASS}`}
+              >
+                <Download className="h-4 w-4" />
+                Exportar
+              </Button>
+              {IS_API_MODE && <SavedViewsMenu list="deals_board" className={HEADER_BUTTON_CLASS} />}
+              <ListViewControls
+                list="deals_board"
+                view={view}
+                columns={stageOptions}
+                columnsLabel="Etapas"
+                className={HEADER_BUTTON_CLASS}
+              />
             </div>
           </div>
 
@@ -727,7 +771,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                   <button
                     key={deal.id}
                     type="button"
-                    onClick={() => setSelectedDeal(deal)}
+                    onClick={() => selectDeal(deal)}
                     className="w-full rounded-xl border border-white/10 bg-black/30 p-3 text-left transition hover:border-white/30 hover:bg-black/40"
                   >
                     <div className="flex items-center justify-between text-sm text-white">
@@ -754,9 +798,11 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
 
           <div className="relative -mx-2">
             <div className="flex snap-x snap-mandatory gap-5 overflow-x-auto px-2 pb-4">
-              {columns.map(({ stage, total, deals: stageDeals }) => {
-                const stageDetails = STAGE_DETAILS[stage];
-                const stepIndex = STAGE_ORDER.indexOf(stage) + 1;
+              {visibleColumns.map(({ stage, config, total, deals: stageDeals }) => {
+                const accent = stageAccent(config.color);
+                const isActiveStage = config.is_active !== false;
+                const stepIndex = activeStages.findIndex((candidate) => candidate.id === config.id) + 1;
+                const description = STAGE_DESCRIPTIONS[normalizeStageName(stage)];
                 const totalOpenDeals = filteredDeals.length;
                 const share = totalOpenDeals > 0 ? Math.round((stageDeals.length / totalOpenDeals) * 100) : 0;
                 const indicatorWidth = totalOpenDeals > 0 ? Math.max(12, (stageDeals.length / totalOpenDeals) * 100) : 12;
@@ -764,22 +810,26 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                 return (
                   <div
                     key={stage}
-                    className={`snap-start flex w-[380px] flex-shrink-0 flex-col rounded-2xl border ${stageDetails.border} bg-gradient-to-b ${stageDetails.gradient} p-5 shadow-[0_0_25px_rgba(15,23,42,0.45)] backdrop-blur`}
+                    className="snap-start flex w-[380px] flex-shrink-0 flex-col rounded-2xl border p-5 shadow-[0_0_25px_rgba(15,23,42,0.45)] backdrop-blur"
+                    style={accent.column}
                     onDragOver={(event) => {
-                      if (draggedDealId) {
+                      if (draggedDealId && isActiveStage) {
                         event.preventDefault();
                       }
                     }}
                     onDrop={(event) => {
                       event.preventDefault();
-                      handleDrop(stage);
+                      if (isActiveStage) handleDrop(stage);
                     }}
                   >
                     <div className="mb-4 space-y-3">
                       <div className="flex items-start justify-between gap-3">
                         <div className="space-y-1">
-                          <span className={`inline-flex items-center rounded-full px-2.5 py-1 text-[11px] font-semibold ${stageDetails.badge}`}>
-                            Etapa {stepIndex}
+                          <span
+                            className="inline-flex items-center rounded-full px-2.5 py-1 text-[11px] font-semibold text-white/90"
+                            style={accent.badge}
+                          >
+                            {isActiveStage ? `Etapa ${stepIndex}` : "Etapa inactiva"}
                           </span>
                           <h3 className="text-base font-semibold text-white">{stage}</h3>
                         </div>
@@ -788,15 +838,15 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                           <span className="text-[10px] uppercase tracking-wide text-white/55">deals</span>
                         </div>
                       </div>
-                      <p className="text-[11px] text-white/70">{stageDetails.description}</p>
+                      {description && <p className="text-[11px] text-white/70">{description}</p>}
                       <div className="flex items-center justify-between text-[11px] text-white/70">
                         <span>{CURRENCY_FORMATTER.format(total)}</span>
                         <span>{share}% del pipeline</span>
                       </div>
                       <div className="flex h-1.5 overflow-hidden rounded-full bg-white/10">
                         <div
-                          className={`h-full ${stageDetails.indicator}`}
-                          style={{ width: `${Math.min(indicatorWidth, 100)}%` }}
+                          className="h-full"
+                          style={{ ...accent.indicator, width: `${Math.min(indicatorWidth, 100)}%` }}
                         />
                       </div>
                     </div>
@@ -843,7 +893,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                               type="button"
                               draggable
                               onDragStart={() => handleDragStart(deal.id)}
-                              onClick={() => setSelectedDeal(deal)}
+                              onClick={() => selectDeal(deal)}
                               className={`group w-full rounded-2xl border border-white/10 bg-white/5 p-4 text-left text-sm transition-all hover:border-white/30 hover:bg-white/10 ${
                                 isDragging ? "opacity-60" : ""
                               } ${
@@ -856,6 +906,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                                 <div className="space-y-1">
                                   <p className="font-semibold text-white">{deal.title}</p>
                                   <p className="text-xs text-white/70">{deal.company ?? "Sin empresa"}</p>
+                                  <TagChips tagIds={deal.tag_ids} tags={tags} max={3} className="pt-1" />
                                 </div>
                                 <span className={`inline-flex items-center rounded-full px-2.5 py-1 text-[11px] font-semibold ${priorityClasses}`}>
                                   {priority}
@@ -934,7 +985,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                             <button
                               key={deal.id}
                               type="button"
-                              onClick={() => setSelectedDeal(deal)}
+                              onClick={() => selectDeal(deal)}
                               className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-left text-sm text-white/80 transition hover:border-white/30 hover:bg-white/10"
                             >
                               <p className="font-medium text-white">{deal.title}</p>
@@ -959,7 +1010,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
         </div>
       </Card>
 
-      <Sheet open={!!selectedDeal} onOpenChange={(open) => !open && setSelectedDeal(null)}>
+      <Sheet open={!!selectedDeal} onOpenChange={(open) => !open && selectDeal(null)}>
         <SheetContent className="w-full max-w-xl overflow-y-auto border-l border-white/10 bg-[#0b1222] p-6">
           {selectedDeal && (
             <div className="space-y-6">
@@ -1045,6 +1096,14 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
                 )}
               </div>
 
+              <TagChips tagIds={selectedDeal.tag_ids} tags={tags} />
+
+              <CustomFieldValuesList
+                fields={customFields}
+                values={selectedDeal.custom_fields}
+                className="rounded-xl border border-white/10 bg-white/5 p-3 [&_dd]:text-white"
+              />
+
               <div className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-4 text-sm text-muted-foreground">
                 <div className="flex items-center justify-between">
                   <p className="text-xs uppercase tracking-wide text-white/60">Historial de etapas</p>
@@ -1250,7 +1309,7 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
               </div>
 
               <div className="flex justify-end gap-2">
-                <Button variant="outline" onClick={() => setSelectedDeal(null)}>
+                <Button variant="outline" onClick={() => selectDeal(null)}>
                   Cerrar
                 </Button>
                 <Button
@@ -1268,6 +1327,13 @@ export default function DealsKanban({ focusDealId, onResetFocus }: DealsKanbanPr
           )}
         </SheetContent>
       </Sheet>
+      <ExportDialog
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        entity="deals"
+        filters={filters}
+        records={filteredDeals}
+      />
     </TooltipProvider>
   );
 }
@@ -1,6 +1,6 @@
-import React, { useState, useMemo, useEffect } from "react";
+import React, { useState, useMemo, useEffect, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { updateDeal, deleteDeal } from "@/lib/db";
+import { IS_API_MODE, updateDeal, deleteDeal } from "@/lib/db";
 import { useToast } from "@/hooks/use-toast";
 import Card from "./Card";
 import Skeleton from "./Skeleton";
@@ -25,19 +25,66 @@ import {
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
-import { Edit, Trash2, Search, Filter } from "lucide-react";
+import { Edit, Trash2, Search, Filter, Upload, Download } from "lucide-react";
 import { calculateDealScore, calculateRiskLevel } from "@/lib/scoring";
 import type { Deal } from "@/lib/types";
+import CompanySelector, { type CompanyChoice } from "@/components/CompanySelector";
+import PipelineSwitcher from "@/components/PipelineSwitcher";
+import ExportDialog, { activeFilter } from "./ExportDialog";
+import ImportWizard from "./ImportWizard";
+import BulkActionsBar, { SelectAllCheckbox, SelectRowCheckbox } from "./BulkActionsBar";
+import ListViewControls, { ViewGroupRow } from "./ListViewControls";
+import SavedViewsMenu from "./SavedViewsMenu";
+import CustomFieldFilter from "./CustomFieldFilter";
+import CustomFieldInputs from "./CustomFieldInputs";
+import TagChips from "./TagChips";
+import TagFilter, { activeTagFilter } from "./TagFilter";
+import TagPicker from "./TagPicker";
 import { useDealsQuery } from "@/hooks/useCrmQueries";
+import { isDealInPipeline, usePipeline, usePipelineSelection } from "@/hooks/usePipeline";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useBulkSelection } from "@/hooks/useBulkSelection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useListView } from "@/hooks/useListView";
+import { useTags } from "@/hooks/useTags";
+import { useSearchParamState } from "@/hooks/useSearchParamState";
+import { arrangeForView, countViewGroups, dateValue, viewGroupValue, type ViewGroupings } from "@/lib/listView";
+import { matchesDealFilters, type DealListFilters } from "@shared/exports";
+import { getActiveStages } from "@shared/pipelineStages";
+import { diffCustomFieldValues, type CustomFieldValues } from "@shared/customFields";
+import { diffTagIds } from "@shared/tags";
 
 interface DealsListProps {
   className?: string;
+  /** Pipeline mostrado; sin valor, el predeterminado. */
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string) => void;
 }
 
-const STAGES = ["Prospección", "Calificación", "Propuesta", "Negociación", "Cierre"];
 const STATUSES = ["Open", "Won", "Lost"];
 const PRIORITIES = ["Cold", "Warm", "Hot"];
 const RISK_LEVELS = ["Bajo", "Medio", "Alto"];
+const STATUS_FILTERS = ["all", ...STATUSES];
+const PRIORITY_FILTERS = ["all", ...PRIORITIES];
+const RISK_FILTERS = ["all", ...RISK_LEVELS];
+
+const EMPTY_GROUP_LABELS: Record<string, string> = {
+  stage: "Sin etapa",
+  status: "Sin estado",
+  priority: "Sin prioridad",
+  company: "Sin empresa",
+};
+
+// Sin score guardado se calcula al vuelo, igual para mostrarlo que para ordenar o agrupar
+function getDealScoring(deal: Deal) {
+  const scoringResult = deal.score ? null : calculateDealScore(deal);
+  const risk = deal.risk_level || "Bajo";
+  return {
+    score: scoringResult ? scoringResult.score : deal.score,
+    priority: scoringResult ? scoringResult.priority : deal.priority || "Cold",
+    risk: risk === "Bajo" ? calculateRiskLevel(deal) : risk,
+  };
+}
 
 function translateDealError(message: string) {
   switch (message) {
@@ -52,34 +99,75 @@ function translateDealError(message: string) {
   }
 }
 
-export default function DealsList({ className }: DealsListProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [stageFilter, setStageFilter] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("Open");
-  const [priorityFilter, setPriorityFilter] = useState<string>("all");
-  const [riskFilter, setRiskFilter] = useState<string>("all");
+export default function DealsList({
+  className,
+  pipelineId: controlledPipelineId,
+  onPipelineChange,
+}: DealsListProps) {
+  const [pipelineId, changePipeline] = usePipelineSelection(controlledPipelineId, onPipelineChange);
+  // Comparte página con el tablero: sus parámetros llevan el prefijo `list_`
+  const [searchTerm, setSearchTerm] = useSearchParamState("list_q", "");
+  const [stageFilter, setStageFilter] = useSearchParamState("list_stage", "all");
+  const [statusFilter, setStatusFilter] = useSearchParamState("list_status", "Open", STATUS_FILTERS);
+  const [priorityFilter, setPriorityFilter] = useSearchParamState("list_priority", "all", PRIORITY_FILTERS);
+  const [riskFilter, setRiskFilter] = useSearchParamState("list_risk", "all", RISK_FILTERS);
+  const [customFieldFilter, setCustomFieldFilter] = useSearchParamState("list_cf", "");
+  const [tagFilter, setTagFilter] = useSearchParamState("list_tag", "");
+  const view = useListView("deals");
   const [currentPage, setCurrentPage] = useState(1);
   const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
   const [deletingDeal, setDeletingDeal] = useState<Deal | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [statusDraft, setStatusDraft] = useState<"Open" | "Won" | "Lost">("Open");
   const [closeReason, setCloseReason] = useState("");
+  const [companyDraft, setCompanyDraft] = useState<CompanyChoice | null>(null);
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [tagDraft, setTagDraft] = useState<string[]>([]);
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: dealsData, isLoading } = useDealsQuery();
+  const { fields: customFields } = useCustomFields("deals");
+  const { tags } = useTags();
+  const { pipeline, stages: pipelineStages } = usePipeline(pipelineId);
+  const stageNames = useMemo(() => getActiveStages(pipelineStages).map((stage) => stage.name), [pipelineStages]);
+
+  const deals = useMemo(
+    () => (dealsData ?? ([] as Deal[])).filter((deal) => isDealInPipeline(deal, pipeline)),
+    [dealsData, pipeline],
+  );
 
-  const deals = dealsData ?? ([] as Deal[]);
+  // Las etapas cambian con el pipeline: el filtro de etapa anterior ya no aplica.
+  // La primera carga no cuenta como cambio, así se respeta la etapa de la URL.
+  const previousPipelineId = useRef(pipeline?.id);
+  useEffect(() => {
+    const previous = previousPipelineId.current;
+    previousPipelineId.current = pipeline?.id;
+    if (!previous || previous === pipeline?.id) return;
+    setStageFilter("all");
+    setCurrentPage(1);
+  }, [pipeline?.id, setStageFilter]);
 
   useEffect(() => {
     if (editingDeal) {
       setStatusDraft(editingDeal.status);
       setCloseReason(editingDeal.close_reason ?? "");
+      setCompanyDraft(
+        editingDeal.company ? { id: editingDeal.company_id ?? undefined, name: editingDeal.company } : null,
+      );
+      setCustomValues(editingDeal.custom_fields ?? {});
+      setTagDraft(editingDeal.tag_ids ?? []);
     } else {
       setStatusDraft("Open");
       setCloseReason("");
+      setCompanyDraft(null);
+      setCustomValues({});
+      setTagDraft([]);
     }
   }, [editingDeal]);
 
@@ -88,6 +176,7 @@ export default function DealsList({ className }: DealsListProps) {
       updateDeal(id, patch),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["deals"] });
+      queryClient.invalidateQueries({ queryKey: ["companies"] });
       setIsEditModalOpen(false);
       setEditingDeal(null);
       toast({
@@ -125,20 +214,65 @@ export default function DealsList({ className }: DealsListProps) {
     },
   });
 
-  const filteredDeals = useMemo(() => {
-    return deals.filter((deal) => {
-      const matchesSearch = 
-        deal.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (deal.company && deal.company.toLowerCase().includes(searchTerm.toLowerCase()));
-      
-      const matchesStage = stageFilter === "all" || deal.stage === stageFilter;
-      const matchesStatus = statusFilter === "all" || deal.status === statusFilter;
-      const matchesPriority = priorityFilter === "all" || deal.priority === priorityFilter;
-      const matchesRisk = riskFilter === "all" || deal.risk_level === riskFilter;
-      
-      return matchesSearch && matchesStage && matchesStatus && matchesPriority && matchesRisk;
-    });
-  }, [deals, searchTerm, stageFilter, statusFilter, priorityFilter, riskFilter]);
+  const filters = useMemo<DealListFilters>(
+    () => ({
+      search: searchTerm,
+      pipeline_id: pipeline?.id,
+      stage: activeFilter(stageFilter),
+      status: activeFilter(statusFilter),
+      priority: activeFilter(priorityFilter),
+      risk_level: activeFilter(riskFilter),
+      custom_field: customFieldFilter || undefined,
+      tag: activeTagFilter(tagFilter, tags),
+    }),
+    [
+      searchTerm,
+      pipeline?.id,
+      stageFilter,
+      statusFilter,
+      priorityFilter,
+      riskFilter,
+      customFieldFilter,
+      tagFilter,
+      tags,
+    ],
+  );
+
+  const groupings = useMemo<ViewGroupings<Deal>>(
+    () => ({
+      stage: { value: (deal) => deal.stage, order: stageNames },
+      status: { value: (deal) => deal.status, order: STATUSES },
+      priority: { value: (deal) => getDealScoring(deal).priority, order: ["Hot", "Warm", "Cold"] },
+      company: { value: (deal) => deal.company },
+    }),
+    [stageNames],
+  );
+
+  const filteredDeals = useMemo(
+    () =>
+      arrangeForView(
+        deals.filter((deal) => matchesDealFilters(deal, filters, undefined, customFields)),
+        view,
+        {
+          title: (deal) => deal.title,
+          amount: (deal) => deal.amount,
+          target: (deal) => dateValue(deal.target_close_date),
+          probability: (deal) => deal.probability,
+          score: (deal) => getDealScoring(deal).score,
+          updated: (deal) => dateValue(deal.updated_at),
+        },
+        groupings,
+      ),
+    [deals, filters, customFields, view, groupings],
+  );
+  const groupCounts = useMemo(
+    () => countViewGroups(filteredDeals, view.groupBy, groupings),
+    [filteredDeals, view.groupBy, groupings],
+  );
+
+  const filteredIds = useMemo(() => filteredDeals.map((deal) => deal.id), [filteredDeals]);
+  const selection = useBulkSelection(filteredIds);
+  const dealLabel = (id: string) => deals.find((deal) => deal.id === id)?.title ?? id;
 
   const itemsPerPage = 5;
   const totalPages = Math.ceil(filteredDeals.length / itemsPerPage);
@@ -165,7 +299,6 @@ export default function DealsList({ className }: DealsListProps) {
     const nextStep = (formData.get("next_step") as string)?.trim() ?? "";
     const targetClose = formData.get("target_close_date") as string;
     const titleValue = (formData.get("title") as string)?.trim();
-    const companyValue = (formData.get("company") as string)?.trim();
     const amountRaw = formData.get("amount");
     const amountValue = amountRaw ? Number(amountRaw) : undefined;
     const stageValue = formData.get("stage") as string;
@@ -202,13 +335,16 @@ export default function DealsList({ className }: DealsListProps) {
     updateDealMutation.mutate({
       id: editingDeal.id,
       title: titleValue,
-      company: companyValue,
+      company: companyDraft?.name,
+      company_id: companyDraft?.id ?? null,
       amount: amountValue,
       stage: stageValue,
       next_step: nextStep,
       target_close_date: targetClose,
       status: statusValue,
       close_reason: statusValue === "Open" ? undefined : closeReasonValue,
+      custom_fields: diffCustomFieldValues(customFields, editingDeal.custom_fields, customValues),
+      tag_ids: diffTagIds(editingDeal.tag_ids, tagDraft),
     });
   };
 
@@ -261,13 +397,33 @@ export default function DealsList({ className }: DealsListProps) {
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold">Deals</h3>
-            <span className="text-sm text-muted-foreground">
-              {filteredDeals.length} deals
-            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                {filteredDeals.length} deals
+              </span>
+              {IS_API_MODE && can("deals:create") && (
+                <Button size="sm" variant="outline" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="mr-1 h-4 w-4" />
+                  Importar
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => setIsExportOpen(true)}>
+                <Download className="mr-1 h-4 w-4" />
+                Exportar
+              </Button>
+              {IS_API_MODE && <SavedViewsMenu list="deals" />}
+              <ListViewControls list="deals" view={view} />
+            </div>
           </div>
 
           {/* Search and Filters */}
           <div className="space-y-3">
+            <PipelineSwitcher
+              value={pipeline?.id}
+              onChange={changePipeline}
+              className="w-full bg-background text-foreground focus:ring-ring"
+            />
+
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
@@ -286,7 +442,7 @@ export default function DealsList({ className }: DealsListProps) {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">Todas las etapas</SelectItem>
-                  {STAGES.map((stage) => (
+                  {stageNames.map((stage) => (
                     <SelectItem key={stage} value={stage}>
                       {stage}
                     </SelectItem>
@@ -335,112 +491,162 @@ export default function DealsList({ className }: DealsListProps) {
                   ))}
                 </SelectContent>
               </Select>
+
+              <CustomFieldFilter
+                fields={customFields}
+                value={customFieldFilter}
+                onChange={setCustomFieldFilter}
+                className="col-span-2"
+              />
+
+              <TagFilter tags={tags} value={tagFilter} onChange={setTagFilter} className="col-span-2" />
             </div>
           </div>
 
+          {IS_API_MODE && (
+            <BulkActionsBar entity="deals" selection={selection} stages={stageNames} recordLabel={dealLabel} />
+          )}
+
           {/* Table */}
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
                 <TableRow>
+                  {IS_API_MODE && (
+                    <TableHead className="w-8">
+                      <SelectAllCheckbox selection={selection} />
+                    </TableHead>
+                  )}
                   <TableHead>Título</TableHead>
-                  <TableHead>Empresa</TableHead>
-                  <TableHead>Monto</TableHead>
-                  <TableHead>Etapa</TableHead>
-                  <TableHead>Score</TableHead>
-                  <TableHead>Prioridad</TableHead>
-                  <TableHead>Riesgo</TableHead>
-                  <TableHead>Prob.</TableHead>
-                  <TableHead>Próximo paso</TableHead>
-                  <TableHead>Fecha objetivo</TableHead>
-                  <TableHead>Estado</TableHead>
-                  <TableHead>Motivo cierre</TableHead>
+                  {view.isColumnVisible("company") && <TableHead>Empresa</TableHead>}
+                  {view.isColumnVisible("amount") && <TableHead>Monto</TableHead>}
+                  {view.isColumnVisible("stage") && <TableHead>Etapa</TableHead>}
+                  {view.isColumnVisible("score") && <TableHead>Score</TableHead>}
+                  {view.isColumnVisible("priority") && <TableHead>Prioridad</TableHead>}
+                  {view.isColumnVisible("risk") && <TableHead>Riesgo</TableHead>}
+                  {view.isColumnVisible("probability") && <TableHead>Prob.</TableHead>}
+                  {view.isColumnVisible("next_step") && <TableHead>Próximo paso</TableHead>}
+                  {view.isColumnVisible("target") && <TableHead>Fecha objetivo</TableHead>}
+                  {view.isColumnVisible("status") && <TableHead>Estado</TableHead>}
+                  {view.isColumnVisible("close_reason") && <TableHead>Motivo cierre</TableHead>}
                   <TableHead className="w-20">Acciones</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {paginatedDeals.map((deal) => {
-                  // Calcular scoring en tiempo real si no existe
-                  const dealScore = deal.score || 0;
-                  const dealPriority = deal.priority || 'Cold';
-                  const dealRisk = deal.risk_level || 'Bajo';
-                  
-                  // Si no tiene score calculado, calcularlo
-                  const scoringResult = dealScore === 0 ? calculateDealScore(deal) : null;
-                  const finalScore = scoringResult ? scoringResult.score : dealScore;
-                  const finalPriority = scoringResult ? scoringResult.priority : dealPriority;
-                  const finalRisk = dealRisk === 'Bajo' ? calculateRiskLevel(deal) : dealRisk;
+                {paginatedDeals.map((deal, index) => {
+                  const { score: finalScore, priority: finalPriority, risk: finalRisk } = getDealScoring(deal);
                   const tooltipType = finalPriority === 'Hot' ? 'hot' : finalPriority === 'Warm' ? 'warm' : 'cold';
+                  const group = viewGroupValue(deal, view.groupBy, groupings);
+                  const previous = paginatedDeals[index - 1];
+                  const startsGroup =
+                    view.groupBy !== null && (!previous || viewGroupValue(previous, view.groupBy, groupings) !== group);
 
                   return (
-                    <TableRow key={deal.id}>
-                      <TableCell className="font-medium">{deal.title}</TableCell>
-                      <TableCell>{deal.company || "-"}</TableCell>
-                      <TableCell>{formatCurrency(deal.amount)}</TableCell>
-                      <TableCell>
-                        <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">
-                          {deal.stage}
-                        </span>
-                      </TableCell>
-                      <TableCell>
-                        <ScoringTooltip type={tooltipType}>
-                          <ScoreBadge 
-                            score={finalScore} 
-                            priority={finalPriority} 
-                            size="sm" 
-                          />
-                        </ScoringTooltip>
-                      </TableCell>
-                      <TableCell>
-                        <PriorityBadge priority={finalPriority} size="sm" />
-                      </TableCell>
-                      <TableCell>
-                        <RiskBadge riskLevel={finalRisk} size="sm" />
-                      </TableCell>
-                      <TableCell>{deal.probability}%</TableCell>
-                      <TableCell className="max-w-xs truncate">
-                        {deal.next_step || "-"}
-                      </TableCell>
-                      <TableCell>
-                        {deal.target_close_date
-                          ? new Date(deal.target_close_date).toLocaleDateString("es-ES", {
-                              day: "2-digit",
-                              month: "short",
-                              year: "numeric",
-                            })
-                          : "-"}
-                      </TableCell>
-                      <TableCell>
-                        <span
-                          className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(
-                            deal.status
-                          )}`}
-                        >
-                          {deal.status}
-                        </span>
-                      </TableCell>
-                      <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
-                        {deal.close_reason || (deal.status === "Open" ? "-" : "Sin motivo")}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex gap-1">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEdit(deal)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(deal)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
+                    <React.Fragment key={deal.id}>
+                      {startsGroup && (
+                        <ViewGroupRow
+                          label={group || EMPTY_GROUP_LABELS[view.groupBy!]}
+                          count={groupCounts.get(group)}
+                          colSpan={view.visibleColumnCount + (IS_API_MODE ? 3 : 2)}
+                        />
+                      )}
+                      <TableRow data-state={selection.isSelected(deal.id) ? "selected" : undefined}>
+                        {IS_API_MODE && (
+                          <TableCell>
+                            <SelectRowCheckbox selection={selection} id={deal.id} />
+                          </TableCell>
+                        )}
+                        <TableCell className="font-medium">
+                          {deal.title}
+                          <TagChips tagIds={deal.tag_ids} tags={tags} max={3} className="mt-1" />
+                        </TableCell>
+                        {view.isColumnVisible("company") && <TableCell>{deal.company || "-"}</TableCell>}
+                        {view.isColumnVisible("amount") && <TableCell>{formatCurrency(deal.amount)}</TableCell>}
+                        {view.isColumnVisible("stage") && (
+                          <TableCell>
+                            <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">
+                              {deal.stage}
+                            </span>
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("score") && (
+                          <TableCell>
+                            <ScoringTooltip type={tooltipType}>
+                              <ScoreBadge
+                                score={finalScore}
+                                priority={finalPriority}
+                                size="sm"
+                              />
+                            </ScoringTooltip>
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("priority") && (
+                          <TableCell>
+                            <PriorityBadge priority={finalPriority} size="sm" />
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("risk") && (
+                          <TableCell>
+                            <RiskBadge riskLevel={finalRisk} size="sm" />
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("probability") && <TableCell>{deal.probability}%</TableCell>}
+                        {view.isColumnVisible("next_step") && (
+                          <TableCell className="max-w-xs truncate">
+                            {deal.next_step || "-"}
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("target") && (
+                          <TableCell>
+                            {deal.target_close_date
+                              ? new Date(deal.target_close_date).toLocaleDateString("es-ES", {
+                                  day: "2-digit",
+                                  month: "short",
+                                  year: "numeric",
+                                })
+                              : "-"}
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("status") && (
+                          <TableCell>
+                            <span
+                              className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                                getStatusColor(deal.status)
+                              }`}
+                            >
+                              {deal.status}
+                            </span>
+                          </TableCell>
+                        )}
+                        {view.isColumnVisible("close_reason") && (
+                          <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                            {deal.close_reason || (deal.status === "Open" ? "-" : "Sin motivo")}
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {can("deals:update") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEdit(deal)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("deals:delete") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(deal)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
                   );
                 })}
               </TableBody>
@@ -506,10 +712,7 @@ export default function DealsList({ className }: DealsListProps) {
                 <label className="text-sm font-medium text-card-foreground block mb-2">
                   Empresa
                 </label>
-                <Input
-                  name="company"
-                  defaultValue={editingDeal.company || ""}
-                />
+                <CompanySelector value={companyDraft} onChange={setCompanyDraft} />
               </div>
 
               <div className="grid grid-cols-2 gap-3">
@@ -548,7 +751,7 @@ export default function DealsList({ className }: DealsListProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {STAGES.map((stage) => (
+                    {(stageNames.includes(editingDeal.stage) ? stageNames : [...stageNames, editingDeal.stage]).map((stage) => (
                       <SelectItem key={stage} value={stage}>
                         {stage}
                       </SelectItem>
@@ -610,6 +813,10 @@ export default function DealsList({ className }: DealsListProps) {
                 </div>
               )}
 
+              <CustomFieldInputs fields={customFields} values={customValues} onChange={setCustomValues} />
+
+              <TagPicker tags={tags} value={tagDraft} onChange={setTagDraft} />
+
               <div className="flex justify-end space-x-3 pt-4">
                 <Button
                   type="button"
@@ -663,6 +870,14 @@ export default function DealsList({ className }: DealsListProps) {
           )}
         </DialogContent>
       </Dialog>
+      <ImportWizard open={isImportOpen} onClose={() => setIsImportOpen(false)} defaultEntity="deals" />
+      <ExportDialog
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        entity="deals"
+        filters={filters}
+        records={filteredDeals}
+      />
     </>
   );
 }
@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from "react";
+import { Download } from "lucide-react";
+import {
+  EXPORT_COLUMNS,
+  buildCsv,
+  getCustomFieldExportColumns,
+  getDefaultExportColumns,
+  resolveExportColumns,
+  type ExportColumn,
+  type ExportEntity,
+  type ExportFormat,
+  type ExportLanguage,
+  type ExportRecords,
+  type ListFilters,
+} from "@shared/exports";
+import { isCustomFieldEntity } from "@shared/customFields";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useContactsQuery, useDealsQuery } from "@/hooks/useCrmQueries";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+
+interface ExportDialogProps<K extends ExportEntity> {
+  open: boolean;
+  onClose: () => void;
+  entity: K;
+  /** Filtros activos de la vista; el servidor los vuelve a aplicar. */
+  filters: ListFilters[K];
+  /** Filas que muestra la vista, para exportar sin servidor. */
+  records: ExportRecords[K][];
+}
+
+const ENTITY_LABELS: Record<ExportEntity, string> = {
+  deals: "deals",
+  contacts: "contactos",
+  companies: "empresas",
+  tasks: "tareas",
+};
+
+/** Valor de un Select de filtro, sin la opción "all". */
+export function activeFilter<T extends string>(value: T | "all"): T | undefined {
+  return value === "all" ? undefined : value;
+}
+
+function download(href: string, fileName?: string) {
+  const link = document.createElement("a");
+  link.href = href;
+  if (fileName) link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+/**
+ * Exporta el listado filtrado a CSV o XLSX. En modo API descarga desde
+ * `/api/exports/:entity`, que escribe el fichero por partes; sin servidor
+ * genera el CSV en el navegador con las filas de la vista.
+ */
+export default function ExportDialog<K extends ExportEntity>({
+  open,
+  onClose,
+  entity,
+  filters,
+  records,
+}: ExportDialogProps<K>) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [language, setLanguage] = useState<ExportLanguage>("es");
+  const { fields: customFields } = useCustomFields(isCustomFieldEntity(entity) ? entity : null);
+  const [columns, setColumns] = useState<string[]>(() => getDefaultExportColumns(entity, customFields));
+  // Solo hacen falta para resolver nombres al generar el CSV en local
+  const needsLookups = open && !IS_API_MODE;
+  const { data: contacts = [] } = useContactsQuery({ enabled: needsLookups });
+  const { data: deals = [] } = useDealsQuery({ enabled: needsLookups && entity === "tasks" });
+
+  useEffect(() => {
+    if (open) setColumns(getDefaultExportColumns(entity, customFields));
+  }, [open, entity, customFields]);
+
+  // Las columnas fijas de la entidad y, detrás, una por campo personalizado
+  const availableColumns = useMemo<Pick<ExportColumn<unknown>, "key" | "label">[]>(
+    () => [...EXPORT_COLUMNS[entity], ...getCustomFieldExportColumns(customFields)],
+    [entity, customFields],
+  );
+  const selected = useMemo(() => new Set(columns), [columns]);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setColumns((current) => (checked ? [...current, key] : current.filter((column) => column !== key)));
+  };
+
+  const handleExport = () => {
+    if (IS_API_MODE) {
+      download(api.getExportUrl(entity, { format, language, columns, filters }));
+    } else {
+      const csv = buildCsv(resolveExportColumns(entity, columns, customFields), records, {
+        now: new Date(),
+        language,
+        contacts: new Map(contacts.map((contact) => [contact.id, contact.name])),
+        deals: new Map(deals.map((deal) => [deal.id, deal.title])),
+      });
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+      download(url, `${entity}-${new Date().toISOString().slice(0, 10)}.csv`);
+      // Se libera después de que el navegador empiece la descarga
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+    toast({ title: "Exportación iniciada", description: `Descargando ${ENTITY_LABELS[entity]} filtrados.` });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exportar {ENTITY_LABELS[entity]}</DialogTitle>
+          <DialogDescription>
+            Se exportan las filas que coinciden con los filtros actuales
+            {IS_API_MODE ? "." : ` (${records.length}).`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Formato</span>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx" disabled={!IS_API_MODE}>
+                    Excel (XLSX)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Cabeceras</span>
+              <Select value={language} onValueChange={(value) => setLanguage(value as ExportLanguage)}>
+                <SelectTrigger data-testid="select-export-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="es">Español</SelectItem>
+                  <SelectItem value="en">English</SelectItem>
+                </SelectContent>
+              </Select>
+            </label>
+          </div>
+          {!IS_API_MODE && (
+            <p className="text-xs text-muted-foreground">La exportación a Excel necesita el servidor (modo API).</p>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">Columnas</h4>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setColumns(availableColumns.map((column) => column.key))}
+                >
+                  Todas
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setColumns(getDefaultExportColumns(entity, customFields))}
+                >
+                  Por defecto
+                </Button>
+              </div>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2" data-testid="export-columns">
+              {availableColumns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selected.has(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  {column.label[language]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleExport} disabled={!columns.length} data-testid="button-export-confirm">
+              <Download className="mr-2 h-4 w-4" />
+              Exportar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
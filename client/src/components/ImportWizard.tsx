@@ -0,0 +1,508 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, FileUp, Loader2, RotateCcw, Square } from "lucide-react";
+import {
+  IMPORT_ENTITIES,
+  applyImportMapping,
+  getImportFields,
+  getMissingRequiredFields,
+  guessImportMapping,
+  normalizeImportRow,
+  parseDelimited,
+  type ImportEntity,
+  type ParsedFile,
+} from "@shared/imports";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { ImportJob } from "@/lib/types";
+
+interface ImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+  defaultEntity?: ImportEntity;
+}
+
+type Step = "upload" | "mapping" | "progress";
+
+/** Radix Select no admite "" como valor. */
+const IGNORE_COLUMN = "__ignore";
+const PREVIEW_ROWS = 20;
+/** Por debajo del límite de cuerpo que acepta `/api/imports`. */
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  contacts: "Contactos",
+  companies: "Empresas",
+  deals: "Deals",
+};
+
+const STATUS_LABELS: Record<ImportJob["status"], string> = {
+  pending: "En cola",
+  running: "Importando",
+  completed: "Terminada",
+  failed: "Fallida",
+  cancelled: "Cancelada",
+};
+
+const DATE_FORMATTER = new Intl.DateTimeFormat("es-ES", { dateStyle: "short", timeStyle: "short" });
+
+function isActive(job?: ImportJob | null) {
+  return job?.status === "pending" || job?.status === "running";
+}
+
+/**
+ * Asistente de importación: sube un CSV/TSV, asigna columnas a campos y
+ * sigue el job del servidor, que procesa las filas por lotes y se puede
+ * cancelar y reanudar. Solo existe en modo API.
+ */
+export default function ImportWizard({ open, onClose, defaultEntity = "contacts" }: ImportWizardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [entity, setEntity] = useState<ImportEntity>(defaultEntity);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [jobId, setJobId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const refreshedJob = useRef<string | null>(null);
+  const { fields: customFields } = useCustomFields(entity);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setEntity(defaultEntity);
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setJobId(null);
+  }, [open, defaultEntity]);
+
+  const { data: recentJobs = [] } = useQuery({
+    queryKey: QUERY_KEYS.imports,
+    queryFn: api.getImportJobs,
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: job } = useQuery({
+    queryKey: [...QUERY_KEYS.imports, jobId] as const,
+    queryFn: () => api.getImportJob(jobId!),
+    enabled: open && !!jobId,
+    staleTime: 0,
+    refetchInterval: (query) => (isActive(query.state.data) ? 1000 : false),
+  });
+
+  const { data: failedRows = [] } = useQuery({
+    queryKey: [...QUERY_KEYS.importRows, jobId, job?.failed_rows] as const,
+    queryFn: () => api.getImportJobRows(jobId!, { status: "failed", limit: 50 }),
+    enabled: open && !!jobId && (job?.failed_rows ?? 0) > 0,
+  });
+
+  // Al terminar (o parar) un job se refrescan los listados una sola vez
+  useEffect(() => {
+    if (!job || isActive(job) || !job.imported_rows || refreshedJob.current === job.id) return;
+    refreshedJob.current = job.id;
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.companies });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quickMetrics });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.funnel });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.imports, exact: true });
+  }, [job, queryClient]);
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo completar la operación",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: api.createImport,
+    onSuccess: (created) => {
+      queryClient.setQueryData([...QUERY_KEYS.imports, created.id], created);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.imports, exact: true });
+      setJobId(created.id);
+      setStep("progress");
+    },
+    onError,
+  });
+
+  const controlMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: "cancel" | "resume" }) =>
+      action === "cancel" ? api.cancelImportJob(id) : api.resumeImportJob(id),
+    onSuccess: (updated) => {
+      refreshedJob.current = null;
+      queryClient.setQueryData([...QUERY_KEYS.imports, updated.id], updated);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.imports });
+    },
+    onError,
+  });
+
+  const fields = useMemo(() => getImportFields(entity, customFields), [entity, customFields]);
+  const missing = getMissingRequiredFields(entity, mapping);
+
+  // Los campos personalizados de la entidad pueden llegar después de asignar
+  // columnas: se añaden las que encajan sin tocar lo ya asignado
+  useEffect(() => {
+    if (!preview || !customFields.length) return;
+    const guessed = guessImportMapping(entity, preview.headers, customFields);
+    setMapping((current) => {
+      const assigned = new Set(Object.values(current));
+      const next = { ...current };
+      for (const [header, field] of Object.entries(guessed)) {
+        if (!(header in next) && !assigned.has(field)) next[header] = field;
+      }
+      return next;
+    });
+  }, [entity, preview, customFields]);
+
+  const previewRows = useMemo(() => {
+    if (!preview) return [];
+    return preview.rows.map((row) => ({
+      line: row.line,
+      ...normalizeImportRow(entity, applyImportMapping(preview.headers, row.cells, mapping), customFields),
+    }));
+  }, [entity, mapping, preview, customFields]);
+  const previewErrors = previewRows.filter((row) => row.errors.length).length;
+  const mappedFields = fields.filter((field) => Object.values(mapping).includes(field.key));
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+    if (selected.size > MAX_FILE_BYTES) {
+      onError(new Error("El fichero supera los 20 MB; divídelo en varios"));
+      return;
+    }
+    const content = await selected.text();
+    // Solo se leen unas filas para la vista previa: el fichero completo lo procesa el servidor
+    const parsed = parseDelimited(content, undefined, PREVIEW_ROWS);
+    if (!parsed.headers.length || !parsed.rows.length) {
+      onError(new Error("El fichero no tiene filas de datos"));
+      return;
+    }
+    setFile({ name: selected.name, content });
+    setPreview(parsed);
+    setMapping(guessImportMapping(entity, parsed.headers, customFields));
+    setStep("mapping");
+  };
+
+  const changeEntity = (next: ImportEntity) => {
+    setEntity(next);
+    if (preview) setMapping(guessImportMapping(next, preview.headers));
+  };
+
+  const assignColumn = (header: string, field: string) => {
+    setMapping((current) => {
+      const next: Record<string, string> = {};
+      for (const [column, assigned] of Object.entries(current)) {
+        // Un campo solo puede venir de una columna
+        if (column !== header && assigned !== field) next[column] = assigned;
+      }
+      if (field !== IGNORE_COLUMN) next[header] = field;
+      return next;
+    });
+  };
+
+  const startImport = () => {
+    if (!file || !preview) return;
+    createMutation.mutate({
+      entity,
+      file_name: file.name,
+      content: file.content,
+      delimiter: preview.delimiter,
+      mapping,
+    });
+  };
+
+  const openJob = (id: string) => {
+    setJobId(id);
+    setStep("progress");
+  };
+
+  const percent = job?.total_rows ? Math.round((job.processed_rows / job.total_rows) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar desde CSV</DialogTitle>
+          <DialogDescription>
+            Sube un fichero CSV o TSV, asigna sus columnas y el servidor importará las filas en segundo plano.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-6">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+              <Select value={entity} onValueChange={(value) => changeEntity(value as ImportEntity)}>
+                <SelectTrigger className="sm:w-48" data-testid="select-import-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_ENTITIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {ENTITY_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                className="hidden"
+                onChange={handleFile}
+                data-testid="input-import-file"
+              />
+              <Button onClick={() => inputRef.current?.click()}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Elegir fichero
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Columnas disponibles:{" "}
+              {fields.map((field) => (field.required ? `${field.label} *` : field.label)).join(", ")}.
+              Las fechas pueden ir como AAAA-MM-DD o DD/MM/AAAA.
+            </p>
+
+            {recentJobs.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Importaciones recientes</h4>
+                <div className="divide-y rounded-lg border">
+                  {recentJobs.slice(0, 5).map((recent) => (
+                    <button
+                      key={recent.id}
+                      type="button"
+                      onClick={() => openJob(recent.id)}
+                      className="flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-muted/40"
+                      data-testid={`button-import-job-${recent.id}`}
+                    >
+                      <span className="truncate">
+                        {recent.file_name ?? ENTITY_LABELS[recent.entity]} · {ENTITY_LABELS[recent.entity]}
+                      </span>
+                      <span className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                        {recent.imported_rows}/{recent.total_rows}
+                        <Badge variant={recent.status === "failed" ? "destructive" : "secondary"}>
+                          {STATUS_LABELS[recent.status]}
+                        </Badge>
+                        {DATE_FORMATTER.format(new Date(recent.created_at))}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "mapping" && preview && (
+          <div className="space-y-6">
+            <div className="flex flex-col gap-1 text-sm">
+              <span className="font-medium">
+                {file?.name} · {ENTITY_LABELS[entity]}
+              </span>
+              <span className="text-muted-foreground">
+                Separador: {preview.delimiter === "\t" ? "tabulador" : `"${preview.delimiter}"`}. Vista previa de las
+                primeras {preview.rows.length} filas.
+              </span>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2" data-testid="import-mapping">
+              {preview.headers.map((header) => (
+                <label key={header} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="truncate font-medium" title={header}>
+                    {header}
+                  </span>
+                  <Select
+                    value={mapping[header] ?? IGNORE_COLUMN}
+                    onValueChange={(field) => assignColumn(header, field)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE_COLUMN}>No importar</SelectItem>
+                      {fields.map((field) => (
+                        <SelectItem key={field.key} value={field.key}>
+                          {field.required ? `${field.label} *` : field.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              ))}
+            </div>
+
+            {missing.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                Falta asignar: {missing.map((field) => field.label).join(", ")}
+              </p>
+            )}
+
+            {mappedFields.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {previewErrors
+                    ? `${previewErrors} de ${previewRows.length} filas de la vista previa tienen errores ` +
+                      "y no se importarán."
+                    : "Las filas de la vista previa son válidas."}
+                </p>
+                <div className="overflow-x-auto rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fila</TableHead>
+                        {mappedFields.map((field) => (
+                          <TableHead key={field.key}>{field.label}</TableHead>
+                        ))}
+                        <TableHead>Errores</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {previewRows.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          {mappedFields.map((field) => {
+                            const value = row.values[field.key];
+                            return (
+                              <TableCell key={field.key} className="max-w-[12rem] truncate">
+                                {value instanceof Date ? value.toLocaleDateString("es-ES") : (value ?? "—")}
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell className="text-xs text-destructive">
+                            {row.errors.map((error) => error.message).join("; ")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Atrás
+              </Button>
+              <Button
+                onClick={startImport}
+                disabled={missing.length > 0 || createMutation.isPending}
+                data-testid="button-start-import"
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "progress" && (
+          <div className="space-y-6">
+            {!job ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Cargando importación…
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 font-medium">
+                      {isActive(job) ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : job.status === "completed" ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4 text-destructive" />
+                      )}
+                      {STATUS_LABELS[job.status]} · {job.file_name ?? ENTITY_LABELS[job.entity]}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {job.processed_rows} / {job.total_rows} filas
+                    </span>
+                  </div>
+                  <Progress value={percent} data-testid="progress-import" />
+                  <p className="text-sm text-muted-foreground">
+                    {job.imported_rows} importadas · {job.failed_rows} con errores
+                  </p>
+                  {job.error && <p className="text-sm text-destructive">{job.error}</p>}
+                </div>
+
+                {failedRows.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Filas con errores</h4>
+                    <div className="max-h-64 overflow-y-auto rounded-lg border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Fila</TableHead>
+                            <TableHead>Error</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {failedRows.map((row) => (
+                            <TableRow key={row.id}>
+                              <TableCell>{row.row_number}</TableCell>
+                              <TableCell className="text-sm">{row.error}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    {job.failed_rows > failedRows.length && (
+                      <p className="text-xs text-muted-foreground">
+                        Se muestran las primeras {failedRows.length} de {job.failed_rows}.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  {isActive(job) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => controlMutation.mutate({ id: job.id, action: "cancel" })}
+                      disabled={controlMutation.isPending}
+                    >
+                      <Square className="mr-2 h-4 w-4" />
+                      Cancelar
+                    </Button>
+                  )}
+                  {(job.status === "failed" || job.status === "cancelled") && (
+                    <Button
+                      variant="outline"
+                      onClick={() => controlMutation.mutate({ id: job.id, action: "resume" })}
+                      disabled={controlMutation.isPending}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Reanudar
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={() => setStep("upload")}>
+                    Nueva importación
+                  </Button>
+                  <Button onClick={onClose}>Cerrar</Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
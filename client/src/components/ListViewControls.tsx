@@ -0,0 +1,149 @@
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, SlidersHorizontal } from "lucide-react";
+import { SAVED_VIEW_DEFINITIONS, type SavedViewList, type ViewOption } from "@shared/savedViews";
+import type { ListView } from "@/hooks/useListView";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { TableCell, TableRow } from "./ui/table";
+
+const NONE = "none";
+
+interface ListViewControlsProps {
+  list: SavedViewList;
+  view: ListView;
+  /** Columnas que se pueden ocultar; por defecto las de la definición del listado. */
+  columns?: ViewOption[];
+  /** Título de la sección de columnas ("Etapas" en el tablero). */
+  columnsLabel?: string;
+  /** Clases del botón, para encajar en cabeceras con otro fondo. */
+  className?: string;
+}
+
+/** Menú de orden, agrupación y columnas visibles del listado. */
+export default function ListViewControls({
+  list,
+  view,
+  columns,
+  columnsLabel = "Columnas",
+  className,
+}: ListViewControlsProps) {
+  const definition = SAVED_VIEW_DEFINITIONS[list];
+  const columnOptions = columns ?? definition.columns ?? [];
+  const visible = columnOptions.filter((option) => view.isColumnVisible(option.key)).map((option) => option.key);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    const next = columnOptions
+      .map((option) => option.key)
+      .filter((candidate) => (candidate === key ? checked : visible.includes(candidate)));
+    view.setColumns(next.length === columnOptions.length ? null : next);
+  };
+
+  const direction = view.sort?.direction ?? "asc";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className={className} data-testid={`button-view-${list}`}>
+          <SlidersHorizontal className="mr-1 h-4 w-4" />
+          Vista
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-[70vh] w-56 overflow-y-auto">
+        <DropdownMenuLabel>Ordenar por</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={view.sort?.key ?? NONE}
+          onValueChange={(key) => view.setSort(key === NONE ? null : { key, direction })}
+        >
+          <DropdownMenuRadioItem value={NONE}>Orden por defecto</DropdownMenuRadioItem>
+          {definition.sorts.map((option) => (
+            <DropdownMenuRadioItem key={option.key} value={option.key}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {view.sort && (
+          <DropdownMenuItem
+            onSelect={(event) => {
+              event.preventDefault();
+              view.setSort({ key: view.sort!.key, direction: direction === "asc" ? "desc" : "asc" });
+            }}
+          >
+            {direction === "asc" ? (
+              <ArrowUpNarrowWide className="mr-2 h-4 w-4" />
+            ) : (
+              <ArrowDownWideNarrow className="mr-2 h-4 w-4" />
+            )}
+            {direction === "asc" ? "Ascendente" : "Descendente"}
+          </DropdownMenuItem>
+        )}
+
+        {definition.groups.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Agrupar por</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={view.groupBy ?? NONE}
+              onValueChange={(key) => view.setGroupBy(key === NONE ? null : key)}
+            >
+              <DropdownMenuRadioItem value={NONE}>Sin agrupar</DropdownMenuRadioItem>
+              {definition.groups.map((option) => (
+                <DropdownMenuRadioItem key={option.key} value={option.key}>
+                  {option.label}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+
+        {columnOptions.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>{columnsLabel}</DropdownMenuLabel>
+            {columnOptions.map((option) => {
+              const checked = visible.includes(option.key);
+              return (
+                <DropdownMenuCheckboxItem
+                  key={option.key}
+                  checked={checked}
+                  // Siempre queda al menos una columna a la vista
+                  disabled={checked && visible.length === 1}
+                  onSelect={(event) => event.preventDefault()}
+                  onCheckedChange={(next) => toggleColumn(option.key, next === true)}
+                >
+                  {option.label}
+                </DropdownMenuCheckboxItem>
+              );
+            })}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface ViewGroupRowProps {
+  label: string;
+  count?: number;
+  colSpan: number;
+}
+
+/** Cabecera de grupo dentro de la tabla. */
+export function ViewGroupRow({ label, count, colSpan }: ViewGroupRowProps) {
+  return (
+    <TableRow className="bg-muted/40 hover:bg-muted/40">
+      <TableCell colSpan={colSpan} className="py-1.5 text-xs font-semibold text-muted-foreground">
+        {label}
+        {count !== undefined && <span className="ml-2 font-normal">({count})</span>}
+      </TableCell>
+    </TableRow>
+  );
+}
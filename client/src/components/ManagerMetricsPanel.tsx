@@ -1,32 +1,28 @@
-import { useMemo } from "react";
-import {
-  Bar,
-  BarChart,
-  CartesianGrid,
-  ResponsiveContainer,
-  Tooltip as RechartsTooltip,
-  XAxis,
-  YAxis,
-} from "recharts";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Award, Users, Zap } from "lucide-react";
 
 import Card from "@/components/Card";
 import Skeleton from "@/components/Skeleton";
-import type { Deal } from "@/lib/types";
+import StageFunnelCard, { ALL_FILTER, type FunnelFilters } from "@/components/StageFunnelCard";
+import type { Deal, User } from "@/lib/types";
+import PipelineSwitcher from "@/components/PipelineSwitcher";
+import { useFunnelReportQuery } from "@/hooks/useCrmQueries";
+import { getUserDisplayName } from "@/hooks/useCurrentUser";
+import { isDealInPipeline, usePipeline, usePipelineSelection } from "@/hooks/usePipeline";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import { DEFAULT_FUNNEL_WINDOW_DAYS, getCohortMonth } from "@shared/funnel";
 
 interface ManagerMetricsPanelProps {
   deals: Deal[];
   isLoading?: boolean;
+  /** Pipeline analizado; sin valor, el predeterminado. */
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string) => void;
 }
 
-const STAGE_ORDER = [
-  "Prospección",
-  "Calificación",
-  "Propuesta",
-  "Negociación",
-  "Cierre",
-] as const;
-
 const dayMs = 1000 * 60 * 60 * 24;
 
 const CURRENCY_FORMATTER = new Intl.NumberFormat("es-ES", {
@@ -40,13 +36,6 @@ const PERCENT_FORMATTER = new Intl.NumberFormat("es-ES", {
   maximumFractionDigits: 0,
 });
 
-interface StageConversionRow {
-  stage: string;
-  count: number;
-  conversion: number;
-  drop?: number;
-}
-
 interface OwnerScore {
   ownerId: string;
   name: string;
@@ -56,33 +45,67 @@ interface OwnerScore {
   closedWon: number;
 }
 
-export default function ManagerMetricsPanel({ deals, isLoading }: ManagerMetricsPanelProps) {
-  const loading = isLoading ?? false;
+export default function ManagerMetricsPanel({
+  deals: allDeals,
+  isLoading,
+  pipelineId: controlledPipelineId,
+  onPipelineChange,
+}: ManagerMetricsPanelProps) {
+  const [pipelineId, changePipeline] = usePipelineSelection(controlledPipelineId, onPipelineChange);
+  const { pipeline, isLoading: stagesLoading } = usePipeline(pipelineId);
+  const deals = useMemo(() => allDeals.filter((deal) => isDealInPipeline(deal, pipeline)), [allDeals, pipeline]);
+  const loading = (isLoading ?? false) || stagesLoading;
+
+  const [funnelFilters, setFunnelFilters] = useState<FunnelFilters>({
+    windowDays: DEFAULT_FUNNEL_WINDOW_DAYS,
+    cohort: ALL_FILTER,
+    ownerId: ALL_FILTER,
+  });
+  // La ventana se fija al elegirla para que la clave de la query sea estable
+  const funnelRange = useMemo(() => {
+    const to = new Date();
+    return { from: new Date(to.getTime() - funnelFilters.windowDays * dayMs).toISOString(), to: to.toISOString() };
+  }, [funnelFilters.windowDays]);
+  const { data: funnel, isFetching: funnelLoading } = useFunnelReportQuery(
+    {
+      pipeline_id: pipeline?.id,
+      ...funnelRange,
+      cohort: funnelFilters.cohort === ALL_FILTER ? null : funnelFilters.cohort,
+      owner_id: funnelFilters.ownerId === ALL_FILTER ? null : funnelFilters.ownerId,
+    },
+    { enabled: !!pipeline },
+  );
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: QUERY_KEYS.users,
+    queryFn: api.getUsers,
+    enabled: IS_API_MODE,
+  });
+
+  // Cohortes y owners salen de todos los deals: el funnel sigue a los que cambiaron de pipeline
+  const { cohorts, funnelOwners } = useMemo(() => {
+    const months = new Set<string>();
+    const ownerIds = new Set<string>();
+    for (const deal of allDeals) {
+      const month = getCohortMonth(deal.created_at);
+      if (month) months.add(month);
+      if (deal.owner_id) ownerIds.add(deal.owner_id);
+    }
+    return {
+      cohorts: Array.from(months).sort().reverse(),
+      funnelOwners: Array.from(ownerIds, (id) => {
+        const user = users.find((candidate) => candidate.id === id);
+        return { id, name: user ? getUserDisplayName(user) : id };
+      }).sort((a, b) => a.name.localeCompare(b.name, "es")),
+    };
+  }, [allDeals, users]);
 
-  const { stageConversion, winRate, loseRate, averageCycle, highRiskValue, owners, insightBullets } = useMemo(() => {
+  const { winRate, loseRate, averageCycle, highRiskValue, owners, insightBullets } = useMemo(() => {
     const openDeals = deals.filter((deal) => deal.status === "Open");
     const closedWonDeals = deals.filter((deal) => deal.status === "Won");
     const closedLostDeals = deals.filter((deal) => deal.status === "Lost");
     const closedDeals = closedWonDeals.length + closedLostDeals.length;
 
-    const stageCounts = STAGE_ORDER.map((stage) => ({
-      stage,
-      count: openDeals.filter((deal) => (deal.stage ?? "") === stage).length,
-    }));
-    const firstStageCount = stageCounts[0]?.count ?? 0;
-    const conversionRows: StageConversionRow[] = stageCounts.map(({ stage, count }, index) => {
-      const conversion = firstStageCount ? count / firstStageCount : 0;
-      const previousCount = index === 0 ? firstStageCount : stageCounts[index - 1]?.count ?? 0;
-      const dropRaw = previousCount ? 1 - count / previousCount : 0;
-      const drop = previousCount ? Math.max(0, dropRaw) : 0;
-      return {
-        stage,
-        count,
-        conversion,
-        drop: index === 0 ? undefined : drop,
-      };
-    });
-
     const wonCount = closedWonDeals.length;
     const loseCount = closedLostDeals.length;
     const winRate = closedDeals ? wonCount / closedDeals : 0;
@@ -135,13 +158,14 @@ export default function ManagerMetricsPanel({ deals, isLoading }: ManagerMetrics
       .slice(0, 6);
 
     const insightBullets: string[] = [];
-    const topStage = conversionRows
-      .filter((row) => row.count > 0)
-      .sort((a, b) => b.conversion - a.conversion)[0];
-    if (topStage?.stage) {
-      insightBullets.push(
-        `${topStage.stage} retiene ${Math.round(topStage.conversion * 100)}% de los deals que entran al funnel.`,
-      );
+    // La etapa que más deals pierde en el funnel histórico, con su motivo principal
+    const leakiest = funnel?.stages
+      .filter((row) => row.lost > 0)
+      .sort((a, b) => b.lost - a.lost)[0];
+    if (leakiest) {
+      const [topReason] = leakiest.drop_off_reasons;
+      const reasonText = topReason ? ` (sobre todo "${topReason.reason}")` : "";
+      insightBullets.push(`${leakiest.stage} concentra ${leakiest.lost} pérdidas en el periodo${reasonText}.`);
     }
 
     if (owners[0]) {
@@ -157,7 +181,6 @@ export default function ManagerMetricsPanel({ deals, isLoading }: ManagerMetrics
     }
 
     return {
-      stageConversion: conversionRows,
       winRate,
       loseRate,
       averageCycle,
@@ -165,7 +188,7 @@ export default function ManagerMetricsPanel({ deals, isLoading }: ManagerMetrics
       owners,
       insightBullets,
     };
-  }, [deals]);
+  }, [deals, funnel]);
 
   if (loading) {
     return (
@@ -192,9 +215,12 @@ export default function ManagerMetricsPanel({ deals, isLoading }: ManagerMetrics
     <div className="space-y-6">
       <Card>
         <div className="flex flex-col gap-6 lg:flex-row lg:items-center lg:justify-between">
-          <div>
-            <h2 className="text-lg font-semibold text-white">Panel ejecutivo</h2>
-            <p className="text-sm text-white/60">Conversiones, velocidad de cierre y salud del equipo.</p>
+          <div className="space-y-3">
+            <div>
+              <h2 className="text-lg font-semibold text-white">Panel ejecutivo</h2>
+              <p className="text-sm text-white/60">Conversiones, velocidad de cierre y salud del equipo.</p>
+            </div>
+            <PipelineSwitcher value={pipeline?.id} onChange={changePipeline} />
           </div>
           <div className="flex flex-wrap gap-3 text-sm">
             <MetricTile
@@ -220,52 +246,15 @@ export default function ManagerMetricsPanel({ deals, isLoading }: ManagerMetrics
       </Card>
 
       <div className="grid gap-6 xl:grid-cols-3">
-        <Card className="xl:col-span-2">
-          <h3 className="text-base font-semibold text-white">Conversión por etapa</h3>
-          <p className="text-xs text-white/60">Porcentaje de deals que se mantienen activos en cada etapa del funnel.</p>
-          <div className="mt-6 h-72">
-            {stageConversion.some((row) => row.count > 0) ? (
-              <ResponsiveContainer>
-                <BarChart data={stageConversion}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
-                  <XAxis dataKey="stage" stroke="#CBD5F5" tick={{ fill: "#CBD5F5", fontSize: 12 }} />
-                  <YAxis
-                    stroke="#CBD5F5"
-                    tick={{ fill: "#CBD5F5", fontSize: 12 }}
-                    tickFormatter={(value) => `${Math.round(value * 100)}%`}
-                  />
-                  <RechartsTooltip
-                    cursor={{ fill: "rgba(148,163,215,0.08)" }}
-                    contentStyle={{
-                      background: "rgba(15,23,42,0.95)",
-                      border: "1px solid rgba(148,163,215,0.24)",
-                      borderRadius: "12px",
-                      color: "#E2E8F0",
-                    }}
-                    formatter={(value: number, name) => {
-                      if (name === "conversion") {
-                        return [PERCENT_FORMATTER.format(value), "Conversion"];
-                      }
-                      if (name === "count") {
-                        return [value, "Deals activos"];
-                      }
-                      if (name === "drop") {
-                        return [PERCENT_FORMATTER.format(value ?? 0), "Drop-off"];
-                      }
-                      return [value, name];
-                    }}
-                    labelFormatter={(label) => `Etapa: ${label}`}
-                  />
-                  <Bar dataKey="conversion" name="Conversion" fill="#60A5FA" radius={[10, 10, 0, 0]} />
-                </BarChart>
-              </ResponsiveContainer>
-            ) : (
-              <div className="flex h-full items-center justify-center rounded-xl border border-dashed border-white/10 bg-white/5 text-sm text-white/60">
-                Aún no hay suficientes deals en el funnel.
-              </div>
-            )}
-          </div>
-        </Card>
+        <StageFunnelCard
+          className="xl:col-span-2"
+          report={funnel}
+          isLoading={funnelLoading}
+          filters={funnelFilters}
+          onFiltersChange={setFunnelFilters}
+          cohorts={cohorts}
+          owners={funnelOwners}
+        />
 
         <Card>
           <h3 className="text-base font-semibold text-white">Insights clave</h3>
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Plus, Star, Trash2 } from "lucide-react";
+import { sortStages } from "@shared/pipelineStages";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import PipelineSwitcher from "@/components/PipelineSwitcher";
+import { useToast } from "@/hooks/use-toast";
+import { usePipeline, usePipelineSelection } from "@/hooks/usePipeline";
+import {
+  IS_API_MODE,
+  addPipeline,
+  addPipelineStage,
+  deletePipeline,
+  reorderPipelineStages,
+  updatePipeline,
+  updatePipelineStage,
+} from "@/lib/db";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { Pipeline, PipelineStage } from "@/lib/types";
+
+interface PipelineStagesEditorProps {
+  open: boolean;
+  onClose: () => void;
+  /** Pipeline cuyas etapas se editan; sin valor, el predeterminado. */
+  pipelineId?: string | null;
+  onPipelineChange?: (pipelineId: string) => void;
+}
+
+const NEW_STAGE_COLOR = "#64748B";
+
+/**
+ * Alta, renombrado, color, probabilidad base, activación y orden de las etapas
+ * de un pipeline. En modo API también gestiona los pipelines.
+ */
+export default function PipelineStagesEditor({
+  open,
+  onClose,
+  pipelineId: controlledPipelineId,
+  onPipelineChange,
+}: PipelineStagesEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [pipelineId, changePipeline] = usePipelineSelection(controlledPipelineId, onPipelineChange);
+  const { pipeline, stages: pipelineStages } = usePipeline(pipelineId);
+  const stages = sortStages(pipelineStages);
+  const [newName, setNewName] = useState("");
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pipelines });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pipelineStages });
+    // Los renombrados se propagan a los deals
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
+  };
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar la etapa",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: addPipelineStage,
+    onSuccess: () => {
+      setNewName("");
+      onSuccess();
+    },
+    onError,
+  });
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...patch }: { id: string } & Parameters<typeof updatePipelineStage>[1]) =>
+      updatePipelineStage(id, patch),
+    onSuccess,
+    onError,
+  });
+  const reorderMutation = useMutation({ mutationFn: reorderPipelineStages, onSuccess, onError });
+
+  const move = (index: number, offset: number) => {
+    const ids = stages.map((stage) => stage.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    addMutation.mutate({ name, color: NEW_STAGE_COLOR, pipeline_id: pipeline?.id });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Etapas del pipeline</DialogTitle>
+          <DialogDescription>
+            Renombrar una etapa mueve sus deals. Las etapas desactivadas no admiten deals nuevos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <PipelineSwitcher
+          value={pipeline?.id}
+          onChange={changePipeline}
+          className="w-full bg-background text-foreground focus:ring-ring"
+        />
+        {IS_API_MODE && pipeline && (
+          <PipelineManager
+            key={`${pipeline.id}-${pipeline.updated_at ?? ""}`}
+            pipeline={pipeline}
+            onSelect={changePipeline}
+            onSuccess={onSuccess}
+            onError={onError}
+          />
+        )}
+
+        <div className="space-y-2">
+          {stages.map((stage, index) => (
+            <StageRow
+              key={`${stage.id}-${stage.updated_at ?? ""}`}
+              stage={stage}
+              isFirst={index === 0}
+              isLast={index === stages.length - 1}
+              onMoveUp={() => move(index, -1)}
+              onMoveDown={() => move(index, 1)}
+              onChange={(patch) => updateMutation.mutate({ id: stage.id, ...patch })}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-2 pt-2">
+          <Input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && handleAdd()}
+            placeholder="Nueva etapa"
+            data-testid="input-new-stage"
+          />
+          <Button onClick={handleAdd} disabled={!newName.trim() || addMutation.isPending}>
+            <Plus className="mr-1 h-4 w-4" />
+            Añadir
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PipelineManagerProps {
+  pipeline: Pipeline;
+  onSelect: (pipelineId: string) => void;
+  onSuccess: () => void;
+  onError: (error: unknown) => void;
+}
+
+// Renombrar, marcar como predeterminado o borrar el pipeline abierto, y crear otros nuevos
+function PipelineManager({ pipeline, onSelect, onSuccess, onError }: PipelineManagerProps) {
+  const [name, setName] = useState(pipeline.name);
+  const [newPipelineName, setNewPipelineName] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: addPipeline,
+    onSuccess: (created) => {
+      setNewPipelineName("");
+      onSuccess();
+      onSelect(created.id);
+    },
+    onError,
+  });
+  const updateMutation = useMutation({
+    mutationFn: (patch: Parameters<typeof updatePipeline>[1]) => updatePipeline(pipeline.id, patch),
+    onSuccess,
+    onError,
+  });
+  const deleteMutation = useMutation({ mutationFn: deletePipeline, onSuccess, onError });
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== pipeline.name) updateMutation.mutate({ name: trimmed });
+    else setName(pipeline.name);
+  };
+
+  const handleCreate = () => {
+    const trimmed = newPipelineName.trim();
+    if (trimmed) createMutation.mutate({ name: trimmed });
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onBlur={commitName}
+          className="flex-1"
+          aria-label="Nombre del pipeline"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => updateMutation.mutate({ is_default: true })}
+          disabled={pipeline.is_default}
+          aria-label={pipeline.is_default ? "Pipeline predeterminado" : "Marcar como predeterminado"}
+          title={pipeline.is_default ? "Pipeline predeterminado" : "Marcar como predeterminado"}
+        >
+          <Star className={pipeline.is_default ? "h-4 w-4 fill-current" : "h-4 w-4"} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => deleteMutation.mutate(pipeline.id)}
+          disabled={pipeline.is_default || deleteMutation.isPending}
+          aria-label="Borrar pipeline"
+          title="Solo se pueden borrar pipelines sin deals"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={newPipelineName}
+          onChange={(event) => setNewPipelineName(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && handleCreate()}
+          placeholder="Nuevo pipeline"
+          data-testid="input-new-pipeline"
+        />
+        <Button variant="outline" onClick={handleCreate} disabled={!newPipelineName.trim() || createMutation.isPending}>
+          <Plus className="mr-1 h-4 w-4" />
+          Crear pipeline
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface StageRowProps {
+  stage: PipelineStage;
+  isFirst: boolean;
+  isLast: boolean;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onChange: (patch: Parameters<typeof updatePipelineStage>[1]) => void;
+}
+
+// Los campos de texto se guardan al salir del input para no lanzar una petición por tecla
+function StageRow({ stage, isFirst, isLast, onMoveUp, onMoveDown, onChange }: StageRowProps) {
+  const [name, setName] = useState(stage.name);
+  const [probability, setProbability] = useState(String(stage.default_probability));
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== stage.name) onChange({ name: trimmed });
+    else setName(stage.name);
+  };
+
+  const commitProbability = () => {
+    const value = Number(probability);
+    if (Number.isInteger(value) && value >= 0 && value <= 100 && value !== stage.default_probability) {
+      onChange({ default_probability: value });
+    } else {
+      setProbability(String(stage.default_probability));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-border p-2" data-testid={`stage-row-${stage.id}`}>
+      <input
+        type="color"
+        value={stage.color}
+        onChange={(event) => onChange({ color: event.target.value.toUpperCase() })}
+        className="h-8 w-8 shrink-0 cursor-pointer rounded border-0 bg-transparent"
+        aria-label={`Color de ${stage.name}`}
+      />
+      <Input value={name} onChange={(event) => setName(event.target.value)} onBlur={commitName} className="flex-1" />
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={probability}
+          onChange={(event) => setProbability(event.target.value)}
+          onBlur={commitProbability}
+          className="w-20"
+          aria-label={`Probabilidad base de ${stage.name}`}
+        />
+        <span className="text-sm text-muted-foreground">%</span>
+      </div>
+      <Switch
+        checked={stage.is_active}
+        onCheckedChange={(checked) => onChange({ is_active: checked })}
+        aria-label={stage.is_active ? "Desactivar etapa" : "Activar etapa"}
+      />
+      <Button variant="ghost" size="icon" onClick={onMoveUp} disabled={isFirst} aria-label="Subir">
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onMoveDown} disabled={isLast} aria-label="Bajar">
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { useMemo } from "react";
 import Card from "@/components/Card";
 import Skeleton from "@/components/Skeleton";
 import type { Deal } from "@/lib/types";
+import { isDealInPipeline, usePipeline } from "@/hooks/usePipeline";
+import { useDealPolicyContext } from "@/hooks/useSlaPolicies";
+import { getActiveStages, normalizeStageName } from "@shared/pipelineStages";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { calculateDealScore } from "@/lib/scoring";
 import { computeDealAttention } from "@/lib/pipelineInsights";
@@ -11,22 +14,18 @@ interface PipelineSummaryCardProps {
   isLoading?: boolean;
 }
 
-const STAGE_ORDER = [
-  "Prospección",
-  "Calificación",
-  "Propuesta",
-  "Negociación",
-  "Cierre",
-] as const;
-
 const CURRENCY_FORMATTER = new Intl.NumberFormat("es-ES", {
   style: "currency",
   currency: "EUR",
   maximumFractionDigits: 0,
 });
 
-export default function PipelineSummaryCard({ deals, isLoading }: PipelineSummaryCardProps) {
-  if (isLoading) {
+/** Resume el pipeline predeterminado; el resto se consulta desde la sección Pipeline. */
+export default function PipelineSummaryCard({ deals: allDeals, isLoading }: PipelineSummaryCardProps) {
+  const { pipelines, pipeline, stages, isLoading: stagesLoading } = usePipeline();
+  const activeStages = getActiveStages(stages);
+
+  if (isLoading || stagesLoading) {
     return (
       <Card>
         <div className="space-y-4">
@@ -37,7 +36,7 @@ export default function PipelineSummaryCard({ deals, isLoading }: PipelineSummar
             ))}
           </div>
           <div className="space-y-2">
-            {Array.from({ length: STAGE_ORDER.length }).map((_, index) => (
+            {Array.from({ length: Math.max(activeStages.length, 3) }).map((_, index) => (
               <div key={index} className="space-y-2">
                 <Skeleton className="h-3 w-40" />
                 <Skeleton className="h-2 w-full" />
@@ -49,6 +48,7 @@ export default function PipelineSummaryCard({ deals, isLoading }: PipelineSummar
     );
   }
 
+  const deals = allDeals.filter((deal) => isDealInPipeline(deal, pipeline));
   const openDeals = deals.filter((deal) => deal.status === "Open");
   const wonDeals = deals.filter((deal) => deal.status === "Won");
   const lostDeals = deals.filter((deal) => deal.status === "Lost");
@@ -58,8 +58,8 @@ export default function PipelineSummaryCard({ deals, isLoading }: PipelineSummar
   const lostValue = lostDeals.reduce((sum, deal) => sum + Number(deal.amount ?? 0), 0);
   const totalPipelineValue = openValue + wonValue;
 
-  const stageStats = STAGE_ORDER.map((stage) => {
-    const stageDeals = openDeals.filter((deal) => deal.stage === stage);
+  const stageStats = activeStages.map(({ name: stage }) => {
+    const stageDeals = openDeals.filter((deal) => normalizeStageName(deal.stage ?? "") === normalizeStageName(stage));
     const value = stageDeals.reduce((sum, deal) => sum + Number(deal.amount ?? 0), 0);
     return {
       stage,
@@ -80,7 +80,8 @@ export default function PipelineSummaryCard({ deals, isLoading }: PipelineSummar
     [openDeals],
   );
 
-  const attentionDeals = useMemo(() => computeDealAttention(openDeals), [openDeals]);
+  const policyContext = useDealPolicyContext();
+  const attentionDeals = useMemo(() => computeDealAttention(openDeals, policyContext), [openDeals, policyContext]);
   const highRiskDeals = useMemo(
     () => attentionDeals.filter((item) => item.risk === "Alto"),
     [attentionDeals],
@@ -92,7 +93,9 @@ export default function PipelineSummaryCard({ deals, isLoading }: PipelineSummar
         <div>
           <h2 className="text-lg font-semibold text-card-foreground">Pipeline este mes</h2>
           <p className="text-xs text-muted-foreground">
-            Estado actual de tus oportunidades.
+            {pipelines.length > 1 && pipeline
+              ? `Estado actual de ${pipeline.name}.`
+              : "Estado actual de tus oportunidades."}
           </p>
         </div>
       </div>
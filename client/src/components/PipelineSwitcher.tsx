@@ -0,0 +1,36 @@
+import { GitBranch } from "lucide-react";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePipeline } from "@/hooks/usePipeline";
+import { cn } from "@/lib/utils";
+
+interface PipelineSwitcherProps {
+  value?: string | null;
+  onChange: (pipelineId: string) => void;
+  className?: string;
+}
+
+/** Selector de pipeline; no se muestra mientras solo haya uno. */
+export default function PipelineSwitcher({ value, onChange, className }: PipelineSwitcherProps) {
+  const { pipelines, pipeline } = usePipeline(value);
+  if (pipelines.length <= 1 || !pipeline) return null;
+
+  return (
+    <Select value={pipeline.id} onValueChange={onChange}>
+      <SelectTrigger
+        className={cn("bg-white/5 text-white focus:ring-white/30 lg:min-w-[190px]", className)}
+        data-testid="select-pipeline"
+      >
+        <GitBranch className="mr-2 h-4 w-4" />
+        <SelectValue placeholder="Pipeline" />
+      </SelectTrigger>
+      <SelectContent>
+        {pipelines.map((candidate) => (
+          <SelectItem key={candidate.id} value={candidate.id}>
+            {candidate.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Check, Save, Star, StarOff, Trash2, Users, X } from "lucide-react";
+import {
+  applyViewConfigToSearch,
+  EMPTY_VIEW_CONFIG,
+  hasViewParams,
+  sameViewConfig,
+  viewConfigFromSearch,
+  type SavedViewConfig,
+  type SavedViewList,
+} from "@shared/savedViews";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+interface SavedViewsMenuProps {
+  list: SavedViewList;
+  /** Clases del botón, para encajar en cabeceras con otro fondo. */
+  className?: string;
+}
+
+/**
+ * Vistas guardadas del listado (propias y compartidas por el equipo). Elegir
+ * una cambia la query string; la vista por defecto se aplica al entrar en el
+ * listado sin filtros en la URL.
+ */
+export default function SavedViewsMenu({ list, className }: SavedViewsMenuProps) {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { userId } = useCurrentUser();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const [draftShared, setDraftShared] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const appliedDefault = useRef(false);
+  // Se mira la URL de entrada, no la de después de que el usuario toque filtros
+  const startedClean = useRef(!hasViewParams(list, search));
+
+  const queryKey = [...QUERY_KEYS.savedViews, list] as const;
+  const { data: views = [] } = useQuery({ queryKey, queryFn: () => api.getSavedViews(list) });
+
+  const current = useMemo(() => viewConfigFromSearch(list, search), [list, search]);
+  // La vista elegida sigue activa aunque se cambien filtros: así se pueden guardar los cambios
+  const selected =
+    views.find((view) => view.id === selectedId) ?? views.find((view) => sameViewConfig(view.config, current));
+  const isModified = selected ? !sameViewConfig(selected.config, current) : false;
+  const ownSelected = selected && selected.owner_id === userId ? selected : undefined;
+
+  const apply = (config: SavedViewConfig) => {
+    navigate(`${location}${applyViewConfigToSearch(list, window.location.search, config)}`);
+  };
+
+  useEffect(() => {
+    if (appliedDefault.current || !startedClean.current) return;
+    const defaultView = views.find((view) => view.is_default);
+    if (!defaultView) return;
+    appliedDefault.current = true;
+    setSelectedId(defaultView.id);
+    navigate(`${location}${applyViewConfigToSearch(list, window.location.search, defaultView.config)}`, {
+      replace: true,
+    });
+  }, [views, list, location, navigate]);
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar la vista",
+      variant: "destructive",
+    });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const createMutation = useMutation({
+    mutationFn: api.createSavedView,
+    onSuccess: (view) => {
+      refresh();
+      setSelectedId(view.id);
+      setIsSaveOpen(false);
+      toast({ title: "Vista guardada", description: `«${view.name}» ya aparece en tus vistas` });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, config }: { id: string; config: SavedViewConfig }) => api.updateSavedView(id, { config }),
+    onSuccess: (view) => {
+      refresh();
+      toast({ title: "Vista actualizada", description: `«${view.name}» guarda los filtros actuales` });
+    },
+    onError,
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: (viewId: string | null) => api.setDefaultSavedView(list, viewId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteSavedView,
+    onSuccess: () => {
+      refresh();
+      setSelectedId(null);
+    },
+    onError,
+  });
+
+  const openSaveDialog = () => {
+    setDraftName("");
+    setDraftShared(false);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    createMutation.mutate({ list, name: draftName, shared: draftShared, config: current });
+  };
+
+  const ownViews = views.filter((view) => view.owner_id === userId);
+  const sharedViews = views.filter((view) => view.owner_id !== userId);
+
+  const renderView = (view: api.SavedView) => (
+    <DropdownMenuItem
+      key={view.id}
+      onSelect={() => {
+        setSelectedId(view.id);
+        apply(view.config);
+      }}
+    >
+      <Check className={`mr-2 h-4 w-4 ${selected?.id === view.id ? "opacity-100" : "opacity-0"}`} />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.shared && <Users className="ml-2 h-3 w-3 text-muted-foreground" />}
+      {view.is_default && <Star className="ml-1 h-3 w-3 fill-current text-amber-500" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className={className} data-testid={`button-saved-views-${list}`}>
+            <Bookmark className="mr-1 h-4 w-4" />
+            <span className="max-w-[10rem] truncate">{selected ? selected.name : "Vistas"}</span>
+            {isModified && <span className="ml-1 text-muted-foreground">*</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-[70vh] w-64 overflow-y-auto">
+          <DropdownMenuLabel>Mis vistas</DropdownMenuLabel>
+          {ownViews.length ? (
+            ownViews.map(renderView)
+          ) : (
+            <div className="px-2 py-1.5 text-xs text-muted-foreground">Aún no has guardado ninguna</div>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Compartidas por el equipo</DropdownMenuLabel>
+              {sharedViews.map(renderView)}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog}>
+            <Save className="mr-2 h-4 w-4" />
+            Guardar vista actual…
+          </DropdownMenuItem>
+          {ownSelected && isModified && (
+            <DropdownMenuItem onSelect={() => updateMutation.mutate({ id: ownSelected.id, config: current })}>
+              <Save className="mr-2 h-4 w-4" />
+              Guardar cambios en «{ownSelected.name}»
+            </DropdownMenuItem>
+          )}
+          {selected && (
+            <DropdownMenuItem onSelect={() => defaultMutation.mutate(selected.is_default ? null : selected.id)}>
+              {selected.is_default ? <StarOff className="mr-2 h-4 w-4" /> : <Star className="mr-2 h-4 w-4" />}
+              {selected.is_default ? "Quitar como vista por defecto" : "Usar como vista por defecto"}
+            </DropdownMenuItem>
+          )}
+          {ownSelected && (
+            <DropdownMenuItem
+              className="text-destructive focus:text-destructive"
+              onSelect={() => deleteMutation.mutate(ownSelected.id)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Eliminar «{ownSelected.name}»
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onSelect={() => {
+              setSelectedId(null);
+              apply(EMPTY_VIEW_CONFIG);
+            }}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Quitar filtros y orden
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Guardar vista</DialogTitle>
+            <DialogDescription>Guarda los filtros, el orden, las columnas y la agrupación actuales.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`saved-view-name-${list}`}>Nombre</Label>
+              <Input
+                id={`saved-view-name-${list}`}
+                value={draftName}
+                onChange={(event) => setDraftName(event.target.value)}
+                placeholder="Ej. Calientes de este trimestre"
+                autoFocus
+                required
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor={`saved-view-shared-${list}`} className="font-normal">
+                Compartir con el equipo
+              </Label>
+              <Switch id={`saved-view-shared-${list}`} checked={draftShared} onCheckedChange={setDraftShared} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={!draftName.trim() || createMutation.isPending}>
+                Guardar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
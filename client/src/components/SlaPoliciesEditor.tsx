@@ -0,0 +1,245 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import {
+  DEFAULT_SLA_POLICY,
+  resolveSlaPolicy,
+  SLA_ESCALATION_STEP_LABELS,
+  SLA_POLICY_FIELDS,
+  type SlaPolicy,
+  type SlaPolicyInput,
+  type SlaPolicyScope,
+} from "@shared/slaPolicies";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useDealsQuery } from "@/hooks/useCrmQueries";
+import { usePipeline } from "@/hooks/usePipeline";
+import { useSlaPolicies } from "@/hooks/useSlaPolicies";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+interface SlaPoliciesEditorProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function formatEscalationDate(iso: string) {
+  return new Date(iso).toLocaleString("es-ES", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Políticas de SLA: la general y las de cada etapa, y el registro de
+ * escalados de los deals fuera de SLA. Para managers y en modo API.
+ */
+export default function SlaPoliciesEditor({ open, onClose }: SlaPoliciesEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { policies } = useSlaPolicies();
+  const { pipelines, allStages } = usePipeline();
+  const [newStageId, setNewStageId] = useState("");
+
+  const general = policies.find((policy) => policy.stage_id === null);
+  const stagePolicies = policies.filter((policy) => policy.stage_id !== null);
+  const inherited = resolveSlaPolicy(general ? [general] : []);
+
+  const stageLabel = (stageId: string) => {
+    const stage = allStages.find((candidate) => candidate.id === stageId);
+    if (!stage) return "Etapa eliminada";
+    const pipeline = pipelines.find((candidate) => candidate.id === stage.pipeline_id);
+    return pipelines.length > 1 && pipeline ? `${pipeline.name} · ${stage.name}` : stage.name;
+  };
+  const freeStages = allStages.filter(
+    (stage) => stage.is_active && !stagePolicies.some((policy) => policy.stage_id === stage.id),
+  );
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar la política",
+      variant: "destructive",
+    });
+  };
+  const saveMutation = useMutation({
+    mutationFn: api.saveSlaPolicy,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEYS.slaPolicies }),
+    onError,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: api.deleteSlaPolicy,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUERY_KEYS.slaPolicies }),
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Políticas de SLA</DialogTitle>
+          <DialogDescription>
+            Días sin actividad que tolera cada prioridad, umbrales de riesgo y escalado de los deals fuera de SLA:
+            primero se avisa al owner, luego a su manager y por último se crea una tarea. Los campos vacíos heredan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <PolicyCard
+            key={`general-${JSON.stringify(general ?? null)}`}
+            title="Política general"
+            scope={general ?? { stage_id: null }}
+            inherited={DEFAULT_SLA_POLICY}
+            saving={saveMutation.isPending}
+            onSave={(input) => saveMutation.mutate(input)}
+          />
+
+          {stagePolicies.map((policy) => (
+            <PolicyCard
+              key={JSON.stringify(policy)}
+              title={stageLabel(policy.stage_id!)}
+              scope={policy}
+              inherited={inherited}
+              saving={saveMutation.isPending}
+              onSave={(input) => saveMutation.mutate(input)}
+              onDelete={() => deleteMutation.mutate(policy.id)}
+            />
+          ))}
+
+          {freeStages.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Select value={newStageId} onValueChange={setNewStageId}>
+                <SelectTrigger className="w-64" aria-label="Etapa">
+                  <SelectValue placeholder="Política para una etapa…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {freeStages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stageLabel(stage.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!newStageId || saveMutation.isPending}
+                onClick={() => {
+                  // Una etapa nueva empieza con el SLA Hot de la general: sin ningún valor no se guardaría
+                  saveMutation.mutate({ stage_id: newStageId, sla_hot_days: inherited.sla_hot_days });
+                  setNewStageId("");
+                }}
+              >
+                Añadir
+              </Button>
+            </div>
+          )}
+
+          <EscalationsLog enabled={open} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PolicyCardProps {
+  title: string;
+  scope: SlaPolicyScope;
+  /** Lo que hereda cada campo vacío. */
+  inherited: SlaPolicy;
+  saving: boolean;
+  onSave: (input: SlaPolicyInput) => void;
+  onDelete?: () => void;
+}
+
+function PolicyCard({ title, scope, inherited, saving, onSave, onDelete }: PolicyCardProps) {
+  const [values, setValues] = useState(() =>
+    Object.fromEntries(SLA_POLICY_FIELDS.map((field) => [field.key, scope[field.key]?.toString() ?? ""])),
+  );
+  const dirty = SLA_POLICY_FIELDS.some((field) => values[field.key] !== (scope[field.key]?.toString() ?? ""));
+
+  const handleSave = () => {
+    onSave({
+      stage_id: scope.stage_id,
+      ...Object.fromEntries(
+        SLA_POLICY_FIELDS.map((field) => [field.key, values[field.key] === "" ? null : Number(values[field.key])]),
+      ),
+    });
+  };
+
+  return (
+    <div
+      className="space-y-3 rounded-lg border border-border p-3"
+      data-testid={`sla-policy-${scope.stage_id ?? "general"}`}
+    >
+      <div className="flex items-center gap-2">
+        <p className="flex-1 font-medium">{title}</p>
+        {onDelete && (
+          <Button variant="ghost" size="icon" onClick={onDelete} aria-label={`Quitar la política de ${title}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {SLA_POLICY_FIELDS.map((field) => (
+          <label key={field.key} className="flex flex-col gap-1 text-xs text-muted-foreground">
+            {field.label}
+            <Input
+              type="number"
+              className="w-40"
+              min={field.min}
+              max={field.max}
+              placeholder={String(inherited[field.key])}
+              value={values[field.key]}
+              onChange={(event) => setValues((current) => ({ ...current, [field.key]: event.target.value }))}
+            />
+          </label>
+        ))}
+      </div>
+      {dirty && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            Guardar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EscalationsLog({ enabled }: { enabled: boolean }) {
+  const { data: escalations = [], isLoading } = useQuery({
+    queryKey: QUERY_KEYS.slaEscalations,
+    queryFn: () => api.getSlaEscalations(),
+    enabled,
+  });
+  const { data: deals = [] } = useDealsQuery();
+  const titles = useMemo(() => new Map(deals.map((deal) => [deal.id, deal.title])), [deals]);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium">Escalados recientes</h3>
+      {!isLoading && escalations.length === 0 && (
+        <p className="py-2 text-center text-sm text-muted-foreground">Ningún deal ha salido de SLA todavía.</p>
+      )}
+      {escalations.map((escalation) => (
+        <div
+          key={escalation.id}
+          className="flex items-center gap-2 rounded-lg border border-border p-2 text-sm"
+          data-testid={`sla-escalation-${escalation.id}`}
+        >
+          <Badge variant={escalation.step === "task" ? "destructive" : "secondary"}>
+            {SLA_ESCALATION_STEP_LABELS[escalation.step]}
+          </Badge>
+          <span className="flex-1 truncate">{titles.get(escalation.deal_id) ?? escalation.deal_id}</span>
+          <span className="text-xs text-muted-foreground">
+            {escalation.breach_days} día{escalation.breach_days === 1 ? "" : "s"} fuera de SLA
+          </span>
+          <span className="text-xs text-muted-foreground">{formatEscalationDate(escalation.created_at)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Loader2 } from "lucide-react";
+import type { FunnelReport } from "@shared/funnel";
+
+import Card from "@/components/Card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+/** Radix Select no admite "" como valor. */
+export const ALL_FILTER = "all";
+
+export const FUNNEL_WINDOWS = [30, 90, 180, 365] as const;
+
+export interface FunnelFilters {
+  windowDays: (typeof FUNNEL_WINDOWS)[number];
+  cohort: string;
+  ownerId: string;
+}
+
+interface StageFunnelCardProps {
+  report?: FunnelReport | null;
+  isLoading?: boolean;
+  filters: FunnelFilters;
+  onFiltersChange: (filters: FunnelFilters) => void;
+  /** Meses de creación disponibles ("2024-03"), del más reciente al más antiguo. */
+  cohorts: string[];
+  owners: { id: string; name: string }[];
+  className?: string;
+}
+
+const PERCENT_FORMATTER = new Intl.NumberFormat("es-ES", { style: "percent", maximumFractionDigits: 0 });
+const MONTH_FORMATTER = new Intl.DateTimeFormat("es-ES", { month: "long", year: "numeric", timeZone: "UTC" });
+
+const TRIGGER_CLASS = "h-9 bg-white/5 text-white focus:ring-white/30 sm:w-44";
+
+function formatCohort(cohort: string) {
+  return MONTH_FORMATTER.format(new Date(`${cohort}-01T00:00:00Z`));
+}
+
+/** Entradas, salidas y conversión por etapa según las transiciones reales de la ventana. */
+export default function StageFunnelCard({
+  report,
+  isLoading,
+  filters,
+  onFiltersChange,
+  cohorts,
+  owners,
+  className,
+}: StageFunnelCardProps) {
+  const rows = report?.stages ?? [];
+  const hasData = rows.some((row) => row.entered > 0 || row.exited > 0);
+
+  return (
+    <Card className={className}>
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-start lg:justify-between">
+        <div>
+          <h3 className="flex items-center gap-2 text-base font-semibold text-white">
+            Funnel histórico
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-white/60" />}
+          </h3>
+          <p className="text-xs text-white/60">
+            Deals que entraron, salieron y avanzaron en cada etapa según sus cambios reales de etapa.
+          </p>
+        </div>
+        <div className="flex flex-col gap-2 sm:flex-row" data-testid="funnel-filters">
+          <Select
+            value={String(filters.windowDays)}
+            onValueChange={(value) =>
+              onFiltersChange({ ...filters, windowDays: Number(value) as FunnelFilters["windowDays"] })
+            }
+          >
+            <SelectTrigger className={TRIGGER_CLASS} data-testid="select-funnel-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FUNNEL_WINDOWS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  Últimos {days} días
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.cohort} onValueChange={(cohort) => onFiltersChange({ ...filters, cohort })}>
+            <SelectTrigger className={TRIGGER_CLASS} data-testid="select-funnel-cohort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FILTER}>Todas las cohortes</SelectItem>
+              {cohorts.map((cohort) => (
+                <SelectItem key={cohort} value={cohort}>
+                  Creados en {formatCohort(cohort)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.ownerId} onValueChange={(ownerId) => onFiltersChange({ ...filters, ownerId })}>
+            <SelectTrigger className={TRIGGER_CLASS} data-testid="select-funnel-owner">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FILTER}>Todos los owners</SelectItem>
+              {owners.map((owner) => (
+                <SelectItem key={owner.id} value={owner.id}>
+                  {owner.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="mt-6 h-64">
+        {hasData ? (
+          <ResponsiveContainer>
+            <BarChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
+              <XAxis dataKey="stage" stroke="#CBD5F5" tick={{ fill: "#CBD5F5", fontSize: 12 }} />
+              <YAxis stroke="#CBD5F5" tick={{ fill: "#CBD5F5", fontSize: 12 }} allowDecimals={false} />
+              <RechartsTooltip
+                cursor={{ fill: "rgba(148,163,215,0.08)" }}
+                contentStyle={{
+                  background: "rgba(15,23,42,0.95)",
+                  border: "1px solid rgba(148,163,215,0.24)",
+                  borderRadius: "12px",
+                  color: "#E2E8F0",
+                }}
+                labelFormatter={(label) => `Etapa: ${label}`}
+              />
+              <Legend wrapperStyle={{ color: "#CBD5F5", fontSize: 12 }} />
+              <Bar dataKey="entered" name="Entraron" fill="#60A5FA" radius={[10, 10, 0, 0]} />
+              <Bar dataKey="converted" name="Avanzaron" fill="#34D399" radius={[10, 10, 0, 0]} />
+              <Bar dataKey="lost" name="Perdidos" fill="#F87171" radius={[10, 10, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="flex h-full items-center justify-center rounded-xl border border-dashed border-white/10 bg-white/5 text-sm text-white/60">
+            {isLoading ? "Calculando funnel…" : "No hay movimientos de etapa en este periodo."}
+          </div>
+        )}
+      </div>
+
+      {hasData && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm text-white/80" data-testid="table-funnel">
+            <thead className="text-xs uppercase text-white/50">
+              <tr>
+                <th className="px-3 py-2 font-medium">Etapa</th>
+                <th className="px-3 py-2 font-medium">Entraron</th>
+                <th className="px-3 py-2 font-medium">Salieron</th>
+                <th className="px-3 py-2 font-medium">Avanzaron</th>
+                <th className="px-3 py-2 font-medium">Conversión</th>
+                <th className="px-3 py-2 font-medium">Mediana</th>
+                <th className="px-3 py-2 font-medium">Motivos de pérdida</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.stage} className="border-t border-white/10">
+                  <td className="px-3 py-2 text-white">{row.stage}</td>
+                  <td className="px-3 py-2">{row.entered}</td>
+                  <td className="px-3 py-2">{row.exited}</td>
+                  <td className="px-3 py-2">{row.converted}</td>
+                  <td className="px-3 py-2">
+                    {row.conversion_rate === null ? "—" : PERCENT_FORMATTER.format(row.conversion_rate)}
+                  </td>
+                  <td className="px-3 py-2">{row.median_days === null ? "—" : `${row.median_days} días`}</td>
+                  <td className="px-3 py-2 text-xs text-white/70">
+                    {row.drop_off_reasons.length
+                      ? row.drop_off_reasons.map(({ reason, count }) => `${reason} (${count})`).join(", ")
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
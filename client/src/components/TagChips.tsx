@@ -0,0 +1,48 @@
+import { resolveRecordTags, type TagDefinition } from "@shared/tags";
+import { cn } from "@/lib/utils";
+
+interface TagChipsProps {
+  tagIds: readonly string[] | null | undefined;
+  tags: readonly TagDefinition[];
+  /** Chips visibles; el resto se resume en "+N". */
+  max?: number;
+  className?: string;
+}
+
+const CHIP_CLASS = "inline-flex items-center rounded-full border px-2 py-0.5 text-[11px]";
+
+/** Color de fondo suave a partir del color de la etiqueta (#RRGGBB + alfa). */
+export function tagChipStyle(color: string) {
+  return { color, borderColor: `${color}66`, backgroundColor: `${color}1A` };
+}
+
+/** Etiquetas del registro como chips de color; sin ninguna no pinta nada. */
+export default function TagChips({ tagIds, tags, max, className }: TagChipsProps) {
+  const resolved = resolveRecordTags(tagIds, tags);
+  if (!resolved.length) return null;
+  const visible = max === undefined ? resolved : resolved.slice(0, max);
+  const hidden = resolved.length - visible.length;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)} data-testid="tag-chips">
+      {visible.map((tag) => (
+        <span
+          key={tag.id}
+          className={cn(CHIP_CLASS, "max-w-[10rem] truncate font-medium")}
+          style={tagChipStyle(tag.color)}
+          title={tag.name}
+        >
+          {tag.name}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span
+          className={cn(CHIP_CLASS, "border-border text-muted-foreground")}
+          title={resolved.slice(visible.length).map((tag) => tag.name).join(", ")}
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Tag as TagIcon } from "lucide-react";
+import type { TagDefinition } from "@shared/tags";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+interface TagFilterProps {
+  tags: readonly TagDefinition[];
+  /** Id de la etiqueta (parámetro `tag` de la URL); "" sin filtro. */
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+const ALL = "all";
+
+/** Filtro efectivo: el id de la URL solo cuenta si la etiqueta sigue existiendo. */
+export function activeTagFilter(value: string, tags: readonly TagDefinition[]): string | undefined {
+  return tags.some((tag) => tag.id === value) ? value : undefined;
+}
+
+/** Filtro de un listado por etiqueta. Sin etiquetas definidas no pinta nada. */
+export default function TagFilter({ tags, value, onChange, className }: TagFilterProps) {
+  if (!tags.length) return null;
+  // Una etiqueta borrada ya no filtra (ver `activeTagFilter`)
+  const current = activeTagFilter(value, tags) ?? ALL;
+
+  return (
+    <Select value={current} onValueChange={(next) => onChange(next === ALL ? "" : next)}>
+      <SelectTrigger className={cn("w-full", className)} data-testid="select-tag-filter">
+        <TagIcon className="h-4 w-4 mr-2" />
+        <SelectValue placeholder="Etiqueta" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>Todas las etiquetas</SelectItem>
+        {tags.map((tag) => (
+          <SelectItem key={tag.id} value={tag.id}>
+            <span className="inline-flex items-center gap-2">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+              {tag.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { DEFAULT_TAG_COLOR, MAX_TAG_NAME, TAG_COLORS } from "@shared/tags";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useTags } from "@/hooks/useTags";
+import { useToast } from "@/hooks/use-toast";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import { cn } from "@/lib/utils";
+
+interface TagManagerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Alta, renombrado, color y borrado de las etiquetas de deals, contactos,
+ * empresas y tareas. Para Manager y Admin en modo API.
+ */
+export default function TagManager({ open, onClose }: TagManagerProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { tags } = useTags();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<string>(DEFAULT_TAG_COLOR);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.tags });
+    // Borrar una etiqueta la quita de los registros
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.companies });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.tasks });
+  };
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo guardar la etiqueta",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: api.createTag,
+    onSuccess: () => {
+      setName("");
+      onSuccess();
+    },
+    onError,
+  });
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...patch }: { id: string } & Partial<api.TagInput>) => api.updateTag(id, patch),
+    onSuccess,
+    onError,
+  });
+  const deleteMutation = useMutation({ mutationFn: api.deleteTag, onSuccess, onError });
+
+  const handleAdd = () => {
+    const trimmed = name.trim();
+    if (trimmed) createMutation.mutate({ name: trimmed, color });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Etiquetas</DialogTitle>
+          <DialogDescription>
+            Sirven para deals, contactos, empresas y tareas. Borrar una etiqueta la quita de todos los registros.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {tags.length === 0 && (
+            <p className="py-2 text-center text-sm text-muted-foreground">Aún no hay etiquetas.</p>
+          )}
+          {tags.map((tag) => (
+            <TagRow
+              key={`${tag.id}-${tag.updated_at}`}
+              tag={tag}
+              onChange={(patch) => updateMutation.mutate({ id: tag.id, ...patch })}
+              onDelete={() => deleteMutation.mutate(tag.id)}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-2 rounded-lg border border-border p-3">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              onKeyDown={(event) => event.key === "Enter" && handleAdd()}
+              maxLength={MAX_TAG_NAME}
+              placeholder="Nueva etiqueta (p. ej. evento-2026)"
+              data-testid="input-new-tag"
+            />
+            <Button onClick={handleAdd} disabled={!name.trim() || createMutation.isPending}>
+              <Plus className="mr-1 h-4 w-4" />
+              Añadir
+            </Button>
+          </div>
+          <ColorPalette value={color} onChange={setColor} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ColorPalette({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Color">
+      {TAG_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value.toUpperCase() === color}
+          aria-label={color}
+          onClick={() => onChange(color)}
+          className={cn(
+            "h-5 w-5 rounded-full border-2 transition",
+            value.toUpperCase() === color ? "border-foreground" : "border-transparent hover:scale-110",
+          )}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface TagRowProps {
+  tag: api.Tag;
+  onChange: (patch: Partial<api.TagInput>) => void;
+  onDelete: () => void;
+}
+
+// Como en los campos personalizados, el nombre se guarda al salir del input
+function TagRow({ tag, onChange, onDelete }: TagRowProps) {
+  const [name, setName] = useState(tag.name);
+  const [confirming, setConfirming] = useState(false);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== tag.name) onChange({ name: trimmed });
+    else setName(tag.name);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-2" data-testid={`tag-row-${tag.id}`}>
+      <div className="flex items-center gap-2">
+        <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: tag.color }} />
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          onBlur={commitName}
+          maxLength={MAX_TAG_NAME}
+          className="flex-1"
+          aria-label={`Nombre de ${tag.name}`}
+        />
+        {confirming ? (
+          <>
+            <Button variant="destructive" size="sm" onClick={onDelete}>
+              Borrar
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+              No
+            </Button>
+          </>
+        ) : (
+          <Button variant="ghost" size="icon" onClick={() => setConfirming(true)} aria-label="Borrar etiqueta">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <ColorPalette
+        value={tag.color}
+        onChange={(color) => color !== tag.color.toUpperCase() && onChange({ color })}
+      />
+    </div>
+  );
+}
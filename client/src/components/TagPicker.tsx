@@ -0,0 +1,70 @@
+import { X } from "lucide-react";
+import { MAX_TAGS_PER_RECORD, addTagId, removeTagId, resolveRecordTags, type TagDefinition } from "@shared/tags";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { tagChipStyle } from "@/components/TagChips";
+
+interface TagPickerProps {
+  tags: readonly TagDefinition[];
+  value: readonly string[];
+  onChange: (value: string[]) => void;
+}
+
+// El desplegable vuelve siempre a su texto tras elegir una etiqueta
+const PLACEHOLDER = "__add";
+
+/**
+ * Etiquetas del registro en los formularios: chips con su botón para quitar y
+ * un desplegable con las que faltan. Sin etiquetas definidas no pinta nada.
+ */
+export default function TagPicker({ tags, value, onChange }: TagPickerProps) {
+  if (!tags.length) return null;
+  const selected = resolveRecordTags(value, tags);
+  const available = tags.filter((tag) => !value.includes(tag.id));
+  const isFull = selected.length >= MAX_TAGS_PER_RECORD;
+
+  return (
+    <div data-testid="tag-picker">
+      <label className="text-sm font-medium text-card-foreground block mb-2">Etiquetas</label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {selected.map((tag) => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium"
+            style={tagChipStyle(tag.color)}
+          >
+            {tag.name}
+            <button
+              type="button"
+              onClick={() => onChange(removeTagId(value, tag.id))}
+              className="rounded-full hover:opacity-70"
+              aria-label={`Quitar ${tag.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {available.length > 0 && !isFull && (
+          <Select value={PLACEHOLDER} onValueChange={(id) => id !== PLACEHOLDER && onChange(addTagId(value, id))}>
+            <SelectTrigger className="h-7 w-auto gap-1 text-xs" data-testid="select-add-tag">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PLACEHOLDER} disabled>
+                Añadir etiqueta
+              </SelectItem>
+              {available.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>
+                  <span className="inline-flex items-center gap-2">
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { markTaskDone, updateTask, deleteTask } from "@/lib/db";
+import { IS_API_MODE, markTaskDone, updateTask, deleteTask } from "@/lib/db";
+import { useBulkSelection } from "@/hooks/useBulkSelection";
 import { useToast } from "@/hooks/use-toast";
 import type { Task } from "@/lib/types";
 import { QUERY_KEYS } from "@/lib/queryKeys";
@@ -14,24 +15,33 @@ import {
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Edit2, Trash2 } from "lucide-react";
+import { diffTagIds, type TagDefinition } from "@shared/tags";
+import BulkActionsBar, { SelectAllCheckbox, SelectRowCheckbox } from "./BulkActionsBar";
+import TagChips from "./TagChips";
+import TagPicker from "./TagPicker";
 
 interface TaskListProps {
   tasks: Task[];
+  tags?: readonly TagDefinition[];
 }
 
-export default function TaskList({ tasks }: TaskListProps) {
+export default function TaskList({ tasks, tags = [] }: TaskListProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
+  const taskIds = useMemo(() => tasks.map((task) => task.id), [tasks]);
+  const selection = useBulkSelection(taskIds);
+  const taskLabel = (id: string) => tasks.find((task) => task.id === id)?.title ?? id;
   const [editForm, setEditForm] = useState({
     title: "",
     due_at: "",
     state: "To Do" as Task["state"],
     priority: "Media" as Task["priority"],
   });
+  const [tagDraft, setTagDraft] = useState<string[]>([]);
 
   const markDoneMutation = useMutation({
     mutationFn: ({ id, done }: { id: string; done: boolean }) =>
@@ -124,6 +134,7 @@ export default function TaskList({ tasks }: TaskListProps) {
       state: task.state,
       priority: task.priority,
     });
+    setTagDraft(task.tag_ids ?? []);
     setIsEditModalOpen(true);
   };
 
@@ -138,6 +149,7 @@ export default function TaskList({ tasks }: TaskListProps) {
         due_at: editForm.due_at ? new Date(editForm.due_at).toISOString() : undefined,
         state: editForm.state,
         priority: editForm.priority,
+        tag_ids: diffTagIds(editingTask.tag_ids, tagDraft),
       },
     });
   };
@@ -153,11 +165,21 @@ export default function TaskList({ tasks }: TaskListProps) {
 
   return (
     <div className="space-y-3 mt-6">
+      {IS_API_MODE && (
+        <>
+          <label className="flex items-center gap-2 px-3 text-xs text-muted-foreground">
+            <SelectAllCheckbox selection={selection} />
+            Seleccionar todas
+          </label>
+          <BulkActionsBar entity="tasks" selection={selection} recordLabel={taskLabel} />
+        </>
+      )}
       {tasks.map((task) => (
         <div
           key={task.id}
           className="flex items-center space-x-3 p-3 bg-muted/20 rounded-xl hover:bg-muted/40 transition-all"
         >
+          {IS_API_MODE && <SelectRowCheckbox selection={selection} id={task.id} />}
           <input
             type="checkbox"
             checked={task.state === "Done"}
@@ -182,6 +204,7 @@ export default function TaskList({ tasks }: TaskListProps) {
               <span className={`px-2 py-0.5 text-xs font-medium rounded ${getPriorityColor(task.priority)}`}>
                 {task.priority}
               </span>
+              <TagChips tagIds={task.tag_ids} tags={tags} max={2} />
             </div>
           </div>
           <div className="flex items-center gap-1">
@@ -279,6 +302,7 @@ export default function TaskList({ tasks }: TaskListProps) {
                   </Select>
                 </div>
               </div>
+              <TagPicker tags={tags} value={tagDraft} onChange={setTagDraft} />
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="ghost" onClick={() => setIsEditModalOpen(false)}>
                   Cancelar
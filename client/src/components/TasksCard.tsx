@@ -1,8 +1,19 @@
+import { useMemo, useState } from "react";
+import { Download } from "lucide-react";
+import { matchesTaskFilters, type TaskListFilters } from "@shared/exports";
 import Card from "@/components/Card";
+import ExportDialog from "@/components/ExportDialog";
 import TaskQuickAdd from "@/components/TaskQuickAdd";
 import TaskList from "@/components/TaskList";
+import TagFilter, { activeTagFilter } from "@/components/TagFilter";
 import Skeleton from "@/components/Skeleton";
-import type { Task } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSearchParamState } from "@/hooks/useSearchParamState";
+import { useTags } from "@/hooks/useTags";
+import type { Task, TaskState } from "@/lib/types";
+
+const STATE_FILTERS: Array<"all" | TaskState> = ["all", "To Do", "Doing", "Waiting", "Done"];
 
 interface TasksCardProps {
   tasks: Task[];
@@ -11,6 +22,19 @@ interface TasksCardProps {
 
 export default function TasksCard({ tasks, isLoading }: TasksCardProps) {
   const activeTasks = tasks.filter(task => task.state !== 'Done');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // `?state=Doing` enlaza la lista ya filtrada
+  const [stateFilter, setStateFilter] = useSearchParamState("state", "all", STATE_FILTERS);
+  const [tagFilter, setTagFilter] = useSearchParamState("tag", "");
+  const { tags } = useTags();
+  const filters = useMemo<TaskListFilters>(
+    () => ({
+      state: stateFilter === "all" ? undefined : stateFilter,
+      tag: activeTagFilter(tagFilter, tags),
+    }),
+    [stateFilter, tagFilter, tags],
+  );
+  const visibleTasks = useMemo(() => tasks.filter((task) => matchesTaskFilters(task, filters)), [tasks, filters]);
 
   return (
     <Card>
@@ -27,9 +51,28 @@ export default function TasksCard({ tasks, isLoading }: TasksCardProps) {
         {isLoading ? (
           <Skeleton className="h-6 w-16" />
         ) : (
-          <span className="px-2 py-1 text-xs font-medium bg-primary/10 text-primary rounded-md">
-            {activeTasks.length} activas
-          </span>
+          <div className="flex items-center gap-2">
+            <Select value={stateFilter} onValueChange={setStateFilter}>
+              <SelectTrigger className="h-8 w-32" data-testid="select-task-state-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATE_FILTERS.map((state) => (
+                  <SelectItem key={state} value={state}>
+                    {state === "all" ? "Todas" : state}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <TagFilter tags={tags} value={tagFilter} onChange={setTagFilter} className="h-8 w-40" />
+            <span className="px-2 py-1 text-xs font-medium bg-primary/10 text-primary rounded-md">
+              {activeTasks.length} activas
+            </span>
+            <Button size="sm" variant="outline" onClick={() => setIsExportOpen(true)}>
+              <Download className="mr-1 h-4 w-4" />
+              Exportar
+            </Button>
+          </div>
         )}
       </div>
       
@@ -42,8 +85,15 @@ export default function TasksCard({ tasks, isLoading }: TasksCardProps) {
           ))}
         </div>
       ) : (
-        <TaskList tasks={tasks} />
+        <TaskList tasks={visibleTasks} tags={tags} />
       )}
+      <ExportDialog
+        open={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        entity="tasks"
+        filters={filters}
+        records={visibleTasks}
+      />
     </Card>
   );
 }
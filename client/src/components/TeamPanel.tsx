@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ShieldCheck } from "lucide-react";
+import { ROLES } from "@shared/permissions";
+
+import Card from "@/components/Card";
+import Skeleton from "@/components/Skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { getUserDisplayName } from "@/hooks/useCurrentUser";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { User } from "@/lib/types";
+
+// Radix Select no admite "" como valor
+const NO_MANAGER = "none";
+
+/** Miembros visibles (Admin: todos; Manager: su equipo). Solo el Admin edita rol y manager. */
+export default function TeamPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("users:manage");
+
+  const { data: users = [], isLoading } = useQuery<User[]>({
+    queryKey: QUERY_KEYS.users,
+    queryFn: api.getUsers,
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: ({ id, ...patch }: { id: string } & Parameters<typeof api.updateUser>[1]) => api.updateUser(id, patch),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.users });
+      // El alcance de deals y contactos depende del equipo
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
+      toast({ title: "Usuario actualizado", description: "Los permisos se aplican en la próxima petición" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo actualizar el usuario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const managers = users.filter((user) => user.role === "Manager" || user.role === "Admin");
+  const nameById = new Map(users.map((user) => [user.id, getUserDisplayName(user)]));
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <Card className="bg-white/5">
+      <div className="mb-4 flex items-center gap-2">
+        <ShieldCheck className="h-5 w-5 text-blue-300" />
+        <h3 className="text-lg font-semibold text-white">Equipo</h3>
+        <span className="text-sm text-white/60">{users.length} miembros</span>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Nombre</TableHead>
+            <TableHead>Usuario</TableHead>
+            <TableHead>Rol</TableHead>
+            <TableHead>Manager</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.map((user) => (
+            <TableRow key={user.id}>
+              <TableCell className="font-medium">{getUserDisplayName(user)}</TableCell>
+              <TableCell className="text-sm text-muted-foreground">{user.username}</TableCell>
+              <TableCell>
+                {canManage ? (
+                  <Select
+                    value={user.role}
+                    onValueChange={(role) => updateUserMutation.mutate({ id: user.id, role })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  user.role
+                )}
+              </TableCell>
+              <TableCell>
+                {canManage ? (
+                  <Select
+                    value={user.manager_id ?? NO_MANAGER}
+                    onValueChange={(value) =>
+                      updateUserMutation.mutate({ id: user.id, manager_id: value === NO_MANAGER ? null : value })
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_MANAGER}>Sin manager</SelectItem>
+                      {managers
+                        .filter((manager) => manager.id !== user.id)
+                        .map((manager) => (
+                          <SelectItem key={manager.id} value={manager.id}>
+                            {getUserDisplayName(manager)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  (user.manager_id && nameById.get(user.manager_id)) || "-"
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import Card from "@/components/Card";
 import { Button } from "@/components/ui/button";
 import type { Deal, Task } from "@/lib/types";
+import { useDealPolicyContext } from "@/hooks/useSlaPolicies";
 import { computeDealAttention } from "@/lib/pipelineInsights";
 
 interface UpcomingActionsCardProps {
@@ -35,7 +36,8 @@ export default function UpcomingActionsCard({
   isTasksLoading,
   onViewPipeline,
 }: UpcomingActionsCardProps) {
-  const attention = computeDealAttention(deals);
+  const policyContext = useDealPolicyContext();
+  const attention = computeDealAttention(deals, policyContext);
 
   const urgentDeals = attention
     .slice(0, 3)
@@ -0,0 +1,56 @@
+import { useCallback, useMemo, useState } from "react";
+
+export interface BulkSelection {
+  /** Seleccionados que siguen a la vista, en el orden del listado. */
+  selectedIds: string[];
+  count: number;
+  isSelected: (id: string) => boolean;
+  toggle: (id: string, checked: boolean) => void;
+  /** Marca o desmarca todos los registros filtrados, no solo los de la página. */
+  toggleAll: (checked: boolean) => void;
+  allSelected: boolean;
+  someSelected: boolean;
+  clear: () => void;
+}
+
+/**
+ * Selección múltiple de un listado. Al cambiar los filtros solo cuentan los
+ * registros que siguen visibles: una acción en bloque nunca toca lo que no se ve.
+ */
+export function useBulkSelection(visibleIds: string[]): BulkSelection {
+  const [selected, setSelected] = useState<Record<string, true>>({});
+
+  const selectedIds = useMemo(() => visibleIds.filter((id) => selected[id]), [visibleIds, selected]);
+
+  const toggle = useCallback((id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = { ...current };
+      if (checked) next[id] = true;
+      else delete next[id];
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(
+    (checked: boolean) => {
+      setSelected(checked ? Object.fromEntries(visibleIds.map((id) => [id, true as const])) : {});
+    },
+    [visibleIds],
+  );
+
+  const clear = useCallback(() => setSelected({}), []);
+
+  return useMemo(
+    () => ({
+      selectedIds,
+      count: selectedIds.length,
+      isSelected: (id: string) => Boolean(selected[id]),
+      toggle,
+      toggleAll,
+      allSelected: visibleIds.length > 0 && selectedIds.length === visibleIds.length,
+      someSelected: selectedIds.length > 0 && selectedIds.length < visibleIds.length,
+      clear,
+    }),
+    [selectedIds, selected, toggle, toggleAll, visibleIds.length, clear],
+  );
+}
@@ -6,11 +6,30 @@ import {
   getHotDeal,
   getStalledDeals,
   getQuickMetrics,
+  getFunnelReport,
   getRecentActivity,
   getDealTimeline,
+  getDealStageTransitions,
+  getPipelines,
+  getPipelineStages,
+  getCompanyRollups,
+  getCompanyOverview,
 } from "@/lib/db";
+import { getCompanies } from "@/lib/companies";
+import type { CompanyOverview, FunnelParams } from "@/lib/api";
 import { QUERY_KEYS } from "@/lib/queryKeys";
-import type { Task, Deal, Contact, TimelineEntry } from "@/lib/types";
+import type { CompanyDealRollup } from "@shared/companyRollups";
+import type { FunnelReport } from "@shared/funnel";
+import type {
+  Task,
+  Deal,
+  Company,
+  Contact,
+  TimelineEntry,
+  Pipeline,
+  PipelineStage,
+  DealStageTransition,
+} from "@/lib/types";
 
 export interface QuickMetrics {
   open: number;
@@ -49,6 +68,59 @@ export function useContactsQuery(config?: QueryConfig<Contact[], typeof QUERY_KE
   });
 }
 
+export function useCompaniesQuery(config?: QueryConfig<Company[], typeof QUERY_KEYS.companies>) {
+  return useQuery<Company[], unknown, Company[], typeof QUERY_KEYS.companies>({
+    queryKey: QUERY_KEYS.companies,
+    queryFn: getCompanies,
+    ...config,
+  });
+}
+
+export function useCompanyRollupsQuery(
+  config?: QueryConfig<CompanyDealRollup[], typeof QUERY_KEYS.companyRollups>,
+) {
+  return useQuery<CompanyDealRollup[], unknown, CompanyDealRollup[], typeof QUERY_KEYS.companyRollups>({
+    queryKey: QUERY_KEYS.companyRollups,
+    queryFn: getCompanyRollups,
+    ...config,
+  });
+}
+
+type CompanyOverviewKey = readonly [string, string, string | undefined];
+
+export function useCompanyOverviewQuery(
+  companyId: string | undefined,
+  config?: QueryConfig<CompanyOverview, CompanyOverviewKey>,
+) {
+  return useQuery<CompanyOverview, unknown, CompanyOverview, CompanyOverviewKey>({
+    queryKey: [...QUERY_KEYS.companyOverview, companyId] as const,
+    queryFn: () => getCompanyOverview(companyId!),
+    enabled: !!companyId,
+    ...config,
+  });
+}
+
+export function usePipelinesQuery(config?: QueryConfig<Pipeline[], typeof QUERY_KEYS.pipelines>) {
+  return useQuery<Pipeline[], unknown, Pipeline[], typeof QUERY_KEYS.pipelines>({
+    queryKey: QUERY_KEYS.pipelines,
+    queryFn: getPipelines,
+    staleTime: 60_000,
+    ...config,
+  });
+}
+
+/** Etapas de todos los pipelines (activas e inactivas), ordenadas por `order_index` dentro de cada uno. */
+export function usePipelineStagesQuery(
+  config?: QueryConfig<PipelineStage[], typeof QUERY_KEYS.pipelineStages>,
+) {
+  return useQuery<PipelineStage[], unknown, PipelineStage[], typeof QUERY_KEYS.pipelineStages>({
+    queryKey: QUERY_KEYS.pipelineStages,
+    queryFn: getPipelineStages,
+    staleTime: 60_000,
+    ...config,
+  });
+}
+
 export function useHotDealQuery(config?: QueryConfig<Deal[], typeof QUERY_KEYS.hotDeal>) {
   return useQuery<Deal[], unknown, Deal[], typeof QUERY_KEYS.hotDeal>({
     queryKey: QUERY_KEYS.hotDeal,
@@ -73,6 +145,19 @@ export function useQuickMetricsQuery(config?: QueryConfig<QuickMetrics, typeof Q
   });
 }
 
+/** Funnel histórico; `from`/`to` en ISO. Caduca pronto porque depende de cualquier cambio de etapa. */
+export function useFunnelReportQuery(
+  params: FunnelParams & { from: string; to: string },
+  config?: QueryConfig<FunnelReport, readonly [string, typeof params]>,
+) {
+  return useQuery<FunnelReport, unknown, FunnelReport, readonly [string, typeof params]>({
+    queryKey: [QUERY_KEYS.funnel[0], params] as const,
+    queryFn: () => getFunnelReport(params),
+    staleTime: 60_000,
+    ...config,
+  });
+}
+
 export function useRecentActivityQuery(
   config?: QueryConfig<TimelineEntry[], typeof QUERY_KEYS.timeline>,
 ) {
@@ -96,3 +181,15 @@ export function useDealTimelineQuery(
     ...config,
   });
 }
+
+export function useDealStageTransitionsQuery(
+  dealId: string | undefined,
+  config?: QueryConfig<DealStageTransition[], readonly [string, string | undefined]>,
+) {
+  return useQuery<DealStageTransition[], unknown, DealStageTransition[], readonly [string, string | undefined]>({
+    queryKey: [QUERY_KEYS.dealStageTransitions[0], dealId] as const,
+    queryFn: () => getDealStageTransitions(dealId!),
+    enabled: !!dealId,
+    ...config,
+  });
+}
@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as api from "@/lib/api";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import type { User } from "@/lib/types";
+
+const FALLBACK_DISPLAY_NAME = "Equipo Comercial";
+
+/** Nombre para firmas y cabeceras: nombre completo, usuario o el genérico del equipo. */
+export function getUserDisplayName(user: Pick<User, "full_name" | "username"> | null | undefined): string {
+  return user?.full_name?.trim() || user?.username || FALLBACK_DISPLAY_NAME;
+}
+
+export function useCurrentUser() {
+  const query = useQuery<User | null>({
+    queryKey: QUERY_KEYS.currentUser,
+    queryFn: api.getCurrentUser,
+  });
+
+  const user = query.data ?? null;
+  return {
+    user,
+    userId: user?.id ?? null,
+    displayName: getUserDisplayName(user),
+    isLoading: query.isLoading,
+    isAuthenticated: Boolean(user),
+  };
+}
+
+export function useAuthActions() {
+  const queryClient = useQueryClient();
+
+  const onSignedIn = (user: User) => {
+    queryClient.setQueryData(QUERY_KEYS.currentUser, user);
+  };
+
+  const login = useMutation({ mutationFn: api.login, onSuccess: onSignedIn });
+  const register = useMutation({ mutationFn: api.register, onSuccess: onSignedIn });
+  const logout = useMutation({
+    mutationFn: api.logout,
+    onSuccess: () => {
+      // Nada de la sesión anterior debe quedar en caché
+      queryClient.clear();
+      queryClient.setQueryData(QUERY_KEYS.currentUser, null);
+    },
+  });
+
+  return { login, register, logout };
+}
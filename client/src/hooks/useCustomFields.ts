@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CustomFieldEntity } from "@shared/customFields";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+const NO_FIELDS: api.CustomField[] = [];
+
+/**
+ * Campos personalizados de la entidad en el orden de los formularios. Solo
+ * existen con la API: en modo demo o Supabase la lista está vacía. Con
+ * `null` (entidades sin campos, como las tareas) no se consulta nada.
+ */
+export function useCustomFields(entity: CustomFieldEntity | null) {
+  const { data = NO_FIELDS, isLoading } = useQuery({
+    queryKey: [...QUERY_KEYS.customFields, entity] as const,
+    queryFn: () => api.getCustomFields(entity ?? undefined),
+    enabled: IS_API_MODE && entity !== null,
+    staleTime: 60_000,
+  });
+  return { fields: data, isLoading };
+}
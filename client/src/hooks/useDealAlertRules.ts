@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { resolveDealAlertRules, type DealAlertRuleConfig } from "@shared/dealAlerts";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+const DEFAULT_RULES: DealAlertRuleConfig[] = resolveDealAlertRules();
+
+/**
+ * Reglas de alerta de deals con la configuración de la instalación. Sin API
+ * (modo demo o Supabase) no hay ajustes guardados: se usan las del catálogo.
+ */
+export function useDealAlertRules() {
+  const { data = DEFAULT_RULES, isLoading } = useQuery({
+    queryKey: QUERY_KEYS.dealAlertRules,
+    queryFn: api.getDealAlertRules,
+    enabled: IS_API_MODE,
+    staleTime: 60_000,
+  });
+  return { rules: data, isLoading };
+}
@@ -0,0 +1,59 @@
+import { useCallback, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { DealAlertSensitivity } from "@shared/dealAlerts";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+import type { DealAlert } from "@/lib/pipelineInsights";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import { useCurrentUser } from "./useCurrentUser";
+
+const NO_STATES: api.DealAlertState[] = [];
+
+/**
+ * Si la alerta que ve el cliente está silenciada por su estado guardado:
+ * pospuesta hasta una fecha futura, o resuelta o descartada sin que haya
+ * saltado ninguna regla nueva desde entonces.
+ */
+export function isDealAlertSilenced(alert: DealAlert, state: api.DealAlertState | undefined, now = Date.now()) {
+  if (!state) return false;
+  if (state.status === "snoozed") {
+    return state.snoozed_until !== null && new Date(state.snoozed_until).getTime() > now;
+  }
+  if (state.status === "open") return false;
+  return alert.hits.every((hit) => state.rules.includes(hit.rule));
+}
+
+/**
+ * Estado guardado de las alertas vigentes, por deal. Sin API (modo demo o
+ * Supabase) no hay ninguno: el dashboard las oculta solo durante la sesión.
+ */
+export function useDealAlertStates() {
+  const { data = NO_STATES, isLoading } = useQuery({
+    queryKey: QUERY_KEYS.dealAlertStates,
+    queryFn: api.getDealAlertStates,
+    enabled: IS_API_MODE,
+    staleTime: 60_000,
+  });
+  const byDeal = useMemo(() => new Map(data.map((state) => [state.deal_id, state])), [data]);
+  return { states: data, byDeal, isLoading };
+}
+
+/** Sensibilidad de las alertas del dashboard: preferencia del usuario en modo API, de la sesión sin él. */
+export function useAlertSensitivity() {
+  const queryClient = useQueryClient();
+  const { user } = useCurrentUser();
+  const [local, setLocal] = useState<DealAlertSensitivity>("all");
+  const mutation = useMutation({
+    mutationFn: api.saveAlertSensitivity,
+    onSuccess: (updated) => queryClient.setQueryData(QUERY_KEYS.currentUser, updated),
+  });
+
+  // Mientras se guarda se muestra ya la elegida
+  const saved = mutation.isPending ? mutation.variables : user?.alert_sensitivity;
+  const sensitivity = IS_API_MODE ? (saved ?? "all") : local;
+  const setSensitivity = useCallback(
+    (next: DealAlertSensitivity) => (IS_API_MODE ? mutation.mutate(next) : setLocal(next)),
+    [mutation.mutate],
+  );
+  return { sensitivity, setSensitivity, isSaving: mutation.isPending };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from "react";
+import {
+  formatViewSort,
+  parseViewSort,
+  SAVED_VIEW_DEFINITIONS,
+  VIEW_COLUMNS_PARAM,
+  VIEW_GROUP_PARAM,
+  VIEW_SORT_PARAM,
+  type SavedViewList,
+  type ViewSort,
+} from "@shared/savedViews";
+import { useSearchParamState } from "./useSearchParamState";
+
+export interface ListView {
+  sort: ViewSort | null;
+  setSort: (sort: ViewSort | null) => void;
+  /** Columnas visibles; null muestra todas. */
+  columns: string[] | null;
+  setColumns: (columns: string[] | null) => void;
+  isColumnVisible: (key: string) => boolean;
+  /** Columnas opcionales a la vista, para el `colSpan` de las cabeceras de grupo. */
+  visibleColumnCount: number;
+  groupBy: string | null;
+  setGroupBy: (groupBy: string | null) => void;
+}
+
+/**
+ * Orden, columnas visibles y agrupación del listado, en la query string como
+ * sus filtros (`?sort=-amount&cols=amount,stage&group=stage`). Es lo que
+ * guarda una vista junto con los filtros.
+ */
+export function useListView(list: SavedViewList): ListView {
+  const { prefix, sorts, groups, columns: columnOptions } = SAVED_VIEW_DEFINITIONS[list];
+  const [sortParam, setSortParam] = useSearchParamState(prefix + VIEW_SORT_PARAM, "");
+  const [columnsParam, setColumnsParam] = useSearchParamState(prefix + VIEW_COLUMNS_PARAM, "");
+  const [groupParam, setGroupParam] = useSearchParamState(prefix + VIEW_GROUP_PARAM, "");
+
+  const sort = useMemo(() => {
+    const parsed = parseViewSort(sortParam);
+    return parsed && sorts.some((option) => option.key === parsed.key) ? parsed : null;
+  }, [sortParam, sorts]);
+  const columns = useMemo(() => (columnsParam ? columnsParam.split(",") : null), [columnsParam]);
+  const groupBy = groups.some((option) => option.key === groupParam) ? groupParam : null;
+
+  const setSort = useCallback((next: ViewSort | null) => setSortParam(formatViewSort(next) ?? ""), [setSortParam]);
+  const setColumns = useCallback((next: string[] | null) => setColumnsParam(next?.join(",") ?? ""), [setColumnsParam]);
+  const setGroupBy = useCallback((next: string | null) => setGroupParam(next ?? ""), [setGroupParam]);
+  const isColumnVisible = useCallback((key: string) => !columns || columns.includes(key), [columns]);
+  const visibleColumnCount = (columnOptions ?? []).filter((option) => isColumnVisible(option.key)).length;
+
+  return useMemo(
+    () => ({ sort, setSort, columns, setColumns, isColumnVisible, visibleColumnCount, groupBy, setGroupBy }),
+    [sort, setSort, columns, setColumns, isColumnVisible, visibleColumnCount, groupBy, setGroupBy],
+  );
+}
@@ -0,0 +1,20 @@
+import { useCallback } from "react";
+import { can as roleCan, normalizeRole, type Permission } from "@shared/permissions";
+import { IS_API_MODE } from "@/lib/db";
+import { useCurrentUser } from "./useCurrentUser";
+
+/**
+ * Permisos del usuario actual para ocultar acciones en la UI.
+ * En modo demo no hay sesión ni servidor que aplique roles: se permite todo.
+ */
+export function usePermissions() {
+  const { user } = useCurrentUser();
+  const role = user?.role ?? null;
+
+  const can = useCallback(
+    (permission: Permission) => !IS_API_MODE || roleCan(role, permission),
+    [role],
+  );
+
+  return { role: IS_API_MODE ? normalizeRole(role) : null, can };
+}
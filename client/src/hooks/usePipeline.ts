@@ -0,0 +1,45 @@
+import { useMemo, useState } from "react";
+import type { Deal, Pipeline } from "@/lib/types";
+import { usePipelineStagesQuery, usePipelinesQuery } from "./useCrmQueries";
+
+/** Los deals sin `pipeline_id` (Supabase, demo, datos antiguos) pertenecen al pipeline por defecto. */
+export function isDealInPipeline(deal: Pick<Deal, "pipeline_id">, pipeline: Pipeline | undefined) {
+  if (!pipeline) return true;
+  return deal.pipeline_id ? deal.pipeline_id === pipeline.id : pipeline.is_default;
+}
+
+/**
+ * Pipeline seleccionado y sus etapas. Sin `pipelineId` (o con uno que ya no
+ * existe) devuelve el pipeline por defecto.
+ */
+export function usePipeline(pipelineId?: string | null) {
+  const { data: pipelines = [], isLoading: pipelinesLoading } = usePipelinesQuery();
+  const { data: allStages = [], isLoading: stagesLoading } = usePipelineStagesQuery();
+
+  const pipeline = useMemo(
+    () =>
+      pipelines.find((candidate) => candidate.id === pipelineId) ??
+      pipelines.find((candidate) => candidate.is_default) ??
+      pipelines[0],
+    [pipelines, pipelineId],
+  );
+  const stages = useMemo(
+    () => (pipeline ? allStages.filter((stage) => stage.pipeline_id === pipeline.id) : []),
+    [allStages, pipeline],
+  );
+
+  return { pipelines, pipeline, stages, allStages, isLoading: pipelinesLoading || stagesLoading };
+}
+
+/**
+ * Pipeline elegido en un componente que puede recibirlo controlado
+ * (`pipelineId` + `onPipelineChange`) o gestionarlo por su cuenta.
+ */
+export function usePipelineSelection(
+  controlledId: string | null | undefined,
+  onChange: ((pipelineId: string) => void) | undefined,
+) {
+  const [localId, setLocalId] = useState<string | null>(null);
+  const pipelineId = controlledId !== undefined ? controlledId : localId;
+  return [pipelineId, onChange ?? setLocalId] as const;
+}
@@ -0,0 +1,31 @@
+import { useCallback } from "react";
+import { useLocation, useSearch } from "wouter";
+import { updateSearch } from "@/lib/routes";
+
+/**
+ * Filtro guardado en la query string (`?state=Doing`), para que la vista se
+ * pueda enlazar. Con el valor por defecto el parámetro desaparece; los valores
+ * fuera de `allowed` se leen como el valor por defecto. Cambiar el filtro
+ * reemplaza la entrada del historial en vez de añadir otra.
+ */
+export function useSearchParamState<T extends string>(
+  key: string,
+  defaultValue: NoInfer<T>,
+  allowed?: readonly T[],
+): [T, (value: T) => void] {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const raw = new URLSearchParams(search).get(key);
+  const value = raw !== null && (!allowed || allowed.includes(raw as T)) ? (raw as T) : defaultValue;
+
+  const setValue = useCallback(
+    (next: T) => {
+      // Se parte de la URL actual: varios filtros pueden cambiar en el mismo evento
+      const query = updateSearch(window.location.search, { [key]: next === defaultValue ? null : next });
+      navigate(`${location}${query}`, { replace: true });
+    },
+    [key, defaultValue, location, navigate],
+  );
+
+  return [value, setValue];
+}
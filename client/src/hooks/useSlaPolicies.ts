@@ -0,0 +1,33 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+import type { DealPolicyContext } from "@/lib/pipelineInsights";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import { usePipeline } from "./usePipeline";
+
+const NO_POLICIES: api.SlaPolicy[] = [];
+
+/**
+ * Políticas de SLA guardadas: la general y las de cada etapa. Sin API (modo
+ * demo o Supabase) no hay ninguna: se usan los valores por defecto.
+ */
+export function useSlaPolicies() {
+  const { data = NO_POLICIES, isLoading } = useQuery({
+    queryKey: QUERY_KEYS.slaPolicies,
+    queryFn: api.getSlaPolicies,
+    enabled: IS_API_MODE,
+    staleTime: 60_000,
+  });
+  return { policies: data, isLoading };
+}
+
+/** Lo que necesitan `computeDealAttention` y `detectDealAlerts` para aplicar a cada deal la política de su etapa. */
+export function useDealPolicyContext(): DealPolicyContext {
+  const { policies } = useSlaPolicies();
+  const { pipeline, allStages } = usePipeline();
+  return useMemo(
+    () => ({ stages: allStages, defaultPipelineId: pipeline?.id, slaPolicies: policies }),
+    [allStages, pipeline, policies],
+  );
+}
@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import * as api from "@/lib/api";
+import { IS_API_MODE } from "@/lib/db";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+
+const NO_TAGS: api.Tag[] = [];
+
+/**
+ * Etiquetas comunes a deals, contactos, empresas y tareas, por nombre. Como
+ * los campos personalizados, solo existen con la API: en modo demo o
+ * Supabase la lista está vacía.
+ */
+export function useTags() {
+  const { data = NO_TAGS, isLoading } = useQuery({
+    queryKey: QUERY_KEYS.tags,
+    queryFn: api.getTags,
+    enabled: IS_API_MODE,
+    staleTime: 60_000,
+  });
+  const byId = useMemo(() => new Map(data.map((tag) => [tag.id, tag])), [data]);
+  return { tags: data, byId, isLoading };
+}
@@ -0,0 +1,717 @@
+// lib/api.ts
+// Cliente HTTP para la API REST del servidor (modo `VITE_DATA_SOURCE=api`).
+import type { AlertChannelFormat, AlertDeliveryStatus, AlertDeliveryTrigger } from "@shared/alertChannels";
+import type {
+  AutomationAction,
+  AutomationActionResult,
+  AutomationCondition,
+  AutomationEntity,
+  AutomationRunStatus,
+  AutomationTrigger,
+} from "@shared/automations";
+import type { BulkAction, BulkEntity, BulkReport } from "@shared/bulkActions";
+import type { CompanyDuplicateGroup, CompanyMergeField } from "@shared/companyDuplicates";
+import type { CompanyDealRollup } from "@shared/companyRollups";
+import type { ContactMergeField, DuplicateGroup } from "@shared/contactDuplicates";
+import type { CustomFieldEntity, CustomFieldType } from "@shared/customFields";
+import type {
+  DealAlertReason,
+  DealAlertReport,
+  DealAlertRule,
+  DealAlertRuleConfig,
+  DealAlertSensitivity,
+  DealAlertSeverity,
+  DealAlertStatus,
+  UpdateDealAlertRule,
+  UpdateDealAlertState,
+} from "@shared/dealAlerts";
+import type { ExportEntity, ExportFormat, ExportLanguage, ListFilters } from "@shared/exports";
+import type { FunnelReport } from "@shared/funnel";
+import type { SavedViewConfig, SavedViewList } from "@shared/savedViews";
+import type { SlaEscalationStep, SlaPolicyInput, SlaPolicyScope } from "@shared/slaPolicies";
+import type {
+  Company,
+  Contact,
+  Deal,
+  DealStageTransition,
+  ImportEntity,
+  ImportJob,
+  ImportJobRow,
+  Pipeline,
+  PipelineStage,
+  Task,
+  TimelineEntry,
+  User,
+} from "./types";
+
+type ApiEnvelope<T> = { success: boolean; message?: string } & T;
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<ApiEnvelope<T>> {
+  const res = await fetch(url, {
+    method,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : {},
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+
+  let data: ApiEnvelope<T> | null = null;
+  try {
+    data = (await res.json()) as ApiEnvelope<T>;
+  } catch {
+    data = null;
+  }
+
+  if (!res.ok || !data?.success) {
+    // El servidor devuelve los códigos de negocio (p.ej. NEXT_STEP_REQUIRED) en `message`
+    throw new Error(data?.message || `${res.status}: ${res.statusText}`);
+  }
+  return data;
+}
+
+function toQuery(params: Record<string, string | number | undefined | null>): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(key, String(value));
+    }
+  });
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
+
+/* Auth */
+export async function getCurrentUser(): Promise<User | null> {
+  // Sin sesión el servidor responde 401: no es un error, simplemente no hay usuario
+  const res = await fetch("/api/auth/me", { credentials: "include" });
+  if (res.status === 401) return null;
+  const data = (await res.json()) as ApiEnvelope<{ user: User }>;
+  if (!res.ok || !data.success) {
+    throw new Error(data.message || `${res.status}: ${res.statusText}`);
+  }
+  return data.user;
+}
+
+export async function login(credentials: { username: string; password: string }): Promise<User> {
+  return (await request<{ user: User }>("POST", "/api/auth/login", credentials)).user;
+}
+
+export async function register(payload: {
+  username: string;
+  password: string;
+  email?: string | null;
+  full_name?: string | null;
+}): Promise<User> {
+  return (await request<{ user: User }>("POST", "/api/auth/register", payload)).user;
+}
+
+export async function logout(): Promise<void> {
+  await request("POST", "/api/auth/logout");
+}
+
+/* Users */
+export async function getUsers(): Promise<User[]> {
+  return (await request<{ users: User[] }>("GET", "/api/users")).users;
+}
+
+export async function updateUser(
+  id: string,
+  patch: Partial<Pick<User, "role" | "manager_id" | "full_name" | "email">>,
+): Promise<User> {
+  return (await request<{ user: User }>("PATCH", `/api/users/${id}`, patch)).user;
+}
+
+/* Tasks */
+export async function getTasks(): Promise<Task[]> {
+  return (await request<{ tasks: Task[] }>("GET", "/api/tasks")).tasks;
+}
+
+export async function addTask(payload: Partial<Task>): Promise<Task> {
+  return (await request<{ task: Task }>("POST", "/api/tasks", payload)).task;
+}
+
+export async function updateTask(id: string, patch: Partial<Task>): Promise<Task> {
+  return (await request<{ task: Task }>("PATCH", `/api/tasks/${id}`, patch)).task;
+}
+
+export async function deleteTask(id: string): Promise<void> {
+  await request("DELETE", `/api/tasks/${id}`);
+}
+
+/* Importaciones CSV/TSV */
+export interface ImportInput {
+  entity: ImportEntity;
+  file_name?: string | null;
+  content: string;
+  delimiter?: string;
+  mapping: Record<string, string>;
+}
+
+export async function getImportJobs(): Promise<ImportJob[]> {
+  return (await request<{ jobs: ImportJob[] }>("GET", "/api/imports")).jobs;
+}
+
+export async function createImport(payload: ImportInput): Promise<ImportJob> {
+  return (await request<{ job: ImportJob }>("POST", "/api/imports", payload)).job;
+}
+
+export async function getImportJob(id: string): Promise<ImportJob> {
+  return (await request<{ job: ImportJob }>("GET", `/api/imports/${id}`)).job;
+}
+
+export async function getImportJobRows(
+  id: string,
+  params: { status?: ImportJobRow["status"]; limit?: number } = {},
+): Promise<ImportJobRow[]> {
+  return (await request<{ rows: ImportJobRow[] }>("GET", `/api/imports/${id}/rows${toQuery(params)}`)).rows;
+}
+
+export async function cancelImportJob(id: string): Promise<ImportJob> {
+  return (await request<{ job: ImportJob }>("POST", `/api/imports/${id}/cancel`)).job;
+}
+
+export async function resumeImportJob(id: string): Promise<ImportJob> {
+  return (await request<{ job: ImportJob }>("POST", `/api/imports/${id}/resume`)).job;
+}
+
+/* Vistas guardadas */
+export interface SavedView {
+  id: string;
+  list: SavedViewList;
+  name: string;
+  owner_id: string;
+  shared: boolean;
+  config: SavedViewConfig;
+  /** Es la vista por defecto del usuario en su listado. */
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedViewInput = Pick<SavedView, "list" | "name" | "shared" | "config">;
+
+export async function getSavedViews(list: SavedViewList): Promise<SavedView[]> {
+  return (await request<{ views: SavedView[] }>("GET", `/api/saved-views${toQuery({ list })}`)).views;
+}
+
+export async function createSavedView(payload: SavedViewInput): Promise<SavedView> {
+  return (await request<{ view: SavedView }>("POST", "/api/saved-views", payload)).view;
+}
+
+export async function updateSavedView(
+  id: string,
+  patch: Partial<Pick<SavedView, "name" | "shared" | "config">>,
+): Promise<SavedView> {
+  return (await request<{ view: SavedView }>("PATCH", `/api/saved-views/${id}`, patch)).view;
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  await request("DELETE", `/api/saved-views/${id}`);
+}
+
+/** Con null el listado vuelve a abrirse sin vista. */
+export async function setDefaultSavedView(list: SavedViewList, viewId: string | null): Promise<void> {
+  await request("PUT", "/api/saved-views/default", { list, view_id: viewId });
+}
+
+/* Campos personalizados */
+export interface CustomField {
+  id: string;
+  entity: CustomFieldEntity;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomFieldInput = Pick<CustomField, "entity" | "label" | "type"> &
+  Partial<Pick<CustomField, "key" | "options">>;
+
+export async function getCustomFields(entity?: CustomFieldEntity): Promise<CustomField[]> {
+  return (await request<{ fields: CustomField[] }>("GET", `/api/custom-fields${toQuery({ entity })}`)).fields;
+}
+
+export async function createCustomField(payload: CustomFieldInput): Promise<CustomField> {
+  return (await request<{ field: CustomField }>("POST", "/api/custom-fields", payload)).field;
+}
+
+export async function updateCustomField(
+  id: string,
+  patch: Partial<Pick<CustomField, "label" | "options">>,
+): Promise<CustomField> {
+  return (await request<{ field: CustomField }>("PATCH", `/api/custom-fields/${id}`, patch)).field;
+}
+
+/** `ids`: todos los campos de la entidad en el orden nuevo. */
+export async function reorderCustomFields(ids: string[]): Promise<CustomField[]> {
+  return (await request<{ fields: CustomField[] }>("POST", "/api/custom-fields/reorder", { ids })).fields;
+}
+
+/** Borra también el valor que tuviera cada registro. */
+export async function deleteCustomField(id: string): Promise<void> {
+  await request("DELETE", `/api/custom-fields/${id}`);
+}
+
+/* Etiquetas */
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TagInput = Pick<Tag, "name"> & Partial<Pick<Tag, "color">>;
+
+export async function getTags(): Promise<Tag[]> {
+  return (await request<{ tags: Tag[] }>("GET", "/api/tags")).tags;
+}
+
+export async function createTag(payload: TagInput): Promise<Tag> {
+  return (await request<{ tag: Tag }>("POST", "/api/tags", payload)).tag;
+}
+
+export async function updateTag(id: string, patch: Partial<TagInput>): Promise<Tag> {
+  return (await request<{ tag: Tag }>("PATCH", `/api/tags/${id}`, patch)).tag;
+}
+
+/** La quita también de todos los registros que la llevaban. */
+export async function deleteTag(id: string): Promise<void> {
+  await request("DELETE", `/api/tags/${id}`);
+}
+
+/* Automatizaciones */
+export interface AutomationRule {
+  id: string;
+  name: string;
+  trigger: AutomationTrigger;
+  enabled: boolean;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  created_by: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AutomationRuleInput = Pick<AutomationRule, "name" | "trigger" | "conditions" | "actions"> &
+  Partial<Pick<AutomationRule, "enabled">>;
+
+export interface AutomationRun {
+  id: string;
+  rule_id: string;
+  trigger: AutomationTrigger;
+  entity_type: AutomationEntity;
+  entity_id: string;
+  entity_label: string | null;
+  status: AutomationRunStatus;
+  results: AutomationActionResult[];
+  created_at: string;
+}
+
+export async function getAutomationRules(): Promise<AutomationRule[]> {
+  return (await request<{ rules: AutomationRule[] }>("GET", "/api/automations")).rules;
+}
+
+export async function createAutomationRule(payload: AutomationRuleInput): Promise<AutomationRule> {
+  return (await request<{ rule: AutomationRule }>("POST", "/api/automations", payload)).rule;
+}
+
+export async function updateAutomationRule(id: string, patch: Partial<AutomationRuleInput>): Promise<AutomationRule> {
+  return (await request<{ rule: AutomationRule }>("PATCH", `/api/automations/${id}`, patch)).rule;
+}
+
+/** Borra también su registro de ejecuciones. */
+export async function deleteAutomationRule(id: string): Promise<void> {
+  await request("DELETE", `/api/automations/${id}`);
+}
+
+/** Últimas ejecuciones de la regla, las más recientes primero. */
+export async function getAutomationRuns(ruleId: string): Promise<AutomationRun[]> {
+  return (await request<{ runs: AutomationRun[] }>("GET", `/api/automations/${ruleId}/runs`)).runs;
+}
+
+/* Reglas de alerta */
+export async function getDealAlertRules(): Promise<DealAlertRuleConfig[]> {
+  return (await request<{ rules: DealAlertRuleConfig[] }>("GET", "/api/alert-rules")).rules;
+}
+
+export async function updateDealAlertRule(
+  rule: DealAlertRule,
+  patch: UpdateDealAlertRule,
+): Promise<DealAlertRuleConfig> {
+  return (await request<{ rule: DealAlertRuleConfig }>("PATCH", `/api/alert-rules/${rule}`, patch)).rule;
+}
+
+/* Seguimiento de alertas */
+export interface DealAlertState {
+  id: string;
+  deal_id: string;
+  owner_id: string | null;
+  rules: DealAlertRule[];
+  severity: DealAlertSeverity;
+  message: string;
+  status: DealAlertStatus;
+  snoozed_until: string | null;
+  reason: DealAlertReason | null;
+  note: string | null;
+  closed_at: string | null;
+  closed_by: string | null;
+  cleared_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Alertas vigentes de los deals visibles, ya sincronizadas en el servidor. */
+export async function getDealAlertStates(): Promise<DealAlertState[]> {
+  return (await request<{ alerts: DealAlertState[] }>("GET", "/api/deal-alerts")).alerts;
+}
+
+export async function updateDealAlertState(dealId: string, input: UpdateDealAlertState): Promise<DealAlertState> {
+  return (await request<{ alert: DealAlertState }>("PATCH", `/api/deals/${dealId}/alert`, input)).alert;
+}
+
+export async function saveAlertSensitivity(sensitivity: DealAlertSensitivity): Promise<User> {
+  return (await request<{ user: User }>("PUT", "/api/deal-alerts/preferences", { sensitivity })).user;
+}
+
+export async function getDealAlertReport(params: { from?: string; to?: string } = {}): Promise<DealAlertReport> {
+  return (await request<{ report: DealAlertReport }>("GET", `/api/deal-alerts/report${toQuery(params)}`)).report;
+}
+
+/* Canales de alertas */
+export interface AlertChannel {
+  id: string;
+  name: string;
+  format: AlertChannelFormat;
+  url: string;
+  enabled: boolean;
+  severity: DealAlertSensitivity;
+  owner_ids: string[];
+  pipeline_ids: string[];
+  interval_hours: number;
+  last_sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AlertChannelInput = Pick<AlertChannel, "name" | "format" | "url"> &
+  Partial<Pick<AlertChannel, "enabled" | "severity" | "owner_ids" | "pipeline_ids" | "interval_hours">>;
+
+export interface AlertDelivery {
+  id: string;
+  channel_id: string;
+  trigger: AlertDeliveryTrigger;
+  status: AlertDeliveryStatus;
+  alert_count: number;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+}
+
+export async function getAlertChannels(): Promise<AlertChannel[]> {
+  return (await request<{ channels: AlertChannel[] }>("GET", "/api/alert-channels")).channels;
+}
+
+export async function createAlertChannel(payload: AlertChannelInput): Promise<AlertChannel> {
+  return (await request<{ channel: AlertChannel }>("POST", "/api/alert-channels", payload)).channel;
+}
+
+export async function updateAlertChannel(id: string, patch: Partial<AlertChannelInput>): Promise<AlertChannel> {
+  return (await request<{ channel: AlertChannel }>("PATCH", `/api/alert-channels/${id}`, patch)).channel;
+}
+
+/** Borra también su registro de envíos. */
+export async function deleteAlertChannel(id: string): Promise<void> {
+  await request("DELETE", `/api/alert-channels/${id}`);
+}
+
+/** Envía ya las alertas del canal, sin esperar a que le toque. */
+export async function sendAlertChannel(id: string): Promise<AlertDelivery> {
+  return (await request<{ delivery: AlertDelivery }>("POST", `/api/alert-channels/${id}/send`)).delivery;
+}
+
+/** Últimos envíos al canal, los más recientes primero. */
+export async function getAlertDeliveries(channelId: string): Promise<AlertDelivery[]> {
+  const path = `/api/alert-channels/${channelId}/deliveries`;
+  return (await request<{ deliveries: AlertDelivery[] }>("GET", path)).deliveries;
+}
+
+/* Políticas de SLA */
+export interface SlaPolicy extends SlaPolicyScope {
+  id: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface SlaEscalation {
+  id: string;
+  deal_id: string;
+  step: SlaEscalationStep;
+  last_activity: string;
+  breach_days: number;
+  notified_user_id: string | null;
+  task_id: string | null;
+  created_at: string;
+}
+
+export async function getSlaPolicies(): Promise<SlaPolicy[]> {
+  return (await request<{ policies: SlaPolicy[] }>("GET", "/api/sla-policies")).policies;
+}
+
+/** Sustituye la política de un alcance; una etapa sin valores propios deja de tenerla (devuelve null). */
+export async function saveSlaPolicy(input: SlaPolicyInput): Promise<SlaPolicy | null> {
+  return (await request<{ policy: SlaPolicy | null }>("PUT", "/api/sla-policies", input)).policy;
+}
+
+export async function deleteSlaPolicy(id: string): Promise<void> {
+  await request("DELETE", `/api/sla-policies/${id}`);
+}
+
+export async function getSlaEscalations(limit = 50): Promise<SlaEscalation[]> {
+  const query = toQuery({ limit });
+  return (await request<{ escalations: SlaEscalation[] }>("GET", `/api/sla-escalations${query}`)).escalations;
+}
+
+/* Acciones en bloque */
+export async function runBulkAction(entity: BulkEntity, ids: string[], action: BulkAction): Promise<BulkReport> {
+  return (await request<{ report: BulkReport }>("POST", `/api/bulk/${entity}`, { ids, action })).report;
+}
+
+/* Exportaciones CSV/XLSX */
+export interface ExportParams<K extends ExportEntity> {
+  format: ExportFormat;
+  language: ExportLanguage;
+  columns: string[];
+  filters: ListFilters[K];
+}
+
+/** URL de descarga: el navegador la sigue y el servidor la escribe por partes. */
+export function getExportUrl<K extends ExportEntity>(entity: K, params: ExportParams<K>): string {
+  const filters = Object.fromEntries(
+    Object.entries(params.filters).map(([key, value]) => [key, typeof value === "boolean" ? String(value) : value]),
+  ) as Record<string, string | undefined>;
+  return `/api/exports/${entity}${toQuery({
+    ...filters,
+    format: params.format,
+    lang: params.language,
+    columns: params.columns.join(","),
+  })}`;
+}
+
+/* Pipelines */
+export type PipelineInput = Partial<Pick<Pipeline, "name" | "is_default">>;
+
+export async function getPipelines(): Promise<Pipeline[]> {
+  return (await request<{ pipelines: Pipeline[] }>("GET", "/api/pipelines")).pipelines;
+}
+
+export async function addPipeline(payload: PipelineInput & { name: string }): Promise<Pipeline> {
+  return (await request<{ pipeline: Pipeline }>("POST", "/api/pipelines", payload)).pipeline;
+}
+
+export async function updatePipeline(id: string, patch: PipelineInput): Promise<Pipeline> {
+  return (await request<{ pipeline: Pipeline }>("PATCH", `/api/pipelines/${id}`, patch)).pipeline;
+}
+
+export async function deletePipeline(id: string): Promise<void> {
+  await request("DELETE", `/api/pipelines/${id}`);
+}
+
+/* Pipeline stages */
+export type PipelineStageInput = Partial<Pick<PipelineStage, "name" | "color" | "is_active" | "default_probability">>;
+
+export async function getPipelineStages(): Promise<PipelineStage[]> {
+  return (await request<{ stages: PipelineStage[] }>("GET", "/api/pipeline-stages")).stages;
+}
+
+export async function addPipelineStage(
+  payload: PipelineStageInput & { name: string; pipeline_id?: string },
+): Promise<PipelineStage> {
+  return (await request<{ stage: PipelineStage }>("POST", "/api/pipeline-stages", payload)).stage;
+}
+
+export async function updatePipelineStage(id: string, patch: PipelineStageInput): Promise<PipelineStage> {
+  return (await request<{ stage: PipelineStage }>("PATCH", `/api/pipeline-stages/${id}`, patch)).stage;
+}
+
+export async function reorderPipelineStages(ids: string[]): Promise<PipelineStage[]> {
+  return (await request<{ stages: PipelineStage[] }>("POST", "/api/pipeline-stages/reorder", { ids })).stages;
+}
+
+/* Deals */
+export async function getDeals(): Promise<Deal[]> {
+  return (await request<{ deals: Deal[] }>("GET", "/api/deals")).deals;
+}
+
+export async function getHotDeal(): Promise<Deal[]> {
+  return (await request<{ deals: Deal[] }>("GET", "/api/deals/hot")).deals;
+}
+
+export async function getStalledDeals(limit = 5): Promise<Deal[]> {
+  return (await request<{ deals: Deal[] }>("GET", `/api/deals/stalled${toQuery({ limit })}`)).deals;
+}
+
+export async function getQuickMetrics(): Promise<{ open: number; won: number; lost: number; sumOpen: number }> {
+  return (
+    await request<{ metrics: { open: number; won: number; lost: number; sumOpen: number } }>(
+      "GET",
+      "/api/metrics/quick",
+    )
+  ).metrics;
+}
+
+export interface FunnelParams {
+  pipeline_id?: string | null;
+  from?: string;
+  to?: string;
+  cohort?: string | null;
+  owner_id?: string | null;
+}
+
+export async function getFunnelReport(params: FunnelParams = {}): Promise<FunnelReport> {
+  return (await request<{ funnel: FunnelReport }>("GET", `/api/metrics/funnel${toQuery({ ...params })}`)).funnel;
+}
+
+export async function addDeal(payload: Partial<Deal>): Promise<Deal> {
+  return (await request<{ deal: Deal }>("POST", "/api/deals", payload)).deal;
+}
+
+export async function updateDeal(id: string, patch: Partial<Deal>): Promise<Deal> {
+  return (await request<{ deal: Deal }>("PATCH", `/api/deals/${id}`, patch)).deal;
+}
+
+export async function deleteDeal(id: string): Promise<void> {
+  await request("DELETE", `/api/deals/${id}`);
+}
+
+export async function getDealStageTransitions(dealId: string): Promise<DealStageTransition[]> {
+  return (
+    await request<{ transitions: DealStageTransition[] }>("GET", `/api/deals/${dealId}/stage-transitions`)
+  ).transitions;
+}
+
+/* Contacts */
+export async function getContacts(): Promise<Contact[]> {
+  return (await request<{ contacts: Contact[] }>("GET", "/api/contacts")).contacts;
+}
+
+export async function addContact(payload: Partial<Contact>): Promise<Contact> {
+  return (await request<{ contact: Contact }>("POST", "/api/contacts", payload)).contact;
+}
+
+export async function updateContact(id: string, patch: Partial<Contact>): Promise<Contact> {
+  return (await request<{ contact: Contact }>("PATCH", `/api/contacts/${id}`, patch)).contact;
+}
+
+export async function deleteContact(id: string): Promise<void> {
+  await request("DELETE", `/api/contacts/${id}`);
+}
+
+export async function getContactDuplicates(): Promise<DuplicateGroup<Contact>[]> {
+  return (await request<{ groups: DuplicateGroup<Contact>[] }>("GET", "/api/contacts/duplicates")).groups;
+}
+
+export interface ContactMergePayload {
+  merge_ids: string[];
+  fields?: Partial<Record<ContactMergeField, string>>;
+}
+
+export interface ContactMergeResult {
+  contact: Contact;
+  merged: number;
+  deals: number;
+  tasks: number;
+  timeline: number;
+}
+
+/** Fusiona `merge_ids` en el contacto `id`, que es el que se conserva. */
+export async function mergeContacts(id: string, payload: ContactMergePayload): Promise<ContactMergeResult> {
+  return (await request<{ merge: ContactMergeResult }>("POST", `/api/contacts/${id}/merge`, payload)).merge;
+}
+
+/* Companies */
+export async function getCompanies(): Promise<Company[]> {
+  return (await request<{ companies: Company[] }>("GET", "/api/companies")).companies;
+}
+
+export async function getCompanyById(id: string): Promise<Company | null> {
+  return (await request<{ company: Company }>("GET", `/api/companies/${id}`)).company ?? null;
+}
+
+export async function addCompany(payload: Partial<Company>): Promise<Company> {
+  return (await request<{ company: Company }>("POST", "/api/companies", payload)).company;
+}
+
+export async function updateCompany(id: string, patch: Partial<Company>): Promise<Company> {
+  return (await request<{ company: Company }>("PATCH", `/api/companies/${id}`, patch)).company;
+}
+
+export async function deleteCompany(id: string): Promise<void> {
+  await request("DELETE", `/api/companies/${id}`);
+}
+
+/** Pipeline abierto, ganado y nº de deals por empresa, dentro del alcance del usuario. */
+export async function getCompanyRollups(): Promise<CompanyDealRollup[]> {
+  return (await request<{ rollups: CompanyDealRollup[] }>("GET", "/api/companies/rollups")).rollups;
+}
+
+/** Ficha 360 de una empresa; contactos, deals y tareas dentro del alcance del usuario. */
+export interface CompanyOverview {
+  company: Company;
+  contacts: Contact[];
+  deals: Deal[];
+  tasks: Task[];
+  timeline: TimelineEntry[];
+  rollup: CompanyDealRollup;
+}
+
+export async function getCompanyOverview(id: string): Promise<CompanyOverview> {
+  return (await request<{ overview: CompanyOverview }>("GET", `/api/companies/${id}/overview`)).overview;
+}
+
+export async function getCompanyDuplicates(): Promise<CompanyDuplicateGroup<Company>[]> {
+  return (await request<{ groups: CompanyDuplicateGroup<Company>[] }>("GET", "/api/companies/duplicates")).groups;
+}
+
+export interface CompanyMergePayload {
+  merge_ids: string[];
+  fields?: Partial<Record<CompanyMergeField, string>>;
+}
+
+export interface CompanyMergeResult {
+  company: Company;
+  merged: number;
+  contacts: number;
+  deals: number;
+  timeline: number;
+}
+
+/** Fusiona `merge_ids` en la empresa `id`, que es la que se conserva. */
+export async function mergeCompanies(id: string, payload: CompanyMergePayload): Promise<CompanyMergeResult> {
+  return (await request<{ merge: CompanyMergeResult }>("POST", `/api/companies/${id}/merge`, payload)).merge;
+}
+
+/* Timeline */
+export async function getTimeline(params: {
+  entity_type?: string;
+  entity_id?: string;
+  limit?: number;
+}): Promise<TimelineEntry[]> {
+  return (await request<{ entries: TimelineEntry[] }>("GET", `/api/timeline${toQuery(params)}`)).entries;
+}
+
+export async function addTimelineEntry(
+  entry: Omit<TimelineEntry, "id" | "created_at">,
+): Promise<TimelineEntry> {
+  return (await request<{ entry: TimelineEntry }>("POST", "/api/timeline", entry)).entry;
+}
+
+/* Seed */
+export async function seedDemo(): Promise<void> {
+  await request("POST", "/api/seed-demo");
+}
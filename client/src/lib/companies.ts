@@ -1,4 +1,6 @@
+import { normalizeCompanyName } from '@shared/companyDuplicates';
 import type { Company } from './types';
+import * as api from './api';
 
 /* =========================
    ENV Y MODO DE OPERACIÓN
@@ -9,7 +11,8 @@ export const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as
 export const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as
   | string
   | undefined;
-export const IS_SUPABASE_MODE = !!(SUPABASE_URL && SUPABASE_ANON_KEY);
+export const IS_API_MODE = import.meta.env.VITE_DATA_SOURCE === "api";
+export const IS_SUPABASE_MODE = !IS_API_MODE && !!(SUPABASE_URL && SUPABASE_ANON_KEY);
 
 // Log de verificación de entorno
 console.log("[COMPANIES ENV]", !!SUPABASE_URL, (SUPABASE_ANON_KEY || "").slice(-6));
@@ -48,6 +51,7 @@ function generateId(): string {
    QUERIES: COMPANIES
    ============== */
 export async function getCompanies(): Promise<Company[]> {
+  if (IS_API_MODE) return api.getCompanies();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -63,6 +67,7 @@ export async function getCompanies(): Promise<Company[]> {
 export async function addCompany(
   payload: Omit<Company, "id" | "created_at" | "updated_at">,
 ): Promise<Company> {
+  if (IS_API_MODE) return api.addCompany(payload);
   const normalizedPayload = {
     ...payload,
     score: payload.score || 0,
@@ -129,9 +134,10 @@ export async function ensureCompanyByName(name: string): Promise<Company> {
     return inserted;
   }
 
+  const key = normalizeCompanyName(trimmed);
   const existing = demoCompanies.find(
     (company) => company.name.toLowerCase() === trimmed.toLowerCase(),
-  );
+  ) ?? (key ? demoCompanies.find((company) => normalizeCompanyName(company.name) === key) : undefined);
 
   if (existing) return existing;
 
@@ -156,6 +162,7 @@ export async function ensureCompanyByName(name: string): Promise<Company> {
 }
 
 export async function updateCompany(id: string, patch: Partial<Company>): Promise<Company> {
+  if (IS_API_MODE) return api.updateCompany(id, patch);
   const normalizedPatch = {
     ...patch,
     updated_at: new Date().toISOString(),
@@ -180,6 +187,7 @@ export async function updateCompany(id: string, patch: Partial<Company>): Promis
 }
 
 export async function deleteCompany(id: string): Promise<void> {
+  if (IS_API_MODE) return api.deleteCompany(id);
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { error } = await supabase
@@ -196,6 +204,7 @@ export async function deleteCompany(id: string): Promise<void> {
 }
 
 export async function getCompanyById(id: string): Promise<Company | null> {
+  if (IS_API_MODE) return api.getCompanyById(id);
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
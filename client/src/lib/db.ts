@@ -1,6 +1,29 @@
 // lib/db.ts
-import type { Task, Deal, Contact, TimelineEntry, Priority, RiskLevel } from "./types";
-import { seedCompanies, ensureCompanyByName } from "./companies";
+import type {
+  Task,
+  Deal,
+  DealStageTransition,
+  Contact,
+  TimelineEntry,
+  Priority,
+  RiskLevel,
+  Pipeline,
+  PipelineStage,
+} from "./types";
+import { seedCompanies, ensureCompanyByName, getCompanies, getCompanyById } from "./companies";
+import * as api from "./api";
+import { normalizeCompanyName } from "@shared/companyDuplicates";
+import { buildCompanyRollups, emptyCompanyRollup, type CompanyDealRollup } from "@shared/companyRollups";
+import { buildFunnelReport, getCohortMonth, type FunnelReport, type FunnelTransition } from "@shared/funnel";
+import { clamp, describeDealChanges, enforceCoreFields, inferDealInsights } from "@shared/dealRules";
+import {
+  DEFAULT_PIPELINE_NAME,
+  DEFAULT_PIPELINE_STAGES,
+  findStage,
+  getActiveStages,
+  getClosingStage,
+  getInitialStage,
+} from "@shared/pipelineStages";
 
 /* =========================
    ENV Y MODO DE OPERACIÓN
@@ -11,7 +34,9 @@ export const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as
 export const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as
   | string
   | undefined;
-export const IS_SUPABASE_MODE = !!(SUPABASE_URL && SUPABASE_ANON_KEY);
+// `VITE_DATA_SOURCE=api` delega todo el CRUD en la API REST del servidor Express
+export const IS_API_MODE = import.meta.env.VITE_DATA_SOURCE === "api";
+export const IS_SUPABASE_MODE = !IS_API_MODE && !!(SUPABASE_URL && SUPABASE_ANON_KEY);
 
 // Log de verificación de entorno (visible en consola del navegador)
 console.log("[ENV]", !!SUPABASE_URL, (SUPABASE_ANON_KEY || "").slice(-6));
@@ -40,112 +65,49 @@ async function ensureSupabase(): Promise<void> {
 /* =========================
    DEMO STORE (fallback)
    ========================= */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+// Supabase y el modo demo trabajan con un único pipeline; los múltiples requieren la API
+const LOCAL_PIPELINE: Pipeline = {
+  id: "default",
+  name: DEFAULT_PIPELINE_NAME,
+  is_default: true,
+  order_index: 0,
+  created_at: new Date(0).toISOString(),
+};
+
+function buildDefaultStages(): PipelineStage[] {
+  const now = new Date().toISOString();
+  return DEFAULT_PIPELINE_STAGES.map((stage) => ({
+    id: generateId(),
+    pipeline_id: LOCAL_PIPELINE.id,
+    ...stage,
+    created_at: now,
+    updated_at: now,
+  }));
+}
+
 let demoData: {
   tasks: Task[];
   deals: Deal[];
   contacts: Contact[];
   timeline: TimelineEntry[];
+  stages: PipelineStage[];
 } = {
   tasks: [],
   deals: [],
   contacts: [],
   timeline: [],
+  stages: buildDefaultStages(),
 };
 
-function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2);
-}
-
-const STAGE_BASE_PROBABILITY: Record<string, number> = {
-  Prospección: 15,
-  Prospeccion: 15,
-  "Calificación": 30,
-  Calificacion: 30,
-  Propuesta: 50,
-  "Negociación": 65,
-  Negociacion: 65,
-  Cierre: 85,
-};
-
-const HOT_THRESHOLD = 70;
-const WARM_THRESHOLD = 40;
-
-function clamp(value: number, min: number, max: number) {
-  return Math.min(Math.max(value, min), max);
-}
-
-function inferDealInsights(partial: Partial<Deal>): {
-  probability: number;
-  priority: Priority;
-  risk_level: RiskLevel;
-} {
-  const stage = partial.stage ?? "Prospección";
-  const base = STAGE_BASE_PROBABILITY[stage] ?? 20;
-
-  let probability = base;
-
-  const amount = typeof partial.amount === "string" ? Number(partial.amount) : partial.amount ?? 0;
-  if (amount >= 50000) probability += 5;
-  else if (amount >= 15000) probability += 3;
-
-  if (partial.next_step && partial.next_step.trim().length > 0) probability += 5;
-
-  if (partial.target_close_date) {
-    const target = new Date(partial.target_close_date);
-    if (!Number.isNaN(target.getTime())) {
-      const diffDays = Math.floor((target.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-      if (diffDays <= 14) probability += 5;
-      else if (diffDays <= 30) probability += 3;
-      if (diffDays < 0) probability -= 10;
-    }
-  }
-
-  const lastActivity = partial.last_activity ? new Date(partial.last_activity) : null;
-  if (lastActivity && !Number.isNaN(lastActivity.getTime())) {
-    const diffDays = Math.floor((Date.now() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-    if (diffDays <= 3) probability += 5;
-    else if (diffDays >= 14) probability -= 10;
-    else if (diffDays >= 7) probability -= 5;
-  }
-
-  probability = clamp(Math.round(probability), 5, 95);
-
-  let priority: Priority;
-  if (probability >= HOT_THRESHOLD) priority = "Hot";
-  else if (probability >= WARM_THRESHOLD) priority = "Warm";
-  else priority = "Cold";
-
-  let risk: RiskLevel = "Bajo";
-  if (!partial.next_step || !partial.next_step.trim()) {
-    risk = probability >= WARM_THRESHOLD ? "Medio" : "Alto";
-  }
-
-  if (partial.target_close_date) {
-    const target = new Date(partial.target_close_date);
-    if (!Number.isNaN(target.getTime()) && target.getTime() < Date.now()) {
-      risk = "Alto";
-    }
-  }
-
-  const inactivity = partial.inactivity_days ?? (() => {
-    if (!lastActivity) return 0;
-    return Math.max(0, Math.floor((Date.now() - lastActivity.getTime()) / (1000 * 60 * 60 * 24)));
-  })();
-
-  if (inactivity >= 14) risk = "Alto";
-  else if (inactivity >= 7 && risk !== "Alto") risk = "Medio";
-
-  return {
-    probability,
-    priority,
-    risk_level: risk,
-  };
-}
-
 /* ==============
    QUERIES: TASKS
    ============== */
 export async function getTasks(): Promise<Task[]> {
+  if (IS_API_MODE) return api.getTasks();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -161,6 +123,7 @@ export async function getTasks(): Promise<Task[]> {
 export async function addTask(
   payload: Omit<Task, "id" | "inserted_at">,
 ): Promise<Task> {
+  if (IS_API_MODE) return api.addTask(payload);
   const now = new Date().toISOString();
   const normalizedPayload = {
     ...payload,
@@ -207,6 +170,7 @@ export async function markTaskDone(
   id: string,
   state: "To Do" | "Done",
 ): Promise<Task> {
+  if (IS_API_MODE) return api.updateTask(id, { state });
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -246,6 +210,7 @@ export async function updateTask(
   id: string,
   patch: Partial<Task>,
 ): Promise<Task> {
+  if (IS_API_MODE) return api.updateTask(id, patch);
   const normalizedPatch = {
     ...patch,
     updated_at: new Date().toISOString(),
@@ -284,6 +249,7 @@ export async function updateTask(
 }
 
 export async function deleteTask(id: string): Promise<void> {
+  if (IS_API_MODE) return api.deleteTask(id);
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -315,10 +281,175 @@ export async function deleteTask(id: string): Promise<void> {
   });
 }
 
+/* ==================
+   QUERIES: PIPELINES
+   ================== */
+type PipelineInput = api.PipelineInput;
+
+const PIPELINES_REQUIRE_API = "Los pipelines múltiples requieren el modo API (VITE_DATA_SOURCE=api)";
+
+export async function getPipelines(): Promise<Pipeline[]> {
+  if (IS_API_MODE) return api.getPipelines();
+  return [LOCAL_PIPELINE];
+}
+
+export async function addPipeline(payload: PipelineInput & { name: string }): Promise<Pipeline> {
+  if (IS_API_MODE) return api.addPipeline(payload);
+  throw new Error(PIPELINES_REQUIRE_API);
+}
+
+export async function updatePipeline(id: string, patch: PipelineInput): Promise<Pipeline> {
+  if (IS_API_MODE) return api.updatePipeline(id, patch);
+  throw new Error(PIPELINES_REQUIRE_API);
+}
+
+export async function deletePipeline(id: string): Promise<void> {
+  if (IS_API_MODE) return api.deletePipeline(id);
+  throw new Error(PIPELINES_REQUIRE_API);
+}
+
+/* ========================
+   QUERIES: PIPELINE STAGES
+   ======================== */
+type PipelineStageInput = api.PipelineStageInput;
+
+// Las tablas de Supabase no tienen pipeline_id: todas sus etapas son del pipeline local
+function withLocalPipeline(stage: Omit<PipelineStage, "pipeline_id"> & { pipeline_id?: string }): PipelineStage {
+  return { ...stage, pipeline_id: stage.pipeline_id ?? LOCAL_PIPELINE.id };
+}
+
+export async function getPipelineStages(): Promise<PipelineStage[]> {
+  if (IS_API_MODE) return api.getPipelineStages();
+  if (IS_SUPABASE_MODE) {
+    await ensureSupabase();
+    const { data, error } = await supabase
+      .from("pipeline_stages")
+      .select("*")
+      .order("order_index", { ascending: true });
+    if (error) throw error;
+    if (data?.length) return data.map(withLocalPipeline);
+
+    // Proyecto sin etapas: se siembran las de por defecto, igual que en el servidor
+    const { data: seeded, error: seedError } = await supabase
+      .from("pipeline_stages")
+      .insert(DEFAULT_PIPELINE_STAGES)
+      .select()
+      .order("order_index", { ascending: true });
+    if (seedError) throw seedError;
+    return (seeded ?? []).map(withLocalPipeline);
+  }
+  return [...demoData.stages].sort((a, b) => a.order_index - b.order_index);
+}
+
+function assertUniqueStageName(stages: PipelineStage[], name: string, exceptId?: string) {
+  const existing = findStage(stages, name);
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`Ya existe una etapa llamada "${existing.name}"`);
+  }
+}
+
+export async function addPipelineStage(
+  payload: PipelineStageInput & { name: string; pipeline_id?: string },
+): Promise<PipelineStage> {
+  if (IS_API_MODE) return api.addPipelineStage(payload);
+  const { pipeline_id: _pipelineId, ...input } = payload;
+  const stages = await getPipelineStages();
+  const name = input.name.trim();
+  if (!name) throw new Error("El nombre de la etapa es obligatorio");
+  assertUniqueStageName(stages, name);
+
+  const now = new Date().toISOString();
+  const record = {
+    color: "#3B82F6",
+    is_active: true,
+    default_probability: 20,
+    ...input,
+    name,
+    order_index: stages.reduce((max, stage) => Math.max(max, stage.order_index), -1) + 1,
+  };
+
+  if (IS_SUPABASE_MODE) {
+    const { data, error } = await supabase.from("pipeline_stages").insert([record]).select().single();
+    if (error) throw error;
+    return withLocalPipeline(data);
+  }
+
+  const stage: PipelineStage = {
+    id: generateId(),
+    pipeline_id: LOCAL_PIPELINE.id,
+    ...record,
+    created_at: now,
+    updated_at: now,
+  };
+  demoData.stages.push(stage);
+  return stage;
+}
+
+/** Renombrar una etapa mueve a ella los deals que tenían el nombre anterior. */
+export async function updatePipelineStage(id: string, patch: PipelineStageInput): Promise<PipelineStage> {
+  if (IS_API_MODE) return api.updatePipelineStage(id, patch);
+  const stages = await getPipelineStages();
+  const current = stages.find((stage) => stage.id === id);
+  if (!current) throw new Error("Pipeline stage not found");
+
+  const name = patch.name?.trim();
+  if (patch.name !== undefined && !name) throw new Error("El nombre de la etapa es obligatorio");
+  if (name) assertUniqueStageName(stages, name, id);
+  if (patch.is_active === false && getActiveStages(stages).every((stage) => stage.id === id)) {
+    throw new Error("El pipeline necesita al menos una etapa activa");
+  }
+
+  const normalizedPatch = { ...patch, ...(name ? { name } : {}), updated_at: new Date().toISOString() };
+  const renamed = name && name !== current.name;
+
+  if (IS_SUPABASE_MODE) {
+    const { data, error } = await supabase
+      .from("pipeline_stages")
+      .update(normalizedPatch)
+      .eq("id", id)
+      .select()
+      .single();
+    if (error) throw error;
+    if (renamed) {
+      const { error: dealsError } = await supabase.from("deals").update({ stage: name }).eq("stage", current.name);
+      if (dealsError) throw dealsError;
+    }
+    return withLocalPipeline(data);
+  }
+
+  const updated: PipelineStage = { ...current, ...normalizedPatch };
+  demoData.stages = demoData.stages.map((stage) => (stage.id === id ? updated : stage));
+  if (renamed) {
+    demoData.deals = demoData.deals.map((deal) => (deal.stage === current.name ? { ...deal, stage: name } : deal));
+  }
+  return updated;
+}
+
+export async function reorderPipelineStages(ids: string[]): Promise<PipelineStage[]> {
+  if (IS_API_MODE) return api.reorderPipelineStages(ids);
+  const stages = await getPipelineStages();
+  const known = new Set(stages.map((stage) => stage.id));
+  if (ids.length !== known.size || new Set(ids).size !== ids.length || ids.some((id) => !known.has(id))) {
+    throw new Error("El nuevo orden debe incluir todas las etapas una sola vez");
+  }
+
+  if (IS_SUPABASE_MODE) {
+    for (let index = 0; index < ids.length; index++) {
+      const { error } = await supabase.from("pipeline_stages").update({ order_index: index }).eq("id", ids[index]);
+      if (error) throw error;
+    }
+    return getPipelineStages();
+  }
+
+  demoData.stages = demoData.stages.map((stage) => ({ ...stage, order_index: ids.indexOf(stage.id) }));
+  return getPipelineStages();
+}
+
 /* ==============
    QUERIES: DEALS
    ============== */
 export async function getDeals(): Promise<Deal[]> {
+  if (IS_API_MODE) return api.getDeals();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -332,6 +463,7 @@ export async function getDeals(): Promise<Deal[]> {
 }
 
 export async function getHotDeal(): Promise<Deal[]> {
+  if (IS_API_MODE) return api.getHotDeal();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -359,6 +491,7 @@ export async function getHotDeal(): Promise<Deal[]> {
 }
 
 export async function getStalledDeals(): Promise<Deal[]> {
+  if (IS_API_MODE) return api.getStalledDeals();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -390,6 +523,7 @@ export async function getStalledDeals(): Promise<Deal[]> {
 }
 
 export async function getQuickMetrics(): Promise<{ open: number; won: number; lost: number; sumOpen: number; }> {
+  if (IS_API_MODE) return api.getQuickMetrics();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     
@@ -438,7 +572,10 @@ export async function addDeal(
     contact_id?: string;
   },
 ): Promise<Deal> {
+  if (IS_API_MODE) return api.addDeal(payload);
   const now = new Date().toISOString();
+  const stages = await getPipelineStages();
+  const stage = payload.stage || getInitialStage(stages);
 
   const trimmedNextStep = payload.next_step?.toString().trim() ?? "";
   if (!trimmedNextStep) {
@@ -456,14 +593,14 @@ export async function addDeal(
   const draftForInsights: Partial<Deal> = {
     ...payload,
     amount,
-    stage: payload.stage || "Prospección",
+    stage,
     last_activity: payload.last_activity ?? now,
     inactivity_days: payload.inactivity_days ?? 0,
     next_step: trimmedNextStep,
     target_close_date: payload.target_close_date,
   };
 
-  const { probability, priority, risk_level } = inferDealInsights(draftForInsights);
+  const { probability, priority, risk_level } = inferDealInsights(draftForInsights, stages);
 
   const normalizedPayload = {
     ...payload,
@@ -472,7 +609,7 @@ export async function addDeal(
     priority: payload.priority ?? priority,
     risk_level: payload.risk_level ?? risk_level,
     probability: clamp(payload.probability ?? probability, 0, 100),
-    stage: payload.stage || "Prospección",
+    stage,
     updated_at: now,
     created_at: payload.created_at ?? now,
     last_activity: draftForInsights.last_activity,
@@ -481,6 +618,8 @@ export async function addDeal(
     next_step: trimmedNextStep,
     target_close_date: payload.target_close_date,
     close_reason: null,
+    // Sin API solo existe LOCAL_PIPELINE
+    pipeline_id: undefined,
   } as Omit<Deal, "id">;
 
   if (IS_SUPABASE_MODE) {
@@ -522,6 +661,7 @@ export async function addDeal(
    QUERIES: CONTACTS
    ================= */
 export async function getContacts(): Promise<Contact[]> {
+  if (IS_API_MODE) return api.getContacts();
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -537,6 +677,7 @@ export async function getContacts(): Promise<Contact[]> {
 export async function addContact(
   payload: Omit<Contact, "id" | "inserted_at">,
 ): Promise<Contact> {
+  if (IS_API_MODE) return api.addContact(payload);
   let companyId = payload.company_id;
   let companyName = payload.company?.trim() || undefined;
 
@@ -595,39 +736,14 @@ export async function addContact(
    UPDATE/DELETE FUNCTIONS
    ============== */
 export async function updateDeal(id: string, patch: Partial<Deal>): Promise<Deal> {
+  if (IS_API_MODE) return api.updateDeal(id, patch);
+  const stages = await getPipelineStages();
+  const closingStage = getClosingStage(stages);
   const normalizedPatch: Partial<Deal> = {
     ...patch,
     updated_at: new Date().toISOString(),
   };
 
-  const enforceCoreFields = (draft: Partial<Deal>) => {
-    const nextStepCandidate = (draft.next_step ?? "").toString().trim();
-    if (!nextStepCandidate) {
-      throw new Error("NEXT_STEP_REQUIRED");
-    }
-    draft.next_step = nextStepCandidate;
-
-    if (!draft.target_close_date) {
-      throw new Error("TARGET_CLOSE_REQUIRED");
-    }
-
-    const statusCandidate = (draft.status ?? "Open") as Deal["status"];
-    if (statusCandidate === "Won" || statusCandidate === "Lost") {
-      const reason = (draft.close_reason ?? "").toString().trim();
-      if (!reason) {
-        throw new Error("CLOSE_REASON_REQUIRED");
-      }
-      draft.close_reason = reason;
-      draft.status = statusCandidate;
-      draft.stage = "Cierre";
-    } else {
-      draft.status = "Open";
-      draft.close_reason = null;
-    }
-
-    return draft;
-  };
-
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data: current, error: fetchError } = await supabase
@@ -646,17 +762,17 @@ export async function updateDeal(id: string, patch: Partial<Deal>): Promise<Deal
       close_reason:
         normalizedPatch.close_reason ?? current?.close_reason ?? undefined,
       status: normalizedPatch.status ?? current?.status ?? "Open",
-    });
+    }, closingStage);
 
     normalizedPatch.next_step = draft.next_step;
     normalizedPatch.target_close_date = draft.target_close_date;
     normalizedPatch.close_reason = draft.close_reason;
     normalizedPatch.status = draft.status;
     if (draft.status !== "Open") {
-      normalizedPatch.stage = "Cierre";
+      normalizedPatch.stage = closingStage;
     }
 
-    const auto = inferDealInsights(draft);
+    const auto = inferDealInsights(draft, stages);
     if (patch.probability === undefined) normalizedPatch.probability = auto.probability;
     if (patch.priority === undefined) normalizedPatch.priority = auto.priority;
     if (patch.risk_level === undefined) normalizedPatch.risk_level = auto.risk_level;
@@ -669,16 +785,7 @@ export async function updateDeal(id: string, patch: Partial<Deal>): Promise<Deal
       .single();
     if (error) throw error;
     if (data) {
-      const changes: string[] = [];
-      if (current?.stage !== data.stage) {
-        changes.push(`Etapa: ${current?.stage ?? ""} → ${data.stage}`);
-      }
-      if (current?.probability !== data.probability) {
-        changes.push(`Probabilidad: ${current?.probability ?? 0}% → ${data.probability ?? 0}%`);
-      }
-      if (current?.status !== data.status) {
-        changes.push(`Estado: ${current?.status ?? ""} → ${data.status}`);
-      }
+      const changes = describeDealChanges(current ?? {}, data);
 
       logTimelineEntry({
         type: "deal_updated",
@@ -697,24 +804,15 @@ export async function updateDeal(id: string, patch: Partial<Deal>): Promise<Deal
   const idx = demoData.deals.findIndex((d) => d.id === id);
   if (idx === -1) throw new Error("Deal not found");
   const previous = demoData.deals[idx];
-  const draft = enforceCoreFields({ ...previous, ...normalizedPatch });
+  const draft = enforceCoreFields({ ...previous, ...normalizedPatch }, closingStage);
 
-  const auto = inferDealInsights(draft);
+  const auto = inferDealInsights(draft, stages);
   if (patch.probability === undefined) draft.probability = auto.probability;
   if (patch.priority === undefined) draft.priority = auto.priority;
   if (patch.risk_level === undefined) draft.risk_level = auto.risk_level;
   demoData.deals[idx] = draft as Deal;
 
-  const changes: string[] = [];
-  if (previous.stage !== draft.stage) {
-    changes.push(`Etapa: ${previous.stage ?? ""} → ${draft.stage ?? ""}`);
-  }
-  if (previous.probability !== draft.probability) {
-    changes.push(`Probabilidad: ${previous.probability ?? 0}% → ${draft.probability ?? 0}%`);
-  }
-  if (previous.status !== draft.status) {
-    changes.push(`Estado: ${previous.status ?? ""} → ${draft.status ?? ""}`);
-  }
+  const changes = describeDealChanges(previous, draft);
 
   logTimelineEntry({
     type: "deal_updated",
@@ -734,6 +832,7 @@ export async function updateDeal(id: string, patch: Partial<Deal>): Promise<Deal
 }
 
 export async function deleteDeal(id: string): Promise<void> {
+  if (IS_API_MODE) return api.deleteDeal(id);
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -766,6 +865,7 @@ export async function deleteDeal(id: string): Promise<void> {
 }
 
 export async function updateContact(id: string, patch: Partial<Contact>): Promise<Contact> {
+  if (IS_API_MODE) return api.updateContact(id, patch);
   let normalizedPatch = { ...patch } as Partial<Contact>;
 
   if (patch.company) {
@@ -815,6 +915,7 @@ export async function updateContact(id: string, patch: Partial<Contact>): Promis
 }
 
 export async function deleteContact(id: string): Promise<void> {
+  if (IS_API_MODE) return api.deleteContact(id);
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -911,6 +1012,22 @@ function logTimelineEntry(
     created_at: entry.created_at ?? new Date().toISOString(),
   } as TimelineEntry;
 
+  if (IS_API_MODE) {
+    api
+      .addTimelineEntry({
+        type: payload.type,
+        description: payload.description,
+        entity_type: payload.entity_type,
+        entity_id: payload.entity_id,
+        user_id: payload.user_id,
+        metadata: payload.metadata,
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to log timeline entry", error);
+      });
+    return;
+  }
+
   if (IS_SUPABASE_MODE) {
     ensureSupabase()
       .then(() =>
@@ -938,6 +1055,7 @@ function logTimelineEntry(
 }
 
 export async function getRecentActivity(limit = 10): Promise<TimelineEntry[]> {
+  if (IS_API_MODE) return api.getTimeline({ limit });
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
     const { data, error } = await supabase
@@ -960,6 +1078,7 @@ export async function getDealTimeline(
   limit = 30,
 ): Promise<TimelineEntry[]> {
   if (!dealId) return [];
+  if (IS_API_MODE) return api.getTimeline({ entity_type: "deal", entity_id: dealId, limit });
 
   if (IS_SUPABASE_MODE) {
     await ensureSupabase();
@@ -980,6 +1099,122 @@ export async function getDealTimeline(
     .slice(0, limit);
 }
 
+// El historial estructurado de etapas solo existe en el servidor (deal_stage_transitions)
+export async function getDealStageTransitions(dealId: string): Promise<DealStageTransition[]> {
+  if (!dealId || !IS_API_MODE) return [];
+  return api.getDealStageTransitions(dealId);
+}
+
+/**
+ * Funnel histórico. Sin API no hay deal_stage_transitions: se aproxima con el
+ * alta de cada deal en su etapa actual y, si está cerrado, su cierre.
+ */
+export async function getFunnelReport(params: api.FunnelParams & { from: string; to: string }): Promise<FunnelReport> {
+  if (IS_API_MODE) return api.getFunnelReport(params);
+  const [deals, stages] = await Promise.all([getDeals(), getPipelineStages()]);
+  const selected = deals.filter(
+    (deal) =>
+      (!params.owner_id || deal.owner_id === params.owner_id) &&
+      (!params.cohort || getCohortMonth(deal.created_at) === params.cohort),
+  );
+  const transitions: FunnelTransition[] = selected
+    .flatMap((deal) => {
+      const created = {
+        deal_id: deal.id,
+        pipeline_id: LOCAL_PIPELINE.id,
+        from_stage: null,
+        to_stage: deal.stage,
+        to_status: "Open",
+        changed_at: deal.created_at,
+      };
+      if (!deal.status || deal.status === "Open") return [created];
+      return [created, { ...created, from_stage: deal.stage, to_status: deal.status, changed_at: deal.updated_at }];
+    })
+    .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+  return buildFunnelReport({
+    pipelineId: LOCAL_PIPELINE.id,
+    isDefaultPipeline: true,
+    stages,
+    deals: selected,
+    transitions,
+    from: new Date(params.from),
+    to: new Date(params.to),
+  });
+}
+
+/**
+ * Totales de deals por empresa. Sin API los deals de ejemplo no traen
+ * `company_id`: se emparejan por nombre normalizado.
+ */
+export async function getCompanyRollups(): Promise<CompanyDealRollup[]> {
+  if (IS_API_MODE) return api.getCompanyRollups();
+  const [deals, companies] = await Promise.all([getDeals(), getCompanies()]);
+  const byKey = new Map(companies.map((company) => [normalizeCompanyName(company.name), company.id]));
+  return buildCompanyRollups(
+    deals.map((deal) => ({ ...deal, company_id: deal.company_id ?? byKey.get(normalizeCompanyName(deal.company)) })),
+  );
+}
+
+/** Entradas de actividad que muestra la ficha de empresa, como en el servidor. */
+const COMPANY_TIMELINE_LIMIT = 50;
+
+async function getEntitiesTimeline(entityIds: string[], limit: number): Promise<TimelineEntry[]> {
+  if (!entityIds.length) return [];
+  if (IS_SUPABASE_MODE) {
+    await ensureSupabase();
+    const { data, error } = await supabase
+      .from("timeline_entries")
+      .select("*")
+      .in("entity_id", entityIds)
+      .order("created_at", { descending: true })
+      .limit(limit);
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  const ids = new Set(entityIds);
+  return demoData.timeline
+    .filter((entry) => ids.has(entry.entity_id))
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Ficha 360 de una empresa. Sin API se compone en el cliente: contactos y
+ * deals se emparejan por `company_id` o, si no lo traen, por nombre normalizado.
+ */
+export async function getCompanyOverview(id: string): Promise<api.CompanyOverview> {
+  if (IS_API_MODE) return api.getCompanyOverview(id);
+  const company = await getCompanyById(id);
+  if (!company) throw new Error("Company not found");
+
+  const key = normalizeCompanyName(company.name);
+  const belongs = (record: { company_id?: string | null; company?: string | null }) =>
+    record.company_id ? record.company_id === id : !!key && normalizeCompanyName(record.company) === key;
+  const [allContacts, allDeals, allTasks] = await Promise.all([getContacts(), getDeals(), getTasks()]);
+  const contacts = allContacts.filter(belongs).map((contact) => ({ ...contact, company: company.name }));
+  const deals = allDeals.filter(belongs).map((deal) => ({ ...deal, company_id: id }));
+  const dealIds = new Set(deals.map((deal) => deal.id));
+  const contactIds = new Set(contacts.map((contact) => contact.id));
+  const tasks = allTasks.filter(
+    (task) => (task.deal_id && dealIds.has(task.deal_id)) || (task.contact_id && contactIds.has(task.contact_id)),
+  );
+  const timeline = await getEntitiesTimeline(
+    [id, ...Array.from(contactIds), ...Array.from(dealIds), ...tasks.map((task) => task.id)],
+    COMPANY_TIMELINE_LIMIT,
+  );
+
+  return {
+    company,
+    contacts,
+    deals,
+    tasks,
+    timeline,
+    rollup: buildCompanyRollups(deals)[0] ?? emptyCompanyRollup(id),
+  };
+}
+
 export async function logDealAlertResolution({
   dealId,
   reason,
@@ -1003,6 +1238,7 @@ export async function logDealAlertResolution({
    SEED DE DATOS DEMO
    ===================== */
 export async function seedDemo(): Promise<void> {
+  if (IS_API_MODE) return api.seedDemo();
   const now = new Date();
   const tomorrow = new Date(now);
   tomorrow.setDate(tomorrow.getDate() + 1);
@@ -0,0 +1,95 @@
+// Orden y agrupación de los listados según la vista (query string o vista guardada).
+import type { ViewSort } from "@shared/savedViews";
+
+export type ViewValue = string | number | null | undefined;
+
+/** Valor por el que se ordena cada clave de orden de la vista. */
+export type ViewSortAccessors<T> = Record<string, (record: T) => ViewValue>;
+
+export interface ViewGrouping<T> {
+  value: (record: T) => string | null | undefined;
+  /** Orden de los grupos conocidos; el resto va detrás, por nombre. */
+  order?: readonly string[];
+}
+
+export type ViewGroupings<T> = Record<string, ViewGrouping<T>>;
+
+function compareValues(a: ViewValue, b: ViewValue): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), "es", { sensitivity: "base", numeric: true });
+}
+
+const isEmpty = (value: ViewValue) => value === null || value === undefined || value === "";
+
+function groupRank<T>(grouping: ViewGrouping<T>, value: string | null | undefined): number {
+  if (!value) return Number.MAX_SAFE_INTEGER;
+  const index = grouping.order?.indexOf(value) ?? -1;
+  return index === -1 ? (grouping.order?.length ?? 0) : index;
+}
+
+/** Grupo de un registro; "" si no tiene valor para el campo. */
+export function viewGroupValue<T>(record: T, groupBy: string | null, groupings: ViewGroupings<T>): string {
+  const grouping = groupBy ? groupings[groupBy] : undefined;
+  return grouping?.value(record) ?? "";
+}
+
+/**
+ * Registros en el orden de la vista: primero por grupo (los del mismo grupo
+ * quedan juntos) y dentro de cada grupo por la clave de orden. Los vacíos van
+ * al final en ambos sentidos; sin orden se conserva el original.
+ */
+export function arrangeForView<T>(
+  records: readonly T[],
+  view: { sort: ViewSort | null; groupBy: string | null },
+  sorts: ViewSortAccessors<T>,
+  groupings: ViewGroupings<T> = {},
+): T[] {
+  const accessor = view.sort ? sorts[view.sort.key] : undefined;
+  const grouping = view.groupBy ? groupings[view.groupBy] : undefined;
+  if (!accessor && !grouping) return records.slice();
+  const direction = view.sort?.direction === "desc" ? -1 : 1;
+
+  return records
+    .map((record, index) => ({ record, index }))
+    .sort((a, b) => {
+      if (grouping) {
+        const groupA = grouping.value(a.record);
+        const groupB = grouping.value(b.record);
+        const byRank = groupRank(grouping, groupA) - groupRank(grouping, groupB);
+        if (byRank) return byRank;
+        const byName = compareValues(groupA ?? "", groupB ?? "");
+        if (byName) return byName;
+      }
+      if (accessor) {
+        const valueA = accessor(a.record);
+        const valueB = accessor(b.record);
+        if (isEmpty(valueA) !== isEmpty(valueB)) return isEmpty(valueA) ? 1 : -1;
+        const byValue = isEmpty(valueA) ? 0 : compareValues(valueA, valueB) * direction;
+        if (byValue) return byValue;
+      }
+      return a.index - b.index;
+    })
+    .map(({ record }) => record);
+}
+
+/** Registros por grupo, para el contador de cada cabecera. */
+export function countViewGroups<T>(
+  records: readonly T[],
+  groupBy: string | null,
+  groupings: ViewGroupings<T>,
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  if (!groupBy || !groupings[groupBy]) return counts;
+  records.forEach((record) => {
+    const key = viewGroupValue(record, groupBy, groupings);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/** Fecha como número para ordenar; null si no hay o no se entiende. */
+export function dateValue(value: string | Date | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
@@ -1,11 +1,28 @@
 import { calculateDealScore, calculateRiskLevel } from "@/lib/scoring";
-import type { Deal, Priority, RiskLevel, Task } from "@/lib/types";
-
-export const SLA_THRESHOLDS: Record<Priority, number> = {
-  Hot: 3,
-  Warm: 7,
-  Cold: 14,
-};
+import type { Deal, PipelineStage, Priority, RiskLevel, Task } from "@/lib/types";
+import {
+  compareDealAlertSeverity,
+  evaluateDealAlertRules,
+  resolveDealAlertRules,
+  type DealAlertHit,
+  type DealAlertRule,
+  type DealAlertRuleConfig,
+  type DealAlertSeverity,
+} from "@shared/dealAlerts";
+import { findStage } from "@shared/pipelineStages";
+import {
+  DEFAULT_SLA_THRESHOLDS,
+  resolveSlaPolicy,
+  riskThresholds,
+  slaDaysFor,
+  type SlaPolicy,
+  type SlaPolicyScope,
+} from "@shared/slaPolicies";
+
+export type { DealAlertSeverity } from "@shared/dealAlerts";
+export { buildAlertsChannelPayload, type AlertsChannelPayload } from "@shared/alertChannels";
+
+export const SLA_THRESHOLDS: Record<Priority, number> = DEFAULT_SLA_THRESHOLDS;
 
 const dayMs = 1000 * 60 * 60 * 24;
 
@@ -19,6 +36,26 @@ function computeInactivityDays(deal: Deal): number {
   return Math.max(0, Math.floor((Date.now() - last.getTime()) / dayMs));
 }
 
+/** Dónde está cada deal y qué política de SLA le toca. */
+export interface DealPolicyContext {
+  /** Etapas de todos los pipelines. */
+  stages?: readonly PipelineStage[];
+  /** Pipeline de los deals sin `pipeline_id`. */
+  defaultPipelineId?: string | null;
+  /** Política general y las de cada etapa; sin ellas, los valores por defecto. */
+  slaPolicies?: readonly SlaPolicyScope[];
+}
+
+function dealStage(deal: Deal, context: DealPolicyContext): PipelineStage | undefined {
+  const pipelineId = deal.pipeline_id ?? context.defaultPipelineId;
+  const stages = (context.stages ?? []).filter((stage) => stage.pipeline_id === pipelineId);
+  return findStage(stages, deal.stage);
+}
+
+export function dealSlaPolicy(deal: Deal, context: DealPolicyContext = {}): SlaPolicy {
+  return resolveSlaPolicy(context.slaPolicies ?? [], dealStage(deal, context)?.id);
+}
+
 export interface DealAttention {
   deal: Deal;
   priority: Priority;
@@ -28,15 +65,16 @@ export interface DealAttention {
   reasons: string[];
 }
 
-export function computeDealAttention(deals: Deal[]): DealAttention[] {
+export function computeDealAttention(deals: Deal[], context: DealPolicyContext = {}): DealAttention[] {
   return deals
     .filter((deal) => deal.status === "Open")
     .map((deal) => {
+      const policy = dealSlaPolicy(deal, context);
       const scoring = calculateDealScore(deal);
-      const risk = calculateRiskLevel(deal);
+      const risk = calculateRiskLevel(deal, riskThresholds(policy));
       const inactivity = computeInactivityDays(deal);
       const priority = scoring.priority ?? (deal.priority as Priority | undefined) ?? "Cold";
-      const threshold = SLA_THRESHOLDS[priority] ?? SLA_THRESHOLDS.Cold;
+      const threshold = slaDaysFor(policy, priority);
 
       const reasons: string[] = [];
 
@@ -75,10 +113,9 @@ export function computeDealAttention(deals: Deal[]): DealAttention[] {
     .sort((a, b) => b.score - a.score);
 }
 
-export type DealAlertType = "missing_next_step" | "target_overdue";
-
-export type DealAlertSeverity = "warning" | "critical";
+export type DealAlertType = DealAlertRule;
 
+/** Alerta de un deal: la regla más grave manda en tipo, severidad, mensaje y acción. */
 export interface DealAlert {
   deal: Deal;
   type: DealAlertType;
@@ -89,104 +126,55 @@ export interface DealAlert {
   priority: Priority;
   risk: RiskLevel;
   score: number;
+  /** Todas las reglas que saltan, las críticas primero. */
+  hits: DealAlertHit[];
 }
 
-function buildAlertRecommendation(alert: {
-  hasMissingStep: boolean;
-  hasOverdueDate: boolean;
-  inactivity: number;
-}): string {
-  if (alert.hasOverdueDate) {
-    return "Contacta hoy, renegocia la fecha objetivo y deja registro del próximo paso.";
-  }
-
-  if (alert.inactivity >= 7) {
-    return "Agenda un follow-up y documenta el próximo paso para reactivar la cuenta.";
-  }
-
-  if (alert.hasMissingStep) {
-    return "Define un próximo paso concreto (llamada, demo o propuesta) y compártelo con el equipo.";
-  }
-
-  return "Actualiza el deal con la información más reciente.";
+export interface DetectDealAlertsOptions extends DealPolicyContext {
+  /** Reglas configuradas; por defecto, las del catálogo. */
+  rules?: readonly DealAlertRuleConfig[];
+  now?: Date;
 }
 
-export function detectDealAlerts(deals: Deal[]): DealAlert[] {
-  const attention = computeDealAttention(deals);
-
-  return attention
-    .map(({ deal, reasons, inactivity, risk, priority, score }) => {
-      const missingNextStep = reasons.find((reason) => reason.toLowerCase().includes("próximo paso"));
-      const overdue = reasons.find((reason) => reason.toLowerCase().includes("fecha objetivo"));
-
-      if (!missingNextStep && !overdue) {
-        return null;
-      }
-
-      const severity: DealAlertSeverity = overdue ? "critical" : "warning";
-      const type: DealAlertType = overdue ? "target_overdue" : "missing_next_step";
-      const message = overdue
-        ? `${deal.title} tiene la fecha objetivo vencida`
-        : `${deal.title} no tiene próximo paso definido`;
-
-      const recommendedAction = buildAlertRecommendation({
-        hasMissingStep: Boolean(missingNextStep),
-        hasOverdueDate: Boolean(overdue),
-        inactivity,
-      });
-
-      const filteredReasons = reasons.filter((reason) => {
-        if (reason.toLowerCase().includes("próximo paso")) return true;
-        if (reason.toLowerCase().includes("fecha objetivo")) return true;
-        return false;
-      });
+export function detectDealAlerts(deals: Deal[], options: DetectDealAlertsOptions = {}): DealAlert[] {
+  const rules = options.rules ?? resolveDealAlertRules();
+  const now = options.now ?? new Date();
 
+  return deals
+    .filter((deal) => deal.status === "Open")
+    .map((deal) => {
+      const stage = dealStage(deal, options);
+      const policy = resolveSlaPolicy(options.slaPolicies ?? [], stage?.id);
+      const scoring = calculateDealScore(deal);
+      const priority = scoring.priority ?? (deal.priority as Priority | undefined) ?? "Cold";
+      const hits = evaluateDealAlertRules(
+        {
+          ...deal,
+          priority,
+          inactivity: computeInactivityDays(deal),
+          sla_days: slaDaysFor(policy, priority),
+          stage_probability: stage?.default_probability ?? null,
+        },
+        rules,
+        now,
+      );
+      if (!hits.length) return null;
+      const [top] = hits;
       return {
         deal,
-        type,
-        severity,
-        reasons: filteredReasons,
-        message,
-        recommendedAction,
+        type: top.rule,
+        severity: top.severity,
+        reasons: hits.map((hit) => hit.reason),
+        message: top.message,
+        recommendedAction: top.recommendedAction,
         priority,
-        risk,
-        score,
+        risk: calculateRiskLevel(deal, riskThresholds(policy)),
+        score: scoring.score,
+        hits,
       } satisfies DealAlert;
     })
     .filter((alert): alert is DealAlert => alert !== null)
-    .sort((a, b) => (a.severity === b.severity ? b.score - a.score : a.severity === "critical" ? -1 : 1));
-}
-
-export interface AlertsChannelPayload {
-  text: string;
-  attachments: Array<{
-    title: string;
-    body: string;
-    severity: DealAlertSeverity;
-  }>;
-}
-
-export function buildAlertsChannelPayload(alerts: DealAlert[]): AlertsChannelPayload {
-  if (alerts.length === 0) {
-    return {
-      text: "✅ Sin alertas críticas en el pipeline. Buen trabajo equipo.",
-      attachments: [],
-    };
-  }
-
-  const headline = `⚠️ ${alerts.length} deal${alerts.length === 1 ? "" : "s"} requieren atención inmediata.`;
-  const attachments = alerts.map((alert) => ({
-    title: alert.message,
-    body: `${alert.deal.company ?? "Sin empresa"} · Prioridad ${alert.priority} · Riesgo ${alert.risk}. ${
-      alert.recommendedAction
-    }`,
-    severity: alert.severity,
-  }));
-
-  return {
-    text: [headline, ...attachments.map((item) => `• ${item.title}`)].join("\n"),
-    attachments,
-  };
+    .sort((a, b) => compareDealAlertSeverity(a.severity, b.severity) || b.score - a.score);
 }
 
 export interface DailyDigestContext {
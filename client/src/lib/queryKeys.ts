@@ -2,12 +2,43 @@ export const QUERY_KEYS = {
   tasks: ["tasks"] as const,
   deals: ["deals"] as const,
   contacts: ["contacts"] as const,
+  contactDuplicates: ["contactDuplicates"] as const,
   hotDeal: ["hotDeal"] as const,
   stalledDeals: ["stalledDeals"] as const,
   quickMetrics: ["quickMetrics"] as const,
+  funnel: ["funnel"] as const,
   companies: ["companies"] as const,
+  companyDuplicates: ["companyDuplicates"] as const,
+  // Cuelga de deals: cualquier invalidación de deals recalcula los totales por empresa
+  companyRollups: ["deals", "companyRollups"] as const,
+  // Cuelga de deals por lo mismo; el id de la empresa va detrás
+  companyOverview: ["deals", "companyOverview"] as const,
   timeline: ["timeline"] as const,
   dealTimeline: ["dealTimeline"] as const,
+  dealStageTransitions: ["dealStageTransitions"] as const,
+  currentUser: ["currentUser"] as const,
+  users: ["users"] as const,
+  pipelines: ["pipelines"] as const,
+  pipelineStages: ["pipelineStages"] as const,
+  imports: ["imports"] as const,
+  importRows: ["importRows"] as const,
+  // El listado va detrás
+  savedViews: ["savedViews"] as const,
+  // La entidad va detrás
+  customFields: ["customFields"] as const,
+  tags: ["tags"] as const,
+  automations: ["automations"] as const,
+  // El id de la regla va detrás
+  automationRuns: ["automations", "runs"] as const,
+  dealAlertRules: ["dealAlertRules"] as const,
+  dealAlertStates: ["dealAlertStates"] as const,
+  // El periodo va detrás
+  dealAlertReport: ["dealAlertStates", "report"] as const,
+  alertChannels: ["alertChannels"] as const,
+  // El id del canal va detrás
+  alertDeliveries: ["alertChannels", "deliveries"] as const,
+  slaPolicies: ["slaPolicies"] as const,
+  slaEscalations: ["slaPolicies", "escalations"] as const,
 } as const;
 
 export type QueryKey = typeof QUERY_KEYS[keyof typeof QUERY_KEYS];
@@ -0,0 +1,51 @@
+// Rutas del cliente: cada sección del dashboard y cada ficha tienen su URL,
+// y los filtros de los listados viajan en la query string.
+
+/** Sección del menú lateral → ruta. */
+export const SECTION_PATHS: Record<string, string> = {
+  Dashboard: "/",
+  Pipeline: "/pipeline",
+  Contactos: "/contacts",
+  Empresas: "/companies",
+  Tareas: "/tasks",
+  Métricas: "/metrics",
+  Equipo: "/team",
+};
+
+/** Fichas que se abren dentro de una sección. */
+const DETAIL_SECTIONS: Array<[RegExp, string]> = [
+  [/^\/deals\/[^/]+\/?$/, "Pipeline"],
+  [/^\/contacts\/[^/]+\/?$/, "Contactos"],
+  [/^\/companies\/[^/]+\/?$/, "Empresas"],
+];
+
+export const dealPath = (id: string) => `/deals/${encodeURIComponent(id)}`;
+export const contactPath = (id: string) => `/contacts/${encodeURIComponent(id)}`;
+export const companyPath = (id: string) => `/companies/${encodeURIComponent(id)}`;
+
+export function sectionPath(section: string): string {
+  return SECTION_PATHS[section] ?? "/";
+}
+
+/** Sección a la que pertenece una ruta; null si no es del dashboard. */
+export function sectionForPath(path: string): string | null {
+  const normalized = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  const section = Object.keys(SECTION_PATHS).find((label) => SECTION_PATHS[label] === normalized);
+  if (section) return section;
+  return DETAIL_SECTIONS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+}
+
+/**
+ * Query string con `patch` aplicado sobre `search`; los valores vacíos o
+ * null se quitan para que la URL solo lleve los filtros activos.
+ */
+export function updateSearch(search: string, patch: Record<string, string | null | undefined>): string {
+  const params = new URLSearchParams(search);
+  Object.keys(patch).forEach((key) => {
+    const value = patch[key];
+    if (value) params.set(key, value);
+    else params.delete(key);
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
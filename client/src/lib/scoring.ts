@@ -1,4 +1,15 @@
-import type { Deal, Contact, ScoringResult, ScoringFactors, Priority, RiskLevel } from './types';
+import type {
+  AccountHealthResult,
+  AccountHealthStatus,
+  Deal,
+  Contact,
+  ScoringResult,
+  ScoringFactors,
+  Priority,
+  RiskLevel,
+} from './types';
+import { DEFAULT_PIPELINE_STAGES, getStageRank, type StageDefinition } from '@shared/pipelineStages';
+import { DEFAULT_RISK_THRESHOLDS } from '@shared/slaPolicies';
 
 /**
  * Sistema de Scoring Inteligente para MindLab Pulse CRM
@@ -20,15 +31,6 @@ const SCORING_WEIGHTS = {
   timeInStage: 0.05,   // 5% - Tiempo en etapa actual (menos peso)
 } as const;
 
-// Configuración de etapas del pipeline (orden de importancia)
-const PIPELINE_STAGES = {
-  'Prospección': 1,
-  'Calificación': 2,
-  'Propuesta': 3,
-  'Negociación': 4,
-  'Cierre': 5,
-} as const;
-
 // Umbrales para prioridades
 const PRIORITY_THRESHOLDS = {
   Hot: 75,
@@ -36,18 +38,26 @@ const PRIORITY_THRESHOLDS = {
   Cold: 0,
 } as const;
 
-// Umbrales para niveles de riesgo
-const RISK_THRESHOLDS = {
-  Alto: 7,    // 7+ días de inactividad o fecha vencida
-  Medio: 3,   // 3-6 días de inactividad
-  Bajo: 0,    // 0-2 días de inactividad
+// Umbrales para la salud de una cuenta
+const HEALTH_THRESHOLDS = {
+  Buena: 55,
+  Atención: 30,
+} as const;
+
+// Puntos que resta a la salud de la cuenta el riesgo medio de sus deals abiertos
+const HEALTH_RISK_PENALTY = {
+  Alto: 25,
+  Medio: 10,
 } as const;
 
 /**
  * Calcula el score de un deal basado en múltiples factores
  */
-export function calculateDealScore(deal: Deal): ScoringResult {
-  const factors = calculateDealFactors(deal);
+export function calculateDealScore(
+  deal: Deal,
+  stages: readonly StageDefinition[] = DEFAULT_PIPELINE_STAGES,
+): ScoringResult {
+  const factors = calculateDealFactors(deal, stages);
   const score = calculateWeightedScore(factors);
   const priority = determinePriority(score);
   const reasoning = generateDealReasoning(deal, factors, score);
@@ -63,8 +73,12 @@ export function calculateDealScore(deal: Deal): ScoringResult {
 /**
  * Calcula el score de un contacto basado en su actividad y deals asociados
  */
-export function calculateContactScore(contact: Contact, deals: Deal[] = []): ScoringResult {
-  const factors = calculateContactFactors(contact, deals);
+export function calculateContactScore(
+  contact: Contact,
+  deals: Deal[] = [],
+  stages: readonly StageDefinition[] = DEFAULT_PIPELINE_STAGES,
+): ScoringResult {
+  const factors = calculateContactFactors(contact, deals, stages);
   const score = calculateWeightedScore(factors);
   const priority = determinePriority(score);
   const reasoning = generateContactReasoning(contact, factors, score);
@@ -77,10 +91,47 @@ export function calculateContactScore(contact: Contact, deals: Deal[] = []): Sco
   };
 }
 
+/**
+ * Salud de una cuenta a partir de sus deals, con los mismos factores que el
+ * scoring de deals: el pipeline abierto pesa por probabilidad, valor, actividad
+ * y etapa, y cada deal abierto en riesgo resta puntos. Sin pipeline abierto la
+ * probabilidad es la tasa de deals ganados.
+ */
+export function calculateAccountHealth(
+  deals: Deal[],
+  stages: readonly StageDefinition[] = DEFAULT_PIPELINE_STAGES,
+): AccountHealthResult {
+  const risk: Record<RiskLevel, number> = { Alto: 0, Medio: 0, Bajo: 0 };
+  if (deals.length === 0) {
+    const factors = { probability: 0, amount: 0, activity: 0, stage: 0, timeInStage: 0, lastActivity: 0 };
+    const reasoning = ['Sin deals con esta empresa'];
+    return { score: 0, priority: 'Cold', factors, reasoning, status: 'Sin datos', risk };
+  }
+
+  const open = deals.filter(deal => deal.status === 'Open');
+  open.forEach(deal => {
+    risk[calculateRiskLevel(deal)] += 1;
+  });
+  const factors = calculateAccountFactors(deals, open, stages);
+  const penalty = open.length
+    ? (risk.Alto * HEALTH_RISK_PENALTY.Alto + risk.Medio * HEALTH_RISK_PENALTY.Medio) / open.length
+    : 0;
+  const score = Math.max(0, Math.round(calculateWeightedScore(factors) - penalty));
+
+  return {
+    score,
+    priority: determinePriority(score),
+    factors,
+    reasoning: generateAccountReasoning(deals, open, risk, factors),
+    status: determineHealthStatus(score),
+    risk,
+  };
+}
+
 /**
  * Calcula los factores de scoring para un deal
  */
-function calculateDealFactors(deal: Deal): ScoringFactors {
+function calculateDealFactors(deal: Deal, stages: readonly StageDefinition[]): ScoringFactors {
   const now = new Date();
   const createdDate = new Date(deal.created_at);
   const lastActivity = deal.last_activity ? new Date(deal.last_activity) : createdDate;
@@ -96,10 +147,11 @@ function calculateDealFactors(deal: Deal): ScoringFactors {
   const activity = calculateActivityScore(lastActivity, now);
 
   // Factor de etapa (0-100)
-  const stage = calculateStageScore(deal.stage);
+  const stage = calculateStageScore(stages, deal.stage);
 
-  // Factor de tiempo en etapa (0-100)
-  const timeInStage = calculateTimeInStageScore(createdDate, now, deal.stage);
+  // Factor de tiempo en etapa (0-100); sin historial, desde la creación
+  const stageEnteredDate = deal.stage_entered_at ? new Date(deal.stage_entered_at) : createdDate;
+  const timeInStage = calculateTimeInStageScore(stages, stageEnteredDate, now, deal.stage);
 
   // Factor de última actividad (0-100)
   const lastActivityScore = calculateLastActivityScore(lastActivity, now);
@@ -117,7 +169,7 @@ function calculateDealFactors(deal: Deal): ScoringFactors {
 /**
  * Calcula los factores de scoring para un contacto
  */
-function calculateContactFactors(contact: Contact, deals: Deal[]): ScoringFactors {
+function calculateContactFactors(contact: Contact, deals: Deal[], stages: readonly StageDefinition[]): ScoringFactors {
   const now = new Date();
   const lastActivity = contact.last_activity ? new Date(contact.last_activity) : new Date(contact.created_at);
 
@@ -134,10 +186,9 @@ function calculateContactFactors(contact: Contact, deals: Deal[]): ScoringFactor
   const activity = calculateActivityScore(lastActivity, now);
 
   // Factor de etapa basado en el deal más avanzado
-  const maxStage = deals.length > 0 
-    ? Math.max(...deals.map(deal => PIPELINE_STAGES[deal.stage as keyof typeof PIPELINE_STAGES] || 1))
-    : 1;
-  const stage = (maxStage / 5) * 100;
+  const stage = deals.length > 0
+    ? Math.max(...deals.map(deal => calculateStageScore(stages, deal.stage)))
+    : calculateStageScore(stages, null);
 
   // Factor de tiempo en etapa (basado en el deal más antiguo)
   const oldestDeal = deals.length > 0 
@@ -146,7 +197,12 @@ function calculateContactFactors(contact: Contact, deals: Deal[]): ScoringFactor
       )
     : null;
   const timeInStage = oldestDeal 
-    ? calculateTimeInStageScore(new Date(oldestDeal.created_at), now, oldestDeal.stage)
+    ? calculateTimeInStageScore(
+        stages,
+        new Date(oldestDeal.stage_entered_at ?? oldestDeal.created_at),
+        now,
+        oldestDeal.stage,
+      )
     : 0;
 
   // Factor de última actividad
@@ -162,6 +218,49 @@ function calculateContactFactors(contact: Contact, deals: Deal[]): ScoringFactor
   };
 }
 
+/**
+ * Calcula los factores de salud de una cuenta: los de sus deals abiertos o,
+ * si no tiene, los de su historial
+ */
+function calculateAccountFactors(
+  deals: Deal[],
+  open: Deal[],
+  stages: readonly StageDefinition[],
+): ScoringFactors {
+  const now = new Date();
+  const latestActivity = new Date(
+    Math.max(...deals.map(deal => new Date(deal.last_activity ?? deal.created_at).getTime())),
+  );
+  const activity = calculateActivityScore(latestActivity, now);
+  const lastActivity = calculateLastActivityScore(latestActivity, now);
+
+  if (open.length === 0) {
+    const won = deals.filter(deal => deal.status === 'Won');
+    return {
+      probability: (won.length / deals.length) * 100,
+      amount: normalizeAmount(won.reduce((sum, deal) => sum + (deal.amount || 0), 0)),
+      activity,
+      stage: 0,
+      timeInStage: 0,
+      lastActivity,
+    };
+  }
+
+  // Cada deal abierto con sus propios factores; la cuenta suma el valor y promedia el resto
+  const perDeal = open.map(deal => calculateDealFactors(deal, stages));
+  const average = (pick: (factors: ScoringFactors) => number) =>
+    perDeal.reduce((sum, factors) => sum + pick(factors), 0) / perDeal.length;
+
+  return {
+    probability: average(factors => factors.probability),
+    amount: normalizeAmount(open.reduce((sum, deal) => sum + (deal.amount || 0), 0)),
+    activity,
+    stage: Math.max(...perDeal.map(factors => factors.stage)),
+    timeInStage: average(factors => factors.timeInStage),
+    lastActivity,
+  };
+}
+
 /**
  * Calcula el score ponderado final
  */
@@ -184,10 +283,20 @@ export function determinePriority(score: number): Priority {
   return 'Cold';
 }
 
+function determineHealthStatus(score: number): AccountHealthStatus {
+  if (score >= HEALTH_THRESHOLDS.Buena) return 'Buena';
+  if (score >= HEALTH_THRESHOLDS.Atención) return 'Atención';
+  return 'En riesgo';
+}
+
 /**
- * Calcula el nivel de riesgo de un deal
+ * Calcula el nivel de riesgo de un deal. Los umbrales de puntos salen de la
+ * política de SLA; sin ella, los valores por defecto.
  */
-export function calculateRiskLevel(deal: Deal): RiskLevel {
+export function calculateRiskLevel(
+  deal: Deal,
+  thresholds: Record<Exclude<RiskLevel, 'Bajo'>, number> = DEFAULT_RISK_THRESHOLDS,
+): RiskLevel {
   const now = new Date();
   const lastActivity = deal.last_activity ? new Date(deal.last_activity) : new Date(deal.created_at);
   const targetCloseDate = deal.target_close_date ? new Date(deal.target_close_date) : null;
@@ -212,8 +321,8 @@ export function calculateRiskLevel(deal: Deal): RiskLevel {
   // Sin actividad reciente
   if (daysSinceActivity > 7) riskScore += 1;
 
-  if (riskScore >= RISK_THRESHOLDS.Alto) return 'Alto';
-  if (riskScore >= RISK_THRESHOLDS.Medio) return 'Medio';
+  if (riskScore >= thresholds.Alto) return 'Alto';
+  if (riskScore >= thresholds.Medio) return 'Medio';
   return 'Bajo';
 }
 
@@ -241,17 +350,23 @@ function calculateActivityScore(lastActivity: Date, now: Date): number {
   return 0; // Más de un mes
 }
 
-function calculateStageScore(stage: string): number {
-  const stageValue = PIPELINE_STAGES[stage as keyof typeof PIPELINE_STAGES] || 1;
-  return (stageValue / 5) * 100;
+// Posición de la etapa en el pipeline configurado (la última activa = 100)
+function calculateStageScore(stages: readonly StageDefinition[], stage: string | null): number {
+  const { rank, total } = getStageRank(stages, stage);
+  return (rank / total) * 100;
 }
 
-function calculateTimeInStageScore(createdDate: Date, now: Date, stage: string): number {
-  const daysInStage = Math.floor((now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
-  const stageValue = PIPELINE_STAGES[stage as keyof typeof PIPELINE_STAGES] || 1;
+function calculateTimeInStageScore(
+  stages: readonly StageDefinition[],
+  stageEnteredDate: Date,
+  now: Date,
+  stage: string,
+): number {
+  const daysInStage = Math.floor((now.getTime() - stageEnteredDate.getTime()) / (1000 * 60 * 60 * 24));
+  const { rank } = getStageRank(stages, stage);
   
   // Etapas tempranas pueden estar más tiempo, etapas avanzadas menos
-  const maxDays = stageValue === 1 ? 30 : stageValue === 2 ? 21 : stageValue === 3 ? 14 : 7;
+  const maxDays = rank === 1 ? 30 : rank === 2 ? 21 : rank === 3 ? 14 : 7;
   
   if (daysInStage <= maxDays / 3) return 100; // Recién llegado
   if (daysInStage <= maxDays * 2 / 3) return 70; // Tiempo normal
@@ -291,6 +406,28 @@ function generateContactReasoning(contact: Contact, factors: ScoringFactors, sco
   return reasoning;
 }
 
+function generateAccountReasoning(
+  deals: Deal[],
+  open: Deal[],
+  risk: Record<RiskLevel, number>,
+  factors: ScoringFactors,
+): string[] {
+  const reasoning: string[] = [];
+
+  if (open.length === 0) {
+    reasoning.push(`Sin pipeline abierto`);
+    const won = deals.filter(deal => deal.status === 'Won').length;
+    if (won > 0) reasoning.push(`${won} de ${deals.length} deals ganados`);
+  }
+  if (risk.Alto > 0) reasoning.push(`${risk.Alto} deal(s) abiertos con riesgo alto`);
+  if (factors.probability > 70) reasoning.push(`Alta probabilidad de cierre (${Math.round(factors.probability)}%)`);
+  if (factors.amount > 60) reasoning.push(`Cuenta de alto valor`);
+  if (factors.activity > 80) reasoning.push(`Actividad reciente`);
+  if (factors.activity <= 20) reasoning.push(`Sin actividad en el último mes`);
+
+  return reasoning;
+}
+
 /**
  * Recalcula scores para todos los deals y contactos
  * Esta función se puede llamar periódicamente para mantener scores actualizados
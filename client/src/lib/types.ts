@@ -1,3 +1,6 @@
+import type { CustomFieldValues } from "@shared/customFields";
+import type { DealAlertSensitivity } from "@shared/dealAlerts";
+
 // Enums
 export type TaskState = 'To Do' | 'Doing' | 'Waiting' | 'Done';
 export type TaskPriority = 'Baja' | 'Media' | 'Alta';
@@ -12,6 +15,9 @@ export interface User {
   email?: string;
   full_name?: string;
   role: string;
+  manager_id?: string | null;
+  /** Qué alertas ve en el dashboard (modo API). */
+  alert_sensitivity?: DealAlertSensitivity;
   created_at: string;
   updated_at: string;
 }
@@ -27,6 +33,8 @@ export interface Company {
   description?: string;
   score: number;
   priority: Priority;
+  custom_fields?: CustomFieldValues;
+  tag_ids?: string[];
   created_at: string;
   updated_at: string;
 }
@@ -44,6 +52,8 @@ export interface Contact {
   priority: Priority;
   last_activity?: string;
   owner_id?: string;
+  custom_fields?: CustomFieldValues;
+  tag_ids?: string[];
   created_at: string;
   updated_at: string;
   // Relations
@@ -54,6 +64,7 @@ export interface Deal {
   id: string;
   title: string;
   company?: string;
+  company_id?: string | null;
   amount?: number;
   stage: string;
   probability: number;
@@ -67,8 +78,16 @@ export interface Deal {
   inactivity_days: number;
   contact_id?: string;
   owner_id?: string;
+  pipeline_id?: string | null;
+  stage_entered_at?: string | null;
   close_reason?: string | null;
+  /** Importe antes del último cambio de importe (solo con la API). */
+  previous_amount?: number | null;
+  /** Veces que se ha retrasado la fecha objetivo (solo con la API). */
+  close_date_slips?: number | null;
   description?: string | null;
+  custom_fields?: CustomFieldValues;
+  tag_ids?: string[];
   created_at: string;
   updated_at: string;
   // Relations
@@ -87,6 +106,7 @@ export interface Task {
   deal_id?: string;
   contact_id?: string;
   notes?: string;
+  tag_ids?: string[];
   created_at: string;
   updated_at: string;
   // Relations
@@ -105,13 +125,39 @@ export interface TimelineEntry {
   created_at: string;
 }
 
+export interface Pipeline {
+  id: string;
+  name: string;
+  is_default: boolean;
+  order_index: number;
+  created_at: string;
+  updated_at?: string;
+}
+
 export interface PipelineStage {
   id: string;
+  pipeline_id: string;
   name: string;
   order_index: number;
   color: string;
   is_active: boolean;
+  default_probability: number;
   created_at: string;
+  updated_at?: string;
+}
+
+export interface DealStageTransition {
+  id: string;
+  deal_id: string;
+  pipeline_id: string | null;
+  from_stage: string | null;
+  to_stage: string;
+  from_status: DealStatus | null;
+  to_status: DealStatus;
+  from_probability: number | null;
+  to_probability: number | null;
+  changed_by: string | null;
+  changed_at: string;
 }
 
 // Scoring interfaces
@@ -131,6 +177,14 @@ export interface ScoringResult {
   reasoning: string[];
 }
 
+export type AccountHealthStatus = 'Buena' | 'Atención' | 'En riesgo' | 'Sin datos';
+
+export interface AccountHealthResult extends ScoringResult {
+  status: AccountHealthStatus;
+  // Deals abiertos por nivel de riesgo
+  risk: Record<RiskLevel, number>;
+}
+
 // UI specific interfaces
 export interface ScoreBadgeProps {
   score: number;
@@ -143,3 +197,33 @@ export interface PriorityBadgeProps {
   priority: Priority;
   size?: 'sm' | 'md' | 'lg';
 }
+
+export type ImportEntity = 'contacts' | 'companies' | 'deals';
+export type ImportStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ImportJob {
+  id: string;
+  entity: ImportEntity;
+  status: ImportStatus;
+  file_name: string | null;
+  mapping: string;
+  total_rows: number;
+  processed_rows: number;
+  imported_rows: number;
+  failed_rows: number;
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export interface ImportJobRow {
+  id: string;
+  job_id: string;
+  row_number: number;
+  data: string;
+  status: 'pending' | 'imported' | 'failed';
+  error: string | null;
+  record_id: string | null;
+}
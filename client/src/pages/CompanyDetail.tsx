@@ -0,0 +1,393 @@
+import { useMemo, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import {
+  Activity,
+  ArrowLeft,
+  Briefcase,
+  Building2,
+  ClipboardList,
+  Globe,
+  HeartPulse,
+  MapPin,
+  Users2,
+} from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import Card from "@/components/Card";
+import Skeleton from "@/components/Skeleton";
+import RiskBadge from "@/components/RiskBadge";
+import CustomFieldValuesList from "@/components/CustomFieldValuesList";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCompanyOverviewQuery } from "@/hooks/useCrmQueries";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePipeline } from "@/hooks/usePipeline";
+import { useToast } from "@/hooks/use-toast";
+import { QUERY_KEYS } from "@/lib/queryKeys";
+import { contactPath, dealPath, sectionPath } from "@/lib/routes";
+import { calculateAccountHealth, calculateRiskLevel } from "@/lib/scoring";
+import type { AccountHealthStatus, Deal } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const HEALTH_STYLES: Record<AccountHealthStatus, string> = {
+  Buena: "bg-green-100 text-green-800",
+  Atención: "bg-yellow-100 text-yellow-800",
+  "En riesgo": "bg-red-100 text-red-800",
+  "Sin datos": "bg-gray-100 text-gray-800",
+};
+
+function formatCurrency(amount: number | undefined | null) {
+  if (!amount) return "-";
+  return new Intl.NumberFormat("es-ES", { style: "currency", currency: "EUR", minimumFractionDigits: 0 }).format(
+    amount,
+  );
+}
+
+function formatDate(value: string | undefined | null) {
+  if (!value) return "-";
+  return new Date(value).toLocaleDateString("es-ES", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function sumAmounts(deals: Deal[]) {
+  return deals.reduce((sum, deal) => sum + (deal.amount || 0), 0);
+}
+
+function SectionTitle({ icon: Icon, title, children }: { icon: typeof Users2; title: string; children?: ReactNode }) {
+  return (
+    <div className="mb-4 flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <Icon className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-semibold text-card-foreground">{title}</h3>
+      </div>
+      {children && <span className="text-sm text-muted-foreground">{children}</span>}
+    </div>
+  );
+}
+
+function Empty({ children }: { children: ReactNode }) {
+  return <p className="py-4 text-center text-sm text-muted-foreground">{children}</p>;
+}
+
+/**
+ * Ficha 360 de una empresa (`/companies/:id`): datos, contactos, deals
+ * abiertos y cerrados, tareas, actividad y la salud de la cuenta.
+ */
+export default function CompanyDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: overview, isLoading, error } = useCompanyOverviewQuery(id);
+  const { stages } = usePipeline();
+  const { fields: customFields } = useCustomFields("companies");
+
+  const deals = overview?.deals ?? [];
+  const openDeals = deals.filter((deal) => deal.status === "Open");
+  const closedDeals = deals.filter((deal) => deal.status !== "Open");
+  const health = useMemo(
+    () => calculateAccountHealth(overview?.deals ?? [], stages.length ? stages : undefined),
+    [overview?.deals, stages],
+  );
+  const recordNames = useMemo(() => {
+    const names = new Map<string, string>();
+    overview?.deals.forEach((deal) => names.set(deal.id, deal.title));
+    overview?.contacts.forEach((contact) => names.set(contact.id, contact.name));
+    overview?.tasks.forEach((task) => names.set(task.id, task.title));
+    return names;
+  }, [overview]);
+
+  const goToSection = (section: string) => navigate(sectionPath(section));
+
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: [...QUERY_KEYS.companyOverview, id] });
+    toast({ title: "Data refreshed", description: "All data has been updated" });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      );
+    }
+    if (!overview) {
+      return (
+        <Card>
+          <Empty>{error instanceof Error ? error.message : "No se encontró la empresa"}</Empty>
+        </Card>
+      );
+    }
+
+    const { company, contacts, tasks, timeline, rollup } = overview;
+    const wonDeals = closedDeals.filter((deal) => deal.status === "Won");
+    const lostDeals = closedDeals.filter((deal) => deal.status === "Lost");
+
+    return (
+      <div className="space-y-6" data-testid="company-detail">
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <SectionTitle icon={Building2} title="Datos de la empresa" />
+            <dl className="grid gap-3 text-sm sm:grid-cols-2">
+              <div>
+                <dt className="text-muted-foreground">Sector</dt>
+                <dd className="text-card-foreground">{company.industry || "-"}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Tamaño</dt>
+                <dd className="text-card-foreground">{company.size || "-"}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Facturación estimada</dt>
+                <dd className="text-card-foreground">{formatCurrency(company.revenue_estimate)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Ubicación</dt>
+                <dd className="flex items-center gap-1 text-card-foreground">
+                  <MapPin className="h-3 w-3" /> {company.location || "-"}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Web</dt>
+                <dd className="flex items-center gap-1 text-card-foreground">
+                  <Globe className="h-3 w-3" />
+                  {company.website ? (
+                    <a href={company.website} target="_blank" rel="noreferrer" className="underline">
+                      {company.website}
+                    </a>
+                  ) : (
+                    "-"
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Alta</dt>
+                <dd className="text-card-foreground">{formatDate(company.created_at)}</dd>
+              </div>
+              {company.description && (
+                <div className="sm:col-span-2">
+                  <dt className="text-muted-foreground">Descripción</dt>
+                  <dd className="whitespace-pre-line text-card-foreground">{company.description}</dd>
+                </div>
+              )}
+            </dl>
+            <CustomFieldValuesList
+              fields={customFields}
+              values={company.custom_fields}
+              className="mt-4 border-t border-border pt-4"
+            />
+          </Card>
+
+          <Card>
+            <SectionTitle icon={HeartPulse} title="Salud de la cuenta" />
+            <div className="flex items-baseline gap-3">
+              <span className="text-4xl font-bold text-card-foreground">{health.score}</span>
+              <span className={cn("rounded-full px-2 py-1 text-xs font-medium", HEALTH_STYLES[health.status])}>
+                {health.status}
+              </span>
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              {openDeals.length} deals abiertos · riesgo alto {health.risk.Alto} · medio {health.risk.Medio}
+            </p>
+            {health.reasoning.length > 0 && (
+              <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-card-foreground">
+                {health.reasoning.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </div>
+
+        <Card>
+          <SectionTitle icon={Users2} title="Contactos">
+            {contacts.length}
+          </SectionTitle>
+          {contacts.length === 0 ? (
+            <Empty>Sin contactos en esta empresa.</Empty>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nombre</TableHead>
+                  <TableHead>Cargo</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Teléfono</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map((contact) => (
+                  <TableRow key={contact.id}>
+                    <TableCell className="font-medium">
+                      <Link href={contactPath(contact.id)} className="hover:underline">
+                        {contact.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{contact.position || "-"}</TableCell>
+                    <TableCell>{contact.email || "-"}</TableCell>
+                    <TableCell>{contact.phone || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <SectionTitle icon={Briefcase} title="Deals abiertos">
+              {rollup.open_count} · {formatCurrency(rollup.open_pipeline)}
+            </SectionTitle>
+            {openDeals.length === 0 ? (
+              <Empty>Sin deals abiertos.</Empty>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Deal</TableHead>
+                    <TableHead>Etapa</TableHead>
+                    <TableHead className="text-right">Importe</TableHead>
+                    <TableHead>Riesgo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {openDeals.map((deal) => (
+                    <TableRow key={deal.id}>
+                      <TableCell className="font-medium">
+                        <Link href={dealPath(deal.id)} className="hover:underline">
+                          {deal.title}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {deal.stage} · {deal.probability}%
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(deal.amount)}</TableCell>
+                      <TableCell>
+                        <RiskBadge riskLevel={calculateRiskLevel(deal)} size="sm" />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+
+          <Card>
+            <SectionTitle icon={Briefcase} title="Deals cerrados">
+              ganado {formatCurrency(rollup.won_revenue)} · perdido {formatCurrency(sumAmounts(lostDeals))}
+            </SectionTitle>
+            {closedDeals.length === 0 ? (
+              <Empty>Sin deals cerrados.</Empty>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Deal</TableHead>
+                    <TableHead>Resultado</TableHead>
+                    <TableHead className="text-right">Importe</TableHead>
+                    <TableHead>Motivo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {closedDeals.map((deal) => (
+                    <TableRow key={deal.id}>
+                      <TableCell className="font-medium">
+                        <Link href={dealPath(deal.id)} className="hover:underline">
+                          {deal.title}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={deal.status === "Won" ? "default" : "secondary"}>
+                          {deal.status === "Won" ? "Ganado" : "Perdido"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(deal.amount)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{deal.close_reason || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {closedDeals.length > 0 && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                {wonDeals.length} ganados y {lostDeals.length} perdidos
+              </p>
+            )}
+          </Card>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <SectionTitle icon={ClipboardList} title="Tareas">
+              {tasks.filter((task) => task.state !== "Done").length} pendientes
+            </SectionTitle>
+            {tasks.length === 0 ? (
+              <Empty>Sin tareas en sus deals ni contactos.</Empty>
+            ) : (
+              <ul className="space-y-2">
+                {tasks.map((task) => (
+                  <li key={task.id} className="rounded-lg border border-white/5 bg-white/5 px-3 py-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={cn("font-medium text-card-foreground", task.state === "Done" && "line-through")}>
+                        {task.title}
+                      </span>
+                      <Badge variant="outline">{task.state}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {recordNames.get(task.deal_id ?? "") ?? recordNames.get(task.contact_id ?? "") ?? "-"}
+                      {" · "}
+                      {task.priority} · vence {formatDate(task.due_at)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+
+          <Card>
+            <SectionTitle icon={Activity} title="Actividad" />
+            {timeline.length === 0 ? (
+              <Empty>Aún no hay actividad registrada.</Empty>
+            ) : (
+              <ul className="space-y-2">
+                {timeline.map((entry) => (
+                  <li key={entry.id} className="rounded-lg border border-white/5 bg-white/5 px-3 py-2">
+                    <p className="text-sm text-card-foreground">{entry.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {recordNames.get(entry.entity_id) ?? company.name} · {formatDate(entry.created_at)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout
+      isDemo={false}
+      onInjectDemo={() => undefined}
+      onRefresh={handleRefresh}
+      activeSection="Empresas"
+      onSectionChange={goToSection}
+    >
+      {() => (
+        <section className="space-y-6">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={() => goToSection("Empresas")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Empresas
+            </Button>
+            <h2 className="text-xl font-semibold text-white">{overview?.company.name ?? "Empresa"}</h2>
+          </div>
+          {renderContent()}
+        </section>
+      )}
+    </DashboardLayout>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState, useMemo, useCallback, Suspense, lazy } from "react";
 import { useQueryClient } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
 import DashboardLayout from "@/components/DashboardLayout";
 import TasksCard from "@/components/TasksCard";
 import HotDealCard from "@/components/HotDealCard";
@@ -8,10 +9,17 @@ import RecentActivityCard from "@/components/RecentActivityCard";
 import QuickMetricsCard from "@/components/QuickMetricsCard";
 import Card from "@/components/Card";
 import Skeleton from "@/components/Skeleton";
-import { seedDemo, subscribeToChanges } from "@/lib/db";
+import { seedDemo, subscribeToChanges, IS_API_MODE, IS_SUPABASE_MODE } from "@/lib/db";
 import { QUERY_KEYS } from "@/lib/queryKeys";
 import { useToast } from "@/hooks/use-toast";
+import { useSearchParamState } from "@/hooks/useSearchParamState";
+import { contactPath, dealPath, sectionForPath, sectionPath } from "@/lib/routes";
 import { useTasksQuery, useDealsQuery, useContactsQuery } from "@/hooks/useCrmQueries";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useDealAlertRules } from "@/hooks/useDealAlertRules";
+import { isDealAlertSilenced, useAlertSensitivity, useDealAlertStates } from "@/hooks/useDealAlertStates";
+import { useDealPolicyContext } from "@/hooks/useSlaPolicies";
 import type { Task, Deal, Contact } from "@/lib/types";
 import DealModal from "@/components/DealModal";
 import ContactModal from "@/components/ContactModal";
@@ -21,8 +29,18 @@ import DealsKanban from "@/components/DealsKanban";
 import PipelineSummaryCard from "@/components/PipelineSummaryCard";
 import UpcomingActionsCard from "@/components/UpcomingActionsCard";
 import DealAlertsBanner from "@/components/DealAlertsBanner";
+import DealAlertResolutionDialog, { type DealAlertResolution } from "@/components/DealAlertResolutionDialog";
+import DealAlertHistoryDialog from "@/components/DealAlertHistoryDialog";
 import { Button } from "@/components/ui/button";
 import ManagerMetricsPanel from "@/components/ManagerMetricsPanel";
+import TeamPanel from "@/components/TeamPanel";
+import PipelineStagesEditor from "@/components/PipelineStagesEditor";
+import CustomFieldsEditor from "@/components/CustomFieldsEditor";
+import TagManager from "@/components/TagManager";
+import AutomationsEditor from "@/components/AutomationsEditor";
+import AlertRulesEditor from "@/components/AlertRulesEditor";
+import AlertChannelsEditor from "@/components/AlertChannelsEditor";
+import SlaPoliciesEditor from "@/components/SlaPoliciesEditor";
 import {
   computeDealAttention,
   detectDealAlerts,
@@ -31,9 +49,19 @@ import {
   generateDailyDigest,
 } from "@/lib/pipelineInsights";
 import { logDealAlertResolution } from "@/lib/db";
+import * as api from "@/lib/api";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { describeCustomFields, type CustomFieldEntity } from "@shared/customFields";
+import {
+  DEAL_ALERT_REASON_DEFINITIONS,
+  DEAL_ALERT_SENSITIVITIES,
+  DEAL_ALERT_SENSITIVITY_LABELS,
+  matchesDealAlertSensitivity,
+  type DealAlertSensitivity,
+} from "@shared/dealAlerts";
 
 // Lazy load the list components
 const DealsList = lazy(() => import("@/components/DealsList"));
@@ -52,31 +80,48 @@ interface DigestMeta {
 
 export default function Dashboard() {
   const [isDemo, setIsDemo] = useState(false);
-  const [activeSection, setActiveSection] = useState("Dashboard");
+  // La sección y la ficha abierta salen de la URL: se pueden enlazar y el historial las recorre
+  const [location, navigate] = useLocation();
+  const activeSection = sectionForPath(location) ?? "Dashboard";
+  const [, dealRoute] = useRoute<{ id: string }>("/deals/:id");
+  const [, contactRoute] = useRoute<{ id: string }>("/contacts/:id");
+  const setActiveSection = useCallback((section: string) => navigate(sectionPath(section)), [navigate]);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: tasksData, isLoading: tasksLoading } = useTasksQuery();
   const { data: dealsData, isLoading: dealsLoading } = useDealsQuery();
   const { data: contactsData, isLoading: contactsLoading } = useContactsQuery();
+  const { fields: dealCustomFields } = useCustomFields("deals");
+  const { rules: alertRules } = useDealAlertRules();
+  const policyContext = useDealPolicyContext();
+  const { byDeal: alertStates } = useDealAlertStates();
+  const { sensitivity: alertSensitivity, setSensitivity: setAlertSensitivity } = useAlertSensitivity();
 
   const tasks = tasksData ?? ([] as Task[]);
   const deals = dealsData ?? ([] as Deal[]);
   const contacts = contactsData ?? ([] as Contact[]);
 
-  const attentionDeals = useMemo(() => computeDealAttention(deals), [deals]);
-  const detectedAlerts = useMemo(() => detectDealAlerts(deals), [deals]);
+  const attentionDeals = useMemo(() => computeDealAttention(deals, policyContext), [deals, policyContext]);
+  const detectedAlerts = useMemo(
+    () => detectDealAlerts(deals, { ...policyContext, rules: alertRules }),
+    [deals, alertRules, policyContext],
+  );
+  // Sin API las alertas cerradas solo se ocultan durante la sesión; con API manda su estado guardado
   const [dismissedAlertIds, setDismissedAlertIds] = useState<string[]>([]);
   const activeAlerts = useMemo(
-    () => detectedAlerts.filter((alert) => !dismissedAlertIds.includes(alert.deal.id)),
-    [detectedAlerts, dismissedAlertIds],
+    () =>
+      detectedAlerts.filter(
+        (alert) =>
+          !dismissedAlertIds.includes(alert.deal.id) && !isDealAlertSilenced(alert, alertStates.get(alert.deal.id)),
+      ),
+    [detectedAlerts, dismissedAlertIds, alertStates],
+  );
+  const filteredAlerts = useMemo(
+    () => activeAlerts.filter((alert) => matchesDealAlertSensitivity(alert.severity, alertSensitivity)),
+    [activeAlerts, alertSensitivity],
   );
-  const [alertSensitivity, setAlertSensitivity] = useState<"all" | "critical" | "warning">("all");
-  const filteredAlerts = useMemo(() => {
-    if (alertSensitivity === "all") return activeAlerts;
-    const severity = alertSensitivity === "critical" ? "critical" : "warning";
-    return activeAlerts.filter((alert) => alert.severity === severity);
-  }, [activeAlerts, alertSensitivity]);
   const hasFilteredOut = alertSensitivity !== "all" && activeAlerts.length > 0 && filteredAlerts.length === 0;
 
   useEffect(() => {
@@ -89,18 +134,24 @@ export default function Dashboard() {
   }, [detectedAlerts, dismissedAlertIds.length]);
 
   const [isDealModalOpen, setIsDealModalOpen] = useState(false);
+  const [isStagesEditorOpen, setIsStagesEditorOpen] = useState(false);
+  const [customFieldsEntity, setCustomFieldsEntity] = useState<CustomFieldEntity | null>(null);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isAutomationsOpen, setIsAutomationsOpen] = useState(false);
+  const [isAlertRulesOpen, setIsAlertRulesOpen] = useState(false);
+  const [isAlertChannelsOpen, setIsAlertChannelsOpen] = useState(false);
+  const [isSlaPoliciesOpen, setIsSlaPoliciesOpen] = useState(false);
+  const [isAlertHistoryOpen, setIsAlertHistoryOpen] = useState(false);
+  const [resolvingAlert, setResolvingAlert] = useState<DealAlert | null>(null);
+  const [isSavingAlert, setIsSavingAlert] = useState(false);
   const [isContactModalOpen, setIsContactModalOpen] = useState(false);
 
   useEffect(() => {
-    // Check if we're in demo mode
-    const hasSupabaseEnv = !!(
-      import.meta.env.VITE_SUPABASE_URL &&
-      import.meta.env.VITE_SUPABASE_ANON_KEY
-    );
-    setIsDemo(!hasSupabaseEnv);
+    // Check if we're in demo mode (the API mode can also be seeded on demand)
+    setIsDemo(!IS_SUPABASE_MODE);
 
     // Set up real-time subscriptions if using Supabase
-    if (hasSupabaseEnv) {
+    if (IS_SUPABASE_MODE) {
       const unsubscribe = subscribeToChanges(() => {
         queryClient.invalidateQueries({ queryKey: QUERY_KEYS.tasks });
         queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
@@ -119,6 +170,7 @@ export default function Dashboard() {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.deals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.contacts });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quickMetrics });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.funnel });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stalledDeals });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.hotDeal });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.companies });
@@ -158,7 +210,10 @@ export default function Dashboard() {
 
   const topAlerts = useMemo(() => attentionDeals.slice(0, 3), [attentionDeals]);
 
-  const [pipelineFocusDealId, setPipelineFocusDealId] = useState<string | null>(null);
+  // Kanban, listado y editor comparten pipeline (`?pipeline=`); las métricas eligen el suyo
+  const [pipelineParam, setPipelineViewId] = useSearchParamState("pipeline", "");
+  const pipelineViewId = pipelineParam || null;
+  const [metricsPipelineId, setMetricsPipelineId] = useState<string | null>(null);
   const [isDigestOpen, setIsDigestOpen] = useState(false);
   const [digestText, setDigestText] = useState<string>("");
   const [isDigestLoading, setIsDigestLoading] = useState(false);
@@ -167,35 +222,78 @@ export default function Dashboard() {
   const [focusMode, setFocusMode] = useState(false);
   const [timeframe, setTimeframe] = useState<"today" | "week" | "month">("today");
 
-  const handleViewPipeline = useCallback((dealId?: string) => {
-    setActiveSection("Pipeline");
-    setPipelineFocusDealId(dealId ?? null);
-  }, []);
+  const handleViewPipeline = useCallback(
+    (dealId?: string) => navigate(dealId ? dealPath(dealId) : sectionPath("Pipeline")),
+    [navigate],
+  );
+  // Abrir o cerrar una ficha cambia la URL conservando los filtros de la sección
+  const handleDealChange = useCallback(
+    (dealId: string | null) =>
+      navigate(`${dealId ? dealPath(dealId) : sectionPath("Pipeline")}${window.location.search}`),
+    [navigate],
+  );
+  const handleContactChange = useCallback(
+    (contactId: string | null) =>
+      navigate(`${contactId ? contactPath(contactId) : sectionPath("Contactos")}${window.location.search}`),
+    [navigate],
+  );
+
+  const handleResolveAlert = useCallback((alert: DealAlert) => setResolvingAlert(alert), []);
 
-  const handleResolveAlert = useCallback(
-    async (alert: DealAlert) => {
+  const handleConfirmResolution = useCallback(
+    async (alert: DealAlert, { status, reason, note }: DealAlertResolution) => {
+      setIsSavingAlert(true);
       try {
-        await logDealAlertResolution({
-          dealId: alert.deal.id,
-          reason: alert.reasons.join(" · ") || alert.message,
-        });
-        setDismissedAlertIds((previous) =>
-          previous.includes(alert.deal.id) ? previous : [...previous, alert.deal.id],
-        );
+        if (IS_API_MODE) {
+          await api.updateDealAlertState(alert.deal.id, { status, reason, note });
+          queryClient.invalidateQueries({ queryKey: QUERY_KEYS.dealAlertStates });
+          queryClient.invalidateQueries({ queryKey: QUERY_KEYS.dealTimeline });
+        } else {
+          const label = DEAL_ALERT_REASON_DEFINITIONS[reason].label;
+          await logDealAlertResolution({ dealId: alert.deal.id, reason: note ? `${label} · ${note}` : label });
+          setDismissedAlertIds((previous) =>
+            previous.includes(alert.deal.id) ? previous : [...previous, alert.deal.id],
+          );
+        }
+        setResolvingAlert(null);
         toast({
-          title: "Alerta resuelta",
+          title: status === "resolved" ? "Alerta resuelta" : "Alerta descartada",
           description: `${alert.deal.title} queda registrada en el timeline`,
         });
       } catch (error) {
         console.error(error);
         toast({
           title: "No se pudo registrar",
-          description: "Reintenta nuevamente",
+          description: error instanceof Error ? error.message : "Reintenta nuevamente",
           variant: "destructive",
         });
+      } finally {
+        setIsSavingAlert(false);
       }
     },
-    [toast],
+    [queryClient, toast],
+  );
+
+  const handleSnoozeAlert = useCallback(
+    async (alert: DealAlert, days: number) => {
+      try {
+        const until = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+        await api.updateDealAlertState(alert.deal.id, { status: "snoozed", snoozed_until: until });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.dealAlertStates });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.dealTimeline });
+        toast({
+          title: "Alerta pospuesta",
+          description: `${alert.deal.title} volverá a avisar el ${until.toLocaleDateString("es-ES")}`,
+        });
+      } catch (error) {
+        toast({
+          title: "No se pudo posponer",
+          description: error instanceof Error ? error.message : "Reintenta nuevamente",
+          variant: "destructive",
+        });
+      }
+    },
+    [queryClient, toast],
   );
 
   const handleShareAlerts = useCallback(
@@ -234,6 +332,7 @@ export default function Dashboard() {
       risk,
       nextStep: deal.next_step ?? null,
       targetCloseDate: deal.target_close_date ?? null,
+      customFields: describeCustomFields(dealCustomFields, deal.custom_fields),
     }));
 
     const alertsSnapshot = activeAlerts.slice(0, 5).map((alert) => ({
@@ -332,6 +431,7 @@ export default function Dashboard() {
   }, [
     activeAlerts,
     attentionDeals,
+    dealCustomFields,
     deals,
     tasks,
     timeframe,
@@ -440,6 +540,32 @@ export default function Dashboard() {
           ))}
         </div>
         <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={alertSensitivity}
+            onValueChange={(value) => setAlertSensitivity(value as DealAlertSensitivity)}
+          >
+            <SelectTrigger className="h-9 w-40 border-white/20 text-white/70" aria-label="Sensibilidad de alertas">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEAL_ALERT_SENSITIVITIES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  Alertas: {DEAL_ALERT_SENSITIVITY_LABELS[option].toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {IS_API_MODE && can("metrics:team") && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="border-white/20 text-white/70"
+              onClick={() => setIsAlertHistoryOpen(true)}
+            >
+              Historial de alertas
+            </Button>
+          )}
           <Button
             type="button"
             size="sm"
@@ -457,10 +583,12 @@ export default function Dashboard() {
       <div className="grid gap-6 lg:grid-cols-[2fr_1fr] lg:items-start">
         <PipelineSummaryCard deals={deals} isLoading={dealsLoading} />
         <DealAlertsBanner
-          alerts={activeAlerts}
+          alerts={filteredAlerts}
           onResolve={handleResolveAlert}
+          onSnooze={IS_API_MODE ? handleSnoozeAlert : undefined}
           onViewDeal={handleViewPipeline}
           onShareAlerts={handleShareAlerts}
+          isFilteredView={hasFilteredOut}
         />
       </div>
     );
@@ -553,9 +681,7 @@ export default function Dashboard() {
                           size="sm"
                           variant="outline"
                           className="border-white/30 text-white/80 hover:text-white"
-                          onClick={() => {
-                            void handleResolveAlert(alert);
-                          }}
+                          onClick={() => handleResolveAlert(alert)}
                         >
                           Marcar resuelto
                         </Button>
@@ -601,7 +727,7 @@ export default function Dashboard() {
   return (
     <>
       <DashboardLayout
-      isDemo={isDemo}
+      isDemo={isDemo && can("demo:seed")}
       onInjectDemo={handleInjectDemo}
       onRefresh={handleRefresh}
       initialSection="Dashboard"
@@ -617,24 +743,113 @@ export default function Dashboard() {
               <section className="space-y-6">
                 <div className="flex items-center justify-between">
                   <h2 className="text-xl font-semibold text-white">Pipeline completo</h2>
-                  <button
-                    type="button"
-                    onClick={() => setIsDealModalOpen(true)}
-                    className="inline-flex items-center rounded-lg bg-blue-500/10 px-4 py-2 text-sm font-medium text-blue-200 transition hover:bg-blue-500/20"
-                  >
-                    + Nuevo Deal
-                  </button>
+                  <div className="flex items-center gap-2">
+                    {can("pipeline:configure") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsStagesEditorOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Configurar etapas
+                      </button>
+                    )}
+                    {IS_API_MODE && can("fields:configure") && (
+                      <button
+                        type="button"
+                        onClick={() => setCustomFieldsEntity("deals")}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Campos personalizados
+                      </button>
+                    )}
+                    {IS_API_MODE && can("tags:manage") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsTagManagerOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Etiquetas
+                      </button>
+                    )}
+                    {IS_API_MODE && can("automations:manage") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsAutomationsOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Automatizaciones
+                      </button>
+                    )}
+                    {IS_API_MODE && can("alerts:configure") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsAlertRulesOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Reglas de alertas
+                      </button>
+                    )}
+                    {IS_API_MODE && can("alerts:configure") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsAlertChannelsOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Canales de alertas
+                      </button>
+                    )}
+                    {IS_API_MODE && can("sla:configure") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsSlaPoliciesOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Políticas de SLA
+                      </button>
+                    )}
+                    {can("deals:create") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsDealModalOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-blue-500/10 px-4 py-2 text-sm font-medium text-blue-200 transition hover:bg-blue-500/20"
+                      >
+                        + Nuevo Deal
+                      </button>
+                    )}
+                  </div>
                 </div>
-                <DealsKanban focusDealId={pipelineFocusDealId} onResetFocus={() => setPipelineFocusDealId(null)} />
+                <DealsKanban
+                  focusDealId={dealRoute?.id ?? null}
+                  onSelectedDealChange={handleDealChange}
+                  pipelineId={pipelineViewId}
+                  onPipelineChange={setPipelineViewId}
+                />
                 <HotDealCard deals={deals} isLoading={dealsLoading} />
                 <Suspense fallback={<Skeleton className="h-96 w-full" />}>
-                  <DealsList />
+                  <DealsList pipelineId={pipelineViewId} onPipelineChange={setPipelineViewId} />
                 </Suspense>
                 <DealModal
                   open={isDealModalOpen}
                   onClose={() => setIsDealModalOpen(false)}
                   contacts={contacts}
+                  pipelineId={pipelineViewId}
+                />
+                <PipelineStagesEditor
+                  open={isStagesEditorOpen}
+                  onClose={() => setIsStagesEditorOpen(false)}
+                  pipelineId={pipelineViewId}
+                  onPipelineChange={setPipelineViewId}
+                />
+                <CustomFieldsEditor
+                  open={customFieldsEntity !== null}
+                  onClose={() => setCustomFieldsEntity(null)}
+                  defaultEntity={customFieldsEntity ?? "deals"}
                 />
+                <TagManager open={isTagManagerOpen} onClose={() => setIsTagManagerOpen(false)} />
+                <AutomationsEditor open={isAutomationsOpen} onClose={() => setIsAutomationsOpen(false)} />
+                <AlertRulesEditor open={isAlertRulesOpen} onClose={() => setIsAlertRulesOpen(false)} />
+                <AlertChannelsEditor open={isAlertChannelsOpen} onClose={() => setIsAlertChannelsOpen(false)} />
+                <SlaPoliciesEditor open={isSlaPoliciesOpen} onClose={() => setIsSlaPoliciesOpen(false)} />
               </section>
             );
           case "Contactos":
@@ -642,21 +857,49 @@ export default function Dashboard() {
               <section className="space-y-6">
                 <div className="flex items-center justify-between">
                   <h2 className="text-xl font-semibold text-white">Contactos</h2>
-                  <button
-                    type="button"
-                    onClick={() => setIsContactModalOpen(true)}
-                    className="inline-flex items-center rounded-lg bg-blue-500/10 px-4 py-2 text-sm font-medium text-blue-200 transition hover:bg-blue-500/20"
-                  >
-                    + Nuevo Contacto
-                  </button>
+                  <div className="flex items-center gap-2">
+                    {IS_API_MODE && can("fields:configure") && (
+                      <button
+                        type="button"
+                        onClick={() => setCustomFieldsEntity("contacts")}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Campos personalizados
+                      </button>
+                    )}
+                    {IS_API_MODE && can("tags:manage") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsTagManagerOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-white/5 px-4 py-2 text-sm font-medium text-white/80 transition hover:bg-white/10"
+                      >
+                        Etiquetas
+                      </button>
+                    )}
+                    {can("contacts:create") && (
+                      <button
+                        type="button"
+                        onClick={() => setIsContactModalOpen(true)}
+                        className="inline-flex items-center rounded-lg bg-blue-500/10 px-4 py-2 text-sm font-medium text-blue-200 transition hover:bg-blue-500/20"
+                      >
+                        + Nuevo Contacto
+                      </button>
+                    )}
+                  </div>
                 </div>
                 <Suspense fallback={<Skeleton className="h-96 w-full" />}>
-                  <ContactsList />
+                  <ContactsList focusContactId={contactRoute?.id ?? null} onContactChange={handleContactChange} />
                 </Suspense>
                 <ContactModal
                   open={isContactModalOpen}
                   onClose={() => setIsContactModalOpen(false)}
                 />
+                <CustomFieldsEditor
+                  open={customFieldsEntity !== null}
+                  onClose={() => setCustomFieldsEntity(null)}
+                  defaultEntity={customFieldsEntity ?? "contacts"}
+                />
+                <TagManager open={isTagManagerOpen} onClose={() => setIsTagManagerOpen(false)} />
               </section>
             );
           case "Empresas":
@@ -681,15 +924,30 @@ export default function Dashboard() {
                   deals={deals}
                   isLoading={tasksLoading || dealsLoading}
                 />
-                <ManagerMetricsPanel deals={deals} isLoading={dealsLoading} />
+                {can("metrics:team") && (
+                  <ManagerMetricsPanel
+                    deals={deals}
+                    isLoading={dealsLoading}
+                    pipelineId={metricsPipelineId}
+                    onPipelineChange={setMetricsPipelineId}
+                  />
+                )}
                 <AdvancedMetricsPanel
                   deals={deals}
+                  pipelineId={metricsPipelineId}
+                  onPipelineChange={setMetricsPipelineId}
                   tasks={tasks}
                   contacts={contacts}
                   isLoading={tasksLoading || dealsLoading || contactsLoading}
                 />
               </section>
             );
+          case "Equipo":
+            return (
+              <section className="space-y-6">
+                <TeamPanel />
+              </section>
+            );
           default:
             return (
               <Card className="bg-white/5">
@@ -703,6 +961,14 @@ export default function Dashboard() {
       }}
       </DashboardLayout>
 
+      <DealAlertResolutionDialog
+        alert={resolvingAlert}
+        saving={isSavingAlert}
+        onClose={() => setResolvingAlert(null)}
+        onConfirm={handleConfirmResolution}
+      />
+      <DealAlertHistoryDialog open={isAlertHistoryOpen} onClose={() => setIsAlertHistoryOpen(false)} />
+
       <Dialog open={isDigestOpen} onOpenChange={setIsDigestOpen}>
         <DialogContent className="max-w-xl bg-[#0b1222] text-white">
           <DialogHeader>
@@ -0,0 +1,121 @@
+import { type FormEvent, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useAuthActions } from "@/hooks/useCurrentUser";
+
+type Mode = "login" | "register";
+
+export default function Login() {
+  const { login, register } = useAuthActions();
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [email, setEmail] = useState("");
+
+  const mutation = mode === "login" ? login : register;
+  const errorMessage = mutation.error instanceof Error ? mutation.error.message : null;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (mode === "login") {
+      login.mutate({ username, password });
+    } else {
+      register.mutate({
+        username,
+        password,
+        full_name: fullName.trim() || null,
+        email: email.trim() || null,
+      });
+    }
+  };
+
+  return (
+    <div className="relative flex min-h-screen items-center justify-center overflow-hidden px-4 text-white">
+      <div className="pointer-events-none absolute inset-0 bg-gradient-to-br from-[#4f74b4] via-[#1b2f5f] to-black" />
+
+      <Card className="relative w-full max-w-md border-white/10 bg-white/10 text-white backdrop-blur">
+        <CardHeader className="space-y-1 text-center">
+          <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-pink-500 to-purple-600 shadow-lg">
+            <span className="text-white">⚡</span>
+          </div>
+          <CardTitle className="text-2xl">Pulse CRM</CardTitle>
+          <CardDescription className="text-white/70">
+            {mode === "login" ? "Inicia sesión para ver tu pipeline" : "Crea tu cuenta de equipo"}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+            <TabsList className="mb-4 grid w-full grid-cols-2">
+              <TabsTrigger value="login">Entrar</TabsTrigger>
+              <TabsTrigger value="register">Registrarse</TabsTrigger>
+            </TabsList>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Usuario</Label>
+                <Input
+                  id="username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(event) => setUsername(event.target.value)}
+                  required
+                />
+              </div>
+
+              <TabsContent value="register" className="mt-0 space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="full_name">Nombre completo</Label>
+                  <Input
+                    id="full_name"
+                    autoComplete="name"
+                    value={fullName}
+                    onChange={(event) => setFullName(event.target.value)}
+                    placeholder="Se usará en la firma de tus emails"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(event) => setEmail(event.target.value)}
+                  />
+                </div>
+              </TabsContent>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Contraseña</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  minLength={mode === "register" ? 8 : undefined}
+                  required
+                />
+              </div>
+
+              {errorMessage && (
+                <p className="rounded-md border border-red-400/40 bg-red-500/10 px-3 py-2 text-sm text-red-200" role="alert">
+                  {errorMessage}
+                </p>
+              )}
+
+              <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                {mutation.isPending ? "Un momento..." : mode === "login" ? "Entrar" : "Crear cuenta"}
+              </Button>
+            </form>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
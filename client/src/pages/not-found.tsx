@@ -1,3 +1,4 @@
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle } from "lucide-react";
 
@@ -8,12 +9,15 @@ export default function NotFound() {
         <CardContent className="pt-6">
           <div className="flex mb-4 gap-2">
             <AlertCircle className="h-8 w-8 text-red-500" />
-            <h1 className="text-2xl font-bold text-gray-900">404 Page Not Found</h1>
+            <h1 className="text-2xl font-bold text-gray-900">404 Página no encontrada</h1>
           </div>
 
           <p className="mt-4 text-sm text-gray-600">
-            Did you forget to add the page to the router?
+            La dirección no corresponde a ninguna sección del CRM.
           </p>
+          <Link href="/" className="mt-4 inline-block text-sm font-medium text-blue-600 hover:underline">
+            Volver al dashboard
+          </Link>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migraciones del modo SQLite embebido (STORAGE_DRIVER=sqlite)
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/storage/sqliteSchema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH ?? "./data/pulse.sqlite",
+  },
+});
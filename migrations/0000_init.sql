@@ -0,0 +1,114 @@
+CREATE TYPE "public"."deal_status" AS ENUM('Open', 'Won', 'Lost');--> statement-breakpoint
+CREATE TYPE "public"."priority" AS ENUM('Cold', 'Warm', 'Hot');--> statement-breakpoint
+CREATE TYPE "public"."risk_level" AS ENUM('Bajo', 'Medio', 'Alto');--> statement-breakpoint
+CREATE TYPE "public"."task_priority" AS ENUM('Baja', 'Media', 'Alta');--> statement-breakpoint
+CREATE TYPE "public"."task_state" AS ENUM('To Do', 'Doing', 'Waiting', 'Done');--> statement-breakpoint
+CREATE TABLE "companies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"industry" text,
+	"size" text,
+	"revenue_estimate" numeric(15, 2),
+	"location" text,
+	"website" text,
+	"description" text,
+	"score" integer DEFAULT 0,
+	"priority" "priority" DEFAULT 'Cold',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"email" text,
+	"phone" text,
+	"company_id" uuid,
+	"position" text,
+	"source" text,
+	"score" integer DEFAULT 0,
+	"priority" "priority" DEFAULT 'Cold',
+	"last_activity" timestamp,
+	"owner_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "deals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"company" text,
+	"amount" numeric(15, 2),
+	"stage" text DEFAULT 'Prospección' NOT NULL,
+	"probability" integer DEFAULT 0,
+	"target_close_date" timestamp,
+	"next_step" text,
+	"status" "deal_status" DEFAULT 'Open',
+	"score" integer DEFAULT 0,
+	"priority" "priority" DEFAULT 'Cold',
+	"risk_level" "risk_level" DEFAULT 'Bajo',
+	"last_activity" timestamp,
+	"inactivity_days" integer DEFAULT 0,
+	"contact_id" uuid,
+	"owner_id" uuid,
+	"close_reason" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "pipeline_stages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"order_index" integer NOT NULL,
+	"color" text DEFAULT '#3B82F6',
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"state" "task_state" DEFAULT 'To Do',
+	"priority" "task_priority" DEFAULT 'Media',
+	"due_at" timestamp,
+	"completed_at" timestamp,
+	"assigned_to" uuid,
+	"deal_id" uuid,
+	"contact_id" uuid,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "timeline_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"description" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"user_id" uuid,
+	"metadata" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text,
+	"full_name" text,
+	"role" text DEFAULT 'Usuario',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deals" ADD CONSTRAINT "deals_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deals" ADD CONSTRAINT "deals_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_assigned_to_users_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "timeline_entries" ADD CONSTRAINT "timeline_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "pipeline_stages" ADD COLUMN "default_probability" integer DEFAULT 20 NOT NULL;--> statement-breakpoint
+ALTER TABLE "pipeline_stages" ADD COLUMN "updated_at" timestamp DEFAULT now();
\ No newline at end of file
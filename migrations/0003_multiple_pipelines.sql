@@ -0,0 +1,20 @@
+CREATE TABLE "pipelines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"order_index" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+-- Las instalaciones con datos reciben un pipeline por defecto que hereda sus etapas y deals
+INSERT INTO "pipelines" ("name", "is_default", "order_index")
+SELECT 'Pipeline principal', true, 0
+WHERE EXISTS (SELECT 1 FROM "pipeline_stages") OR EXISTS (SELECT 1 FROM "deals");--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "pipeline_id" uuid;--> statement-breakpoint
+ALTER TABLE "pipeline_stages" ADD COLUMN "pipeline_id" uuid;--> statement-breakpoint
+UPDATE "deals" SET "pipeline_id" = (SELECT "id" FROM "pipelines" WHERE "is_default" LIMIT 1);--> statement-breakpoint
+UPDATE "pipeline_stages" SET "pipeline_id" = (SELECT "id" FROM "pipelines" WHERE "is_default" LIMIT 1);--> statement-breakpoint
+ALTER TABLE "pipeline_stages" ALTER COLUMN "pipeline_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "deals" ADD CONSTRAINT "deals_pipeline_id_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."pipelines"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipeline_stages" ADD CONSTRAINT "pipeline_stages_pipeline_id_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."pipelines"("id") ON DELETE cascade ON UPDATE no action;
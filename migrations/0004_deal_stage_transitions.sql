@@ -0,0 +1,22 @@
+CREATE TABLE "deal_stage_transitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" uuid NOT NULL,
+	"pipeline_id" uuid,
+	"from_stage" text,
+	"to_stage" text NOT NULL,
+	"from_status" "deal_status",
+	"to_status" "deal_status" NOT NULL,
+	"from_probability" integer,
+	"to_probability" integer,
+	"changed_by" uuid,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "stage_entered_at" timestamp;--> statement-breakpoint
+-- Sin historial previo: cada deal existente arranca con una entrada en su etapa actual desde su creación
+UPDATE "deals" SET "stage_entered_at" = COALESCE("created_at", now());--> statement-breakpoint
+INSERT INTO "deal_stage_transitions" ("deal_id", "pipeline_id", "to_stage", "to_status", "to_probability", "changed_at")
+SELECT "id", "pipeline_id", "stage", COALESCE("status", 'Open'), "probability", "stage_entered_at" FROM "deals";--> statement-breakpoint
+ALTER TABLE "deal_stage_transitions" ADD CONSTRAINT "deal_stage_transitions_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_stage_transitions" ADD CONSTRAINT "deal_stage_transitions_pipeline_id_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."pipelines"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_stage_transitions" ADD CONSTRAINT "deal_stage_transitions_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
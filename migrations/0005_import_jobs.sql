@@ -0,0 +1,32 @@
+CREATE TYPE "public"."import_entity" AS ENUM('contacts', 'companies', 'deals');--> statement-breakpoint
+CREATE TYPE "public"."import_row_status" AS ENUM('pending', 'imported', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."import_status" AS ENUM('pending', 'running', 'completed', 'failed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "import_job_rows" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid NOT NULL,
+	"row_number" integer NOT NULL,
+	"data" text NOT NULL,
+	"status" "import_row_status" DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"record_id" uuid
+);
+--> statement-breakpoint
+CREATE TABLE "import_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entity" "import_entity" NOT NULL,
+	"status" "import_status" DEFAULT 'pending' NOT NULL,
+	"file_name" text,
+	"mapping" text NOT NULL,
+	"total_rows" integer DEFAULT 0 NOT NULL,
+	"processed_rows" integer DEFAULT 0 NOT NULL,
+	"imported_rows" integer DEFAULT 0 NOT NULL,
+	"failed_rows" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "import_job_rows" ADD CONSTRAINT "import_job_rows_job_id_import_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."import_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
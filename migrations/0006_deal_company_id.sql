@@ -0,0 +1,9 @@
+ALTER TABLE "deals" ADD COLUMN "company_id" uuid;--> statement-breakpoint
+-- Vincula los deals cuyo texto coincide con el nombre de una empresa; el resto (formas jurídicas, tildes...)
+-- lo enlaza el servidor al arrancar con el normalizador de shared/companyDuplicates.ts
+UPDATE "deals" SET "company_id" = (
+	SELECT "id" FROM "companies"
+	WHERE lower(trim("companies"."name")) = lower(trim("deals"."company"))
+	ORDER BY "created_at" LIMIT 1
+) WHERE "company" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "deals" ADD CONSTRAINT "deals_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;
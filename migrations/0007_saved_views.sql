@@ -0,0 +1,23 @@
+CREATE TYPE "public"."saved_view_list" AS ENUM('deals_board', 'deals', 'contacts', 'companies');--> statement-breakpoint
+CREATE TABLE "saved_view_defaults" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"list" "saved_view_list" NOT NULL,
+	"view_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_views" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"list" "saved_view_list" NOT NULL,
+	"name" text NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"shared" boolean DEFAULT false NOT NULL,
+	"config" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "saved_view_defaults" ADD CONSTRAINT "saved_view_defaults_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_view_defaults" ADD CONSTRAINT "saved_view_defaults_view_id_saved_views_id_fk" FOREIGN KEY ("view_id") REFERENCES "public"."saved_views"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_view_defaults_user_list_idx" ON "saved_view_defaults" USING btree ("user_id","list");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."custom_field_entity" AS ENUM('deals', 'contacts', 'companies');--> statement-breakpoint
+CREATE TYPE "public"."custom_field_type" AS ENUM('text', 'number', 'currency', 'date', 'select', 'multiselect', 'boolean', 'url');--> statement-breakpoint
+CREATE TABLE "custom_fields" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entity" "custom_field_entity" NOT NULL,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"type" "custom_field_type" NOT NULL,
+	"options" text DEFAULT '[]' NOT NULL,
+	"order_index" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "custom_fields" text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "custom_fields" text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "custom_fields" text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_fields_entity_key_idx" ON "custom_fields" USING btree ("entity","key");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "tags" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"color" text DEFAULT '#64748B' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "tags_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "tag_ids" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "tag_ids" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "tag_ids" text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "tag_ids" text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TYPE "public"."automation_entity" AS ENUM('deal', 'contact', 'task');--> statement-breakpoint
+CREATE TYPE "public"."automation_run_status" AS ENUM('success', 'partial', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."automation_trigger" AS ENUM('deal_created', 'deal_stage_changed', 'deal_status_changed', 'task_overdue', 'contact_created');--> statement-breakpoint
+CREATE TABLE "automation_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"trigger" "automation_trigger" NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"conditions" text DEFAULT '[]' NOT NULL,
+	"actions" text NOT NULL,
+	"created_by" uuid,
+	"last_run_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "automation_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_id" uuid NOT NULL,
+	"trigger" "automation_trigger" NOT NULL,
+	"entity_type" "automation_entity" NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"entity_label" text,
+	"status" "automation_run_status" NOT NULL,
+	"results" text DEFAULT '[]' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "automation_rules" ADD CONSTRAINT "automation_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "automation_runs" ADD CONSTRAINT "automation_runs_rule_id_automation_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."automation_rules"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."deal_alert_rule" AS ENUM('target_overdue', 'missing_next_step', 'inactivity', 'close_date_slipped', 'amount_drop', 'probability_below_stage', 'hot_without_contact');--> statement-breakpoint
+CREATE TYPE "public"."deal_alert_severity" AS ENUM('warning', 'critical');--> statement-breakpoint
+CREATE TABLE "deal_alert_rule_settings" (
+	"rule" "deal_alert_rule" PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"severity" "deal_alert_severity",
+	"params" text DEFAULT '{}' NOT NULL,
+	"recommended_action" text,
+	"updated_by" uuid,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "previous_amount" numeric(15, 2);--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "close_date_slips" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "deal_alert_rule_settings" ADD CONSTRAINT "deal_alert_rule_settings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."sla_escalation_step" AS ENUM('owner', 'manager', 'task');--> statement-breakpoint
+CREATE TABLE "sla_escalations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" uuid NOT NULL,
+	"step" "sla_escalation_step" NOT NULL,
+	"last_activity" timestamp NOT NULL,
+	"breach_days" integer NOT NULL,
+	"notified_user_id" uuid,
+	"task_id" uuid,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "sla_policies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stage_id" uuid,
+	"sla_hot_days" integer,
+	"sla_warm_days" integer,
+	"sla_cold_days" integer,
+	"risk_medium" integer,
+	"risk_high" integer,
+	"escalate_manager_after_days" integer,
+	"escalate_task_after_days" integer,
+	"updated_by" uuid,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "sla_policies_stage_id_unique" UNIQUE("stage_id")
+);
+--> statement-breakpoint
+ALTER TABLE "sla_escalations" ADD CONSTRAINT "sla_escalations_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sla_escalations" ADD CONSTRAINT "sla_escalations_notified_user_id_users_id_fk" FOREIGN KEY ("notified_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sla_escalations" ADD CONSTRAINT "sla_escalations_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_stage_id_pipeline_stages_id_fk" FOREIGN KEY ("stage_id") REFERENCES "public"."pipeline_stages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TYPE "public"."deal_alert_reason" AS ENUM('contacted', 'next_step_planned', 'deal_updated', 'handled_elsewhere', 'false_positive', 'not_applicable', 'condition_cleared');--> statement-breakpoint
+CREATE TYPE "public"."deal_alert_sensitivity" AS ENUM('all', 'critical', 'warning');--> statement-breakpoint
+CREATE TYPE "public"."deal_alert_status" AS ENUM('open', 'snoozed', 'resolved', 'dismissed');--> statement-breakpoint
+CREATE TABLE "deal_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" uuid NOT NULL,
+	"owner_id" uuid,
+	"rules" text DEFAULT '[]' NOT NULL,
+	"severity" "deal_alert_severity" NOT NULL,
+	"message" text NOT NULL,
+	"status" "deal_alert_status" DEFAULT 'open' NOT NULL,
+	"snoozed_until" timestamp,
+	"reason" "deal_alert_reason",
+	"note" text,
+	"closed_at" timestamp,
+	"closed_by" uuid,
+	"cleared_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "alert_sensitivity" "deal_alert_sensitivity" DEFAULT 'all' NOT NULL;--> statement-breakpoint
+ALTER TABLE "deal_alerts" ADD CONSTRAINT "deal_alerts_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_alerts" ADD CONSTRAINT "deal_alerts_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_alerts" ADD CONSTRAINT "deal_alerts_closed_by_users_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TYPE "public"."alert_channel_format" AS ENUM('slack', 'teams', 'json');--> statement-breakpoint
+CREATE TYPE "public"."alert_delivery_status" AS ENUM('delivered', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."alert_delivery_trigger" AS ENUM('schedule', 'manual');--> statement-breakpoint
+CREATE TABLE "alert_channels" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"format" "alert_channel_format" NOT NULL,
+	"url" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"severity" "deal_alert_sensitivity" DEFAULT 'all' NOT NULL,
+	"owner_ids" text DEFAULT '[]' NOT NULL,
+	"pipeline_ids" text DEFAULT '[]' NOT NULL,
+	"interval_hours" integer DEFAULT 24 NOT NULL,
+	"last_sent_at" timestamp,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "alert_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"channel_id" uuid NOT NULL,
+	"trigger" "alert_delivery_trigger" NOT NULL,
+	"status" "alert_delivery_status" NOT NULL,
+	"alert_count" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"response_status" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "alert_channels" ADD CONSTRAINT "alert_channels_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_deliveries" ADD CONSTRAINT "alert_deliveries_channel_id_alert_channels_id_fk" FOREIGN KEY ("channel_id") REFERENCES "public"."alert_channels"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
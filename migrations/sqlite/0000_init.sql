@@ -0,0 +1,109 @@
+CREATE TABLE `companies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`industry` text,
+	`size` text,
+	`revenue_estimate` integer,
+	`location` text,
+	`website` text,
+	`description` text,
+	`score` integer DEFAULT 0,
+	`priority` text DEFAULT 'Cold',
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `contacts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`email` text,
+	`phone` text,
+	`company_id` text,
+	`position` text,
+	`source` text,
+	`score` integer DEFAULT 0,
+	`priority` text DEFAULT 'Cold',
+	`last_activity` integer,
+	`owner_id` text,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`company_id`) REFERENCES `companies`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `deals` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text NOT NULL,
+	`company` text,
+	`amount` integer,
+	`stage` text DEFAULT 'Prospección' NOT NULL,
+	`probability` integer DEFAULT 0,
+	`target_close_date` integer,
+	`next_step` text,
+	`status` text DEFAULT 'Open',
+	`score` integer DEFAULT 0,
+	`priority` text DEFAULT 'Cold',
+	`risk_level` text DEFAULT 'Bajo',
+	`last_activity` integer,
+	`inactivity_days` integer DEFAULT 0,
+	`contact_id` text,
+	`owner_id` text,
+	`close_reason` text,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`contact_id`) REFERENCES `contacts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `pipeline_stages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`order_index` integer NOT NULL,
+	`color` text DEFAULT '#3B82F6',
+	`is_active` integer DEFAULT true,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `tasks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`state` text DEFAULT 'To Do',
+	`priority` text DEFAULT 'Media',
+	`due_at` integer,
+	`completed_at` integer,
+	`assigned_to` text,
+	`deal_id` text,
+	`contact_id` text,
+	`notes` text,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`assigned_to`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`deal_id`) REFERENCES `deals`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`contact_id`) REFERENCES `contacts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `timeline_entries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`description` text NOT NULL,
+	`entity_type` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`user_id` text,
+	`metadata` text,
+	`created_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`email` text,
+	`full_name` text,
+	`role` text DEFAULT 'Usuario',
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `manager_id` text REFERENCES users(id);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `pipeline_stages` ADD `default_probability` integer DEFAULT 20 NOT NULL;--> statement-breakpoint
+ALTER TABLE `pipeline_stages` ADD `updated_at` integer;
\ No newline at end of file
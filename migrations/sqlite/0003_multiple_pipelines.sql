@@ -0,0 +1,38 @@
+CREATE TABLE `pipelines` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`is_default` integer DEFAULT false NOT NULL,
+	`order_index` integer DEFAULT 0 NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+-- Las instalaciones con datos reciben un pipeline por defecto que hereda sus etapas y deals
+INSERT INTO `pipelines` (`id`, `name`, `is_default`, `order_index`, `created_at`, `updated_at`)
+SELECT
+	lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-'
+		|| substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+	'Pipeline principal', true, 0,
+	CAST(strftime('%s', 'now') AS integer) * 1000,
+	CAST(strftime('%s', 'now') AS integer) * 1000
+WHERE EXISTS (SELECT 1 FROM `pipeline_stages`) OR EXISTS (SELECT 1 FROM `deals`);--> statement-breakpoint
+ALTER TABLE `deals` ADD `pipeline_id` text REFERENCES pipelines(id);--> statement-breakpoint
+UPDATE `deals` SET `pipeline_id` = (SELECT `id` FROM `pipelines` WHERE `is_default` LIMIT 1);--> statement-breakpoint
+CREATE TABLE `__new_pipeline_stages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`pipeline_id` text NOT NULL,
+	`name` text NOT NULL,
+	`order_index` integer NOT NULL,
+	`color` text DEFAULT '#3B82F6',
+	`is_active` integer DEFAULT true,
+	`default_probability` integer DEFAULT 20 NOT NULL,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`pipeline_id`) REFERENCES `pipelines`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_pipeline_stages` (`id`, `pipeline_id`, `name`, `order_index`, `color`, `is_active`, `default_probability`, `created_at`, `updated_at`)
+SELECT `id`, (SELECT `id` FROM `pipelines` WHERE `is_default` LIMIT 1), `name`, `order_index`, `color`, `is_active`, `default_probability`, `created_at`, `updated_at`
+FROM `pipeline_stages`;--> statement-breakpoint
+DROP TABLE `pipeline_stages`;--> statement-breakpoint
+ALTER TABLE `__new_pipeline_stages` RENAME TO `pipeline_stages`;
@@ -0,0 +1,26 @@
+CREATE TABLE `deal_stage_transitions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`deal_id` text NOT NULL,
+	`pipeline_id` text,
+	`from_stage` text,
+	`to_stage` text NOT NULL,
+	`from_status` text,
+	`to_status` text NOT NULL,
+	`from_probability` integer,
+	`to_probability` integer,
+	`changed_by` text,
+	`changed_at` integer NOT NULL,
+	FOREIGN KEY (`deal_id`) REFERENCES `deals`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`pipeline_id`) REFERENCES `pipelines`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`changed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `deals` ADD `stage_entered_at` integer;--> statement-breakpoint
+-- Sin historial previo: cada deal existente arranca con una entrada en su etapa actual desde su creación
+UPDATE `deals` SET `stage_entered_at` = COALESCE(`created_at`, CAST(strftime('%s', 'now') AS integer) * 1000);--> statement-breakpoint
+INSERT INTO `deal_stage_transitions` (`id`, `deal_id`, `pipeline_id`, `to_stage`, `to_status`, `to_probability`, `changed_at`)
+SELECT
+	lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-'
+		|| substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+	`id`, `pipeline_id`, `stage`, COALESCE(`status`, 'Open'), `probability`, `stage_entered_at`
+FROM `deals`;
\ No newline at end of file
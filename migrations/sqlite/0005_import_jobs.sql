@@ -0,0 +1,28 @@
+CREATE TABLE `import_job_rows` (
+	`id` text PRIMARY KEY NOT NULL,
+	`job_id` text NOT NULL,
+	`row_number` integer NOT NULL,
+	`data` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`error` text,
+	`record_id` text,
+	FOREIGN KEY (`job_id`) REFERENCES `import_jobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `import_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`entity` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`file_name` text,
+	`mapping` text NOT NULL,
+	`total_rows` integer DEFAULT 0 NOT NULL,
+	`processed_rows` integer DEFAULT 0 NOT NULL,
+	`imported_rows` integer DEFAULT 0 NOT NULL,
+	`failed_rows` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`created_by` text,
+	`created_at` integer,
+	`updated_at` integer,
+	`finished_at` integer,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,8 @@
+ALTER TABLE `deals` ADD `company_id` text REFERENCES companies(id);--> statement-breakpoint
+-- Vincula los deals cuyo texto coincide con el nombre de una empresa; el resto (formas jurídicas, tildes...)
+-- lo enlaza el servidor al arrancar con el normalizador de shared/companyDuplicates.ts
+UPDATE `deals` SET `company_id` = (
+	SELECT `id` FROM `companies`
+	WHERE lower(trim(`companies`.`name`)) = lower(trim(`deals`.`company`))
+	ORDER BY `created_at` LIMIT 1
+) WHERE `company` IS NOT NULL;
@@ -0,0 +1,16 @@
+CREATE TABLE `custom_fields` (
+	`id` text PRIMARY KEY NOT NULL,
+	`entity` text NOT NULL,
+	`key` text NOT NULL,
+	`label` text NOT NULL,
+	`type` text NOT NULL,
+	`options` text DEFAULT '[]' NOT NULL,
+	`order_index` integer DEFAULT 0 NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `custom_fields_entity_key_idx` ON `custom_fields` (`entity`,`key`);--> statement-breakpoint
+ALTER TABLE `companies` ADD `custom_fields` text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE `contacts` ADD `custom_fields` text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE `deals` ADD `custom_fields` text DEFAULT '{}' NOT NULL;
\ No newline at end of file
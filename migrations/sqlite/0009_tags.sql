@@ -0,0 +1,13 @@
+CREATE TABLE `tags` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`color` text DEFAULT '#64748B' NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tags_name_unique` ON `tags` (`name`);--> statement-breakpoint
+ALTER TABLE `companies` ADD `tag_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `contacts` ADD `tag_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `deals` ADD `tag_ids` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `tag_ids` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `automation_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`trigger` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`conditions` text DEFAULT '[]' NOT NULL,
+	`actions` text NOT NULL,
+	`created_by` text,
+	`last_run_at` integer,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `automation_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`rule_id` text NOT NULL,
+	`trigger` text NOT NULL,
+	`entity_type` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`entity_label` text,
+	`status` text NOT NULL,
+	`results` text DEFAULT '[]' NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`rule_id`) REFERENCES `automation_rules`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `deal_alert_rule_settings` (
+	`rule` text PRIMARY KEY NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`severity` text,
+	`params` text DEFAULT '{}' NOT NULL,
+	`recommended_action` text,
+	`updated_by` text,
+	`updated_at` integer,
+	FOREIGN KEY (`updated_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `deals` ADD `previous_amount` integer;--> statement-breakpoint
+ALTER TABLE `deals` ADD `close_date_slips` integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `sla_escalations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`deal_id` text NOT NULL,
+	`step` text NOT NULL,
+	`last_activity` integer NOT NULL,
+	`breach_days` integer NOT NULL,
+	`notified_user_id` text,
+	`task_id` text,
+	`created_at` integer,
+	FOREIGN KEY (`deal_id`) REFERENCES `deals`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`notified_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `sla_policies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`stage_id` text,
+	`sla_hot_days` integer,
+	`sla_warm_days` integer,
+	`sla_cold_days` integer,
+	`risk_medium` integer,
+	`risk_high` integer,
+	`escalate_manager_after_days` integer,
+	`escalate_task_after_days` integer,
+	`updated_by` text,
+	`updated_at` integer,
+	FOREIGN KEY (`stage_id`) REFERENCES `pipeline_stages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`updated_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sla_policies_stage_id_unique` ON `sla_policies` (`stage_id`);
\ No newline at end of file
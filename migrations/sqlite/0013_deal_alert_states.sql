@@ -0,0 +1,22 @@
+CREATE TABLE `deal_alerts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`deal_id` text NOT NULL,
+	`owner_id` text,
+	`rules` text DEFAULT '[]' NOT NULL,
+	`severity` text NOT NULL,
+	`message` text NOT NULL,
+	`status` text DEFAULT 'open' NOT NULL,
+	`snoozed_until` integer,
+	`reason` text,
+	`note` text,
+	`closed_at` integer,
+	`closed_by` text,
+	`cleared_at` integer,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`deal_id`) REFERENCES `deals`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`closed_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `alert_sensitivity` text DEFAULT 'all' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE `alert_channels` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`format` text NOT NULL,
+	`url` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`severity` text DEFAULT 'all' NOT NULL,
+	`owner_ids` text DEFAULT '[]' NOT NULL,
+	`pipeline_ids` text DEFAULT '[]' NOT NULL,
+	`interval_hours` integer DEFAULT 24 NOT NULL,
+	`last_sent_at` integer,
+	`created_by` text,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `alert_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`channel_id` text NOT NULL,
+	`trigger` text NOT NULL,
+	`status` text NOT NULL,
+	`alert_count` integer DEFAULT 0 NOT NULL,
+	`attempts` integer DEFAULT 1 NOT NULL,
+	`response_status` integer,
+	`error` text,
+	`created_at` integer,
+	FOREIGN KEY (`channel_id`) REFERENCES `alert_channels`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,5 @@
+CREATE TABLE `sessions` (
+	`sid` text PRIMARY KEY NOT NULL,
+	`sess` text NOT NULL,
+	`expire` integer NOT NULL
+);
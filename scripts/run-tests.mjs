@@ -49,6 +49,10 @@ async function compileTests(testFiles) {
         sourcemap: "inline",
         target: "node20",
         alias,
+        // Paquetes CommonJS (express, express-session...) hacen require() de módulos de Node
+        banner: { js: 'import { createRequire } from "module"; const require = createRequire(import.meta.url);' },
+        // PGlite y sql.js cargan su wasm relativo al paquete: no se pueden empaquetar
+        external: ["@electric-sql/pglite", "sql.js"],
       });
       return outFile;
     }),
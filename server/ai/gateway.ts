@@ -1,5 +1,6 @@
 import { createHash } from "crypto";
 import type {
+  CustomFieldSnapshot,
   DigestRequestPayload,
   DigestResponsePayload,
   NextStepRequestPayload,
@@ -39,6 +40,7 @@ function fingerprintPayload(payload: DigestRequestPayload): string {
       amount: deal.amount,
       nextStep: deal.nextStep,
       targetCloseDate: deal.targetCloseDate,
+      customFields: deal.customFields,
     })),
     alerts: payload.alerts.map((alert) => ({
       id: alert.id,
@@ -51,6 +53,19 @@ function fingerprintPayload(payload: DigestRequestPayload): string {
   return createHash("sha1").update(JSON.stringify(normalized)).digest("hex");
 }
 
+const MAX_CUSTOM_FIELD_LINES = 10;
+const MAX_CUSTOM_FIELD_VALUE = 120;
+
+// El snapshot llega del cliente: se acota para no inflar el prompt
+function customFieldLines(fields: CustomFieldSnapshot[] | undefined): string[] {
+  if (!Array.isArray(fields)) return [];
+  return fields.slice(0, MAX_CUSTOM_FIELD_LINES).map((field) => {
+    const value = String(field.value ?? "");
+    const clipped = value.length > MAX_CUSTOM_FIELD_VALUE ? `${value.slice(0, MAX_CUSTOM_FIELD_VALUE)}…` : value;
+    return `${String(field.label ?? "")}: ${clipped}`;
+  });
+}
+
 function buildPrompt({ stats, topDeals, alerts, timeframe }: DigestRequestPayload): string {
   const timeframeLabel = timeframe === "today" ? "hoy" : timeframe === "week" ? "esta semana" : "este mes";
   const statsLines = [
@@ -64,7 +79,8 @@ function buildPrompt({ stats, topDeals, alerts, timeframe }: DigestRequestPayloa
     const amount = typeof deal.amount === "number" ? ` · €${deal.amount.toLocaleString("es-ES")}` : "";
     const nextStep = deal.nextStep ? ` · Próximo paso: ${deal.nextStep}` : "";
     const target = deal.targetCloseDate ? ` · Cierre objetivo: ${deal.targetCloseDate}` : "";
-    return `${base}${amount}${target}${nextStep}`;
+    const custom = customFieldLines(deal.customFields);
+    return `${base}${amount}${target}${nextStep}${custom.length ? ` · ${custom.join(" · ")}` : ""}`;
   });
 
   const alertsLines = alerts.slice(0, 5).map((alert, index) => `${index + 1}. ${alert.message} · ${alert.recommendedAction}`);
@@ -341,6 +357,10 @@ function buildNextStepPrompt({ deal, context }: NextStepRequestPayload): string
   if (deal.lastActivity) {
     lines.push(`• Última actividad registrada: ${deal.lastActivity}`);
   }
+  const custom = customFieldLines(deal.customFields);
+  if (custom.length) {
+    lines.push("Campos personalizados:", ...custom.map((line) => `• ${line}`));
+  }
   if (context?.reasons?.length) {
     lines.push("Señales de riesgo: ", ...context.reasons.map((reason, idx) => `${idx + 1}. ${reason}`));
   }
@@ -445,6 +465,8 @@ function buildContactSummaryPrompt({ contact }: ContactSummaryRequestPayload): s
   if (contact.role) lines.push(`Rol: ${contact.role}`);
   if (contact.owner) lines.push(`Owner interno: ${contact.owner}`);
   if (contact.lastActivity) lines.push(`Última actividad: ${contact.lastActivity}`);
+  const custom = customFieldLines(contact.customFields);
+  if (custom.length) lines.push("Campos personalizados:", ...custom.map((line) => `- ${line}`));
   if (contact.deals?.length) {
     lines.push("Deals asociados:");
     contact.deals.forEach((deal, index) => {
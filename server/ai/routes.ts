@@ -0,0 +1,92 @@
+import type { Express, Request } from "express";
+import type { IStorage } from "../storage";
+import { assertRecordsInScope, resolveOwnerScope, type ScopedRecordIds } from "../crm/access";
+import { sendError } from "../crm/http";
+import { generateDigest, generateNextStep, generateContactSummary } from "./gateway";
+import type { DigestRequestPayload, NextStepRequestPayload, ContactSummaryRequestPayload } from "./types";
+
+/**
+ * Endpoints de IA. Los prompts llevan datos de deals y contactos: van detrás del
+ * login (`/api/ai` está en `CRM_PATHS`) y solo aceptan registros del alcance del usuario.
+ */
+export function registerAiRoutes(app: Express, storage: IStorage) {
+  const assertInScope = async (req: Request, records: ScopedRecordIds) =>
+    assertRecordsInScope(storage, await resolveOwnerScope(storage, req.user), records);
+
+  app.post("/api/ai/digest", async (req, res) => {
+    const payload = req.body as Partial<DigestRequestPayload> | undefined;
+
+    if (!payload) {
+      return res.status(400).json({ success: false, message: "Body requerido" });
+    }
+
+    const hasStats = payload.stats && typeof payload.stats.hotDeals === "number";
+    const hasFallback = typeof payload.fallbackText === "string";
+    const hasTimeframe = payload.timeframe === "today" || payload.timeframe === "week" || payload.timeframe === "month";
+
+    if (!hasStats || !hasFallback || !hasTimeframe) {
+      return res.status(400).json({ success: false, message: "Payload inválido" });
+    }
+
+    try {
+      await assertInScope(req, {
+        deal_ids: [...(payload.topDeals ?? []), ...(payload.alerts ?? [])].map((item) => item.id),
+      });
+    } catch (error) {
+      return sendError(res, error, "No se pudo generar el digest");
+    }
+
+    try {
+      const digest = await generateDigest(payload as DigestRequestPayload);
+      res.json({ success: true, digest });
+    } catch (error) {
+      console.error("[AI] digest endpoint", error);
+      res.status(500).json({ success: false, message: "No se pudo generar el digest" });
+    }
+  });
+
+  app.post("/api/ai/next-step", async (req, res) => {
+    const payload = req.body as Partial<NextStepRequestPayload> | undefined;
+    if (!payload?.deal || !payload.fallbackText) {
+      return res.status(400).json({ success: false, message: "Payload inválido" });
+    }
+
+    try {
+      await assertInScope(req, { deal_ids: [payload.deal.id] });
+    } catch (error) {
+      return sendError(res, error, "No se pudo generar el próximo paso");
+    }
+
+    try {
+      const response = await generateNextStep(payload as NextStepRequestPayload);
+      res.json({ success: true, suggestion: response });
+    } catch (error) {
+      console.error("[AI] next-step endpoint", error);
+      res.status(500).json({ success: false, message: "No se pudo generar el próximo paso" });
+    }
+  });
+
+  app.post("/api/ai/contact-summary", async (req, res) => {
+    const payload = req.body as Partial<ContactSummaryRequestPayload> | undefined;
+    if (!payload?.contact || !payload.fallbackText) {
+      return res.status(400).json({ success: false, message: "Payload inválido" });
+    }
+
+    try {
+      await assertInScope(req, {
+        contact_ids: [payload.contact.id],
+        deal_ids: (payload.contact.deals ?? []).map((deal) => deal.id),
+      });
+    } catch (error) {
+      return sendError(res, error, "No se pudo generar el resumen del contacto");
+    }
+
+    try {
+      const response = await generateContactSummary(payload as ContactSummaryRequestPayload);
+      res.json({ success: true, summary: response });
+    } catch (error) {
+      console.error("[AI] contact-summary endpoint", error);
+      res.status(500).json({ success: false, message: "No se pudo generar el resumen del contacto" });
+    }
+  });
+}
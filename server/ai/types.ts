@@ -34,6 +34,12 @@ export interface DigestStats {
   overdueTasks: number;
 }
 
+/** Campo personalizado con valor, ya formateado por el cliente (`describeCustomFields`). */
+export interface CustomFieldSnapshot {
+  label: string;
+  value: string;
+}
+
 export interface DigestDealSnapshot {
   id: string;
   title: string;
@@ -44,6 +50,7 @@ export interface DigestDealSnapshot {
   risk: string;
   nextStep?: string | null;
   targetCloseDate?: string | null;
+  customFields?: CustomFieldSnapshot[];
 }
 
 export interface DigestAlertSnapshot {
@@ -84,6 +91,7 @@ export interface NextStepDealSnapshot {
   nextStep?: string | null;
   lastActivity?: string | null;
   targetCloseDate?: string | null;
+  customFields?: CustomFieldSnapshot[];
 }
 
 export interface NextStepContext {
@@ -113,6 +121,7 @@ export interface ContactSummarySnapshot {
   role?: string | null;
   lastActivity?: string | null;
   owner?: string | null;
+  customFields?: CustomFieldSnapshot[];
   deals?: Array<{
     id: string;
     title: string;
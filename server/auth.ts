@@ -0,0 +1,187 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import { DEFAULT_ROLE } from "@shared/permissions";
+import type { IStorage } from "./storage";
+import { CrmError } from "./crm/errors";
+import { parseInput, sendError } from "./crm/http";
+
+/** Usuario sin el hash de la contraseña: lo único que sale del servidor. */
+export type PublicUser = Omit<User, "password">;
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+/** Hash `scrypt` con sal aleatoria, serializado como `<hash>.<salt>` en hex. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return expected.length === derived.length && timingSafeEqual(expected, derived);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+const registerSchema = z.object({
+  username: z.string().trim().min(3, "El usuario debe tener al menos 3 caracteres"),
+  password: z.string().min(8, "La contraseña debe tener al menos 8 caracteres"),
+  email: z.string().trim().email("Email no válido").nullish(),
+  full_name: z.string().trim().nullish(),
+});
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+const DEV_SESSION_SECRET = "pulse-crm-dev-secret";
+
+function resolveSessionSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET es obligatorio en producción");
+  }
+  console.warn("[auth] SESSION_SECRET no definido, usando secreto de desarrollo");
+  return DEV_SESSION_SECRET;
+}
+
+/** Corta con 401 las peticiones sin sesión iniciada. */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ success: false, message: "Debes iniciar sesión" });
+}
+
+// Sesión nueva al entrar: un identificador fijado antes del login no sirve después (session fixation)
+function logIn(req: Request, user: Express.User) {
+  return new Promise<void>((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+      req.login(user, (error) => (error ? reject(error) : resolve()));
+    });
+  });
+}
+
+export function setupAuth(app: Express, storage: IStorage) {
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(
+    session({
+      secret: resolveSessionSecret(),
+      resave: false,
+      saveUninitialized: false,
+      store: storage.sessionStore,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+  // Instancia propia (no el singleton) para no compartir estrategias entre apps
+  const authenticator = new passport.Passport();
+  app.use(authenticator.initialize());
+  app.use(authenticator.session());
+
+  authenticator.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  authenticator.serializeUser((user, done) => done(null, user.id));
+  authenticator.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const input = parseInput(registerSchema, req.body);
+      if (await storage.getUserByUsername(input.username)) {
+        throw new CrmError("El usuario ya existe", 409);
+      }
+
+      // La primera cuenta administra la instalación; el resto empieza como Usuario
+      const user = await storage.registerUser({
+        ...input,
+        password: await hashPassword(input.password),
+        role: DEFAULT_ROLE,
+      });
+      const publicUser = toPublicUser(user);
+      await logIn(req, publicUser);
+      res.status(201).json({ success: true, user: publicUser });
+    } catch (error) {
+      sendError(res, error, "No se pudo registrar el usuario");
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    try {
+      parseInput(loginSchema, req.body);
+    } catch (error) {
+      return sendError(res, error, "No se pudo iniciar sesión");
+    }
+
+    authenticator.authenticate("local", async (error: unknown, user: Express.User | false) => {
+      try {
+        if (error) throw error;
+        if (!user) throw new CrmError("Usuario o contraseña incorrectos", 401);
+        await logIn(req, user);
+        res.json({ success: true, user });
+      } catch (authError) {
+        sendError(res, authError, "No se pudo iniciar sesión");
+      }
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.logout((error) => {
+      if (error) return sendError(res, error, "No se pudo cerrar la sesión");
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json({ success: true, user: req.user });
+  });
+}
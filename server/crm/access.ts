@@ -0,0 +1,95 @@
+import { can, isOwnerInScope, normalizeRole, type OwnerScope, type Permission } from "@shared/permissions";
+import type { Task, TimelineEntry } from "@shared/schema";
+import type { DealScope, IStorage } from "../storage";
+import { ForbiddenError } from "./errors";
+
+type Actor = Pick<Express.User, "id" | "role">;
+
+export function assertCan(actor: Actor | undefined, permission: Permission): void {
+  if (!actor || !can(actor.role, permission)) throw new ForbiddenError();
+}
+
+/** Admin ve todo; Manager a sí mismo y a quienes le reportan; Usuario solo lo suyo. */
+export async function resolveOwnerScope(storage: IStorage, actor: Actor | undefined): Promise<OwnerScope> {
+  if (!actor) return { kind: "owners", ownerIds: [] };
+
+  switch (normalizeRole(actor.role)) {
+    case "Admin":
+      return { kind: "all" };
+    case "Manager": {
+      const team = await storage.getUsers({ manager_id: actor.id });
+      return { kind: "owners", ownerIds: [actor.id, ...team.map((member) => member.id)] };
+    }
+    default:
+      return { kind: "owners", ownerIds: [actor.id] };
+  }
+}
+
+/** Traduce el alcance a los filtros de storage (`owner_ids`). */
+export function scopeFilter(scope: OwnerScope): DealScope {
+  return scope.kind === "all" ? {} : { owner_ids: scope.ownerIds };
+}
+
+export function assertInScope(scope: OwnerScope, ownerId: string | null | undefined): void {
+  if (!isOwnerInScope(scope, ownerId)) throw new ForbiddenError();
+}
+
+/** Ids de deals y contactos que llegan en el cuerpo de una petición, como los prompts de IA. */
+export interface ScopedRecordIds {
+  deal_ids?: string[];
+  contact_ids?: string[];
+}
+
+/** Todos los deals y contactos indicados existen y están en el alcance. */
+export async function assertRecordsInScope(storage: IStorage, scope: OwnerScope, records: ScopedRecordIds): Promise<void> {
+  if (scope.kind === "all") return;
+  for (const id of records.deal_ids ?? []) {
+    assertInScope(scope, (await storage.getDeal(String(id)))?.owner_id);
+  }
+  for (const id of records.contact_ids ?? []) {
+    assertInScope(scope, (await storage.getContact(String(id)))?.owner_id);
+  }
+}
+
+/** Una tarea está en el alcance si lo está su asignado, su deal o su contacto. */
+export async function isTaskInScope(
+  storage: IStorage,
+  scope: OwnerScope,
+  task: Pick<Task, "assigned_to" | "deal_id" | "contact_id">,
+): Promise<boolean> {
+  if (isOwnerInScope(scope, task.assigned_to)) return true;
+  if (task.deal_id && isOwnerInScope(scope, (await storage.getDeal(task.deal_id))?.owner_id)) return true;
+  return Boolean(task.contact_id) && isOwnerInScope(scope, (await storage.getContact(task.contact_id!))?.owner_id);
+}
+
+export async function assertTaskInScope(
+  storage: IStorage,
+  scope: OwnerScope,
+  task: Pick<Task, "assigned_to" | "deal_id" | "contact_id">,
+): Promise<void> {
+  if (!(await isTaskInScope(storage, scope, task))) throw new ForbiddenError();
+}
+
+/** Las entradas del timeline siguen el alcance de su registro; las de empresas las ven todos. */
+export async function assertTimelineEntryInScope(
+  storage: IStorage,
+  scope: OwnerScope,
+  entry: Pick<TimelineEntry, "entity_type" | "entity_id">,
+): Promise<void> {
+  if (scope.kind === "all") return;
+  switch (entry.entity_type) {
+    case "company":
+      return;
+    case "deal":
+      return assertInScope(scope, (await storage.getDeal(entry.entity_id))?.owner_id);
+    case "contact":
+      return assertInScope(scope, (await storage.getContact(entry.entity_id))?.owner_id);
+    case "task": {
+      const task = await storage.getTask(entry.entity_id);
+      if (!task) throw new ForbiddenError();
+      return assertTaskInScope(storage, scope, task);
+    }
+    default:
+      throw new ForbiddenError();
+  }
+}
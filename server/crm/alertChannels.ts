@@ -0,0 +1,251 @@
+import type {
+  AlertChannel,
+  AlertDelivery,
+  InsertAlertChannel,
+  NewAlertChannel,
+  UpdateAlertChannel,
+} from "@shared/schema";
+import {
+  formatAlertChannelMessage,
+  matchesAlertChannel,
+  type AlertChannelEntry,
+  type AlertDeliveryTrigger,
+} from "@shared/alertChannels";
+import { compareDealAlertSeverity } from "@shared/dealAlerts";
+import type { IStorage } from "../storage";
+import { listOpenDealAlerts } from "./dealAlerts";
+import { CrmError, NotFoundError } from "./errors";
+import { getDefaultPipeline } from "./pipelines";
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Lo que espera cada intento antes de darlo por fallido. */
+export const ALERT_DELIVERY_TIMEOUT_MS = 5000;
+/** Intentos de cada envío; entre uno y otro se espera el doble que la vez anterior. */
+export const ALERT_DELIVERY_MAX_ATTEMPTS = 3;
+export const ALERT_DELIVERY_RETRY_DELAY_MS = 2000;
+/** Cada cuánto se buscan canales con el envío pendiente. */
+export const ALERT_CHANNEL_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DEFAULT_DELIVERIES_LIMIT = 50;
+
+/* Canales */
+
+export async function listAlertChannels(storage: IStorage): Promise<AlertChannel[]> {
+  return storage.getAlertChannels();
+}
+
+export async function getAlertChannel(storage: IStorage, id: string): Promise<AlertChannel> {
+  const channel = await storage.getAlertChannel(id);
+  if (!channel) throw new NotFoundError("Alert channel");
+  return channel;
+}
+
+/** Los owners y pipelines de los filtros existen. */
+async function assertValidFilters(storage: IStorage, channel: Pick<AlertChannel, "owner_ids" | "pipeline_ids">) {
+  const errors: string[] = [];
+  for (const ownerId of channel.owner_ids) {
+    if (!(await storage.getUser(ownerId))) errors.push(`Usuario desconocido: ${ownerId}`);
+  }
+  for (const pipelineId of channel.pipeline_ids) {
+    if (!(await storage.getPipeline(pipelineId))) errors.push(`Pipeline desconocido: ${pipelineId}`);
+  }
+  if (errors.length) throw new CrmError(errors.join(". "));
+}
+
+export async function createAlertChannel(
+  storage: IStorage,
+  input: InsertAlertChannel,
+  actorId: string | null = null,
+): Promise<AlertChannel> {
+  const channel = { ...input, owner_ids: input.owner_ids ?? [], pipeline_ids: input.pipeline_ids ?? [] };
+  await assertValidFilters(storage, channel);
+  return storage.createAlertChannel({ ...channel, created_by: actorId });
+}
+
+export async function updateAlertChannel(
+  storage: IStorage,
+  id: string,
+  patch: UpdateAlertChannel,
+): Promise<AlertChannel> {
+  const current = await getAlertChannel(storage, id);
+  const changes: Partial<NewAlertChannel> = { updated_at: new Date() };
+  if (patch.name !== undefined) changes.name = patch.name;
+  if (patch.format !== undefined) changes.format = patch.format;
+  if (patch.url !== undefined) changes.url = patch.url;
+  if (patch.enabled !== undefined) changes.enabled = patch.enabled;
+  if (patch.severity !== undefined) changes.severity = patch.severity;
+  if (patch.owner_ids !== undefined) changes.owner_ids = patch.owner_ids;
+  if (patch.pipeline_ids !== undefined) changes.pipeline_ids = patch.pipeline_ids;
+  if (patch.interval_hours !== undefined) changes.interval_hours = patch.interval_hours;
+  await assertValidFilters(storage, {
+    owner_ids: changes.owner_ids ?? current.owner_ids,
+    pipeline_ids: changes.pipeline_ids ?? current.pipeline_ids,
+  });
+  const updated = await storage.updateAlertChannel(id, changes);
+  if (!updated) throw new NotFoundError("Alert channel");
+  return updated;
+}
+
+export async function deleteAlertChannel(storage: IStorage, id: string): Promise<void> {
+  await getAlertChannel(storage, id);
+  await storage.deleteAlertChannel(id);
+}
+
+export async function listAlertDeliveries(storage: IStorage, channelId: string, limit = DEFAULT_DELIVERIES_LIMIT) {
+  await getAlertChannel(storage, channelId);
+  return storage.getAlertDeliveries({ channel_id: channelId, limit });
+}
+
+/* Envíos */
+
+export interface AlertDeliveryOptions {
+  now?: Date;
+  /** Espera antes del primer reintento; los tests la acortan. */
+  retryDelayMs?: number;
+}
+
+/**
+ * Alertas abiertas según la última sincronización del planificador (no la
+ * repite), las críticas primero, con lo que necesitan los filtros y el mensaje.
+ */
+async function collectAlertEntries(storage: IStorage, now: Date): Promise<AlertChannelEntry[]> {
+  const [open, users, defaultPipeline] = await Promise.all([
+    listOpenDealAlerts(storage, now),
+    storage.getUsers(),
+    getDefaultPipeline(storage),
+  ]);
+  return open
+    .map(({ deal, hits }) => {
+      const [top] = hits;
+      const owner = users.find((user) => user.id === deal.owner_id);
+      return {
+        deal: {
+          id: deal.id,
+          title: deal.title,
+          company: deal.company ?? null,
+          owner_id: deal.owner_id ?? null,
+          pipeline_id: deal.pipeline_id ?? defaultPipeline.id,
+        },
+        owner_name: owner ? (owner.full_name ?? owner.username) : null,
+        severity: top.severity,
+        message: top.message,
+        recommendedAction: top.recommendedAction,
+        priority: deal.priority ?? "Cold",
+        risk: deal.risk_level ?? "Bajo",
+        rules: hits.map((hit) => hit.rule),
+      };
+    })
+    .sort((a, b) => compareDealAlertSeverity(a.severity, b.severity));
+}
+
+interface PostOutcome {
+  ok: boolean;
+  attempts: number;
+  status: number | null;
+  error: string | null;
+}
+
+// Un 429 o un 5xx pueden ser pasajeros; cualquier otro 4xx no se arregla reintentando
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+async function postWithRetry(url: string, body: unknown, retryDelayMs: number): Promise<PostOutcome> {
+  let last: Pick<PostOutcome, "status" | "error"> = { status: null, error: null };
+  for (let attempt = 1; attempt <= ALERT_DELIVERY_MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 2)));
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(ALERT_DELIVERY_TIMEOUT_MS),
+      });
+      if (response.ok) return { ok: true, attempts: attempt, status: response.status, error: null };
+      last = { status: response.status, error: `El webhook respondió ${response.status}` };
+      if (!isRetryable(response.status)) return { ok: false, attempts: attempt, ...last };
+    } catch (error) {
+      last = { status: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  return { ok: false, attempts: ALERT_DELIVERY_MAX_ATTEMPTS, ...last };
+}
+
+/** Envía al canal las alertas que le tocan y deja el resultado en el registro de envíos. */
+async function deliver(
+  storage: IStorage,
+  channel: AlertChannel,
+  entries: AlertChannelEntry[],
+  trigger: AlertDeliveryTrigger,
+  retryDelayMs: number,
+): Promise<AlertDelivery> {
+  const outcome = await postWithRetry(channel.url, formatAlertChannelMessage(channel.format, entries), retryDelayMs);
+  return storage.createAlertDelivery({
+    channel_id: channel.id,
+    trigger,
+    status: outcome.ok ? "delivered" : "failed",
+    alert_count: entries.length,
+    attempts: outcome.attempts,
+    response_status: outcome.status,
+    error: outcome.error,
+  });
+}
+
+/**
+ * "Enviar ahora" desde el editor: manda las alertas del canal aunque no le
+ * toque y aunque esté desactivado, y también sin alertas, para comprobar que
+ * el webhook funciona. No cambia cuándo toca el siguiente envío programado.
+ */
+export async function sendAlertChannel(
+  storage: IStorage,
+  id: string,
+  { now = new Date(), retryDelayMs = ALERT_DELIVERY_RETRY_DELAY_MS }: AlertDeliveryOptions = {},
+): Promise<AlertDelivery> {
+  const channel = await getAlertChannel(storage, id);
+  const entries = (await collectAlertEntries(storage, now)).filter((entry) => matchesAlertChannel(channel, entry));
+  return deliver(storage, channel, entries, "manual", retryDelayMs);
+}
+
+function isDue(channel: AlertChannel, now: Date): boolean {
+  if (!channel.last_sent_at) return true;
+  return now.getTime() - channel.last_sent_at.getTime() >= channel.interval_hours * HOUR_MS;
+}
+
+/**
+ * Envía las alertas abiertas a los canales activos a los que les toca según
+ * su intervalo. Un canal sin alertas que le correspondan no recibe nada: el
+ * envío se da por hecho y espera al siguiente intervalo.
+ */
+export async function checkAlertChannels(
+  storage: IStorage,
+  { now = new Date(), retryDelayMs = ALERT_DELIVERY_RETRY_DELAY_MS }: AlertDeliveryOptions = {},
+): Promise<AlertDelivery[]> {
+  const due = (await storage.getAlertChannels()).filter((channel) => channel.enabled && isDue(channel, now));
+  if (!due.length) return [];
+  const entries = await collectAlertEntries(storage, now);
+  const deliveries: AlertDelivery[] = [];
+  for (const channel of due) {
+    // Se marca antes de enviar: un webhook caído no se reintenta en cada revisión, sino al siguiente intervalo.
+    // last_sent_at no cuenta como edición del canal
+    await storage.updateAlertChannel(channel.id, { last_sent_at: now, updated_at: channel.updated_at });
+    const matching = entries.filter((entry) => matchesAlertChannel(channel, entry));
+    if (matching.length) deliveries.push(await deliver(storage, channel, matching, "schedule", retryDelayMs));
+  }
+  return deliveries;
+}
+
+/** Revisa los canales al arrancar y cada `ALERT_CHANNEL_CHECK_INTERVAL_MS`. */
+export function startAlertChannelScheduler(
+  storage: IStorage,
+  intervalMs = ALERT_CHANNEL_CHECK_INTERVAL_MS,
+): () => void {
+  const check = () => {
+    checkAlertChannels(storage).catch((error) => {
+      console.error("[CRM] No se pudieron enviar las alertas a los canales", error);
+    });
+  };
+  check();
+  const timer = setInterval(check, intervalMs);
+  // El temporizador no mantiene vivo el proceso (tests, scripts)
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,390 @@
+import {
+  updateContactSchema,
+  updateDealSchema,
+  updateTaskSchema,
+  type AutomationRule,
+  type AutomationRun,
+  type Contact,
+  type Deal,
+  type InsertAutomationRule,
+  type NewAutomationRule,
+  type Task,
+  type UpdateAutomationRule,
+} from "@shared/schema";
+import {
+  AUTOMATION_TRIGGER_ENTITY,
+  automationRunStatus,
+  matchesAutomationConditions,
+  validateAutomationRule,
+  type AutomationAction,
+  type AutomationActionResult,
+  type AutomationEntity,
+  type AutomationTrigger,
+} from "@shared/automations";
+import type { IStorage } from "../storage";
+import { updateContact } from "./contacts";
+import { updateDeal } from "./deals";
+import { CrmError, NotFoundError } from "./errors";
+import { parseInput } from "./http";
+import { createTask, updateTask } from "./tasks";
+import { logTimelineEntry, type MutationOptions } from "./timeline";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Lo que espera un webhook antes de darlo por fallido. */
+export const AUTOMATION_WEBHOOK_TIMEOUT_MS = 5000;
+/** Resultado de un webhook en el registro de ejecuciones hasta que responde. */
+export const AUTOMATION_WEBHOOK_QUEUED = "Webhook en cola";
+/** Cada cuánto se buscan tareas vencidas. */
+export const OVERDUE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_RUNS_LIMIT = 50;
+
+/** Registro sobre el que se evalúa una regla, según la entidad del disparador. */
+export type AutomationRecord =
+  | { entity: "deal"; record: Deal }
+  | { entity: "contact"; record: Contact }
+  | { entity: "task"; record: Task };
+
+/* Reglas */
+
+export async function listAutomationRules(storage: IStorage): Promise<AutomationRule[]> {
+  return storage.getAutomationRules();
+}
+
+export async function getAutomationRule(storage: IStorage, id: string): Promise<AutomationRule> {
+  const rule = await storage.getAutomationRule(id);
+  if (!rule) throw new NotFoundError("Automation rule");
+  return rule;
+}
+
+/** Campos y valores coherentes con el disparador, y owners que existen. */
+async function assertValidRule(storage: IStorage, rule: Pick<AutomationRule, "trigger" | "conditions" | "actions">) {
+  const errors = validateAutomationRule(rule);
+  for (const action of rule.actions) {
+    if (action.type === "assign_owner" && !(await storage.getUser(action.owner_id))) {
+      errors.push(`Usuario desconocido: ${action.owner_id}`);
+    }
+  }
+  if (errors.length) throw new CrmError(errors.join(". "));
+}
+
+export async function createAutomationRule(
+  storage: IStorage,
+  input: InsertAutomationRule,
+  actorId: string | null = null,
+): Promise<AutomationRule> {
+  const rule = { ...input, conditions: input.conditions ?? [] };
+  await assertValidRule(storage, rule);
+  return storage.createAutomationRule({ ...rule, created_by: actorId });
+}
+
+export async function updateAutomationRule(
+  storage: IStorage,
+  id: string,
+  patch: UpdateAutomationRule,
+): Promise<AutomationRule> {
+  const current = await getAutomationRule(storage, id);
+  const changes: Partial<NewAutomationRule> = { updated_at: new Date() };
+  if (patch.name !== undefined) changes.name = patch.name;
+  if (patch.enabled !== undefined) changes.enabled = patch.enabled;
+  if (patch.trigger !== undefined) changes.trigger = patch.trigger;
+  if (patch.conditions !== undefined) changes.conditions = patch.conditions;
+  if (patch.actions !== undefined) changes.actions = patch.actions;
+  // Cambiar el disparador puede dejar condiciones de otra entidad: se valida la regla entera
+  if (patch.trigger !== undefined || patch.conditions !== undefined || patch.actions !== undefined) {
+    await assertValidRule(storage, {
+      trigger: changes.trigger ?? current.trigger,
+      conditions: changes.conditions ?? current.conditions,
+      actions: changes.actions ?? current.actions,
+    });
+  }
+  const updated = await storage.updateAutomationRule(id, changes);
+  if (!updated) throw new NotFoundError("Automation rule");
+  return updated;
+}
+
+export async function deleteAutomationRule(storage: IStorage, id: string): Promise<void> {
+  await getAutomationRule(storage, id);
+  await storage.deleteAutomationRule(id);
+}
+
+export async function listAutomationRuns(storage: IStorage, ruleId: string, limit = DEFAULT_RUNS_LIMIT) {
+  await getAutomationRule(storage, ruleId);
+  return storage.getAutomationRuns({ rule_id: ruleId, limit });
+}
+
+/* Ejecución */
+
+function recordLabel(target: AutomationRecord): string {
+  return target.entity === "contact" ? target.record.name : target.record.title;
+}
+
+function recordOwner(target: AutomationRecord): string | null {
+  return target.entity === "task" ? target.record.assigned_to : target.record.owner_id;
+}
+
+/** La tarea creada por una regla cuelga del mismo deal o contacto que el registro. */
+function linkedRecords(target: AutomationRecord): { deal_id: string | null; contact_id: string | null } {
+  switch (target.entity) {
+    case "deal":
+      return { deal_id: target.record.id, contact_id: target.record.contact_id };
+    case "contact":
+      return { deal_id: null, contact_id: target.record.id };
+    case "task":
+      return { deal_id: target.record.deal_id, contact_id: target.record.contact_id };
+  }
+}
+
+// Las acciones llaman a los servicios sin automatizaciones: una regla no dispara otras reglas
+const ACTION_OPTIONS: MutationOptions = { skipAutomations: true };
+
+async function patchRecord(
+  storage: IStorage,
+  target: AutomationRecord,
+  patch: Record<string, string>,
+): Promise<AutomationRecord> {
+  // Mismas validaciones que una edición por API
+  const { id } = target.record;
+  switch (target.entity) {
+    case "deal": {
+      const deal = await updateDeal(storage, id, parseInput(updateDealSchema, patch), null, ACTION_OPTIONS);
+      return { entity: "deal", record: deal };
+    }
+    case "contact":
+      await updateContact(storage, id, parseInput(updateContactSchema, patch), null, ACTION_OPTIONS);
+      return reloadRecord(storage, target);
+    case "task": {
+      const task = await updateTask(storage, id, parseInput(updateTaskSchema, patch), null, ACTION_OPTIONS);
+      return { entity: "task", record: task };
+    }
+  }
+}
+
+async function callWebhook(url: string, body: unknown): Promise<string> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(AUTOMATION_WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`El webhook respondió ${response.status}`);
+  return `Webhook ${response.status}`;
+}
+
+interface QueuedWebhook {
+  /** Posición de la acción en la regla y de su resultado en la ejecución. */
+  index: number;
+  url: string;
+  body: unknown;
+}
+
+/**
+ * Envía los webhooks de una ejecución ya registrada y anota cómo respondieron.
+ * Se llama sin esperar: un endpoint lento no frena el cambio que disparó la regla.
+ */
+async function deliverWebhooks(storage: IStorage, run: AutomationRun, webhooks: QueuedWebhook[]): Promise<void> {
+  const results = [...run.results];
+  await Promise.all(
+    webhooks.map(async ({ index, url, body }) => {
+      try {
+        results[index] = { type: "webhook", ok: true, detail: await callWebhook(url, body) };
+      } catch (error) {
+        results[index] = { type: "webhook", ok: false, detail: error instanceof Error ? error.message : String(error) };
+      }
+    }),
+  );
+  await storage.updateAutomationRun(run.id, { results, status: automationRunStatus(results) });
+}
+
+interface ActionContext {
+  storage: IStorage;
+  rule: AutomationRule;
+  now: Date;
+}
+
+/** Ejecuta una acción y devuelve el registro tal y como queda para las siguientes. */
+async function runAction(
+  { storage, rule, now }: ActionContext,
+  action: Exclude<AutomationAction, { type: "webhook" }>,
+  target: AutomationRecord,
+): Promise<{ detail: string; target: AutomationRecord }> {
+  switch (action.type) {
+    case "create_task": {
+      const task = await createTask(
+        storage,
+        {
+          title: action.title,
+          priority: action.priority,
+          due_at: new Date(now.getTime() + action.due_in_days * DAY_MS),
+          assigned_to: recordOwner(target),
+          ...linkedRecords(target),
+        },
+        null,
+        ACTION_OPTIONS,
+      );
+      return { detail: `Tarea creada: ${task.title}`, target };
+    }
+    case "assign_owner": {
+      const user = await storage.getUser(action.owner_id);
+      if (!user) throw new CrmError(`Usuario desconocido: ${action.owner_id}`);
+      const field = target.entity === "task" ? "assigned_to" : "owner_id";
+      const updated = await patchRecord(storage, target, { [field]: user.id });
+      return { detail: `Asignado a ${user.full_name ?? user.username}`, target: updated };
+    }
+    case "set_field": {
+      const updated = await patchRecord(storage, target, { [action.field]: action.value });
+      return { detail: `${action.field} = ${action.value}`, target: updated };
+    }
+    case "log_timeline":
+      await logTimelineEntry(storage, {
+        type: "automation",
+        description: action.message,
+        entity_type: target.entity,
+        entity_id: target.record.id,
+        metadata: { rule_id: rule.id, rule: rule.name },
+      });
+      return { detail: "Entrada añadida al timeline", target };
+  }
+}
+
+/** Aplica una regla al registro: cada acción falla por separado y todo queda en el registro de ejecuciones. */
+async function executeRule(
+  storage: IStorage,
+  rule: AutomationRule,
+  target: AutomationRecord,
+  now: Date,
+): Promise<AutomationRun> {
+  const results: AutomationActionResult[] = [];
+  const webhooks: QueuedWebhook[] = [];
+  let current = target;
+  for (const action of rule.actions) {
+    if (action.type === "webhook") {
+      // El webhook recibe el registro tal y como lo dejan las acciones anteriores
+      webhooks.push({
+        index: results.length,
+        url: action.url,
+        body: {
+          rule: { id: rule.id, name: rule.name },
+          trigger: rule.trigger,
+          entity_type: current.entity,
+          record: current.record,
+        },
+      });
+      results.push({ type: action.type, ok: true, detail: AUTOMATION_WEBHOOK_QUEUED });
+      continue;
+    }
+    try {
+      const outcome = await runAction({ storage, rule, now }, action, current);
+      current = outcome.target;
+      results.push({ type: action.type, ok: true, detail: outcome.detail });
+    } catch (error) {
+      results.push({ type: action.type, ok: false, detail: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  const run = await storage.createAutomationRun({
+    rule_id: rule.id,
+    trigger: rule.trigger,
+    entity_type: target.entity,
+    entity_id: target.record.id,
+    entity_label: recordLabel(target),
+    status: automationRunStatus(results),
+    results,
+  });
+  // last_run_at no cuenta como edición de la regla
+  await storage.updateAutomationRule(rule.id, { last_run_at: now, updated_at: rule.updated_at });
+  if (webhooks.length) {
+    deliverWebhooks(storage, run, webhooks).catch((error) => {
+      console.error(`[CRM] No se pudieron registrar los webhooks de la automatización ${rule.name}`, error);
+    });
+  }
+  return run;
+}
+
+/**
+ * Evalúa las reglas activas del disparador sobre el registro y ejecuta las que
+ * cumplen sus condiciones, en orden de alta. Nunca lanza: un fallo de las
+ * automatizaciones no puede tumbar el cambio que las disparó.
+ */
+export async function runAutomations(
+  storage: IStorage,
+  trigger: AutomationTrigger,
+  target: AutomationRecord,
+  now = new Date(),
+): Promise<AutomationRun[]> {
+  const runs: AutomationRun[] = [];
+  try {
+    const entity: AutomationEntity = AUTOMATION_TRIGGER_ENTITY[trigger];
+    if (entity !== target.entity) return runs;
+    const rules = await storage.getAutomationRules({ trigger, enabled: true });
+    let current = target;
+    for (const rule of rules) {
+      if (!matchesAutomationConditions(current.record, rule.conditions)) continue;
+      runs.push(await executeRule(storage, rule, current, now));
+      // La siguiente regla ve el registro con los cambios de la anterior
+      current = await reloadRecord(storage, current);
+    }
+  } catch (error) {
+    console.error(`[CRM] No se pudieron ejecutar las automatizaciones de ${trigger}`, error);
+  }
+  return runs;
+}
+
+async function reloadRecord(storage: IStorage, target: AutomationRecord): Promise<AutomationRecord> {
+  switch (target.entity) {
+    case "deal": {
+      const deal = await storage.getDeal(target.record.id);
+      return deal ? { entity: "deal", record: deal } : target;
+    }
+    case "contact": {
+      const contact = await storage.getContact(target.record.id);
+      return contact ? { entity: "contact", record: contact } : target;
+    }
+    case "task": {
+      const task = await storage.getTask(target.record.id);
+      return task ? { entity: "task", record: task } : target;
+    }
+  }
+}
+
+/* Tareas vencidas */
+
+function isOverdue(task: Task, now: Date): boolean {
+  return task.state !== "Done" && !!task.due_at && new Date(task.due_at).getTime() < now.getTime();
+}
+
+/**
+ * Dispara `task_overdue` para las tareas abiertas con el vencimiento pasado.
+ * Cada regla se aplica una sola vez por tarea: las ya ejecutadas se saltan.
+ */
+export async function checkOverdueTasks(storage: IStorage, now = new Date()): Promise<AutomationRun[]> {
+  const rules = await storage.getAutomationRules({ trigger: "task_overdue", enabled: true });
+  if (!rules.length) return [];
+  // Las ejecuciones previas se cargan una vez por revisión, no una por tarea y regla
+  const previous = new Set(
+    (await storage.getAutomationRuns({ trigger: "task_overdue" })).map((run) => `${run.rule_id}:${run.entity_id}`),
+  );
+  const runs: AutomationRun[] = [];
+  for (const task of await storage.getTasks()) {
+    if (!isOverdue(task, now)) continue;
+    for (const rule of rules) {
+      if (!matchesAutomationConditions(task, rule.conditions)) continue;
+      if (previous.has(`${rule.id}:${task.id}`)) continue;
+      const current = (await storage.getTask(task.id)) ?? task;
+      runs.push(await executeRule(storage, rule, { entity: "task", record: current }, now));
+    }
+  }
+  return runs;
+}
+
+/** Revisa las tareas vencidas al arrancar y cada `OVERDUE_CHECK_INTERVAL_MS`. */
+export function startAutomationScheduler(storage: IStorage, intervalMs = OVERDUE_CHECK_INTERVAL_MS): () => void {
+  const check = () => {
+    checkOverdueTasks(storage).catch((error) => {
+      console.error("[CRM] No se pudieron revisar las tareas vencidas", error);
+    });
+  };
+  check();
+  const timer = setInterval(check, intervalMs);
+  // El temporizador no mantiene vivo el proceso (tests, scripts)
+  timer.unref();
+  return () => clearInterval(timer);
+}
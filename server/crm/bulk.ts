@@ -0,0 +1,382 @@
+import { randomUUID } from "crypto";
+import {
+  BULK_ACTION_LABELS,
+  BULK_MAX_RECORDS,
+  BULK_PRIORITIES,
+  BULK_STATUSES,
+  isBulkActionAllowed,
+  type BulkAction,
+  type BulkEntity,
+  type BulkRecordResult,
+  type BulkReport,
+} from "@shared/bulkActions";
+import { describeDealChanges } from "@shared/dealRules";
+import { isOwnerInScope, type OwnerScope } from "@shared/permissions";
+import type { Deal, Task } from "@shared/schema";
+import { addTagId, removeTagId } from "@shared/tags";
+import type { IStorage } from "../storage";
+import { isTaskInScope } from "./access";
+import { updateCompany, deleteCompany } from "./companies";
+import { deleteContact, getContact, updateContact } from "./contacts";
+import { deleteDeal, getDeal, updateDeal } from "./deals";
+import { CrmError, ForbiddenError, NotFoundError } from "./errors";
+import { createTask, deleteTask, getTask, updateTask } from "./tasks";
+import { logTimelineEntry, type TimelineEntityType } from "./timeline";
+
+export interface BulkInput {
+  ids: string[];
+  action: BulkAction;
+}
+
+export interface BulkContext {
+  actorId: string | null;
+  /** Alcance del usuario: los deals, contactos y tareas de fuera fallan uno a uno. */
+  scope: OwnerScope;
+}
+
+/** Lo que se anota en la entrada del timeline del registro. */
+interface BulkOutcome {
+  name: string;
+  changes: string[];
+  task_id?: string;
+}
+
+type BulkHandler = (
+  storage: IStorage,
+  id: string,
+  action: BulkAction,
+  context: BulkContext & {
+    ownerName: (id: string | null | undefined) => string | null;
+    /** Nombre de la etiqueta en las acciones de etiquetas. */
+    tagName: string | null;
+  },
+) => Promise<BulkOutcome>;
+
+/** Motivo en el informe de los fallos inesperados de un registro. */
+const BULK_RECORD_ERROR = "No se pudo procesar el registro";
+
+type TagAction = Extract<BulkAction, { type: "add_tag" | "remove_tag" }>;
+
+const TIMELINE_TYPES: Record<BulkEntity, TimelineEntityType> = {
+  deals: "deal",
+  contacts: "contact",
+  companies: "company",
+  tasks: "task",
+};
+
+const SKIP_TIMELINE = { skipTimeline: true };
+
+function describeChange(label: string, before: unknown, after: unknown): string[] {
+  return before === after ? [] : [`${label}: ${before ?? "-"} → ${after ?? "-"}`];
+}
+
+function nextTagIds(tagIds: readonly string[], action: TagAction): string[] {
+  return action.type === "add_tag" ? addTagId(tagIds, action.tag_id) : removeTagId(tagIds, action.tag_id);
+}
+
+function describeTagChange(before: readonly string[], after: readonly string[], name: string | null): string[] {
+  if (before.length === after.length) return [];
+  return [`${after.length > before.length ? "Etiqueta añadida" : "Etiqueta quitada"}: ${name ?? "-"}`];
+}
+
+function assertRecordInScope(scope: OwnerScope, ownerId: string | null | undefined) {
+  if (!isOwnerInScope(scope, ownerId)) throw new ForbiddenError("Fuera de tu alcance");
+}
+
+/** Comprueba la acción una vez, antes de tocar ningún registro. */
+async function validateBulkAction(storage: IStorage, entity: BulkEntity, action: BulkAction): Promise<void> {
+  if (!isBulkActionAllowed(entity, action.type)) {
+    throw new CrmError(`"${BULK_ACTION_LABELS[action.type]}" no está disponible para ${entity}`);
+  }
+  switch (action.type) {
+    case "set_owner":
+      if (!(await storage.getUser(action.owner_id))) throw new CrmError(`Usuario desconocido: ${action.owner_id}`);
+      return;
+    case "set_stage":
+      if (!action.stage.trim()) throw new CrmError("Elige una etapa");
+      return;
+    case "set_priority":
+      if (!BULK_PRIORITIES[entity].includes(action.priority)) {
+        throw new CrmError(`Prioridad no válida: ${action.priority}`);
+      }
+      return;
+    case "set_status":
+      if (!BULK_STATUSES[entity]?.includes(action.status)) throw new CrmError(`Estado no válido: ${action.status}`);
+      if (entity === "deals" && action.status !== "Open" && !action.close_reason?.trim()) {
+        throw new CrmError("Indica el motivo de cierre");
+      }
+      return;
+    case "create_task":
+      if (!action.title.trim()) throw new CrmError("La tarea necesita un título");
+      if (action.priority && !BULK_PRIORITIES.tasks.includes(action.priority)) {
+        throw new CrmError(`Prioridad no válida: ${action.priority}`);
+      }
+      return;
+    case "add_tag":
+    case "remove_tag":
+      if (!(await storage.getTag(action.tag_id))) throw new CrmError(`Etiqueta desconocida: ${action.tag_id}`);
+      return;
+    case "delete":
+      return;
+  }
+}
+
+// La tarea de seguimiento queda para el owner del registro, o para quien lanza la operación
+async function createFollowUpTask(
+  storage: IStorage,
+  action: Extract<BulkAction, { type: "create_task" }>,
+  links: Pick<Task, "deal_id" | "contact_id">,
+  assignee: string | null,
+  actorId: string | null,
+): Promise<Task> {
+  return createTask(
+    storage,
+    {
+      title: action.title.trim(),
+      due_at: action.due_at ? new Date(action.due_at) : null,
+      priority: (action.priority ?? "Media") as Task["priority"],
+      assigned_to: assignee,
+      ...links,
+    },
+    actorId,
+    SKIP_TIMELINE,
+  );
+}
+
+const dealHandler: BulkHandler = async (storage, id, action, context) => {
+  const deal = await getDeal(storage, id);
+  assertRecordInScope(context.scope, deal.owner_id);
+  const outcome: BulkOutcome = { name: deal.title, changes: [] };
+  let updated: Deal;
+  switch (action.type) {
+    case "set_owner":
+      updated = await updateDeal(storage, id, { owner_id: action.owner_id }, context.actorId, SKIP_TIMELINE);
+      break;
+    case "set_stage":
+      updated = await updateDeal(storage, id, { stage: action.stage }, context.actorId, SKIP_TIMELINE);
+      break;
+    case "set_priority":
+      updated = await updateDeal(
+        storage,
+        id,
+        { priority: action.priority as Deal["priority"] },
+        context.actorId,
+        SKIP_TIMELINE,
+      );
+      break;
+    case "set_status":
+      updated = await updateDeal(
+        storage,
+        id,
+        { status: action.status as Deal["status"], close_reason: action.close_reason ?? null },
+        context.actorId,
+        SKIP_TIMELINE,
+      );
+      break;
+    case "create_task": {
+      const task = await createFollowUpTask(
+        storage,
+        action,
+        { deal_id: id, contact_id: deal.contact_id },
+        deal.owner_id ?? context.actorId,
+        context.actorId,
+      );
+      return { ...outcome, changes: [`Tarea: ${task.title}`], task_id: task.id };
+    }
+    case "add_tag":
+    case "remove_tag":
+      updated = await updateDeal(
+        storage,
+        id,
+        { tag_ids: nextTagIds(deal.tag_ids, action) },
+        context.actorId,
+        SKIP_TIMELINE,
+      );
+      return { ...outcome, changes: describeTagChange(deal.tag_ids, updated.tag_ids, context.tagName) };
+    default:
+      await deleteDeal(storage, id, context.actorId, SKIP_TIMELINE);
+      return outcome;
+  }
+  outcome.changes = [
+    ...describeChange("Owner", context.ownerName(deal.owner_id), context.ownerName(updated.owner_id)),
+    ...describeDealChanges(deal, updated),
+    ...describeChange("Prioridad", deal.priority, updated.priority),
+    ...(updated.status !== "Open" ? describeChange("Motivo de cierre", deal.close_reason, updated.close_reason) : []),
+  ];
+  return outcome;
+};
+
+const contactHandler: BulkHandler = async (storage, id, action, context) => {
+  const contact = await getContact(storage, id);
+  assertRecordInScope(context.scope, contact.owner_id);
+  const outcome: BulkOutcome = { name: contact.name, changes: [] };
+  switch (action.type) {
+    case "set_owner": {
+      const updated = await updateContact(storage, id, { owner_id: action.owner_id }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeChange(
+        "Owner",
+        context.ownerName(contact.owner_id),
+        context.ownerName(updated.owner_id),
+      );
+      return outcome;
+    }
+    case "set_priority": {
+      const priority = action.priority as NonNullable<typeof contact.priority>;
+      const updated = await updateContact(storage, id, { priority }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeChange("Prioridad", contact.priority, updated.priority);
+      return outcome;
+    }
+    case "create_task": {
+      const task = await createFollowUpTask(
+        storage,
+        action,
+        { deal_id: null, contact_id: id },
+        contact.owner_id ?? context.actorId,
+        context.actorId,
+      );
+      return { ...outcome, changes: [`Tarea: ${task.title}`], task_id: task.id };
+    }
+    case "add_tag":
+    case "remove_tag": {
+      const tagIds = nextTagIds(contact.tag_ids, action);
+      const updated = await updateContact(storage, id, { tag_ids: tagIds }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeTagChange(contact.tag_ids, updated.tag_ids, context.tagName);
+      return outcome;
+    }
+    default:
+      await deleteContact(storage, id, context.actorId, SKIP_TIMELINE);
+      return outcome;
+  }
+};
+
+const companyHandler: BulkHandler = async (storage, id, action, context) => {
+  const company = await storage.getCompany(id);
+  if (!company) throw new NotFoundError("Company");
+  const outcome: BulkOutcome = { name: company.name, changes: [] };
+  switch (action.type) {
+    case "set_priority": {
+      const updated = await updateCompany(storage, id, { priority: action.priority as typeof company.priority });
+      outcome.changes = describeChange("Prioridad", company.priority, updated.priority);
+      return outcome;
+    }
+    case "add_tag":
+    case "remove_tag": {
+      const updated = await updateCompany(storage, id, { tag_ids: nextTagIds(company.tag_ids, action) });
+      outcome.changes = describeTagChange(company.tag_ids, updated.tag_ids, context.tagName);
+      return outcome;
+    }
+    default:
+      await deleteCompany(storage, id);
+      return outcome;
+  }
+};
+
+const taskHandler: BulkHandler = async (storage, id, action, context) => {
+  const task = await getTask(storage, id);
+  if (!(await isTaskInScope(storage, context.scope, task))) throw new ForbiddenError("Fuera de tu alcance");
+  const outcome: BulkOutcome = { name: task.title, changes: [] };
+  switch (action.type) {
+    case "set_owner": {
+      const updated = await updateTask(storage, id, { assigned_to: action.owner_id }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeChange(
+        "Asignada a",
+        context.ownerName(task.assigned_to),
+        context.ownerName(updated.assigned_to),
+      );
+      return outcome;
+    }
+    case "set_priority": {
+      const priority = action.priority as Task["priority"];
+      const updated = await updateTask(storage, id, { priority }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeChange("Prioridad", task.priority, updated.priority);
+      return outcome;
+    }
+    case "set_status": {
+      const state = action.status as Task["state"];
+      const updated = await updateTask(storage, id, { state }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeChange("Estado", task.state, updated.state);
+      return outcome;
+    }
+    case "add_tag":
+    case "remove_tag": {
+      const tagIds = nextTagIds(task.tag_ids, action);
+      const updated = await updateTask(storage, id, { tag_ids: tagIds }, context.actorId, SKIP_TIMELINE);
+      outcome.changes = describeTagChange(task.tag_ids, updated.tag_ids, context.tagName);
+      return outcome;
+    }
+    default:
+      await deleteTask(storage, id, context.actorId, SKIP_TIMELINE);
+      return outcome;
+  }
+};
+
+const HANDLERS: Record<BulkEntity, BulkHandler> = {
+  deals: dealHandler,
+  contacts: contactHandler,
+  companies: companyHandler,
+  tasks: taskHandler,
+};
+
+/**
+ * Aplica la acción a cada registro en una sola operación. Un registro que
+ * falla (fuera de alcance, regla de negocio...) no detiene al resto: queda en
+ * el informe con su motivo. Cada registro procesado recibe una única entrada
+ * en el timeline con el id de la operación.
+ */
+export async function runBulkAction(
+  storage: IStorage,
+  entity: BulkEntity,
+  input: BulkInput,
+  context: BulkContext,
+): Promise<BulkReport> {
+  const ids = Array.from(new Set(input.ids));
+  if (!ids.length) throw new CrmError("Selecciona al menos un registro");
+  if (ids.length > BULK_MAX_RECORDS) throw new CrmError(`Como máximo ${BULK_MAX_RECORDS} registros por operación`);
+  const { action } = input;
+  await validateBulkAction(storage, entity, action);
+
+  const users = action.type === "set_owner" ? await storage.getUsers() : [];
+  const names = new Map(users.map((user) => [user.id, user.full_name || user.username]));
+  const ownerName = (id: string | null | undefined) => (id ? names.get(id) ?? id : null);
+  const tag = "tag_id" in action ? await storage.getTag(action.tag_id) : undefined;
+  const tagName = tag?.name ?? null;
+
+  const bulkId = randomUUID();
+  const handler = HANDLERS[entity];
+  const results: BulkRecordResult[] = [];
+  for (const id of ids) {
+    try {
+      const outcome = await handler(storage, id, action, { ...context, ownerName, tagName });
+      await logTimelineEntry(storage, {
+        type: action.type === "delete" ? "bulk_deleted" : "bulk_updated",
+        description: `${BULK_ACTION_LABELS[action.type]} en bloque: ${outcome.name}`,
+        entity_type: TIMELINE_TYPES[entity],
+        entity_id: id,
+        user_id: context.actorId,
+        metadata: {
+          bulk_id: bulkId,
+          action: action.type,
+          total: ids.length,
+          changes: outcome.changes,
+          ...(outcome.task_id ? { task_id: outcome.task_id } : {}),
+        },
+      });
+      results.push({ id, ok: true });
+    } catch (error) {
+      // Solo los errores del CRM llegan al cliente; los del storage se quedan en el log
+      if (!(error instanceof CrmError)) console.error(`[CRM] Acción en bloque ${action.type} sobre ${id}`, error);
+      results.push({ id, ok: false, error: error instanceof CrmError ? error.message : BULK_RECORD_ERROR });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.ok).length;
+  return {
+    bulk_id: bulkId,
+    entity,
+    action: action.type,
+    total: ids.length,
+    succeeded,
+    failed: ids.length - succeeded,
+    results,
+  };
+}
@@ -0,0 +1,285 @@
+import {
+  COMPANY_MERGE_FIELDS,
+  groupCompanyDuplicates,
+  normalizeCompanyName,
+  type CompanyDuplicateGroup,
+  type CompanyMergeField,
+} from "@shared/companyDuplicates";
+import { buildCompanyRollups, emptyCompanyRollup, type CompanyDealRollup } from "@shared/companyRollups";
+import type { Company, Deal, InsertCompany, NewCompany, Task, TimelineEntry, UpdateCompany } from "@shared/schema";
+import type { DealScope, IStorage } from "../storage";
+import { mergeCustomFieldValues } from "@shared/customFields";
+import { mergeTagIds } from "@shared/tags";
+import { CrmError, NotFoundError } from "./errors";
+import type { ContactView } from "./contacts";
+import { resolveCustomFieldValues } from "./customFields";
+import { resolveTagIds } from "./tags";
+import { logTimelineEntry } from "./timeline";
+
+export interface CompanyMergeInput {
+  merge_ids: string[];
+  /** Empresa de la que sale cada campo; por defecto la superviviente o la primera que lo tenga. */
+  fields?: Partial<Record<CompanyMergeField, string>>;
+}
+
+export interface CompanyMergeResult {
+  company: Company;
+  merged: number;
+  contacts: number;
+  deals: number;
+  timeline: number;
+}
+
+export interface CompanyOverview {
+  company: Company;
+  contacts: ContactView[];
+  deals: Deal[];
+  /** Tareas de sus deals o de sus contactos. */
+  tasks: Task[];
+  /** Actividad de la empresa, sus contactos, deals y tareas, la más reciente primero. */
+  timeline: TimelineEntry[];
+  rollup: CompanyDealRollup;
+}
+
+/** Entradas de actividad que muestra la ficha de empresa. */
+const OVERVIEW_TIMELINE_LIMIT = 50;
+
+export async function createCompany(storage: IStorage, input: InsertCompany): Promise<Company> {
+  const name = input.name?.trim();
+  if (!name) {
+    throw new CrmError("El nombre de la empresa es obligatorio");
+  }
+  const customFields = await resolveCustomFieldValues(storage, "companies", input.custom_fields);
+  const tagIds = await resolveTagIds(storage, input.tag_ids);
+  return storage.createCompany({
+    ...input,
+    name,
+    custom_fields: customFields ?? {},
+    tag_ids: tagIds ?? [],
+    score: 0,
+    priority: "Cold",
+  });
+}
+
+/**
+ * Empresa con ese nombre: primero la coincidencia exacta y, si no la hay, la
+ * que tenga el mismo nombre normalizado ("ACME S.L." encuentra "Acme").
+ */
+export async function findCompanyByName(storage: IStorage, name: string): Promise<Company | undefined> {
+  const exact = await storage.getCompanyByName(name);
+  if (exact) return exact;
+  const key = normalizeCompanyName(name);
+  if (!key) return undefined;
+  const companies = await storage.getCompanies();
+  // getCompanies devuelve las más recientes primero; gana la más antigua
+  return companies.reverse().find((company) => normalizeCompanyName(company.name) === key);
+}
+
+export async function ensureCompanyByName(storage: IStorage, name: string): Promise<Company> {
+  const trimmed = name?.trim();
+  if (!trimmed) {
+    throw new CrmError("El nombre de la empresa es obligatorio");
+  }
+
+  const existing = await findCompanyByName(storage, trimmed);
+  if (existing) return existing;
+
+  return storage.createCompany({ name: trimmed, score: 0, priority: "Cold" });
+}
+
+export async function updateCompany(storage: IStorage, id: string, patch: UpdateCompany): Promise<Company> {
+  if (patch.name !== undefined && !patch.name.trim()) {
+    throw new CrmError("El nombre de la empresa es obligatorio");
+  }
+  const current = await storage.getCompany(id);
+  if (!current) throw new NotFoundError("Company");
+  const { custom_fields: customFieldsInput, tag_ids: tagIdsInput, ...fields } = patch;
+  const changes: Partial<NewCompany> = fields;
+  const customFields = await resolveCustomFieldValues(storage, "companies", customFieldsInput, current.custom_fields);
+  if (customFields) changes.custom_fields = customFields;
+  const tagIds = await resolveTagIds(storage, tagIdsInput);
+  if (tagIds) changes.tag_ids = tagIds;
+  const updated = await storage.updateCompany(id, changes);
+  if (!updated) throw new NotFoundError("Company");
+
+  // Los deals vinculados muestran siempre el nombre vigente
+  if (updated.name !== current.name) {
+    for (const deal of await storage.getDeals({ company_id: id })) {
+      await storage.updateDeal(deal.id, { company: updated.name });
+    }
+  }
+  return updated;
+}
+
+export async function deleteCompany(storage: IStorage, id: string): Promise<void> {
+  const company = await storage.getCompany(id);
+  if (!company) throw new NotFoundError("Company");
+
+  // Los contactos conservan su ficha pero pierden el vínculo con la empresa eliminada.
+  const contacts = await storage.getContacts({ company_id: id });
+  for (const contact of contacts) {
+    await storage.updateContact(contact.id, { company_id: null });
+  }
+  // Los deals conservan el nombre como texto.
+  for (const deal of await storage.getDeals({ company_id: id })) {
+    await storage.updateDeal(deal.id, { company_id: null });
+  }
+
+  await storage.deleteCompany(id);
+}
+
+/**
+ * Ficha 360 de una empresa: contactos, deals y tareas dentro del alcance del
+ * usuario, más la actividad de todos ellos en un único timeline.
+ */
+export async function getCompanyOverview(
+  storage: IStorage,
+  id: string,
+  scope: DealScope = {},
+): Promise<CompanyOverview> {
+  const company = await storage.getCompany(id);
+  if (!company) throw new NotFoundError("Company");
+
+  const contacts = await storage.getContacts({ company_id: id, ...scope });
+  const deals = await storage.getDeals({ company_id: id, ...scope });
+  const dealIds = new Set(deals.map((deal) => deal.id));
+  const contactIds = new Set(contacts.map((contact) => contact.id));
+  const tasks = (await storage.getTasks()).filter(
+    (task) => (task.deal_id && dealIds.has(task.deal_id)) || (task.contact_id && contactIds.has(task.contact_id)),
+  );
+
+  const sources: Array<[string, string]> = [
+    ["company", id],
+    ...contacts.map((contact): [string, string] => ["contact", contact.id]),
+    ...deals.map((deal): [string, string] => ["deal", deal.id]),
+    ...tasks.map((task): [string, string] => ["task", task.id]),
+  ];
+  const timeline: TimelineEntry[] = [];
+  for (const [entity_type, entity_id] of sources) {
+    timeline.push(...(await storage.getTimelineEntries({ entity_type, entity_id, limit: OVERVIEW_TIMELINE_LIMIT })));
+  }
+  timeline.sort((a, b) => (b.created_at?.getTime() ?? 0) - (a.created_at?.getTime() ?? 0));
+
+  return {
+    company,
+    contacts: contacts.map((contact) => ({ ...contact, company: company.name })),
+    deals,
+    tasks,
+    timeline: timeline.slice(0, OVERVIEW_TIMELINE_LIMIT),
+    rollup: buildCompanyRollups(deals)[0] ?? emptyCompanyRollup(id),
+  };
+}
+
+/** Pipeline abierto, ingresos ganados y nº de deals por empresa, dentro del alcance. */
+export async function listCompanyRollups(storage: IStorage, scope: DealScope = {}): Promise<CompanyDealRollup[]> {
+  return buildCompanyRollups(await storage.getDeals(scope));
+}
+
+/**
+ * Enlaza con su empresa los deals que solo tienen el nombre en texto (datos
+ * anteriores a `deals.company_id` que la migración no pudo emparejar). No crea
+ * empresas: un deal cuya empresa se borró no la recupera.
+ */
+export async function linkDealsToCompanies(storage: IStorage): Promise<number> {
+  let linked = 0;
+  for (const deal of await storage.getDeals()) {
+    if (deal.company_id || !deal.company?.trim()) continue;
+    const company = await findCompanyByName(storage, deal.company.trim());
+    if (!company) continue;
+    await storage.updateDeal(deal.id, { company_id: company.id, updated_at: deal.updated_at ?? undefined });
+    linked += 1;
+  }
+  return linked;
+}
+
+/** Posibles empresas duplicadas (mismo nombre normalizado o misma web), los grupos más grandes primero. */
+export async function listCompanyDuplicateGroups(storage: IStorage): Promise<CompanyDuplicateGroup<Company>[]> {
+  return groupCompanyDuplicates(await storage.getCompanies());
+}
+
+/**
+ * Fusiona `merge_ids` en `survivorId`: elige el valor de cada campo, pasa
+ * contactos, deals y timeline a la superviviente y reescribe el nombre de
+ * empresa de los deals, también de los que solo la nombraban en texto.
+ */
+export async function mergeCompanies(
+  storage: IStorage,
+  survivorId: string,
+  input: CompanyMergeInput,
+  actorId: string | null = null,
+): Promise<CompanyMergeResult> {
+  const mergeIds = Array.from(new Set(input.merge_ids));
+  if (!mergeIds.length) throw new CrmError("Elige al menos una empresa para fusionar");
+  if (mergeIds.includes(survivorId)) throw new CrmError("Una empresa no se puede fusionar consigo misma");
+
+  const survivor = await storage.getCompany(survivorId);
+  if (!survivor) throw new NotFoundError("Company");
+  const merged: Company[] = [];
+  for (const id of mergeIds) {
+    const company = await storage.getCompany(id);
+    if (!company) throw new NotFoundError("Company");
+    merged.push(company);
+  }
+
+  const group = [survivor, ...merged];
+  const byId = new Map(group.map((company) => [company.id, company]));
+  const patch: Partial<NewCompany> = {};
+  for (const field of COMPANY_MERGE_FIELDS) {
+    const sourceId = input.fields?.[field];
+    if (sourceId !== undefined && !byId.has(sourceId)) {
+      throw new CrmError(`El valor de ${field} debe salir de una de las empresas fusionadas`);
+    }
+    const source = sourceId ? byId.get(sourceId)! : group.find((company) => company[field]) ?? survivor;
+    if (source[field] !== survivor[field]) (patch as Record<CompanyMergeField, unknown>)[field] = source[field];
+  }
+  // Los campos personalizados que le falten a la superviviente se completan con los de las fusionadas
+  const customFields = mergeCustomFieldValues(group.map((company) => company.custom_fields));
+  if (Object.keys(customFields).length !== Object.keys(survivor.custom_fields).length) {
+    patch.custom_fields = customFields;
+  }
+  const tagIds = mergeTagIds(group.map((company) => company.tag_ids));
+  if (tagIds.length !== survivor.tag_ids.length) patch.tag_ids = tagIds;
+  const name = patch.name ?? survivor.name;
+
+  // Antes de borrar las fusionadas: los deals no pueden quedar apuntando a ellas
+  const ids = new Set(group.map((company) => company.id));
+  const keys = new Set(group.map((company) => normalizeCompanyName(company.name)).filter(Boolean));
+  let deals = 0;
+  for (const deal of await storage.getDeals()) {
+    const linked = deal.company_id ? ids.has(deal.company_id) : keys.has(normalizeCompanyName(deal.company));
+    if (!linked || (deal.company_id === survivorId && deal.company === name)) continue;
+    await storage.updateDeal(deal.id, { company_id: survivorId, company: name });
+    deals += 1;
+  }
+
+  let contacts = 0;
+  let timeline = 0;
+  for (const company of merged) {
+    for (const contact of await storage.getContacts({ company_id: company.id })) {
+      await storage.updateContact(contact.id, { company_id: survivorId });
+      contacts += 1;
+    }
+    timeline += await storage.moveTimelineEntries("company", company.id, survivorId);
+    await storage.deleteCompany(company.id);
+  }
+
+  const updated = Object.keys(patch).length ? await storage.updateCompany(survivorId, patch) : survivor;
+  if (!updated) throw new NotFoundError("Company");
+
+  await logTimelineEntry(storage, {
+    type: "company_merged",
+    description: `Empresas fusionadas en ${updated.name}: ${merged.map((company) => company.name).join(", ")}`,
+    entity_type: "company",
+    entity_id: survivorId,
+    user_id: actorId,
+    metadata: {
+      merged_ids: mergeIds,
+      merged_names: merged.map((company) => company.name),
+      fields: Object.keys(patch),
+      contacts,
+      deals,
+    },
+  });
+
+  return { company: updated, merged: merged.length, contacts, deals, timeline };
+}
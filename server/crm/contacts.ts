@@ -0,0 +1,265 @@
+import {
+  CONTACT_MERGE_FIELDS,
+  groupContactDuplicates,
+  type ContactMergeField,
+  type DuplicateGroup,
+} from "@shared/contactDuplicates";
+import { mergeCustomFieldValues } from "@shared/customFields";
+import { mergeTagIds } from "@shared/tags";
+import type { Contact, InsertContact, NewContact, UpdateContact } from "@shared/schema";
+import type { ContactFilters, IStorage } from "../storage";
+import { runAutomations } from "./automations";
+import { ensureCompanyByName } from "./companies";
+import { resolveCustomFieldValues } from "./customFields";
+import { CrmError, NotFoundError } from "./errors";
+import { resolveTagIds } from "./tags";
+import { logTimelineEntry, type MutationOptions } from "./timeline";
+
+/** Contacto con el nombre de empresa desnormalizado, tal y como lo consume el cliente. */
+export type ContactView = Contact & { company: string | null };
+
+export type ContactInput = InsertContact & { company?: string | null };
+export type ContactPatch = UpdateContact & { company?: string | null };
+
+export interface ContactMergeInput {
+  merge_ids: string[];
+  /** Contacto del que se toma cada campo; sin elegir, el superviviente o el primero que lo tenga. */
+  fields?: Partial<Record<ContactMergeField, string>>;
+}
+
+export interface ContactMergeResult {
+  contact: ContactView;
+  merged: number;
+  deals: number;
+  tasks: number;
+  timeline: number;
+}
+
+async function withCompanyNames(storage: IStorage, contacts: Contact[]): Promise<ContactView[]> {
+  const companies = await storage.getCompanies();
+  const names = new Map(companies.map((company) => [company.id, company.name]));
+  return contacts.map((contact) => ({
+    ...contact,
+    company: contact.company_id ? names.get(contact.company_id) ?? null : null,
+  }));
+}
+
+export async function listContacts(storage: IStorage, filters?: ContactFilters): Promise<ContactView[]> {
+  return withCompanyNames(storage, await storage.getContacts(filters));
+}
+
+export async function getContact(storage: IStorage, id: string): Promise<ContactView> {
+  const contact = await storage.getContact(id);
+  if (!contact) throw new NotFoundError("Contact");
+  const [view] = await withCompanyNames(storage, [contact]);
+  return view;
+}
+
+export async function createContact(
+  storage: IStorage,
+  input: ContactInput,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<ContactView> {
+  const { company, ...fields } = input;
+  let companyId = fields.company_id ?? null;
+  let companyName: string | null = null;
+
+  if (company?.trim()) {
+    const companyRecord = await ensureCompanyByName(storage, company);
+    companyId = companyRecord.id;
+    companyName = companyRecord.name;
+  }
+
+  const customFields = await resolveCustomFieldValues(storage, "contacts", fields.custom_fields);
+  const tagIds = await resolveTagIds(storage, fields.tag_ids);
+  const contact = await storage.createContact({
+    ...fields,
+    custom_fields: customFields ?? {},
+    tag_ids: tagIds ?? [],
+    company_id: companyId,
+    owner_id: fields.owner_id ?? actorId,
+  });
+  await logTimelineEntry(storage, {
+    type: "contact_created",
+    description: `Nuevo contacto: ${contact.name}`,
+    entity_type: "contact",
+    entity_id: contact.id,
+    user_id: actorId,
+    metadata: companyId ? { company_id: companyId } : null,
+  });
+  const runs = options.skipAutomations
+    ? []
+    : await runAutomations(storage, "contact_created", { entity: "contact", record: contact });
+
+  const saved = runs.length ? ((await storage.getContact(contact.id)) ?? contact) : contact;
+  if (companyName !== null) {
+    return { ...saved, company: companyName };
+  }
+  const [view] = await withCompanyNames(storage, [saved]);
+  return view;
+}
+
+export async function updateContact(
+  storage: IStorage,
+  id: string,
+  patch: ContactPatch,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<ContactView> {
+  const { company, custom_fields: customFieldsInput, tag_ids: tagIdsInput, ...fields } = patch;
+  const changes: Partial<NewContact> = fields;
+  const current = await storage.getContact(id);
+  if (!current) throw new NotFoundError("Contact");
+  const customFields = await resolveCustomFieldValues(storage, "contacts", customFieldsInput, current.custom_fields);
+  if (customFields) changes.custom_fields = customFields;
+  const tagIds = await resolveTagIds(storage, tagIdsInput);
+  if (tagIds) changes.tag_ids = tagIds;
+
+  if (company !== undefined) {
+    const trimmed = company?.trim();
+    if (trimmed) {
+      const companyRecord = await ensureCompanyByName(storage, trimmed);
+      changes.company_id = companyRecord.id;
+    } else {
+      changes.company_id = null;
+    }
+  }
+
+  const updated = await storage.updateContact(id, changes);
+  if (!updated) throw new NotFoundError("Contact");
+
+  if (!options.skipTimeline) {
+    await logTimelineEntry(storage, {
+      type: "contact_updated",
+      description: `Contacto actualizado: ${updated.name}`,
+      entity_type: "contact",
+      entity_id: id,
+      user_id: actorId,
+    });
+  }
+
+  const [view] = await withCompanyNames(storage, [updated]);
+  return view;
+}
+
+export async function deleteContact(
+  storage: IStorage,
+  id: string,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<void> {
+  const contact = await storage.getContact(id);
+  if (!contact) throw new NotFoundError("Contact");
+
+  // Deals y tareas mantienen su historial aunque el contacto desaparezca.
+  for (const deal of await storage.getDeals({ contact_id: id })) {
+    await storage.updateDeal(deal.id, { contact_id: null });
+  }
+  for (const task of await storage.getTasks({ contact_id: id })) {
+    await storage.updateTask(task.id, { contact_id: null });
+  }
+
+  await storage.deleteContact(id);
+  if (options.skipTimeline) return;
+  await logTimelineEntry(storage, {
+    type: "contact_deleted",
+    description: `Contacto eliminado: ${contact.name}`,
+    entity_type: "contact",
+    entity_id: id,
+    user_id: actorId,
+  });
+}
+
+/** Posibles duplicados entre los contactos del alcance, los grupos más grandes primero. */
+export async function listDuplicateGroups(
+  storage: IStorage,
+  filters?: ContactFilters,
+): Promise<DuplicateGroup<ContactView>[]> {
+  return groupContactDuplicates(await listContacts(storage, filters));
+}
+
+/**
+ * Fusiona `merge_ids` en `survivorId`: elige el valor de cada campo, pasa
+ * deals, tareas y entradas del timeline al superviviente, borra los demás y
+ * deja constancia en el timeline del superviviente.
+ */
+export async function mergeContacts(
+  storage: IStorage,
+  survivorId: string,
+  input: ContactMergeInput,
+  actorId: string | null = null,
+): Promise<ContactMergeResult> {
+  const mergeIds = Array.from(new Set(input.merge_ids));
+  if (!mergeIds.length) throw new CrmError("Elige al menos un contacto para fusionar");
+  if (mergeIds.includes(survivorId)) throw new CrmError("Un contacto no se puede fusionar consigo mismo");
+
+  const survivor = await storage.getContact(survivorId);
+  if (!survivor) throw new NotFoundError("Contact");
+  const merged: Contact[] = [];
+  for (const id of mergeIds) {
+    const contact = await storage.getContact(id);
+    if (!contact) throw new NotFoundError("Contact");
+    merged.push(contact);
+  }
+
+  const group = [survivor, ...merged];
+  const byId = new Map(group.map((contact) => [contact.id, contact]));
+  const patch: Partial<NewContact> = {};
+  for (const field of CONTACT_MERGE_FIELDS) {
+    const sourceId = input.fields?.[field];
+    if (sourceId !== undefined && !byId.has(sourceId)) {
+      throw new CrmError(`El valor de ${field} debe salir de uno de los contactos fusionados`);
+    }
+    const source = sourceId ? byId.get(sourceId)! : group.find((contact) => contact[field]) ?? survivor;
+    if (source[field] !== survivor[field]) (patch as Record<ContactMergeField, unknown>)[field] = source[field];
+  }
+  const lastActivity = Math.max(...group.map((contact) => contact.last_activity?.getTime() ?? 0));
+  if (lastActivity && lastActivity !== (survivor.last_activity?.getTime() ?? 0)) {
+    patch.last_activity = new Date(lastActivity);
+  }
+  const customFields = mergeCustomFieldValues(group.map((contact) => contact.custom_fields));
+  if (Object.keys(customFields).length !== Object.keys(survivor.custom_fields).length) {
+    patch.custom_fields = customFields;
+  }
+  const tagIds = mergeTagIds(group.map((contact) => contact.tag_ids));
+  if (tagIds.length !== survivor.tag_ids.length) patch.tag_ids = tagIds;
+  if (!patch.name && !survivor.name) throw new CrmError("El contacto resultante necesita un nombre");
+
+  let deals = 0;
+  let tasks = 0;
+  let timeline = 0;
+  for (const contact of merged) {
+    for (const deal of await storage.getDeals({ contact_id: contact.id })) {
+      await storage.updateDeal(deal.id, { contact_id: survivorId });
+      deals += 1;
+    }
+    for (const task of await storage.getTasks({ contact_id: contact.id })) {
+      await storage.updateTask(task.id, { contact_id: survivorId });
+      tasks += 1;
+    }
+    timeline += await storage.moveTimelineEntries("contact", contact.id, survivorId);
+    await storage.deleteContact(contact.id);
+  }
+
+  const updated = Object.keys(patch).length ? await storage.updateContact(survivorId, patch) : survivor;
+  if (!updated) throw new NotFoundError("Contact");
+
+  await logTimelineEntry(storage, {
+    type: "contact_merged",
+    description: `Contactos fusionados en ${updated.name}: ${merged.map((contact) => contact.name).join(", ")}`,
+    entity_type: "contact",
+    entity_id: survivorId,
+    user_id: actorId,
+    metadata: {
+      merged_ids: mergeIds,
+      merged_names: merged.map((contact) => contact.name),
+      fields: Object.keys(patch),
+      deals,
+      tasks,
+    },
+  });
+
+  const [view] = await withCompanyNames(storage, [updated]);
+  return { contact: view, merged: merged.length, deals, tasks, timeline };
+}
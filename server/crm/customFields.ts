@@ -0,0 +1,146 @@
+import type { CustomField, InsertCustomField, NewCustomField, UpdateCustomField } from "@shared/schema";
+import {
+  applyCustomFieldValues,
+  cleanCustomFieldOptions,
+  customFieldKeyFromLabel,
+  CUSTOM_FIELD_OPTION_TYPES,
+  isValidCustomFieldKey,
+  MAX_CUSTOM_FIELDS,
+  type CustomFieldEntity,
+  type CustomFieldValues,
+  type CustomFieldValuesInput,
+} from "@shared/customFields";
+import type { IStorage } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+
+/** Campos de la entidad (o de todas) en el orden de los formularios. */
+export async function listCustomFields(storage: IStorage, entity?: CustomFieldEntity): Promise<CustomField[]> {
+  return storage.getCustomFields(entity);
+}
+
+async function getCustomField(storage: IStorage, id: string): Promise<CustomField> {
+  const field = await storage.getCustomField(id);
+  if (!field) throw new NotFoundError("Custom field");
+  return field;
+}
+
+function resolveOptions(type: CustomField["type"], options: string[] | undefined): string[] {
+  if (!CUSTOM_FIELD_OPTION_TYPES.includes(type)) return [];
+  const cleaned = cleanCustomFieldOptions(options ?? []);
+  if (!cleaned.length) throw new CrmError("Las selecciones necesitan al menos una opción");
+  return cleaned;
+}
+
+export async function createCustomField(storage: IStorage, input: InsertCustomField): Promise<CustomField> {
+  const label = input.label.trim();
+  const key = input.key?.trim() || customFieldKeyFromLabel(label);
+  if (!isValidCustomFieldKey(key)) {
+    throw new CrmError(`Clave no válida: "${key}" (minúsculas, números y _; empieza por letra)`);
+  }
+
+  const fields = await storage.getCustomFields(input.entity);
+  if (fields.length >= MAX_CUSTOM_FIELDS) {
+    throw new CrmError(`Como máximo ${MAX_CUSTOM_FIELDS} campos personalizados por entidad`);
+  }
+  const existing = fields.find((field) => field.key === key);
+  if (existing) throw new CrmError(`Ya existe un campo con la clave "${key}" (${existing.label})`, 409);
+
+  const lastIndex = fields.reduce((max, field) => Math.max(max, field.order_index), -1);
+  return storage.createCustomField({
+    entity: input.entity,
+    key,
+    label,
+    type: input.type,
+    options: resolveOptions(input.type, input.options),
+    order_index: lastIndex + 1,
+  });
+}
+
+/**
+ * Cambia la etiqueta o las opciones. Quitar una opción no toca los registros
+ * que ya la tenían: conservan el valor hasta que se editen.
+ */
+export async function updateCustomField(
+  storage: IStorage,
+  id: string,
+  patch: UpdateCustomField,
+): Promise<CustomField> {
+  const current = await getCustomField(storage, id);
+  const changes: Partial<NewCustomField> = {};
+  if (patch.label !== undefined) changes.label = patch.label.trim();
+  if (patch.options !== undefined) changes.options = resolveOptions(current.type, patch.options);
+  const updated = await storage.updateCustomField(id, changes);
+  if (!updated) throw new NotFoundError("Custom field");
+  return updated;
+}
+
+/** `ids` debe contener todos los campos de una misma entidad exactamente una vez, en el orden nuevo. */
+export async function reorderCustomFields(storage: IStorage, ids: string[]): Promise<CustomField[]> {
+  const first = ids.length > 0 ? await storage.getCustomField(ids[0]) : undefined;
+  const fields = first ? await storage.getCustomFields(first.entity) : [];
+  const known = new Set(fields.map((field) => field.id));
+  if (!first || ids.length !== known.size || new Set(ids).size !== ids.length || ids.some((id) => !known.has(id))) {
+    throw new CrmError("El nuevo orden debe incluir todos los campos de la entidad una sola vez");
+  }
+
+  for (let index = 0; index < ids.length; index++) {
+    const field = fields.find((candidate) => candidate.id === ids[index]);
+    if (field && field.order_index !== index) {
+      await storage.updateCustomField(field.id, { order_index: index });
+    }
+  }
+  return storage.getCustomFields(first.entity);
+}
+
+function withoutKey(values: CustomFieldValues, key: string): CustomFieldValues {
+  const rest = { ...values };
+  delete rest[key];
+  return rest;
+}
+
+/** Borra la definición y el valor que tuviera cada registro de la entidad. */
+export async function deleteCustomField(storage: IStorage, id: string): Promise<void> {
+  const field = await getCustomField(storage, id);
+  const { key } = field;
+  switch (field.entity) {
+    case "deals":
+      for (const deal of await storage.getDeals()) {
+        if (key in deal.custom_fields) {
+          await storage.updateDeal(deal.id, { custom_fields: withoutKey(deal.custom_fields, key) });
+        }
+      }
+      break;
+    case "contacts":
+      for (const contact of await storage.getContacts()) {
+        if (key in contact.custom_fields) {
+          await storage.updateContact(contact.id, { custom_fields: withoutKey(contact.custom_fields, key) });
+        }
+      }
+      break;
+    case "companies":
+      for (const company of await storage.getCompanies()) {
+        if (key in company.custom_fields) {
+          await storage.updateCompany(company.id, { custom_fields: withoutKey(company.custom_fields, key) });
+        }
+      }
+      break;
+  }
+  await storage.deleteCustomField(id);
+}
+
+/**
+ * Valores del registro tras aplicar los que llegan en el alta o la edición.
+ * Sin `input` no hay cambios (undefined). Todos los problemas salen juntos en
+ * un único error de validación.
+ */
+export async function resolveCustomFieldValues(
+  storage: IStorage,
+  entity: CustomFieldEntity,
+  input: CustomFieldValuesInput | undefined,
+  current: CustomFieldValues = {},
+): Promise<CustomFieldValues | undefined> {
+  if (input === undefined) return undefined;
+  const { values, errors } = applyCustomFieldValues(await storage.getCustomFields(entity), input, current);
+  if (errors.length) throw new CrmError(errors.join(". "));
+  return values;
+}
@@ -0,0 +1,357 @@
+import type { Deal, DealAlertRecord, NewDealAlertRecord, User } from "@shared/schema";
+import {
+  DEAL_ALERT_REASON_DEFINITIONS,
+  DEAL_ALERT_REASONS,
+  DEAL_ALERT_RULE_DEFINITIONS,
+  DEAL_ALERT_STATUS_LABELS,
+  evaluateDealAlertRules,
+  resolveDealAlertRules,
+  summarizeDealAlertHistory,
+  validateDealAlertParams,
+  type DealAlertHit,
+  type DealAlertReport,
+  type DealAlertRule,
+  type DealAlertRuleConfig,
+  type DealAlertSensitivity,
+  type UpdateDealAlertRule,
+  type UpdateDealAlertState,
+} from "@shared/dealAlerts";
+import { slaDaysFor } from "@shared/slaPolicies";
+import { computeInactivityDays, type DealScope, type IStorage } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+import { loadDealPolicies } from "./slaPolicies";
+import { logTimelineEntry } from "./timeline";
+
+/** Cada cuánto se sincronizan las alertas guardadas con lo que disparan los deals. */
+export const DEAL_ALERT_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+/** Todas las reglas de alerta, en el orden del catálogo, con los ajustes guardados aplicados. */
+export async function listDealAlertRules(storage: IStorage): Promise<DealAlertRuleConfig[]> {
+  return resolveDealAlertRules(await storage.getDealAlertRuleSettings());
+}
+
+/**
+ * Guarda los cambios de una regla sobre lo que ya tenía. Solo se guardan los
+ * parámetros que difieren del valor por defecto, para que un cambio futuro en
+ * el catálogo llegue a quien no los tocó.
+ */
+export async function updateDealAlertRule(
+  storage: IStorage,
+  rule: DealAlertRule,
+  patch: UpdateDealAlertRule,
+  actorId: string | null = null,
+): Promise<DealAlertRuleConfig> {
+  const definition = DEAL_ALERT_RULE_DEFINITIONS[rule];
+  const current = (await storage.getDealAlertRuleSettings()).find((setting) => setting.rule === rule);
+
+  // Los parámetros que la regla ya no tiene se descartan al guardar
+  const known = Object.entries(current?.params ?? {}).filter(([key]) =>
+    definition.params.some((param) => param.key === key),
+  );
+  const params = { ...Object.fromEntries(known), ...(patch.params ?? {}) };
+  const errors = validateDealAlertParams(rule, params);
+  if (errors.length) throw new CrmError(errors.join(". "));
+  for (const param of definition.params) {
+    if (params[param.key] === param.default) delete params[param.key];
+  }
+
+  const action = patch.recommended_action !== undefined ? patch.recommended_action : current?.recommended_action;
+  const severity = patch.severity ?? current?.severity ?? null;
+  const saved = await storage.saveDealAlertRuleSetting({
+    rule,
+    enabled: patch.enabled ?? current?.enabled ?? true,
+    severity: severity === definition.severity ? null : severity,
+    params,
+    recommended_action: action?.trim() || null,
+    updated_by: actorId,
+  });
+  return resolveDealAlertRules([saved]).find((config) => config.rule === rule)!;
+}
+
+/* Seguimiento */
+
+interface DealAlertDetection {
+  deal: Deal;
+  /** Las críticas primero: la primera manda en severidad y mensaje. */
+  hits: DealAlertHit[];
+}
+
+/**
+ * Deals abiertos que disparan alguna regla, con la política de SLA y las
+ * reglas configuradas. Con `dealId` se evalúa solo ese deal, tal como está guardado.
+ */
+async function detectDealAlerts(
+  storage: IStorage,
+  now: Date,
+  dealId?: string,
+): Promise<Map<string, DealAlertDetection>> {
+  const [rules, policyFor, deals] = await Promise.all([
+    listDealAlertRules(storage),
+    loadDealPolicies(storage),
+    dealId ? openDeal(storage, dealId) : storage.getDeals({ status: "Open" }),
+  ]);
+  const detections = new Map<string, DealAlertDetection>();
+  for (const deal of deals) {
+    const { stage, policy } = policyFor(deal);
+    const priority = deal.priority ?? "Cold";
+    const hits = evaluateDealAlertRules(
+      {
+        ...deal,
+        priority,
+        inactivity: computeInactivityDays(deal.last_activity, now.getTime()),
+        sla_days: slaDaysFor(policy, priority),
+        stage_probability: stage?.default_probability ?? null,
+      },
+      rules,
+      now,
+    );
+    if (hits.length) detections.set(deal.id, { deal, hits });
+  }
+  return detections;
+}
+
+async function openDeal(storage: IStorage, id: string): Promise<Deal[]> {
+  const deal = await storage.getDeal(id);
+  return deal?.status === "Open" ? [deal] : [];
+}
+
+function sameRules(a: readonly DealAlertRule[], b: readonly DealAlertRule[]): boolean {
+  return a.length === b.length && a.every((rule) => b.includes(rule));
+}
+
+/** Lo que hay que cambiar de una alerta vigente para que refleje lo que dispara ahora el deal. */
+function syncPatch(record: DealAlertRecord, { deal, hits }: DealAlertDetection, now: Date) {
+  const rules = hits.map((hit) => hit.rule);
+  const patch: Partial<NewDealAlertRecord> = {};
+  if (!sameRules(record.rules, rules)) patch.rules = rules;
+  if (record.severity !== hits[0].severity) patch.severity = hits[0].severity;
+  if (record.message !== hits[0].message) patch.message = hits[0].message;
+  if (record.owner_id !== (deal.owner_id ?? null)) patch.owner_id = deal.owner_id ?? null;
+
+  // Una pospuesta vuelve al vencer el plazo o si salta una regla que no tenía
+  const newRule = rules.some((rule) => !record.rules.includes(rule));
+  const snoozeOver = !record.snoozed_until || record.snoozed_until <= now;
+  if (record.status === "snoozed" && (snoozeOver || newRule)) {
+    patch.status = "open";
+    patch.snoozed_until = null;
+  }
+  return patch;
+}
+
+/**
+ * Pone al día las alertas guardadas con lo que disparan ahora los deals
+ * abiertos. Cada deal tiene como mucho una alerta vigente:
+ * - si deja de disparar reglas, deja de estar vigente; si nadie la había
+ *   cerrado, queda resuelta sola (`condition_cleared`);
+ * - una abierta o pospuesta se actualiza con las reglas, la severidad y el
+ *   mensaje de ahora; una pospuesta vuelve a abrirse al vencer el plazo o si
+ *   salta una regla nueva;
+ * - una resuelta o descartada sigue oculta mientras salten las mismas reglas;
+ *   si salta otra, se abre una alerta nueva.
+ * Devuelve las alertas vigentes.
+ */
+export async function syncDealAlerts(storage: IStorage, now = new Date()): Promise<DealAlertRecord[]> {
+  return applyDetections(storage, await detectDealAlerts(storage, now), now);
+}
+
+async function applyDetections(
+  storage: IStorage,
+  detections: Map<string, DealAlertDetection>,
+  now: Date,
+): Promise<DealAlertRecord[]> {
+  const current = new Map<string, DealAlertRecord>();
+  const active: DealAlertRecord[] = [];
+
+  for (const record of await storage.getDealAlerts({ active: true })) {
+    const detection = detections.get(record.deal_id);
+    // Vienen de más reciente a más antigua: solo cuenta la primera de cada deal
+    if (!detection || current.has(record.deal_id)) {
+      const open = record.status === "open" || record.status === "snoozed";
+      await storage.updateDealAlert(record.id, {
+        cleared_at: now,
+        ...(open ? { status: "resolved", reason: "condition_cleared", snoozed_until: null, closed_at: now } : {}),
+      });
+      continue;
+    }
+    current.set(record.deal_id, record);
+
+    const closed = record.status === "resolved" || record.status === "dismissed";
+    if (closed && detection.hits.some((hit) => !record.rules.includes(hit.rule))) {
+      await storage.updateDealAlert(record.id, { cleared_at: now });
+      current.delete(record.deal_id);
+      continue;
+    }
+    const patch = closed ? {} : syncPatch(record, detection, now);
+    active.push(Object.keys(patch).length ? ((await storage.updateDealAlert(record.id, patch)) ?? record) : record);
+  }
+
+  for (const [dealId, detection] of Array.from(detections.entries())) {
+    if (current.has(dealId)) continue;
+    active.push(await storage.createDealAlert(newDealAlert(detection, now)));
+  }
+  return active;
+}
+
+function newDealAlert({ deal, hits }: DealAlertDetection, now: Date): NewDealAlertRecord {
+  return {
+    deal_id: deal.id,
+    owner_id: deal.owner_id ?? null,
+    rules: hits.map((hit) => hit.rule),
+    severity: hits[0].severity,
+    message: hits[0].message,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/** Alerta abierta junto con el deal y las reglas que dispara ahora. */
+export interface OpenDealAlert extends DealAlertDetection {
+  record: DealAlertRecord;
+}
+
+/**
+ * Alertas abiertas (ni pospuestas ni cerradas) tal como las dejó la última
+ * sincronización, con el deal y las reglas que dispara ahora. No escribe nada:
+ * abrir y cerrar alertas es cosa de `syncDealAlerts`, y dos sincronizaciones a
+ * la vez abrirían dos alertas para el mismo deal. Las que ya no saltan se omiten.
+ */
+export async function listOpenDealAlerts(storage: IStorage, now = new Date()): Promise<OpenDealAlert[]> {
+  const [records, detections] = await Promise.all([
+    storage.getDealAlerts({ active: true }),
+    detectDealAlerts(storage, now),
+  ]);
+  return records
+    .filter((record) => record.status === "open" && detections.has(record.deal_id))
+    .map((record) => ({ record, ...detections.get(record.deal_id)! }));
+}
+
+/**
+ * Alertas vigentes de los deals del alcance, tal como las dejó la última sincronización del planificador.
+ * El alcance y el owner salen del deal: el `owner_id` guardado en la alerta no cambia hasta esa sincronización.
+ */
+export async function listDealAlerts(storage: IStorage, scope: DealScope = {}): Promise<DealAlertRecord[]> {
+  const [records, deals] = await Promise.all([storage.getDealAlerts({ active: true }), storage.getDeals(scope)]);
+  const owners = new Map(deals.map((deal) => [deal.id, deal.owner_id]));
+  return records
+    .filter((record) => owners.has(record.deal_id))
+    .map((record) => ({ ...record, owner_id: owners.get(record.deal_id) ?? null }));
+}
+
+const STATE_TIMELINE_TYPES = {
+  open: "deal_alert_reopened",
+  snoozed: "deal_alert_snoozed",
+  resolved: "deal_alert_resolved",
+  dismissed: "deal_alert_dismissed",
+} as const;
+
+function formatSnoozeDate(date: Date): string {
+  return date.toLocaleString("es-ES", { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function stateDescription(status: UpdateDealAlertState["status"], input: UpdateDealAlertState): string {
+  if (status === "open") return "Alerta reabierta";
+  const label = `Alerta ${DEAL_ALERT_STATUS_LABELS[status].toLowerCase()}`;
+  if (status === "snoozed") return `${label} hasta el ${formatSnoozeDate(input.snoozed_until!)}`;
+  const reason = DEAL_ALERT_REASON_DEFINITIONS[input.reason!].label;
+  return input.note ? `${label}: ${reason} · ${input.note}` : `${label}: ${reason}`;
+}
+
+/**
+ * Cambia el estado de la alerta vigente de un deal: posponerla hasta una
+ * fecha, resolverla o descartarla con un motivo, o volver a abrirla. Solo
+ * vale si el deal dispara ahora alguna regla; si el servidor aún no tenía la
+ * alerta (el cliente la detectó antes de la última sincronización), se crea
+ * con lo que evalúa el servidor.
+ */
+export async function updateDealAlertState(
+  storage: IStorage,
+  deal: Deal,
+  input: UpdateDealAlertState,
+  actorId: string | null = null,
+  now = new Date(),
+): Promise<DealAlertRecord> {
+  const { status, reason } = input;
+  if (status === "snoozed" && (!input.snoozed_until || input.snoozed_until <= now)) {
+    throw new CrmError("Indica una fecha futura hasta la que posponer la alerta");
+  }
+  if (status === "resolved" || status === "dismissed") {
+    if (!reason || DEAL_ALERT_REASON_DEFINITIONS[reason].status !== status) {
+      throw new CrmError(`Indica por qué la alerta queda ${DEAL_ALERT_STATUS_LABELS[status].toLowerCase()}`);
+    }
+  }
+
+  const detection = (await detectDealAlerts(storage, now, deal.id)).get(deal.id);
+  if (!detection) throw new NotFoundError("DealAlert");
+  let [record] = await storage.getDealAlerts({ deal_id: deal.id, active: true, limit: 1 });
+  if (!record) record = await storage.createDealAlert(newDealAlert(detection, now));
+
+  const closing = status === "resolved" || status === "dismissed";
+  const note = closing ? input.note || null : null;
+  const updated = await storage.updateDealAlert(record.id, {
+    status,
+    snoozed_until: status === "snoozed" ? input.snoozed_until : null,
+    reason: closing ? reason : null,
+    note,
+    closed_at: closing ? now : null,
+    closed_by: closing ? actorId : null,
+  });
+  if (!updated) throw new NotFoundError("DealAlert");
+
+  await logTimelineEntry(storage, {
+    type: STATE_TIMELINE_TYPES[status],
+    description: stateDescription(status, { ...input, note }),
+    entity_type: "deal",
+    entity_id: deal.id,
+    user_id: actorId,
+    metadata: { alert_id: updated.id, rules: updated.rules, reason: updated.reason },
+  });
+  return updated;
+}
+
+/** Qué alertas ve el usuario en el dashboard. */
+export async function saveAlertSensitivity(
+  storage: IStorage,
+  userId: string,
+  sensitivity: DealAlertSensitivity,
+): Promise<User> {
+  const updated = await storage.updateUser(userId, { alert_sensitivity: sensitivity });
+  if (!updated) throw new NotFoundError("User");
+  return updated;
+}
+
+export interface DealAlertReportFilters extends DealScope {
+  from?: Date;
+  to?: Date;
+}
+
+/** Historial de las alertas que saltaron en el periodo: por owner y por motivo de cierre. */
+export async function getDealAlertReport(
+  storage: IStorage,
+  filters: DealAlertReportFilters = {},
+): Promise<DealAlertReport> {
+  const alerts = await storage.getDealAlerts(filters);
+  const users = await storage.getUsers();
+  const owners = summarizeDealAlertHistory(alerts).map((summary) => {
+    const owner = users.find((user) => user.id === summary.owner_id);
+    return { ...summary, owner_name: owner ? (owner.full_name ?? owner.username) : null };
+  });
+  const reasons = DEAL_ALERT_REASONS.map((reason) => ({
+    reason,
+    count: alerts.filter((alert) => alert.reason === reason).length,
+  })).filter((entry) => entry.count > 0);
+  return { owners, reasons };
+}
+
+/** Sincroniza las alertas al arrancar y cada `DEAL_ALERT_SYNC_INTERVAL_MS`. */
+export function startDealAlertScheduler(storage: IStorage, intervalMs = DEAL_ALERT_SYNC_INTERVAL_MS): () => void {
+  const check = () => {
+    syncDealAlerts(storage).catch((error) => {
+      console.error("[CRM] No se pudieron sincronizar las alertas de los deals", error);
+    });
+  };
+  check();
+  const timer = setInterval(check, intervalMs);
+  // El temporizador no mantiene vivo el proceso (tests, scripts)
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,271 @@
+import type { Deal, InsertDeal, NewDeal, PipelineStage, UpdateDeal } from "@shared/schema";
+import {
+  clamp,
+  describeDealChanges,
+  enforceCoreFields,
+  inferDealInsights,
+  trackDealAlertSignals,
+} from "@shared/dealRules";
+import { getClosingStage, getInitialStage, mapStageToPipeline } from "@shared/pipelineStages";
+import type { DealScope, IStorage } from "../storage";
+import { runAutomations } from "./automations";
+import { ensureCompanyByName } from "./companies";
+import { resolveCustomFieldValues } from "./customFields";
+import { CrmError, NotFoundError } from "./errors";
+import { listPipelineStages, resolveDealStage } from "./pipelineStages";
+import { resolvePipeline } from "./pipelines";
+import { recordStageTransition } from "./stageTransitions";
+import { resolveTagIds } from "./tags";
+import { logTimelineEntry, type MutationOptions } from "./timeline";
+
+function applyCoreRules<T extends Parameters<typeof enforceCoreFields>[0]>(draft: T, closingStage: string): T {
+  try {
+    return enforceCoreFields(draft, closingStage);
+  } catch (error) {
+    throw new CrmError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function scoreDeal(deal: Pick<Deal, "probability" | "amount">): number {
+  return (deal.probability ?? 0) * (deal.amount ?? 0);
+}
+
+/**
+ * Empresa del deal: `company_id` manda y fija el nombre desnormalizado; si
+ * solo llega el nombre se enlaza con la empresa equivalente o se crea.
+ */
+async function resolveDealCompany(
+  storage: IStorage,
+  input: Pick<UpdateDeal, "company" | "company_id">,
+): Promise<Pick<NewDeal, "company" | "company_id">> {
+  if (input.company_id) {
+    const company = await storage.getCompany(input.company_id);
+    if (!company) throw new CrmError(`Empresa desconocida: ${input.company_id}`);
+    return { company_id: company.id, company: company.name };
+  }
+  const name = input.company?.trim();
+  if (!name) return { company_id: null, company: null };
+  const company = await ensureCompanyByName(storage, name);
+  return { company_id: company.id, company: company.name };
+}
+
+export async function getDeal(storage: IStorage, id: string): Promise<Deal> {
+  const deal = await storage.getDeal(id);
+  if (!deal) throw new NotFoundError("Deal");
+  return deal;
+}
+
+export async function getHotDeal(storage: IStorage, scope: DealScope = {}): Promise<Deal[]> {
+  const openDeals = await storage.getDeals({ ...scope, status: "Open" });
+  const hottest = openDeals.reduce<Deal | undefined>(
+    (current, deal) => (!current || scoreDeal(deal) > scoreDeal(current) ? deal : current),
+    undefined,
+  );
+  return hottest ? [hottest] : [];
+}
+
+export async function createDeal(
+  storage: IStorage,
+  input: InsertDeal,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<Deal> {
+  const now = new Date();
+  const pipeline = await resolvePipeline(storage, input.pipeline_id);
+  const stages = await listPipelineStages(storage, pipeline.id);
+  const stage = input.stage ? resolveDealStage(stages, input.stage) : getInitialStage(stages);
+  const company = await resolveDealCompany(storage, input);
+  const customFields = await resolveCustomFieldValues(storage, "deals", input.custom_fields);
+  const tagIds = await resolveTagIds(storage, input.tag_ids);
+
+  const draft = applyCoreRules(
+    {
+      ...input,
+      stage,
+      status: "Open" as const,
+      close_reason: null as string | null,
+    },
+    getClosingStage(stages),
+  );
+
+  const insights = inferDealInsights(
+    {
+      ...draft,
+      last_activity: now,
+      inactivity_days: 0,
+    },
+    stages,
+  );
+
+  const record: NewDeal = {
+    ...draft,
+    ...company,
+    custom_fields: customFields ?? {},
+    tag_ids: tagIds ?? [],
+    pipeline_id: pipeline.id,
+    stage,
+    status: "Open",
+    next_step: draft.next_step,
+    owner_id: draft.owner_id ?? actorId,
+    probability: clamp(input.probability ?? insights.probability, 0, 100),
+    priority: insights.priority,
+    risk_level: insights.risk_level,
+    last_activity: now,
+    inactivity_days: 0,
+    stage_entered_at: now,
+    score: 0,
+    close_reason: null,
+  };
+
+  const deal = await storage.createDeal(record);
+  await recordStageTransition(storage, null, deal, actorId);
+  await logTimelineEntry(storage, {
+    type: "deal_created",
+    description: `Nuevo deal: ${deal.title}`,
+    entity_type: "deal",
+    entity_id: deal.id,
+    user_id: actorId,
+    metadata: { pipeline_id: deal.pipeline_id, stage: deal.stage, probability: deal.probability },
+  });
+  if (options.skipAutomations) return deal;
+  // Las reglas pueden haber cambiado el deal recién creado
+  const runs = await runAutomations(storage, "deal_created", { entity: "deal", record: deal });
+  return runs.length ? ((await storage.getDeal(deal.id)) ?? deal) : deal;
+}
+
+/**
+ * Etapa del deal tras el cambio. Al cambiar de pipeline sin indicar etapa se
+ * traslada a la equivalente del pipeline de destino (`mapStageToPipeline`).
+ */
+async function resolveNextStage(
+  storage: IStorage,
+  current: Deal,
+  patch: UpdateDeal,
+  fromPipelineId: string,
+  toPipelineId: string,
+): Promise<{ stage: string; stages: PipelineStage[] }> {
+  const stages = await listPipelineStages(storage, toPipelineId);
+  if (fromPipelineId === toPipelineId) {
+    const stage = patch.stage && patch.stage !== current.stage ? resolveDealStage(stages, patch.stage) : current.stage;
+    return { stage, stages };
+  }
+  if (patch.stage) return { stage: resolveDealStage(stages, patch.stage), stages };
+  const previousStages = await listPipelineStages(storage, fromPipelineId);
+  return { stage: mapStageToPipeline(previousStages, stages, current.stage), stages };
+}
+
+export async function updateDeal(
+  storage: IStorage,
+  id: string,
+  patch: UpdateDeal,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<Deal> {
+  const current = await getDeal(storage, id);
+  const fromPipeline = await resolvePipeline(storage, current.pipeline_id);
+  const toPipeline =
+    patch.pipeline_id && patch.pipeline_id !== fromPipeline.id
+      ? await resolvePipeline(storage, patch.pipeline_id)
+      : fromPipeline;
+  const { stage, stages } = await resolveNextStage(storage, current, patch, fromPipeline.id, toPipeline.id);
+
+  const draft = applyCoreRules(
+    {
+      ...current,
+      ...patch,
+      stage,
+      next_step: patch.next_step ?? current.next_step,
+      target_close_date: patch.target_close_date ?? current.target_close_date,
+      // Un null explícito borra el motivo: cerrar sin él falla y reabrir lo deja vacío
+      close_reason: patch.close_reason !== undefined ? patch.close_reason : current.close_reason,
+      status: patch.status ?? current.status ?? "Open",
+    },
+    getClosingStage(stages),
+  );
+
+  const auto = inferDealInsights(draft, stages);
+  const { custom_fields: customFieldsInput, tag_ids: tagIdsInput, ...fields } = patch;
+  const changes: Partial<NewDeal> = {
+    ...fields,
+    pipeline_id: toPipeline.id,
+    next_step: draft.next_step,
+    target_close_date: draft.target_close_date,
+    close_reason: draft.close_reason,
+    status: draft.status,
+    stage: draft.stage,
+    probability: patch.probability ?? auto.probability,
+    priority: patch.priority ?? auto.priority,
+    risk_level: patch.risk_level ?? auto.risk_level,
+    ...trackDealAlertSignals(current, { amount: patch.amount, target_close_date: draft.target_close_date }),
+  };
+  if (draft.stage !== current.stage || toPipeline.id !== fromPipeline.id) {
+    changes.stage_entered_at = new Date();
+  }
+  if (patch.company !== undefined || patch.company_id !== undefined) {
+    Object.assign(changes, await resolveDealCompany(storage, patch));
+  }
+  const customFields = await resolveCustomFieldValues(storage, "deals", customFieldsInput, current.custom_fields);
+  if (customFields) changes.custom_fields = customFields;
+  const tagIds = await resolveTagIds(storage, tagIdsInput);
+  if (tagIds) changes.tag_ids = tagIds;
+
+  const updated = await storage.updateDeal(id, changes);
+  if (!updated) throw new NotFoundError("Deal");
+  await recordStageTransition(storage, current, updated, actorId);
+  const result = options.skipAutomations ? updated : await runDealChangeAutomations(storage, current, updated);
+  if (options.skipTimeline) return result;
+
+  const changeLog = describeDealChanges(current, updated);
+  if (toPipeline.id !== fromPipeline.id) {
+    changeLog.unshift(`Pipeline: ${fromPipeline.name} → ${toPipeline.name}`);
+  }
+  await logTimelineEntry(storage, {
+    type: "deal_updated",
+    description: `Deal actualizado: ${updated.title}`,
+    entity_type: "deal",
+    entity_id: id,
+    user_id: actorId,
+    metadata:
+      changeLog.length || updated.close_reason
+        ? { changes: changeLog, status: updated.status, closeReason: updated.close_reason ?? undefined }
+        : null,
+  });
+  return result;
+}
+
+/** Reglas de cambio de etapa y de estado; devuelve el deal con lo que hayan cambiado. */
+async function runDealChangeAutomations(storage: IStorage, before: Deal, after: Deal): Promise<Deal> {
+  let current = after;
+  if (before.stage !== after.stage || before.pipeline_id !== after.pipeline_id) {
+    const runs = await runAutomations(storage, "deal_stage_changed", { entity: "deal", record: current });
+    if (runs.length) current = (await storage.getDeal(after.id)) ?? current;
+  }
+  if (before.status !== after.status) {
+    const runs = await runAutomations(storage, "deal_status_changed", { entity: "deal", record: current });
+    if (runs.length) current = (await storage.getDeal(after.id)) ?? current;
+  }
+  return current;
+}
+
+export async function deleteDeal(
+  storage: IStorage,
+  id: string,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<void> {
+  const deal = await getDeal(storage, id);
+
+  for (const task of await storage.getTasks({ deal_id: id })) {
+    await storage.updateTask(task.id, { deal_id: null });
+  }
+
+  await storage.deleteDeal(id);
+  if (options.skipTimeline) return;
+  await logTimelineEntry(storage, {
+    type: "deal_deleted",
+    description: `Deal eliminado: ${deal.title}`,
+    entity_type: "deal",
+    entity_id: id,
+    user_id: actorId,
+  });
+}
@@ -0,0 +1,23 @@
+export class CrmError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CrmError";
+    this.status = status;
+  }
+}
+
+export class NotFoundError extends CrmError {
+  constructor(entity: string) {
+    super(`${entity} not found`, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ForbiddenError extends CrmError {
+  constructor(message = "No tienes permiso para esta acción") {
+    super(message, 403);
+    this.name = "ForbiddenError";
+  }
+}
@@ -0,0 +1,203 @@
+import type { Writable } from "node:stream";
+import { isCustomFieldEntity, type CustomFieldDefinition } from "@shared/customFields";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_SHEET_NAMES,
+  formatExportCell,
+  formatExportRow,
+  getCsvDelimiter,
+  getCsvHeaderLine,
+  getCustomFieldExportColumns,
+  getExportHeaders,
+  matchesCompanyFilters,
+  matchesContactFilters,
+  matchesDealFilters,
+  matchesTaskFilters,
+  resolveExportColumns,
+  toCsvLine,
+  type ExportColumn,
+  type ExportContext,
+  type ExportEntity,
+  type ExportFormat,
+  type ExportLanguage,
+  type ExportRecords,
+  type ListFilters,
+} from "@shared/exports";
+import type { DealScope, IStorage } from "../storage";
+import { listContacts } from "./contacts";
+import { CrmError } from "./errors";
+import { resolvePipeline } from "./pipelines";
+import { writeChunk, XlsxWriter } from "./xlsx";
+
+export interface ExportRequest<K extends ExportEntity = ExportEntity> {
+  entity: K;
+  format: ExportFormat;
+  language: ExportLanguage;
+  /** Claves de `EXPORT_COLUMNS` o `cf.<clave>` de los campos personalizados; sin ellas, las de por defecto. */
+  columns?: string[];
+  filters: ListFilters[K];
+}
+
+export interface PreparedExport {
+  fileName: string;
+  contentType: string;
+  rows: number;
+  /** Escribe el fichero en `out` por partes; no cierra `out`. */
+  write(out: Writable): Promise<void>;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/** Filas por trozo escrito; entre trozos se cede el event loop. */
+const EXPORT_CHUNK_ROWS = 500;
+
+interface Loaded<K extends ExportEntity> {
+  records: ExportRecords[K][];
+  context: Omit<ExportContext, "now" | "language">;
+}
+
+type Loader<K extends ExportEntity> = (
+  storage: IStorage,
+  filters: ListFilters[K],
+  scope: DealScope,
+  now: Date,
+  customFields: readonly CustomFieldDefinition[],
+) => Promise<Loaded<K>>;
+
+async function userNames(storage: IStorage): Promise<Map<string, string>> {
+  const users = await storage.getUsers();
+  return new Map(users.map((user) => [user.id, user.full_name || user.username]));
+}
+
+// Cada listado se carga con el mismo alcance que su ruta GET y se filtra como en pantalla
+const LOADERS: { [K in ExportEntity]: Loader<K> } = {
+  deals: async (storage, filters, scope, now, customFields) => {
+    const pipeline = filters.pipeline_id ? await resolvePipeline(storage, filters.pipeline_id) : null;
+    const deals = (await storage.getDeals(scope)).filter(
+      (deal) =>
+        (!pipeline || (deal.pipeline_id ? deal.pipeline_id === pipeline.id : pipeline.is_default)) &&
+        matchesDealFilters(deal, filters, now, customFields),
+    );
+    const contacts = await storage.getContacts(scope);
+    return {
+      records: deals,
+      context: {
+        users: await userNames(storage),
+        contacts: new Map(contacts.map((contact) => [contact.id, contact.name])),
+      },
+    };
+  },
+  contacts: async (storage, filters, scope, _now, customFields) => {
+    const contacts = await listContacts(storage, scope);
+    return {
+      records: contacts.filter((contact) => matchesContactFilters(contact, filters, customFields)),
+      context: { users: await userNames(storage) },
+    };
+  },
+  companies: async (storage, filters, _scope, _now, customFields) => {
+    const companies = await storage.getCompanies();
+    return {
+      records: companies.filter((company) => matchesCompanyFilters(company, filters, customFields)),
+      context: {},
+    };
+  },
+  tasks: async (storage, filters, scope) => {
+    const tasks = await storage.getTasks(scope);
+    const [deals, contacts] = await Promise.all([storage.getDeals(scope), storage.getContacts(scope)]);
+    return {
+      records: tasks.filter((task) => matchesTaskFilters(task, filters)),
+      context: {
+        users: await userNames(storage),
+        deals: new Map(deals.map((deal) => [deal.id, deal.title])),
+        contacts: new Map(contacts.map((contact) => [contact.id, contact.name])),
+      },
+    };
+  },
+};
+
+function pauseEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+async function writeCsv<K extends ExportEntity>(
+  out: Writable,
+  columns: ExportColumn<ExportRecords[K]>[],
+  records: ExportRecords[K][],
+  context: ExportContext,
+): Promise<void> {
+  const delimiter = getCsvDelimiter(context.language);
+  await writeChunk(out, `\uFEFF${getCsvHeaderLine(columns, context.language)}\r\n`);
+  for (let start = 0; start < records.length; start += EXPORT_CHUNK_ROWS) {
+    let chunk = "";
+    for (const record of records.slice(start, start + EXPORT_CHUNK_ROWS)) {
+      chunk += `${toCsvLine(formatExportRow(columns, record, context), delimiter)}\r\n`;
+    }
+    await writeChunk(out, chunk);
+    await pauseEventLoop();
+  }
+}
+
+async function writeXlsx<K extends ExportEntity>(
+  out: Writable,
+  entity: K,
+  columns: ExportColumn<ExportRecords[K]>[],
+  records: ExportRecords[K][],
+  context: ExportContext,
+): Promise<void> {
+  const dateTimeColumns = new Set(
+    columns.flatMap((column, index) => (column.type === "datetime" ? [index] : [])),
+  );
+  const writer = new XlsxWriter(out, { sheetName: EXPORT_SHEET_NAMES[entity][context.language], dateTimeColumns });
+  await writer.start(getExportHeaders(columns, context.language));
+  for (let index = 0; index < records.length; index += 1) {
+    const cells = columns.map((column) => {
+      const cell = column.value(records[index], context);
+      // Los booleanos se escriben como "Sí"/"No" igual que en CSV
+      return typeof cell === "boolean" ? formatExportCell(cell, "text", context.language) : cell;
+    });
+    await writer.addRow(cells);
+    if ((index + 1) % EXPORT_CHUNK_ROWS === 0) await pauseEventLoop();
+  }
+  await writer.finish();
+}
+
+/**
+ * Valida la petición y carga las filas filtradas. Los errores salen aquí,
+ * antes de enviar cabeceras; `write` ya solo serializa.
+ */
+export async function prepareExport<K extends ExportEntity>(
+  storage: IStorage,
+  request: ExportRequest<K>,
+  scope: DealScope = {},
+  now = new Date(),
+): Promise<PreparedExport> {
+  const customFields = isCustomFieldEntity(request.entity) ? await storage.getCustomFields(request.entity) : [];
+  const known = new Set<string>([
+    ...EXPORT_COLUMNS[request.entity].map((column) => column.key),
+    ...getCustomFieldExportColumns(customFields).map((column) => column.key),
+  ]);
+  const unknown = request.columns?.filter((key) => !known.has(key)) ?? [];
+  if (unknown.length) throw new CrmError(`Columnas desconocidas: ${unknown.join(", ")}`);
+
+  const columns = resolveExportColumns(request.entity, request.columns, customFields);
+  if (!columns.length) throw new CrmError("Elige al menos una columna");
+
+  const loader = LOADERS[request.entity] as Loader<K>;
+  const { records, context: lookups } = await loader(storage, request.filters, scope, now, customFields);
+  const tags = new Map((await storage.getTags()).map((tag) => [tag.id, tag.name]));
+  const context: ExportContext = { ...lookups, tags, now, language: request.language };
+  const day = now.toISOString().slice(0, 10);
+
+  return {
+    fileName: `${request.entity}-${day}.${request.format}`,
+    contentType: EXPORT_CONTENT_TYPES[request.format],
+    rows: records.length,
+    write: (out) =>
+      request.format === "xlsx"
+        ? writeXlsx(out, request.entity, columns, records, context)
+        : writeCsv(out, columns, records, context),
+  };
+}
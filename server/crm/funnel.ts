@@ -0,0 +1,53 @@
+import {
+  buildFunnelReport,
+  DEFAULT_FUNNEL_WINDOW_DAYS,
+  getCohortMonth,
+  type FunnelReport,
+} from "@shared/funnel";
+import type { DealScope, IStorage } from "../storage";
+import { CrmError } from "./errors";
+import { listPipelineStages } from "./pipelineStages";
+import { resolvePipeline } from "./pipelines";
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+export interface FunnelQuery {
+  pipeline_id?: string;
+  from?: Date;
+  to?: Date;
+  /** Mes de creación de los deals, "YYYY-MM". */
+  cohort?: string;
+  owner_id?: string;
+}
+
+/**
+ * Conversión por etapa calculada con las transiciones reales de la ventana
+ * (por defecto, los últimos `DEFAULT_FUNNEL_WINDOW_DAYS` días).
+ */
+export async function getFunnelReport(
+  storage: IStorage,
+  query: FunnelQuery = {},
+  scope: DealScope = {},
+): Promise<FunnelReport> {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - DEFAULT_FUNNEL_WINDOW_DAYS * dayMs);
+  if (from > to) throw new CrmError("La fecha de inicio debe ser anterior a la de fin");
+
+  const pipeline = await resolvePipeline(storage, query.pipeline_id);
+  const stages = await listPipelineStages(storage, pipeline.id);
+  // El pipeline se filtra por transición: un deal movido cuenta en los dos
+  const deals = (await storage.getDeals({ ...scope, owner_id: query.owner_id })).filter(
+    (deal) => !query.cohort || getCohortMonth(deal.created_at) === query.cohort,
+  );
+  const transitions = await storage.getDealStageTransitions();
+
+  return buildFunnelReport({
+    pipelineId: pipeline.id,
+    isDefaultPipeline: pipeline.is_default,
+    stages,
+    deals,
+    transitions,
+    from,
+    to,
+  });
+}
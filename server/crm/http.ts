@@ -0,0 +1,20 @@
+import type { Response } from "express";
+import type { ZodType, ZodTypeDef } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { CrmError } from "./errors";
+
+export function parseInput<T>(schema: ZodType<T, ZodTypeDef, unknown>, input: unknown): T {
+  const result = schema.safeParse(input ?? {});
+  if (!result.success) {
+    throw new CrmError(fromZodError(result.error).message);
+  }
+  return result.data;
+}
+
+export function sendError(res: Response, error: unknown, fallbackMessage: string) {
+  if (error instanceof CrmError) {
+    return res.status(error.status).json({ success: false, message: error.message });
+  }
+  console.error("[CRM]", fallbackMessage, error);
+  return res.status(500).json({ success: false, message: fallbackMessage });
+}
@@ -0,0 +1,310 @@
+import type { ImportJob, ImportJobRow } from "@shared/schema";
+import type { CustomFieldDefinition, CustomFieldValues } from "@shared/customFields";
+import {
+  applyImportMapping,
+  getImportFields,
+  getMissingRequiredFields,
+  MAX_IMPORT_ROWS,
+  normalizeImportRow,
+  parseDelimited,
+  type ImportEntity,
+  type ImportValue,
+} from "@shared/imports";
+import type { DealScope, ImportJobRowPatch, IStorage } from "../storage";
+import { resolveOwnerScope, scopeFilter } from "./access";
+import { createCompany, findCompanyByName } from "./companies";
+import { createContact } from "./contacts";
+import { createDeal, updateDeal } from "./deals";
+import { CrmError, NotFoundError } from "./errors";
+
+export interface ImportJobInput {
+  entity: ImportEntity;
+  file_name?: string | null;
+  /** Contenido del fichero CSV/TSV. */
+  content: string;
+  /** Sin separador se deduce de la cabecera. */
+  delimiter?: string;
+  /** Columna del fichero -> campo de la entidad (o `cf.<clave>`); las columnas sin campo se ignoran. */
+  mapping: Record<string, string>;
+}
+
+/** Filas por lote: tras cada uno se guardan los contadores y se cede el event loop. */
+const IMPORT_BATCH_SIZE = 100;
+
+/** Estados desde los que un job puede (re)arrancar. */
+const RESUMABLE_STATUSES: ImportJob["status"][] = ["pending", "running", "failed", "cancelled"];
+
+// Un único runner por job aunque lleguen varias peticiones de reanudar
+const runners = new WeakMap<IStorage, Map<string, Promise<ImportJob | undefined>>>();
+
+type ImportValues = Record<string, ImportValue>;
+type RecordImporter = (
+  storage: IStorage,
+  values: ImportValues,
+  customFields: CustomFieldValues,
+  actorId: string | null,
+  /** Alcance de quien creó el job: los registros que se enlazan tienen que estar en él. */
+  scope: DealScope,
+) => Promise<{ id: string }>;
+
+function text(value: ImportValue | undefined): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function number(value: ImportValue | undefined): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+function date(value: ImportValue | undefined): Date | null {
+  return value instanceof Date ? value : null;
+}
+
+const IMPORTERS: Record<ImportEntity, RecordImporter> = {
+  // La empresa se vincula (o se crea) por nombre, como en el alta manual
+  contacts: (storage, values, customFields, actorId) =>
+    createContact(
+      storage,
+      {
+        name: text(values.name)!,
+        email: text(values.email),
+        phone: text(values.phone),
+        company: text(values.company),
+        position: text(values.position),
+        source: text(values.source),
+        custom_fields: customFields,
+      },
+      actorId,
+    ),
+
+  companies: async (storage, values, customFields) => {
+    const name = text(values.name)!;
+    if (await findCompanyByName(storage, name)) throw new CrmError(`Ya existe la empresa ${name}`);
+    return createCompany(storage, {
+      name,
+      industry: text(values.industry),
+      size: text(values.size),
+      revenue_estimate: number(values.revenue_estimate),
+      location: text(values.location),
+      website: text(values.website),
+      description: text(values.description),
+      custom_fields: customFields,
+    });
+  },
+
+  deals: async (storage, values, customFields, actorId, scope) => {
+    let contactId: string | null = null;
+    const email = text(values.contact_email);
+    if (email) {
+      // Un contacto fuera del alcance no se distingue de uno que no existe
+      const matches = await storage.getContacts({ search: email, ...scope });
+      const contact = matches.find((candidate) => candidate.email?.toLowerCase() === email);
+      if (!contact) throw new CrmError(`No hay ningún contacto con email ${email}`);
+      contactId = contact.id;
+    }
+
+    const deal = await createDeal(
+      storage,
+      {
+        title: text(values.title)!,
+        company: text(values.company),
+        amount: number(values.amount),
+        stage: text(values.stage) ?? undefined,
+        next_step: text(values.next_step),
+        target_close_date: date(values.target_close_date),
+        contact_id: contactId,
+        custom_fields: customFields,
+      },
+      actorId,
+    );
+    // createDeal siempre abre el deal: el cierre se aplica después para que quede en el historial
+    const status = text(values.status);
+    if (status === "Won" || status === "Lost") {
+      return updateDeal(storage, deal.id, { status, close_reason: text(values.close_reason) }, actorId);
+    }
+    return deal;
+  },
+};
+
+export async function getImportJob(storage: IStorage, id: string): Promise<ImportJob> {
+  const job = await storage.getImportJob(id);
+  if (!job) throw new NotFoundError("Import job");
+  return job;
+}
+
+/**
+ * Lee el fichero, valida la asignación de columnas y guarda el job con una
+ * fila por registro. No importa nada: eso lo hace `startImportJob`.
+ */
+export async function createImportJob(
+  storage: IStorage,
+  input: ImportJobInput,
+  actorId: string | null = null,
+): Promise<ImportJob> {
+  const parsed = parseDelimited(input.content, input.delimiter || undefined);
+  if (!parsed.headers.length) throw new CrmError("El fichero está vacío");
+
+  const customFields = await storage.getCustomFields(input.entity);
+  const fields = new Map(getImportFields(input.entity, customFields).map((field) => [field.key, field]));
+  const mapping: Record<string, string> = {};
+  const mappedFields = new Set<string>();
+  for (const [header, field] of Object.entries(input.mapping)) {
+    if (!field) continue;
+    if (!parsed.headers.includes(header)) throw new CrmError(`La columna ${header} no está en el fichero`);
+    if (!fields.has(field)) throw new CrmError(`Campo desconocido: ${field}`);
+    if (mappedFields.has(field)) {
+      throw new CrmError(`El campo ${fields.get(field)!.label} está asignado a varias columnas`);
+    }
+    mapping[header] = field;
+    mappedFields.add(field);
+  }
+
+  const missing = getMissingRequiredFields(input.entity, mapping);
+  if (missing.length) {
+    throw new CrmError(`Falta asignar: ${missing.map((field) => field.label).join(", ")}`);
+  }
+  if (!parsed.rows.length) throw new CrmError("El fichero no tiene filas de datos");
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    throw new CrmError(`El fichero supera el máximo de ${MAX_IMPORT_ROWS} filas`, 413);
+  }
+
+  const job = await storage.createImportJob({
+    entity: input.entity,
+    file_name: input.file_name?.trim() || null,
+    mapping: JSON.stringify(mapping),
+    total_rows: parsed.rows.length,
+    created_by: actorId,
+  });
+  await storage.createImportJobRows(
+    parsed.rows.map((row) => ({
+      job_id: job.id,
+      row_number: row.line,
+      data: JSON.stringify(applyImportMapping(parsed.headers, row.cells, mapping)),
+    })),
+  );
+  return job;
+}
+
+async function importRow(
+  storage: IStorage,
+  entity: ImportEntity,
+  row: ImportJobRow,
+  customFields: readonly CustomFieldDefinition[],
+  actorId: string | null,
+  scope: DealScope,
+): Promise<ImportJobRowPatch> {
+  const { values, custom_fields, errors } = normalizeImportRow(entity, JSON.parse(row.data), customFields);
+  if (errors.length) return { status: "failed", error: errors.map((error) => error.message).join("; ") };
+  try {
+    const record = await IMPORTERS[entity](storage, values, custom_fields, actorId, scope);
+    return { status: "imported", error: null, record_id: record.id };
+  } catch (error) {
+    // Los errores de negocio son de la fila; cualquier otro detiene el job
+    if (error instanceof CrmError) return { status: "failed", error: error.message };
+    throw error;
+  }
+}
+
+/** Alcance con el que corre el job: el de su creador; los jobs sin creador (scripts, tests) lo ven todo. */
+async function importScope(storage: IStorage, createdBy: string | null): Promise<DealScope> {
+  if (!createdBy) return {};
+  return scopeFilter(await resolveOwnerScope(storage, await storage.getUser(createdBy)));
+}
+
+// Nunca rechaza: un fallo deja el job en "failed" con el motivo, listo para reanudar
+async function runImportJob(storage: IStorage, jobId: string): Promise<ImportJob | undefined> {
+  try {
+    const job = await storage.getImportJob(jobId);
+    // Cancelados, fallidos y terminados solo vuelven a correr tras `resumeImportJob`
+    if (!job || (job.status !== "pending" && job.status !== "running")) return job;
+    // Los contadores se recalculan desde las filas: tras un corte pueden ir por detrás
+    let imported = (await storage.getImportJobRows(jobId, { status: "imported" })).length;
+    let failed = (await storage.getImportJobRows(jobId, { status: "failed" })).length;
+    await storage.updateImportJob(jobId, {
+      status: "running",
+      error: null,
+      finished_at: null,
+      processed_rows: imported + failed,
+      imported_rows: imported,
+      failed_rows: failed,
+    });
+    // Definiciones leídas una vez; si se borra un campo a medias, el alta de esas filas falla con el motivo
+    const customFields = await storage.getCustomFields(job.entity);
+    const scope = await importScope(storage, job.created_by);
+
+    for (;;) {
+      const current = await storage.getImportJob(jobId);
+      if (!current || current.status === "cancelled") return current;
+
+      const rows = await storage.getImportJobRows(jobId, { status: "pending", limit: IMPORT_BATCH_SIZE });
+      if (!rows.length) break;
+      for (const row of rows) {
+        const outcome = await importRow(storage, job.entity, row, customFields, job.created_by, scope);
+        await storage.updateImportJobRow(row.id, outcome);
+        if (outcome.status === "imported") imported += 1;
+        else failed += 1;
+      }
+      await storage.updateImportJob(jobId, {
+        processed_rows: imported + failed,
+        imported_rows: imported,
+        failed_rows: failed,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return storage.updateImportJob(jobId, { status: "completed", finished_at: new Date() });
+  } catch (error) {
+    console.error("[CRM] Importación interrumpida", jobId, error);
+    const message = error instanceof Error ? error.message : String(error);
+    return storage
+      .updateImportJob(jobId, { status: "failed", error: message, finished_at: new Date() })
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Procesa las filas pendientes del job por lotes. Si ya hay un runner para
+ * el job devuelve su promesa; las rutas no la esperan.
+ */
+export function startImportJob(storage: IStorage, jobId: string): Promise<ImportJob | undefined> {
+  let active = runners.get(storage);
+  if (!active) {
+    active = new Map();
+    runners.set(storage, active);
+  }
+  const running = active.get(jobId);
+  if (running) return running;
+
+  const pending = runImportJob(storage, jobId).finally(() => active!.delete(jobId));
+  active.set(jobId, pending);
+  return pending;
+}
+
+export function isImportJobRunning(storage: IStorage, jobId: string): boolean {
+  return runners.get(storage)?.has(jobId) ?? false;
+}
+
+/** Reanuda un job fallido, cancelado o interrumpido desde su primera fila pendiente. */
+export async function resumeImportJob(storage: IStorage, id: string): Promise<ImportJob> {
+  const job = await getImportJob(storage, id);
+  if (!RESUMABLE_STATUSES.includes(job.status)) throw new CrmError("La importación ya ha terminado", 409);
+  const resumed = await storage.updateImportJob(id, { status: "pending", error: null, finished_at: null });
+  // Si el runner sigue vivo (cancelado hace un instante) continúa él solo
+  if (!isImportJobRunning(storage, id)) void startImportJob(storage, id);
+  return resumed ?? job;
+}
+
+export async function cancelImportJob(storage: IStorage, id: string): Promise<ImportJob> {
+  const job = await getImportJob(storage, id);
+  if (job.status !== "pending" && job.status !== "running") {
+    throw new CrmError("Solo se puede cancelar una importación en curso", 409);
+  }
+  // El runner lo detecta al empezar el siguiente lote
+  return (await storage.updateImportJob(id, { status: "cancelled", finished_at: new Date() }))!;
+}
+
+/** Al arrancar el servidor, retoma los jobs que quedaron a medias. */
+export async function resumeInterruptedImports(storage: IStorage): Promise<void> {
+  const jobs = await storage.getImportJobs({ status: ["pending", "running"] });
+  for (const job of jobs) {
+    void startImportJob(storage, job.id);
+  }
+}
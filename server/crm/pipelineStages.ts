@@ -0,0 +1,113 @@
+import type { InsertPipelineStage, PipelineStage, UpdatePipelineStage } from "@shared/schema";
+import { DEFAULT_PIPELINE_STAGES, findStage, getActiveStages } from "@shared/pipelineStages";
+import type { IStorage } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+
+// Una siembra por pipeline aunque lleguen varias peticiones a la vez
+const seeding = new WeakMap<IStorage, Map<string, Promise<PipelineStage[]>>>();
+
+/**
+ * Etapas configuradas de un pipeline, ordenadas. Un pipeline sin etapas recibe
+ * las de `DEFAULT_PIPELINE_STAGES` la primera vez que se consultan.
+ */
+export async function listPipelineStages(storage: IStorage, pipelineId: string): Promise<PipelineStage[]> {
+  const stages = await storage.getPipelineStages(pipelineId);
+  if (stages.length > 0) return stages;
+
+  let inFlight = seeding.get(storage);
+  if (!inFlight) {
+    inFlight = new Map();
+    seeding.set(storage, inFlight);
+  }
+  let pending = inFlight.get(pipelineId);
+  if (!pending) {
+    pending = seedDefaultStages(storage, pipelineId).finally(() => inFlight.delete(pipelineId));
+    inFlight.set(pipelineId, pending);
+  }
+  return pending;
+}
+
+async function seedDefaultStages(storage: IStorage, pipelineId: string): Promise<PipelineStage[]> {
+  for (const stage of DEFAULT_PIPELINE_STAGES) {
+    await storage.createPipelineStage({ ...stage, pipeline_id: pipelineId });
+  }
+  return storage.getPipelineStages(pipelineId);
+}
+
+function assertUniqueName(stages: PipelineStage[], name: string, exceptId?: string) {
+  const existing = findStage(stages, name);
+  if (existing && existing.id !== exceptId) {
+    throw new CrmError(`Ya existe una etapa llamada "${existing.name}"`, 409);
+  }
+}
+
+export async function createPipelineStage(
+  storage: IStorage,
+  pipelineId: string,
+  input: Omit<InsertPipelineStage, "pipeline_id">,
+): Promise<PipelineStage> {
+  const stages = await listPipelineStages(storage, pipelineId);
+  const name = input.name.trim();
+  assertUniqueName(stages, name);
+
+  const lastIndex = stages.reduce((max, stage) => Math.max(max, stage.order_index), -1);
+  return storage.createPipelineStage({ ...input, name, pipeline_id: pipelineId, order_index: lastIndex + 1 });
+}
+
+/** Renombrar una etapa arrastra a los deals de su pipeline que estaban en ella. */
+export async function updatePipelineStage(
+  storage: IStorage,
+  id: string,
+  patch: UpdatePipelineStage,
+): Promise<PipelineStage> {
+  const current = await storage.getPipelineStage(id);
+  if (!current) throw new NotFoundError("Pipeline stage");
+  const stages = await listPipelineStages(storage, current.pipeline_id);
+
+  const name = patch.name?.trim();
+  if (name) assertUniqueName(stages, name, id);
+
+  if (patch.is_active === false && current.is_active !== false) {
+    const remaining = getActiveStages(stages).filter((stage) => stage.id !== id);
+    if (remaining.length === 0) {
+      throw new CrmError("El pipeline necesita al menos una etapa activa");
+    }
+  }
+
+  const updated = await storage.updatePipelineStage(id, name ? { ...patch, name } : patch);
+  if (!updated) throw new NotFoundError("Pipeline stage");
+
+  if (name && name !== current.name) {
+    await storage.renameDealStage(current.pipeline_id, current.name, name);
+  }
+  return updated;
+}
+
+/**
+ * `ids` debe contener todas las etapas de un mismo pipeline exactamente una
+ * vez, en el orden nuevo.
+ */
+export async function reorderPipelineStages(storage: IStorage, ids: string[]): Promise<PipelineStage[]> {
+  const first = ids.length > 0 ? await storage.getPipelineStage(ids[0]) : undefined;
+  const stages = first ? await listPipelineStages(storage, first.pipeline_id) : [];
+  const known = new Set(stages.map((stage) => stage.id));
+  if (!first || ids.length !== known.size || new Set(ids).size !== ids.length || ids.some((id) => !known.has(id))) {
+    throw new CrmError("El nuevo orden debe incluir todas las etapas del pipeline una sola vez");
+  }
+
+  for (let index = 0; index < ids.length; index++) {
+    const stage = stages.find((candidate) => candidate.id === ids[index]);
+    if (stage && stage.order_index !== index) {
+      await storage.updatePipelineStage(stage.id, { order_index: index });
+    }
+  }
+  return storage.getPipelineStages(first.pipeline_id);
+}
+
+/** Comprueba que un deal puede entrar en `stage` (existe y está activa) y devuelve el nombre canónico. */
+export function resolveDealStage(stages: PipelineStage[], stage: string): string {
+  const match = findStage(stages, stage);
+  if (!match) throw new CrmError(`Etapa desconocida: ${stage}`);
+  if (match.is_active === false) throw new CrmError(`La etapa "${match.name}" está desactivada`);
+  return match.name;
+}
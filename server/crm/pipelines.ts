@@ -0,0 +1,114 @@
+import type { InsertPipeline, Pipeline, PipelineStage, UpdatePipeline } from "@shared/schema";
+import { DEFAULT_PIPELINE_NAME, normalizeStageName } from "@shared/pipelineStages";
+import type { IStorage } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+import { listPipelineStages } from "./pipelineStages";
+
+// Una siembra por storage aunque lleguen varias peticiones a la vez
+const seeding = new WeakMap<IStorage, Promise<Pipeline[]>>();
+
+/**
+ * Pipelines ordenados. Una instalación sin pipelines recibe uno por defecto
+ * (`DEFAULT_PIPELINE_NAME`) la primera vez que se consultan.
+ */
+export async function listPipelines(storage: IStorage): Promise<Pipeline[]> {
+  const pipelines = await storage.getPipelines();
+  if (pipelines.length > 0) return pipelines;
+
+  let pending = seeding.get(storage);
+  if (!pending) {
+    pending = storage
+      .createPipeline({ name: DEFAULT_PIPELINE_NAME, is_default: true, order_index: 0 })
+      .then(() => storage.getPipelines())
+      .finally(() => seeding.delete(storage));
+    seeding.set(storage, pending);
+  }
+  return pending;
+}
+
+export async function getDefaultPipeline(storage: IStorage): Promise<Pipeline> {
+  const pipelines = await listPipelines(storage);
+  return pipelines.find((pipeline) => pipeline.is_default) ?? pipelines[0];
+}
+
+/** Pipeline al que hace referencia una entrada (`pipeline_id`); sin id, el de por defecto. */
+export async function resolvePipeline(storage: IStorage, id: string | null | undefined): Promise<Pipeline> {
+  if (!id) return getDefaultPipeline(storage);
+  const pipeline = await storage.getPipeline(id);
+  if (!pipeline) throw new CrmError(`Pipeline desconocido: ${id}`);
+  return pipeline;
+}
+
+/** Etapas de todos los pipelines, agrupadas por pipeline en su orden. */
+export async function listAllPipelineStages(storage: IStorage): Promise<PipelineStage[]> {
+  const stages: PipelineStage[] = [];
+  for (const pipeline of await listPipelines(storage)) {
+    stages.push(...(await listPipelineStages(storage, pipeline.id)));
+  }
+  return stages;
+}
+
+function assertUniqueName(pipelines: Pipeline[], name: string, exceptId?: string) {
+  const key = normalizeStageName(name);
+  const existing = pipelines.find((pipeline) => normalizeStageName(pipeline.name) === key);
+  if (existing && existing.id !== exceptId) {
+    throw new CrmError(`Ya existe un pipeline llamado "${existing.name}"`, 409);
+  }
+}
+
+async function clearOtherDefaults(storage: IStorage, pipelines: Pipeline[], id: string) {
+  for (const pipeline of pipelines) {
+    if (pipeline.id !== id && pipeline.is_default) {
+      await storage.updatePipeline(pipeline.id, { is_default: false });
+    }
+  }
+}
+
+/** Crea el pipeline con las etapas por defecto, listas para renombrar. */
+export async function createPipeline(storage: IStorage, input: InsertPipeline): Promise<Pipeline> {
+  const pipelines = await listPipelines(storage);
+  const name = input.name.trim();
+  assertUniqueName(pipelines, name);
+
+  const lastIndex = pipelines.reduce((max, pipeline) => Math.max(max, pipeline.order_index), -1);
+  const pipeline = await storage.createPipeline({
+    name,
+    is_default: input.is_default ?? false,
+    order_index: lastIndex + 1,
+  });
+  if (pipeline.is_default) await clearOtherDefaults(storage, pipelines, pipeline.id);
+  await listPipelineStages(storage, pipeline.id);
+  return pipeline;
+}
+
+/** Siempre hay exactamente un pipeline por defecto: se cambia marcando otro. */
+export async function updatePipeline(storage: IStorage, id: string, patch: UpdatePipeline): Promise<Pipeline> {
+  const pipelines = await listPipelines(storage);
+  const current = pipelines.find((pipeline) => pipeline.id === id);
+  if (!current) throw new NotFoundError("Pipeline");
+
+  const name = patch.name?.trim();
+  if (name) assertUniqueName(pipelines, name, id);
+  if (patch.is_default === false && current.is_default) {
+    throw new CrmError("Marca otro pipeline como predeterminado en lugar de desmarcar este");
+  }
+
+  const updated = await storage.updatePipeline(id, name ? { ...patch, name } : patch);
+  if (!updated) throw new NotFoundError("Pipeline");
+  if (patch.is_default) await clearOtherDefaults(storage, pipelines, id);
+  return updated;
+}
+
+/** Solo se borran pipelines vacíos que no sean el predeterminado; sus etapas se van con él. */
+export async function deletePipeline(storage: IStorage, id: string): Promise<void> {
+  const pipeline = await storage.getPipeline(id);
+  if (!pipeline) throw new NotFoundError("Pipeline");
+  if (pipeline.is_default) {
+    throw new CrmError("No se puede borrar el pipeline predeterminado", 409);
+  }
+  const [deal] = await storage.getDeals({ pipeline_id: id, limit: 1 });
+  if (deal) {
+    throw new CrmError("El pipeline tiene deals: muévelos a otro pipeline antes de borrarlo", 409);
+  }
+  await storage.deletePipeline(id);
+}
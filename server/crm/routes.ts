@@ -0,0 +1,1361 @@
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import {
+  dealStatusEnum,
+  insertAlertChannelSchema,
+  insertAutomationRuleSchema,
+  importRowStatusEnum,
+  insertCompanySchema,
+  insertContactSchema,
+  insertCustomFieldSchema,
+  insertDealSchema,
+  insertPipelineSchema,
+  insertPipelineStageSchema,
+  insertTagSchema,
+  insertTaskSchema,
+  insertTimelineEntrySchema,
+  priorityEnum,
+  riskLevelEnum,
+  taskPriorityEnum,
+  taskStateEnum,
+  updateAlertChannelSchema,
+  updateAutomationRuleSchema,
+  updateCompanySchema,
+  updateContactSchema,
+  updateCustomFieldSchema,
+  updateDealSchema,
+  updatePipelineSchema,
+  updatePipelineStageSchema,
+  updateTagSchema,
+  updateTaskSchema,
+  type Task,
+  type UpdateTask,
+} from "@shared/schema";
+import { can, ROLES, type OwnerScope, type Permission } from "@shared/permissions";
+import { BULK_ENTITIES, BULK_MAX_RECORDS, bulkPermission } from "@shared/bulkActions";
+import {
+  AMOUNT_RANGES,
+  EXPORT_ENTITIES,
+  EXPORT_FORMATS,
+  EXPORT_LANGUAGES,
+  TARGET_FILTERS,
+} from "@shared/exports";
+import { IMPORT_ENTITIES, type ImportEntity } from "@shared/imports";
+import { COMPANY_MERGE_FIELDS } from "@shared/companyDuplicates";
+import { CONTACT_MERGE_FIELDS } from "@shared/contactDuplicates";
+import { SAVED_VIEW_LISTS, savedViewConfigSchema } from "@shared/savedViews";
+import { CUSTOM_FIELD_ENTITIES } from "@shared/customFields";
+import {
+  DEAL_ALERT_SENSITIVITIES,
+  dealAlertRuleSchema,
+  updateDealAlertRuleSchema,
+  updateDealAlertStateSchema,
+} from "@shared/dealAlerts";
+import { slaPolicyInputSchema } from "@shared/slaPolicies";
+import type { IStorage } from "../storage";
+import { requireAuth, toPublicUser } from "../auth";
+import {
+  assertCan,
+  assertInScope,
+  assertTaskInScope,
+  assertTimelineEntryInScope,
+  resolveOwnerScope,
+  scopeFilter,
+} from "./access";
+import {
+  createAlertChannel,
+  deleteAlertChannel,
+  listAlertChannels,
+  listAlertDeliveries,
+  sendAlertChannel,
+  updateAlertChannel,
+} from "./alertChannels";
+import {
+  createAutomationRule,
+  deleteAutomationRule,
+  listAutomationRules,
+  listAutomationRuns,
+  updateAutomationRule,
+} from "./automations";
+import { runBulkAction } from "./bulk";
+import { ForbiddenError, NotFoundError } from "./errors";
+import { parseInput, sendError } from "./http";
+import {
+  createCompany,
+  deleteCompany,
+  getCompanyOverview,
+  listCompanyDuplicateGroups,
+  listCompanyRollups,
+  mergeCompanies,
+  updateCompany,
+} from "./companies";
+import {
+  createContact,
+  deleteContact,
+  getContact,
+  listContacts,
+  listDuplicateGroups,
+  mergeContacts,
+  updateContact,
+} from "./contacts";
+import {
+  createCustomField,
+  deleteCustomField,
+  listCustomFields,
+  reorderCustomFields,
+  updateCustomField,
+} from "./customFields";
+import {
+  getDealAlertReport,
+  listDealAlertRules,
+  listDealAlerts,
+  saveAlertSensitivity,
+  updateDealAlertRule,
+  updateDealAlertState,
+} from "./dealAlerts";
+import { createDeal, deleteDeal, getDeal, getHotDeal, updateDeal } from "./deals";
+import { prepareExport, type PreparedExport } from "./exports";
+import { getFunnelReport } from "./funnel";
+import { cancelImportJob, createImportJob, getImportJob, resumeImportJob, startImportJob } from "./imports";
+import {
+  createPipelineStage,
+  listPipelineStages,
+  reorderPipelineStages,
+  updatePipelineStage,
+} from "./pipelineStages";
+import {
+  createPipeline,
+  deletePipeline,
+  listAllPipelineStages,
+  listPipelines,
+  resolvePipeline,
+  updatePipeline,
+} from "./pipelines";
+import {
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  setDefaultSavedView,
+  updateSavedView,
+} from "./savedViews";
+import { deleteSlaPolicy, listSlaEscalations, listSlaPolicies, saveSlaPolicy } from "./slaPolicies";
+import { createTag, deleteTag, listTags, updateTag } from "./tags";
+import { createTask, deleteTask, getTask, updateTask } from "./tasks";
+import { seedDemo } from "./seed";
+import { updateUserProfile } from "./users";
+
+const limitParam = z.coerce.number().int().positive().max(500).optional();
+const idFilter = z.string().uuid().optional();
+
+const dealFiltersSchema = z.object({
+  status: z.enum(dealStatusEnum.enumValues).optional(),
+  stage: z.string().optional(),
+  priority: z.enum(priorityEnum.enumValues).optional(),
+  risk_level: z.enum(riskLevelEnum.enumValues).optional(),
+  owner_id: idFilter,
+  contact_id: idFilter,
+  company_id: idFilter,
+  pipeline_id: idFilter,
+  search: z.string().optional(),
+  limit: limitParam,
+});
+
+const funnelQuerySchema = z.object({
+  pipeline_id: idFilter,
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cohort: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "La cohorte debe tener el formato AAAA-MM")
+    .optional(),
+  owner_id: idFilter,
+});
+
+const importJobSchema = z.object({
+  entity: z.enum(IMPORT_ENTITIES),
+  file_name: z.string().nullish(),
+  content: z.string().min(1, "El fichero está vacío"),
+  delimiter: z.enum([",", ";", "\t"]).optional(),
+  mapping: z.record(z.string()),
+});
+
+const importRowFiltersSchema = z.object({
+  status: z.enum(importRowStatusEnum.enumValues).optional(),
+  limit: limitParam,
+});
+
+// Un único esquema para los filtros de todos los listados; cada exportación usa los suyos
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  lang: z.enum(EXPORT_LANGUAGES).default("es"),
+  columns: z
+    .string()
+    .optional()
+    .transform((value) => value?.split(",").map((key) => key.trim()).filter(Boolean)),
+  search: z.string().optional(),
+  pipeline_id: idFilter,
+  stage: z.string().optional(),
+  status: z.enum(dealStatusEnum.enumValues).optional(),
+  priority: z.enum(priorityEnum.enumValues).optional(),
+  risk_level: z.enum(riskLevelEnum.enumValues).optional(),
+  owner_id: idFilter,
+  amount_range: z.enum(AMOUNT_RANGES).optional(),
+  target: z.enum(TARGET_FILTERS).optional(),
+  needs_attention: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  size: z.string().optional(),
+  industry: z.string().optional(),
+  custom_field: z.string().optional(),
+  tag: idFilter,
+  state: z.enum(taskStateEnum.enumValues).optional(),
+});
+
+const IMPORT_PERMISSIONS: Record<ImportEntity, Permission> = {
+  contacts: "contacts:create",
+  companies: "companies:create",
+  deals: "deals:create",
+};
+
+const bulkActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("set_owner"), owner_id: z.string().min(1, "Elige un owner") }),
+  z.object({ type: z.literal("set_stage"), stage: z.string().trim().min(1, "Elige una etapa") }),
+  z.object({ type: z.literal("set_priority"), priority: z.string() }),
+  z.object({ type: z.literal("set_status"), status: z.string(), close_reason: z.string().trim().nullish() }),
+  z.object({
+    type: z.literal("create_task"),
+    title: z.string().trim().min(1, "La tarea necesita un título"),
+    due_at: z.coerce.date().nullish(),
+    priority: z.enum(taskPriorityEnum.enumValues).nullish(),
+  }),
+  z.object({ type: z.literal("add_tag"), tag_id: z.string().min(1, "Elige una etiqueta") }),
+  z.object({ type: z.literal("remove_tag"), tag_id: z.string().min(1, "Elige una etiqueta") }),
+  z.object({ type: z.literal("delete") }),
+]);
+
+const bulkBodySchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1, "Selecciona al menos un registro")
+    .max(BULK_MAX_RECORDS, `Como máximo ${BULK_MAX_RECORDS} registros por operación`),
+  action: bulkActionSchema,
+});
+
+const contactFiltersSchema = z.object({
+  company_id: idFilter,
+  owner_id: idFilter,
+  search: z.string().optional(),
+  limit: limitParam,
+});
+
+const taskFiltersSchema = z.object({
+  state: z.enum(taskStateEnum.enumValues).optional(),
+  deal_id: idFilter,
+  contact_id: idFilter,
+  assigned_to: idFilter,
+  limit: limitParam,
+});
+
+const timelineFiltersSchema = z.object({
+  entity_type: z.string().optional(),
+  entity_id: idFilter,
+  limit: limitParam,
+});
+
+const contactBodySchema = insertContactSchema.extend({ company: z.string().nullish() });
+const contactPatchSchema = updateContactSchema.extend({ company: z.string().nullish() });
+const contactMergeSchema = z.object({
+  merge_ids: z.array(z.string()).min(1, "Elige al menos un contacto para fusionar"),
+  fields: z.record(z.enum(CONTACT_MERGE_FIELDS), z.string()).optional(),
+});
+const companyMergeSchema = z.object({
+  merge_ids: z.array(z.string()).min(1, "Elige al menos una empresa para fusionar"),
+  fields: z.record(z.enum(COMPANY_MERGE_FIELDS), z.string()).optional(),
+});
+const userPatchSchema = z.object({
+  role: z.enum(ROLES).optional(),
+  manager_id: z.string().uuid().nullish(),
+  full_name: z.string().trim().nullish(),
+  email: z.string().trim().email("Email no válido").nullish(),
+});
+
+const savedViewBodySchema = z.object({
+  list: z.enum(SAVED_VIEW_LISTS),
+  name: z.string().trim().min(1, "La vista necesita un nombre"),
+  shared: z.boolean().optional(),
+  config: savedViewConfigSchema,
+});
+const savedViewPatchSchema = savedViewBodySchema.omit({ list: true }).partial();
+const savedViewDefaultSchema = z.object({
+  list: z.enum(SAVED_VIEW_LISTS),
+  view_id: z.string().nullable(),
+});
+
+const stageOrderSchema = z.object({ ids: z.array(z.string()).min(1) });
+const stageFiltersSchema = z.object({ pipeline_id: idFilter });
+
+const alertReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+const alertPreferencesSchema = z.object({ sensitivity: z.enum(DEAL_ALERT_SENSITIVITIES) });
+
+const timelinePatchSchema = insertTimelineEntrySchema.pick({ description: true, metadata: true }).partial();
+
+function idParam(req: Request) {
+  return req.params.id;
+}
+
+function actorId(req: Request) {
+  return req.user?.id ?? null;
+}
+
+const CRM_PATHS = [
+  "/api/seed-demo",
+  "/api/deals",
+  "/api/metrics",
+  "/api/contacts",
+  "/api/companies",
+  "/api/tasks",
+  "/api/timeline",
+  "/api/users",
+  "/api/pipelines",
+  "/api/pipeline-stages",
+  "/api/imports",
+  "/api/exports",
+  "/api/saved-views",
+  "/api/custom-fields",
+  "/api/tags",
+  "/api/automations",
+  "/api/alert-rules",
+  "/api/deal-alerts",
+  "/api/alert-channels",
+  "/api/sla-policies",
+  "/api/sla-escalations",
+  "/api/bulk",
+  "/api/ai",
+];
+
+export function registerCrmRoutes(app: Express, storage: IStorage) {
+  app.use(CRM_PATHS, requireAuth);
+
+  const ownerScope = (req: Request) => resolveOwnerScope(storage, req.user);
+
+  app.post("/api/seed-demo", async (req, res) => {
+    try {
+      assertCan(req.user, "demo:seed");
+      await seedDemo(storage, actorId(req));
+      res.json({ success: true, message: "Demo data seeded successfully" });
+    } catch (error) {
+      sendError(res, error, "Failed to seed demo data");
+    }
+  });
+
+  /* Deals */
+  app.get("/api/deals", async (req, res) => {
+    try {
+      const filters = parseInput(dealFiltersSchema, req.query);
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, deals: await storage.getDeals({ ...filters, ...scope }) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los deals");
+    }
+  });
+
+  app.get("/api/deals/hot", async (req, res) => {
+    try {
+      res.json({ success: true, deals: await getHotDeal(storage, scopeFilter(await ownerScope(req))) });
+    } catch (error) {
+      sendError(res, error, "No se pudo calcular el deal más caliente");
+    }
+  });
+
+  app.get("/api/deals/stalled", async (req, res) => {
+    try {
+      const { limit } = parseInput(z.object({ limit: limitParam }), req.query);
+      res.json({ success: true, deals: await storage.getStalledDeals(limit, scopeFilter(await ownerScope(req))) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los deals estancados");
+    }
+  });
+
+  app.get("/api/deals/:id", async (req, res) => {
+    try {
+      const deal = await getDeal(storage, idParam(req));
+      assertInScope(await ownerScope(req), deal.owner_id);
+      res.json({ success: true, deal });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el deal");
+    }
+  });
+
+  app.get("/api/deals/:id/stage-transitions", async (req, res) => {
+    try {
+      const deal = await getDeal(storage, idParam(req));
+      assertInScope(await ownerScope(req), deal.owner_id);
+      res.json({ success: true, transitions: await storage.getDealStageTransitions({ deal_id: deal.id }) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el historial de etapas");
+    }
+  });
+
+  // Posponer, resolver, descartar o reabrir la alerta vigente del deal: quien ve el deal puede trabajarla
+  app.patch("/api/deals/:id/alert", async (req, res) => {
+    try {
+      const input = parseInput(updateDealAlertStateSchema, req.body);
+      const deal = await getDeal(storage, idParam(req));
+      assertInScope(await ownerScope(req), deal.owner_id);
+      res.json({ success: true, alert: await updateDealAlertState(storage, deal, input, actorId(req)) });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la alerta");
+    }
+  });
+
+  app.post("/api/deals", async (req, res) => {
+    try {
+      assertCan(req.user, "deals:create");
+      const input = parseInput(insertDealSchema, req.body);
+      if (input.owner_id) assertInScope(await ownerScope(req), input.owner_id);
+      const deal = await createDeal(storage, input, actorId(req));
+      res.status(201).json({ success: true, deal });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear el deal");
+    }
+  });
+
+  app.patch("/api/deals/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "deals:update");
+      const patch = parseInput(updateDealSchema, req.body);
+      const scope = await ownerScope(req);
+      assertInScope(scope, (await getDeal(storage, idParam(req))).owner_id);
+      // null también cuenta: dejar el registro sin owner lo saca del alcance de todos salvo el Admin
+      if (patch.owner_id !== undefined) assertInScope(scope, patch.owner_id);
+      const deal = await updateDeal(storage, idParam(req), patch, actorId(req));
+      res.json({ success: true, deal });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar el deal");
+    }
+  });
+
+  app.delete("/api/deals/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "deals:delete");
+      assertInScope(await ownerScope(req), (await getDeal(storage, idParam(req))).owner_id);
+      await deleteDeal(storage, idParam(req), actorId(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar el deal");
+    }
+  });
+
+  app.get("/api/metrics/quick", async (req, res) => {
+    try {
+      res.json({ success: true, metrics: await storage.getQuickMetrics(scopeFilter(await ownerScope(req))) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron calcular las métricas");
+    }
+  });
+
+  app.get("/api/metrics/funnel", async (req, res) => {
+    try {
+      assertCan(req.user, "metrics:team");
+      const query = parseInput(funnelQuerySchema, req.query);
+      const scope = await ownerScope(req);
+      if (query.owner_id) assertInScope(scope, query.owner_id);
+      res.json({ success: true, funnel: await getFunnelReport(storage, query, scopeFilter(scope)) });
+    } catch (error) {
+      sendError(res, error, "No se pudo calcular el funnel");
+    }
+  });
+
+  /* Contacts */
+  app.get("/api/contacts", async (req, res) => {
+    try {
+      const filters = parseInput(contactFiltersSchema, req.query);
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, contacts: await listContacts(storage, { ...filters, ...scope }) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los contactos");
+    }
+  });
+
+  // Antes de /:id para que "duplicates" no se tome por un id
+  app.get("/api/contacts/duplicates", async (req, res) => {
+    try {
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, groups: await listDuplicateGroups(storage, scope) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron buscar los duplicados");
+    }
+  });
+
+  app.get("/api/contacts/:id", async (req, res) => {
+    try {
+      const contact = await getContact(storage, idParam(req));
+      assertInScope(await ownerScope(req), contact.owner_id);
+      res.json({ success: true, contact });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el contacto");
+    }
+  });
+
+  app.post("/api/contacts", async (req, res) => {
+    try {
+      assertCan(req.user, "contacts:create");
+      const input = parseInput(contactBodySchema, req.body);
+      if (input.owner_id) assertInScope(await ownerScope(req), input.owner_id);
+      const contact = await createContact(storage, input, actorId(req));
+      res.status(201).json({ success: true, contact });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear el contacto");
+    }
+  });
+
+  app.patch("/api/contacts/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "contacts:update");
+      const patch = parseInput(contactPatchSchema, req.body);
+      const scope = await ownerScope(req);
+      assertInScope(scope, (await getContact(storage, idParam(req))).owner_id);
+      if (patch.owner_id !== undefined) assertInScope(scope, patch.owner_id);
+      const contact = await updateContact(storage, idParam(req), patch, actorId(req));
+      res.json({ success: true, contact });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar el contacto");
+    }
+  });
+
+  // Fusionar borra los contactos absorbidos: pide también el permiso de borrado
+  app.post("/api/contacts/:id/merge", async (req, res) => {
+    try {
+      assertCan(req.user, "contacts:update");
+      assertCan(req.user, "contacts:delete");
+      const input = parseInput(contactMergeSchema, req.body);
+      const scope = await ownerScope(req);
+      for (const id of [idParam(req), ...input.merge_ids]) {
+        assertInScope(scope, (await getContact(storage, id)).owner_id);
+      }
+      res.json({ success: true, merge: await mergeContacts(storage, idParam(req), input, actorId(req)) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron fusionar los contactos");
+    }
+  });
+
+  app.delete("/api/contacts/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "contacts:delete");
+      assertInScope(await ownerScope(req), (await getContact(storage, idParam(req))).owner_id);
+      await deleteContact(storage, idParam(req), actorId(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar el contacto");
+    }
+  });
+
+  /* Companies */
+  app.get("/api/companies", async (_req, res) => {
+    try {
+      res.json({ success: true, companies: await storage.getCompanies() });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las empresas");
+    }
+  });
+
+  app.get("/api/companies/rollups", async (req, res) => {
+    try {
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, rollups: await listCompanyRollups(storage, scope) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron calcular los totales por empresa");
+    }
+  });
+
+  app.get("/api/companies/duplicates", async (_req, res) => {
+    try {
+      res.json({ success: true, groups: await listCompanyDuplicateGroups(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron buscar los duplicados");
+    }
+  });
+
+  app.get("/api/companies/:id", async (req, res) => {
+    try {
+      const company = await storage.getCompany(idParam(req));
+      if (!company) throw new NotFoundError("Company");
+      res.json({ success: true, company });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar la empresa");
+    }
+  });
+
+  app.get("/api/companies/:id/overview", async (req, res) => {
+    try {
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, overview: await getCompanyOverview(storage, idParam(req), scope) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar la ficha de la empresa");
+    }
+  });
+
+  app.post("/api/companies", async (req, res) => {
+    try {
+      assertCan(req.user, "companies:create");
+      const company = await createCompany(storage, parseInput(insertCompanySchema, req.body));
+      res.status(201).json({ success: true, company });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear la empresa");
+    }
+  });
+
+  app.patch("/api/companies/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "companies:update");
+      const company = await updateCompany(storage, idParam(req), parseInput(updateCompanySchema, req.body));
+      res.json({ success: true, company });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la empresa");
+    }
+  });
+
+  app.post("/api/companies/:id/merge", async (req, res) => {
+    try {
+      assertCan(req.user, "companies:update");
+      assertCan(req.user, "companies:delete");
+      const input = parseInput(companyMergeSchema, req.body);
+      res.json({ success: true, merge: await mergeCompanies(storage, idParam(req), input, actorId(req)) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron fusionar las empresas");
+    }
+  });
+
+  app.delete("/api/companies/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "companies:delete");
+      await deleteCompany(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la empresa");
+    }
+  });
+
+  /* Tasks */
+  // Lo que se asigna o enlaza tiene que estar en el alcance, y la tarea seguir en él tras el cambio
+  const assertTaskChangeInScope = async (
+    scope: OwnerScope,
+    task: Pick<Task, "assigned_to" | "deal_id" | "contact_id">,
+    patch: UpdateTask,
+  ) => {
+    if (patch.assigned_to) assertInScope(scope, patch.assigned_to);
+    if (patch.deal_id) assertInScope(scope, (await getDeal(storage, patch.deal_id)).owner_id);
+    if (patch.contact_id) assertInScope(scope, (await getContact(storage, patch.contact_id)).owner_id);
+    await assertTaskInScope(storage, scope, {
+      assigned_to: patch.assigned_to !== undefined ? patch.assigned_to : task.assigned_to,
+      deal_id: patch.deal_id !== undefined ? patch.deal_id : task.deal_id,
+      contact_id: patch.contact_id !== undefined ? patch.contact_id : task.contact_id,
+    });
+  };
+
+  app.get("/api/tasks", async (req, res) => {
+    try {
+      const filters = parseInput(taskFiltersSchema, req.query);
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, tasks: await storage.getTasks({ ...filters, ...scope }) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las tareas");
+    }
+  });
+
+  app.get("/api/tasks/:id", async (req, res) => {
+    try {
+      const task = await getTask(storage, idParam(req));
+      await assertTaskInScope(storage, await ownerScope(req), task);
+      res.json({ success: true, task });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar la tarea");
+    }
+  });
+
+  app.post("/api/tasks", async (req, res) => {
+    try {
+      const input = parseInput(insertTaskSchema, req.body);
+      const unlinked = { assigned_to: null, deal_id: null, contact_id: null };
+      // Sin asignar, la tarea queda para quien la crea
+      await assertTaskChangeInScope(await ownerScope(req), unlinked, {
+        ...input,
+        assigned_to: input.assigned_to ?? actorId(req),
+      });
+      const task = await createTask(storage, input, actorId(req));
+      res.status(201).json({ success: true, task });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear la tarea");
+    }
+  });
+
+  app.patch("/api/tasks/:id", async (req, res) => {
+    try {
+      const patch = parseInput(updateTaskSchema, req.body);
+      const scope = await ownerScope(req);
+      const current = await getTask(storage, idParam(req));
+      await assertTaskInScope(storage, scope, current);
+      await assertTaskChangeInScope(scope, current, patch);
+      const task = await updateTask(storage, idParam(req), patch, actorId(req));
+      res.json({ success: true, task });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la tarea");
+    }
+  });
+
+  app.delete("/api/tasks/:id", async (req, res) => {
+    try {
+      await assertTaskInScope(storage, await ownerScope(req), await getTask(storage, idParam(req)));
+      await deleteTask(storage, idParam(req), actorId(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la tarea");
+    }
+  });
+
+  /* Acciones en bloque */
+  app.post("/api/bulk/:entity", async (req, res) => {
+    try {
+      const entity = parseInput(z.enum(BULK_ENTITIES), req.params.entity);
+      const input = parseInput(bulkBodySchema, req.body);
+      const permission = bulkPermission(entity, input.action.type);
+      if (permission) assertCan(req.user, permission);
+      const scope = await ownerScope(req);
+      if (input.action.type === "set_owner") assertInScope(scope, input.action.owner_id);
+      const report = await runBulkAction(storage, entity, input, { actorId: actorId(req), scope });
+      res.json({ success: true, report });
+    } catch (error) {
+      sendError(res, error, "No se pudo completar la acción en bloque");
+    }
+  });
+
+  /* Timeline */
+  // La actividad es parte del historial: solo la cambia quien la escribió, o un Admin
+  const getEditableTimelineEntry = async (req: Request) => {
+    const entry = await storage.getTimelineEntry(idParam(req));
+    if (!entry) throw new NotFoundError("Timeline entry");
+    const scope = await ownerScope(req);
+    await assertTimelineEntryInScope(storage, scope, entry);
+    if (scope.kind !== "all" && entry.user_id !== actorId(req)) {
+      throw new ForbiddenError("Solo quien registró la actividad puede cambiarla");
+    }
+    return entry;
+  };
+
+  app.get("/api/timeline", async (req, res) => {
+    try {
+      const filters = parseInput(timelineFiltersSchema, req.query);
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, entries: await storage.getTimelineEntries({ ...filters, ...scope }) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el timeline");
+    }
+  });
+
+  app.get("/api/timeline/:id", async (req, res) => {
+    try {
+      const entry = await storage.getTimelineEntry(idParam(req));
+      if (!entry) throw new NotFoundError("Timeline entry");
+      await assertTimelineEntryInScope(storage, await ownerScope(req), entry);
+      res.json({ success: true, entry });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar la entrada del timeline");
+    }
+  });
+
+  app.post("/api/timeline", async (req, res) => {
+    try {
+      const input = parseInput(insertTimelineEntrySchema, req.body);
+      await assertTimelineEntryInScope(storage, await ownerScope(req), input);
+      // La actividad la firma siempre quien tiene la sesión
+      const entry = await storage.createTimelineEntry({ ...input, user_id: actorId(req) });
+      res.status(201).json({ success: true, entry });
+    } catch (error) {
+      sendError(res, error, "No se pudo registrar la actividad");
+    }
+  });
+
+  app.patch("/api/timeline/:id", async (req, res) => {
+    try {
+      const patch = parseInput(timelinePatchSchema, req.body);
+      const entry = await storage.updateTimelineEntry((await getEditableTimelineEntry(req)).id, patch);
+      if (!entry) throw new NotFoundError("Timeline entry");
+      res.json({ success: true, entry });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la actividad");
+    }
+  });
+
+  app.delete("/api/timeline/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteTimelineEntry((await getEditableTimelineEntry(req)).id);
+      if (!deleted) throw new NotFoundError("Timeline entry");
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la actividad");
+    }
+  });
+
+  /* Pipelines */
+  app.get("/api/pipelines", async (_req, res) => {
+    try {
+      res.json({ success: true, pipelines: await listPipelines(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los pipelines");
+    }
+  });
+
+  app.post("/api/pipelines", async (req, res) => {
+    try {
+      assertCan(req.user, "pipeline:configure");
+      const pipeline = await createPipeline(storage, parseInput(insertPipelineSchema, req.body));
+      res.status(201).json({ success: true, pipeline });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear el pipeline");
+    }
+  });
+
+  app.patch("/api/pipelines/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "pipeline:configure");
+      const pipeline = await updatePipeline(storage, idParam(req), parseInput(updatePipelineSchema, req.body));
+      res.json({ success: true, pipeline });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar el pipeline");
+    }
+  });
+
+  app.delete("/api/pipelines/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "pipeline:configure");
+      await deletePipeline(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar el pipeline");
+    }
+  });
+
+  /* Pipeline stages */
+  app.get("/api/pipeline-stages", async (req, res) => {
+    try {
+      const { pipeline_id } = parseInput(stageFiltersSchema, req.query);
+      const stages = pipeline_id
+        ? await listPipelineStages(storage, (await resolvePipeline(storage, pipeline_id)).id)
+        : await listAllPipelineStages(storage);
+      res.json({ success: true, stages });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las etapas");
+    }
+  });
+
+  app.post("/api/pipeline-stages", async (req, res) => {
+    try {
+      assertCan(req.user, "pipeline:configure");
+      const { pipeline_id, ...input } = parseInput(insertPipelineStageSchema, req.body);
+      const pipeline = await resolvePipeline(storage, pipeline_id);
+      const stage = await createPipelineStage(storage, pipeline.id, input);
+      res.status(201).json({ success: true, stage });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear la etapa");
+    }
+  });
+
+  app.post("/api/pipeline-stages/reorder", async (req, res) => {
+    try {
+      assertCan(req.user, "pipeline:configure");
+      const { ids } = parseInput(stageOrderSchema, req.body);
+      res.json({ success: true, stages: await reorderPipelineStages(storage, ids) });
+    } catch (error) {
+      sendError(res, error, "No se pudo reordenar el pipeline");
+    }
+  });
+
+  app.patch("/api/pipeline-stages/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "pipeline:configure");
+      const stage = await updatePipelineStage(storage, idParam(req), parseInput(updatePipelineStageSchema, req.body));
+      res.json({ success: true, stage });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la etapa");
+    }
+  });
+
+  /* Users */
+  app.get("/api/users", async (req, res) => {
+    try {
+      assertCan(req.user, "users:view");
+      const scope = await ownerScope(req);
+      const users = (await storage.getUsers())
+        .filter((user) => scope.kind === "all" || scope.ownerIds.includes(user.id))
+        .map(toPublicUser);
+      res.json({ success: true, users });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los usuarios");
+    }
+  });
+
+  app.patch("/api/users/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "users:manage");
+      const user = await updateUserProfile(storage, idParam(req), parseInput(userPatchSchema, req.body));
+      res.json({ success: true, user: toPublicUser(user) });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar el usuario");
+    }
+  });
+
+  /* Imports */
+  // Cada usuario ve sus importaciones; el job corre en segundo plano y se consulta por id
+  const ownImportJob = async (req: Request) => {
+    const job = await getImportJob(storage, idParam(req));
+    if (job.created_by !== req.user?.id) assertInScope(await ownerScope(req), job.created_by);
+    return job;
+  };
+
+  app.get("/api/imports", async (req, res) => {
+    try {
+      const { limit } = parseInput(z.object({ limit: limitParam }), req.query);
+      const jobs = await storage.getImportJobs({ created_by: req.user!.id, limit: limit ?? 20 });
+      res.json({ success: true, jobs });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las importaciones");
+    }
+  });
+
+  // El CSV/TSV viaja entero en el body: se lee con el límite grande solo si quien sube puede importar algo
+  const canImport = (req: Request, res: Response, next: NextFunction) => {
+    if (IMPORT_ENTITIES.some((entity) => can(req.user?.role, IMPORT_PERMISSIONS[entity]))) return next();
+    sendError(res, new ForbiddenError(), "No se pudo crear la importación");
+  };
+
+  app.post("/api/imports", canImport, express.json({ limit: "25mb" }), async (req, res) => {
+    try {
+      const input = parseInput(importJobSchema, req.body);
+      assertCan(req.user, IMPORT_PERMISSIONS[input.entity]);
+      const job = await createImportJob(storage, input, actorId(req));
+      void startImportJob(storage, job.id);
+      res.status(201).json({ success: true, job });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear la importación");
+    }
+  });
+
+  app.get("/api/imports/:id", async (req, res) => {
+    try {
+      res.json({ success: true, job: await ownImportJob(req) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar la importación");
+    }
+  });
+
+  app.get("/api/imports/:id/rows", async (req, res) => {
+    try {
+      const filters = parseInput(importRowFiltersSchema, req.query);
+      const job = await ownImportJob(req);
+      res.json({ success: true, rows: await storage.getImportJobRows(job.id, filters) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las filas de la importación");
+    }
+  });
+
+  app.post("/api/imports/:id/cancel", async (req, res) => {
+    try {
+      const job = await ownImportJob(req);
+      res.json({ success: true, job: await cancelImportJob(storage, job.id) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cancelar la importación");
+    }
+  });
+
+  app.post("/api/imports/:id/resume", async (req, res) => {
+    try {
+      const job = await ownImportJob(req);
+      assertCan(req.user, IMPORT_PERMISSIONS[job.entity]);
+      res.json({ success: true, job: await resumeImportJob(storage, job.id) });
+    } catch (error) {
+      sendError(res, error, "No se pudo reanudar la importación");
+    }
+  });
+
+  /* Saved views */
+  // Cada usuario ve las suyas y las compartidas; solo quien la creó la cambia
+  app.get("/api/saved-views", async (req, res) => {
+    try {
+      const { list } = parseInput(z.object({ list: z.enum(SAVED_VIEW_LISTS).optional() }), req.query);
+      res.json({ success: true, views: await listSavedViews(storage, req.user!.id, list) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las vistas");
+    }
+  });
+
+  app.post("/api/saved-views", async (req, res) => {
+    try {
+      const view = await createSavedView(storage, parseInput(savedViewBodySchema, req.body), req.user!.id);
+      res.status(201).json({ success: true, view });
+    } catch (error) {
+      sendError(res, error, "No se pudo guardar la vista");
+    }
+  });
+
+  app.put("/api/saved-views/default", async (req, res) => {
+    try {
+      const { list, view_id } = parseInput(savedViewDefaultSchema, req.body);
+      await setDefaultSavedView(storage, req.user!.id, list, view_id);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo cambiar la vista por defecto");
+    }
+  });
+
+  app.patch("/api/saved-views/:id", async (req, res) => {
+    try {
+      const patch = parseInput(savedViewPatchSchema, req.body);
+      const view = await updateSavedView(storage, idParam(req), patch, req.user!.id);
+      res.json({ success: true, view });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la vista");
+    }
+  });
+
+  app.delete("/api/saved-views/:id", async (req, res) => {
+    try {
+      await deleteSavedView(storage, idParam(req), req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la vista");
+    }
+  });
+
+  /* Custom fields */
+  // Todos los usuarios los leen para pintar formularios y fichas; solo el Admin los define
+  app.get("/api/custom-fields", async (req, res) => {
+    try {
+      const { entity } = parseInput(z.object({ entity: z.enum(CUSTOM_FIELD_ENTITIES).optional() }), req.query);
+      res.json({ success: true, fields: await listCustomFields(storage, entity) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los campos personalizados");
+    }
+  });
+
+  app.post("/api/custom-fields", async (req, res) => {
+    try {
+      assertCan(req.user, "fields:configure");
+      const field = await createCustomField(storage, parseInput(insertCustomFieldSchema, req.body));
+      res.status(201).json({ success: true, field });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear el campo");
+    }
+  });
+
+  app.post("/api/custom-fields/reorder", async (req, res) => {
+    try {
+      assertCan(req.user, "fields:configure");
+      const { ids } = parseInput(stageOrderSchema, req.body);
+      res.json({ success: true, fields: await reorderCustomFields(storage, ids) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron reordenar los campos");
+    }
+  });
+
+  app.patch("/api/custom-fields/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "fields:configure");
+      const field = await updateCustomField(storage, idParam(req), parseInput(updateCustomFieldSchema, req.body));
+      res.json({ success: true, field });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar el campo");
+    }
+  });
+
+  app.delete("/api/custom-fields/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "fields:configure");
+      await deleteCustomField(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar el campo");
+    }
+  });
+
+  /* Tags */
+  // Etiquetar un registro es editarlo y pide su permiso de edición; crearlas y editarlas es de Manager y Admin
+  app.get("/api/tags", async (_req, res) => {
+    try {
+      res.json({ success: true, tags: await listTags(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las etiquetas");
+    }
+  });
+
+  app.post("/api/tags", async (req, res) => {
+    try {
+      assertCan(req.user, "tags:manage");
+      const tag = await createTag(storage, parseInput(insertTagSchema, req.body));
+      res.status(201).json({ success: true, tag });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear la etiqueta");
+    }
+  });
+
+  app.patch("/api/tags/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "tags:manage");
+      const tag = await updateTag(storage, idParam(req), parseInput(updateTagSchema, req.body));
+      res.json({ success: true, tag });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la etiqueta");
+    }
+  });
+
+  app.delete("/api/tags/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "tags:manage");
+      await deleteTag(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la etiqueta");
+    }
+  });
+
+  /* Automations */
+  // Solo Admin: las reglas actúan sobre todos los registros, sin mirar de quién son
+  app.get("/api/automations", async (req, res) => {
+    try {
+      assertCan(req.user, "automations:manage");
+      res.json({ success: true, rules: await listAutomationRules(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las automatizaciones");
+    }
+  });
+
+  app.post("/api/automations", async (req, res) => {
+    try {
+      assertCan(req.user, "automations:manage");
+      const input = parseInput(insertAutomationRuleSchema, req.body);
+      const rule = await createAutomationRule(storage, input, actorId(req));
+      res.status(201).json({ success: true, rule });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear la automatización");
+    }
+  });
+
+  app.patch("/api/automations/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "automations:manage");
+      const patch = parseInput(updateAutomationRuleSchema, req.body);
+      res.json({ success: true, rule: await updateAutomationRule(storage, idParam(req), patch) });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la automatización");
+    }
+  });
+
+  app.delete("/api/automations/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "automations:manage");
+      await deleteAutomationRule(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la automatización");
+    }
+  });
+
+  app.get("/api/automations/:id/runs", async (req, res) => {
+    try {
+      assertCan(req.user, "automations:manage");
+      const { limit } = parseInput(z.object({ limit: limitParam }), req.query);
+      res.json({ success: true, runs: await listAutomationRuns(storage, idParam(req), limit) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el registro de ejecuciones");
+    }
+  });
+
+  /* Alert rules */
+  // Todos las necesitan para ver las alertas de sus deals; configurarlas es de Admin
+  app.get("/api/alert-rules", async (_req, res) => {
+    try {
+      res.json({ success: true, rules: await listDealAlertRules(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las reglas de alerta");
+    }
+  });
+
+  app.patch("/api/alert-rules/:rule", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      const rule = parseInput(dealAlertRuleSchema, req.params.rule);
+      const patch = parseInput(updateDealAlertRuleSchema, req.body);
+      res.json({ success: true, rule: await updateDealAlertRule(storage, rule, patch, actorId(req)) });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar la regla de alerta");
+    }
+  });
+
+  /* Deal alerts */
+  app.get("/api/deal-alerts", async (req, res) => {
+    try {
+      res.json({ success: true, alerts: await listDealAlerts(storage, scopeFilter(await ownerScope(req))) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las alertas");
+    }
+  });
+
+  app.get("/api/deal-alerts/report", async (req, res) => {
+    try {
+      assertCan(req.user, "metrics:team");
+      const query = parseInput(alertReportQuerySchema, req.query);
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, report: await getDealAlertReport(storage, { ...query, ...scope }) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el historial de alertas");
+    }
+  });
+
+  // Cada usuario elige qué alertas ve en su dashboard
+  app.put("/api/deal-alerts/preferences", async (req, res) => {
+    try {
+      const { sensitivity } = parseInput(alertPreferencesSchema, req.body);
+      const user = await saveAlertSensitivity(storage, req.user!.id, sensitivity);
+      res.json({ success: true, user: toPublicUser(user) });
+    } catch (error) {
+      sendError(res, error, "No se pudo guardar la preferencia de alertas");
+    }
+  });
+
+  /* Alert channels */
+  // Solo Admin: las URLs de los webhooks son credenciales y los canales reciben alertas de todos los deals
+  app.get("/api/alert-channels", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      res.json({ success: true, channels: await listAlertChannels(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar los canales de alertas");
+    }
+  });
+
+  app.post("/api/alert-channels", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      const input = parseInput(insertAlertChannelSchema, req.body);
+      const channel = await createAlertChannel(storage, input, actorId(req));
+      res.status(201).json({ success: true, channel });
+    } catch (error) {
+      sendError(res, error, "No se pudo crear el canal de alertas");
+    }
+  });
+
+  app.patch("/api/alert-channels/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      const patch = parseInput(updateAlertChannelSchema, req.body);
+      res.json({ success: true, channel: await updateAlertChannel(storage, idParam(req), patch) });
+    } catch (error) {
+      sendError(res, error, "No se pudo actualizar el canal de alertas");
+    }
+  });
+
+  app.delete("/api/alert-channels/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      await deleteAlertChannel(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar el canal de alertas");
+    }
+  });
+
+  app.post("/api/alert-channels/:id/send", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      res.json({ success: true, delivery: await sendAlertChannel(storage, idParam(req)) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron enviar las alertas al canal");
+    }
+  });
+
+  app.get("/api/alert-channels/:id/deliveries", async (req, res) => {
+    try {
+      assertCan(req.user, "alerts:configure");
+      const { limit } = parseInput(z.object({ limit: limitParam }), req.query);
+      res.json({ success: true, deliveries: await listAlertDeliveries(storage, idParam(req), limit) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el registro de envíos");
+    }
+  });
+
+  /* SLA policies */
+  // Todos las necesitan para calcular el SLA y el riesgo de sus deals; cambiarlas es de Manager
+  app.get("/api/sla-policies", async (_req, res) => {
+    try {
+      res.json({ success: true, policies: await listSlaPolicies(storage) });
+    } catch (error) {
+      sendError(res, error, "No se pudieron cargar las políticas de SLA");
+    }
+  });
+
+  app.put("/api/sla-policies", async (req, res) => {
+    try {
+      assertCan(req.user, "sla:configure");
+      const input = parseInput(slaPolicyInputSchema, req.body);
+      res.json({ success: true, policy: await saveSlaPolicy(storage, input, actorId(req)) });
+    } catch (error) {
+      sendError(res, error, "No se pudo guardar la política de SLA");
+    }
+  });
+
+  app.delete("/api/sla-policies/:id", async (req, res) => {
+    try {
+      assertCan(req.user, "sla:configure");
+      await deleteSlaPolicy(storage, idParam(req));
+      res.json({ success: true });
+    } catch (error) {
+      sendError(res, error, "No se pudo eliminar la política de SLA");
+    }
+  });
+
+  app.get("/api/sla-escalations", async (req, res) => {
+    try {
+      assertCan(req.user, "sla:configure");
+      const { limit, deal_id } = parseInput(z.object({ limit: limitParam, deal_id: idFilter }), req.query);
+      const scope = scopeFilter(await ownerScope(req));
+      res.json({ success: true, escalations: await listSlaEscalations(storage, { limit, deal_id, ...scope }) });
+    } catch (error) {
+      sendError(res, error, "No se pudo cargar el registro de escalados");
+    }
+  });
+
+  /* Exports */
+  // Se responde por partes: con miles de filas el fichero no se monta en memoria ni en el navegador
+  app.get("/api/exports/:entity", async (req, res) => {
+    let prepared: PreparedExport;
+    try {
+      const entity = parseInput(z.enum(EXPORT_ENTITIES), req.params.entity);
+      const { format, lang, columns, ...filters } = parseInput(exportQuerySchema, req.query);
+      const scope = await ownerScope(req);
+      if (filters.owner_id) assertInScope(scope, filters.owner_id);
+      prepared = await prepareExport(
+        storage,
+        { entity, format, language: lang, columns, filters },
+        scopeFilter(scope),
+      );
+    } catch (error) {
+      sendError(res, error, "No se pudo preparar la exportación");
+      return;
+    }
+
+    res.setHeader("Content-Type", prepared.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${prepared.fileName}"`);
+    res.setHeader("X-Export-Rows", String(prepared.rows));
+    try {
+      await prepared.write(res);
+      res.end();
+    } catch (error) {
+      // Las cabeceras ya salieron: solo queda cortar la descarga
+      console.error("[CRM] Exportación interrumpida", error);
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  });
+}
@@ -0,0 +1,142 @@
+import type { NewSavedView, SavedView } from "@shared/schema";
+import {
+  savedViewConfigSchema,
+  validateViewConfig,
+  type SavedViewConfig,
+  type SavedViewList,
+} from "@shared/savedViews";
+import { normalizeStageName } from "@shared/pipelineStages";
+import type { IStorage } from "../storage";
+import { CrmError, ForbiddenError, NotFoundError } from "./errors";
+
+/** Vista tal y como la ve un usuario: con la configuración leída y si es su vista por defecto. */
+export interface UserSavedView extends Omit<SavedView, "config"> {
+  config: SavedViewConfig;
+  is_default: boolean;
+}
+
+export interface SavedViewInput {
+  list: SavedViewList;
+  name: string;
+  shared?: boolean;
+  config: SavedViewConfig;
+}
+
+export type SavedViewPatch = Partial<Omit<SavedViewInput, "list">>;
+
+function toUserView(view: SavedView, defaultIds: string[]): UserSavedView {
+  const config = savedViewConfigSchema.parse(JSON.parse(view.config));
+  return { ...view, config, is_default: defaultIds.includes(view.id) };
+}
+
+function serializeConfig(list: SavedViewList, config: SavedViewConfig): string {
+  const errors = validateViewConfig(list, config);
+  if (errors.length) throw new CrmError(errors.join(". "));
+  return JSON.stringify(config);
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new CrmError("La vista necesita un nombre");
+  return trimmed;
+}
+
+// Los nombres se comparan sin tildes ni mayúsculas dentro de las vistas del usuario en el listado
+async function assertUniqueName(
+  storage: IStorage,
+  view: Pick<SavedView, "list" | "owner_id">,
+  name: string,
+  exceptId?: string,
+) {
+  const key = normalizeStageName(name);
+  const existing = (await storage.getSavedViews({ list: view.list })).find(
+    (candidate) => candidate.owner_id === view.owner_id && normalizeStageName(candidate.name) === key,
+  );
+  if (existing && existing.id !== exceptId) throw new CrmError(`Ya tienes una vista llamada "${existing.name}"`, 409);
+}
+
+/** Vistas del usuario y compartidas por el equipo, por nombre. */
+export async function listSavedViews(
+  storage: IStorage,
+  userId: string,
+  list?: SavedViewList,
+): Promise<UserSavedView[]> {
+  const [views, defaults] = await Promise.all([
+    storage.getSavedViews({ list, visible_to: userId }),
+    storage.getSavedViewDefaults(userId),
+  ]);
+  const defaultIds = defaults.map((entry) => entry.view_id);
+  return views.map((view) => toUserView(view, defaultIds));
+}
+
+/** Vista visible para el usuario: la suya o una compartida. */
+export async function getSavedView(storage: IStorage, id: string, userId: string): Promise<SavedView> {
+  const view = await storage.getSavedView(id);
+  if (!view || (!view.shared && view.owner_id !== userId)) throw new NotFoundError("Saved view");
+  return view;
+}
+
+async function getOwnSavedView(storage: IStorage, id: string, userId: string): Promise<SavedView> {
+  const view = await getSavedView(storage, id, userId);
+  if (view.owner_id !== userId) throw new ForbiddenError("Solo quien creó la vista puede cambiarla");
+  return view;
+}
+
+async function userDefaultIds(storage: IStorage, userId: string): Promise<string[]> {
+  return (await storage.getSavedViewDefaults(userId)).map((entry) => entry.view_id);
+}
+
+export async function createSavedView(
+  storage: IStorage,
+  input: SavedViewInput,
+  ownerId: string,
+): Promise<UserSavedView> {
+  const name = cleanName(input.name);
+  await assertUniqueName(storage, { list: input.list, owner_id: ownerId }, name);
+  const view = await storage.createSavedView({
+    list: input.list,
+    name,
+    owner_id: ownerId,
+    shared: input.shared ?? false,
+    config: serializeConfig(input.list, input.config),
+  });
+  return toUserView(view, []);
+}
+
+export async function updateSavedView(
+  storage: IStorage,
+  id: string,
+  patch: SavedViewPatch,
+  userId: string,
+): Promise<UserSavedView> {
+  const current = await getOwnSavedView(storage, id, userId);
+  const changes: Partial<NewSavedView> = {};
+  if (patch.name !== undefined) {
+    changes.name = cleanName(patch.name);
+    await assertUniqueName(storage, current, changes.name, id);
+  }
+  if (patch.shared !== undefined) changes.shared = patch.shared;
+  if (patch.config) changes.config = serializeConfig(current.list, patch.config);
+  const view = await storage.updateSavedView(id, changes);
+  if (!view) throw new NotFoundError("Saved view");
+  return toUserView(view, await userDefaultIds(storage, userId));
+}
+
+export async function deleteSavedView(storage: IStorage, id: string, userId: string): Promise<void> {
+  await getOwnSavedView(storage, id, userId);
+  await storage.deleteSavedView(id);
+}
+
+/** Fija la vista que el usuario abre por defecto en el listado; con null vuelve a la vista sin filtros. */
+export async function setDefaultSavedView(
+  storage: IStorage,
+  userId: string,
+  list: SavedViewList,
+  viewId: string | null,
+): Promise<void> {
+  if (viewId) {
+    const view = await getSavedView(storage, viewId, userId);
+    if (view.list !== list) throw new CrmError("La vista es de otro listado");
+  }
+  await storage.setSavedViewDefault(userId, list, viewId);
+}
@@ -0,0 +1,251 @@
+import type { NewCompany, NewDeal, NewTask } from "@shared/schema";
+import { computeInactivityDays, type IStorage } from "../storage";
+import { getDefaultPipeline } from "./pipelines";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Carga el mismo dataset de ejemplo que el modo demo del cliente.
+ * Los deals, contactos y tareas quedan a nombre de `ownerId` para que entren en su alcance.
+ */
+export async function seedDemo(storage: IStorage, ownerId: string | null = null): Promise<void> {
+  const now = new Date();
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * dayMs);
+  const atTime = (dayOffset: number, hours: number, minutes: number) =>
+    new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset, hours, minutes);
+
+  const companies: NewCompany[] = [
+    {
+      name: "DataFlow Systems",
+      industry: "Tecnología",
+      size: "Enterprise",
+      revenue_estimate: 50000000,
+      location: "Madrid, España",
+      website: "https://dataflow.com",
+      description: "Empresa líder en soluciones de datos y analytics",
+    },
+    {
+      name: "InnovaCorp Solutions",
+      industry: "Consultoría",
+      size: "Large",
+      revenue_estimate: 15000000,
+      location: "Barcelona, España",
+      website: "https://innovacorp.com",
+      description: "Consultoría especializada en transformación digital",
+    },
+    {
+      name: "RetailMax Inc.",
+      industry: "Retail",
+      size: "Medium",
+      revenue_estimate: 8000000,
+      location: "Valencia, España",
+      website: "https://retailmax.com",
+      description: "Cadena de retail con presencia nacional",
+    },
+    {
+      name: "TechStart Ltd.",
+      industry: "Startup",
+      size: "Small",
+      revenue_estimate: 2000000,
+      location: "Sevilla, España",
+      website: "https://techstart.com",
+      description: "Startup tecnológica en fase de crecimiento",
+    },
+    {
+      name: "MegaCorp Industries",
+      industry: "Manufacturing",
+      size: "Enterprise",
+      revenue_estimate: 100000000,
+      location: "Bilbao, España",
+      website: "https://megacorp.com",
+      description: "Multinacional del sector industrial",
+    },
+  ];
+
+  const tasks: NewTask[] = [
+    { title: "Llamar a cliente potencial TechCorp", due_at: atTime(0, 15, 30), state: "To Do", priority: "Media" },
+    { title: "Revisar propuesta de ventas Q4", due_at: atTime(1, 9, 0), state: "To Do", priority: "Alta" },
+    { title: "Actualizar documentación del producto", due_at: atTime(5, 16, 0), state: "To Do", priority: "Baja" },
+    {
+      title: "Seguimiento TechCorp",
+      description: "Seguimiento con Laura Martínez - TechCorp",
+      state: "To Do",
+      priority: "Media",
+      due_at: daysFromNow(2),
+      notes: "Reunión de seguimiento para propuesta de analytics",
+    },
+    {
+      title: "Revisar propuesta StartupXYZ",
+      description: "Revisar propuesta vencida - StartupXYZ",
+      state: "To Do",
+      priority: "Alta",
+      due_at: daysFromNow(-3),
+      notes: "URGENTE: Propuesta vencida hace 3 días",
+    },
+    {
+      title: "Preparar presentación GlobalCorp",
+      description: "Preparar presentación ejecutiva - GlobalCorp",
+      state: "Doing",
+      priority: "Alta",
+      due_at: daysFromNow(1),
+      notes: "Presentación para el comité ejecutivo",
+    },
+    {
+      title: "Llamada de reactivación LocalBiz",
+      description: "Llamada de reactivación - LocalBiz",
+      state: "To Do",
+      priority: "Baja",
+      due_at: daysFromNow(7),
+      notes: "Contacto inactivo hace 30 días",
+    },
+  ];
+
+  const deals: NewDeal[] = [
+    {
+      title: "Software CRM Enterprise",
+      company: "DataFlow Systems",
+      amount: 85000,
+      stage: "Cierre",
+      probability: 90,
+      target_close_date: new Date(now.getFullYear(), now.getMonth(), 15),
+      next_step: "Firmar contrato",
+      last_activity: now,
+    },
+    {
+      title: "Implementación ERP - InnovaCorp",
+      company: "InnovaCorp Solutions",
+      amount: 45000,
+      stage: "Propuesta",
+      probability: 70,
+      target_close_date: daysFromNow(-5),
+      next_step: null,
+      last_activity: daysFromNow(-5),
+    },
+    {
+      title: "Consultoría Digital - RetailMax",
+      company: "RetailMax Inc.",
+      amount: 28500,
+      stage: "Negociación",
+      probability: 85,
+      target_close_date: daysFromNow(-5),
+      next_step: "Reunión de seguimiento",
+      last_activity: daysFromNow(-2),
+    },
+    {
+      title: "Sistema de Inventario",
+      company: "TechStart Ltd.",
+      amount: 15000,
+      stage: "Cierre",
+      probability: 100,
+      target_close_date: new Date(now.getFullYear(), now.getMonth() - 1, 10),
+      next_step: "Implementación",
+      status: "Won",
+      close_reason: "Contrato firmado",
+      last_activity: daysFromNow(-1),
+    },
+    {
+      title: "Proyecto de Transformación Digital",
+      company: "MegaCorp Industries",
+      amount: 120000,
+      stage: "Calificación",
+      probability: 60,
+      target_close_date: daysFromNow(30),
+      next_step: "Presentación ejecutiva",
+      last_activity: now,
+    },
+    {
+      title: "Solución de Analytics Avanzada",
+      company: "TechCorp Analytics",
+      amount: 25000,
+      stage: "Prospección",
+      probability: 20,
+      target_close_date: daysFromNow(60),
+      next_step: "Primera reunión",
+      last_activity: daysFromNow(-10),
+    },
+    {
+      title: "Integración API - StartupXYZ",
+      company: "StartupXYZ",
+      amount: 8000,
+      stage: "Negociación",
+      probability: 60,
+      target_close_date: daysFromNow(-5),
+      next_step: "Revisar propuesta",
+      risk_level: "Alto",
+      last_activity: daysFromNow(-15),
+    },
+    {
+      title: "Consultoría Estratégica - GlobalCorp",
+      company: "GlobalCorp International",
+      amount: 150000,
+      stage: "Propuesta",
+      probability: 80,
+      target_close_date: daysFromNow(45),
+      next_step: "Presentación ejecutiva",
+      last_activity: daysFromNow(-1),
+    },
+    {
+      title: "Sistema de Gestión - LocalBiz",
+      company: "LocalBiz S.L.",
+      amount: 12000,
+      stage: "Calificación",
+      probability: 40,
+      target_close_date: daysFromNow(30),
+      next_step: null,
+      risk_level: "Alto",
+      last_activity: daysFromNow(-20),
+    },
+  ];
+
+  const contacts = [
+    { name: "Juan Pérez", email: "juan.perez@dataflow.com", company: "DataFlow Systems", last_activity: now },
+    { name: "María García", email: "maria.garcia@innovacorp.com", company: "InnovaCorp Solutions", last_activity: daysFromNow(-3) },
+    { name: "Carlos López", email: "carlos.lopez@retailmax.com", company: "RetailMax Inc.", last_activity: daysFromNow(-1) },
+    { name: "Ana Martínez", email: "ana.martinez@techstart.com", company: "TechStart Ltd.", last_activity: daysFromNow(-7) },
+    { name: "Roberto Silva", email: "roberto.silva@megacorp.com", company: "MegaCorp Industries", last_activity: now },
+    { name: "Laura Martínez", email: "laura.martinez@techcorp.com", company: "TechCorp Analytics", last_activity: daysFromNow(-5) },
+    { name: "David Chen", email: "david.chen@startupxyz.com", company: "StartupXYZ", last_activity: daysFromNow(-20) },
+    { name: "Sarah Johnson", email: "sarah.johnson@globalcorp.com", company: "GlobalCorp International", last_activity: now },
+    { name: "Miguel Rodríguez", email: "miguel.rodriguez@localbiz.com", company: "LocalBiz S.L.", last_activity: daysFromNow(-30) },
+  ];
+
+  for (const company of companies) {
+    if (!(await storage.getCompanyByName(company.name))) {
+      await storage.createCompany(company);
+    }
+  }
+
+  for (const task of tasks) {
+    await storage.createTask({ ...task, assigned_to: ownerId });
+  }
+
+  const pipeline = await getDefaultPipeline(storage);
+  for (const deal of deals) {
+    // Los deals de ejemplo llegaron a su etapa con su última actividad
+    const company = deal.company
+      ? (await storage.getCompanyByName(deal.company)) ?? (await storage.createCompany({ name: deal.company }))
+      : undefined;
+    const created = await storage.createDeal({
+      ...deal,
+      company_id: company?.id,
+      pipeline_id: pipeline.id,
+      owner_id: ownerId,
+      stage_entered_at: deal.last_activity ?? now,
+      inactivity_days: computeInactivityDays(deal.last_activity, now.getTime()),
+    });
+    await storage.createDealStageTransition({
+      deal_id: created.id,
+      pipeline_id: pipeline.id,
+      to_stage: created.stage,
+      to_status: created.status ?? "Open",
+      to_probability: created.probability,
+      changed_at: deal.last_activity ?? now,
+    });
+  }
+
+  for (const { company, ...contact } of contacts) {
+    const companyRecord =
+      (await storage.getCompanyByName(company)) ?? (await storage.createCompany({ name: company }));
+    await storage.createContact({ ...contact, company_id: companyRecord.id, owner_id: ownerId });
+  }
+}
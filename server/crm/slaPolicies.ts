@@ -0,0 +1,233 @@
+import type { Deal, PipelineStage, SlaEscalation, SlaPolicyRow } from "@shared/schema";
+import { findStage } from "@shared/pipelineStages";
+import {
+  dueEscalationSteps,
+  resolveSlaPolicy,
+  slaBreachDays,
+  slaDaysFor,
+  SLA_POLICY_FIELD_KEYS,
+  validateSlaPolicy,
+  validateSlaPolicyOverride,
+  type SlaEscalationStep,
+  type SlaPolicy,
+  type SlaPolicyInput,
+  type SlaPolicyOverride,
+} from "@shared/slaPolicies";
+import { computeInactivityDays, type IStorage, type SlaEscalationFilters } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+import { createTask } from "./tasks";
+import { logTimelineEntry } from "./timeline";
+
+/** Cada cuánto se buscan deals fuera de SLA. */
+export const SLA_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** La política general (sin etapa) y las de cada etapa, tal y como están guardadas. */
+export async function listSlaPolicies(storage: IStorage): Promise<SlaPolicyRow[]> {
+  return storage.getSlaPolicies();
+}
+
+function overrideOf(input: SlaPolicyInput): SlaPolicyOverride {
+  return Object.fromEntries(SLA_POLICY_FIELD_KEYS.map((key) => [key, input[key] ?? null]));
+}
+
+/**
+ * Sustituye la política de un alcance (la general o la de una etapa); los
+ * valores vacíos heredan. Se valida la política ya resuelta, y al tocar la
+ * general también la de cada etapa que hereda de ella. Una etapa sin ningún
+ * valor propio deja de tener política.
+ */
+export async function saveSlaPolicy(
+  storage: IStorage,
+  input: SlaPolicyInput,
+  actorId: string | null = null,
+): Promise<SlaPolicyRow | null> {
+  const stageId = input.stage_id;
+  if (stageId && !(await storage.getPipelineStage(stageId))) {
+    throw new CrmError(`Etapa desconocida: ${stageId}`);
+  }
+  const override = overrideOf(input);
+  const errors = validateSlaPolicyOverride(override);
+  if (errors.length) throw new CrmError(errors.join(". "));
+
+  const policies = await storage.getSlaPolicies();
+  const current = policies.find((policy) => policy.stage_id === stageId);
+  const scopes = [...policies.filter((policy) => policy !== current), { ...override, stage_id: stageId }];
+  const checked = stageId ? [stageId] : [null, ...policies.flatMap((policy) => policy.stage_id ?? [])];
+  const stages = stageId ? [] : await storage.getPipelineStages();
+  for (const scope of checked) {
+    const problems = validateSlaPolicy(resolveSlaPolicy(scopes, scope));
+    if (!problems.length) continue;
+    const stage = scope && scope !== stageId ? stages.find((candidate) => candidate.id === scope) : undefined;
+    throw new CrmError(stage ? `Etapa ${stage.name}: ${problems.join(". ")}` : problems.join(". "));
+  }
+
+  const empty = SLA_POLICY_FIELD_KEYS.every((key) => override[key] == null);
+  if (stageId && empty) {
+    if (current) await storage.deleteSlaPolicy(current.id);
+    return null;
+  }
+  if (current) {
+    const updated = await storage.updateSlaPolicy(current.id, { ...override, updated_by: actorId });
+    if (!updated) throw new NotFoundError("SlaPolicy");
+    return updated;
+  }
+  return storage.createSlaPolicy({ ...override, stage_id: stageId, updated_by: actorId });
+}
+
+/** Quita la política de una etapa: vuelve a heredar la general. */
+export async function deleteSlaPolicy(storage: IStorage, id: string): Promise<void> {
+  const policy = (await storage.getSlaPolicies()).find((candidate) => candidate.id === id);
+  if (!policy) throw new NotFoundError("SlaPolicy");
+  if (!policy.stage_id) throw new CrmError("La política general no se puede borrar");
+  await storage.deleteSlaPolicy(id);
+}
+
+export async function listSlaEscalations(
+  storage: IStorage,
+  filters: SlaEscalationFilters = {},
+): Promise<SlaEscalation[]> {
+  return storage.getSlaEscalations(filters);
+}
+
+export interface DealPolicyMatch {
+  stage: PipelineStage | undefined;
+  policy: SlaPolicy;
+}
+
+/**
+ * Carga etapas y políticas una sola vez y devuelve con qué se resuelve la
+ * etapa de cada deal (en su pipeline o, sin él, en el por defecto) y su política.
+ */
+export async function loadDealPolicies(storage: IStorage): Promise<(deal: Deal) => DealPolicyMatch> {
+  const [policies, pipelines, stages] = await Promise.all([
+    storage.getSlaPolicies(),
+    storage.getPipelines(),
+    storage.getPipelineStages(),
+  ]);
+  const defaultPipeline = pipelines.find((pipeline) => pipeline.is_default) ?? pipelines[0];
+  return (deal) => {
+    const pipelineId = deal.pipeline_id ?? defaultPipeline?.id;
+    const stage = findStage(
+      stages.filter((candidate) => candidate.pipeline_id === pipelineId),
+      deal.stage,
+    );
+    return { stage, policy: resolveSlaPolicy(policies, stage?.id) };
+  };
+}
+
+interface Breach {
+  deal: Deal;
+  lastActivity: Date;
+  inactivity: number;
+  slaDays: number;
+  breachDays: number;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+async function userName(storage: IStorage, id: string | null | undefined): Promise<string | null> {
+  if (!id) return null;
+  const user = await storage.getUser(id);
+  return user ? (user.full_name ?? user.username) : null;
+}
+
+/** Ejecuta un paso de la escalera y lo deja registrado. */
+async function escalate(
+  storage: IStorage,
+  breach: Breach,
+  step: SlaEscalationStep,
+  now: Date,
+): Promise<SlaEscalation> {
+  const { deal } = breach;
+  const summary = `${deal.title} lleva ${plural(breach.inactivity, "día")} sin actividad (SLA ${breach.slaDays})`;
+  let notifiedUserId: string | null = null;
+  let taskId: string | null = null;
+  let description: string;
+
+  if (step === "owner") {
+    notifiedUserId = deal.owner_id ?? null;
+    const owner = await userName(storage, notifiedUserId);
+    description = owner ? `${summary}: aviso a ${owner}` : `${summary}: el deal no tiene owner`;
+  } else if (step === "manager") {
+    const owner = deal.owner_id ? await storage.getUser(deal.owner_id) : undefined;
+    notifiedUserId = owner?.manager_id ?? null;
+    const manager = await userName(storage, notifiedUserId);
+    description = manager ? `${summary}: aviso al manager ${manager}` : `${summary}: no hay manager al que escalar`;
+  } else {
+    const task = await createTask(storage, {
+      title: `Reactivar ${deal.title}`,
+      description: summary,
+      priority: "Alta",
+      due_at: now,
+      assigned_to: deal.owner_id ?? null,
+      deal_id: deal.id,
+      contact_id: deal.contact_id ?? null,
+    });
+    taskId = task.id;
+    description = `${summary}: tarea creada para reactivarlo`;
+  }
+
+  await logTimelineEntry(storage, {
+    type: "sla_escalation",
+    description,
+    entity_type: "deal",
+    entity_id: deal.id,
+    metadata: { step, breach_days: breach.breachDays, notified_user_id: notifiedUserId, task_id: taskId },
+  });
+  return storage.createSlaEscalation({
+    deal_id: deal.id,
+    step,
+    last_activity: breach.lastActivity,
+    breach_days: breach.breachDays,
+    notified_user_id: notifiedUserId,
+    task_id: taskId,
+  });
+}
+
+/**
+ * Escala los deals abiertos fuera de SLA según su política: aviso al owner,
+ * luego a su manager y por último una tarea. Cada paso se da una sola vez
+ * mientras no haya actividad nueva; con actividad nueva la escalera empieza
+ * de cero.
+ */
+export async function checkSlaBreaches(storage: IStorage, now = new Date()): Promise<SlaEscalation[]> {
+  const policyFor = await loadDealPolicies(storage);
+  const escalations: SlaEscalation[] = [];
+
+  for (const deal of await storage.getDeals({ status: "Open" })) {
+    const lastActivity = deal.last_activity ?? deal.created_at;
+    if (!lastActivity) continue;
+    const { policy } = policyFor(deal);
+    const inactivity = computeInactivityDays(lastActivity, now.getTime());
+    const slaDays = slaDaysFor(policy, deal.priority ?? "Cold");
+    const breachDays = slaBreachDays(inactivity, slaDays);
+    const steps = dueEscalationSteps(breachDays, policy);
+    if (!steps.length) continue;
+
+    const done = (await storage.getSlaEscalations({ deal_id: deal.id }))
+      .filter((escalation) => escalation.last_activity.getTime() === lastActivity.getTime())
+      .map((escalation) => escalation.step);
+    const breach = { deal, lastActivity, inactivity, slaDays, breachDays };
+    for (const step of steps) {
+      if (done.includes(step)) continue;
+      escalations.push(await escalate(storage, breach, step, now));
+    }
+  }
+  return escalations;
+}
+
+/** Revisa los SLA al arrancar y cada `SLA_CHECK_INTERVAL_MS`. */
+export function startSlaScheduler(storage: IStorage, intervalMs = SLA_CHECK_INTERVAL_MS): () => void {
+  const check = () => {
+    checkSlaBreaches(storage).catch((error) => {
+      console.error("[CRM] No se pudieron revisar los SLA de los deals", error);
+    });
+  };
+  check();
+  const timer = setInterval(check, intervalMs);
+  // El temporizador no mantiene vivo el proceso (tests, scripts)
+  timer.unref();
+  return () => clearInterval(timer);
+}
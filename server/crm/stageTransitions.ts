@@ -0,0 +1,33 @@
+import type { Deal, DealStageTransition } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+/**
+ * Registra la entrada del deal en su etapa/estado actual. Sin `previous` es la
+ * creación; con él solo se escribe si cambió la etapa, el estado o el pipeline.
+ */
+export async function recordStageTransition(
+  storage: IStorage,
+  previous: Deal | null,
+  deal: Deal,
+  actorId: string | null = null,
+): Promise<DealStageTransition | null> {
+  if (
+    previous &&
+    previous.stage === deal.stage &&
+    previous.status === deal.status &&
+    previous.pipeline_id === deal.pipeline_id
+  ) {
+    return null;
+  }
+  return storage.createDealStageTransition({
+    deal_id: deal.id,
+    pipeline_id: deal.pipeline_id,
+    from_stage: previous?.stage ?? null,
+    to_stage: deal.stage,
+    from_status: previous?.status ?? null,
+    to_status: deal.status ?? "Open",
+    from_probability: previous?.probability ?? null,
+    to_probability: deal.probability,
+    changed_by: actorId,
+  });
+}
@@ -0,0 +1,86 @@
+import type { InsertTag, NewTag, Tag, UpdateTag } from "@shared/schema";
+import {
+  cleanTagName,
+  DEFAULT_TAG_COLOR,
+  MAX_TAG_NAME,
+  MAX_TAGS_PER_RECORD,
+  removeTagId,
+  tagNameKey,
+} from "@shared/tags";
+import type { IStorage } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+
+/** Todas las etiquetas, por nombre: son comunes a deals, contactos, empresas y tareas. */
+export async function listTags(storage: IStorage): Promise<Tag[]> {
+  return storage.getTags();
+}
+
+export async function getTag(storage: IStorage, id: string): Promise<Tag> {
+  const tag = await storage.getTag(id);
+  if (!tag) throw new NotFoundError("Tag");
+  return tag;
+}
+
+/** Nombre limpio y libre: "Evento 2026" y "evento 2026" son la misma etiqueta. */
+async function resolveTagName(storage: IStorage, raw: string, currentId?: string): Promise<string> {
+  const name = cleanTagName(raw);
+  if (name.length > MAX_TAG_NAME) throw new CrmError(`El nombre admite como máximo ${MAX_TAG_NAME} caracteres`);
+  const existing = (await storage.getTags()).find(
+    (tag) => tag.id !== currentId && tagNameKey(tag.name) === tagNameKey(name),
+  );
+  if (existing) throw new CrmError(`Ya existe la etiqueta "${existing.name}"`, 409);
+  return name;
+}
+
+export async function createTag(storage: IStorage, input: InsertTag): Promise<Tag> {
+  const name = await resolveTagName(storage, input.name);
+  return storage.createTag({ name, color: input.color ?? DEFAULT_TAG_COLOR });
+}
+
+export async function updateTag(storage: IStorage, id: string, patch: UpdateTag): Promise<Tag> {
+  await getTag(storage, id);
+  const changes: Partial<NewTag> = {};
+  if (patch.name !== undefined) changes.name = await resolveTagName(storage, patch.name, id);
+  if (patch.color !== undefined) changes.color = patch.color;
+  const updated = await storage.updateTag(id, changes);
+  if (!updated) throw new NotFoundError("Tag");
+  return updated;
+}
+
+/** Borra la etiqueta y la quita de todos los registros que la llevaban. */
+export async function deleteTag(storage: IStorage, id: string): Promise<void> {
+  await getTag(storage, id);
+  for (const deal of await storage.getDeals()) {
+    if (deal.tag_ids.includes(id)) await storage.updateDeal(deal.id, { tag_ids: removeTagId(deal.tag_ids, id) });
+  }
+  for (const contact of await storage.getContacts()) {
+    if (contact.tag_ids.includes(id)) {
+      await storage.updateContact(contact.id, { tag_ids: removeTagId(contact.tag_ids, id) });
+    }
+  }
+  for (const company of await storage.getCompanies()) {
+    if (company.tag_ids.includes(id)) {
+      await storage.updateCompany(company.id, { tag_ids: removeTagId(company.tag_ids, id) });
+    }
+  }
+  for (const task of await storage.getTasks()) {
+    if (task.tag_ids.includes(id)) await storage.updateTask(task.id, { tag_ids: removeTagId(task.tag_ids, id) });
+  }
+  await storage.deleteTag(id);
+}
+
+/**
+ * Etiquetas del registro tras el alta o la edición: sin repetidas, en el
+ * orden recibido y todas existentes. Sin `input` no hay cambios (undefined).
+ */
+export async function resolveTagIds(storage: IStorage, input: string[] | undefined): Promise<string[] | undefined> {
+  if (input === undefined) return undefined;
+  const ids = Array.from(new Set(input));
+  if (ids.length > MAX_TAGS_PER_RECORD) {
+    throw new CrmError(`Como máximo ${MAX_TAGS_PER_RECORD} etiquetas por registro`);
+  }
+  const known = new Set((await storage.getTags()).map((tag) => tag.id));
+  const unknown = ids.filter((id) => !known.has(id));
+  if (unknown.length) throw new CrmError(`Etiquetas desconocidas: ${unknown.join(", ")}`);
+  return ids;
+}
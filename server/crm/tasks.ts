@@ -0,0 +1,89 @@
+import type { InsertTask, NewTask, Task, UpdateTask } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { NotFoundError } from "./errors";
+import { resolveTagIds } from "./tags";
+import { logTimelineEntry, type MutationOptions } from "./timeline";
+
+export async function getTask(storage: IStorage, id: string): Promise<Task> {
+  const task = await storage.getTask(id);
+  if (!task) throw new NotFoundError("Task");
+  return task;
+}
+
+export async function createTask(
+  storage: IStorage,
+  input: InsertTask,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<Task> {
+  const tagIds = await resolveTagIds(storage, input.tag_ids);
+  const task = await storage.createTask({
+    ...input,
+    tag_ids: tagIds ?? [],
+    due_at: input.due_at ?? null,
+    assigned_to: input.assigned_to ?? actorId,
+  });
+  if (options.skipTimeline) return task;
+  await logTimelineEntry(storage, {
+    type: "task_created",
+    description: `Nueva tarea: ${task.title}`,
+    entity_type: "task",
+    entity_id: task.id,
+    user_id: actorId,
+  });
+  return task;
+}
+
+export async function updateTask(
+  storage: IStorage,
+  id: string,
+  patch: UpdateTask,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<Task> {
+  const current = await getTask(storage, id);
+  const { tag_ids: tagIdsInput, ...fields } = patch;
+  const changes: Partial<NewTask> = { ...fields };
+  const tagIds = await resolveTagIds(storage, tagIdsInput);
+  if (tagIds) changes.tag_ids = tagIds;
+
+  const isCompleting = patch.state === "Done" && current.state !== "Done";
+  const isReopening = patch.state !== undefined && patch.state !== "Done" && current.state === "Done";
+  if (isCompleting && patch.completed_at === undefined) changes.completed_at = new Date();
+  if (isReopening && patch.completed_at === undefined) changes.completed_at = null;
+
+  const updated = await storage.updateTask(id, changes);
+  if (!updated) throw new NotFoundError("Task");
+  if (options.skipTimeline) return updated;
+
+  await logTimelineEntry(storage, {
+    type: isCompleting ? "task_completed" : isReopening ? "task_reopened" : "task_updated",
+    description: isCompleting
+      ? `Tarea completada: ${updated.title}`
+      : isReopening
+        ? `Tarea reactivada: ${updated.title}`
+        : `Tarea actualizada: ${updated.title}`,
+    entity_type: "task",
+    entity_id: id,
+    user_id: actorId,
+  });
+  return updated;
+}
+
+export async function deleteTask(
+  storage: IStorage,
+  id: string,
+  actorId: string | null = null,
+  options: MutationOptions = {},
+): Promise<void> {
+  const task = await getTask(storage, id);
+  await storage.deleteTask(id);
+  if (options.skipTimeline) return;
+  await logTimelineEntry(storage, {
+    type: "task_deleted",
+    description: `Tarea eliminada: ${task.title}`,
+    entity_type: "task",
+    entity_id: id,
+    user_id: actorId,
+  });
+}
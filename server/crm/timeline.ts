@@ -0,0 +1,32 @@
+import type { NewTimelineEntry, TimelineEntry } from "@shared/schema";
+import type { IStorage } from "../storage";
+
+export type TimelineEntityType = "deal" | "contact" | "task" | "company";
+
+export interface TimelineEvent {
+  type: string;
+  description: string;
+  entity_type: TimelineEntityType;
+  entity_id: string;
+  user_id?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+/** Las operaciones en bloque escriben una sola entrada por registro: piden a cada servicio que no registre la suya. */
+export interface MutationOptions {
+  skipTimeline?: boolean;
+  /** Lo usan las propias automatizaciones: sus cambios no disparan otras reglas. */
+  skipAutomations?: boolean;
+}
+
+export async function logTimelineEntry(storage: IStorage, event: TimelineEvent): Promise<TimelineEntry> {
+  const entry: NewTimelineEntry = {
+    type: event.type,
+    description: event.description,
+    entity_type: event.entity_type,
+    entity_id: event.entity_id,
+    user_id: event.user_id ?? null,
+    metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+  };
+  return storage.createTimelineEntry(entry);
+}
@@ -0,0 +1,25 @@
+import type { User } from "@shared/schema";
+import type { Role } from "@shared/permissions";
+import type { IStorage } from "../storage";
+import { CrmError, NotFoundError } from "./errors";
+
+export type UserPatch = {
+  role?: Role;
+  manager_id?: string | null;
+  full_name?: string | null;
+  email?: string | null;
+};
+
+export async function updateUserProfile(storage: IStorage, id: string, patch: UserPatch): Promise<User> {
+  const current = await storage.getUser(id);
+  if (!current) throw new NotFoundError("User");
+
+  if (patch.manager_id) {
+    if (patch.manager_id === id) throw new CrmError("Un usuario no puede ser su propio manager");
+    if (!(await storage.getUser(patch.manager_id))) throw new CrmError("El manager indicado no existe");
+  }
+
+  const updated = await storage.updateUser(id, patch);
+  if (!updated) throw new NotFoundError("User");
+  return updated;
+}
@@ -0,0 +1,324 @@
+import { once } from "node:events";
+import type { Writable } from "node:stream";
+import { createDeflateRaw, type DeflateRaw } from "node:zlib";
+
+// Escritor XLSX mínimo en streaming: una hoja con texto en línea (sin
+// sharedStrings), números y fechas. El ZIP se escribe con descriptores de
+// datos para no tener que conocer tamaños ni CRC antes de comprimir.
+
+export type XlsxCell = string | number | Date | null;
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+interface OpenEntry {
+  entry: ZipEntry;
+  deflate: DeflateRaw;
+  /** Resuelve cuando todo lo comprimido se ha escrito en la salida. */
+  done: Promise<unknown>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < buffer.length; i += 1) crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Fecha y hora MS-DOS fijas: el contenido no depende del reloj
+const DOS_TIME = 0;
+const DOS_DATE = ((2020 - 1980) << 9) | (1 << 5) | 1;
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+
+const EXCEL_EPOCH_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Estilos: 0 normal, 1 cabecera en negrita, 2 fecha, 3 fecha y hora
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+const DATETIME_STYLE = 3;
+
+/**
+ * Escribe respetando la contrapresión de `out`. Falla si la conexión se
+ * cierra antes de vaciarse, para no dejar la exportación esperando.
+ */
+export async function writeChunk(out: Writable, chunk: Buffer | string): Promise<void> {
+  if (out.destroyed) throw new Error("La conexión se cerró durante la exportación");
+  if (out.write(chunk)) return;
+  await new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      out.off("drain", onDrain);
+      out.off("close", onClose);
+      out.off("error", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("La conexión se cerró durante la exportación"));
+    };
+    out.on("drain", onDrain);
+    out.on("close", onClose);
+    out.on("error", onClose);
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Caracteres de control que XML 1.0 no admite
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function toExcelSerial(date: Date): number {
+  return date.getTime() / DAY_MS + EXCEL_EPOCH_DAYS;
+}
+
+/** Nombre de hoja válido: sin `[]:*?/\` y de 31 caracteres como mucho. */
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Hoja1";
+}
+
+const CONTENT_TYPES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ' +
+  'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ' +
+  'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ' +
+  'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  "</Types>";
+
+const ROOT_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" ' +
+  'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" ' +
+  'Target="xl/workbook.xml"/>' +
+  "</Relationships>";
+
+const WORKBOOK_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" ' +
+  'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ' +
+  'Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" ' +
+  'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  "</Relationships>";
+
+const STYLES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+  "</styleSheet>";
+
+function workbookXml(name: string): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName(name))}" sheetId="1" r:id="rId1"/></sheets>` +
+    "</workbook>"
+  );
+}
+
+/**
+ * Escribe un libro con una sola hoja en `out`. Las filas se comprimen según
+ * llegan; `finish` cierra la hoja y escribe el directorio central del ZIP.
+ */
+export class XlsxWriter {
+  private offset = 0;
+  private readonly entries: ZipEntry[] = [];
+  private sheet: OpenEntry | null = null;
+  private rowCount = 0;
+
+  constructor(
+    private readonly out: Writable,
+    private readonly options: { sheetName: string; dateTimeColumns?: ReadonlySet<number> },
+  ) {}
+
+  async start(headers: readonly string[]): Promise<void> {
+    await this.addFile("[Content_Types].xml", CONTENT_TYPES);
+    await this.addFile("_rels/.rels", ROOT_RELS);
+    await this.addFile("xl/workbook.xml", workbookXml(this.options.sheetName));
+    await this.addFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS);
+    await this.addFile("xl/styles.xml", STYLES);
+
+    this.sheet = await this.openEntry("xl/worksheets/sheet1.xml");
+    await this.writeSheet(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/>' +
+        "</sheetView></sheetViews><sheetData>",
+    );
+    await this.addRow(headers, HEADER_STYLE);
+  }
+
+  async addRow(cells: readonly XlsxCell[], style?: number): Promise<void> {
+    this.rowCount += 1;
+    const row = this.rowCount;
+    const xml = cells
+      .map((cell, index) => {
+        const ref = `${columnName(index)}${row}`;
+        if (cell === null || cell === undefined || cell === "") return "";
+        if (typeof cell === "number") {
+          return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : "";
+        }
+        if (cell instanceof Date) {
+          const dateStyle = this.options.dateTimeColumns?.has(index) ? DATETIME_STYLE : DATE_STYLE;
+          return `<c r="${ref}" s="${dateStyle}"><v>${toExcelSerial(cell)}</v></c>`;
+        }
+        const styleAttr = style ? ` s="${style}"` : "";
+        return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+      })
+      .join("");
+    await this.writeSheet(`<row r="${row}">${xml}</row>`);
+  }
+
+  async finish(): Promise<void> {
+    if (!this.sheet) throw new Error("XlsxWriter.start no se ha llamado");
+    await this.writeSheet("</sheetData></worksheet>");
+    await this.closeEntry(this.sheet);
+    this.sheet = null;
+    await this.writeCentralDirectory();
+  }
+
+  private write(buffer: Buffer): Promise<void> {
+    this.offset += buffer.length;
+    return writeChunk(this.out, buffer);
+  }
+
+  private async addFile(name: string, content: string): Promise<void> {
+    const entry = await this.openEntry(name);
+    await this.writeTo(entry, content);
+    await this.closeEntry(entry);
+  }
+
+  private async openEntry(name: string): Promise<OpenEntry> {
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      offset: this.offset,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+    };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(DATA_DESCRIPTOR_FLAG | UTF8_FLAG, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(DOS_TIME, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    // CRC y tamaños van en el descriptor de datos
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    // La salida marca el ritmo: la compresión se detiene hasta que `out` acepta el trozo
+    let flushed = Promise.resolve();
+    deflate.on("data", (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      deflate.pause();
+      flushed = this.write(chunk).then(
+        () => void deflate.resume(),
+        (error) => void deflate.destroy(error),
+      );
+    });
+    const done = once(deflate, "end").then(() => flushed);
+    return { entry, deflate, done };
+  }
+
+  private async writeTo(target: OpenEntry, text: string): Promise<void> {
+    const buffer = Buffer.from(text, "utf8");
+    target.entry.crc = crc32(buffer, target.entry.crc);
+    target.entry.size += buffer.length;
+    if (!target.deflate.write(buffer)) await once(target.deflate, "drain");
+  }
+
+  private writeSheet(text: string): Promise<void> {
+    if (!this.sheet) throw new Error("XlsxWriter.start no se ha llamado");
+    return this.writeTo(this.sheet, text);
+  }
+
+  private async closeEntry(target: OpenEntry): Promise<void> {
+    target.deflate.end();
+    await target.done;
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(target.entry.crc, 4);
+    descriptor.writeUInt32LE(target.entry.compressedSize, 8);
+    descriptor.writeUInt32LE(target.entry.size, 12);
+    await this.write(descriptor);
+    this.entries.push(target.entry);
+  }
+
+  private async writeCentralDirectory(): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(DATA_DESCRIPTOR_FLAG | UTF8_FLAG, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(DOS_TIME, 12);
+      header.writeUInt16LE(DOS_DATE, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+}
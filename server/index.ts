@@ -33,7 +33,9 @@ function loadEnvFile() {
 }
 
 const app = express();
-app.use(express.json());
+// La subida de importaciones lee su body (hasta 25 MB) en su propia ruta, tras autenticar y comprobar permisos
+const jsonBody = express.json();
+app.use((req, res, next) => (req.method === "POST" && req.path === "/api/imports" ? next() : jsonBody(req, res, next)));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
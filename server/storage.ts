@@ -1,53 +0,0 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
-
-// modify the interface with any CRUD methods
-// you might need
-
-export interface IStorage {
-  getUser(id: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  seedDemo(): Promise<void>;
-}
-
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-
-  constructor() {
-    this.users = new Map();
-  }
-
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
-  }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { 
-      ...insertUser, 
-      id,
-      role: insertUser.role || null,
-      email: insertUser.email || null,
-      full_name: insertUser.full_name || null,
-      created_at: new Date(),
-      updated_at: new Date()
-    };
-    this.users.set(id, user);
-    return user;
-  }
-
-  async seedDemo(): Promise<void> {
-    // This is a placeholder - in a real implementation, this would seed the database
-    // For now, we'll just log that seeding was requested
-    console.log("Demo data seeding requested");
-  }
-}
-
-export const storage = new MemStorage();
@@ -0,0 +1,1056 @@
+import type session from "express-session";
+import { and, asc, desc, eq, gte, ilike, inArray, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import type { PgColumn, PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import {
+  alert_channels,
+  alert_deliveries,
+  automation_rules,
+  automation_runs,
+  companies,
+  contacts,
+  custom_fields,
+  deal_alert_rule_settings,
+  deal_alerts,
+  deal_stage_transitions,
+  deals,
+  import_job_rows,
+  import_jobs,
+  pipelines,
+  pipeline_stages,
+  saved_view_defaults,
+  saved_views,
+  sla_escalations,
+  sla_policies,
+  tags,
+  tasks,
+  timeline_entries,
+  users,
+  type User,
+  type InsertUser,
+  type NewUser,
+  type Company,
+  type NewCompany,
+  type Contact,
+  type NewContact,
+  type Deal,
+  type NewDeal,
+  type Task,
+  type NewTask,
+  type TimelineEntry,
+  type NewTimelineEntry,
+  type Pipeline,
+  type NewPipeline,
+  type PipelineStage,
+  type NewPipelineStage,
+  type DealStageTransition,
+  type NewDealStageTransition,
+  type ImportJob,
+  type NewImportJob,
+  type ImportJobRow,
+  type NewImportJobRow,
+  type SavedView,
+  type NewSavedView,
+  type SavedViewDefault,
+  type CustomField,
+  type NewCustomField,
+  type Tag,
+  type NewTag,
+  type AutomationRule,
+  type NewAutomationRule,
+  type AutomationRun,
+  type NewAutomationRun,
+  type DealAlertRuleSetting,
+  type NewDealAlertRuleSetting,
+  type SlaPolicyRow,
+  type NewSlaPolicyRow,
+  type SlaEscalation,
+  type NewSlaEscalation,
+  type DealAlertRecord,
+  type NewDealAlertRecord,
+  type AlertChannel,
+  type NewAlertChannel,
+  type AlertDelivery,
+  type NewAlertDelivery,
+} from "@shared/schema";
+import type { CustomFieldEntity } from "@shared/customFields";
+import {
+  createMemorySessionStore,
+  type AlertDeliveryFilters,
+  type AutomationRuleFilters,
+  type AutomationRunFilters,
+  type ContactFilters,
+  type DealAlertFilters,
+  type DealFilters,
+  type DealScope,
+  type ImportJobFilters,
+  type ImportJobRowFilters,
+  type ImportJobRowPatch,
+  type IStorage,
+  type SlaEscalationFilters,
+  type SavedViewFilters,
+  type QuickMetrics,
+  type StageTransitionFilters,
+  type TaskFilters,
+  type TimelineFilters,
+  type UserFilters,
+} from "./types";
+
+/** Cualquier instancia Drizzle de Postgres (node-postgres, Neon, PGlite...). */
+export type CrmDatabase = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Postgres rechaza ids que no son uuid; los tratamos como "no encontrado" igual que MemStorage.
+function isUuid(id: string) {
+  return UUID_PATTERN.test(id);
+}
+
+// Filas por INSERT al volcar un fichero: lejos del límite de parámetros de Postgres
+const IMPORT_ROWS_BATCH = 1000;
+
+function searchPattern(term: string | undefined) {
+  const normalized = term?.trim();
+  return normalized ? `%${normalized.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+}
+
+/** Condición de alcance por propietario; una lista vacía no deja pasar ninguna fila. */
+function ownerScopeCondition(column: PgColumn, ownerIds: string[] | undefined): SQL | undefined {
+  if (!ownerIds) return undefined;
+  const ids = ownerIds.filter(isUuid);
+  return ids.length > 0 ? inArray(column, ids) : sql`false`;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(
+    private readonly db: CrmDatabase,
+    readonly sessionStore: session.Store = createMemorySessionStore(),
+  ) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [user] = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username)).limit(1);
+    return user;
+  }
+
+  async getUsers(filters: UserFilters = {}): Promise<User[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.role) conditions.push(eq(users.role, filters.role));
+    if (filters.manager_id) {
+      if (!isUuid(filters.manager_id)) return [];
+      conditions.push(eq(users.manager_id, filters.manager_id));
+    }
+    return this.db.select().from(users).where(and(...conditions)).orderBy(asc(users.username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async registerUser(insertUser: InsertUser): Promise<User> {
+    return this.db.transaction(async (tx) => {
+      // El bloqueo serializa los registros simultáneos: solo uno puede ver la tabla vacía
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+      const [user] = await tx
+        .insert(users)
+        .values({ ...insertUser, role: existing ? insertUser.role : "Admin" })
+        .returning();
+      return user;
+    });
+  }
+
+  async updateUser(id: string, patch: Partial<NewUser>): Promise<User | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [user] = await this.db
+      .update(users)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  /* Companies */
+  async getCompanies(): Promise<Company[]> {
+    return this.db.select().from(companies).orderBy(desc(companies.created_at));
+  }
+
+  async getCompany(id: string): Promise<Company | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [company] = await this.db.select().from(companies).where(eq(companies.id, id)).limit(1);
+    return company;
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const normalized = name.trim().toLowerCase();
+    const [company] = await this.db
+      .select()
+      .from(companies)
+      .where(sql`lower(${companies.name}) = ${normalized}`)
+      .limit(1);
+    return company;
+  }
+
+  async createCompany(input: NewCompany): Promise<Company> {
+    const [company] = await this.db.insert(companies).values(input).returning();
+    return company;
+  }
+
+  async updateCompany(id: string, patch: Partial<NewCompany>): Promise<Company | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [company] = await this.db
+      .update(companies)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(companies.id, id))
+      .returning();
+    return company;
+  }
+
+  async deleteCompany(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db.delete(companies).where(eq(companies.id, id)).returning({ id: companies.id });
+    return deleted.length > 0;
+  }
+
+  /* Contacts */
+  async getContacts(filters: ContactFilters = {}): Promise<Contact[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.company_id) conditions.push(eq(contacts.company_id, filters.company_id));
+    if (filters.owner_id) conditions.push(eq(contacts.owner_id, filters.owner_id));
+    conditions.push(ownerScopeCondition(contacts.owner_id, filters.owner_ids));
+    const pattern = searchPattern(filters.search);
+    if (pattern) {
+      conditions.push(
+        or(ilike(contacts.name, pattern), ilike(contacts.email, pattern), ilike(contacts.phone, pattern)),
+      );
+    }
+
+    const query = this.db
+      .select()
+      .from(contacts)
+      .where(and(...conditions))
+      .orderBy(desc(contacts.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async getContact(id: string): Promise<Contact | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [contact] = await this.db.select().from(contacts).where(eq(contacts.id, id)).limit(1);
+    return contact;
+  }
+
+  async createContact(input: NewContact): Promise<Contact> {
+    const [contact] = await this.db.insert(contacts).values(input).returning();
+    return contact;
+  }
+
+  async updateContact(id: string, patch: Partial<NewContact>): Promise<Contact | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [contact] = await this.db
+      .update(contacts)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(contacts.id, id))
+      .returning();
+    return contact;
+  }
+
+  async deleteContact(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db.delete(contacts).where(eq(contacts.id, id)).returning({ id: contacts.id });
+    return deleted.length > 0;
+  }
+
+  /* Deals */
+  async getDeals(filters: DealFilters = {}): Promise<Deal[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.status) conditions.push(eq(deals.status, filters.status));
+    if (filters.stage) conditions.push(eq(deals.stage, filters.stage));
+    if (filters.priority) conditions.push(eq(deals.priority, filters.priority));
+    if (filters.risk_level) conditions.push(eq(deals.risk_level, filters.risk_level));
+    if (filters.owner_id) conditions.push(eq(deals.owner_id, filters.owner_id));
+    conditions.push(ownerScopeCondition(deals.owner_id, filters.owner_ids));
+    if (filters.contact_id) conditions.push(eq(deals.contact_id, filters.contact_id));
+    if (filters.company_id) conditions.push(eq(deals.company_id, filters.company_id));
+    if (filters.pipeline_id) {
+      conditions.push(isUuid(filters.pipeline_id) ? eq(deals.pipeline_id, filters.pipeline_id) : sql`false`);
+    }
+    const pattern = searchPattern(filters.search);
+    if (pattern) conditions.push(or(ilike(deals.title, pattern), ilike(deals.company, pattern)));
+
+    const query = this.db
+      .select()
+      .from(deals)
+      .where(and(...conditions))
+      .orderBy(desc(deals.updated_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [deal] = await this.db.select().from(deals).where(eq(deals.id, id)).limit(1);
+    return deal;
+  }
+
+  async getStalledDeals(limit = 5, scope: DealScope = {}): Promise<Deal[]> {
+    // Mismo criterio que isStalledDeal: sin próximo paso o con la fecha objetivo vencida
+    return this.db
+      .select()
+      .from(deals)
+      .where(
+        and(
+          eq(deals.status, "Open"),
+          ownerScopeCondition(deals.owner_id, scope.owner_ids),
+          or(
+            isNull(deals.next_step),
+            sql`trim(${deals.next_step}) = ''`,
+            lt(deals.target_close_date, new Date()),
+          ),
+        ),
+      )
+      .orderBy(desc(deals.inactivity_days))
+      .limit(limit);
+  }
+
+  async getQuickMetrics(scope: DealScope = {}): Promise<QuickMetrics> {
+    const [row] = await this.db
+      .select({
+        open: sql<number>`count(*) filter (where ${deals.status} = 'Open')`.mapWith(Number),
+        won: sql<number>`count(*) filter (where ${deals.status} = 'Won')`.mapWith(Number),
+        lost: sql<number>`count(*) filter (where ${deals.status} = 'Lost')`.mapWith(Number),
+        sumOpen: sql<number>`coalesce(sum(${deals.amount}) filter (where ${deals.status} = 'Open'), 0)`.mapWith(
+          Number,
+        ),
+      })
+      .from(deals)
+      .where(ownerScopeCondition(deals.owner_id, scope.owner_ids));
+    return row ?? { open: 0, won: 0, lost: 0, sumOpen: 0 };
+  }
+
+  async createDeal(input: NewDeal): Promise<Deal> {
+    const [deal] = await this.db.insert(deals).values(input).returning();
+    return deal;
+  }
+
+  async updateDeal(id: string, patch: Partial<NewDeal>): Promise<Deal | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [deal] = await this.db
+      .update(deals)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(deals.id, id))
+      .returning();
+    return deal;
+  }
+
+  async deleteDeal(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db.delete(deals).where(eq(deals.id, id)).returning({ id: deals.id });
+    return deleted.length > 0;
+  }
+
+  /* Tasks */
+  async getTasks(filters: TaskFilters = {}): Promise<Task[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.state) conditions.push(eq(tasks.state, filters.state));
+    if (filters.deal_id) conditions.push(eq(tasks.deal_id, filters.deal_id));
+    if (filters.contact_id) conditions.push(eq(tasks.contact_id, filters.contact_id));
+    if (filters.assigned_to) conditions.push(eq(tasks.assigned_to, filters.assigned_to));
+    conditions.push(this.taskScopeCondition(filters.owner_ids));
+
+    const query = this.db
+      .select()
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(desc(tasks.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  /** Tareas asignadas a los owners o de deals o contactos suyos. */
+  private taskScopeCondition(ownerIds: string[] | undefined): SQL | undefined {
+    if (!ownerIds) return undefined;
+    return or(
+      ownerScopeCondition(tasks.assigned_to, ownerIds),
+      inArray(tasks.deal_id, this.ownedDealIds(ownerIds)),
+      inArray(tasks.contact_id, this.ownedContactIds(ownerIds)),
+    );
+  }
+
+  private ownedDealIds(ownerIds: string[]) {
+    return this.db.select({ id: deals.id }).from(deals).where(ownerScopeCondition(deals.owner_id, ownerIds));
+  }
+
+  private ownedContactIds(ownerIds: string[]) {
+    return this.db.select({ id: contacts.id }).from(contacts).where(ownerScopeCondition(contacts.owner_id, ownerIds));
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [task] = await this.db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
+    return task;
+  }
+
+  async createTask(input: NewTask): Promise<Task> {
+    const [task] = await this.db.insert(tasks).values(input).returning();
+    return task;
+  }
+
+  async updateTask(id: string, patch: Partial<NewTask>): Promise<Task | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [task] = await this.db
+      .update(tasks)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(tasks.id, id))
+      .returning();
+    return task;
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db.delete(tasks).where(eq(tasks.id, id)).returning({ id: tasks.id });
+    return deleted.length > 0;
+  }
+
+  /* Timeline */
+  async getTimelineEntries(filters: TimelineFilters = {}): Promise<TimelineEntry[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.entity_type) conditions.push(eq(timeline_entries.entity_type, filters.entity_type));
+    if (filters.entity_id) {
+      // entity_id es uuid: un id mal formado no puede tener entradas
+      if (!isUuid(filters.entity_id)) return [];
+      conditions.push(eq(timeline_entries.entity_id, filters.entity_id));
+    }
+    conditions.push(this.timelineScopeCondition(filters.owner_ids));
+
+    const query = this.db
+      .select()
+      .from(timeline_entries)
+      .where(and(...conditions))
+      .orderBy(desc(timeline_entries.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  /** Entradas de deals, contactos y tareas dentro del alcance; las de empresas, siempre. */
+  private timelineScopeCondition(ownerIds: string[] | undefined): SQL | undefined {
+    if (!ownerIds) return undefined;
+    const { entity_type, entity_id } = timeline_entries;
+    const scopedTasks = this.db.select({ id: tasks.id }).from(tasks).where(this.taskScopeCondition(ownerIds));
+    return or(
+      eq(entity_type, "company"),
+      and(eq(entity_type, "deal"), inArray(entity_id, this.ownedDealIds(ownerIds))),
+      and(eq(entity_type, "contact"), inArray(entity_id, this.ownedContactIds(ownerIds))),
+      and(eq(entity_type, "task"), inArray(entity_id, scopedTasks)),
+    );
+  }
+
+  async getTimelineEntry(id: string): Promise<TimelineEntry | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [entry] = await this.db.select().from(timeline_entries).where(eq(timeline_entries.id, id)).limit(1);
+    return entry;
+  }
+
+  async createTimelineEntry(input: NewTimelineEntry): Promise<TimelineEntry> {
+    const [entry] = await this.db.insert(timeline_entries).values(input).returning();
+    return entry;
+  }
+
+  async updateTimelineEntry(
+    id: string,
+    patch: Partial<Pick<NewTimelineEntry, "description" | "metadata">>,
+  ): Promise<TimelineEntry | undefined> {
+    if (!isUuid(id)) return undefined;
+    if (Object.keys(patch).length === 0) return this.getTimelineEntry(id);
+    const [entry] = await this.db
+      .update(timeline_entries)
+      .set(patch)
+      .where(eq(timeline_entries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteTimelineEntry(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db
+      .delete(timeline_entries)
+      .where(eq(timeline_entries.id, id))
+      .returning({ id: timeline_entries.id });
+    return deleted.length > 0;
+  }
+
+  async moveTimelineEntries(entityType: string, fromId: string, toId: string): Promise<number> {
+    if (!isUuid(fromId) || !isUuid(toId)) return 0;
+    const moved = await this.db
+      .update(timeline_entries)
+      .set({ entity_id: toId })
+      .where(and(eq(timeline_entries.entity_type, entityType), eq(timeline_entries.entity_id, fromId)))
+      .returning({ id: timeline_entries.id });
+    return moved.length;
+  }
+
+  /* Pipelines */
+  async getPipelines(): Promise<Pipeline[]> {
+    return this.db.select().from(pipelines).orderBy(asc(pipelines.order_index), asc(pipelines.created_at));
+  }
+
+  async getPipeline(id: string): Promise<Pipeline | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [pipeline] = await this.db.select().from(pipelines).where(eq(pipelines.id, id)).limit(1);
+    return pipeline;
+  }
+
+  async createPipeline(input: NewPipeline): Promise<Pipeline> {
+    const [pipeline] = await this.db.insert(pipelines).values(input).returning();
+    return pipeline;
+  }
+
+  async updatePipeline(id: string, patch: Partial<NewPipeline>): Promise<Pipeline | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [pipeline] = await this.db
+      .update(pipelines)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(pipelines.id, id))
+      .returning();
+    return pipeline;
+  }
+
+  async deletePipeline(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    // Las etapas caen en cascada
+    const deleted = await this.db.delete(pipelines).where(eq(pipelines.id, id)).returning({ id: pipelines.id });
+    return deleted.length > 0;
+  }
+
+  /* Pipeline stages */
+  async getPipelineStages(pipelineId?: string): Promise<PipelineStage[]> {
+    if (pipelineId !== undefined && !isUuid(pipelineId)) return [];
+    return this.db
+      .select()
+      .from(pipeline_stages)
+      .where(pipelineId ? eq(pipeline_stages.pipeline_id, pipelineId) : undefined)
+      .orderBy(asc(pipeline_stages.order_index));
+  }
+
+  async getPipelineStage(id: string): Promise<PipelineStage | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [stage] = await this.db.select().from(pipeline_stages).where(eq(pipeline_stages.id, id)).limit(1);
+    return stage;
+  }
+
+  async createPipelineStage(input: NewPipelineStage): Promise<PipelineStage> {
+    const [stage] = await this.db.insert(pipeline_stages).values(input).returning();
+    return stage;
+  }
+
+  async updatePipelineStage(id: string, patch: Partial<NewPipelineStage>): Promise<PipelineStage | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [stage] = await this.db
+      .update(pipeline_stages)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(pipeline_stages.id, id))
+      .returning();
+    return stage;
+  }
+
+  async renameDealStage(pipelineId: string, from: string, to: string): Promise<number> {
+    if (!isUuid(pipelineId)) return 0;
+    // Renombrar no es actividad del deal: updated_at se conserva
+    const renamed = await this.db
+      .update(deals)
+      .set({ stage: to })
+      .where(and(eq(deals.pipeline_id, pipelineId), eq(deals.stage, from)))
+      .returning({ id: deals.id });
+    await this.db
+      .update(deal_stage_transitions)
+      .set({ from_stage: to })
+      .where(and(eq(deal_stage_transitions.pipeline_id, pipelineId), eq(deal_stage_transitions.from_stage, from)));
+    await this.db
+      .update(deal_stage_transitions)
+      .set({ to_stage: to })
+      .where(and(eq(deal_stage_transitions.pipeline_id, pipelineId), eq(deal_stage_transitions.to_stage, from)));
+    return renamed.length;
+  }
+
+  /* Deal stage transitions */
+  async getDealStageTransitions(filters: StageTransitionFilters = {}): Promise<DealStageTransition[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.deal_id) {
+      if (!isUuid(filters.deal_id)) return [];
+      conditions.push(eq(deal_stage_transitions.deal_id, filters.deal_id));
+    }
+    if (filters.pipeline_id) {
+      if (!isUuid(filters.pipeline_id)) return [];
+      conditions.push(eq(deal_stage_transitions.pipeline_id, filters.pipeline_id));
+    }
+    return this.db
+      .select()
+      .from(deal_stage_transitions)
+      .where(and(...conditions))
+      .orderBy(asc(deal_stage_transitions.changed_at));
+  }
+
+  async createDealStageTransition(input: NewDealStageTransition): Promise<DealStageTransition> {
+    const [transition] = await this.db.insert(deal_stage_transitions).values(input).returning();
+    return transition;
+  }
+
+  /* Import jobs */
+  async getImportJobs(filters: ImportJobFilters = {}): Promise<ImportJob[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.created_by) {
+      if (!isUuid(filters.created_by)) return [];
+      conditions.push(eq(import_jobs.created_by, filters.created_by));
+    }
+    if (filters.status) {
+      if (!filters.status.length) return [];
+      conditions.push(inArray(import_jobs.status, filters.status));
+    }
+    const query = this.db
+      .select()
+      .from(import_jobs)
+      .where(and(...conditions))
+      .orderBy(desc(import_jobs.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async getImportJob(id: string): Promise<ImportJob | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [job] = await this.db.select().from(import_jobs).where(eq(import_jobs.id, id)).limit(1);
+    return job;
+  }
+
+  async createImportJob(input: NewImportJob): Promise<ImportJob> {
+    const [job] = await this.db.insert(import_jobs).values(input).returning();
+    return job;
+  }
+
+  async updateImportJob(id: string, patch: Partial<NewImportJob>): Promise<ImportJob | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [job] = await this.db
+      .update(import_jobs)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(import_jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async createImportJobRows(rows: NewImportJobRow[]): Promise<void> {
+    for (let start = 0; start < rows.length; start += IMPORT_ROWS_BATCH) {
+      await this.db.insert(import_job_rows).values(rows.slice(start, start + IMPORT_ROWS_BATCH));
+    }
+  }
+
+  async getImportJobRows(jobId: string, filters: ImportJobRowFilters = {}): Promise<ImportJobRow[]> {
+    if (!isUuid(jobId)) return [];
+    const query = this.db
+      .select()
+      .from(import_job_rows)
+      .where(
+        and(
+          eq(import_job_rows.job_id, jobId),
+          filters.status ? eq(import_job_rows.status, filters.status) : undefined,
+        ),
+      )
+      .orderBy(asc(import_job_rows.row_number))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async updateImportJobRow(id: string, patch: ImportJobRowPatch): Promise<ImportJobRow | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [row] = await this.db.update(import_job_rows).set(patch).where(eq(import_job_rows.id, id)).returning();
+    return row;
+  }
+
+  /* Saved views */
+  async getSavedViews(filters: SavedViewFilters = {}): Promise<SavedView[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.list) conditions.push(eq(saved_views.list, filters.list));
+    if (filters.visible_to) {
+      conditions.push(
+        isUuid(filters.visible_to)
+          ? or(eq(saved_views.shared, true), eq(saved_views.owner_id, filters.visible_to))
+          : eq(saved_views.shared, true),
+      );
+    }
+    return this.db
+      .select()
+      .from(saved_views)
+      .where(and(...conditions))
+      .orderBy(asc(saved_views.name));
+  }
+
+  async getSavedView(id: string): Promise<SavedView | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [view] = await this.db.select().from(saved_views).where(eq(saved_views.id, id)).limit(1);
+    return view;
+  }
+
+  async createSavedView(input: NewSavedView): Promise<SavedView> {
+    const [view] = await this.db.insert(saved_views).values(input).returning();
+    return view;
+  }
+
+  async updateSavedView(id: string, patch: Partial<NewSavedView>): Promise<SavedView | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [view] = await this.db
+      .update(saved_views)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(saved_views.id, id))
+      .returning();
+    return view;
+  }
+
+  // Las vistas por defecto que la usaban se borran en cascada
+  async deleteSavedView(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db
+      .delete(saved_views)
+      .where(eq(saved_views.id, id))
+      .returning({ id: saved_views.id });
+    return deleted.length > 0;
+  }
+
+  async getSavedViewDefaults(userId: string): Promise<SavedViewDefault[]> {
+    if (!isUuid(userId)) return [];
+    return this.db.select().from(saved_view_defaults).where(eq(saved_view_defaults.user_id, userId));
+  }
+
+  async setSavedViewDefault(userId: string, list: SavedView["list"], viewId: string | null): Promise<void> {
+    if (!isUuid(userId)) return;
+    if (!viewId) {
+      await this.db
+        .delete(saved_view_defaults)
+        .where(and(eq(saved_view_defaults.user_id, userId), eq(saved_view_defaults.list, list)));
+      return;
+    }
+    await this.db
+      .insert(saved_view_defaults)
+      .values({ user_id: userId, list, view_id: viewId })
+      .onConflictDoUpdate({
+        target: [saved_view_defaults.user_id, saved_view_defaults.list],
+        set: { view_id: viewId },
+      });
+  }
+
+  /* Custom fields */
+  async getCustomFields(entity?: CustomFieldEntity): Promise<CustomField[]> {
+    return this.db
+      .select()
+      .from(custom_fields)
+      .where(entity ? eq(custom_fields.entity, entity) : undefined)
+      .orderBy(asc(custom_fields.order_index));
+  }
+
+  async getCustomField(id: string): Promise<CustomField | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [field] = await this.db.select().from(custom_fields).where(eq(custom_fields.id, id)).limit(1);
+    return field;
+  }
+
+  async createCustomField(input: NewCustomField): Promise<CustomField> {
+    const [field] = await this.db.insert(custom_fields).values(input).returning();
+    return field;
+  }
+
+  async updateCustomField(id: string, patch: Partial<NewCustomField>): Promise<CustomField | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [field] = await this.db
+      .update(custom_fields)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(custom_fields.id, id))
+      .returning();
+    return field;
+  }
+
+  async deleteCustomField(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db
+      .delete(custom_fields)
+      .where(eq(custom_fields.id, id))
+      .returning({ id: custom_fields.id });
+    return deleted.length > 0;
+  }
+
+  /* Tags */
+  async getTags(): Promise<Tag[]> {
+    return this.db.select().from(tags).orderBy(asc(tags.name));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [tag] = await this.db.select().from(tags).where(eq(tags.id, id)).limit(1);
+    return tag;
+  }
+
+  async createTag(input: NewTag): Promise<Tag> {
+    const [tag] = await this.db.insert(tags).values(input).returning();
+    return tag;
+  }
+
+  async updateTag(id: string, patch: Partial<NewTag>): Promise<Tag | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [tag] = await this.db
+      .update(tags)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(tags.id, id))
+      .returning();
+    return tag;
+  }
+
+  async deleteTag(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db.delete(tags).where(eq(tags.id, id)).returning({ id: tags.id });
+    return deleted.length > 0;
+  }
+
+  /* Automations */
+  async getAutomationRules(filters: AutomationRuleFilters = {}): Promise<AutomationRule[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.trigger) conditions.push(eq(automation_rules.trigger, filters.trigger));
+    if (filters.enabled !== undefined) conditions.push(eq(automation_rules.enabled, filters.enabled));
+    return this.db
+      .select()
+      .from(automation_rules)
+      .where(and(...conditions))
+      .orderBy(asc(automation_rules.created_at));
+  }
+
+  async getAutomationRule(id: string): Promise<AutomationRule | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [rule] = await this.db.select().from(automation_rules).where(eq(automation_rules.id, id)).limit(1);
+    return rule;
+  }
+
+  async createAutomationRule(input: NewAutomationRule): Promise<AutomationRule> {
+    const [rule] = await this.db.insert(automation_rules).values(input).returning();
+    return rule;
+  }
+
+  async updateAutomationRule(id: string, patch: Partial<NewAutomationRule>): Promise<AutomationRule | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [rule] = await this.db
+      .update(automation_rules)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(automation_rules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteAutomationRule(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db
+      .delete(automation_rules)
+      .where(eq(automation_rules.id, id))
+      .returning({ id: automation_rules.id });
+    return deleted.length > 0;
+  }
+
+  async getAutomationRuns(filters: AutomationRunFilters = {}): Promise<AutomationRun[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.rule_id) {
+      if (!isUuid(filters.rule_id)) return [];
+      conditions.push(eq(automation_runs.rule_id, filters.rule_id));
+    }
+    if (filters.trigger) conditions.push(eq(automation_runs.trigger, filters.trigger));
+    if (filters.entity_id) {
+      if (!isUuid(filters.entity_id)) return [];
+      conditions.push(eq(automation_runs.entity_id, filters.entity_id));
+    }
+    const query = this.db
+      .select()
+      .from(automation_runs)
+      .where(and(...conditions))
+      .orderBy(desc(automation_runs.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async createAutomationRun(input: NewAutomationRun): Promise<AutomationRun> {
+    const [run] = await this.db.insert(automation_runs).values(input).returning();
+    return run;
+  }
+
+  async updateAutomationRun(id: string, patch: Partial<NewAutomationRun>): Promise<AutomationRun | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [run] = await this.db
+      .update(automation_runs)
+      .set({ ...patch, id })
+      .where(eq(automation_runs.id, id))
+      .returning();
+    return run;
+  }
+
+  /* Deal alert rules */
+  async getDealAlertRuleSettings(): Promise<DealAlertRuleSetting[]> {
+    return this.db.select().from(deal_alert_rule_settings);
+  }
+
+  async saveDealAlertRuleSetting(input: NewDealAlertRuleSetting): Promise<DealAlertRuleSetting> {
+    // Reemplaza la fila entera: lo que no llega vuelve al valor por defecto
+    const row = {
+      rule: input.rule,
+      enabled: input.enabled ?? true,
+      severity: input.severity ?? null,
+      params: input.params ?? {},
+      recommended_action: input.recommended_action ?? null,
+      updated_by: input.updated_by ?? null,
+      updated_at: input.updated_at ?? new Date(),
+    };
+    const [setting] = await this.db
+      .insert(deal_alert_rule_settings)
+      .values(row)
+      .onConflictDoUpdate({ target: deal_alert_rule_settings.rule, set: row })
+      .returning();
+    return setting;
+  }
+
+  /* SLA */
+  async getSlaPolicies(): Promise<SlaPolicyRow[]> {
+    return this.db.select().from(sla_policies);
+  }
+
+  async createSlaPolicy(input: NewSlaPolicyRow): Promise<SlaPolicyRow> {
+    const [policy] = await this.db.insert(sla_policies).values(input).returning();
+    return policy;
+  }
+
+  async updateSlaPolicy(id: string, patch: Partial<NewSlaPolicyRow>): Promise<SlaPolicyRow | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [policy] = await this.db
+      .update(sla_policies)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(sla_policies.id, id))
+      .returning();
+    return policy;
+  }
+
+  async deleteSlaPolicy(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db
+      .delete(sla_policies)
+      .where(eq(sla_policies.id, id))
+      .returning({ id: sla_policies.id });
+    return deleted.length > 0;
+  }
+
+  async getSlaEscalations(filters: SlaEscalationFilters = {}): Promise<SlaEscalation[]> {
+    if (filters.deal_id && !isUuid(filters.deal_id)) return [];
+    const query = this.db
+      .select()
+      .from(sla_escalations)
+      .where(
+        and(
+          filters.deal_id ? eq(sla_escalations.deal_id, filters.deal_id) : undefined,
+          filters.owner_ids ? inArray(sla_escalations.deal_id, this.ownedDealIds(filters.owner_ids)) : undefined,
+        ),
+      )
+      .orderBy(desc(sla_escalations.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async createSlaEscalation(input: NewSlaEscalation): Promise<SlaEscalation> {
+    const [escalation] = await this.db.insert(sla_escalations).values(input).returning();
+    return escalation;
+  }
+
+  /* Alertas de deals */
+  async getDealAlerts(filters: DealAlertFilters = {}): Promise<DealAlertRecord[]> {
+    if (filters.deal_id && !isUuid(filters.deal_id)) return [];
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.deal_id) conditions.push(eq(deal_alerts.deal_id, filters.deal_id));
+    if (filters.status) conditions.push(inArray(deal_alerts.status, filters.status));
+    conditions.push(ownerScopeCondition(deal_alerts.owner_id, filters.owner_ids));
+    if (filters.active) conditions.push(isNull(deal_alerts.cleared_at));
+    if (filters.from) conditions.push(gte(deal_alerts.created_at, filters.from));
+    if (filters.to) conditions.push(lte(deal_alerts.created_at, filters.to));
+    const query = this.db
+      .select()
+      .from(deal_alerts)
+      .where(and(...conditions))
+      .orderBy(desc(deal_alerts.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async getDealAlert(id: string): Promise<DealAlertRecord | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [alert] = await this.db.select().from(deal_alerts).where(eq(deal_alerts.id, id));
+    return alert;
+  }
+
+  async createDealAlert(input: NewDealAlertRecord): Promise<DealAlertRecord> {
+    const [alert] = await this.db.insert(deal_alerts).values(input).returning();
+    return alert;
+  }
+
+  async updateDealAlert(id: string, patch: Partial<NewDealAlertRecord>): Promise<DealAlertRecord | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [alert] = await this.db
+      .update(deal_alerts)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(deal_alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  /* Canales de alertas */
+  async getAlertChannels(): Promise<AlertChannel[]> {
+    return this.db.select().from(alert_channels).orderBy(asc(alert_channels.created_at));
+  }
+
+  async getAlertChannel(id: string): Promise<AlertChannel | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [channel] = await this.db.select().from(alert_channels).where(eq(alert_channels.id, id)).limit(1);
+    return channel;
+  }
+
+  async createAlertChannel(input: NewAlertChannel): Promise<AlertChannel> {
+    const [channel] = await this.db.insert(alert_channels).values(input).returning();
+    return channel;
+  }
+
+  async updateAlertChannel(id: string, patch: Partial<NewAlertChannel>): Promise<AlertChannel | undefined> {
+    if (!isUuid(id)) return undefined;
+    const [channel] = await this.db
+      .update(alert_channels)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(alert_channels.id, id))
+      .returning();
+    return channel;
+  }
+
+  async deleteAlertChannel(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const deleted = await this.db
+      .delete(alert_channels)
+      .where(eq(alert_channels.id, id))
+      .returning({ id: alert_channels.id });
+    return deleted.length > 0;
+  }
+
+  async getAlertDeliveries(filters: AlertDeliveryFilters = {}): Promise<AlertDelivery[]> {
+    if (filters.channel_id && !isUuid(filters.channel_id)) return [];
+    const query = this.db
+      .select()
+      .from(alert_deliveries)
+      .where(filters.channel_id ? eq(alert_deliveries.channel_id, filters.channel_id) : undefined)
+      .orderBy(desc(alert_deliveries.created_at))
+      .$dynamic();
+    return filters.limit !== undefined ? query.limit(filters.limit) : query;
+  }
+
+  async createAlertDelivery(input: NewAlertDelivery): Promise<AlertDelivery> {
+    const [delivery] = await this.db.insert(alert_deliveries).values(input).returning();
+    return delivery;
+  }
+}
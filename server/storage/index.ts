@@ -0,0 +1,54 @@
+import path from "path";
+import { createPostgresStorage } from "./postgres";
+import { MemStorage } from "./memory";
+import { SqliteStorage } from "./sqlite";
+import type { IStorage } from "./types";
+
+export * from "./types";
+export { MemStorage } from "./memory";
+export { DatabaseStorage, type CrmDatabase } from "./database";
+export { createPostgresStorage, MIGRATIONS_FOLDER } from "./postgres";
+export { SqliteStorage, SQLITE_MIGRATIONS_FOLDER } from "./sqlite";
+
+export type StorageDriver = "memory" | "postgres" | "sqlite";
+
+const DEFAULT_SQLITE_PATH = "data/pulse.sqlite";
+
+/**
+ * `STORAGE_DRIVER=postgres` (requiere `DATABASE_URL`) persiste en Postgres vía Drizzle;
+ * `STORAGE_DRIVER=sqlite` usa un fichero local (`SQLITE_PATH`, por defecto `data/pulse.sqlite`);
+ * por defecto se usa el storage en memoria.
+ */
+export function resolveStorageDriver(env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  const driver = (env.STORAGE_DRIVER ?? "memory").trim().toLowerCase();
+  if (driver === "memory" || driver === "postgres" || driver === "sqlite") {
+    return driver;
+  }
+  throw new Error(`STORAGE_DRIVER no soportado: ${driver}`);
+}
+
+async function createStorage(driver: StorageDriver): Promise<IStorage> {
+  if (driver === "postgres") {
+    const url = process.env.DATABASE_URL;
+    if (!url) {
+      throw new Error("DATABASE_URL es obligatorio con STORAGE_DRIVER=postgres");
+    }
+    const storage = await createPostgresStorage(url);
+    console.log("[storage] Postgres listo, migraciones aplicadas");
+    return storage;
+  }
+  if (driver === "sqlite") {
+    const filename = path.resolve(process.cwd(), process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    const storage = await SqliteStorage.open(filename);
+    console.log(`[storage] SQLite listo en ${filename}, migraciones aplicadas`);
+    return storage;
+  }
+  return new MemStorage();
+}
+
+let storagePromise: Promise<IStorage> | null = null;
+
+export function getStorage(): Promise<IStorage> {
+  storagePromise ??= createStorage(resolveStorageDriver());
+  return storagePromise;
+}
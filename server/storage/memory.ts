@@ -0,0 +1,1113 @@
+import {
+  type User,
+  type InsertUser,
+  type NewUser,
+  type Company,
+  type NewCompany,
+  type Contact,
+  type NewContact,
+  type Deal,
+  type NewDeal,
+  type Task,
+  type NewTask,
+  type TimelineEntry,
+  type NewTimelineEntry,
+  type Pipeline,
+  type NewPipeline,
+  type PipelineStage,
+  type NewPipelineStage,
+  type DealStageTransition,
+  type NewDealStageTransition,
+  type ImportJob,
+  type NewImportJob,
+  type ImportJobRow,
+  type NewImportJobRow,
+  type SavedView,
+  type NewSavedView,
+  type SavedViewDefault,
+  type CustomField,
+  type NewCustomField,
+  type Tag,
+  type NewTag,
+  type AutomationRule,
+  type NewAutomationRule,
+  type AutomationRun,
+  type NewAutomationRun,
+  type DealAlertRuleSetting,
+  type NewDealAlertRuleSetting,
+  type SlaPolicyRow,
+  type NewSlaPolicyRow,
+  type SlaEscalation,
+  type NewSlaEscalation,
+  type DealAlertRecord,
+  type NewDealAlertRecord,
+  type AlertChannel,
+  type NewAlertChannel,
+  type AlertDelivery,
+  type NewAlertDelivery,
+} from "@shared/schema";
+import type { CustomFieldEntity } from "@shared/customFields";
+import { DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS } from "@shared/alertChannels";
+import { randomUUID } from "crypto";
+import {
+  createMemorySessionStore,
+  isStalledDeal,
+  type AlertDeliveryFilters,
+  type AutomationRuleFilters,
+  type AutomationRunFilters,
+  type ContactFilters,
+  type DealAlertFilters,
+  type DealFilters,
+  type DealScope,
+  type ImportJobFilters,
+  type ImportJobRowFilters,
+  type ImportJobRowPatch,
+  type IStorage,
+  type SlaEscalationFilters,
+  type SavedViewFilters,
+  type QuickMetrics,
+  type StageTransitionFilters,
+  type TaskFilters,
+  type TimelineFilters,
+  type UserFilters,
+} from "./types";
+
+function byNewest<T extends { created_at: Date | null }>(a: T, b: T) {
+  return (b.created_at?.getTime() ?? 0) - (a.created_at?.getTime() ?? 0);
+}
+
+// Map conserva el orden de inserción: invertido, los empates en created_at salen del más reciente al más antiguo
+function newestFirst<T extends { created_at: Date | null }>(items: Map<string, T>): T[] {
+  return Array.from(items.values()).reverse().sort(byNewest);
+}
+
+function inOwnerScope(ownerIds: string[] | undefined, ownerId: string | null) {
+  return !ownerIds || (ownerId !== null && ownerIds.includes(ownerId));
+}
+
+function applyLimit<T>(items: T[], limit?: number): T[] {
+  return typeof limit === "number" && limit >= 0 ? items.slice(0, limit) : items;
+}
+
+function matchesSearch(term: string | undefined, ...values: Array<string | null | undefined>) {
+  const normalized = term?.trim().toLowerCase();
+  if (!normalized) return true;
+  return values.some((value) => (value ?? "").toLowerCase().includes(normalized));
+}
+
+export class MemStorage implements IStorage {
+  readonly sessionStore = createMemorySessionStore();
+  private users: Map<string, User>;
+  private companies: Map<string, Company>;
+  private contacts: Map<string, Contact>;
+  private deals: Map<string, Deal>;
+  private tasks: Map<string, Task>;
+  private timeline: Map<string, TimelineEntry>;
+  private pipelines: Map<string, Pipeline>;
+  private stages: Map<string, PipelineStage>;
+  private transitions: Map<string, DealStageTransition>;
+  private importJobs: Map<string, ImportJob>;
+  private importRows: Map<string, ImportJobRow>;
+  private savedViews: Map<string, SavedView>;
+  private savedViewDefaults: Map<string, SavedViewDefault>;
+  private customFields: Map<string, CustomField>;
+  private tags: Map<string, Tag>;
+  private automationRules: Map<string, AutomationRule>;
+  private automationRuns: Map<string, AutomationRun>;
+  private dealAlertRuleSettings: Map<string, DealAlertRuleSetting>;
+  private slaPolicies: Map<string, SlaPolicyRow>;
+  private slaEscalations: Map<string, SlaEscalation>;
+  private dealAlerts: Map<string, DealAlertRecord>;
+  private alertChannels: Map<string, AlertChannel>;
+  private alertDeliveries: Map<string, AlertDelivery>;
+
+  constructor() {
+    this.users = new Map();
+    this.companies = new Map();
+    this.contacts = new Map();
+    this.deals = new Map();
+    this.tasks = new Map();
+    this.timeline = new Map();
+    this.pipelines = new Map();
+    this.stages = new Map();
+    this.transitions = new Map();
+    this.importJobs = new Map();
+    this.importRows = new Map();
+    this.savedViews = new Map();
+    this.savedViewDefaults = new Map();
+    this.customFields = new Map();
+    this.tags = new Map();
+    this.automationRules = new Map();
+    this.automationRuns = new Map();
+    this.dealAlertRuleSettings = new Map();
+    this.slaPolicies = new Map();
+    this.slaEscalations = new Map();
+    this.dealAlerts = new Map();
+    this.alertChannels = new Map();
+    this.alertDeliveries = new Map();
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async getUsers(filters: UserFilters = {}): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter((user) => !filters.role || user.role === filters.role)
+      .filter((user) => !filters.manager_id || user.manager_id === filters.manager_id)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      id,
+      role: insertUser.role || "Usuario",
+      email: insertUser.email || null,
+      full_name: insertUser.full_name || null,
+      manager_id: null,
+      alert_sensitivity: "all",
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async registerUser(insertUser: InsertUser): Promise<User> {
+    return this.createUser({ ...insertUser, role: this.users.size === 0 ? "Admin" : insertUser.role });
+  }
+
+  async updateUser(id: string, patch: Partial<NewUser>): Promise<User | undefined> {
+    const current = this.users.get(id);
+    if (!current) return undefined;
+    const updated: User = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  /* Companies */
+  async getCompanies(): Promise<Company[]> {
+    return newestFirst(this.companies);
+  }
+
+  async getCompany(id: string): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const normalized = name.trim().toLowerCase();
+    return Array.from(this.companies.values()).find(
+      (company) => company.name.toLowerCase() === normalized,
+    );
+  }
+
+  async createCompany(input: NewCompany): Promise<Company> {
+    const now = new Date();
+    const company: Company = {
+      id: input.id ?? randomUUID(),
+      name: input.name,
+      industry: input.industry ?? null,
+      size: input.size ?? null,
+      revenue_estimate: input.revenue_estimate ?? null,
+      location: input.location ?? null,
+      website: input.website ?? null,
+      description: input.description ?? null,
+      score: input.score ?? 0,
+      priority: input.priority ?? "Cold",
+      custom_fields: input.custom_fields ?? {},
+      tag_ids: input.tag_ids ?? [],
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.companies.set(company.id, company);
+    return company;
+  }
+
+  async updateCompany(id: string, patch: Partial<NewCompany>): Promise<Company | undefined> {
+    const current = this.companies.get(id);
+    if (!current) return undefined;
+    const updated: Company = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.companies.set(id, updated);
+    return updated;
+  }
+
+  async deleteCompany(id: string): Promise<boolean> {
+    return this.companies.delete(id);
+  }
+
+  /* Contacts */
+  async getContacts(filters: ContactFilters = {}): Promise<Contact[]> {
+    const contacts = newestFirst(this.contacts)
+      .filter((contact) => !filters.company_id || contact.company_id === filters.company_id)
+      .filter((contact) => !filters.owner_id || contact.owner_id === filters.owner_id)
+      .filter((contact) => inOwnerScope(filters.owner_ids, contact.owner_id))
+      .filter((contact) => matchesSearch(filters.search, contact.name, contact.email, contact.phone));
+    return applyLimit(contacts, filters.limit);
+  }
+
+  async getContact(id: string): Promise<Contact | undefined> {
+    return this.contacts.get(id);
+  }
+
+  async createContact(input: NewContact): Promise<Contact> {
+    const now = new Date();
+    const contact: Contact = {
+      id: input.id ?? randomUUID(),
+      name: input.name,
+      email: input.email ?? null,
+      phone: input.phone ?? null,
+      company_id: input.company_id ?? null,
+      position: input.position ?? null,
+      source: input.source ?? null,
+      score: input.score ?? 0,
+      priority: input.priority ?? "Cold",
+      last_activity: input.last_activity ?? null,
+      owner_id: input.owner_id ?? null,
+      custom_fields: input.custom_fields ?? {},
+      tag_ids: input.tag_ids ?? [],
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.contacts.set(contact.id, contact);
+    return contact;
+  }
+
+  async updateContact(id: string, patch: Partial<NewContact>): Promise<Contact | undefined> {
+    const current = this.contacts.get(id);
+    if (!current) return undefined;
+    const updated: Contact = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.contacts.set(id, updated);
+    return updated;
+  }
+
+  async deleteContact(id: string): Promise<boolean> {
+    return this.contacts.delete(id);
+  }
+
+  /* Deals */
+  async getDeals(filters: DealFilters = {}): Promise<Deal[]> {
+    const deals = Array.from(this.deals.values())
+      .filter((deal) => !filters.status || deal.status === filters.status)
+      .filter((deal) => !filters.stage || deal.stage === filters.stage)
+      .filter((deal) => !filters.priority || deal.priority === filters.priority)
+      .filter((deal) => !filters.risk_level || deal.risk_level === filters.risk_level)
+      .filter((deal) => !filters.owner_id || deal.owner_id === filters.owner_id)
+      .filter((deal) => inOwnerScope(filters.owner_ids, deal.owner_id))
+      .filter((deal) => !filters.contact_id || deal.contact_id === filters.contact_id)
+      .filter((deal) => !filters.company_id || deal.company_id === filters.company_id)
+      .filter((deal) => !filters.pipeline_id || deal.pipeline_id === filters.pipeline_id)
+      .filter((deal) => matchesSearch(filters.search, deal.title, deal.company))
+      .sort((a, b) => (b.updated_at?.getTime() ?? 0) - (a.updated_at?.getTime() ?? 0));
+    return applyLimit(deals, filters.limit);
+  }
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    return this.deals.get(id);
+  }
+
+  async getStalledDeals(limit = 5, scope: DealScope = {}): Promise<Deal[]> {
+    const now = Date.now();
+    const stalled = Array.from(this.deals.values())
+      .filter((deal) => inOwnerScope(scope.owner_ids, deal.owner_id))
+      .filter((deal) => isStalledDeal(deal, now))
+      .sort((a, b) => (b.inactivity_days ?? 0) - (a.inactivity_days ?? 0));
+    return applyLimit(stalled, limit);
+  }
+
+  async getQuickMetrics(scope: DealScope = {}): Promise<QuickMetrics> {
+    const deals = Array.from(this.deals.values()).filter((deal) => inOwnerScope(scope.owner_ids, deal.owner_id));
+    const openDeals = deals.filter((deal) => deal.status === "Open");
+    return {
+      open: openDeals.length,
+      won: deals.filter((deal) => deal.status === "Won").length,
+      lost: deals.filter((deal) => deal.status === "Lost").length,
+      sumOpen: openDeals.reduce((sum, deal) => sum + (deal.amount ?? 0), 0),
+    };
+  }
+
+  async createDeal(input: NewDeal): Promise<Deal> {
+    const now = new Date();
+    const deal: Deal = {
+      id: input.id ?? randomUUID(),
+      title: input.title,
+      company: input.company ?? null,
+      company_id: input.company_id ?? null,
+      amount: input.amount ?? null,
+      stage: input.stage ?? "Prospección",
+      probability: input.probability ?? 0,
+      target_close_date: input.target_close_date ?? null,
+      next_step: input.next_step ?? null,
+      status: input.status ?? "Open",
+      score: input.score ?? 0,
+      priority: input.priority ?? "Cold",
+      risk_level: input.risk_level ?? "Bajo",
+      last_activity: input.last_activity ?? null,
+      inactivity_days: input.inactivity_days ?? 0,
+      contact_id: input.contact_id ?? null,
+      owner_id: input.owner_id ?? null,
+      pipeline_id: input.pipeline_id ?? null,
+      stage_entered_at: input.stage_entered_at ?? null,
+      close_reason: input.close_reason ?? null,
+      previous_amount: input.previous_amount ?? null,
+      close_date_slips: input.close_date_slips ?? 0,
+      custom_fields: input.custom_fields ?? {},
+      tag_ids: input.tag_ids ?? [],
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.deals.set(deal.id, deal);
+    return deal;
+  }
+
+  async updateDeal(id: string, patch: Partial<NewDeal>): Promise<Deal | undefined> {
+    const current = this.deals.get(id);
+    if (!current) return undefined;
+    const updated: Deal = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.deals.set(id, updated);
+    return updated;
+  }
+
+  async deleteDeal(id: string): Promise<boolean> {
+    // Igual que la FK en cascada de deal_stage_transitions
+    for (const transition of Array.from(this.transitions.values())) {
+      if (transition.deal_id === id) this.transitions.delete(transition.id);
+    }
+    for (const escalation of Array.from(this.slaEscalations.values())) {
+      if (escalation.deal_id === id) this.slaEscalations.delete(escalation.id);
+    }
+    for (const alert of Array.from(this.dealAlerts.values())) {
+      if (alert.deal_id === id) this.dealAlerts.delete(alert.id);
+    }
+    return this.deals.delete(id);
+  }
+
+  /* Tasks */
+  async getTasks(filters: TaskFilters = {}): Promise<Task[]> {
+    const tasks = newestFirst(this.tasks)
+      .filter((task) => !filters.state || task.state === filters.state)
+      .filter((task) => !filters.deal_id || task.deal_id === filters.deal_id)
+      .filter((task) => !filters.contact_id || task.contact_id === filters.contact_id)
+      .filter((task) => !filters.assigned_to || task.assigned_to === filters.assigned_to)
+      .filter((task) => this.isTaskInOwnerScope(task, filters.owner_ids));
+    return applyLimit(tasks, filters.limit);
+  }
+
+  private isTaskInOwnerScope(task: Task, ownerIds: string[] | undefined): boolean {
+    if (!ownerIds) return true;
+    const deal = task.deal_id ? this.deals.get(task.deal_id) : undefined;
+    const contact = task.contact_id ? this.contacts.get(task.contact_id) : undefined;
+    return [task.assigned_to, deal?.owner_id ?? null, contact?.owner_id ?? null].some((ownerId) =>
+      inOwnerScope(ownerIds, ownerId),
+    );
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    return this.tasks.get(id);
+  }
+
+  async createTask(input: NewTask): Promise<Task> {
+    const now = new Date();
+    const task: Task = {
+      id: input.id ?? randomUUID(),
+      title: input.title,
+      description: input.description ?? null,
+      state: input.state ?? "To Do",
+      priority: input.priority ?? "Media",
+      due_at: input.due_at ?? null,
+      completed_at: input.completed_at ?? null,
+      assigned_to: input.assigned_to ?? null,
+      deal_id: input.deal_id ?? null,
+      contact_id: input.contact_id ?? null,
+      notes: input.notes ?? null,
+      tag_ids: input.tag_ids ?? [],
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  async updateTask(id: string, patch: Partial<NewTask>): Promise<Task | undefined> {
+    const current = this.tasks.get(id);
+    if (!current) return undefined;
+    const updated: Task = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.tasks.set(id, updated);
+    return updated;
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+
+  /* Timeline */
+  async getTimelineEntries(filters: TimelineFilters = {}): Promise<TimelineEntry[]> {
+    const entries = newestFirst(this.timeline)
+      .filter((entry) => !filters.entity_type || entry.entity_type === filters.entity_type)
+      .filter((entry) => !filters.entity_id || entry.entity_id === filters.entity_id)
+      .filter((entry) => this.isTimelineEntryInOwnerScope(entry, filters.owner_ids));
+    return applyLimit(entries, filters.limit);
+  }
+
+  private isTimelineEntryInOwnerScope(entry: TimelineEntry, ownerIds: string[] | undefined): boolean {
+    if (!ownerIds) return true;
+    switch (entry.entity_type) {
+      case "company":
+        return true;
+      case "deal":
+        return inOwnerScope(ownerIds, this.deals.get(entry.entity_id)?.owner_id ?? null);
+      case "contact":
+        return inOwnerScope(ownerIds, this.contacts.get(entry.entity_id)?.owner_id ?? null);
+      case "task": {
+        const task = this.tasks.get(entry.entity_id);
+        return Boolean(task) && this.isTaskInOwnerScope(task!, ownerIds);
+      }
+      default:
+        return false;
+    }
+  }
+
+  async getTimelineEntry(id: string): Promise<TimelineEntry | undefined> {
+    return this.timeline.get(id);
+  }
+
+  async createTimelineEntry(input: NewTimelineEntry): Promise<TimelineEntry> {
+    const entry: TimelineEntry = {
+      id: input.id ?? randomUUID(),
+      type: input.type,
+      description: input.description,
+      entity_type: input.entity_type,
+      entity_id: input.entity_id,
+      user_id: input.user_id ?? null,
+      metadata: input.metadata ?? null,
+      created_at: input.created_at ?? new Date(),
+    };
+    this.timeline.set(entry.id, entry);
+    return entry;
+  }
+
+  async updateTimelineEntry(
+    id: string,
+    patch: Partial<Pick<NewTimelineEntry, "description" | "metadata">>,
+  ): Promise<TimelineEntry | undefined> {
+    const current = this.timeline.get(id);
+    if (!current) return undefined;
+    const updated: TimelineEntry = { ...current, ...patch };
+    this.timeline.set(id, updated);
+    return updated;
+  }
+
+  async deleteTimelineEntry(id: string): Promise<boolean> {
+    return this.timeline.delete(id);
+  }
+
+  async moveTimelineEntries(entityType: string, fromId: string, toId: string): Promise<number> {
+    let moved = 0;
+    for (const entry of Array.from(this.timeline.values())) {
+      if (entry.entity_type !== entityType || entry.entity_id !== fromId) continue;
+      this.timeline.set(entry.id, { ...entry, entity_id: toId });
+      moved += 1;
+    }
+    return moved;
+  }
+
+  /* Pipelines */
+  async getPipelines(): Promise<Pipeline[]> {
+    return Array.from(this.pipelines.values()).sort((a, b) => a.order_index - b.order_index);
+  }
+
+  async getPipeline(id: string): Promise<Pipeline | undefined> {
+    return this.pipelines.get(id);
+  }
+
+  async createPipeline(input: NewPipeline): Promise<Pipeline> {
+    const now = new Date();
+    const pipeline: Pipeline = {
+      id: input.id ?? randomUUID(),
+      name: input.name,
+      is_default: input.is_default ?? false,
+      order_index: input.order_index ?? 0,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.pipelines.set(pipeline.id, pipeline);
+    return pipeline;
+  }
+
+  async updatePipeline(id: string, patch: Partial<NewPipeline>): Promise<Pipeline | undefined> {
+    const current = this.pipelines.get(id);
+    if (!current) return undefined;
+    const updated: Pipeline = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.pipelines.set(id, updated);
+    return updated;
+  }
+
+  async deletePipeline(id: string): Promise<boolean> {
+    for (const stage of Array.from(this.stages.values())) {
+      if (stage.pipeline_id !== id) continue;
+      this.stages.delete(stage.id);
+      for (const policy of Array.from(this.slaPolicies.values())) {
+        if (policy.stage_id === stage.id) this.slaPolicies.delete(policy.id);
+      }
+    }
+    return this.pipelines.delete(id);
+  }
+
+  /* Pipeline stages */
+  async getPipelineStages(pipelineId?: string): Promise<PipelineStage[]> {
+    return Array.from(this.stages.values())
+      .filter((stage) => !pipelineId || stage.pipeline_id === pipelineId)
+      .sort((a, b) => a.order_index - b.order_index);
+  }
+
+  async getPipelineStage(id: string): Promise<PipelineStage | undefined> {
+    return this.stages.get(id);
+  }
+
+  async createPipelineStage(input: NewPipelineStage): Promise<PipelineStage> {
+    const now = new Date();
+    const stage: PipelineStage = {
+      id: input.id ?? randomUUID(),
+      pipeline_id: input.pipeline_id,
+      name: input.name,
+      order_index: input.order_index,
+      color: input.color ?? "#3B82F6",
+      is_active: input.is_active ?? true,
+      default_probability: input.default_probability ?? 20,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.stages.set(stage.id, stage);
+    return stage;
+  }
+
+  async updatePipelineStage(id: string, patch: Partial<NewPipelineStage>): Promise<PipelineStage | undefined> {
+    const current = this.stages.get(id);
+    if (!current) return undefined;
+    const updated: PipelineStage = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.stages.set(id, updated);
+    return updated;
+  }
+
+  async renameDealStage(pipelineId: string, from: string, to: string): Promise<number> {
+    let changed = 0;
+    for (const deal of Array.from(this.deals.values())) {
+      if (deal.pipeline_id !== pipelineId || deal.stage !== from) continue;
+      this.deals.set(deal.id, { ...deal, stage: to });
+      changed += 1;
+    }
+    for (const transition of Array.from(this.transitions.values())) {
+      if (transition.pipeline_id !== pipelineId) continue;
+      this.transitions.set(transition.id, {
+        ...transition,
+        from_stage: transition.from_stage === from ? to : transition.from_stage,
+        to_stage: transition.to_stage === from ? to : transition.to_stage,
+      });
+    }
+    return changed;
+  }
+
+  /* Deal stage transitions */
+  async getDealStageTransitions(filters: StageTransitionFilters = {}): Promise<DealStageTransition[]> {
+    // Map conserva el orden de inserción, que desempata los cambios del mismo milisegundo
+    return Array.from(this.transitions.values())
+      .filter((transition) => !filters.deal_id || transition.deal_id === filters.deal_id)
+      .filter((transition) => !filters.pipeline_id || transition.pipeline_id === filters.pipeline_id)
+      .sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime());
+  }
+
+  async createDealStageTransition(input: NewDealStageTransition): Promise<DealStageTransition> {
+    const transition: DealStageTransition = {
+      id: input.id ?? randomUUID(),
+      deal_id: input.deal_id,
+      pipeline_id: input.pipeline_id ?? null,
+      from_stage: input.from_stage ?? null,
+      to_stage: input.to_stage,
+      from_status: input.from_status ?? null,
+      to_status: input.to_status,
+      from_probability: input.from_probability ?? null,
+      to_probability: input.to_probability ?? null,
+      changed_by: input.changed_by ?? null,
+      changed_at: input.changed_at ?? new Date(),
+    };
+    this.transitions.set(transition.id, transition);
+    return transition;
+  }
+
+  /* Import jobs */
+  async getImportJobs(filters: ImportJobFilters = {}): Promise<ImportJob[]> {
+    const jobs = newestFirst(this.importJobs)
+      .filter((job) => !filters.created_by || job.created_by === filters.created_by)
+      .filter((job) => !filters.status || filters.status.includes(job.status));
+    return applyLimit(jobs, filters.limit);
+  }
+
+  async getImportJob(id: string): Promise<ImportJob | undefined> {
+    return this.importJobs.get(id);
+  }
+
+  async createImportJob(input: NewImportJob): Promise<ImportJob> {
+    const now = new Date();
+    const job: ImportJob = {
+      id: input.id ?? randomUUID(),
+      entity: input.entity,
+      status: input.status ?? "pending",
+      file_name: input.file_name ?? null,
+      mapping: input.mapping,
+      total_rows: input.total_rows ?? 0,
+      processed_rows: input.processed_rows ?? 0,
+      imported_rows: input.imported_rows ?? 0,
+      failed_rows: input.failed_rows ?? 0,
+      error: input.error ?? null,
+      created_by: input.created_by ?? null,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+      finished_at: input.finished_at ?? null,
+    };
+    this.importJobs.set(job.id, job);
+    return job;
+  }
+
+  async updateImportJob(id: string, patch: Partial<NewImportJob>): Promise<ImportJob | undefined> {
+    const current = this.importJobs.get(id);
+    if (!current) return undefined;
+    const updated: ImportJob = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.importJobs.set(id, updated);
+    return updated;
+  }
+
+  async createImportJobRows(rows: NewImportJobRow[]): Promise<void> {
+    for (const input of rows) {
+      const row: ImportJobRow = {
+        id: input.id ?? randomUUID(),
+        job_id: input.job_id,
+        row_number: input.row_number,
+        data: input.data,
+        status: input.status ?? "pending",
+        error: input.error ?? null,
+        record_id: input.record_id ?? null,
+      };
+      this.importRows.set(row.id, row);
+    }
+  }
+
+  async getImportJobRows(jobId: string, filters: ImportJobRowFilters = {}): Promise<ImportJobRow[]> {
+    const rows = Array.from(this.importRows.values())
+      .filter((row) => row.job_id === jobId)
+      .filter((row) => !filters.status || row.status === filters.status)
+      .sort((a, b) => a.row_number - b.row_number);
+    return applyLimit(rows, filters.limit);
+  }
+
+  async updateImportJobRow(id: string, patch: ImportJobRowPatch): Promise<ImportJobRow | undefined> {
+    const current = this.importRows.get(id);
+    if (!current) return undefined;
+    const updated: ImportJobRow = { ...current, ...patch, id };
+    this.importRows.set(id, updated);
+    return updated;
+  }
+
+  /* Saved views */
+  async getSavedViews(filters: SavedViewFilters = {}): Promise<SavedView[]> {
+    return Array.from(this.savedViews.values())
+      .filter((view) => !filters.list || view.list === filters.list)
+      .filter((view) => !filters.visible_to || view.shared || view.owner_id === filters.visible_to)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSavedView(id: string): Promise<SavedView | undefined> {
+    return this.savedViews.get(id);
+  }
+
+  async createSavedView(input: NewSavedView): Promise<SavedView> {
+    const now = new Date();
+    const view: SavedView = {
+      id: input.id ?? randomUUID(),
+      list: input.list,
+      name: input.name,
+      owner_id: input.owner_id,
+      shared: input.shared ?? false,
+      config: input.config,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.savedViews.set(view.id, view);
+    return view;
+  }
+
+  async updateSavedView(id: string, patch: Partial<NewSavedView>): Promise<SavedView | undefined> {
+    const current = this.savedViews.get(id);
+    if (!current) return undefined;
+    const updated: SavedView = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.savedViews.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedView(id: string): Promise<boolean> {
+    this.savedViewDefaults.forEach((entry, key) => {
+      if (entry.view_id === id) this.savedViewDefaults.delete(key);
+    });
+    return this.savedViews.delete(id);
+  }
+
+  async getSavedViewDefaults(userId: string): Promise<SavedViewDefault[]> {
+    return Array.from(this.savedViewDefaults.values()).filter((entry) => entry.user_id === userId);
+  }
+
+  async setSavedViewDefault(userId: string, list: SavedView["list"], viewId: string | null): Promise<void> {
+    const key = `${userId}:${list}`;
+    if (!viewId) {
+      this.savedViewDefaults.delete(key);
+      return;
+    }
+    const current = this.savedViewDefaults.get(key);
+    this.savedViewDefaults.set(key, { id: current?.id ?? randomUUID(), user_id: userId, list, view_id: viewId });
+  }
+
+  /* Custom fields */
+  async getCustomFields(entity?: CustomFieldEntity): Promise<CustomField[]> {
+    return Array.from(this.customFields.values())
+      .filter((field) => !entity || field.entity === entity)
+      .sort((a, b) => a.order_index - b.order_index);
+  }
+
+  async getCustomField(id: string): Promise<CustomField | undefined> {
+    return this.customFields.get(id);
+  }
+
+  async createCustomField(input: NewCustomField): Promise<CustomField> {
+    const now = new Date();
+    const field: CustomField = {
+      id: input.id ?? randomUUID(),
+      entity: input.entity,
+      key: input.key,
+      label: input.label,
+      type: input.type,
+      options: input.options ?? [],
+      order_index: input.order_index ?? 0,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.customFields.set(field.id, field);
+    return field;
+  }
+
+  async updateCustomField(id: string, patch: Partial<NewCustomField>): Promise<CustomField | undefined> {
+    const current = this.customFields.get(id);
+    if (!current) return undefined;
+    const updated: CustomField = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.customFields.set(id, updated);
+    return updated;
+  }
+
+  async deleteCustomField(id: string): Promise<boolean> {
+    return this.customFields.delete(id);
+  }
+
+  /* Tags */
+  async getTags(): Promise<Tag[]> {
+    return Array.from(this.tags.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    return this.tags.get(id);
+  }
+
+  async createTag(input: NewTag): Promise<Tag> {
+    const now = new Date();
+    const tag: Tag = {
+      id: input.id ?? randomUUID(),
+      name: input.name,
+      color: input.color ?? "#64748B",
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.tags.set(tag.id, tag);
+    return tag;
+  }
+
+  async updateTag(id: string, patch: Partial<NewTag>): Promise<Tag | undefined> {
+    const current = this.tags.get(id);
+    if (!current) return undefined;
+    const updated: Tag = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.tags.set(id, updated);
+    return updated;
+  }
+
+  async deleteTag(id: string): Promise<boolean> {
+    return this.tags.delete(id);
+  }
+
+  /* Automations */
+  async getAutomationRules(filters: AutomationRuleFilters = {}): Promise<AutomationRule[]> {
+    return Array.from(this.automationRules.values())
+      .filter((rule) => !filters.trigger || rule.trigger === filters.trigger)
+      .filter((rule) => filters.enabled === undefined || rule.enabled === filters.enabled);
+  }
+
+  async getAutomationRule(id: string): Promise<AutomationRule | undefined> {
+    return this.automationRules.get(id);
+  }
+
+  async createAutomationRule(input: NewAutomationRule): Promise<AutomationRule> {
+    const now = new Date();
+    const rule: AutomationRule = {
+      id: input.id ?? randomUUID(),
+      name: input.name,
+      trigger: input.trigger,
+      enabled: input.enabled ?? true,
+      conditions: input.conditions ?? [],
+      actions: input.actions,
+      created_by: input.created_by ?? null,
+      last_run_at: input.last_run_at ?? null,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.automationRules.set(rule.id, rule);
+    return rule;
+  }
+
+  async updateAutomationRule(id: string, patch: Partial<NewAutomationRule>): Promise<AutomationRule | undefined> {
+    const current = this.automationRules.get(id);
+    if (!current) return undefined;
+    const updated: AutomationRule = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.automationRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAutomationRule(id: string): Promise<boolean> {
+    this.automationRuns.forEach((run, runId) => {
+      if (run.rule_id === id) this.automationRuns.delete(runId);
+    });
+    return this.automationRules.delete(id);
+  }
+
+  async getAutomationRuns(filters: AutomationRunFilters = {}): Promise<AutomationRun[]> {
+    const runs = newestFirst(this.automationRuns)
+      .filter((run) => !filters.rule_id || run.rule_id === filters.rule_id)
+      .filter((run) => !filters.trigger || run.trigger === filters.trigger)
+      .filter((run) => !filters.entity_id || run.entity_id === filters.entity_id);
+    return applyLimit(runs, filters.limit);
+  }
+
+  async createAutomationRun(input: NewAutomationRun): Promise<AutomationRun> {
+    const run: AutomationRun = {
+      id: input.id ?? randomUUID(),
+      rule_id: input.rule_id,
+      trigger: input.trigger,
+      entity_type: input.entity_type,
+      entity_id: input.entity_id,
+      entity_label: input.entity_label ?? null,
+      status: input.status,
+      results: input.results ?? [],
+      created_at: input.created_at ?? new Date(),
+    };
+    this.automationRuns.set(run.id, run);
+    return run;
+  }
+
+  async updateAutomationRun(id: string, patch: Partial<NewAutomationRun>): Promise<AutomationRun | undefined> {
+    const current = this.automationRuns.get(id);
+    if (!current) return undefined;
+    const updated: AutomationRun = { ...current, ...patch, id };
+    this.automationRuns.set(id, updated);
+    return updated;
+  }
+
+  /* Deal alert rules */
+  async getDealAlertRuleSettings(): Promise<DealAlertRuleSetting[]> {
+    return Array.from(this.dealAlertRuleSettings.values());
+  }
+
+  async saveDealAlertRuleSetting(input: NewDealAlertRuleSetting): Promise<DealAlertRuleSetting> {
+    const setting: DealAlertRuleSetting = {
+      rule: input.rule,
+      enabled: input.enabled ?? true,
+      severity: input.severity ?? null,
+      params: input.params ?? {},
+      recommended_action: input.recommended_action ?? null,
+      updated_by: input.updated_by ?? null,
+      updated_at: input.updated_at ?? new Date(),
+    };
+    this.dealAlertRuleSettings.set(setting.rule, setting);
+    return setting;
+  }
+
+  /* SLA */
+  async getSlaPolicies(): Promise<SlaPolicyRow[]> {
+    return Array.from(this.slaPolicies.values());
+  }
+
+  async createSlaPolicy(input: NewSlaPolicyRow): Promise<SlaPolicyRow> {
+    const policy: SlaPolicyRow = {
+      id: input.id ?? randomUUID(),
+      stage_id: input.stage_id ?? null,
+      sla_hot_days: input.sla_hot_days ?? null,
+      sla_warm_days: input.sla_warm_days ?? null,
+      sla_cold_days: input.sla_cold_days ?? null,
+      risk_medium: input.risk_medium ?? null,
+      risk_high: input.risk_high ?? null,
+      escalate_manager_after_days: input.escalate_manager_after_days ?? null,
+      escalate_task_after_days: input.escalate_task_after_days ?? null,
+      updated_by: input.updated_by ?? null,
+      updated_at: input.updated_at ?? new Date(),
+    };
+    this.slaPolicies.set(policy.id, policy);
+    return policy;
+  }
+
+  async updateSlaPolicy(id: string, patch: Partial<NewSlaPolicyRow>): Promise<SlaPolicyRow | undefined> {
+    const current = this.slaPolicies.get(id);
+    if (!current) return undefined;
+    const updated: SlaPolicyRow = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.slaPolicies.set(id, updated);
+    return updated;
+  }
+
+  async deleteSlaPolicy(id: string): Promise<boolean> {
+    return this.slaPolicies.delete(id);
+  }
+
+  async getSlaEscalations(filters: SlaEscalationFilters = {}): Promise<SlaEscalation[]> {
+    const escalations = newestFirst(this.slaEscalations)
+      .filter((escalation) => !filters.deal_id || escalation.deal_id === filters.deal_id)
+      .filter((escalation) => inOwnerScope(filters.owner_ids, this.deals.get(escalation.deal_id)?.owner_id ?? null));
+    return applyLimit(escalations, filters.limit);
+  }
+
+  async createSlaEscalation(input: NewSlaEscalation): Promise<SlaEscalation> {
+    const escalation: SlaEscalation = {
+      id: input.id ?? randomUUID(),
+      deal_id: input.deal_id,
+      step: input.step,
+      last_activity: input.last_activity,
+      breach_days: input.breach_days,
+      notified_user_id: input.notified_user_id ?? null,
+      task_id: input.task_id ?? null,
+      created_at: input.created_at ?? new Date(),
+    };
+    this.slaEscalations.set(escalation.id, escalation);
+    return escalation;
+  }
+
+  /* Alertas de deals */
+  async getDealAlerts(filters: DealAlertFilters = {}): Promise<DealAlertRecord[]> {
+    const alerts = newestFirst(this.dealAlerts)
+      .filter((alert) => !filters.deal_id || alert.deal_id === filters.deal_id)
+      .filter((alert) => !filters.status || filters.status.includes(alert.status))
+      .filter((alert) => inOwnerScope(filters.owner_ids, alert.owner_id))
+      .filter((alert) => !filters.active || alert.cleared_at === null)
+      .filter((alert) => !filters.from || (alert.created_at !== null && alert.created_at >= filters.from))
+      .filter((alert) => !filters.to || (alert.created_at !== null && alert.created_at <= filters.to));
+    return applyLimit(alerts, filters.limit);
+  }
+
+  async getDealAlert(id: string): Promise<DealAlertRecord | undefined> {
+    return this.dealAlerts.get(id);
+  }
+
+  async createDealAlert(input: NewDealAlertRecord): Promise<DealAlertRecord> {
+    const alert: DealAlertRecord = {
+      id: input.id ?? randomUUID(),
+      deal_id: input.deal_id,
+      owner_id: input.owner_id ?? null,
+      rules: input.rules ?? [],
+      severity: input.severity,
+      message: input.message,
+      status: input.status ?? "open",
+      snoozed_until: input.snoozed_until ?? null,
+      reason: input.reason ?? null,
+      note: input.note ?? null,
+      closed_at: input.closed_at ?? null,
+      closed_by: input.closed_by ?? null,
+      cleared_at: input.cleared_at ?? null,
+      created_at: input.created_at ?? new Date(),
+      updated_at: input.updated_at ?? new Date(),
+    };
+    this.dealAlerts.set(alert.id, alert);
+    return alert;
+  }
+
+  async updateDealAlert(id: string, patch: Partial<NewDealAlertRecord>): Promise<DealAlertRecord | undefined> {
+    const current = this.dealAlerts.get(id);
+    if (!current) return undefined;
+    const updated: DealAlertRecord = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.dealAlerts.set(id, updated);
+    return updated;
+  }
+
+  /* Canales de alertas */
+  async getAlertChannels(): Promise<AlertChannel[]> {
+    return Array.from(this.alertChannels.values());
+  }
+
+  async getAlertChannel(id: string): Promise<AlertChannel | undefined> {
+    return this.alertChannels.get(id);
+  }
+
+  async createAlertChannel(input: NewAlertChannel): Promise<AlertChannel> {
+    const now = new Date();
+    const channel: AlertChannel = {
+      id: input.id ?? randomUUID(),
+      name: input.name,
+      format: input.format,
+      url: input.url,
+      enabled: input.enabled ?? true,
+      severity: input.severity ?? "all",
+      owner_ids: input.owner_ids ?? [],
+      pipeline_ids: input.pipeline_ids ?? [],
+      interval_hours: input.interval_hours ?? DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS,
+      last_sent_at: input.last_sent_at ?? null,
+      created_by: input.created_by ?? null,
+      created_at: input.created_at ?? now,
+      updated_at: input.updated_at ?? now,
+    };
+    this.alertChannels.set(channel.id, channel);
+    return channel;
+  }
+
+  async updateAlertChannel(id: string, patch: Partial<NewAlertChannel>): Promise<AlertChannel | undefined> {
+    const current = this.alertChannels.get(id);
+    if (!current) return undefined;
+    const updated: AlertChannel = { ...current, ...patch, id, updated_at: patch.updated_at ?? new Date() };
+    this.alertChannels.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertChannel(id: string): Promise<boolean> {
+    this.alertDeliveries.forEach((delivery, deliveryId) => {
+      if (delivery.channel_id === id) this.alertDeliveries.delete(deliveryId);
+    });
+    return this.alertChannels.delete(id);
+  }
+
+  async getAlertDeliveries(filters: AlertDeliveryFilters = {}): Promise<AlertDelivery[]> {
+    const deliveries = newestFirst(this.alertDeliveries).filter(
+      (delivery) => !filters.channel_id || delivery.channel_id === filters.channel_id,
+    );
+    return applyLimit(deliveries, filters.limit);
+  }
+
+  async createAlertDelivery(input: NewAlertDelivery): Promise<AlertDelivery> {
+    const delivery: AlertDelivery = {
+      id: input.id ?? randomUUID(),
+      channel_id: input.channel_id,
+      trigger: input.trigger,
+      status: input.status,
+      alert_count: input.alert_count ?? 0,
+      attempts: input.attempts ?? 1,
+      response_status: input.response_status ?? null,
+      error: input.error ?? null,
+      created_at: input.created_at ?? new Date(),
+    };
+    this.alertDeliveries.set(delivery.id, delivery);
+    return delivery;
+  }
+}
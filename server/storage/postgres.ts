@@ -0,0 +1,25 @@
+import path from "path";
+import pg from "pg";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as schema from "@shared/schema";
+import { DatabaseStorage } from "./database";
+
+const PostgresSessionStore = connectPg(session);
+
+export const MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations");
+
+/**
+ * Conecta con Postgres (`DATABASE_URL`), aplica las migraciones pendientes de
+ * `migrations/` y devuelve el storage listo para usar. Las sesiones se guardan
+ * en la misma base (tabla `session`).
+ */
+export async function createPostgresStorage(connectionString: string): Promise<DatabaseStorage> {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  const sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  return new DatabaseStorage(db, sessionStore);
+}
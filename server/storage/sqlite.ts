@@ -0,0 +1,1207 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import session from "express-session";
+import initSqlJs, { type Database } from "sql.js";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, or, sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { drizzle, type SQLJsDatabase } from "drizzle-orm/sql-js";
+import { migrate } from "drizzle-orm/sql-js/migrator";
+import type {
+  User,
+  InsertUser,
+  NewUser,
+  Company,
+  NewCompany,
+  Contact,
+  NewContact,
+  Deal,
+  NewDeal,
+  Task,
+  NewTask,
+  TimelineEntry,
+  NewTimelineEntry,
+  Pipeline,
+  NewPipeline,
+  PipelineStage,
+  NewPipelineStage,
+  DealStageTransition,
+  NewDealStageTransition,
+  ImportJob,
+  NewImportJob,
+  ImportJobRow,
+  NewImportJobRow,
+  SavedView,
+  NewSavedView,
+  SavedViewDefault,
+  CustomField,
+  NewCustomField,
+  Tag,
+  NewTag,
+  AutomationRule,
+  NewAutomationRule,
+  AutomationRun,
+  NewAutomationRun,
+  DealAlertRuleSetting,
+  NewDealAlertRuleSetting,
+  SlaPolicyRow,
+  NewSlaPolicyRow,
+  SlaEscalation,
+  NewSlaEscalation,
+  DealAlertRecord,
+  NewDealAlertRecord,
+  AlertChannel,
+  NewAlertChannel,
+  AlertDelivery,
+  NewAlertDelivery,
+} from "@shared/schema";
+import type { CustomFieldEntity } from "@shared/customFields";
+import * as schema from "./sqliteSchema";
+import {
+  alert_channels,
+  alert_deliveries,
+  automation_rules,
+  automation_runs,
+  companies,
+  contacts,
+  custom_fields,
+  deal_alert_rule_settings,
+  deal_alerts,
+  deal_stage_transitions,
+  deals,
+  import_job_rows,
+  import_jobs,
+  pipelines,
+  pipeline_stages,
+  saved_view_defaults,
+  saved_views,
+  sessions,
+  sla_escalations,
+  sla_policies,
+  tags,
+  tasks,
+  timeline_entries,
+  users,
+} from "./sqliteSchema";
+import {
+  type AlertDeliveryFilters,
+  type AutomationRuleFilters,
+  type AutomationRunFilters,
+  type ContactFilters,
+  type DealAlertFilters,
+  type DealFilters,
+  type DealScope,
+  type ImportJobFilters,
+  type ImportJobRowFilters,
+  type ImportJobRowPatch,
+  type IStorage,
+  type SlaEscalationFilters,
+  type SavedViewFilters,
+  type QuickMetrics,
+  type StageTransitionFilters,
+  type TaskFilters,
+  type TimelineFilters,
+  type UserFilters,
+} from "./types";
+
+export const SQLITE_MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations", "sqlite");
+
+type SqliteDatabase = SQLJsDatabase<typeof schema>;
+
+// lower() de SQLite solo entiende ASCII; registramos uno con las reglas de JS (ñ, tildes...)
+function configureConnection(client: Database) {
+  client.run("PRAGMA foreign_keys = ON");
+  client.create_function("js_lower", (value: string | null) => value?.toLowerCase() ?? null);
+}
+
+// SQLite no tiene ILIKE: comparamos en minúsculas
+function searchCondition(term: string | undefined, ...columns: SQLWrapper[]) {
+  const normalized = term?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  const pattern = `%${normalized.replace(/[\\%_]/g, "\\$&")}%`;
+  return or(...columns.map((column) => sql`js_lower(${column}) like ${pattern} escape '\\'`));
+}
+
+/** Condición de alcance por propietario; una lista vacía no deja pasar ninguna fila. */
+function ownerScopeCondition(column: SQLiteColumn, ownerIds: string[] | undefined): SQL | undefined {
+  if (!ownerIds) return undefined;
+  return ownerIds.length > 0 ? inArray(column, ownerIds) : sql`0`;
+}
+
+/** Espera máxima entre una escritura y su volcado al fichero. */
+export const SQLITE_FLUSH_DELAY_MS = 200;
+
+// Filas por INSERT al volcar un fichero, por debajo del límite de variables de SQLite
+const IMPORT_ROWS_BATCH = 100;
+
+// created_at tiene resolución de milisegundos; rowid desempata por orden de inserción
+const newestFirst = (column: SQLWrapper) => [desc(column), sql`rowid desc`];
+
+/** Señales de parada (Ctrl+C, `docker stop`) tras las que se vuelca el fichero antes de salir. */
+const SHUTDOWN_SIGNALS = ["SIGINT", "SIGTERM"] as const;
+
+// Sin fecha de caducidad en la cookie, la sesión dura lo mismo que la de memorystore
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sesiones en la tabla `sessions` del fichero: sobreviven a los reinicios como
+ * en Postgres. Las escrituras se vuelcan con las del resto de la base.
+ */
+class SqliteSessionStore extends session.Store {
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly onWrite: () => void,
+  ) {
+    super();
+  }
+
+  private expireOf(data: session.SessionData): Date {
+    return data.cookie.expires ? new Date(data.cookie.expires) : new Date(Date.now() + DEFAULT_SESSION_TTL_MS);
+  }
+
+  get(sid: string, callback: (error: unknown, data?: session.SessionData | null) => void) {
+    try {
+      const row = this.db.select().from(sessions).where(eq(sessions.sid, sid)).get();
+      if (row && row.expire.getTime() <= Date.now()) {
+        this.destroy(sid);
+        return callback(null, null);
+      }
+      callback(null, row ? (JSON.parse(row.sess) as session.SessionData) : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (error?: unknown) => void) {
+    try {
+      const row = { sid, sess: JSON.stringify(data), expire: this.expireOf(data) };
+      // De paso se limpian las caducadas
+      this.db.delete(sessions).where(lte(sessions.expire, new Date())).run();
+      this.db.insert(sessions).values(row).onConflictDoUpdate({ target: sessions.sid, set: row }).run();
+      this.onWrite();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: (error?: unknown) => void) {
+    try {
+      this.db.delete(sessions).where(eq(sessions.sid, sid)).run();
+      this.onWrite();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  // Alarga la caducidad en cada petición: no programa un volcado, se guarda con la siguiente escritura
+  touch(sid: string, data: session.SessionData, callback?: (error?: unknown) => void) {
+    try {
+      this.db.update(sessions).set({ expire: this.expireOf(data) }).where(eq(sessions.sid, sid)).run();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+}
+
+/**
+ * Storage embebido en un fichero SQLite (sql.js, sin binarios nativos).
+ * La base vive en memoria y se vuelca al fichero como mucho
+ * `SQLITE_FLUSH_DELAY_MS` después de cada escritura, al cerrar y al salir,
+ * también por SIGINT o SIGTERM.
+ */
+export class SqliteStorage implements IStorage {
+  readonly sessionStore: session.Store;
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Hay escrituras que aún no están en el fichero; sigue a true si un volcado falla
+  private dirty = false;
+
+  private constructor(
+    private readonly client: Database,
+    private readonly db: SqliteDatabase,
+    private readonly filename: string | null,
+  ) {
+    this.sessionStore = new SqliteSessionStore(db, () => this.scheduleFlush());
+  }
+
+  /**
+   * Abre (o crea) la base en `filename` y aplica las migraciones pendientes.
+   * Sin `filename` la base es solo de memoria (tests).
+   */
+  static async open(filename: string | null = null): Promise<SqliteStorage> {
+    const SQL = await initSqlJs();
+    const data = filename && fs.existsSync(filename) ? fs.readFileSync(filename) : undefined;
+    const client = new SQL.Database(data);
+    configureConnection(client);
+
+    const db = drizzle(client, { schema });
+    migrate(db, { migrationsFolder: SQLITE_MIGRATIONS_FOLDER });
+
+    const storage = new SqliteStorage(client, db, filename);
+    storage.flush();
+    if (filename) {
+      process.on("exit", storage.flushOnExit);
+      for (const signal of SHUTDOWN_SIGNALS) process.on(signal, storage.flushOnSignal);
+    }
+    return storage;
+  }
+
+  /**
+   * Programa el volcado al fichero. Las escrituras que llegan mientras tanto
+   * se vuelcan juntas: exportar la base entera tras cada una bloquearía el
+   * servidor en las importaciones grandes.
+   */
+  private scheduleFlush() {
+    if (!this.filename) return;
+    this.dirty = true;
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.tryFlush(), SQLITE_FLUSH_DELAY_MS);
+    // El volcado pendiente no mantiene vivo el proceso: se hace al salir
+    this.flushTimer.unref();
+  }
+
+  // Propiedades flecha para poder quitarlas de los listeners del proceso en close()
+  private readonly flushOnExit = () => {
+    if (this.dirty) this.flush();
+  };
+
+  // Con un listener propio Node ya no sale solo: tras volcar, sale con el código habitual de la señal
+  private readonly flushOnSignal = (signal: NodeJS.Signals) => {
+    if (this.dirty) this.tryFlush();
+    process.exit(128 + os.constants.signals[signal]);
+  };
+
+  /** Volcado fuera de una petición: un fallo se registra y el siguiente volcado lo reintenta. */
+  private tryFlush() {
+    try {
+      this.flush();
+    } catch (error) {
+      console.error("[SQLite] No se pudo volcar la base al fichero", error);
+    }
+  }
+
+  private flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.filename) return;
+    const data = this.client.export();
+    // export() reabre la base: se pierden pragmas y funciones registradas
+    configureConnection(this.client);
+    fs.mkdirSync(path.dirname(this.filename), { recursive: true });
+    const tmp = `${this.filename}.tmp`;
+    fs.writeFileSync(tmp, data);
+    fs.renameSync(tmp, this.filename);
+    this.dirty = false;
+  }
+
+  close() {
+    this.flushOnExit();
+    process.off("exit", this.flushOnExit);
+    for (const signal of SHUTDOWN_SIGNALS) process.off(signal, this.flushOnSignal);
+    this.client.close();
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.db.select().from(users).where(eq(users.id, id)).get();
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.db.select().from(users).where(eq(users.username, username)).get();
+  }
+
+  async getUsers(filters: UserFilters = {}): Promise<User[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.role) conditions.push(eq(users.role, filters.role));
+    if (filters.manager_id) conditions.push(eq(users.manager_id, filters.manager_id));
+    return this.db.select().from(users).where(and(...conditions)).orderBy(asc(users.username)).all();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = this.db.insert(users).values(insertUser).returning().get();
+    this.scheduleFlush();
+    return user;
+  }
+
+  async registerUser(insertUser: InsertUser): Promise<User> {
+    const existing = this.db.select({ id: users.id }).from(users).limit(1).get();
+    return this.createUser({ ...insertUser, role: existing ? insertUser.role : "Admin" });
+  }
+
+  async updateUser(id: string, patch: Partial<NewUser>): Promise<User | undefined> {
+    const user = this.db
+      .update(users)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(users.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return user;
+  }
+
+  /* Companies */
+  async getCompanies(): Promise<Company[]> {
+    return this.db.select().from(companies).orderBy(...newestFirst(companies.created_at)).all();
+  }
+
+  async getCompany(id: string): Promise<Company | undefined> {
+    return this.db.select().from(companies).where(eq(companies.id, id)).get();
+  }
+
+  async getCompanyByName(name: string): Promise<Company | undefined> {
+    const normalized = name.trim().toLowerCase();
+    return this.db.select().from(companies).where(sql`js_lower(${companies.name}) = ${normalized}`).get();
+  }
+
+  async createCompany(input: NewCompany): Promise<Company> {
+    const company = this.db.insert(companies).values(input).returning().get();
+    this.scheduleFlush();
+    return company;
+  }
+
+  async updateCompany(id: string, patch: Partial<NewCompany>): Promise<Company | undefined> {
+    const company = this.db
+      .update(companies)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(companies.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return company;
+  }
+
+  async deleteCompany(id: string): Promise<boolean> {
+    const deleted = this.db.delete(companies).where(eq(companies.id, id)).returning({ id: companies.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Contacts */
+  async getContacts(filters: ContactFilters = {}): Promise<Contact[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.company_id) conditions.push(eq(contacts.company_id, filters.company_id));
+    if (filters.owner_id) conditions.push(eq(contacts.owner_id, filters.owner_id));
+    conditions.push(ownerScopeCondition(contacts.owner_id, filters.owner_ids));
+    conditions.push(searchCondition(filters.search, contacts.name, contacts.email, contacts.phone));
+
+    const query = this.db
+      .select()
+      .from(contacts)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(contacts.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async getContact(id: string): Promise<Contact | undefined> {
+    return this.db.select().from(contacts).where(eq(contacts.id, id)).get();
+  }
+
+  async createContact(input: NewContact): Promise<Contact> {
+    const contact = this.db.insert(contacts).values(input).returning().get();
+    this.scheduleFlush();
+    return contact;
+  }
+
+  async updateContact(id: string, patch: Partial<NewContact>): Promise<Contact | undefined> {
+    const contact = this.db
+      .update(contacts)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(contacts.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return contact;
+  }
+
+  async deleteContact(id: string): Promise<boolean> {
+    const deleted = this.db.delete(contacts).where(eq(contacts.id, id)).returning({ id: contacts.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Deals */
+  async getDeals(filters: DealFilters = {}): Promise<Deal[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.status) conditions.push(eq(deals.status, filters.status));
+    if (filters.stage) conditions.push(eq(deals.stage, filters.stage));
+    if (filters.priority) conditions.push(eq(deals.priority, filters.priority));
+    if (filters.risk_level) conditions.push(eq(deals.risk_level, filters.risk_level));
+    if (filters.owner_id) conditions.push(eq(deals.owner_id, filters.owner_id));
+    conditions.push(ownerScopeCondition(deals.owner_id, filters.owner_ids));
+    if (filters.contact_id) conditions.push(eq(deals.contact_id, filters.contact_id));
+    if (filters.company_id) conditions.push(eq(deals.company_id, filters.company_id));
+    if (filters.pipeline_id) conditions.push(eq(deals.pipeline_id, filters.pipeline_id));
+    conditions.push(searchCondition(filters.search, deals.title, deals.company));
+
+    const query = this.db
+      .select()
+      .from(deals)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(deals.updated_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    return this.db.select().from(deals).where(eq(deals.id, id)).get();
+  }
+
+  async getStalledDeals(limit = 5, scope: DealScope = {}): Promise<Deal[]> {
+    // Mismo criterio que isStalledDeal: sin próximo paso o con la fecha objetivo vencida
+    return this.db
+      .select()
+      .from(deals)
+      .where(
+        and(
+          eq(deals.status, "Open"),
+          ownerScopeCondition(deals.owner_id, scope.owner_ids),
+          or(
+            isNull(deals.next_step),
+            sql`trim(${deals.next_step}) = ''`,
+            lt(deals.target_close_date, new Date()),
+          ),
+        ),
+      )
+      .orderBy(desc(deals.inactivity_days))
+      .limit(limit)
+      .all();
+  }
+
+  async getQuickMetrics(scope: DealScope = {}): Promise<QuickMetrics> {
+    const row = this.db
+      .select({
+        open: sql<number>`count(case when ${deals.status} = 'Open' then 1 end)`.mapWith(Number),
+        won: sql<number>`count(case when ${deals.status} = 'Won' then 1 end)`.mapWith(Number),
+        lost: sql<number>`count(case when ${deals.status} = 'Lost' then 1 end)`.mapWith(Number),
+        // amount se guarda en céntimos
+        sumOpen: sql<number>`coalesce(sum(case when ${deals.status} = 'Open' then ${deals.amount} end), 0)`.mapWith(
+          (cents) => Number(cents) / 100,
+        ),
+      })
+      .from(deals)
+      .where(ownerScopeCondition(deals.owner_id, scope.owner_ids))
+      .get();
+    return row ?? { open: 0, won: 0, lost: 0, sumOpen: 0 };
+  }
+
+  async createDeal(input: NewDeal): Promise<Deal> {
+    const deal = this.db.insert(deals).values(input).returning().get();
+    this.scheduleFlush();
+    return deal;
+  }
+
+  async updateDeal(id: string, patch: Partial<NewDeal>): Promise<Deal | undefined> {
+    const deal = this.db
+      .update(deals)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(deals.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return deal;
+  }
+
+  async deleteDeal(id: string): Promise<boolean> {
+    const deleted = this.db.delete(deals).where(eq(deals.id, id)).returning({ id: deals.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Tasks */
+  async getTasks(filters: TaskFilters = {}): Promise<Task[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.state) conditions.push(eq(tasks.state, filters.state));
+    if (filters.deal_id) conditions.push(eq(tasks.deal_id, filters.deal_id));
+    if (filters.contact_id) conditions.push(eq(tasks.contact_id, filters.contact_id));
+    if (filters.assigned_to) conditions.push(eq(tasks.assigned_to, filters.assigned_to));
+    conditions.push(this.taskScopeCondition(filters.owner_ids));
+
+    const query = this.db
+      .select()
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(tasks.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  /** Tareas asignadas a los owners o de deals o contactos suyos. */
+  private taskScopeCondition(ownerIds: string[] | undefined): SQL | undefined {
+    if (!ownerIds) return undefined;
+    return or(
+      ownerScopeCondition(tasks.assigned_to, ownerIds),
+      inArray(tasks.deal_id, this.ownedDealIds(ownerIds)),
+      inArray(tasks.contact_id, this.ownedContactIds(ownerIds)),
+    );
+  }
+
+  private ownedDealIds(ownerIds: string[]) {
+    return this.db.select({ id: deals.id }).from(deals).where(ownerScopeCondition(deals.owner_id, ownerIds));
+  }
+
+  private ownedContactIds(ownerIds: string[]) {
+    return this.db.select({ id: contacts.id }).from(contacts).where(ownerScopeCondition(contacts.owner_id, ownerIds));
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    return this.db.select().from(tasks).where(eq(tasks.id, id)).get();
+  }
+
+  async createTask(input: NewTask): Promise<Task> {
+    const task = this.db.insert(tasks).values(input).returning().get();
+    this.scheduleFlush();
+    return task;
+  }
+
+  async updateTask(id: string, patch: Partial<NewTask>): Promise<Task | undefined> {
+    const task = this.db
+      .update(tasks)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(tasks.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return task;
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    const deleted = this.db.delete(tasks).where(eq(tasks.id, id)).returning({ id: tasks.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Timeline */
+  async getTimelineEntries(filters: TimelineFilters = {}): Promise<TimelineEntry[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.entity_type) conditions.push(eq(timeline_entries.entity_type, filters.entity_type));
+    if (filters.entity_id) conditions.push(eq(timeline_entries.entity_id, filters.entity_id));
+    conditions.push(this.timelineScopeCondition(filters.owner_ids));
+
+    const query = this.db
+      .select()
+      .from(timeline_entries)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(timeline_entries.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  /** Entradas de deals, contactos y tareas dentro del alcance; las de empresas, siempre. */
+  private timelineScopeCondition(ownerIds: string[] | undefined): SQL | undefined {
+    if (!ownerIds) return undefined;
+    const { entity_type, entity_id } = timeline_entries;
+    const scopedTasks = this.db.select({ id: tasks.id }).from(tasks).where(this.taskScopeCondition(ownerIds));
+    return or(
+      eq(entity_type, "company"),
+      and(eq(entity_type, "deal"), inArray(entity_id, this.ownedDealIds(ownerIds))),
+      and(eq(entity_type, "contact"), inArray(entity_id, this.ownedContactIds(ownerIds))),
+      and(eq(entity_type, "task"), inArray(entity_id, scopedTasks)),
+    );
+  }
+
+  async getTimelineEntry(id: string): Promise<TimelineEntry | undefined> {
+    return this.db.select().from(timeline_entries).where(eq(timeline_entries.id, id)).get();
+  }
+
+  async createTimelineEntry(input: NewTimelineEntry): Promise<TimelineEntry> {
+    const entry = this.db.insert(timeline_entries).values(input).returning().get();
+    this.scheduleFlush();
+    return entry;
+  }
+
+  async updateTimelineEntry(
+    id: string,
+    patch: Partial<Pick<NewTimelineEntry, "description" | "metadata">>,
+  ): Promise<TimelineEntry | undefined> {
+    if (Object.keys(patch).length === 0) return this.getTimelineEntry(id);
+    const entry = this.db
+      .update(timeline_entries)
+      .set(patch)
+      .where(eq(timeline_entries.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return entry;
+  }
+
+  async deleteTimelineEntry(id: string): Promise<boolean> {
+    const deleted = this.db
+      .delete(timeline_entries)
+      .where(eq(timeline_entries.id, id))
+      .returning({ id: timeline_entries.id })
+      .all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  async moveTimelineEntries(entityType: string, fromId: string, toId: string): Promise<number> {
+    const moved = this.db
+      .update(timeline_entries)
+      .set({ entity_id: toId })
+      .where(and(eq(timeline_entries.entity_type, entityType), eq(timeline_entries.entity_id, fromId)))
+      .returning({ id: timeline_entries.id })
+      .all();
+    this.scheduleFlush();
+    return moved.length;
+  }
+
+  /* Pipelines */
+  async getPipelines(): Promise<Pipeline[]> {
+    return this.db.select().from(pipelines).orderBy(asc(pipelines.order_index), asc(pipelines.created_at)).all();
+  }
+
+  async getPipeline(id: string): Promise<Pipeline | undefined> {
+    return this.db.select().from(pipelines).where(eq(pipelines.id, id)).get();
+  }
+
+  async createPipeline(input: NewPipeline): Promise<Pipeline> {
+    const pipeline = this.db.insert(pipelines).values(input).returning().get();
+    this.scheduleFlush();
+    return pipeline;
+  }
+
+  async updatePipeline(id: string, patch: Partial<NewPipeline>): Promise<Pipeline | undefined> {
+    const pipeline = this.db
+      .update(pipelines)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(pipelines.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return pipeline;
+  }
+
+  async deletePipeline(id: string): Promise<boolean> {
+    // Las etapas caen en cascada (foreign_keys = ON)
+    const deleted = this.db.delete(pipelines).where(eq(pipelines.id, id)).returning({ id: pipelines.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Pipeline stages */
+  async getPipelineStages(pipelineId?: string): Promise<PipelineStage[]> {
+    return this.db
+      .select()
+      .from(pipeline_stages)
+      .where(pipelineId ? eq(pipeline_stages.pipeline_id, pipelineId) : undefined)
+      .orderBy(asc(pipeline_stages.order_index))
+      .all();
+  }
+
+  async getPipelineStage(id: string): Promise<PipelineStage | undefined> {
+    return this.db.select().from(pipeline_stages).where(eq(pipeline_stages.id, id)).get();
+  }
+
+  async createPipelineStage(input: NewPipelineStage): Promise<PipelineStage> {
+    const stage = this.db.insert(pipeline_stages).values(input).returning().get();
+    this.scheduleFlush();
+    return stage;
+  }
+
+  async updatePipelineStage(id: string, patch: Partial<NewPipelineStage>): Promise<PipelineStage | undefined> {
+    const stage = this.db
+      .update(pipeline_stages)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(pipeline_stages.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return stage;
+  }
+
+  async renameDealStage(pipelineId: string, from: string, to: string): Promise<number> {
+    // Renombrar no es actividad del deal: updated_at se conserva
+    const renamed = this.db
+      .update(deals)
+      .set({ stage: to })
+      .where(and(eq(deals.pipeline_id, pipelineId), eq(deals.stage, from)))
+      .returning({ id: deals.id })
+      .all();
+    this.db
+      .update(deal_stage_transitions)
+      .set({ from_stage: to })
+      .where(and(eq(deal_stage_transitions.pipeline_id, pipelineId), eq(deal_stage_transitions.from_stage, from)))
+      .run();
+    this.db
+      .update(deal_stage_transitions)
+      .set({ to_stage: to })
+      .where(and(eq(deal_stage_transitions.pipeline_id, pipelineId), eq(deal_stage_transitions.to_stage, from)))
+      .run();
+    this.scheduleFlush();
+    return renamed.length;
+  }
+
+  /* Deal stage transitions */
+  async getDealStageTransitions(filters: StageTransitionFilters = {}): Promise<DealStageTransition[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.deal_id) conditions.push(eq(deal_stage_transitions.deal_id, filters.deal_id));
+    if (filters.pipeline_id) conditions.push(eq(deal_stage_transitions.pipeline_id, filters.pipeline_id));
+    return this.db
+      .select()
+      .from(deal_stage_transitions)
+      .where(and(...conditions))
+      // changed_at tiene resolución de milisegundos; rowid desempata por orden de inserción
+      .orderBy(asc(deal_stage_transitions.changed_at), sql`rowid`)
+      .all();
+  }
+
+  async createDealStageTransition(input: NewDealStageTransition): Promise<DealStageTransition> {
+    const transition = this.db.insert(deal_stage_transitions).values(input).returning().get();
+    this.scheduleFlush();
+    return transition;
+  }
+
+  /* Import jobs */
+  async getImportJobs(filters: ImportJobFilters = {}): Promise<ImportJob[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.created_by) conditions.push(eq(import_jobs.created_by, filters.created_by));
+    if (filters.status) {
+      if (!filters.status.length) return [];
+      conditions.push(inArray(import_jobs.status, filters.status));
+    }
+    const query = this.db
+      .select()
+      .from(import_jobs)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(import_jobs.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async getImportJob(id: string): Promise<ImportJob | undefined> {
+    return this.db.select().from(import_jobs).where(eq(import_jobs.id, id)).get();
+  }
+
+  async createImportJob(input: NewImportJob): Promise<ImportJob> {
+    const job = this.db.insert(import_jobs).values(input).returning().get();
+    this.scheduleFlush();
+    return job;
+  }
+
+  async updateImportJob(id: string, patch: Partial<NewImportJob>): Promise<ImportJob | undefined> {
+    const job = this.db
+      .update(import_jobs)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(import_jobs.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return job;
+  }
+
+  async createImportJobRows(rows: NewImportJobRow[]): Promise<void> {
+    for (let start = 0; start < rows.length; start += IMPORT_ROWS_BATCH) {
+      this.db.insert(import_job_rows).values(rows.slice(start, start + IMPORT_ROWS_BATCH)).run();
+    }
+    this.scheduleFlush();
+  }
+
+  async getImportJobRows(jobId: string, filters: ImportJobRowFilters = {}): Promise<ImportJobRow[]> {
+    const query = this.db
+      .select()
+      .from(import_job_rows)
+      .where(
+        and(
+          eq(import_job_rows.job_id, jobId),
+          filters.status ? eq(import_job_rows.status, filters.status) : undefined,
+        ),
+      )
+      .orderBy(asc(import_job_rows.row_number))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async updateImportJobRow(id: string, patch: ImportJobRowPatch): Promise<ImportJobRow | undefined> {
+    const row = this.db.update(import_job_rows).set(patch).where(eq(import_job_rows.id, id)).returning().get();
+    this.scheduleFlush();
+    return row;
+  }
+
+  /* Saved views */
+  async getSavedViews(filters: SavedViewFilters = {}): Promise<SavedView[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.list) conditions.push(eq(saved_views.list, filters.list));
+    if (filters.visible_to) {
+      conditions.push(or(eq(saved_views.shared, true), eq(saved_views.owner_id, filters.visible_to)));
+    }
+    return this.db
+      .select()
+      .from(saved_views)
+      .where(and(...conditions))
+      .orderBy(asc(saved_views.name))
+      .all();
+  }
+
+  async getSavedView(id: string): Promise<SavedView | undefined> {
+    return this.db.select().from(saved_views).where(eq(saved_views.id, id)).get();
+  }
+
+  async createSavedView(input: NewSavedView): Promise<SavedView> {
+    const view = this.db.insert(saved_views).values(input).returning().get();
+    this.scheduleFlush();
+    return view;
+  }
+
+  async updateSavedView(id: string, patch: Partial<NewSavedView>): Promise<SavedView | undefined> {
+    const view = this.db
+      .update(saved_views)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(saved_views.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return view;
+  }
+
+  // Las vistas por defecto que la usaban se borran en cascada (foreign_keys = ON)
+  async deleteSavedView(id: string): Promise<boolean> {
+    const deleted = this.db.delete(saved_views).where(eq(saved_views.id, id)).returning({ id: saved_views.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  async getSavedViewDefaults(userId: string): Promise<SavedViewDefault[]> {
+    return this.db.select().from(saved_view_defaults).where(eq(saved_view_defaults.user_id, userId)).all();
+  }
+
+  async setSavedViewDefault(userId: string, list: SavedView["list"], viewId: string | null): Promise<void> {
+    if (!viewId) {
+      this.db
+        .delete(saved_view_defaults)
+        .where(and(eq(saved_view_defaults.user_id, userId), eq(saved_view_defaults.list, list)))
+        .run();
+    } else {
+      this.db
+        .insert(saved_view_defaults)
+        .values({ user_id: userId, list, view_id: viewId })
+        .onConflictDoUpdate({
+          target: [saved_view_defaults.user_id, saved_view_defaults.list],
+          set: { view_id: viewId },
+        })
+        .run();
+    }
+    this.scheduleFlush();
+  }
+
+  /* Custom fields */
+  async getCustomFields(entity?: CustomFieldEntity): Promise<CustomField[]> {
+    return this.db
+      .select()
+      .from(custom_fields)
+      .where(entity ? eq(custom_fields.entity, entity) : undefined)
+      .orderBy(asc(custom_fields.order_index))
+      .all();
+  }
+
+  async getCustomField(id: string): Promise<CustomField | undefined> {
+    return this.db.select().from(custom_fields).where(eq(custom_fields.id, id)).get();
+  }
+
+  async createCustomField(input: NewCustomField): Promise<CustomField> {
+    const field = this.db.insert(custom_fields).values(input).returning().get();
+    this.scheduleFlush();
+    return field;
+  }
+
+  async updateCustomField(id: string, patch: Partial<NewCustomField>): Promise<CustomField | undefined> {
+    const field = this.db
+      .update(custom_fields)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(custom_fields.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return field;
+  }
+
+  async deleteCustomField(id: string): Promise<boolean> {
+    const deleted = this.db
+      .delete(custom_fields)
+      .where(eq(custom_fields.id, id))
+      .returning({ id: custom_fields.id })
+      .all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Tags */
+  async getTags(): Promise<Tag[]> {
+    return this.db.select().from(tags).orderBy(asc(tags.name)).all();
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    return this.db.select().from(tags).where(eq(tags.id, id)).get();
+  }
+
+  async createTag(input: NewTag): Promise<Tag> {
+    const tag = this.db.insert(tags).values(input).returning().get();
+    this.scheduleFlush();
+    return tag;
+  }
+
+  async updateTag(id: string, patch: Partial<NewTag>): Promise<Tag | undefined> {
+    const tag = this.db
+      .update(tags)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(tags.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return tag;
+  }
+
+  async deleteTag(id: string): Promise<boolean> {
+    const deleted = this.db.delete(tags).where(eq(tags.id, id)).returning({ id: tags.id }).all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  /* Automations */
+  async getAutomationRules(filters: AutomationRuleFilters = {}): Promise<AutomationRule[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.trigger) conditions.push(eq(automation_rules.trigger, filters.trigger));
+    if (filters.enabled !== undefined) conditions.push(eq(automation_rules.enabled, filters.enabled));
+    return this.db
+      .select()
+      .from(automation_rules)
+      .where(and(...conditions))
+      .orderBy(asc(automation_rules.created_at), sql`rowid`)
+      .all();
+  }
+
+  async getAutomationRule(id: string): Promise<AutomationRule | undefined> {
+    return this.db.select().from(automation_rules).where(eq(automation_rules.id, id)).get();
+  }
+
+  async createAutomationRule(input: NewAutomationRule): Promise<AutomationRule> {
+    const rule = this.db.insert(automation_rules).values(input).returning().get();
+    this.scheduleFlush();
+    return rule;
+  }
+
+  async updateAutomationRule(id: string, patch: Partial<NewAutomationRule>): Promise<AutomationRule | undefined> {
+    const rule = this.db
+      .update(automation_rules)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(automation_rules.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return rule;
+  }
+
+  async deleteAutomationRule(id: string): Promise<boolean> {
+    const deleted = this.db
+      .delete(automation_rules)
+      .where(eq(automation_rules.id, id))
+      .returning({ id: automation_rules.id })
+      .all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  async getAutomationRuns(filters: AutomationRunFilters = {}): Promise<AutomationRun[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.rule_id) conditions.push(eq(automation_runs.rule_id, filters.rule_id));
+    if (filters.trigger) conditions.push(eq(automation_runs.trigger, filters.trigger));
+    if (filters.entity_id) conditions.push(eq(automation_runs.entity_id, filters.entity_id));
+    const query = this.db
+      .select()
+      .from(automation_runs)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(automation_runs.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async createAutomationRun(input: NewAutomationRun): Promise<AutomationRun> {
+    const run = this.db.insert(automation_runs).values(input).returning().get();
+    this.scheduleFlush();
+    return run;
+  }
+
+  async updateAutomationRun(id: string, patch: Partial<NewAutomationRun>): Promise<AutomationRun | undefined> {
+    const run = this.db
+      .update(automation_runs)
+      .set({ ...patch, id })
+      .where(eq(automation_runs.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return run;
+  }
+
+  /* Deal alert rules */
+  async getDealAlertRuleSettings(): Promise<DealAlertRuleSetting[]> {
+    return this.db.select().from(deal_alert_rule_settings).all();
+  }
+
+  async saveDealAlertRuleSetting(input: NewDealAlertRuleSetting): Promise<DealAlertRuleSetting> {
+    // Reemplaza la fila entera: lo que no llega vuelve al valor por defecto
+    const row = {
+      rule: input.rule,
+      enabled: input.enabled ?? true,
+      severity: input.severity ?? null,
+      params: input.params ?? {},
+      recommended_action: input.recommended_action ?? null,
+      updated_by: input.updated_by ?? null,
+      updated_at: input.updated_at ?? new Date(),
+    };
+    const setting = this.db
+      .insert(deal_alert_rule_settings)
+      .values(row)
+      .onConflictDoUpdate({ target: deal_alert_rule_settings.rule, set: row })
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return setting;
+  }
+
+  /* SLA */
+  async getSlaPolicies(): Promise<SlaPolicyRow[]> {
+    return this.db.select().from(sla_policies).all();
+  }
+
+  async createSlaPolicy(input: NewSlaPolicyRow): Promise<SlaPolicyRow> {
+    const policy = this.db.insert(sla_policies).values(input).returning().get();
+    this.scheduleFlush();
+    return policy;
+  }
+
+  async updateSlaPolicy(id: string, patch: Partial<NewSlaPolicyRow>): Promise<SlaPolicyRow | undefined> {
+    const policy = this.db
+      .update(sla_policies)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(sla_policies.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return policy;
+  }
+
+  async deleteSlaPolicy(id: string): Promise<boolean> {
+    const deleted = this.db
+      .delete(sla_policies)
+      .where(eq(sla_policies.id, id))
+      .returning({ id: sla_policies.id })
+      .all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  async getSlaEscalations(filters: SlaEscalationFilters = {}): Promise<SlaEscalation[]> {
+    const query = this.db
+      .select()
+      .from(sla_escalations)
+      .where(
+        and(
+          filters.deal_id ? eq(sla_escalations.deal_id, filters.deal_id) : undefined,
+          filters.owner_ids ? inArray(sla_escalations.deal_id, this.ownedDealIds(filters.owner_ids)) : undefined,
+        ),
+      )
+      .orderBy(...newestFirst(sla_escalations.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async createSlaEscalation(input: NewSlaEscalation): Promise<SlaEscalation> {
+    const escalation = this.db.insert(sla_escalations).values(input).returning().get();
+    this.scheduleFlush();
+    return escalation;
+  }
+
+  /* Alertas de deals */
+  async getDealAlerts(filters: DealAlertFilters = {}): Promise<DealAlertRecord[]> {
+    const conditions: Array<SQL | undefined> = [];
+    if (filters.deal_id) conditions.push(eq(deal_alerts.deal_id, filters.deal_id));
+    if (filters.status) conditions.push(inArray(deal_alerts.status, filters.status));
+    conditions.push(ownerScopeCondition(deal_alerts.owner_id, filters.owner_ids));
+    if (filters.active) conditions.push(isNull(deal_alerts.cleared_at));
+    if (filters.from) conditions.push(gte(deal_alerts.created_at, filters.from));
+    if (filters.to) conditions.push(lte(deal_alerts.created_at, filters.to));
+    const query = this.db
+      .select()
+      .from(deal_alerts)
+      .where(and(...conditions))
+      .orderBy(...newestFirst(deal_alerts.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async getDealAlert(id: string): Promise<DealAlertRecord | undefined> {
+    return this.db.select().from(deal_alerts).where(eq(deal_alerts.id, id)).get();
+  }
+
+  async createDealAlert(input: NewDealAlertRecord): Promise<DealAlertRecord> {
+    const alert = this.db.insert(deal_alerts).values(input).returning().get();
+    this.scheduleFlush();
+    return alert;
+  }
+
+  async updateDealAlert(id: string, patch: Partial<NewDealAlertRecord>): Promise<DealAlertRecord | undefined> {
+    const alert = this.db
+      .update(deal_alerts)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(deal_alerts.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return alert;
+  }
+
+  /* Canales de alertas */
+  async getAlertChannels(): Promise<AlertChannel[]> {
+    return this.db.select().from(alert_channels).orderBy(asc(alert_channels.created_at), sql`rowid`).all();
+  }
+
+  async getAlertChannel(id: string): Promise<AlertChannel | undefined> {
+    return this.db.select().from(alert_channels).where(eq(alert_channels.id, id)).get();
+  }
+
+  async createAlertChannel(input: NewAlertChannel): Promise<AlertChannel> {
+    const channel = this.db.insert(alert_channels).values(input).returning().get();
+    this.scheduleFlush();
+    return channel;
+  }
+
+  async updateAlertChannel(id: string, patch: Partial<NewAlertChannel>): Promise<AlertChannel | undefined> {
+    const channel = this.db
+      .update(alert_channels)
+      .set({ ...patch, id, updated_at: patch.updated_at ?? new Date() })
+      .where(eq(alert_channels.id, id))
+      .returning()
+      .get();
+    this.scheduleFlush();
+    return channel;
+  }
+
+  async deleteAlertChannel(id: string): Promise<boolean> {
+    const deleted = this.db
+      .delete(alert_channels)
+      .where(eq(alert_channels.id, id))
+      .returning({ id: alert_channels.id })
+      .all();
+    this.scheduleFlush();
+    return deleted.length > 0;
+  }
+
+  async getAlertDeliveries(filters: AlertDeliveryFilters = {}): Promise<AlertDelivery[]> {
+    const query = this.db
+      .select()
+      .from(alert_deliveries)
+      .where(filters.channel_id ? eq(alert_deliveries.channel_id, filters.channel_id) : undefined)
+      .orderBy(...newestFirst(alert_deliveries.created_at))
+      .$dynamic();
+    return (filters.limit !== undefined ? query.limit(filters.limit) : query).all();
+  }
+
+  async createAlertDelivery(input: NewAlertDelivery): Promise<AlertDelivery> {
+    const delivery = this.db.insert(alert_deliveries).values(input).returning().get();
+    this.scheduleFlush();
+    return delivery;
+  }
+}
@@ -0,0 +1,440 @@
+import { randomUUID } from "crypto";
+import {
+  customType,
+  integer,
+  sqliteTable,
+  text,
+  uniqueIndex,
+  type AnySQLiteColumn,
+} from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import type { AutomationAction, AutomationActionResult, AutomationCondition } from "@shared/automations";
+import type { CustomFieldValues } from "@shared/customFields";
+import type { DealAlertParams, DealAlertRule } from "@shared/dealAlerts";
+import { DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS } from "@shared/alertChannels";
+import {
+  alertChannelFormatEnum,
+  alertDeliveryStatusEnum,
+  alertDeliveryTriggerEnum,
+  automationEntityEnum,
+  automationRunStatusEnum,
+  automationTriggerEnum,
+  customFieldEntityEnum,
+  customFieldTypeEnum,
+  dealAlertReasonEnum,
+  dealAlertRuleEnum,
+  dealAlertSensitivityEnum,
+  dealAlertSeverityEnum,
+  dealAlertStatusEnum,
+  slaEscalationStepEnum,
+  dealStatusEnum,
+  importEntityEnum,
+  importRowStatusEnum,
+  importStatusEnum,
+  priorityEnum,
+  riskLevelEnum,
+  savedViewListEnum,
+  taskPriorityEnum,
+  taskStateEnum,
+} from "@shared/schema";
+
+// Réplica en SQLite de `shared/schema.ts`: mismos nombres de columnas y mismos
+// tipos en la aplicación, para que SqliteStorage devuelva User/Deal/... idénticos.
+
+const id = () => text("id").primaryKey().$defaultFn(() => randomUUID());
+const createdAt = () => timestamp("created_at").$defaultFn(() => new Date());
+const updatedAt = () => timestamp("updated_at").$defaultFn(() => new Date());
+
+function timestamp(name: string) {
+  return integer(name, { mode: "timestamp_ms" });
+}
+
+// Importes en céntimos para no arrastrar errores de coma flotante
+const money = customType<{ data: number; driverData: number }>({
+  dataType() {
+    return "integer";
+  },
+  fromDriver(value) {
+    return value / 100;
+  },
+  toDriver(value) {
+    return Math.round(value * 100);
+  },
+});
+
+// JSON en texto, igual que en Postgres
+function jsonText<T>(name: string) {
+  return customType<{ data: T; driverData: string }>({
+    dataType() {
+      return "text";
+    },
+    fromDriver(value) {
+      return JSON.parse(value) as T;
+    },
+    toDriver(value) {
+      return JSON.stringify(value);
+    },
+  })(name);
+}
+
+const customFieldValues = () =>
+  jsonText<CustomFieldValues>("custom_fields")
+    .notNull()
+    .default(sql`'{}'`);
+
+const tagIds = () =>
+  jsonText<string[]>("tag_ids")
+    .notNull()
+    .default(sql`'[]'`);
+
+export const users = sqliteTable("users", {
+  id: id(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  email: text("email"),
+  full_name: text("full_name"),
+  role: text("role").default("Usuario"),
+  manager_id: text("manager_id").references((): AnySQLiteColumn => users.id),
+  alert_sensitivity: text("alert_sensitivity", { enum: dealAlertSensitivityEnum.enumValues }).notNull().default("all"),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const companies = sqliteTable("companies", {
+  id: id(),
+  name: text("name").notNull(),
+  industry: text("industry"),
+  size: text("size"),
+  revenue_estimate: money("revenue_estimate"),
+  location: text("location"),
+  website: text("website"),
+  description: text("description"),
+  score: integer("score").default(0),
+  priority: text("priority", { enum: priorityEnum.enumValues }).default("Cold"),
+  custom_fields: customFieldValues(),
+  tag_ids: tagIds(),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const contacts = sqliteTable("contacts", {
+  id: id(),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  company_id: text("company_id").references(() => companies.id),
+  position: text("position"),
+  source: text("source"),
+  score: integer("score").default(0),
+  priority: text("priority", { enum: priorityEnum.enumValues }).default("Cold"),
+  last_activity: timestamp("last_activity"),
+  owner_id: text("owner_id").references(() => users.id),
+  custom_fields: customFieldValues(),
+  tag_ids: tagIds(),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const pipelines = sqliteTable("pipelines", {
+  id: id(),
+  name: text("name").notNull(),
+  is_default: integer("is_default", { mode: "boolean" }).notNull().default(false),
+  order_index: integer("order_index").notNull().default(0),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const deals = sqliteTable("deals", {
+  id: id(),
+  title: text("title").notNull(),
+  company: text("company"),
+  company_id: text("company_id").references(() => companies.id),
+  amount: money("amount"),
+  stage: text("stage").notNull().default("Prospección"),
+  probability: integer("probability").default(0),
+  target_close_date: timestamp("target_close_date"),
+  next_step: text("next_step"),
+  status: text("status", { enum: dealStatusEnum.enumValues }).default("Open"),
+  score: integer("score").default(0),
+  priority: text("priority", { enum: priorityEnum.enumValues }).default("Cold"),
+  risk_level: text("risk_level", { enum: riskLevelEnum.enumValues }).default("Bajo"),
+  last_activity: timestamp("last_activity"),
+  inactivity_days: integer("inactivity_days").default(0),
+  contact_id: text("contact_id").references(() => contacts.id),
+  owner_id: text("owner_id").references(() => users.id),
+  pipeline_id: text("pipeline_id").references(() => pipelines.id),
+  stage_entered_at: timestamp("stage_entered_at"),
+  close_reason: text("close_reason"),
+  previous_amount: money("previous_amount"),
+  close_date_slips: integer("close_date_slips").default(0),
+  custom_fields: customFieldValues(),
+  tag_ids: tagIds(),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const tasks = sqliteTable("tasks", {
+  id: id(),
+  title: text("title").notNull(),
+  description: text("description"),
+  state: text("state", { enum: taskStateEnum.enumValues }).default("To Do"),
+  priority: text("priority", { enum: taskPriorityEnum.enumValues }).default("Media"),
+  due_at: timestamp("due_at"),
+  completed_at: timestamp("completed_at"),
+  assigned_to: text("assigned_to").references(() => users.id),
+  deal_id: text("deal_id").references(() => deals.id),
+  contact_id: text("contact_id").references(() => contacts.id),
+  notes: text("notes"),
+  tag_ids: tagIds(),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const timeline_entries = sqliteTable("timeline_entries", {
+  id: id(),
+  type: text("type").notNull(),
+  description: text("description").notNull(),
+  entity_type: text("entity_type").notNull(),
+  entity_id: text("entity_id").notNull(),
+  user_id: text("user_id").references(() => users.id),
+  metadata: text("metadata"),
+  created_at: createdAt(),
+});
+
+export const pipeline_stages = sqliteTable("pipeline_stages", {
+  id: id(),
+  pipeline_id: text("pipeline_id")
+    .notNull()
+    .references(() => pipelines.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  order_index: integer("order_index").notNull(),
+  color: text("color").default("#3B82F6"),
+  is_active: integer("is_active", { mode: "boolean" }).default(true),
+  default_probability: integer("default_probability").notNull().default(20),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const deal_stage_transitions = sqliteTable("deal_stage_transitions", {
+  id: id(),
+  deal_id: text("deal_id")
+    .notNull()
+    .references(() => deals.id, { onDelete: "cascade" }),
+  pipeline_id: text("pipeline_id").references(() => pipelines.id, { onDelete: "set null" }),
+  from_stage: text("from_stage"),
+  to_stage: text("to_stage").notNull(),
+  from_status: text("from_status", { enum: dealStatusEnum.enumValues }),
+  to_status: text("to_status", { enum: dealStatusEnum.enumValues }).notNull(),
+  from_probability: integer("from_probability"),
+  to_probability: integer("to_probability"),
+  changed_by: text("changed_by").references(() => users.id),
+  changed_at: timestamp("changed_at")
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+export const import_jobs = sqliteTable("import_jobs", {
+  id: id(),
+  entity: text("entity", { enum: importEntityEnum.enumValues }).notNull(),
+  status: text("status", { enum: importStatusEnum.enumValues }).notNull().default("pending"),
+  file_name: text("file_name"),
+  mapping: text("mapping").notNull(),
+  total_rows: integer("total_rows").notNull().default(0),
+  processed_rows: integer("processed_rows").notNull().default(0),
+  imported_rows: integer("imported_rows").notNull().default(0),
+  failed_rows: integer("failed_rows").notNull().default(0),
+  error: text("error"),
+  created_by: text("created_by").references(() => users.id),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+  finished_at: timestamp("finished_at"),
+});
+
+export const import_job_rows = sqliteTable("import_job_rows", {
+  id: id(),
+  job_id: text("job_id")
+    .notNull()
+    .references(() => import_jobs.id, { onDelete: "cascade" }),
+  row_number: integer("row_number").notNull(),
+  data: text("data").notNull(),
+  status: text("status", { enum: importRowStatusEnum.enumValues }).notNull().default("pending"),
+  error: text("error"),
+  record_id: text("record_id"),
+});
+
+export const saved_views = sqliteTable("saved_views", {
+  id: id(),
+  list: text("list", { enum: savedViewListEnum.enumValues }).notNull(),
+  name: text("name").notNull(),
+  owner_id: text("owner_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  shared: integer("shared", { mode: "boolean" }).notNull().default(false),
+  config: text("config").notNull(),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const saved_view_defaults = sqliteTable(
+  "saved_view_defaults",
+  {
+    id: id(),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    list: text("list", { enum: savedViewListEnum.enumValues }).notNull(),
+    view_id: text("view_id")
+      .notNull()
+      .references(() => saved_views.id, { onDelete: "cascade" }),
+  },
+  (table) => [uniqueIndex("saved_view_defaults_user_list_idx").on(table.user_id, table.list)],
+);
+
+export const custom_fields = sqliteTable(
+  "custom_fields",
+  {
+    id: id(),
+    entity: text("entity", { enum: customFieldEntityEnum.enumValues }).notNull(),
+    key: text("key").notNull(),
+    label: text("label").notNull(),
+    type: text("type", { enum: customFieldTypeEnum.enumValues }).notNull(),
+    options: jsonText<string[]>("options")
+      .notNull()
+      .default(sql`'[]'`),
+    order_index: integer("order_index").notNull().default(0),
+    created_at: createdAt(),
+    updated_at: updatedAt(),
+  },
+  (table) => [uniqueIndex("custom_fields_entity_key_idx").on(table.entity, table.key)],
+);
+
+export const tags = sqliteTable("tags", {
+  id: id(),
+  name: text("name").notNull().unique(),
+  color: text("color").notNull().default("#64748B"),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const automation_rules = sqliteTable("automation_rules", {
+  id: id(),
+  name: text("name").notNull(),
+  trigger: text("trigger", { enum: automationTriggerEnum.enumValues }).notNull(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  conditions: jsonText<AutomationCondition[]>("conditions").notNull().default(sql`'[]'`),
+  actions: jsonText<AutomationAction[]>("actions").notNull(),
+  created_by: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  last_run_at: timestamp("last_run_at"),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const automation_runs = sqliteTable("automation_runs", {
+  id: id(),
+  rule_id: text("rule_id")
+    .notNull()
+    .references(() => automation_rules.id, { onDelete: "cascade" }),
+  trigger: text("trigger", { enum: automationTriggerEnum.enumValues }).notNull(),
+  entity_type: text("entity_type", { enum: automationEntityEnum.enumValues }).notNull(),
+  entity_id: text("entity_id").notNull(),
+  entity_label: text("entity_label"),
+  status: text("status", { enum: automationRunStatusEnum.enumValues }).notNull(),
+  results: jsonText<AutomationActionResult[]>("results").notNull().default(sql`'[]'`),
+  created_at: createdAt(),
+});
+
+export const deal_alert_rule_settings = sqliteTable("deal_alert_rule_settings", {
+  rule: text("rule", { enum: dealAlertRuleEnum.enumValues }).primaryKey(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  severity: text("severity", { enum: dealAlertSeverityEnum.enumValues }),
+  params: jsonText<DealAlertParams>("params").notNull().default(sql`'{}'`),
+  recommended_action: text("recommended_action"),
+  updated_by: text("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updated_at: updatedAt(),
+});
+
+export const sla_policies = sqliteTable("sla_policies", {
+  id: id(),
+  stage_id: text("stage_id")
+    .unique()
+    .references(() => pipeline_stages.id, { onDelete: "cascade" }),
+  sla_hot_days: integer("sla_hot_days"),
+  sla_warm_days: integer("sla_warm_days"),
+  sla_cold_days: integer("sla_cold_days"),
+  risk_medium: integer("risk_medium"),
+  risk_high: integer("risk_high"),
+  escalate_manager_after_days: integer("escalate_manager_after_days"),
+  escalate_task_after_days: integer("escalate_task_after_days"),
+  updated_by: text("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updated_at: updatedAt(),
+});
+
+export const sla_escalations = sqliteTable("sla_escalations", {
+  id: id(),
+  deal_id: text("deal_id")
+    .notNull()
+    .references(() => deals.id, { onDelete: "cascade" }),
+  step: text("step", { enum: slaEscalationStepEnum.enumValues }).notNull(),
+  last_activity: timestamp("last_activity").notNull(),
+  breach_days: integer("breach_days").notNull(),
+  notified_user_id: text("notified_user_id").references(() => users.id, { onDelete: "set null" }),
+  task_id: text("task_id").references(() => tasks.id, { onDelete: "set null" }),
+  created_at: createdAt(),
+});
+
+export const deal_alerts = sqliteTable("deal_alerts", {
+  id: id(),
+  deal_id: text("deal_id")
+    .notNull()
+    .references(() => deals.id, { onDelete: "cascade" }),
+  owner_id: text("owner_id").references(() => users.id, { onDelete: "set null" }),
+  rules: jsonText<DealAlertRule[]>("rules").notNull().default(sql`'[]'`),
+  severity: text("severity", { enum: dealAlertSeverityEnum.enumValues }).notNull(),
+  message: text("message").notNull(),
+  status: text("status", { enum: dealAlertStatusEnum.enumValues }).notNull().default("open"),
+  snoozed_until: timestamp("snoozed_until"),
+  reason: text("reason", { enum: dealAlertReasonEnum.enumValues }),
+  note: text("note"),
+  closed_at: timestamp("closed_at"),
+  closed_by: text("closed_by").references(() => users.id, { onDelete: "set null" }),
+  cleared_at: timestamp("cleared_at"),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const alert_channels = sqliteTable("alert_channels", {
+  id: id(),
+  name: text("name").notNull(),
+  format: text("format", { enum: alertChannelFormatEnum.enumValues }).notNull(),
+  url: text("url").notNull(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+  severity: text("severity", { enum: dealAlertSensitivityEnum.enumValues }).notNull().default("all"),
+  owner_ids: jsonText<string[]>("owner_ids").notNull().default(sql`'[]'`),
+  pipeline_ids: jsonText<string[]>("pipeline_ids").notNull().default(sql`'[]'`),
+  interval_hours: integer("interval_hours").notNull().default(DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS),
+  last_sent_at: timestamp("last_sent_at"),
+  created_by: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  created_at: createdAt(),
+  updated_at: updatedAt(),
+});
+
+export const alert_deliveries = sqliteTable("alert_deliveries", {
+  id: id(),
+  channel_id: text("channel_id")
+    .notNull()
+    .references(() => alert_channels.id, { onDelete: "cascade" }),
+  trigger: text("trigger", { enum: alertDeliveryTriggerEnum.enumValues }).notNull(),
+  status: text("status", { enum: alertDeliveryStatusEnum.enumValues }).notNull(),
+  alert_count: integer("alert_count").notNull().default(0),
+  attempts: integer("attempts").notNull().default(1),
+  response_status: integer("response_status"),
+  error: text("error"),
+  created_at: createdAt(),
+});
+
+/** Sesiones de express-session: en Postgres la tabla equivalente la crea connect-pg-simple. */
+export const sessions = sqliteTable("sessions", {
+  sid: text("sid").primaryKey(),
+  sess: text("sess").notNull(),
+  expire: timestamp("expire").notNull(),
+});
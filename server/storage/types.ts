@@ -0,0 +1,344 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import type {
+  User,
+  InsertUser,
+  NewUser,
+  Company,
+  NewCompany,
+  Contact,
+  NewContact,
+  Deal,
+  NewDeal,
+  Task,
+  NewTask,
+  TimelineEntry,
+  NewTimelineEntry,
+  Pipeline,
+  NewPipeline,
+  PipelineStage,
+  NewPipelineStage,
+  DealStageTransition,
+  NewDealStageTransition,
+  ImportJob,
+  NewImportJob,
+  ImportJobRow,
+  NewImportJobRow,
+  SavedView,
+  NewSavedView,
+  SavedViewDefault,
+  CustomField,
+  NewCustomField,
+  Tag,
+  NewTag,
+  AutomationRule,
+  NewAutomationRule,
+  AutomationRun,
+  NewAutomationRun,
+  DealAlertRuleSetting,
+  NewDealAlertRuleSetting,
+  SlaPolicyRow,
+  NewSlaPolicyRow,
+  SlaEscalation,
+  NewSlaEscalation,
+  DealAlertRecord,
+  NewDealAlertRecord,
+  AlertChannel,
+  NewAlertChannel,
+  AlertDelivery,
+  NewAlertDelivery,
+} from "@shared/schema";
+import type { DealAlertStatus } from "@shared/dealAlerts";
+import type { CustomFieldEntity } from "@shared/customFields";
+
+export interface UserFilters {
+  role?: string;
+  manager_id?: string;
+}
+
+export interface DealFilters {
+  status?: Deal["status"];
+  stage?: string;
+  priority?: Deal["priority"];
+  risk_level?: Deal["risk_level"];
+  owner_id?: string;
+  /** Alcance por rol: solo deals de estos propietarios (lista vacía = ninguno). */
+  owner_ids?: string[];
+  contact_id?: string;
+  company_id?: string;
+  pipeline_id?: string;
+  search?: string;
+  limit?: number;
+}
+
+/** Filtro de alcance que aceptan también los agregados de deals. */
+export type DealScope = Pick<DealFilters, "owner_ids">;
+
+export interface ContactFilters {
+  company_id?: string;
+  owner_id?: string;
+  owner_ids?: string[];
+  search?: string;
+  limit?: number;
+}
+
+export interface TaskFilters {
+  state?: Task["state"];
+  deal_id?: string;
+  contact_id?: string;
+  assigned_to?: string;
+  /** Alcance: tareas asignadas a estos usuarios o de deals o contactos suyos. */
+  owner_ids?: string[];
+  limit?: number;
+}
+
+export interface TimelineFilters {
+  entity_type?: string;
+  entity_id?: string;
+  /** Alcance: entradas de deals, contactos y tareas dentro de él; las de empresas las ven todos. */
+  owner_ids?: string[];
+  limit?: number;
+}
+
+export interface StageTransitionFilters {
+  deal_id?: string;
+  pipeline_id?: string;
+}
+
+export interface ImportJobFilters {
+  created_by?: string;
+  status?: ImportJob["status"][];
+  limit?: number;
+}
+
+export interface ImportJobRowFilters {
+  status?: ImportJobRow["status"];
+  limit?: number;
+}
+
+export interface SavedViewFilters {
+  list?: SavedView["list"];
+  /** Vistas de este usuario más las compartidas por el resto. */
+  visible_to?: string;
+}
+
+export interface AutomationRuleFilters {
+  trigger?: AutomationRule["trigger"];
+  enabled?: boolean;
+}
+
+export interface AutomationRunFilters {
+  rule_id?: string;
+  trigger?: AutomationRun["trigger"];
+  entity_id?: string;
+  limit?: number;
+}
+
+export interface SlaEscalationFilters {
+  deal_id?: string;
+  /** Alcance por rol: solo escalados de deals de estos owners (lista vacía = ninguno). */
+  owner_ids?: string[];
+  limit?: number;
+}
+
+export interface DealAlertFilters {
+  deal_id?: string;
+  status?: DealAlertStatus[];
+  /** Alcance por rol: solo alertas de estos owners (lista vacía = ninguna). */
+  owner_ids?: string[];
+  /** true: solo las vigentes (sin `cleared_at`). */
+  active?: boolean;
+  /** Alertas que saltaron en [from, to]. */
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface AlertDeliveryFilters {
+  channel_id?: string;
+  limit?: number;
+}
+
+export type ImportJobRowPatch = Partial<Pick<NewImportJobRow, "status" | "error" | "record_id">>;
+
+export interface QuickMetrics {
+  open: number;
+  won: number;
+  lost: number;
+  sumOpen: number;
+}
+
+export interface IStorage {
+  /** Almacén de sesiones de express-session asociado a este backend. */
+  readonly sessionStore: session.Store;
+
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(filters?: UserFilters): Promise<User[]>;
+  createUser(user: InsertUser): Promise<User>;
+  /** Alta desde el registro: la primera cuenta entra como Admin. Comprobar y crear es una sola operación. */
+  registerUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, patch: Partial<NewUser>): Promise<User | undefined>;
+
+  getCompanies(): Promise<Company[]>;
+  getCompany(id: string): Promise<Company | undefined>;
+  getCompanyByName(name: string): Promise<Company | undefined>;
+  createCompany(company: NewCompany): Promise<Company>;
+  updateCompany(id: string, patch: Partial<NewCompany>): Promise<Company | undefined>;
+  deleteCompany(id: string): Promise<boolean>;
+
+  getContacts(filters?: ContactFilters): Promise<Contact[]>;
+  getContact(id: string): Promise<Contact | undefined>;
+  createContact(contact: NewContact): Promise<Contact>;
+  updateContact(id: string, patch: Partial<NewContact>): Promise<Contact | undefined>;
+  deleteContact(id: string): Promise<boolean>;
+
+  getDeals(filters?: DealFilters): Promise<Deal[]>;
+  getDeal(id: string): Promise<Deal | undefined>;
+  getStalledDeals(limit?: number, scope?: DealScope): Promise<Deal[]>;
+  getQuickMetrics(scope?: DealScope): Promise<QuickMetrics>;
+  createDeal(deal: NewDeal): Promise<Deal>;
+  updateDeal(id: string, patch: Partial<NewDeal>): Promise<Deal | undefined>;
+  deleteDeal(id: string): Promise<boolean>;
+
+  getTasks(filters?: TaskFilters): Promise<Task[]>;
+  getTask(id: string): Promise<Task | undefined>;
+  createTask(task: NewTask): Promise<Task>;
+  updateTask(id: string, patch: Partial<NewTask>): Promise<Task | undefined>;
+  deleteTask(id: string): Promise<boolean>;
+
+  getTimelineEntries(filters?: TimelineFilters): Promise<TimelineEntry[]>;
+  getTimelineEntry(id: string): Promise<TimelineEntry | undefined>;
+  createTimelineEntry(entry: NewTimelineEntry): Promise<TimelineEntry>;
+  updateTimelineEntry(
+    id: string,
+    patch: Partial<Pick<NewTimelineEntry, "description" | "metadata">>,
+  ): Promise<TimelineEntry | undefined>;
+  deleteTimelineEntry(id: string): Promise<boolean>;
+  /** Pasa las entradas de una entidad a otra (p.ej. al fusionar contactos); devuelve cuántas movió. */
+  moveTimelineEntries(entityType: string, fromId: string, toId: string): Promise<number>;
+
+  /** Pipelines ordenados por `order_index`. */
+  getPipelines(): Promise<Pipeline[]>;
+  getPipeline(id: string): Promise<Pipeline | undefined>;
+  createPipeline(pipeline: NewPipeline): Promise<Pipeline>;
+  updatePipeline(id: string, patch: Partial<NewPipeline>): Promise<Pipeline | undefined>;
+  /** Borra el pipeline y sus etapas. */
+  deletePipeline(id: string): Promise<boolean>;
+
+  /** Etapas ordenadas por `order_index` (activas e inactivas); sin `pipelineId`, las de todos los pipelines. */
+  getPipelineStages(pipelineId?: string): Promise<PipelineStage[]>;
+  getPipelineStage(id: string): Promise<PipelineStage | undefined>;
+  createPipelineStage(stage: NewPipelineStage): Promise<PipelineStage>;
+  updatePipelineStage(id: string, patch: Partial<NewPipelineStage>): Promise<PipelineStage | undefined>;
+  /**
+   * Mueve los deals del pipeline de la etapa `from` a `to` (renombrado) y
+   * renombra la etapa en su historial; devuelve cuántos deals cambió.
+   */
+  renameDealStage(pipelineId: string, from: string, to: string): Promise<number>;
+
+  /** Transiciones de etapa/estado en orden cronológico (las más antiguas primero). */
+  getDealStageTransitions(filters?: StageTransitionFilters): Promise<DealStageTransition[]>;
+  createDealStageTransition(transition: NewDealStageTransition): Promise<DealStageTransition>;
+
+  /** Jobs de importación, los más recientes primero. */
+  getImportJobs(filters?: ImportJobFilters): Promise<ImportJob[]>;
+  getImportJob(id: string): Promise<ImportJob | undefined>;
+  createImportJob(job: NewImportJob): Promise<ImportJob>;
+  updateImportJob(id: string, patch: Partial<NewImportJob>): Promise<ImportJob | undefined>;
+  /** Alta en bloque de las filas del fichero. */
+  createImportJobRows(rows: NewImportJobRow[]): Promise<void>;
+  /** Filas del job ordenadas por `row_number`. */
+  getImportJobRows(jobId: string, filters?: ImportJobRowFilters): Promise<ImportJobRow[]>;
+  updateImportJobRow(id: string, patch: ImportJobRowPatch): Promise<ImportJobRow | undefined>;
+
+  /** Vistas guardadas ordenadas por nombre. */
+  getSavedViews(filters?: SavedViewFilters): Promise<SavedView[]>;
+  getSavedView(id: string): Promise<SavedView | undefined>;
+  createSavedView(view: NewSavedView): Promise<SavedView>;
+  updateSavedView(id: string, patch: Partial<NewSavedView>): Promise<SavedView | undefined>;
+  /** Borra la vista y la quita como vista por defecto de quien la tuviera. */
+  deleteSavedView(id: string): Promise<boolean>;
+  getSavedViewDefaults(userId: string): Promise<SavedViewDefault[]>;
+  /** Fija la vista por defecto del usuario en el listado; con null la quita. */
+  setSavedViewDefault(userId: string, list: SavedView["list"], viewId: string | null): Promise<void>;
+
+  /** Definiciones de campos personalizados ordenadas por `order_index`; sin `entity`, las de todas. */
+  getCustomFields(entity?: CustomFieldEntity): Promise<CustomField[]>;
+  getCustomField(id: string): Promise<CustomField | undefined>;
+  createCustomField(field: NewCustomField): Promise<CustomField>;
+  updateCustomField(id: string, patch: Partial<NewCustomField>): Promise<CustomField | undefined>;
+  deleteCustomField(id: string): Promise<boolean>;
+
+  /** Etiquetas ordenadas por nombre. */
+  getTags(): Promise<Tag[]>;
+  getTag(id: string): Promise<Tag | undefined>;
+  createTag(tag: NewTag): Promise<Tag>;
+  updateTag(id: string, patch: Partial<NewTag>): Promise<Tag | undefined>;
+  /** Solo borra la etiqueta; quitarla de los registros es cosa del servicio. */
+  deleteTag(id: string): Promise<boolean>;
+
+  /** Reglas de automatización en orden de alta, que es el orden en que se evalúan. */
+  getAutomationRules(filters?: AutomationRuleFilters): Promise<AutomationRule[]>;
+  getAutomationRule(id: string): Promise<AutomationRule | undefined>;
+  createAutomationRule(rule: NewAutomationRule): Promise<AutomationRule>;
+  updateAutomationRule(id: string, patch: Partial<NewAutomationRule>): Promise<AutomationRule | undefined>;
+  /** Borra la regla junto con su registro de ejecuciones. */
+  deleteAutomationRule(id: string): Promise<boolean>;
+  /** Ejecuciones de las reglas, las más recientes primero. */
+  getAutomationRuns(filters?: AutomationRunFilters): Promise<AutomationRun[]>;
+  createAutomationRun(run: NewAutomationRun): Promise<AutomationRun>;
+  updateAutomationRun(id: string, patch: Partial<NewAutomationRun>): Promise<AutomationRun | undefined>;
+
+  /** Ajustes guardados de las reglas de alerta; las reglas sin fila usan sus valores por defecto. */
+  getDealAlertRuleSettings(): Promise<DealAlertRuleSetting[]>;
+  /** Crea o reemplaza el ajuste de una regla. */
+  saveDealAlertRuleSetting(setting: NewDealAlertRuleSetting): Promise<DealAlertRuleSetting>;
+
+  /** Políticas de SLA: la general (`stage_id` null) y las de etapa. */
+  getSlaPolicies(): Promise<SlaPolicyRow[]>;
+  createSlaPolicy(policy: NewSlaPolicyRow): Promise<SlaPolicyRow>;
+  updateSlaPolicy(id: string, patch: Partial<NewSlaPolicyRow>): Promise<SlaPolicyRow | undefined>;
+  deleteSlaPolicy(id: string): Promise<boolean>;
+  /** Pasos de escalado dados, los más recientes primero. */
+  getSlaEscalations(filters?: SlaEscalationFilters): Promise<SlaEscalation[]>;
+  createSlaEscalation(escalation: NewSlaEscalation): Promise<SlaEscalation>;
+
+  /** Alertas de deals con su seguimiento, las más recientes primero. */
+  getDealAlerts(filters?: DealAlertFilters): Promise<DealAlertRecord[]>;
+  getDealAlert(id: string): Promise<DealAlertRecord | undefined>;
+  createDealAlert(alert: NewDealAlertRecord): Promise<DealAlertRecord>;
+  updateDealAlert(id: string, patch: Partial<NewDealAlertRecord>): Promise<DealAlertRecord | undefined>;
+
+  /** Canales de alertas en orden de alta. */
+  getAlertChannels(): Promise<AlertChannel[]>;
+  getAlertChannel(id: string): Promise<AlertChannel | undefined>;
+  createAlertChannel(channel: NewAlertChannel): Promise<AlertChannel>;
+  updateAlertChannel(id: string, patch: Partial<NewAlertChannel>): Promise<AlertChannel | undefined>;
+  /** Borra el canal junto con su registro de envíos. */
+  deleteAlertChannel(id: string): Promise<boolean>;
+  /** Envíos a los canales, los más recientes primero. */
+  getAlertDeliveries(filters?: AlertDeliveryFilters): Promise<AlertDelivery[]>;
+  createAlertDelivery(delivery: NewAlertDelivery): Promise<AlertDelivery>;
+}
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+/** Deals sin próximo paso o con la fecha objetivo vencida. */
+export function isStalledDeal(deal: Pick<Deal, "status" | "next_step" | "target_close_date">, now = Date.now()) {
+  if (deal.status !== "Open") return false;
+  if (!deal.next_step || !deal.next_step.trim()) return true;
+  return deal.target_close_date ? deal.target_close_date.getTime() < now : false;
+}
+
+export function computeInactivityDays(lastActivity: Date | null | undefined, now = Date.now()) {
+  if (!lastActivity) return 0;
+  return Math.max(0, Math.floor((now - lastActivity.getTime()) / dayMs));
+}
+
+const MemoryStore = createMemoryStore(session);
+
+/** Sesiones en memoria con purga diaria de las expiradas. */
+export function createMemorySessionStore(): session.Store {
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
@@ -0,0 +1,199 @@
+// Canales de alertas: webhooks entrantes de Slack, Microsoft Teams o de
+// cualquier servicio que acepte JSON, a los que el servidor envía cada cierto
+// tiempo las alertas abiertas de los deals. Aquí viven los formatos, los
+// filtros de cada canal y el mensaje que se envía, compartidos con el editor
+// y el banner de alertas del cliente.
+
+import {
+  DEAL_ALERT_SENSITIVITY_LABELS,
+  matchesDealAlertSensitivity,
+  type DealAlertRule,
+  type DealAlertSensitivity,
+  type DealAlertSeverity,
+} from "./dealAlerts";
+
+export const ALERT_CHANNEL_FORMATS = ["slack", "teams", "json"] as const;
+export type AlertChannelFormat = (typeof ALERT_CHANNEL_FORMATS)[number];
+
+export const ALERT_CHANNEL_FORMAT_LABELS: Record<AlertChannelFormat, string> = {
+  slack: "Slack",
+  teams: "Microsoft Teams",
+  json: "JSON genérico",
+};
+
+/** Cada cuánto se envía un canal, en horas. */
+export const ALERT_CHANNEL_INTERVALS = [
+  { hours: 1, label: "Cada hora" },
+  { hours: 4, label: "Cada 4 horas" },
+  { hours: 24, label: "Cada día" },
+  { hours: 168, label: "Cada semana" },
+] as const;
+export const DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS = 24;
+export const MAX_ALERT_CHANNEL_INTERVAL_HOURS = 168;
+
+export function alertChannelIntervalLabel(hours: number): string {
+  return ALERT_CHANNEL_INTERVALS.find((option) => option.hours === hours)?.label ?? `Cada ${hours} horas`;
+}
+
+/* Envíos */
+
+export const ALERT_DELIVERY_STATUSES = ["delivered", "failed"] as const;
+export type AlertDeliveryStatus = (typeof ALERT_DELIVERY_STATUSES)[number];
+
+export const ALERT_DELIVERY_STATUS_LABELS: Record<AlertDeliveryStatus, string> = {
+  delivered: "Enviado",
+  failed: "Fallido",
+};
+
+/** `schedule`: el envío periódico; `manual`: "Enviar ahora" desde el editor. */
+export const ALERT_DELIVERY_TRIGGERS = ["schedule", "manual"] as const;
+export type AlertDeliveryTrigger = (typeof ALERT_DELIVERY_TRIGGERS)[number];
+
+export const ALERT_DELIVERY_TRIGGER_LABELS: Record<AlertDeliveryTrigger, string> = {
+  schedule: "Programado",
+  manual: "Manual",
+};
+
+/* Mensaje */
+
+/** Lo que el mensaje cuenta de cada alerta: lo cumplen las del dashboard y las que envía el servidor. */
+export interface AlertsChannelItem {
+  deal: { company?: string | null };
+  severity: DealAlertSeverity;
+  message: string;
+  recommendedAction: string;
+  priority: string;
+  risk: string;
+}
+
+export interface AlertsChannelPayload {
+  text: string;
+  attachments: Array<{
+    title: string;
+    body: string;
+    severity: DealAlertSeverity;
+  }>;
+}
+
+export function buildAlertsChannelPayload(alerts: readonly AlertsChannelItem[]): AlertsChannelPayload {
+  if (alerts.length === 0) {
+    return {
+      text: "✅ Sin alertas críticas en el pipeline. Buen trabajo equipo.",
+      attachments: [],
+    };
+  }
+
+  const headline = `⚠️ ${alerts.length} deal${alerts.length === 1 ? "" : "s"} requieren atención inmediata.`;
+  const attachments = alerts.map((alert) => ({
+    title: alert.message,
+    body: `${alert.deal.company ?? "Sin empresa"} · Prioridad ${alert.priority} · Riesgo ${alert.risk}. ${
+      alert.recommendedAction
+    }`,
+    severity: alert.severity,
+  }));
+
+  return {
+    text: [headline, ...attachments.map((item) => `• ${item.title}`)].join("\n"),
+    attachments,
+  };
+}
+
+/** Alerta abierta tal y como la envía el servidor a un canal. */
+export interface AlertChannelEntry extends AlertsChannelItem {
+  deal: {
+    id: string;
+    title: string;
+    company: string | null;
+    owner_id: string | null;
+    /** El del deal o, si no tiene, el pipeline por defecto. */
+    pipeline_id: string;
+  };
+  owner_name: string | null;
+  rules: DealAlertRule[];
+}
+
+const SLACK_COLORS: Record<DealAlertSeverity, string> = { critical: "danger", warning: "warning" };
+const TEAMS_COLORS: Record<DealAlertSeverity, string> = { critical: "D92D20", warning: "F79009" };
+
+/**
+ * Cuerpo del POST al webhook en el formato del canal: mensaje con adjuntos
+ * para Slack, MessageCard para Teams y, en JSON genérico, el mismo texto más
+ * los datos de cada alerta para que el receptor los procese.
+ */
+export function formatAlertChannelMessage(format: AlertChannelFormat, entries: readonly AlertChannelEntry[]) {
+  const payload = buildAlertsChannelPayload(entries);
+  switch (format) {
+    case "slack":
+      return {
+        text: payload.text,
+        attachments: payload.attachments.map((attachment) => ({
+          color: SLACK_COLORS[attachment.severity],
+          title: attachment.title,
+          text: attachment.body,
+          fallback: attachment.title,
+        })),
+      };
+    case "teams": {
+      const [headline] = payload.text.split("\n");
+      const critical = entries.some((entry) => entry.severity === "critical");
+      return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: headline,
+        themeColor: critical ? TEAMS_COLORS.critical : TEAMS_COLORS.warning,
+        title: headline,
+        sections: payload.attachments.map((attachment) => ({
+          activityTitle: attachment.title,
+          text: attachment.body,
+        })),
+      };
+    }
+    case "json":
+      return {
+        ...payload,
+        alerts: entries.map((entry) => ({
+          deal_id: entry.deal.id,
+          deal_title: entry.deal.title,
+          company: entry.deal.company,
+          owner_id: entry.deal.owner_id,
+          owner_name: entry.owner_name,
+          pipeline_id: entry.deal.pipeline_id,
+          severity: entry.severity,
+          rules: entry.rules,
+          message: entry.message,
+          recommended_action: entry.recommendedAction,
+          priority: entry.priority,
+          risk: entry.risk,
+        })),
+      };
+  }
+}
+
+/* Filtros */
+
+/** Qué alertas recibe un canal; las listas vacías no filtran. */
+export interface AlertChannelFilters {
+  severity: DealAlertSensitivity;
+  owner_ids: readonly string[];
+  pipeline_ids: readonly string[];
+}
+
+export function matchesAlertChannel(filters: AlertChannelFilters, entry: AlertChannelEntry): boolean {
+  if (!matchesDealAlertSensitivity(entry.severity, filters.severity)) return false;
+  if (filters.owner_ids.length && !filters.owner_ids.includes(entry.deal.owner_id ?? "")) return false;
+  return !filters.pipeline_ids.length || filters.pipeline_ids.includes(entry.deal.pipeline_id);
+}
+
+/** Resumen legible de los filtros para el listado del editor. */
+export function describeAlertChannelFilters(
+  filters: AlertChannelFilters,
+  ownerName: (id: string) => string = (id) => id,
+  pipelineName: (id: string) => string = (id) => id,
+): string {
+  const parts = [
+    filters.severity === "all" ? "Todas las alertas" : DEAL_ALERT_SENSITIVITY_LABELS[filters.severity],
+  ];
+  if (filters.owner_ids.length) parts.push(`de ${filters.owner_ids.map(ownerName).join(", ")}`);
+  if (filters.pipeline_ids.length) parts.push(`en ${filters.pipeline_ids.map(pipelineName).join(", ")}`);
+  return parts.join(" ");
+}
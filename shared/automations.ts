@@ -0,0 +1,275 @@
+// Automatizaciones: reglas "cuando pase X, si se cumple Y, haz Z" que el
+// servidor evalúa en los eventos de deals, contactos y tareas. Aquí viven los
+// disparadores, las condiciones y las acciones que admite cada entidad, la
+// validación de las reglas y la evaluación de condiciones, compartidas con el
+// editor del cliente.
+
+import { z } from "zod";
+import { normalizeStageName } from "./pipelineStages";
+
+export const AUTOMATION_TRIGGERS = [
+  "deal_created",
+  "deal_stage_changed",
+  "deal_status_changed",
+  "task_overdue",
+  "contact_created",
+] as const;
+export type AutomationTrigger = (typeof AUTOMATION_TRIGGERS)[number];
+
+export const AUTOMATION_ENTITIES = ["deal", "contact", "task"] as const;
+export type AutomationEntity = (typeof AUTOMATION_ENTITIES)[number];
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  deal_created: "Deal creado",
+  deal_stage_changed: "Deal cambia de etapa",
+  deal_status_changed: "Deal cambia de estado",
+  task_overdue: "Tarea vencida",
+  contact_created: "Contacto creado",
+};
+
+/** Entidad sobre la que actúa cada disparador: sus campos son los de las condiciones. */
+export const AUTOMATION_TRIGGER_ENTITY: Record<AutomationTrigger, AutomationEntity> = {
+  deal_created: "deal",
+  deal_stage_changed: "deal",
+  deal_status_changed: "deal",
+  task_overdue: "task",
+  contact_created: "contact",
+};
+
+/* Condiciones */
+
+export const AUTOMATION_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte"] as const;
+export type AutomationOperator = (typeof AUTOMATION_OPERATORS)[number];
+
+export const AUTOMATION_OPERATOR_LABELS: Record<AutomationOperator, string> = {
+  eq: "es",
+  neq: "no es",
+  gt: "mayor que",
+  gte: "mayor o igual que",
+  lt: "menor que",
+  lte: "menor o igual que",
+};
+
+export interface AutomationFieldDefinition {
+  key: string;
+  label: string;
+  type: "text" | "number" | "option";
+  /** Valores posibles de los campos `option`. */
+  options?: readonly string[];
+}
+
+const DEAL_PRIORITIES = ["Cold", "Warm", "Hot"] as const;
+const RISK_LEVELS = ["Bajo", "Medio", "Alto"] as const;
+const DEAL_STATUSES = ["Open", "Won", "Lost"] as const;
+export const AUTOMATION_TASK_PRIORITIES = ["Baja", "Media", "Alta"] as const;
+const TASK_STATES = ["To Do", "Doing", "Waiting", "Done"] as const;
+
+/** Campos que se pueden comparar en cada entidad. */
+export const AUTOMATION_CONDITION_FIELDS: Record<AutomationEntity, readonly AutomationFieldDefinition[]> = {
+  deal: [
+    { key: "stage", label: "Etapa", type: "text" },
+    { key: "status", label: "Estado", type: "option", options: DEAL_STATUSES },
+    { key: "priority", label: "Prioridad", type: "option", options: DEAL_PRIORITIES },
+    { key: "risk_level", label: "Riesgo", type: "option", options: RISK_LEVELS },
+    { key: "amount", label: "Importe", type: "number" },
+    { key: "probability", label: "Probabilidad", type: "number" },
+  ],
+  contact: [
+    { key: "priority", label: "Prioridad", type: "option", options: DEAL_PRIORITIES },
+    { key: "source", label: "Origen", type: "text" },
+  ],
+  task: [
+    { key: "priority", label: "Prioridad", type: "option", options: AUTOMATION_TASK_PRIORITIES },
+    { key: "state", label: "Estado", type: "option", options: TASK_STATES },
+  ],
+};
+
+/** Campos que la acción "Cambiar campo" puede escribir en cada entidad. */
+export const AUTOMATION_SETTABLE_FIELDS: Record<AutomationEntity, readonly AutomationFieldDefinition[]> = {
+  deal: [
+    { key: "priority", label: "Prioridad", type: "option", options: DEAL_PRIORITIES },
+    { key: "risk_level", label: "Riesgo", type: "option", options: RISK_LEVELS },
+    { key: "next_step", label: "Próximo paso", type: "text" },
+  ],
+  contact: [{ key: "priority", label: "Prioridad", type: "option", options: DEAL_PRIORITIES }],
+  task: [
+    { key: "priority", label: "Prioridad", type: "option", options: AUTOMATION_TASK_PRIORITIES },
+    { key: "state", label: "Estado", type: "option", options: TASK_STATES },
+  ],
+};
+
+export const automationConditionSchema = z.object({
+  field: z.string().min(1, "Elige un campo"),
+  operator: z.enum(AUTOMATION_OPERATORS),
+  value: z.union([z.string(), z.number()]),
+});
+export type AutomationCondition = z.infer<typeof automationConditionSchema>;
+
+/* Acciones */
+
+export const AUTOMATION_ACTION_TYPES = ["create_task", "assign_owner", "set_field", "log_timeline", "webhook"] as const;
+export type AutomationActionType = (typeof AUTOMATION_ACTION_TYPES)[number];
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  create_task: "Crear tarea",
+  assign_owner: "Asignar owner",
+  set_field: "Cambiar campo",
+  log_timeline: "Anotar en el timeline",
+  webhook: "Llamar a un webhook",
+};
+
+/** Plazo máximo de las tareas que crean las reglas, en días. */
+export const MAX_AUTOMATION_TASK_DAYS = 365;
+export const MAX_AUTOMATION_CONDITIONS = 10;
+export const MAX_AUTOMATION_ACTIONS = 5;
+
+/** URL de un webhook saliente: las automatizaciones y los canales de alertas. */
+export const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url("URL no válida")
+  .refine((url) => /^https?:\/\//i.test(url), "El webhook debe ser http(s)");
+
+export const automationActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("create_task"),
+    title: z.string().trim().min(1, "La tarea necesita un título"),
+    due_in_days: z.coerce.number().int().min(0).max(MAX_AUTOMATION_TASK_DAYS).default(1),
+    priority: z.enum(AUTOMATION_TASK_PRIORITIES).default("Media"),
+  }),
+  z.object({ type: z.literal("assign_owner"), owner_id: z.string().min(1, "Elige un owner") }),
+  z.object({ type: z.literal("set_field"), field: z.string().min(1, "Elige un campo"), value: z.string() }),
+  z.object({ type: z.literal("log_timeline"), message: z.string().trim().min(1, "Escribe el texto de la entrada") }),
+  z.object({ type: z.literal("webhook"), url: webhookUrlSchema }),
+]);
+export type AutomationAction = z.infer<typeof automationActionSchema>;
+
+export const automationConditionsSchema = z
+  .array(automationConditionSchema)
+  .max(MAX_AUTOMATION_CONDITIONS, `Como máximo ${MAX_AUTOMATION_CONDITIONS} condiciones`);
+export const automationActionsSchema = z
+  .array(automationActionSchema)
+  .min(1, "La regla necesita al menos una acción")
+  .max(MAX_AUTOMATION_ACTIONS, `Como máximo ${MAX_AUTOMATION_ACTIONS} acciones`);
+
+/** Lo mínimo de una regla para validarla y evaluarla. */
+export interface AutomationRuleDefinition {
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+}
+
+function findField(fields: readonly AutomationFieldDefinition[], key: string) {
+  return fields.find((field) => field.key === key);
+}
+
+/**
+ * Comprueba que condiciones y acciones usan campos de la entidad del
+ * disparador y valores válidos. Devuelve todos los errores juntos.
+ */
+export function validateAutomationRule(rule: AutomationRuleDefinition): string[] {
+  const entity = AUTOMATION_TRIGGER_ENTITY[rule.trigger];
+  const errors: string[] = [];
+
+  for (const condition of rule.conditions) {
+    const field = findField(AUTOMATION_CONDITION_FIELDS[entity], condition.field);
+    if (!field) {
+      errors.push(`Campo desconocido en la condición: ${condition.field}`);
+    } else if (field.type === "number") {
+      if (!Number.isFinite(Number(condition.value)) || condition.value === "") {
+        errors.push(`${field.label}: número no válido: ${condition.value}`);
+      }
+    } else if (condition.operator !== "eq" && condition.operator !== "neq") {
+      errors.push(`${field.label}: solo admite "es" o "no es"`);
+    } else if (field.options && !field.options.includes(String(condition.value))) {
+      errors.push(`${field.label}: valor desconocido: ${condition.value}`);
+    }
+  }
+
+  for (const action of rule.actions) {
+    if (action.type !== "set_field") continue;
+    const field = findField(AUTOMATION_SETTABLE_FIELDS[entity], action.field);
+    if (!field) errors.push(`No se puede cambiar el campo ${action.field}`);
+    else if (field.options && !field.options.includes(action.value)) {
+      errors.push(`${field.label}: valor desconocido: ${action.value}`);
+    } else if (!field.options && !action.value.trim()) {
+      errors.push(`${field.label}: el valor no puede quedar vacío`);
+    }
+  }
+  return errors;
+}
+
+function compareText(actual: string, expected: string, field: string): boolean {
+  // Las etapas se comparan como en el resto del CRM: sin mayúsculas ni tildes
+  return field === "stage"
+    ? normalizeStageName(actual) === normalizeStageName(expected)
+    : actual.toLowerCase() === expected.toLowerCase();
+}
+
+export function matchesAutomationCondition(
+  record: Record<string, unknown>,
+  condition: AutomationCondition,
+): boolean {
+  const actual = record[condition.field];
+  const { operator, value } = condition;
+  if (operator === "eq" || operator === "neq") {
+    const same =
+      typeof actual === "number"
+        ? actual === Number(value)
+        : compareText(String(actual ?? ""), String(value), condition.field);
+    return operator === "eq" ? same : !same;
+  }
+  // Sin valor (un deal sin importe) no es mayor ni menor que nada
+  if (typeof actual !== "number") return false;
+  const limit = Number(value);
+  switch (operator) {
+    case "gt":
+      return actual > limit;
+    case "gte":
+      return actual >= limit;
+    case "lt":
+      return actual < limit;
+    case "lte":
+      return actual <= limit;
+  }
+}
+
+/** Todas las condiciones se cumplen (una regla sin condiciones se aplica siempre). */
+export function matchesAutomationConditions(
+  record: Record<string, unknown>,
+  conditions: readonly AutomationCondition[],
+): boolean {
+  return conditions.every((condition) => matchesAutomationCondition(record, condition));
+}
+
+/* Ejecuciones */
+
+export const AUTOMATION_RUN_STATUSES = ["success", "partial", "failed"] as const;
+export type AutomationRunStatus = (typeof AUTOMATION_RUN_STATUSES)[number];
+
+/** Resultado de cada acción dentro de una ejecución. */
+export interface AutomationActionResult {
+  type: AutomationActionType;
+  ok: boolean;
+  /** Qué hizo o por qué falló. */
+  detail: string;
+}
+
+export function automationRunStatus(results: readonly AutomationActionResult[]): AutomationRunStatus {
+  const failed = results.filter((result) => !result.ok).length;
+  if (!failed) return "success";
+  return failed === results.length ? "failed" : "partial";
+}
+
+/** Resumen legible de una regla para el listado del editor. */
+export function describeAutomationRule(
+  rule: AutomationRuleDefinition,
+  fieldLabel: (key: string) => string = (key) => key,
+): string {
+  const when = AUTOMATION_TRIGGER_LABELS[rule.trigger];
+  const conditions = rule.conditions
+    .map(({ field, operator, value }) => `${fieldLabel(field)} ${AUTOMATION_OPERATOR_LABELS[operator]} ${value}`)
+    .join(" y ");
+  const actions = rule.actions.map((action) => AUTOMATION_ACTION_LABELS[action.type].toLowerCase()).join(", ");
+  return conditions ? `${when}, si ${conditions}: ${actions}` : `${when}: ${actions}`;
+}
@@ -0,0 +1,109 @@
+// Acciones en bloque sobre los listados: qué se puede hacer con cada entidad
+// y el informe que devuelve el servidor. Compartido por la API y el cliente.
+
+import type { Permission } from "./permissions";
+
+export const BULK_ENTITIES = ["deals", "contacts", "companies", "tasks"] as const;
+export type BulkEntity = (typeof BULK_ENTITIES)[number];
+
+export const BULK_ACTION_TYPES = [
+  "set_owner",
+  "set_stage",
+  "set_priority",
+  "set_status",
+  "create_task",
+  "add_tag",
+  "remove_tag",
+  "delete",
+] as const;
+export type BulkActionType = (typeof BULK_ACTION_TYPES)[number];
+
+/** Tope de registros por operación: un equipo entero cabe, una tabla completa no. */
+export const BULK_MAX_RECORDS = 500;
+
+/** Acciones disponibles por entidad. En tareas el owner es el asignado y el estado es `state`. */
+export const BULK_ACTIONS: Record<BulkEntity, readonly BulkActionType[]> = {
+  deals: ["set_owner", "set_stage", "set_priority", "set_status", "create_task", "add_tag", "remove_tag", "delete"],
+  contacts: ["set_owner", "set_priority", "create_task", "add_tag", "remove_tag", "delete"],
+  companies: ["set_priority", "add_tag", "remove_tag", "delete"],
+  tasks: ["set_owner", "set_priority", "set_status", "add_tag", "remove_tag", "delete"],
+};
+
+/**
+ * Permiso que pide cada entidad para cambiar o borrar; etiquetar cuenta como cambiar,
+ * igual que al editar el registro. Las tareas no tienen permisos propios, solo alcance.
+ */
+export const BULK_PERMISSIONS: Partial<Record<BulkEntity, { update: Permission; delete: Permission }>> = {
+  deals: { update: "deals:update", delete: "deals:delete" },
+  contacts: { update: "contacts:update", delete: "contacts:delete" },
+  companies: { update: "companies:update", delete: "companies:delete" },
+};
+
+export function bulkPermission(entity: BulkEntity, type: BulkActionType): Permission | null {
+  const permissions = BULK_PERMISSIONS[entity];
+  if (!permissions) return null;
+  return type === "delete" ? permissions.delete : permissions.update;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkActionType, string> = {
+  set_owner: "Cambiar owner",
+  set_stage: "Cambiar etapa",
+  set_priority: "Cambiar prioridad",
+  set_status: "Cambiar estado",
+  create_task: "Crear tarea de seguimiento",
+  add_tag: "Añadir etiqueta",
+  remove_tag: "Quitar etiqueta",
+  delete: "Eliminar",
+};
+
+/** Valores de prioridad y estado que admite cada entidad. */
+export const BULK_PRIORITIES: Record<BulkEntity, readonly string[]> = {
+  deals: ["Cold", "Warm", "Hot"],
+  contacts: ["Cold", "Warm", "Hot"],
+  companies: ["Cold", "Warm", "Hot"],
+  tasks: ["Baja", "Media", "Alta"],
+};
+
+export const BULK_STATUSES: Partial<Record<BulkEntity, readonly string[]>> = {
+  deals: ["Open", "Won", "Lost"],
+  tasks: ["To Do", "Doing", "Waiting", "Done"],
+};
+
+export type BulkAction =
+  | { type: "set_owner"; owner_id: string }
+  | { type: "set_stage"; stage: string }
+  | { type: "set_priority"; priority: string }
+  /** Ganados y perdidos comparten el mismo motivo de cierre. */
+  | { type: "set_status"; status: string; close_reason?: string | null }
+  | { type: "create_task"; title: string; due_at?: Date | string | null; priority?: string | null }
+  | { type: "add_tag"; tag_id: string }
+  | { type: "remove_tag"; tag_id: string }
+  | { type: "delete" };
+
+export interface BulkRecordResult {
+  id: string;
+  ok: boolean;
+  /** Motivo del fallo; el resto de registros sigue adelante. */
+  error?: string;
+}
+
+export interface BulkReport {
+  /** Identificador de la operación, también en el metadata de cada entrada del timeline. */
+  bulk_id: string;
+  entity: BulkEntity;
+  action: BulkActionType;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkRecordResult[];
+}
+
+export function isBulkActionAllowed(entity: BulkEntity, type: BulkActionType): boolean {
+  return BULK_ACTIONS[entity].includes(type);
+}
+
+/** Resumen legible del informe, para el aviso final en el cliente. */
+export function describeBulkReport(report: Pick<BulkReport, "total" | "succeeded" | "failed">): string {
+  const base = `${report.succeeded} de ${report.total} registro${report.total === 1 ? "" : "s"} procesados`;
+  return report.failed ? `${base}; ${report.failed} con error` : base;
+}
@@ -0,0 +1,141 @@
+// Normalización de nombres de empresa y detección de empresas duplicadas
+// ("Acme", "ACME S.L." y "Acme SL" son la misma). El servidor la usa al
+// vincular contactos y deals por nombre y en la revisión de duplicados.
+
+import { bucketByKey, groupLinkedRecords, linkBuckets } from "./duplicateGroups";
+import { normalizeStageName } from "./pipelineStages";
+
+export type CompanyDuplicateReason = "name" | "domain";
+
+export const COMPANY_DUPLICATE_REASON_LABELS: Record<CompanyDuplicateReason, string> = {
+  name: "Mismo nombre",
+  domain: "Misma web",
+};
+
+export interface CompanyDuplicateCandidate {
+  name: string;
+  website?: string | null;
+}
+
+export interface CompanyDuplicateGroup<T> {
+  companies: T[];
+  reasons: CompanyDuplicateReason[];
+}
+
+/** Campos que se eligen al fusionar: cada uno se toma de una de las empresas. */
+export const COMPANY_MERGE_FIELDS = [
+  "name",
+  "industry",
+  "size",
+  "revenue_estimate",
+  "location",
+  "website",
+  "description",
+] as const;
+export type CompanyMergeField = (typeof COMPANY_MERGE_FIELDS)[number];
+
+export const COMPANY_MERGE_FIELD_LABELS: Record<CompanyMergeField, string> = {
+  name: "Nombre",
+  industry: "Sector",
+  size: "Tamaño",
+  revenue_estimate: "Facturación estimada",
+  location: "Ubicación",
+  website: "Web",
+  description: "Descripción",
+};
+
+/** Formas jurídicas que se ignoran al final del nombre, ya sin puntos ni espacios internos. */
+const LEGAL_SUFFIXES = new Set([
+  "sl",
+  "slu",
+  "sll",
+  "slne",
+  "sa",
+  "sau",
+  "scoop",
+  "sociedad limitada",
+  "sociedad anonima",
+  "cb",
+  "inc",
+  "incorporated",
+  "llc",
+  "llp",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "plc",
+  "gmbh",
+  "ag",
+  "srl",
+  "spa",
+  "sas",
+  "sarl",
+  "bv",
+  "nv",
+]);
+
+/**
+ * Clave de comparación de una empresa: sin tildes, mayúsculas, signos ni
+ * forma jurídica final. "" si no queda nada con lo que comparar.
+ */
+export function normalizeCompanyName(name: string | null | undefined): string {
+  const tokens = normalizeStageName(name ?? "")
+    .replace(/\./g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+  // "S L" (de "S. L.") cuenta como "sl"
+  let letters = tokens.length;
+  while (letters > 0 && tokens[letters - 1].length === 1) letters -= 1;
+  const trailing = tokens.length - letters;
+  if (letters > 0 && trailing > 1) tokens.splice(letters, trailing, tokens.slice(letters).join(""));
+
+  while (tokens.length > 1) {
+    if (tokens.length > 2 && LEGAL_SUFFIXES.has(tokens.slice(-2).join(" "))) {
+      tokens.splice(-2, 2);
+    } else if (LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+      tokens.pop();
+    } else {
+      break;
+    }
+  }
+  return tokens.join(" ");
+}
+
+/** Dominio de la web sin protocolo, `www.` ni ruta; "" si no parece un dominio. */
+export function getCompanyDomain(website: string | null | undefined): string {
+  const host = (website ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#:]/)[0];
+  return host.includes(".") ? host : "";
+}
+
+export function getCompanyDuplicateReasons(
+  a: CompanyDuplicateCandidate,
+  b: CompanyDuplicateCandidate,
+): CompanyDuplicateReason[] {
+  const reasons: CompanyDuplicateReason[] = [];
+  const name = normalizeCompanyName(a.name);
+  if (name && name === normalizeCompanyName(b.name)) reasons.push("name");
+  const domain = getCompanyDomain(a.website);
+  if (domain && domain === getCompanyDomain(b.website)) reasons.push("domain");
+  return reasons;
+}
+
+/** Empresas con el mismo nombre normalizado o la misma web, unidas de forma transitiva. */
+export function groupCompanyDuplicates<T extends CompanyDuplicateCandidate>(
+  companies: readonly T[],
+): CompanyDuplicateGroup<T>[] {
+  const groups = groupLinkedRecords<T, CompanyDuplicateReason>(companies, (link) => {
+    linkBuckets(bucketByKey(companies, (company) => normalizeCompanyName(company.name)), link, "name");
+    linkBuckets(bucketByKey(companies, (company) => getCompanyDomain(company.website)), link, "domain");
+  });
+  return groups.map(({ members, reasons }) => ({ companies: members, reasons }));
+}
@@ -0,0 +1,41 @@
+// Agregados de deals por empresa a partir de `deals.company_id`. Los usan el
+// servidor (GET /api/companies/rollups) y el modo demo del cliente.
+
+export interface CompanyDealRollup {
+  company_id: string;
+  deal_count: number;
+  open_count: number;
+  /** Importe de los deals abiertos. */
+  open_pipeline: number;
+  /** Importe de los deals ganados. */
+  won_revenue: number;
+}
+
+export interface RollupDeal {
+  company_id?: string | null;
+  status?: string | null;
+  amount?: number | null;
+}
+
+export function emptyCompanyRollup(companyId: string): CompanyDealRollup {
+  return { company_id: companyId, deal_count: 0, open_count: 0, open_pipeline: 0, won_revenue: 0 };
+}
+
+/** Un agregado por empresa con deals; los deals sin empresa no cuentan. */
+export function buildCompanyRollups(deals: readonly RollupDeal[]): CompanyDealRollup[] {
+  const rollups = new Map<string, CompanyDealRollup>();
+  for (const deal of deals) {
+    if (!deal.company_id) continue;
+    const rollup = rollups.get(deal.company_id) ?? emptyCompanyRollup(deal.company_id);
+    const amount = deal.amount ?? 0;
+    rollup.deal_count += 1;
+    if (!deal.status || deal.status === "Open") {
+      rollup.open_count += 1;
+      rollup.open_pipeline += amount;
+    } else if (deal.status === "Won") {
+      rollup.won_revenue += amount;
+    }
+    rollups.set(deal.company_id, rollup);
+  }
+  return Array.from(rollups.values());
+}
@@ -0,0 +1,161 @@
+// Detección de contactos duplicados: claves normalizadas de email, teléfono y
+// nombre + empresa. El cliente la usa al crear un contacto y el servidor para
+// la revisión de posibles duplicados; sin dependencias de runtime.
+
+import { normalizeCompanyName } from "./companyDuplicates";
+import { bucketByKey, groupLinkedRecords, linkBuckets } from "./duplicateGroups";
+import { normalizeStageName } from "./pipelineStages";
+
+export type DuplicateReason = "email" | "phone" | "name_company";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: "Mismo email",
+  phone: "Mismo teléfono",
+  name_company: "Nombre parecido en la misma empresa",
+};
+
+/** Lo que hace falta para comparar; `company` es el nombre de la empresa. */
+export interface DuplicateCandidate {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+}
+
+export interface DuplicateMatch<T> {
+  contact: T;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateGroup<T> {
+  contacts: T[];
+  reasons: DuplicateReason[];
+}
+
+/** Campos que se eligen al fusionar: cada uno se toma de uno de los contactos. */
+export const CONTACT_MERGE_FIELDS = ["name", "email", "phone", "company_id", "position", "source", "owner_id"] as const;
+export type ContactMergeField = (typeof CONTACT_MERGE_FIELDS)[number];
+
+export const CONTACT_MERGE_FIELD_LABELS: Record<ContactMergeField, string> = {
+  name: "Nombre",
+  email: "Email",
+  phone: "Teléfono",
+  company_id: "Empresa",
+  position: "Cargo",
+  source: "Origen",
+  owner_id: "Propietario",
+};
+
+/** Similitud mínima (0-1) entre dos nombres de la misma empresa. */
+const NAME_SIMILARITY = 0.85;
+/** Por debajo no es un teléfono con el que comparar (extensiones, restos). */
+const MIN_PHONE_DIGITS = 6;
+/** Se comparan los últimos dígitos para ignorar el prefijo internacional. */
+const PHONE_SUFFIX_DIGITS = 9;
+
+function normalizeText(value: string): string {
+  return normalizeStageName(value)
+    .replace(/[^a-z0-9@.]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Email en minúsculas y sin la etiqueta `+algo` de la parte local. */
+export function normalizeEmail(email: string | null | undefined): string {
+  const value = email?.trim().toLowerCase() ?? "";
+  const at = value.lastIndexOf("@");
+  if (at <= 0) return value;
+  return `${value.slice(0, at).replace(/\+.*$/, "")}${value.slice(at)}`;
+}
+
+/** Solo dígitos, sin el prefijo internacional; "" si no parece un teléfono. */
+export function normalizePhone(phone: string | null | undefined): string {
+  const digits = (phone ?? "").replace(/\D/g, "").replace(/^00/, "");
+  if (digits.length < MIN_PHONE_DIGITS) return "";
+  return digits.slice(-PHONE_SUFFIX_DIGITS);
+}
+
+/** Nombre sin tildes, signos ni orden: "Pérez, Juan" y "juan perez" coinciden. */
+export function normalizePersonName(name: string | null | undefined): string {
+  return normalizeText(name ?? "")
+    .replace(/[@.]/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Nombres iguales una vez normalizados o con pocas letras de diferencia. */
+export function namesLookAlike(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizePersonName(a);
+  const right = normalizePersonName(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest >= NAME_SIMILARITY;
+}
+
+export function getDuplicateReasons(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) reasons.push("email");
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) reasons.push("phone");
+  const company = normalizeCompanyName(a.company);
+  if (company && company === normalizeCompanyName(b.company) && namesLookAlike(a.name, b.name)) {
+    reasons.push("name_company");
+  }
+  return reasons;
+}
+
+/** Contactos existentes que podrían ser el mismo que `candidate`. */
+export function findContactDuplicates<T extends DuplicateCandidate & { id: string }>(
+  candidate: DuplicateCandidate,
+  contacts: readonly T[],
+  excludeId?: string,
+): DuplicateMatch<T>[] {
+  const matches: DuplicateMatch<T>[] = [];
+  for (const contact of contacts) {
+    if (contact.id === excludeId) continue;
+    const reasons = getDuplicateReasons(candidate, contact);
+    if (reasons.length) matches.push({ contact, reasons });
+  }
+  return matches;
+}
+
+/**
+ * Agrupa los posibles duplicados: dos contactos van juntos si comparten
+ * email, teléfono o un nombre parecido en la misma empresa, y los grupos se
+ * unen de forma transitiva. Solo compara dentro de cada clave, no todos con todos.
+ */
+export function groupContactDuplicates<T extends DuplicateCandidate & { id: string }>(
+  contacts: readonly T[],
+): DuplicateGroup<T>[] {
+  const groups = groupLinkedRecords<T, DuplicateReason>(contacts, (link) => {
+    linkBuckets(bucketByKey(contacts, (contact) => normalizeEmail(contact.email)), link, "email");
+    linkBuckets(bucketByKey(contacts, (contact) => normalizePhone(contact.phone)), link, "phone");
+    bucketByKey(contacts, (contact) => normalizeCompanyName(contact.company)).forEach((indexes) => {
+      for (let i = 0; i < indexes.length; i += 1) {
+        for (let j = i + 1; j < indexes.length; j += 1) {
+          if (namesLookAlike(contacts[indexes[i]].name, contacts[indexes[j]].name)) {
+            link(indexes[i], indexes[j], "name_company");
+          }
+        }
+      }
+    });
+  });
+  return groups.map(({ members, reasons }) => ({ contacts: members, reasons }));
+}
@@ -0,0 +1,404 @@
+// Campos personalizados que define el admin para deals, contactos y empresas.
+// Cada registro guarda sus valores en `custom_fields` (clave del campo ->
+// valor). Validación, formato, filtros de los listados y columnas de
+// importación/exportación compartidos por el cliente y el servidor.
+
+import { z } from "zod";
+import { normalizeStageName } from "./pipelineStages";
+
+export const CUSTOM_FIELD_ENTITIES = ["deals", "contacts", "companies"] as const;
+export type CustomFieldEntity = (typeof CUSTOM_FIELD_ENTITIES)[number];
+
+export function isCustomFieldEntity(entity: string): entity is CustomFieldEntity {
+  return (CUSTOM_FIELD_ENTITIES as readonly string[]).includes(entity);
+}
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "currency",
+  "date",
+  "select",
+  "multiselect",
+  "boolean",
+  "url",
+] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export const CUSTOM_FIELD_ENTITY_LABELS: Record<CustomFieldEntity, string> = {
+  deals: "Deals",
+  contacts: "Contactos",
+  companies: "Empresas",
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Texto",
+  number: "Número",
+  currency: "Importe (€)",
+  date: "Fecha",
+  select: "Selección única",
+  multiselect: "Selección múltiple",
+  boolean: "Sí / No",
+  url: "URL",
+};
+
+/** Tipos que necesitan una lista de opciones. */
+export const CUSTOM_FIELD_OPTION_TYPES: readonly CustomFieldType[] = ["select", "multiselect"];
+
+/** Campos por entidad: los formularios y las exportaciones no dan para más. */
+export const MAX_CUSTOM_FIELDS = 30;
+export const MAX_CUSTOM_FIELD_TEXT = 1000;
+
+export type CustomFieldValue = string | number | boolean | string[];
+/** Valores de un registro por clave; un campo vacío no aparece. */
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const customFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]);
+/** Lo que llega de la API: null (o vacío) borra el valor del campo. */
+export const customFieldValuesInputSchema = z.record(customFieldValueSchema.nullable());
+export type CustomFieldValuesInput = z.infer<typeof customFieldValuesInputSchema>;
+
+/** Forma mínima de una definición: vale la fila de la tabla y la que recibe el cliente. */
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+}
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export function isValidCustomFieldKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/** Clave a partir de la etiqueta: "Duración del contrato" -> "duracion_del_contrato". */
+export function customFieldKeyFromLabel(label: string): string {
+  const slug = normalizeStageName(label)
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+/, "")
+    .replace(/_+$/, "");
+  return slug.slice(0, 40).replace(/_+$/, "");
+}
+
+/** Opciones sin vacíos ni repetidas (sin distinguir tildes ni mayúsculas). */
+export function cleanCustomFieldOptions(options: readonly string[]): string[] {
+  const seen = new Set<string>();
+  const cleaned: string[] = [];
+  options.forEach((option) => {
+    const trimmed = option.trim();
+    const key = normalizeStageName(trimmed);
+    if (!trimmed || seen.has(key)) return;
+    seen.add(key);
+    cleaned.push(trimmed);
+  });
+  return cleaned;
+}
+
+export function sortCustomFields<T extends { order_index: number }>(fields: readonly T[]): T[] {
+  return [...fields].sort((a, b) => a.order_index - b.order_index);
+}
+
+function matchOption(field: CustomFieldDefinition, raw: string): string | undefined {
+  const key = normalizeStageName(raw);
+  return field.options.find((option) => normalizeStageName(option) === key);
+}
+
+function toNumber(raw: unknown): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== "string" || !raw.trim()) return null;
+  const number = Number(raw.trim());
+  return Number.isFinite(number) ? number : null;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function toIsoDay(raw: unknown): string | null {
+  if (raw instanceof Date) return Number.isNaN(raw.getTime()) ? null : raw.toISOString().slice(0, 10);
+  if (typeof raw !== "string") return null;
+  const value = raw.trim().slice(0, 10);
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  // Descarta fechas desbordadas como 2026-02-31
+  return !Number.isNaN(date.getTime()) && date.getUTCDate() === Number(match[3]) ? value : null;
+}
+
+/** URL con esquema; "linkedin.com/in/ana" se guarda como "https://linkedin.com/in/ana". */
+function toUrl(raw: string): string | null {
+  const value = /^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `https://${raw}`;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.hostname.includes(".") ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function isEmptyValue(raw: unknown): boolean {
+  return (
+    raw === null ||
+    raw === undefined ||
+    (typeof raw === "string" && !raw.trim()) ||
+    (Array.isArray(raw) && raw.length === 0)
+  );
+}
+
+/**
+ * Valor listo para guardar: tipo canónico, opciones con su nombre exacto y
+ * fechas como AAAA-MM-DD. Devuelve null si el campo queda vacío y lanza un
+ * Error con el motivo si el valor no vale para el tipo.
+ */
+export function normalizeCustomFieldValue(field: CustomFieldDefinition, raw: unknown): CustomFieldValue | null {
+  if (isEmptyValue(raw)) return null;
+  const invalid = (detail: string) => new Error(`${field.label}: ${detail}`);
+
+  switch (field.type) {
+    case "text": {
+      if (typeof raw !== "string" && typeof raw !== "number") throw invalid("se esperaba un texto");
+      const text = String(raw).trim();
+      if (text.length > MAX_CUSTOM_FIELD_TEXT) throw invalid(`máximo ${MAX_CUSTOM_FIELD_TEXT} caracteres`);
+      return text;
+    }
+    case "url": {
+      const url = typeof raw === "string" ? toUrl(raw.trim()) : null;
+      if (!url) throw invalid(`URL no válida: ${String(raw)}`);
+      return url;
+    }
+    case "number":
+    case "currency": {
+      const number = toNumber(raw);
+      if (number === null) throw invalid(`número no válido: ${String(raw)}`);
+      return field.type === "currency" ? Math.round(number * 100) / 100 : number;
+    }
+    case "date": {
+      const day = toIsoDay(raw);
+      if (!day) throw invalid(`fecha no válida: ${String(raw)} (AAAA-MM-DD)`);
+      return day;
+    }
+    case "boolean":
+      if (typeof raw === "boolean") return raw;
+      if (raw === "true" || raw === "false") return raw === "true";
+      throw invalid("se esperaba sí o no");
+    case "select": {
+      const option = typeof raw === "string" ? matchOption(field, raw) : undefined;
+      if (!option) throw invalid(`opción desconocida: ${String(raw)}`);
+      return option;
+    }
+    case "multiselect": {
+      const items = Array.isArray(raw) ? raw : [raw];
+      const chosen = new Set<string>();
+      items.forEach((item) => {
+        const option = typeof item === "string" ? matchOption(field, item) : undefined;
+        if (!option) throw invalid(`opción desconocida: ${String(item)}`);
+        chosen.add(option);
+      });
+      // En el orden de las opciones, para que dos selecciones iguales se guarden igual
+      return field.options.filter((option) => chosen.has(option));
+    }
+  }
+}
+
+export interface CustomFieldValidation {
+  values: CustomFieldValues;
+  errors: string[];
+}
+
+/**
+ * Aplica `input` sobre los valores actuales del registro. Solo se tocan las
+ * claves que llegan: null o vacío borra el valor. Las claves sin definición y
+ * los valores que no encajan con el tipo se devuelven como errores.
+ */
+export function applyCustomFieldValues(
+  fields: readonly CustomFieldDefinition[],
+  input: Record<string, unknown>,
+  current: CustomFieldValues = {},
+): CustomFieldValidation {
+  const values: CustomFieldValues = { ...current };
+  const errors: string[] = [];
+  Object.keys(input).forEach((key) => {
+    const field = fields.find((candidate) => candidate.key === key);
+    if (!field) {
+      errors.push(`Campo personalizado desconocido: ${key}`);
+      return;
+    }
+    try {
+      const value = normalizeCustomFieldValue(field, input[key]);
+      if (value === null) delete values[key];
+      else values[key] = value;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  });
+  return { values, errors };
+}
+
+/** Valores de varios registros fusionados: por cada campo gana el primero que lo tenga. */
+export function mergeCustomFieldValues(records: readonly (CustomFieldValues | null | undefined)[]): CustomFieldValues {
+  const merged: CustomFieldValues = {};
+  records.forEach((values) => {
+    Object.keys(values ?? {}).forEach((key) => {
+      if (!(key in merged)) merged[key] = values![key];
+    });
+  });
+  return merged;
+}
+
+/* Formato */
+
+const CURRENCY_FORMATTER = new Intl.NumberFormat("es-ES", { style: "currency", currency: "EUR" });
+
+/** Texto del valor para fichas, celdas y prompts; "" si el campo está vacío. */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null) return "";
+  switch (field.type) {
+    case "boolean":
+      return value ? "Sí" : "No";
+    case "currency":
+      return typeof value === "number" ? CURRENCY_FORMATTER.format(value) : String(value);
+    case "number":
+      return typeof value === "number" ? value.toLocaleString("es-ES") : String(value);
+    case "date": {
+      const match = typeof value === "string" ? DATE_PATTERN.exec(value) : null;
+      return match ? `${match[3]}/${match[2]}/${match[1]}` : String(value);
+    }
+    case "multiselect":
+      return Array.isArray(value) ? value.join(", ") : String(value);
+    default:
+      return String(value);
+  }
+}
+
+export interface CustomFieldEntry {
+  label: string;
+  value: string;
+}
+
+/** Campos con valor del registro, en el orden de las definiciones (fichas y snapshots de IA). */
+export function describeCustomFields(
+  fields: readonly CustomFieldDefinition[],
+  values: CustomFieldValues | null | undefined,
+): CustomFieldEntry[] {
+  if (!values) return [];
+  return fields
+    .map((field) => ({ label: field.label, value: formatCustomFieldValue(field, values[field.key]) }))
+    .filter((entry) => entry.value !== "");
+}
+
+/* Formularios */
+
+/** Valor tal como lo edita el formulario: texto para números y fechas, "" si está vacío. */
+export function toCustomFieldFormValue(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+): CustomFieldValue {
+  if (field.type === "multiselect") return Array.isArray(value) ? value : [];
+  if (field.type === "boolean") return typeof value === "boolean" ? value : "";
+  return value === undefined || Array.isArray(value) ? "" : String(value);
+}
+
+/**
+ * Campos que el formulario cambia respecto a lo guardado, listos para la API
+ * ("" o [] borran el valor); undefined si no cambia ninguno. Solo se mandan
+ * los cambios para no revalidar valores antiguos, como una opción ya retirada.
+ */
+export function diffCustomFieldValues(
+  fields: readonly CustomFieldDefinition[],
+  saved: CustomFieldValues | null | undefined,
+  form: CustomFieldValues,
+): CustomFieldValues | undefined {
+  const changes: CustomFieldValues = {};
+  fields.forEach((field) => {
+    const before = toCustomFieldFormValue(field, saved?.[field.key]);
+    const after = toCustomFieldFormValue(field, form[field.key]);
+    if (JSON.stringify(before) !== JSON.stringify(after)) changes[field.key] = after;
+  });
+  return Object.keys(changes).length ? changes : undefined;
+}
+
+/* Filtros de los listados */
+
+/** Parámetro de la query string con el filtro por campo personalizado (`cf=sector:Fintech`). */
+export const CUSTOM_FIELD_FILTER_PARAM = "cf";
+
+export interface CustomFieldFilter {
+  key: string;
+  value: string;
+}
+
+export function parseCustomFieldFilter(raw: string | null | undefined): CustomFieldFilter | null {
+  const separator = raw ? raw.indexOf(":") : -1;
+  if (!raw || separator <= 0) return null;
+  const value = raw.slice(separator + 1).trim();
+  return value ? { key: raw.slice(0, separator), value } : null;
+}
+
+export function formatCustomFieldFilter(filter: CustomFieldFilter | null): string | null {
+  return filter && filter.value.trim() ? `${filter.key}:${filter.value.trim()}` : null;
+}
+
+/** `10..50`, `10..` o `..50`; un valor suelto es un rango de un solo punto. */
+function parseRange(value: string): [string, string] {
+  const separator = value.indexOf("..");
+  if (separator === -1) return [value, value];
+  return [value.slice(0, separator).trim(), value.slice(separator + 2).trim()];
+}
+
+function inRange<T extends number | string>(value: T, from: T | null, to: T | null): boolean {
+  return (from === null || value >= from) && (to === null || value <= to);
+}
+
+/**
+ * Si los valores del registro pasan el filtro. Texto y URL buscan por
+ * contenido; números, importes y fechas aceptan rangos (`10..50`,
+ * `2026-01-01..`); las selecciones comparan la opción y Sí/No usa
+ * `true`/`false`. Un filtro sobre un campo que ya no existe no filtra.
+ */
+export function matchesCustomFieldFilter(
+  values: CustomFieldValues | null | undefined,
+  fields: readonly CustomFieldDefinition[],
+  raw: string | null | undefined,
+): boolean {
+  const filter = parseCustomFieldFilter(raw);
+  const field = filter && fields.find((candidate) => candidate.key === filter.key);
+  if (!filter || !field) return true;
+  const value = values?.[field.key];
+  if (value === undefined || value === null) return filter.value === "false" && field.type === "boolean";
+
+  switch (field.type) {
+    case "number":
+    case "currency": {
+      const [from, to] = parseRange(filter.value);
+      return typeof value === "number" && inRange(value, toNumber(from), toNumber(to));
+    }
+    case "date": {
+      const [from, to] = parseRange(filter.value);
+      return typeof value === "string" && inRange(value, toIsoDay(from), toIsoDay(to));
+    }
+    case "boolean":
+      return value === (filter.value === "true");
+    case "select":
+      return normalizeStageName(String(value)) === normalizeStageName(filter.value);
+    case "multiselect":
+      return (
+        Array.isArray(value) && value.some((item) => normalizeStageName(item) === normalizeStageName(filter.value))
+      );
+    default:
+      return normalizeStageName(String(value)).includes(normalizeStageName(filter.value));
+  }
+}
+
+/* Importación y exportación */
+
+/** Las columnas de campos personalizados llevan este prefijo para no chocar con las fijas. */
+export const CUSTOM_FIELD_COLUMN_PREFIX = "cf.";
+
+export function customFieldColumnKey(key: string): string {
+  return `${CUSTOM_FIELD_COLUMN_PREFIX}${key}`;
+}
+
+/** Clave del campo de una columna `cf.<clave>`; null si es una columna fija. */
+export function customFieldKeyFromColumn(column: string): string | null {
+  return column.startsWith(CUSTOM_FIELD_COLUMN_PREFIX) ? column.slice(CUSTOM_FIELD_COLUMN_PREFIX.length) : null;
+}
@@ -0,0 +1,435 @@
+// Reglas de alerta de deals: catálogo declarativo con severidad, acción
+// recomendada y parámetros por defecto. Cada instalación puede activarlas,
+// cambiar su severidad, sus umbrales y el texto de la acción (tabla
+// `deal_alert_rule_settings`); la evaluación es la misma en cliente y servidor.
+
+import { z } from "zod";
+import { DEFAULT_SLA_THRESHOLDS } from "./slaPolicies";
+
+export const DEAL_ALERT_RULES = [
+  "target_overdue",
+  "missing_next_step",
+  "inactivity",
+  "close_date_slipped",
+  "amount_drop",
+  "probability_below_stage",
+  "hot_without_contact",
+] as const;
+export type DealAlertRule = (typeof DEAL_ALERT_RULES)[number];
+
+export const DEAL_ALERT_SEVERITIES = ["warning", "critical"] as const;
+export type DealAlertSeverity = (typeof DEAL_ALERT_SEVERITIES)[number];
+
+export const DEAL_ALERT_SEVERITY_LABELS: Record<DealAlertSeverity, string> = {
+  warning: "Aviso",
+  critical: "Crítica",
+};
+
+type AlertPriority = "Hot" | "Warm" | "Cold";
+
+export const MAX_ALERT_ACTION_LENGTH = 300;
+
+/** Lo que necesitan las reglas de un deal abierto; prioridad e inactividad ya calculadas. */
+export interface DealAlertSubject {
+  title: string;
+  stage: string;
+  priority: AlertPriority;
+  /** Días sin actividad. */
+  inactivity: number;
+  /** Días sin actividad que tolera su política de SLA; sin ella, los de su prioridad por defecto. */
+  sla_days?: number | null;
+  next_step?: string | null;
+  target_close_date?: string | Date | null;
+  amount?: number | null;
+  /** Importe antes del último cambio de importe. */
+  previous_amount?: number | null;
+  probability?: number | null;
+  /** Probabilidad por defecto de la etapa; null si no se conocen las etapas. */
+  stage_probability?: number | null;
+  /** Veces que se ha retrasado la fecha objetivo. */
+  close_date_slips?: number | null;
+  contact_id?: string | null;
+}
+
+export interface DealAlertParamDefinition {
+  key: string;
+  label: string;
+  default: number;
+  min: number;
+  max: number;
+}
+
+export type DealAlertParams = Record<string, number>;
+
+export interface DealAlertRuleDefinition {
+  rule: DealAlertRule;
+  label: string;
+  description: string;
+  severity: DealAlertSeverity;
+  recommendedAction: string;
+  /** Completa "<título del deal> ..." en el mensaje de la alerta. */
+  summary: string;
+  params: readonly DealAlertParamDefinition[];
+  /** Motivo de la alerta, o null si la regla no salta. */
+  evaluate: (subject: DealAlertSubject, params: DealAlertParams, now: Date) => string | null;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function formatAmount(value: number): string {
+  return `${value.toLocaleString("es-ES")} €`;
+}
+
+export const DEAL_ALERT_RULE_DEFINITIONS: Record<DealAlertRule, DealAlertRuleDefinition> = {
+  target_overdue: {
+    rule: "target_overdue",
+    label: "Fecha objetivo vencida",
+    description: "La fecha objetivo de cierre ya ha pasado.",
+    severity: "critical",
+    recommendedAction: "Contacta hoy, renegocia la fecha objetivo y deja registro del próximo paso.",
+    summary: "tiene la fecha objetivo vencida",
+    params: [],
+    evaluate: (subject, _params, now) => {
+      if (!subject.target_close_date) return null;
+      const target = new Date(subject.target_close_date).getTime();
+      if (Number.isNaN(target) || target >= now.getTime()) return null;
+      const days = Math.max(1, Math.floor((now.getTime() - target) / dayMs));
+      return `Fecha objetivo vencida hace ${plural(days, "día")}`;
+    },
+  },
+  missing_next_step: {
+    rule: "missing_next_step",
+    label: "Sin próximo paso",
+    description: "El deal no tiene un próximo paso definido.",
+    severity: "warning",
+    recommendedAction: "Define un próximo paso concreto (llamada, demo o propuesta) y compártelo con el equipo.",
+    summary: "no tiene próximo paso definido",
+    params: [],
+    evaluate: (subject) => (subject.next_step?.trim() ? null : "Sin próximo paso definido"),
+  },
+  inactivity: {
+    rule: "inactivity",
+    label: "Inactividad por prioridad",
+    description: "Días sin actividad por encima del SLA de su prioridad (se configura en las políticas de SLA).",
+    severity: "warning",
+    recommendedAction: "Agenda un follow-up y documenta el próximo paso para reactivar la cuenta.",
+    summary: "lleva demasiado tiempo sin actividad",
+    params: [],
+    evaluate: (subject) => {
+      const threshold = subject.sla_days ?? DEFAULT_SLA_THRESHOLDS[subject.priority];
+      if (subject.inactivity <= threshold) return null;
+      return `Sin actividad ${plural(subject.inactivity, "día")} (SLA ${threshold})`;
+    },
+  },
+  close_date_slipped: {
+    rule: "close_date_slipped",
+    label: "Fecha objetivo aplazada",
+    description: "La fecha objetivo se ha retrasado varias veces.",
+    severity: "warning",
+    recommendedAction: "Revisa con el cliente qué bloquea la decisión y acuerda una fecha firme.",
+    summary: "ha aplazado varias veces la fecha objetivo",
+    params: [{ key: "times", label: "Aplazamientos", default: 2, min: 1, max: 20 }],
+    evaluate: (subject, params) => {
+      const slips = subject.close_date_slips ?? 0;
+      if (slips < params.times) return null;
+      return `Fecha objetivo aplazada ${slips === 1 ? "1 vez" : `${slips} veces`}`;
+    },
+  },
+  amount_drop: {
+    rule: "amount_drop",
+    label: "Bajada de importe",
+    description: "El último cambio de importe lo rebajó más del porcentaje indicado.",
+    severity: "warning",
+    recommendedAction: "Confirma el alcance con el cliente y revisa si hay que ajustar la propuesta.",
+    summary: "ha bajado de importe",
+    params: [{ key: "percent", label: "Bajada mínima (%)", default: 20, min: 1, max: 100 }],
+    evaluate: (subject, params) => {
+      const before = subject.previous_amount;
+      const after = subject.amount ?? 0;
+      if (!before || before <= 0 || after >= before) return null;
+      const drop = Math.round(((before - after) / before) * 100);
+      if (drop < params.percent) return null;
+      return `Importe rebajado un ${drop}% (de ${formatAmount(before)} a ${formatAmount(after)})`;
+    },
+  },
+  probability_below_stage: {
+    rule: "probability_below_stage",
+    label: "Probabilidad baja para su etapa",
+    description: "La probabilidad queda por debajo de la probabilidad por defecto de la etapa.",
+    severity: "warning",
+    recommendedAction: "Valida si el deal debe retroceder de etapa o qué falta para avanzar.",
+    summary: "tiene una probabilidad baja para su etapa",
+    params: [{ key: "margin", label: "Margen (puntos)", default: 0, min: 0, max: 100 }],
+    evaluate: (subject, params) => {
+      const expected = subject.stage_probability;
+      const probability = subject.probability;
+      if (expected == null || probability == null) return null;
+      if (probability >= expected - params.margin) return null;
+      return `Probabilidad ${probability}% por debajo del ${expected}% de ${subject.stage}`;
+    },
+  },
+  hot_without_contact: {
+    rule: "hot_without_contact",
+    label: "Hot sin contacto",
+    description: "Deal Hot sin contacto asociado.",
+    severity: "warning",
+    recommendedAction: "Asocia al decisor del deal para no depender de una sola persona del equipo.",
+    summary: "es Hot y no tiene contacto asociado",
+    params: [],
+    evaluate: (subject) =>
+      subject.priority === "Hot" && !subject.contact_id ? "Deal Hot sin contacto asociado" : null,
+  },
+};
+
+/* Configuración por instalación */
+
+/** Regla tal y como se evalúa: valores por defecto con los cambios guardados encima. */
+export interface DealAlertRuleConfig {
+  rule: DealAlertRule;
+  enabled: boolean;
+  severity: DealAlertSeverity;
+  params: DealAlertParams;
+  recommended_action: string;
+}
+
+/** Lo que se guarda de cada regla; lo que falta toma el valor por defecto. */
+export interface DealAlertRuleOverride {
+  rule: DealAlertRule;
+  enabled?: boolean | null;
+  severity?: DealAlertSeverity | null;
+  params?: DealAlertParams | null;
+  recommended_action?: string | null;
+}
+
+export const dealAlertRuleSchema = z.enum(DEAL_ALERT_RULES);
+
+export const updateDealAlertRuleSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(DEAL_ALERT_SEVERITIES).optional(),
+  params: z.record(z.coerce.number()).optional(),
+  // Vacío o null vuelve al texto por defecto
+  recommended_action: z.string().trim().max(MAX_ALERT_ACTION_LENGTH).nullable().optional(),
+});
+export type UpdateDealAlertRule = z.infer<typeof updateDealAlertRuleSchema>;
+
+export function defaultDealAlertParams(rule: DealAlertRule): DealAlertParams {
+  return Object.fromEntries(DEAL_ALERT_RULE_DEFINITIONS[rule].params.map((param) => [param.key, param.default]));
+}
+
+/** Errores de los parámetros de una regla: claves desconocidas o valores fuera de rango. */
+export function validateDealAlertParams(rule: DealAlertRule, params: DealAlertParams): string[] {
+  const definitions = DEAL_ALERT_RULE_DEFINITIONS[rule].params;
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    const param = definitions.find((candidate) => candidate.key === key);
+    if (!param) errors.push(`Parámetro desconocido: ${key}`);
+    else if (!Number.isInteger(value) || value < param.min || value > param.max) {
+      errors.push(`${param.label}: debe ser un entero entre ${param.min} y ${param.max}`);
+    }
+  }
+  return errors;
+}
+
+/** Todas las reglas del catálogo, en su orden, con los cambios guardados aplicados. */
+export function resolveDealAlertRules(overrides: readonly DealAlertRuleOverride[] = []): DealAlertRuleConfig[] {
+  const byRule = new Map(overrides.map((override) => [override.rule, override]));
+  return DEAL_ALERT_RULES.map((rule) => {
+    const definition = DEAL_ALERT_RULE_DEFINITIONS[rule];
+    const override = byRule.get(rule);
+    return {
+      rule,
+      enabled: override?.enabled ?? true,
+      severity: override?.severity ?? definition.severity,
+      params: { ...defaultDealAlertParams(rule), ...(override?.params ?? {}) },
+      recommended_action: override?.recommended_action?.trim() || definition.recommendedAction,
+    };
+  });
+}
+
+/* Evaluación */
+
+export interface DealAlertHit {
+  rule: DealAlertRule;
+  severity: DealAlertSeverity;
+  reason: string;
+  /** "<título> <resumen de la regla>". */
+  message: string;
+  recommendedAction: string;
+}
+
+const SEVERITY_RANK: Record<DealAlertSeverity, number> = { critical: 0, warning: 1 };
+
+export function compareDealAlertSeverity(a: DealAlertSeverity, b: DealAlertSeverity): number {
+  return SEVERITY_RANK[a] - SEVERITY_RANK[b];
+}
+
+/**
+ * Reglas activas que saltan para el deal, las críticas primero y, a igual
+ * severidad, en el orden del catálogo.
+ */
+export function evaluateDealAlertRules(
+  subject: DealAlertSubject,
+  rules: readonly DealAlertRuleConfig[] = resolveDealAlertRules(),
+  now = new Date(),
+): DealAlertHit[] {
+  const hits: DealAlertHit[] = [];
+  for (const config of rules) {
+    if (!config.enabled) continue;
+    const definition = DEAL_ALERT_RULE_DEFINITIONS[config.rule];
+    const reason = definition.evaluate(subject, config.params, now);
+    if (!reason) continue;
+    hits.push({
+      rule: config.rule,
+      severity: config.severity,
+      reason,
+      message: `${subject.title} ${definition.summary}`,
+      recommendedAction: config.recommended_action,
+    });
+  }
+  // sort es estable: a igual severidad se mantiene el orden del catálogo
+  return hits.sort((a, b) => compareDealAlertSeverity(a.severity, b.severity));
+}
+
+/* Seguimiento: estado de cada alerta, motivos y sensibilidad */
+
+export const DEAL_ALERT_STATUSES = ["open", "snoozed", "resolved", "dismissed"] as const;
+export type DealAlertStatus = (typeof DEAL_ALERT_STATUSES)[number];
+
+export const DEAL_ALERT_STATUS_LABELS: Record<DealAlertStatus, string> = {
+  open: "Abierta",
+  snoozed: "Pospuesta",
+  resolved: "Resuelta",
+  dismissed: "Descartada",
+};
+
+export const DEAL_ALERT_REASONS = [
+  "contacted",
+  "next_step_planned",
+  "deal_updated",
+  "handled_elsewhere",
+  "false_positive",
+  "not_applicable",
+  "condition_cleared",
+] as const;
+export type DealAlertReason = (typeof DEAL_ALERT_REASONS)[number];
+
+export interface DealAlertReasonDefinition {
+  label: string;
+  /** Estado al que lleva; null: solo lo pone el servidor cuando la regla deja de saltar. */
+  status: "resolved" | "dismissed" | null;
+}
+
+export const DEAL_ALERT_REASON_DEFINITIONS: Record<DealAlertReason, DealAlertReasonDefinition> = {
+  contacted: { label: "Cliente contactado", status: "resolved" },
+  next_step_planned: { label: "Próximo paso agendado", status: "resolved" },
+  deal_updated: { label: "Deal actualizado", status: "resolved" },
+  handled_elsewhere: { label: "Gestionado por otra vía", status: "resolved" },
+  false_positive: { label: "Falsa alarma", status: "dismissed" },
+  not_applicable: { label: "No aplica a este deal", status: "dismissed" },
+  condition_cleared: { label: "La condición dejó de cumplirse", status: null },
+};
+
+/** Motivos que puede elegir un usuario al cerrar una alerta con ese estado. */
+export function dealAlertReasonsFor(status: "resolved" | "dismissed"): DealAlertReason[] {
+  return DEAL_ALERT_REASONS.filter((reason) => DEAL_ALERT_REASON_DEFINITIONS[reason].status === status);
+}
+
+export const MAX_ALERT_NOTE_LENGTH = 500;
+
+export const updateDealAlertStateSchema = z.object({
+  status: z.enum(DEAL_ALERT_STATUSES),
+  snoozed_until: z.coerce.date().nullish(),
+  reason: z.enum(DEAL_ALERT_REASONS).nullish(),
+  note: z.string().trim().max(MAX_ALERT_NOTE_LENGTH).nullish(),
+});
+export type UpdateDealAlertState = z.infer<typeof updateDealAlertStateSchema>;
+
+/** Qué alertas ve cada usuario en el dashboard. */
+export const DEAL_ALERT_SENSITIVITIES = ["all", "critical", "warning"] as const;
+export type DealAlertSensitivity = (typeof DEAL_ALERT_SENSITIVITIES)[number];
+
+export const DEAL_ALERT_SENSITIVITY_LABELS: Record<DealAlertSensitivity, string> = {
+  all: "Todas",
+  critical: "Solo críticas",
+  warning: "Solo avisos",
+};
+
+export function matchesDealAlertSensitivity(severity: DealAlertSeverity, sensitivity: DealAlertSensitivity): boolean {
+  return sensitivity === "all" || severity === sensitivity;
+}
+
+/* Historial */
+
+/** Lo que necesita el informe de cada alerta guardada. */
+export interface DealAlertHistoryEntry {
+  owner_id: string | null;
+  status: DealAlertStatus;
+  reason: DealAlertReason | null;
+  created_at: Date | string | null;
+  closed_at: Date | string | null;
+}
+
+export interface DealAlertOwnerSummary {
+  owner_id: string | null;
+  opened: number;
+  /** Abiertas o pospuestas. */
+  pending: number;
+  resolved: number;
+  /** Resueltas solas: la regla dejó de saltar sin que nadie la cerrase. */
+  auto_resolved: number;
+  dismissed: number;
+  /** Horas desde que saltó hasta que alguien la resolvió; null si nadie resolvió ninguna. */
+  avg_resolution_hours: number | null;
+  median_resolution_hours: number | null;
+}
+
+/** Informe del periodo: resumen por owner y alertas cerradas por cada motivo. */
+export interface DealAlertReport {
+  owners: Array<DealAlertOwnerSummary & { owner_name: string | null }>;
+  reasons: Array<{ reason: DealAlertReason; count: number }>;
+}
+
+const hourMs = 60 * 60 * 1000;
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function roundHours(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+/** Resumen por owner, de más a menos alertas. */
+export function summarizeDealAlertHistory(entries: readonly DealAlertHistoryEntry[]): DealAlertOwnerSummary[] {
+  const byOwner = new Map<string | null, DealAlertHistoryEntry[]>();
+  for (const entry of entries) {
+    byOwner.set(entry.owner_id, [...(byOwner.get(entry.owner_id) ?? []), entry]);
+  }
+  return Array.from(byOwner.entries())
+    .map(([ownerId, alerts]) => {
+      // Las que se resuelven solas no miden lo que tarda el owner
+      const hours = alerts
+        .filter((alert) => alert.status === "resolved" && alert.reason !== "condition_cleared")
+        .filter((alert) => alert.created_at && alert.closed_at)
+        .map((alert) => (new Date(alert.closed_at!).getTime() - new Date(alert.created_at!).getTime()) / hourMs);
+      const average = hours.length ? hours.reduce((sum, value) => sum + value, 0) / hours.length : null;
+      return {
+        owner_id: ownerId,
+        opened: alerts.length,
+        pending: alerts.filter((alert) => alert.status === "open" || alert.status === "snoozed").length,
+        resolved: alerts.filter((alert) => alert.status === "resolved").length,
+        auto_resolved: alerts.filter((alert) => alert.reason === "condition_cleared").length,
+        dismissed: alerts.filter((alert) => alert.status === "dismissed").length,
+        avg_resolution_hours: roundHours(average),
+        median_resolution_hours: roundHours(median(hours)),
+      };
+    })
+    .sort((a, b) => b.opened - a.opened);
+}
@@ -0,0 +1,201 @@
+// Reglas de negocio de deals compartidas entre el cliente (modo demo/Supabase)
+// y el servidor (API REST). Mantener libres de dependencias de runtime.
+
+import {
+  DEFAULT_PIPELINE_STAGES,
+  getClosingStage,
+  getInitialStage,
+  getStageProbability,
+  type StageDefinition,
+} from "./pipelineStages";
+
+export type DealPriority = "Cold" | "Warm" | "Hot";
+export type DealRiskLevel = "Bajo" | "Medio" | "Alto";
+export type DealStatusValue = "Open" | "Won" | "Lost";
+
+export const DEFAULT_STAGE = getInitialStage(DEFAULT_PIPELINE_STAGES);
+export const CLOSED_STAGE = getClosingStage(DEFAULT_PIPELINE_STAGES);
+
+const HOT_THRESHOLD = 70;
+const WARM_THRESHOLD = 40;
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+export interface DealInsightsInput {
+  stage?: string | null;
+  amount?: number | string | null;
+  next_step?: string | null;
+  target_close_date?: string | Date | null;
+  last_activity?: string | Date | null;
+  inactivity_days?: number | null;
+}
+
+export interface DealInsights {
+  probability: number;
+  priority: DealPriority;
+  risk_level: DealRiskLevel;
+}
+
+/**
+ * Probabilidad, prioridad y riesgo sugeridos. La probabilidad parte de la
+ * `default_probability` de la etapa en `stages` (la configuración del pipeline).
+ */
+export function inferDealInsights(
+  partial: DealInsightsInput,
+  stages: readonly StageDefinition[] = DEFAULT_PIPELINE_STAGES,
+): DealInsights {
+  const stage = partial.stage ?? getInitialStage(stages);
+  const base = getStageProbability(stages, stage);
+
+  let probability = base;
+
+  const amount = typeof partial.amount === "string" ? Number(partial.amount) : partial.amount ?? 0;
+  if (amount >= 50000) probability += 5;
+  else if (amount >= 15000) probability += 3;
+
+  if (partial.next_step && partial.next_step.trim().length > 0) probability += 5;
+
+  if (partial.target_close_date) {
+    const target = new Date(partial.target_close_date);
+    if (!Number.isNaN(target.getTime())) {
+      const diffDays = Math.floor((target.getTime() - Date.now()) / dayMs);
+      if (diffDays <= 14) probability += 5;
+      else if (diffDays <= 30) probability += 3;
+      if (diffDays < 0) probability -= 10;
+    }
+  }
+
+  const lastActivity = partial.last_activity ? new Date(partial.last_activity) : null;
+  if (lastActivity && !Number.isNaN(lastActivity.getTime())) {
+    const diffDays = Math.floor((Date.now() - lastActivity.getTime()) / dayMs);
+    if (diffDays <= 3) probability += 5;
+    else if (diffDays >= 14) probability -= 10;
+    else if (diffDays >= 7) probability -= 5;
+  }
+
+  probability = clamp(Math.round(probability), 5, 95);
+
+  let priority: DealPriority;
+  if (probability >= HOT_THRESHOLD) priority = "Hot";
+  else if (probability >= WARM_THRESHOLD) priority = "Warm";
+  else priority = "Cold";
+
+  let risk: DealRiskLevel = "Bajo";
+  if (!partial.next_step || !partial.next_step.trim()) {
+    risk = probability >= WARM_THRESHOLD ? "Medio" : "Alto";
+  }
+
+  if (partial.target_close_date) {
+    const target = new Date(partial.target_close_date);
+    if (!Number.isNaN(target.getTime()) && target.getTime() < Date.now()) {
+      risk = "Alto";
+    }
+  }
+
+  const inactivity = partial.inactivity_days ?? (() => {
+    if (!lastActivity) return 0;
+    return Math.max(0, Math.floor((Date.now() - lastActivity.getTime()) / dayMs));
+  })();
+
+  if (inactivity >= 14) risk = "Alto";
+  else if (inactivity >= 7 && risk !== "Alto") risk = "Medio";
+
+  return {
+    probability,
+    priority,
+    risk_level: risk,
+  };
+}
+
+export type DealRuleError = "NEXT_STEP_REQUIRED" | "TARGET_CLOSE_REQUIRED" | "CLOSE_REASON_REQUIRED";
+
+export interface DealCoreFields {
+  next_step?: string | null;
+  target_close_date?: string | Date | null;
+  status?: DealStatusValue | string | null;
+  close_reason?: string | null;
+  stage?: string | null;
+}
+
+/**
+ * Valida los campos obligatorios de un deal y normaliza estado/etapa.
+ * Lanza `Error` con el código de la regla incumplida (p.ej. `NEXT_STEP_REQUIRED`).
+ * Los deals ganados o perdidos pasan a `closingStage` (la última etapa activa).
+ */
+export function enforceCoreFields<T extends DealCoreFields>(draft: T, closingStage: string = CLOSED_STAGE): T {
+  const nextStepCandidate = (draft.next_step ?? "").toString().trim();
+  if (!nextStepCandidate) {
+    throw new Error("NEXT_STEP_REQUIRED" satisfies DealRuleError);
+  }
+  draft.next_step = nextStepCandidate;
+
+  if (!draft.target_close_date) {
+    throw new Error("TARGET_CLOSE_REQUIRED" satisfies DealRuleError);
+  }
+
+  const statusCandidate = (draft.status ?? "Open") as DealStatusValue;
+  if (statusCandidate === "Won" || statusCandidate === "Lost") {
+    const reason = (draft.close_reason ?? "").toString().trim();
+    if (!reason) {
+      throw new Error("CLOSE_REASON_REQUIRED" satisfies DealRuleError);
+    }
+    draft.close_reason = reason;
+    draft.status = statusCandidate;
+    draft.stage = closingStage;
+  } else {
+    draft.status = "Open";
+    draft.close_reason = null;
+  }
+
+  return draft;
+}
+
+/**
+ * Describe los cambios relevantes de un deal para el timeline (`deal_updated`).
+ */
+export function describeDealChanges(
+  previous: { stage?: string | null; probability?: number | null; status?: string | null },
+  next: { stage?: string | null; probability?: number | null; status?: string | null },
+): string[] {
+  const changes: string[] = [];
+  if (previous.stage !== next.stage) {
+    changes.push(`Etapa: ${previous.stage ?? ""} → ${next.stage ?? ""}`);
+  }
+  if (previous.probability !== next.probability) {
+    changes.push(`Probabilidad: ${previous.probability ?? 0}% → ${next.probability ?? 0}%`);
+  }
+  if (previous.status !== next.status) {
+    changes.push(`Estado: ${previous.status ?? ""} → ${next.status ?? ""}`);
+  }
+  return changes;
+}
+
+export interface DealAlertSignals {
+  previous_amount?: number | null;
+  close_date_slips?: number | null;
+}
+
+/**
+ * Señales que usan las reglas de alerta y que solo se ven al editar: el importe
+ * anterior al cambiar el importe y cuántas veces se ha retrasado la fecha objetivo.
+ * Devuelve solo lo que cambia.
+ */
+export function trackDealAlertSignals(
+  previous: DealAlertSignals & { amount?: number | null; target_close_date?: string | Date | null },
+  next: { amount?: number | null; target_close_date?: string | Date | null },
+): DealAlertSignals {
+  const signals: DealAlertSignals = {};
+  if (next.amount !== undefined && (next.amount ?? null) !== (previous.amount ?? null)) {
+    signals.previous_amount = previous.amount ?? null;
+  }
+  const before = previous.target_close_date ? new Date(previous.target_close_date).getTime() : NaN;
+  const after = next.target_close_date ? new Date(next.target_close_date).getTime() : NaN;
+  if (after > before) {
+    signals.close_date_slips = (previous.close_date_slips ?? 0) + 1;
+  }
+  return signals;
+}
@@ -0,0 +1,66 @@
+// Agrupación de posibles duplicados, común a contactos y empresas: cada módulo
+// decide qué pares están enlazados y aquí se unen de forma transitiva.
+
+export interface LinkedGroup<T, R extends string> {
+  members: T[];
+  reasons: R[];
+}
+
+export type LinkRecords<R extends string> = (a: number, b: number, reason: R) => void;
+
+/** Índices de los registros por clave; los registros sin clave no se agrupan. */
+export function bucketByKey<T>(records: readonly T[], key: (record: T) => string): Map<string, number[]> {
+  const buckets = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    const value = key(record);
+    if (!value) return;
+    const bucket = buckets.get(value) ?? [];
+    bucket.push(index);
+    buckets.set(value, bucket);
+  });
+  return buckets;
+}
+
+/** Enlaza todos los registros de cada cubo con el primero. */
+export function linkBuckets<R extends string>(buckets: Map<string, number[]>, link: LinkRecords<R>, reason: R) {
+  buckets.forEach((indexes) => indexes.slice(1).forEach((index) => link(indexes[0], index, reason)));
+}
+
+/**
+ * Grupos de dos o más registros enlazados (directa o indirectamente) por
+ * `linkAll`, los más grandes primero y con los registros en su orden original.
+ */
+export function groupLinkedRecords<T, R extends string>(
+  records: readonly T[],
+  linkAll: (link: LinkRecords<R>) => void,
+): LinkedGroup<T, R>[] {
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const reasonsByRoot = new Map<number, Set<R>>();
+  linkAll((a, b, reason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const reasons = new Set<R>([reason]);
+    reasonsByRoot.get(rootA)?.forEach((value) => reasons.add(value));
+    reasonsByRoot.get(rootB)?.forEach((value) => reasons.add(value));
+    parent[rootB] = rootA;
+    reasonsByRoot.delete(rootB);
+    reasonsByRoot.set(rootA, reasons);
+  });
+
+  const groups = new Map<number, T[]>();
+  records.forEach((record, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), record]);
+  });
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ members, reasons: Array.from(reasonsByRoot.get(root) ?? []) }))
+    .sort((a, b) => b.members.length - a.members.length);
+}
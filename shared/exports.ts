@@ -0,0 +1,659 @@
+// Exportación de listados a CSV/XLSX. Columnas, filtros de los listados y
+// formato de celdas compartidos por el cliente (exportación local y filtros
+// de las vistas) y el servidor (`GET /api/exports/:entity`).
+
+import {
+  customFieldColumnKey,
+  formatCustomFieldValue,
+  isCustomFieldEntity,
+  matchesCustomFieldFilter,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from "./customFields";
+import { matchesTagFilter } from "./tags";
+
+export const EXPORT_ENTITIES = ["deals", "contacts", "companies", "tasks"] as const;
+export type ExportEntity = (typeof EXPORT_ENTITIES)[number];
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_LANGUAGES = ["es", "en"] as const;
+export type ExportLanguage = (typeof EXPORT_LANGUAGES)[number];
+
+type DateLike = Date | string | null | undefined;
+
+// Formas mínimas: valen tanto los registros del servidor (Date) como los del cliente (ISO)
+export interface ExportDealRecord {
+  title: string;
+  company?: string | null;
+  amount?: number | null;
+  stage: string;
+  probability?: number | null;
+  status?: string | null;
+  score?: number | null;
+  priority?: string | null;
+  risk_level?: string | null;
+  next_step?: string | null;
+  target_close_date?: DateLike;
+  last_activity?: DateLike;
+  stage_entered_at?: DateLike;
+  owner_id?: string | null;
+  contact_id?: string | null;
+  close_reason?: string | null;
+  created_at?: DateLike;
+  custom_fields?: CustomFieldValues | null;
+  tag_ids?: readonly string[] | null;
+}
+
+export interface ExportContactRecord {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  position?: string | null;
+  source?: string | null;
+  score?: number | null;
+  priority?: string | null;
+  last_activity?: DateLike;
+  owner_id?: string | null;
+  created_at?: DateLike;
+  custom_fields?: CustomFieldValues | null;
+  tag_ids?: readonly string[] | null;
+}
+
+export interface ExportCompanyRecord {
+  name: string;
+  industry?: string | null;
+  size?: string | null;
+  revenue_estimate?: number | null;
+  location?: string | null;
+  website?: string | null;
+  score?: number | null;
+  priority?: string | null;
+  created_at?: DateLike;
+  custom_fields?: CustomFieldValues | null;
+  tag_ids?: readonly string[] | null;
+}
+
+export interface ExportTaskRecord {
+  title: string;
+  state?: string | null;
+  priority?: string | null;
+  due_at?: DateLike;
+  completed_at?: DateLike;
+  assigned_to?: string | null;
+  deal_id?: string | null;
+  contact_id?: string | null;
+  notes?: string | null;
+  created_at?: DateLike;
+  tag_ids?: readonly string[] | null;
+}
+
+export interface ExportRecords {
+  deals: ExportDealRecord;
+  contacts: ExportContactRecord;
+  companies: ExportCompanyRecord;
+  tasks: ExportTaskRecord;
+}
+
+/** Nombres para resolver ids (owners, contactos, deals, etiquetas) y fecha de referencia. */
+export interface ExportContext {
+  now: Date;
+  language: ExportLanguage;
+  users?: ReadonlyMap<string, string>;
+  contacts?: ReadonlyMap<string, string>;
+  deals?: ReadonlyMap<string, string>;
+  tags?: ReadonlyMap<string, string>;
+}
+
+export type ExportCell = string | number | boolean | Date | null;
+export type ExportColumnType = "text" | "number" | "date" | "datetime";
+
+export interface ExportColumn<T> {
+  key: string;
+  label: Record<ExportLanguage, string>;
+  type?: ExportColumnType;
+  /** Se incluye cuando no se eligen columnas. */
+  default?: boolean;
+  value: (record: T, context: ExportContext) => ExportCell;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: DateLike): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Días completos desde `value` (o desde `fallback`) hasta `now`. */
+function daysSince(value: DateLike, fallback: DateLike, now: Date): number | null {
+  const date = toDate(value) ?? toDate(fallback);
+  return date ? Math.max(0, Math.floor((now.getTime() - date.getTime()) / DAY_MS)) : null;
+}
+
+function lookup(map: ReadonlyMap<string, string> | undefined, id: string | null | undefined): string | null {
+  return id ? map?.get(id) ?? null : null;
+}
+
+/** Nombres de las etiquetas separados por comas; las borradas no salen. */
+function tagsColumn<T extends { tag_ids?: readonly string[] | null }>(): ExportColumn<T> {
+  return {
+    key: "tags",
+    label: { es: "Etiquetas", en: "Tags" },
+    value: (record, { tags }) =>
+      (record.tag_ids ?? []).flatMap((id) => lookup(tags, id) ?? []).join(", ") || null,
+  };
+}
+
+export const EXPORT_COLUMNS: { [K in ExportEntity]: ExportColumn<ExportRecords[K]>[] } = {
+  deals: [
+    { key: "title", label: { es: "Título", en: "Title" }, default: true, value: (deal) => deal.title },
+    { key: "company", label: { es: "Empresa", en: "Company" }, default: true, value: (deal) => deal.company ?? null },
+    {
+      key: "amount",
+      label: { es: "Importe", en: "Amount" },
+      type: "number",
+      default: true,
+      value: (deal) => deal.amount ?? null,
+    },
+    { key: "stage", label: { es: "Etapa", en: "Stage" }, default: true, value: (deal) => deal.stage },
+    { key: "status", label: { es: "Estado", en: "Status" }, default: true, value: (deal) => deal.status ?? null },
+    {
+      key: "probability",
+      label: { es: "Probabilidad", en: "Probability" },
+      type: "number",
+      value: (deal) => deal.probability ?? null,
+    },
+    {
+      key: "score",
+      label: { es: "Score", en: "Score" },
+      type: "number",
+      default: true,
+      value: (deal) => deal.score ?? null,
+    },
+    {
+      key: "priority",
+      label: { es: "Prioridad", en: "Priority" },
+      default: true,
+      value: (deal) => deal.priority ?? null,
+    },
+    {
+      key: "risk_level",
+      label: { es: "Riesgo", en: "Risk" },
+      default: true,
+      value: (deal) => deal.risk_level ?? null,
+    },
+    {
+      key: "next_step",
+      label: { es: "Próximo paso", en: "Next step" },
+      default: true,
+      value: (deal) => deal.next_step ?? null,
+    },
+    {
+      key: "target_close_date",
+      label: { es: "Fecha objetivo", en: "Target close date" },
+      type: "date",
+      default: true,
+      value: (deal) => toDate(deal.target_close_date),
+    },
+    {
+      key: "inactivity_days",
+      label: { es: "Días sin actividad", en: "Days inactive" },
+      type: "number",
+      default: true,
+      value: (deal, { now }) => daysSince(deal.last_activity, deal.created_at, now),
+    },
+    {
+      key: "days_in_stage",
+      label: { es: "Días en la etapa", en: "Days in stage" },
+      type: "number",
+      value: (deal, { now }) => daysSince(deal.stage_entered_at, deal.created_at, now),
+    },
+    {
+      key: "owner",
+      label: { es: "Owner", en: "Owner" },
+      default: true,
+      value: (deal, { users }) => lookup(users, deal.owner_id),
+    },
+    {
+      key: "contact",
+      label: { es: "Contacto", en: "Contact" },
+      value: (deal, { contacts }) => lookup(contacts, deal.contact_id),
+    },
+    {
+      key: "close_reason",
+      label: { es: "Motivo de cierre", en: "Close reason" },
+      value: (deal) => deal.close_reason ?? null,
+    },
+    tagsColumn(),
+    {
+      key: "last_activity",
+      label: { es: "Última actividad", en: "Last activity" },
+      type: "datetime",
+      value: (deal) => toDate(deal.last_activity),
+    },
+    {
+      key: "created_at",
+      label: { es: "Creado", en: "Created" },
+      type: "datetime",
+      value: (deal) => toDate(deal.created_at),
+    },
+  ],
+  contacts: [
+    { key: "name", label: { es: "Nombre", en: "Name" }, default: true, value: (contact) => contact.name },
+    { key: "email", label: { es: "Email", en: "Email" }, default: true, value: (contact) => contact.email ?? null },
+    {
+      key: "phone",
+      label: { es: "Teléfono", en: "Phone" },
+      default: true,
+      value: (contact) => contact.phone ?? null,
+    },
+    {
+      key: "company",
+      label: { es: "Empresa", en: "Company" },
+      default: true,
+      value: (contact) => contact.company ?? null,
+    },
+    {
+      key: "position",
+      label: { es: "Cargo", en: "Position" },
+      default: true,
+      value: (contact) => contact.position ?? null,
+    },
+    { key: "source", label: { es: "Origen", en: "Source" }, value: (contact) => contact.source ?? null },
+    {
+      key: "score",
+      label: { es: "Score", en: "Score" },
+      type: "number",
+      default: true,
+      value: (contact) => contact.score ?? null,
+    },
+    {
+      key: "priority",
+      label: { es: "Prioridad", en: "Priority" },
+      default: true,
+      value: (contact) => contact.priority ?? null,
+    },
+    {
+      key: "inactivity_days",
+      label: { es: "Días sin actividad", en: "Days inactive" },
+      type: "number",
+      default: true,
+      value: (contact, { now }) => daysSince(contact.last_activity, contact.created_at, now),
+    },
+    {
+      key: "owner",
+      label: { es: "Owner", en: "Owner" },
+      value: (contact, { users }) => lookup(users, contact.owner_id),
+    },
+    tagsColumn(),
+    {
+      key: "last_activity",
+      label: { es: "Última actividad", en: "Last activity" },
+      type: "datetime",
+      value: (contact) => toDate(contact.last_activity),
+    },
+    {
+      key: "created_at",
+      label: { es: "Creado", en: "Created" },
+      type: "datetime",
+      value: (contact) => toDate(contact.created_at),
+    },
+  ],
+  companies: [
+    { key: "name", label: { es: "Nombre", en: "Name" }, default: true, value: (company) => company.name },
+    {
+      key: "industry",
+      label: { es: "Sector", en: "Industry" },
+      default: true,
+      value: (company) => company.industry ?? null,
+    },
+    { key: "size", label: { es: "Tamaño", en: "Size" }, default: true, value: (company) => company.size ?? null },
+    {
+      key: "revenue_estimate",
+      label: { es: "Facturación estimada", en: "Estimated revenue" },
+      type: "number",
+      value: (company) => company.revenue_estimate ?? null,
+    },
+    {
+      key: "location",
+      label: { es: "Ubicación", en: "Location" },
+      default: true,
+      value: (company) => company.location ?? null,
+    },
+    { key: "website", label: { es: "Web", en: "Website" }, value: (company) => company.website ?? null },
+    tagsColumn(),
+    {
+      key: "score",
+      label: { es: "Score", en: "Score" },
+      type: "number",
+      default: true,
+      value: (company) => company.score ?? null,
+    },
+    {
+      key: "priority",
+      label: { es: "Prioridad", en: "Priority" },
+      default: true,
+      value: (company) => company.priority ?? null,
+    },
+    {
+      key: "created_at",
+      label: { es: "Creada", en: "Created" },
+      type: "datetime",
+      value: (company) => toDate(company.created_at),
+    },
+  ],
+  tasks: [
+    { key: "title", label: { es: "Título", en: "Title" }, default: true, value: (task) => task.title },
+    { key: "state", label: { es: "Estado", en: "State" }, default: true, value: (task) => task.state ?? null },
+    {
+      key: "priority",
+      label: { es: "Prioridad", en: "Priority" },
+      default: true,
+      value: (task) => task.priority ?? null,
+    },
+    {
+      key: "due_at",
+      label: { es: "Vencimiento", en: "Due date" },
+      type: "date",
+      default: true,
+      value: (task) => toDate(task.due_at),
+    },
+    {
+      key: "overdue",
+      label: { es: "Vencida", en: "Overdue" },
+      default: true,
+      value: (task, { now }) => {
+        const due = toDate(task.due_at);
+        return !!due && task.state !== "Done" && due.getTime() < now.getTime();
+      },
+    },
+    {
+      key: "assigned_to",
+      label: { es: "Asignada a", en: "Assigned to" },
+      default: true,
+      value: (task, { users }) => lookup(users, task.assigned_to),
+    },
+    { key: "deal", label: { es: "Deal", en: "Deal" }, value: (task, { deals }) => lookup(deals, task.deal_id) },
+    {
+      key: "contact",
+      label: { es: "Contacto", en: "Contact" },
+      value: (task, { contacts }) => lookup(contacts, task.contact_id),
+    },
+    {
+      key: "completed_at",
+      label: { es: "Completada", en: "Completed" },
+      type: "datetime",
+      value: (task) => toDate(task.completed_at),
+    },
+    { key: "notes", label: { es: "Notas", en: "Notes" }, value: (task) => task.notes ?? null },
+    tagsColumn(),
+    {
+      key: "created_at",
+      label: { es: "Creada", en: "Created" },
+      type: "datetime",
+      value: (task) => toDate(task.created_at),
+    },
+  ],
+};
+
+export const EXPORT_SHEET_NAMES: Record<ExportEntity, Record<ExportLanguage, string>> = {
+  deals: { es: "Deals", en: "Deals" },
+  contacts: { es: "Contactos", en: "Contacts" },
+  companies: { es: "Empresas", en: "Companies" },
+  tasks: { es: "Tareas", en: "Tasks" },
+};
+
+/** Columnas `cf.<clave>` de los campos personalizados, detrás de las fijas y en el orden de los formularios. */
+export function getCustomFieldExportColumns(
+  fields: readonly CustomFieldDefinition[],
+): ExportColumn<{ custom_fields?: CustomFieldValues | null }>[] {
+  return fields.map((field) => ({
+    key: customFieldColumnKey(field.key),
+    label: { es: field.label, en: field.label },
+    type: field.type === "number" || field.type === "currency" ? "number" : field.type === "date" ? "date" : "text",
+    default: true,
+    value: (record) => {
+      const value = record.custom_fields?.[field.key];
+      if (value === undefined) return null;
+      if (typeof value === "number" || typeof value === "boolean") return value;
+      return field.type === "date" ? toDate(value as string) : formatCustomFieldValue(field, value);
+    },
+  }));
+}
+
+/** Las entidades sin campos personalizados (tareas) ignoran `customFields`. */
+function getExportColumns<K extends ExportEntity>(
+  entity: K,
+  customFields: readonly CustomFieldDefinition[],
+): ExportColumn<ExportRecords[K]>[] {
+  const columns = EXPORT_COLUMNS[entity] as ExportColumn<ExportRecords[K]>[];
+  if (!isCustomFieldEntity(entity) || !customFields.length) return columns;
+  return [...columns, ...(getCustomFieldExportColumns(customFields) as ExportColumn<ExportRecords[K]>[])];
+}
+
+export function getDefaultExportColumns(
+  entity: ExportEntity,
+  customFields: readonly CustomFieldDefinition[] = [],
+): string[] {
+  return getExportColumns(entity, customFields)
+    .filter((column) => column.default)
+    .map((column) => column.key);
+}
+
+/** Columnas pedidas en el orden de la definición; sin `keys`, las de por defecto. */
+export function resolveExportColumns<K extends ExportEntity>(
+  entity: K,
+  keys?: readonly string[] | null,
+  customFields: readonly CustomFieldDefinition[] = [],
+): ExportColumn<ExportRecords[K]>[] {
+  const selected = new Set(keys?.length ? keys : getDefaultExportColumns(entity, customFields));
+  return getExportColumns(entity, customFields).filter((column) => selected.has(column.key));
+}
+
+/* Filtros de los listados: los mismos en pantalla y en la exportación */
+
+export const AMOUNT_RANGES = ["lt10", "bt10_50", "gt50"] as const;
+export type AmountRange = (typeof AMOUNT_RANGES)[number];
+
+export const TARGET_FILTERS = ["overdue", "thisMonth"] as const;
+export type TargetFilter = (typeof TARGET_FILTERS)[number];
+
+export interface DealListFilters {
+  search?: string;
+  /** Los deals sin pipeline cuentan en el pipeline por defecto. */
+  pipeline_id?: string;
+  stage?: string;
+  status?: string;
+  priority?: string;
+  risk_level?: string;
+  owner_id?: string;
+  amount_range?: AmountRange;
+  target?: TargetFilter;
+  needs_attention?: boolean;
+  /** Filtro sobre un campo personalizado, `clave:valor` (ver `matchesCustomFieldFilter`). */
+  custom_field?: string;
+  /** Id de la etiqueta que deben llevar. */
+  tag?: string;
+}
+
+export interface ContactListFilters {
+  search?: string;
+  priority?: string;
+  custom_field?: string;
+  tag?: string;
+}
+
+export interface CompanyListFilters {
+  search?: string;
+  priority?: string;
+  size?: string;
+  industry?: string;
+  custom_field?: string;
+  tag?: string;
+}
+
+export interface TaskListFilters {
+  search?: string;
+  state?: string;
+  tag?: string;
+}
+
+export interface ListFilters {
+  deals: DealListFilters;
+  contacts: ContactListFilters;
+  companies: CompanyListFilters;
+  tasks: TaskListFilters;
+}
+
+function includesTerm(term: string, ...values: (string | null | undefined)[]): boolean {
+  return !term || values.some((value) => !!value && value.toLowerCase().includes(term));
+}
+
+/** Deal que pide atención: sin próximo paso, con riesgo alto o con la fecha objetivo vencida. */
+export function dealNeedsAttention(deal: ExportDealRecord, now = new Date()): boolean {
+  const target = toDate(deal.target_close_date);
+  return !deal.next_step?.trim() || deal.risk_level === "Alto" || (!!target && target.getTime() < now.getTime());
+}
+
+/**
+ * No filtra por pipeline: eso depende de cuál es el pipeline por defecto.
+ * `customFields` son las definiciones de los deals, para el filtro `custom_field`.
+ */
+export function matchesDealFilters(
+  deal: ExportDealRecord,
+  filters: DealListFilters,
+  now = new Date(),
+  customFields: readonly CustomFieldDefinition[] = [],
+): boolean {
+  if (!includesTerm(filters.search?.trim().toLowerCase() ?? "", deal.title, deal.company)) return false;
+  if (filters.stage && deal.stage !== filters.stage) return false;
+  if (filters.status && (deal.status ?? "Open") !== filters.status) return false;
+  if (filters.priority && (deal.priority ?? "Cold") !== filters.priority) return false;
+  if (filters.risk_level && (deal.risk_level ?? "Bajo") !== filters.risk_level) return false;
+  if (filters.owner_id && deal.owner_id !== filters.owner_id) return false;
+  if (!matchesCustomFieldFilter(deal.custom_fields, customFields, filters.custom_field)) return false;
+  if (!matchesTagFilter(deal.tag_ids, filters.tag)) return false;
+
+  const amount = Number(deal.amount ?? 0);
+  if (filters.amount_range === "lt10" && !(amount < 10000)) return false;
+  if (filters.amount_range === "bt10_50" && !(amount >= 10000 && amount <= 50000)) return false;
+  if (filters.amount_range === "gt50" && !(amount > 50000)) return false;
+
+  if (filters.target) {
+    const target = toDate(deal.target_close_date);
+    if (!target) return false;
+    if (filters.target === "overdue" && target.getTime() >= now.getTime()) return false;
+    if (
+      filters.target === "thisMonth" &&
+      (target.getFullYear() !== now.getFullYear() || target.getMonth() !== now.getMonth())
+    ) {
+      return false;
+    }
+  }
+  return !filters.needs_attention || dealNeedsAttention(deal, now);
+}
+
+export function matchesContactFilters(
+  contact: ExportContactRecord,
+  filters: ContactListFilters,
+  customFields: readonly CustomFieldDefinition[] = [],
+): boolean {
+  const term = filters.search?.toLowerCase() ?? "";
+  if (!includesTerm(term, contact.name, contact.email, contact.company)) return false;
+  if (filters.priority && contact.priority !== filters.priority) return false;
+  if (!matchesTagFilter(contact.tag_ids, filters.tag)) return false;
+  return matchesCustomFieldFilter(contact.custom_fields, customFields, filters.custom_field);
+}
+
+export function matchesCompanyFilters(
+  company: ExportCompanyRecord,
+  filters: CompanyListFilters,
+  customFields: readonly CustomFieldDefinition[] = [],
+): boolean {
+  const term = filters.search?.toLowerCase() ?? "";
+  if (!includesTerm(term, company.name, company.industry, company.location)) return false;
+  if (filters.priority && company.priority !== filters.priority) return false;
+  if (filters.size && company.size !== filters.size) return false;
+  if (filters.industry && company.industry !== filters.industry) return false;
+  if (!matchesTagFilter(company.tag_ids, filters.tag)) return false;
+  return matchesCustomFieldFilter(company.custom_fields, customFields, filters.custom_field);
+}
+
+export function matchesTaskFilters(task: ExportTaskRecord, filters: TaskListFilters): boolean {
+  const term = filters.search?.toLowerCase() ?? "";
+  if (!includesTerm(term, task.title, task.notes)) return false;
+  if (!matchesTagFilter(task.tag_ids, filters.tag)) return false;
+  return !filters.state || task.state === filters.state;
+}
+
+/* Celdas */
+
+const BOOLEAN_LABELS: Record<ExportLanguage, [string, string]> = { es: ["Sí", "No"], en: ["Yes", "No"] };
+
+/** En español Excel espera `;` como separador y coma decimal. */
+export function getCsvDelimiter(language: ExportLanguage): string {
+  return language === "es" ? ";" : ",";
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** Texto de una celda en CSV: fechas ISO en UTC, decimales según el idioma. */
+export function formatExportCell(cell: ExportCell, type: ExportColumnType, language: ExportLanguage): string {
+  if (cell === null || cell === undefined) return "";
+  if (typeof cell === "boolean") return BOOLEAN_LABELS[language][cell ? 0 : 1];
+  if (cell instanceof Date) {
+    const day = `${cell.getUTCFullYear()}-${pad(cell.getUTCMonth() + 1)}-${pad(cell.getUTCDate())}`;
+    return type === "datetime" ? `${day} ${pad(cell.getUTCHours())}:${pad(cell.getUTCMinutes())}` : day;
+  }
+  if (typeof cell === "number") return language === "es" ? String(cell).replace(".", ",") : String(cell);
+  return escapeCsvFormula(cell);
+}
+
+/** Excel tomaría por fórmula un texto que empiece por `= + - @`, tabulador o retorno: se antepone `'`. */
+export function escapeCsvFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/** Une los valores en una línea CSV, entre comillas los que llevan separador, comillas o saltos de línea. */
+export function toCsvLine(values: readonly string[], delimiter: string): string {
+  return values
+    .map((value) =>
+      value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+    )
+    .join(delimiter);
+}
+
+export function getExportHeaders(columns: readonly ExportColumn<never>[], language: ExportLanguage): string[] {
+  return columns.map((column) => column.label[language]);
+}
+
+/** Cabecera CSV. Los nombres de campos personalizados los escribe un admin y también se neutralizan. */
+export function getCsvHeaderLine(columns: readonly ExportColumn<never>[], language: ExportLanguage): string {
+  return toCsvLine(getExportHeaders(columns, language).map(escapeCsvFormula), getCsvDelimiter(language));
+}
+
+/** Valores de una fila ya formateados para CSV. */
+export function formatExportRow<T>(columns: readonly ExportColumn<T>[], record: T, context: ExportContext): string[] {
+  return columns.map((column) =>
+    formatExportCell(column.value(record, context), column.type ?? "text", context.language),
+  );
+}
+
+/** CSV completo (con BOM para Excel). El servidor escribe las mismas líneas por partes. */
+export function buildCsv<K extends ExportEntity>(
+  columns: readonly ExportColumn<ExportRecords[K]>[],
+  records: readonly ExportRecords[K][],
+  context: ExportContext,
+): string {
+  const delimiter = getCsvDelimiter(context.language);
+  const lines = [getCsvHeaderLine(columns, context.language)];
+  for (const record of records) {
+    lines.push(toCsvLine(formatExportRow(columns, record, context), delimiter));
+  }
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
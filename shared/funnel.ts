@@ -0,0 +1,258 @@
+// Funnel histórico a partir de deal_stage_transitions. Compartido entre el
+// servidor (/api/metrics/funnel) y los modos sin API del cliente; sin
+// dependencias de runtime.
+
+import { findStage, getActiveStages, normalizeStageName, sortStages, type StageDefinition } from "./pipelineStages";
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+/** Motivo de pérdida para deals cerrados sin `close_reason`. */
+export const UNKNOWN_CLOSE_REASON = "Sin motivo";
+
+/** Ventana por defecto del informe, en días hasta hoy. */
+export const DEFAULT_FUNNEL_WINDOW_DAYS = 90;
+
+export interface FunnelTransition {
+  deal_id: string;
+  pipeline_id: string | null;
+  from_stage: string | null;
+  to_stage: string;
+  from_status?: string | null;
+  to_status: string;
+  changed_at: string | Date;
+}
+
+export interface FunnelDeal {
+  id: string;
+  close_reason?: string | null;
+}
+
+export interface FunnelDropOff {
+  reason: string;
+  count: number;
+}
+
+export interface FunnelStageRow {
+  stage: string;
+  /** Deals distintos que entraron en la etapa dentro de la ventana. */
+  entered: number;
+  /** Deals distintos que salieron (avanzaron, retrocedieron, se cerraron o cambiaron de pipeline). */
+  exited: number;
+  /** Deals que salieron avanzando a una etapa posterior o ganándose. */
+  converted: number;
+  lost: number;
+  /** `converted / exited`; null si nadie salió de la etapa en la ventana. */
+  conversion_rate: number | null;
+  /** Mediana de días en la etapa de las salidas de la ventana. */
+  median_days: number | null;
+  drop_off_reasons: FunnelDropOff[];
+}
+
+export interface FunnelReport {
+  pipeline_id: string;
+  from: string;
+  to: string;
+  /** Deals con algún movimiento en el pipeline dentro de la ventana. */
+  deals: number;
+  won: number;
+  lost: number;
+  stages: FunnelStageRow[];
+}
+
+export interface BuildFunnelInput {
+  pipelineId: string;
+  /** Las transiciones sin pipeline (deals previos a los pipelines) cuentan para el predeterminado. */
+  isDefaultPipeline?: boolean;
+  stages: readonly StageDefinition[];
+  /** Deals ya filtrados por cohorte, owner y alcance. */
+  deals: readonly FunnelDeal[];
+  /** Transiciones en orden cronológico. */
+  transitions: readonly FunnelTransition[];
+  from: Date;
+  to: Date;
+}
+
+interface StageAccumulator {
+  entered: Set<string>;
+  exited: Set<string>;
+  converted: Set<string>;
+  lost: Set<string>;
+  durations: number[];
+  reasons: Map<string, number>;
+}
+
+interface Visit {
+  stage: string;
+  pipelineId: string | null;
+  enteredAt: Date;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Recorre el historial de cada deal como una sucesión de estancias por etapa.
+ * Una estancia termina al avanzar (conversión), retroceder, cambiar de pipeline,
+ * ganarse (conversión) o perderse (drop-off con `close_reason`). Las etapas
+ * activas que un deal se salta al avanzar cuentan como atravesadas en 0 días,
+ * fuera de la mediana. Solo cuentan las entradas y salidas dentro de la ventana.
+ */
+export function buildFunnelReport(input: BuildFunnelInput): FunnelReport {
+  const { pipelineId, from, to } = input;
+  const active = getActiveStages(input.stages);
+  const ordered = sortStages(input.stages);
+  const rows = new Map<string, StageAccumulator>();
+  for (const stage of ordered) {
+    rows.set(stage.name, {
+      entered: new Set(),
+      exited: new Set(),
+      converted: new Set(),
+      lost: new Set(),
+      durations: [],
+      reasons: new Map(),
+    });
+  }
+
+  const inPipeline = (id: string | null) => id === pipelineId || (id === null && !!input.isDefaultPipeline);
+  const inWindow = (at: Date) => at >= from && at <= to;
+  const rankOf = (name: string) => {
+    const stage = findStage(active, name);
+    return stage ? active.indexOf(stage) : -1;
+  };
+  const rowOf = (name: string) => {
+    const stage = findStage(ordered, name);
+    return stage ? rows.get(stage.name) : undefined;
+  };
+
+  const touched = new Set<string>();
+  const won = new Set<string>();
+  const lost = new Set<string>();
+
+  const enter = (dealId: string, visit: Visit) => {
+    if (!inPipeline(visit.pipelineId) || !inWindow(visit.enteredAt)) return;
+    const row = rowOf(visit.stage);
+    if (!row) return;
+    row.entered.add(dealId);
+    touched.add(dealId);
+  };
+
+  const leave = (dealId: string, visit: Visit, at: Date, outcome: "converted" | "left" | "lost", reason?: string) => {
+    if (!inPipeline(visit.pipelineId) || !inWindow(at)) return;
+    const row = rowOf(visit.stage);
+    if (!row) return;
+    row.exited.add(dealId);
+    row.durations.push(Math.max(0, (at.getTime() - visit.enteredAt.getTime()) / dayMs));
+    touched.add(dealId);
+    if (outcome === "converted") row.converted.add(dealId);
+    if (outcome === "lost") {
+      row.lost.add(dealId);
+      const key = reason ?? UNKNOWN_CLOSE_REASON;
+      row.reasons.set(key, (row.reasons.get(key) ?? 0) + 1);
+    }
+  };
+
+  // Etapas activas que el deal se saltó al avanzar
+  const passThrough = (dealId: string, visit: Visit, toRank: number, at: Date) => {
+    const fromRank = rankOf(visit.stage);
+    if (fromRank < 0 || !inPipeline(visit.pipelineId) || !inWindow(at)) return;
+    for (let rank = fromRank + 1; rank < toRank; rank += 1) {
+      const row = rows.get(active[rank].name);
+      if (!row) continue;
+      row.entered.add(dealId);
+      row.exited.add(dealId);
+      row.converted.add(dealId);
+    }
+  };
+
+  const byDeal = new Map<string, FunnelTransition[]>();
+  for (const deal of input.deals) byDeal.set(deal.id, []);
+  for (const transition of input.transitions) byDeal.get(transition.deal_id)?.push(transition);
+
+  for (const deal of input.deals) {
+    const reason = deal.close_reason?.trim() || UNKNOWN_CLOSE_REASON;
+    let visit: Visit | null = null;
+
+    for (const transition of byDeal.get(deal.id) ?? []) {
+      const at = new Date(transition.changed_at);
+      const next: Visit = { stage: transition.to_stage, pipelineId: transition.pipeline_id, enteredAt: at };
+
+      if (transition.to_status !== "Open") {
+        // Cierre: al perder, enforceCoreFields mueve el deal a la última etapa, pero
+        // la caída se atribuye a la etapa en la que estaba
+        if (visit && transition.to_status === "Won") {
+          // Ganar desde una etapa anterior atraviesa las restantes, incluida la final
+          passThrough(deal.id, visit, active.length, at);
+          leave(deal.id, visit, at, "converted");
+          if (inPipeline(visit.pipelineId) && inWindow(at)) won.add(deal.id);
+        } else if (visit && transition.to_status === "Lost") {
+          leave(deal.id, visit, at, "lost", reason);
+          if (inPipeline(visit.pipelineId) && inWindow(at)) lost.add(deal.id);
+        }
+        visit = null;
+        continue;
+      }
+
+      if (!visit) {
+        // Alta del deal o reapertura tras un cierre
+        visit = next;
+        enter(deal.id, visit);
+        continue;
+      }
+
+      const sameStage = normalizeStageName(visit.stage) === normalizeStageName(transition.to_stage);
+      if (sameStage && visit.pipelineId === transition.pipeline_id) continue;
+
+      if (visit.pipelineId !== transition.pipeline_id) {
+        leave(deal.id, visit, at, "left");
+      } else if (rankOf(transition.to_stage) > rankOf(visit.stage)) {
+        passThrough(deal.id, visit, rankOf(transition.to_stage), at);
+        leave(deal.id, visit, at, "converted");
+      } else {
+        leave(deal.id, visit, at, "left");
+      }
+      visit = next;
+      enter(deal.id, visit);
+    }
+  }
+
+  const stages: FunnelStageRow[] = [];
+  for (const stage of ordered) {
+    const row = rows.get(stage.name)!;
+    if (stage.is_active === false && row.entered.size === 0 && row.exited.size === 0) continue;
+    stages.push({
+      stage: stage.name,
+      entered: row.entered.size,
+      exited: row.exited.size,
+      converted: row.converted.size,
+      lost: row.lost.size,
+      conversion_rate: row.exited.size ? row.converted.size / row.exited.size : null,
+      median_days: median(row.durations),
+      drop_off_reasons: Array.from(row.reasons, ([reason, count]) => ({ reason, count })).sort(
+        (a, b) => b.count - a.count || a.reason.localeCompare(b.reason),
+      ),
+    });
+  }
+
+  return {
+    pipeline_id: pipelineId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    deals: touched.size,
+    won: won.size,
+    lost: lost.size,
+    stages,
+  };
+}
+
+/** Mes de creación ("2024-03") con el que se filtran las cohortes. */
+export function getCohortMonth(createdAt: string | Date | null | undefined): string | null {
+  if (!createdAt) return null;
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) return null;
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
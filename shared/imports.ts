@@ -0,0 +1,419 @@
+// Importación CSV/TSV: lectura del fichero, campos importables por entidad y
+// validación de cada fila. El cliente lo usa para la vista previa y el
+// servidor para el job; sin dependencias de runtime.
+
+import {
+  customFieldColumnKey,
+  customFieldKeyFromColumn,
+  normalizeCustomFieldValue,
+  type CustomFieldDefinition,
+  type CustomFieldValues,
+} from "./customFields";
+import { normalizeStageName } from "./pipelineStages";
+
+export const IMPORT_ENTITIES = ["contacts", "companies", "deals"] as const;
+export type ImportEntity = (typeof IMPORT_ENTITIES)[number];
+
+/** Límite de filas por fichero; por encima conviene partirlo. */
+export const MAX_IMPORT_ROWS = 50_000;
+
+export type ImportFieldType = "text" | "email" | "number" | "date" | "status" | "custom";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  /** Cabeceras habituales que se asignan solas a este campo. */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  contacts: [
+    {
+      key: "name",
+      label: "Nombre",
+      type: "text",
+      required: true,
+      aliases: ["nombre", "name", "contacto", "nombre completo", "full name"],
+    },
+    {
+      key: "email",
+      label: "Email",
+      type: "email",
+      aliases: ["email", "correo", "e-mail", "mail", "correo electronico"],
+    },
+    { key: "phone", label: "Teléfono", type: "text", aliases: ["telefono", "phone", "movil", "tel"] },
+    {
+      key: "company",
+      label: "Empresa",
+      type: "text",
+      aliases: ["empresa", "company", "compania", "organizacion", "cuenta"],
+    },
+    { key: "position", label: "Cargo", type: "text", aliases: ["cargo", "puesto", "position", "job title"] },
+    { key: "source", label: "Origen", type: "text", aliases: ["origen", "fuente", "canal", "source"] },
+  ],
+  companies: [
+    {
+      key: "name",
+      label: "Nombre",
+      type: "text",
+      required: true,
+      aliases: ["nombre", "empresa", "name", "company", "razon social"],
+    },
+    { key: "industry", label: "Sector", type: "text", aliases: ["sector", "industria", "industry"] },
+    { key: "size", label: "Tamaño", type: "text", aliases: ["tamano", "size", "empleados"] },
+    {
+      key: "revenue_estimate",
+      label: "Facturación estimada",
+      type: "number",
+      aliases: ["facturacion", "ingresos", "revenue"],
+    },
+    { key: "location", label: "Ubicación", type: "text", aliases: ["ubicacion", "ciudad", "pais", "location"] },
+    { key: "website", label: "Web", type: "text", aliases: ["web", "website", "sitio web", "url"] },
+    { key: "description", label: "Descripción", type: "text", aliases: ["descripcion", "description", "notas"] },
+  ],
+  deals: [
+    {
+      key: "title",
+      label: "Título",
+      type: "text",
+      required: true,
+      aliases: ["titulo", "title", "deal", "oportunidad", "nombre"],
+    },
+    { key: "company", label: "Empresa", type: "text", aliases: ["empresa", "cliente", "company"] },
+    { key: "amount", label: "Importe", type: "number", aliases: ["importe", "valor", "monto", "amount"] },
+    { key: "stage", label: "Etapa", type: "text", aliases: ["etapa", "fase", "stage"] },
+    {
+      key: "next_step",
+      label: "Próximo paso",
+      type: "text",
+      required: true,
+      aliases: ["proximo paso", "siguiente paso", "next step"],
+    },
+    {
+      key: "target_close_date",
+      label: "Fecha de cierre",
+      type: "date",
+      required: true,
+      aliases: ["fecha de cierre", "cierre previsto", "fecha cierre", "close date"],
+    },
+    {
+      key: "contact_email",
+      label: "Email del contacto",
+      type: "email",
+      aliases: ["email del contacto", "email contacto", "contact email", "email", "correo"],
+    },
+    { key: "status", label: "Estado", type: "status", aliases: ["estado", "status"] },
+    {
+      key: "close_reason",
+      label: "Motivo de cierre",
+      type: "text",
+      aliases: ["motivo de cierre", "motivo", "close reason"],
+    },
+  ],
+};
+
+/** Campos fijos más los personalizados de la entidad (`cf.<clave>`), que nunca son obligatorios. */
+export function getImportFields(
+  entity: ImportEntity,
+  customFields: readonly CustomFieldDefinition[] = [],
+): ImportField[] {
+  return [
+    ...IMPORT_FIELDS[entity],
+    ...customFields.map((field) => ({
+      key: customFieldColumnKey(field.key),
+      label: field.label,
+      type: "custom" as const,
+      aliases: [normalizeHeader(field.key)],
+    })),
+  ];
+}
+
+export interface ParsedFile {
+  delimiter: string;
+  headers: string[];
+  /** Filas de datos con su número de línea en el fichero (la cabecera es la 1). */
+  rows: { line: number; cells: string[] }[];
+}
+
+const DELIMITERS = [",", ";", "\t"];
+
+/** Separador más frecuente en la primera línea, fuera de comillas. */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === "\n" || char === "\r")) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best));
+}
+
+/**
+ * Lee un CSV/TSV con comillas dobles (RFC 4180): campos entre comillas con
+ * separadores o saltos de línea y `""` como comilla escapada. Ignora las
+ * líneas vacías y el BOM inicial. `maxRows` corta la lectura (vista previa).
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text), maxRows = Infinity): ParsedFile {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim() !== "")) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < source.length && records.length <= maxRows; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (records.length <= maxRows && (cell !== "" || cells.length > 0)) endRecord();
+
+  const [header, ...rows] = records;
+  // La asignación va por nombre de columna: las repetidas se numeran
+  const seen = new Map<string, number>();
+  const headers = (header?.cells ?? []).map((value, index) => {
+    const name = value.trim() || `Columna ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+  return { delimiter, headers, rows: rows.slice(0, maxRows) };
+}
+
+function normalizeHeader(value: string) {
+  return normalizeStageName(value.replace(/[_\s]+/g, " "));
+}
+
+/** Asignación inicial columna → campo por nombre o alias; cada campo se usa una vez. */
+export function guessImportMapping(
+  entity: ImportEntity,
+  headers: readonly string[],
+  customFields: readonly CustomFieldDefinition[] = [],
+): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  const fields = getImportFields(entity, customFields);
+  for (const header of headers) {
+    const key = normalizeHeader(header);
+    const field = fields.find(
+      (candidate) =>
+        !used.has(candidate.key) &&
+        (normalizeHeader(candidate.key) === key ||
+          normalizeHeader(candidate.label) === key ||
+          candidate.aliases.includes(key)),
+    );
+    if (field) {
+      mapping[header] = field.key;
+      used.add(field.key);
+    }
+  }
+  return mapping;
+}
+
+/** Campos obligatorios que la asignación deja sin columna. */
+export function getMissingRequiredFields(entity: ImportEntity, mapping: Record<string, string>): ImportField[] {
+  const mapped = new Set(Object.values(mapping));
+  return IMPORT_FIELDS[entity].filter((field) => field.required && !mapped.has(field.key));
+}
+
+/** Valores de una fila por campo según la asignación (columnas sin campo se descartan). */
+export function applyImportMapping(
+  headers: readonly string[],
+  cells: readonly string[],
+  mapping: Record<string, string>,
+): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    if (field) record[field] = cells[index]?.trim() ?? "";
+  });
+  return record;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Acepta "1234.5", "1.234,50", "1,234.50" y símbolos de moneda. */
+export function parseImportNumber(raw: string): number | null {
+  let value = raw.replace(/[\s€$£]/g, "");
+  if (!/^-?[\d.,]+$/.test(value)) return null;
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+  if (lastComma > -1 && lastDot > -1) {
+    const decimal = lastComma > lastDot ? "," : ".";
+    value = value.split(decimal === "," ? "." : ",").join("").replace(decimal, ".");
+  } else if (lastComma > -1) {
+    value = /^-?\d{1,3}(,\d{3})+$/.test(value) ? value.replace(/,/g, "") : value.replace(",", ".");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(value)) {
+    // "1.234" es un millar en es-ES
+    value = value.replace(/\./g, "");
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/** Acepta AAAA-MM-DD (con hora opcional) y DD/MM/AAAA o DD-MM-AAAA. */
+export function parseImportDate(raw: string): Date | null {
+  const value = raw.trim();
+  const local = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(value);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  let date: Date | null = null;
+  if (local) date = new Date(Date.UTC(Number(local[3]), Number(local[2]) - 1, Number(local[1])));
+  else if (iso) date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  if (!date || Number.isNaN(date.getTime())) return null;
+  // Descarta fechas desbordadas como 31/02 (las que llevan hora las valida Date)
+  const day = local ? local[1] : value.length === 10 ? iso![3] : null;
+  if (day !== null && date.getUTCDate() !== Number(day)) return null;
+  return date;
+}
+
+const STATUS_ALIASES: Record<string, "Open" | "Won" | "Lost"> = {
+  open: "Open",
+  abierto: "Open",
+  abierta: "Open",
+  won: "Won",
+  ganado: "Won",
+  ganada: "Won",
+  lost: "Lost",
+  perdido: "Lost",
+  perdida: "Lost",
+};
+
+export type ImportValue = string | number | Date;
+
+export interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+export interface NormalizedImportRow {
+  values: Record<string, ImportValue>;
+  /** Valores de los campos personalizados por clave, ya validados. */
+  custom_fields: CustomFieldValues;
+  errors: ImportFieldError[];
+}
+
+const BOOLEAN_ALIASES: Record<string, boolean> = {
+  si: true,
+  yes: true,
+  true: true,
+  "1": true,
+  x: true,
+  no: false,
+  false: false,
+  "0": false,
+};
+
+// Lo que se escribe en una hoja de cálculo a lo que entiende normalizeCustomFieldValue
+function parseCustomFieldCell(field: CustomFieldDefinition, raw: string): unknown {
+  switch (field.type) {
+    case "number":
+    case "currency":
+      return parseImportNumber(raw) ?? raw;
+    case "date":
+      return parseImportDate(raw) ?? raw;
+    case "boolean":
+      return BOOLEAN_ALIASES[normalizeHeader(raw)] ?? raw;
+    case "multiselect":
+      return raw.split(/[,;|]/).map((item) => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Convierte y valida una fila ya asignada a campos. Las celdas vacías se
+ * omiten. Las columnas `cf.<clave>` se validan contra `customFields`.
+ */
+export function normalizeImportRow(
+  entity: ImportEntity,
+  record: Record<string, string>,
+  customFields: readonly CustomFieldDefinition[] = [],
+): NormalizedImportRow {
+  const values: Record<string, ImportValue> = {};
+  const custom: CustomFieldValues = {};
+  const errors: ImportFieldError[] = [];
+
+  for (const field of IMPORT_FIELDS[entity]) {
+    const raw = record[field.key]?.trim() ?? "";
+    if (!raw) {
+      if (field.required) errors.push({ field: field.key, message: `Falta ${field.label.toLowerCase()}` });
+      continue;
+    }
+    switch (field.type) {
+      case "email":
+        if (EMAIL_PATTERN.test(raw)) values[field.key] = raw.toLowerCase();
+        else errors.push({ field: field.key, message: `Email no válido: ${raw}` });
+        break;
+      case "number": {
+        const number = parseImportNumber(raw);
+        if (number !== null && number >= 0) values[field.key] = number;
+        else errors.push({ field: field.key, message: `${field.label} no válido: ${raw}` });
+        break;
+      }
+      case "date": {
+        const date = parseImportDate(raw);
+        if (date) values[field.key] = date;
+        else errors.push({ field: field.key, message: `${field.label} no válida: ${raw} (AAAA-MM-DD o DD/MM/AAAA)` });
+        break;
+      }
+      case "status": {
+        const status = STATUS_ALIASES[normalizeHeader(raw)];
+        if (status) values[field.key] = status;
+        else errors.push({ field: field.key, message: `Estado desconocido: ${raw} (Abierto, Ganado o Perdido)` });
+        break;
+      }
+      default:
+        values[field.key] = raw;
+    }
+  }
+
+  for (const column of Object.keys(record)) {
+    const key = customFieldKeyFromColumn(column);
+    const field = key ? customFields.find((candidate) => candidate.key === key) : undefined;
+    const raw = record[column]?.trim() ?? "";
+    if (!field || !raw) continue;
+    try {
+      const value = normalizeCustomFieldValue(field, parseCustomFieldCell(field, raw));
+      if (value !== null) custom[field.key] = value;
+    } catch (error) {
+      errors.push({ field: column, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (entity === "deals" && (values.status === "Won" || values.status === "Lost") && !values.close_reason) {
+    errors.push({ field: "close_reason", message: "Falta motivo de cierre para un deal cerrado" });
+  }
+  return { values, custom_fields: custom, errors };
+}
@@ -0,0 +1,88 @@
+// Matriz de permisos por rol, compartida por el servidor (403) y el cliente
+// (ocultar acciones). Los roles viven en `users.role`.
+
+export const ROLES = ["Admin", "Manager", "Usuario"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "Usuario";
+
+export type Permission =
+  | "deals:create"
+  | "deals:update"
+  | "deals:delete"
+  | "contacts:create"
+  | "contacts:update"
+  | "contacts:delete"
+  | "companies:create"
+  | "companies:update"
+  | "companies:delete"
+  | "metrics:team"
+  | "users:view"
+  | "users:manage"
+  | "pipeline:configure"
+  | "scoring:configure"
+  | "fields:configure"
+  | "tags:manage"
+  | "automations:manage"
+  | "alerts:configure"
+  | "sla:configure"
+  | "demo:seed";
+
+const USUARIO_PERMISSIONS: Permission[] = [
+  "deals:create",
+  "deals:update",
+  "contacts:create",
+  "contacts:update",
+  "companies:create",
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...USUARIO_PERMISSIONS,
+  "deals:delete",
+  "contacts:delete",
+  "companies:update",
+  "metrics:team",
+  "users:view",
+  "tags:manage",
+  "sla:configure",
+];
+
+const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  Usuario: new Set(USUARIO_PERMISSIONS),
+  Manager: new Set(MANAGER_PERMISSIONS),
+  Admin: new Set<Permission>([
+    ...MANAGER_PERMISSIONS,
+    "companies:delete",
+    "users:manage",
+    "pipeline:configure",
+    "scoring:configure",
+    "fields:configure",
+    "automations:manage",
+    "alerts:configure",
+    "demo:seed",
+  ]),
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+/** Rol efectivo: cualquier valor desconocido cuenta como `Usuario`. */
+export function normalizeRole(value: string | null | undefined): Role {
+  return isRole(value) ? value : DEFAULT_ROLE;
+}
+
+export function can(role: string | null | undefined, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[normalizeRole(role)].has(permission);
+}
+
+/**
+ * Alcance de registros con propietario (deals, contactos): Usuario solo los suyos,
+ * Manager los suyos y los de su equipo, Admin todos.
+ */
+export type OwnerScope = { kind: "all" } | { kind: "owners"; ownerIds: string[] };
+
+export function isOwnerInScope(scope: OwnerScope, ownerId: string | null | undefined): boolean {
+  if (scope.kind === "all") return true;
+  return Boolean(ownerId) && scope.ownerIds.includes(ownerId as string);
+}
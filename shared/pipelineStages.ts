@@ -0,0 +1,95 @@
+// Etapas del pipeline: definición por defecto y utilidades de consulta compartidas
+// por cliente y servidor. La fuente de verdad es la tabla `pipeline_stages`
+// (cada pipeline tiene las suyas); estas funciones solo leen la lista que se les pasa.
+
+/** Nombre del pipeline que se crea en una instalación nueva. */
+export const DEFAULT_PIPELINE_NAME = "Pipeline principal";
+
+export interface StageDefinition {
+  name: string;
+  order_index: number;
+  color?: string | null;
+  is_active?: boolean | null;
+  default_probability?: number | null;
+}
+
+/** Etapas con las que arranca una instalación nueva (y el modo demo). */
+export const DEFAULT_PIPELINE_STAGES = [
+  { name: "Prospección", order_index: 0, color: "#3B82F6", is_active: true, default_probability: 15 },
+  { name: "Calificación", order_index: 1, color: "#6366F1", is_active: true, default_probability: 30 },
+  { name: "Propuesta", order_index: 2, color: "#F59E0B", is_active: true, default_probability: 50 },
+  { name: "Negociación", order_index: 3, color: "#EC4899", is_active: true, default_probability: 65 },
+  { name: "Cierre", order_index: 4, color: "#10B981", is_active: true, default_probability: 85 },
+] satisfies StageDefinition[];
+
+/** Probabilidad base para etapas desconocidas. */
+export const FALLBACK_STAGE_PROBABILITY = 20;
+
+/** Clave de comparación: sin tildes, sin mayúsculas y sin espacios sobrantes. */
+export function normalizeStageName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+export function sortStages<T extends StageDefinition>(stages: readonly T[]): T[] {
+  return [...stages].sort((a, b) => a.order_index - b.order_index);
+}
+
+export function getActiveStages<T extends StageDefinition>(stages: readonly T[]): T[] {
+  return sortStages(stages).filter((stage) => stage.is_active !== false);
+}
+
+/** Busca la etapa por nombre ignorando tildes y mayúsculas ("Negociacion" = "Negociación"). */
+export function findStage<T extends StageDefinition>(stages: readonly T[], name: string | null | undefined): T | undefined {
+  if (!name) return undefined;
+  const key = normalizeStageName(name);
+  return stages.find((stage) => normalizeStageName(stage.name) === key);
+}
+
+/** Etapa de entrada para deals nuevos: la primera activa. */
+export function getInitialStage(stages: readonly StageDefinition[]): string {
+  return getActiveStages(stages)[0]?.name ?? DEFAULT_PIPELINE_STAGES[0].name;
+}
+
+/** Etapa en la que quedan los deals ganados o perdidos: la última activa. */
+export function getClosingStage(stages: readonly StageDefinition[]): string {
+  const active = getActiveStages(stages);
+  return active[active.length - 1]?.name ?? DEFAULT_PIPELINE_STAGES[DEFAULT_PIPELINE_STAGES.length - 1].name;
+}
+
+export function getStageProbability(stages: readonly StageDefinition[], name: string | null | undefined): number {
+  return findStage(stages, name)?.default_probability ?? FALLBACK_STAGE_PROBABILITY;
+}
+
+/**
+ * Posición 1..total de la etapa entre las activas. Las etapas desconocidas o
+ * desactivadas cuentan como la primera.
+ */
+export function getStageRank(stages: readonly StageDefinition[], name: string | null | undefined) {
+  const active = getActiveStages(stages);
+  const stage = findStage(active, name);
+  return { rank: stage ? active.indexOf(stage) + 1 : 1, total: Math.max(active.length, 1) };
+}
+
+/**
+ * Etapa de destino al mover un deal a otro pipeline: la del mismo nombre si
+ * existe y está activa; si no, la que ocupa la misma posición relativa
+ * (la primera sigue siendo la primera y la última, la última).
+ */
+export function mapStageToPipeline(
+  from: readonly StageDefinition[],
+  to: readonly StageDefinition[],
+  name: string | null | undefined,
+): string {
+  const target = getActiveStages(to);
+  const sameName = findStage(target, name);
+  if (sameName) return sameName.name;
+  if (target.length === 0) return getInitialStage(to);
+
+  const { rank, total } = getStageRank(from, name);
+  const position = total > 1 ? (rank - 1) / (total - 1) : 0;
+  return target[Math.round(position * (target.length - 1))].name;
+}
@@ -0,0 +1,256 @@
+// Vistas guardadas de los listados: filtros, orden, columnas visibles y
+// agrupación con nombre. Una vista es la parte de la query string que
+// pertenece al listado, así aplicarla es navegar y se puede enlazar igual.
+
+import { z } from "zod";
+
+export const SAVED_VIEW_LISTS = ["deals_board", "deals", "contacts", "companies"] as const;
+export type SavedViewList = (typeof SAVED_VIEW_LISTS)[number];
+
+export const SAVED_VIEW_LIST_LABELS: Record<SavedViewList, string> = {
+  deals_board: "Tablero de deals",
+  deals: "Listado de deals",
+  contacts: "Contactos",
+  companies: "Empresas",
+};
+
+export interface ViewOption {
+  key: string;
+  label: string;
+}
+
+export interface SavedViewListDefinition {
+  /** Prefijo de los parámetros: el listado de deals comparte página con el tablero. */
+  prefix: string;
+  /** Parámetros de la query string que son filtros del listado. */
+  filters: readonly string[];
+  sorts: ViewOption[];
+  /** Columnas que se pueden ocultar; null si dependen de los datos (etapas del tablero). */
+  columns: ViewOption[] | null;
+  groups: ViewOption[];
+}
+
+export const SAVED_VIEW_DEFINITIONS: Record<SavedViewList, SavedViewListDefinition> = {
+  // El tablero ya agrupa por etapa: sus "columnas" son las etapas que se muestran
+  deals_board: {
+    prefix: "",
+    filters: ["q", "priority", "risk", "owner", "amount", "target", "attention", "cf", "tag"],
+    sorts: [
+      { key: "updated", label: "Última actualización" },
+      { key: "amount", label: "Monto" },
+      { key: "target", label: "Fecha objetivo" },
+      { key: "probability", label: "Probabilidad" },
+      { key: "title", label: "Título" },
+    ],
+    columns: null,
+    groups: [],
+  },
+  deals: {
+    prefix: "list_",
+    filters: ["q", "stage", "status", "priority", "risk", "cf", "tag"],
+    sorts: [
+      { key: "title", label: "Título" },
+      { key: "amount", label: "Monto" },
+      { key: "target", label: "Fecha objetivo" },
+      { key: "probability", label: "Probabilidad" },
+      { key: "score", label: "Score" },
+      { key: "updated", label: "Última actualización" },
+    ],
+    columns: [
+      { key: "company", label: "Empresa" },
+      { key: "amount", label: "Monto" },
+      { key: "stage", label: "Etapa" },
+      { key: "score", label: "Score" },
+      { key: "priority", label: "Prioridad" },
+      { key: "risk", label: "Riesgo" },
+      { key: "probability", label: "Prob." },
+      { key: "next_step", label: "Próximo paso" },
+      { key: "target", label: "Fecha objetivo" },
+      { key: "status", label: "Estado" },
+      { key: "close_reason", label: "Motivo cierre" },
+    ],
+    groups: [
+      { key: "stage", label: "Etapa" },
+      { key: "status", label: "Estado" },
+      { key: "priority", label: "Prioridad" },
+      { key: "company", label: "Empresa" },
+    ],
+  },
+  contacts: {
+    prefix: "",
+    filters: ["q", "priority", "cf", "tag"],
+    sorts: [
+      { key: "name", label: "Nombre" },
+      { key: "company", label: "Empresa" },
+      { key: "score", label: "Score" },
+      { key: "activity", label: "Última actividad" },
+    ],
+    columns: [
+      { key: "email", label: "Email" },
+      { key: "company", label: "Empresa" },
+      { key: "score", label: "Score" },
+      { key: "priority", label: "Prioridad" },
+      { key: "activity", label: "Última actividad" },
+      { key: "ai", label: "IA" },
+    ],
+    groups: [
+      { key: "company", label: "Empresa" },
+      { key: "priority", label: "Prioridad" },
+    ],
+  },
+  companies: {
+    prefix: "",
+    filters: ["q", "priority", "size", "industry", "cf", "tag"],
+    sorts: [
+      { key: "name", label: "Nombre" },
+      { key: "revenue", label: "Facturación" },
+      { key: "open_amount", label: "Pipeline abierto" },
+      { key: "won_amount", label: "Ganado" },
+      { key: "score", label: "Score" },
+    ],
+    columns: [
+      { key: "industry", label: "Industria" },
+      { key: "size", label: "Tamaño" },
+      { key: "revenue", label: "Facturación" },
+      { key: "deals", label: "Deals" },
+      { key: "open_amount", label: "Pipeline abierto" },
+      { key: "won_amount", label: "Ganado" },
+      { key: "score", label: "Score" },
+      { key: "priority", label: "Prioridad" },
+      { key: "location", label: "Ubicación" },
+    ],
+    groups: [
+      { key: "industry", label: "Industria" },
+      { key: "size", label: "Tamaño" },
+      { key: "priority", label: "Prioridad" },
+    ],
+  },
+};
+
+/** Parámetros de orden, columnas y agrupación (sin el prefijo del listado). */
+export const VIEW_SORT_PARAM = "sort";
+export const VIEW_COLUMNS_PARAM = "cols";
+export const VIEW_GROUP_PARAM = "group";
+
+/** Parámetros de la query string que forman la vista del listado, ya con prefijo. */
+function viewParamKeys(list: SavedViewList): string[] {
+  const { prefix, filters } = SAVED_VIEW_DEFINITIONS[list];
+  return filters.concat([VIEW_SORT_PARAM, VIEW_COLUMNS_PARAM, VIEW_GROUP_PARAM]).map((key) => prefix + key);
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface ViewSort {
+  key: string;
+  direction: SortDirection;
+}
+
+export interface SavedViewConfig {
+  /** Parámetro del filtro (sin prefijo) -> valor, solo los filtros activos. */
+  filters: Record<string, string>;
+  sort: ViewSort | null;
+  /** Columnas visibles; null muestra todas. */
+  columns: string[] | null;
+  group_by: string | null;
+}
+
+export const EMPTY_VIEW_CONFIG: SavedViewConfig = { filters: {}, sort: null, columns: null, group_by: null };
+
+export const savedViewConfigSchema = z.object({
+  filters: z.record(z.string()).default({}),
+  sort: z.object({ key: z.string(), direction: z.enum(["asc", "desc"]) }).nullable().default(null),
+  columns: z.array(z.string()).nullable().default(null),
+  group_by: z.string().nullable().default(null),
+});
+
+/** Problemas de una configuración para el listado; vacío si es válida. */
+export function validateViewConfig(list: SavedViewList, config: SavedViewConfig): string[] {
+  const definition = SAVED_VIEW_DEFINITIONS[list];
+  const errors: string[] = [];
+  Object.keys(config.filters).forEach((key) => {
+    if (!definition.filters.includes(key)) errors.push(`Filtro desconocido: ${key}`);
+  });
+  if (config.sort && !definition.sorts.some((option) => option.key === config.sort!.key)) {
+    errors.push(`Orden desconocido: ${config.sort.key}`);
+  }
+  const columns = definition.columns;
+  if (config.columns && columns) {
+    config.columns
+      .filter((key) => !columns.some((option) => option.key === key))
+      .forEach((key) => errors.push(`Columna desconocida: ${key}`));
+  }
+  if (config.group_by && !definition.groups.some((option) => option.key === config.group_by)) {
+    errors.push(`Agrupación desconocida: ${config.group_by}`);
+  }
+  return errors;
+}
+
+/** Misma configuración, sin importar el orden de filtros y columnas. */
+export function sameViewConfig(a: SavedViewConfig, b: SavedViewConfig): boolean {
+  const canonical = (config: SavedViewConfig) =>
+    JSON.stringify([
+      Object.keys(config.filters)
+        .filter((key) => config.filters[key])
+        .sort()
+        .map((key) => [key, config.filters[key]]),
+      formatViewSort(config.sort),
+      config.columns ? config.columns.slice().sort() : null,
+      config.group_by,
+    ]);
+  return canonical(a) === canonical(b);
+}
+
+/** `-amount` ordena por monto de mayor a menor; `amount`, de menor a mayor. */
+export function parseViewSort(value: string | null | undefined): ViewSort | null {
+  if (!value) return null;
+  const descending = value.startsWith("-");
+  const key = descending ? value.slice(1) : value;
+  return key ? { key, direction: descending ? "desc" : "asc" } : null;
+}
+
+export function formatViewSort(sort: ViewSort | null): string | null {
+  if (!sort) return null;
+  return sort.direction === "desc" ? `-${sort.key}` : sort.key;
+}
+
+/** Configuración del listado leída de la query string actual. */
+export function viewConfigFromSearch(list: SavedViewList, search: string): SavedViewConfig {
+  const { prefix, filters } = SAVED_VIEW_DEFINITIONS[list];
+  const params = new URLSearchParams(search);
+  const config: SavedViewConfig = { filters: {}, sort: null, columns: null, group_by: null };
+  filters.forEach((key) => {
+    const value = params.get(prefix + key);
+    if (value) config.filters[key] = value;
+  });
+  config.sort = parseViewSort(params.get(prefix + VIEW_SORT_PARAM));
+  const columns = params.get(prefix + VIEW_COLUMNS_PARAM);
+  if (columns !== null) config.columns = columns ? columns.split(",") : [];
+  config.group_by = params.get(prefix + VIEW_GROUP_PARAM) || null;
+  return config;
+}
+
+/**
+ * Query string con la vista aplicada: se sustituyen los parámetros del
+ * listado y se conservan los demás (pipeline, filtros de otro listado...).
+ */
+export function applyViewConfigToSearch(list: SavedViewList, search: string, config: SavedViewConfig): string {
+  const { prefix, filters } = SAVED_VIEW_DEFINITIONS[list];
+  const params = new URLSearchParams(search);
+  viewParamKeys(list).forEach((key) => params.delete(key));
+  Object.keys(config.filters).forEach((key) => {
+    if (filters.includes(key) && config.filters[key]) params.set(prefix + key, config.filters[key]);
+  });
+  const sort = formatViewSort(config.sort);
+  if (sort) params.set(prefix + VIEW_SORT_PARAM, sort);
+  // Sin columnas el parámetro va vacío: no es lo mismo que mostrarlas todas
+  if (config.columns) params.set(prefix + VIEW_COLUMNS_PARAM, config.columns.join(","));
+  if (config.group_by) params.set(prefix + VIEW_GROUP_PARAM, config.group_by);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/** Si la query string no lleva nada del listado se puede aplicar la vista por defecto. */
+export function hasViewParams(list: SavedViewList, search: string): boolean {
+  const params = new URLSearchParams(search);
+  return viewParamKeys(list).some((key) => params.has(key));
+}
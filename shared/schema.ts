@@ -4,14 +4,91 @@ import {
   text, 
   varchar, 
   integer, 
-  decimal, 
   timestamp, 
   boolean,
   uuid,
-  pgEnum
+  pgEnum,
+  customType,
+  uniqueIndex,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_TYPES,
+  customFieldValuesInputSchema,
+  type CustomFieldValues,
+} from "./customFields";
+import { tagColorSchema, tagIdsInputSchema } from "./tags";
+import {
+  AUTOMATION_ENTITIES,
+  AUTOMATION_RUN_STATUSES,
+  AUTOMATION_TRIGGERS,
+  automationActionsSchema,
+  automationConditionsSchema,
+  type AutomationAction,
+  type AutomationActionResult,
+  type AutomationCondition,
+} from "./automations";
+import {
+  DEAL_ALERT_REASONS,
+  DEAL_ALERT_RULES,
+  DEAL_ALERT_SENSITIVITIES,
+  DEAL_ALERT_SEVERITIES,
+  DEAL_ALERT_STATUSES,
+  type DealAlertParams,
+  type DealAlertRule,
+} from "./dealAlerts";
+import { SLA_ESCALATION_STEPS } from "./slaPolicies";
+import {
+  ALERT_CHANNEL_FORMATS,
+  ALERT_DELIVERY_STATUSES,
+  ALERT_DELIVERY_TRIGGERS,
+  DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS,
+  MAX_ALERT_CHANNEL_INTERVAL_HOURS,
+} from "./alertChannels";
+import { webhookUrlSchema } from "./automations";
+
+// Importes monetarios: numeric en base de datos, number en la aplicación
+const money = customType<{ data: number; driverData: string | number }>({
+  dataType() {
+    return "numeric(15, 2)";
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+  toDriver(value) {
+    return value.toString();
+  },
+});
+
+// JSON en una columna de texto, ya leído en la aplicación
+function jsonText<T>(name: string) {
+  return customType<{ data: T; driverData: string }>({
+    dataType() {
+      return "text";
+    },
+    fromDriver(value) {
+      return JSON.parse(value) as T;
+    },
+    toDriver(value) {
+      return JSON.stringify(value);
+    },
+  })(name);
+}
+
+// Valores de los campos personalizados (shared/customFields.ts); los registros antiguos arrancan sin ninguno
+const customFieldValues = () =>
+  jsonText<CustomFieldValues>("custom_fields")
+    .notNull()
+    .default(sql`'{}'`);
+
+// Etiquetas del registro (ids de `tags`), en el orden en que se pusieron
+const tagIds = () =>
+  jsonText<string[]>("tag_ids")
+    .notNull()
+    .default(sql`'[]'`);
 
 // Enums
 export const taskStateEnum = pgEnum("task_state", ["To Do", "Doing", "Waiting", "Done"]);
@@ -19,6 +96,24 @@ export const taskPriorityEnum = pgEnum("task_priority", ["Baja", "Media", "Alta"
 export const dealStatusEnum = pgEnum("deal_status", ["Open", "Won", "Lost"]);
 export const priorityEnum = pgEnum("priority", ["Cold", "Warm", "Hot"]);
 export const riskLevelEnum = pgEnum("risk_level", ["Bajo", "Medio", "Alto"]);
+export const importEntityEnum = pgEnum("import_entity", ["contacts", "companies", "deals"]);
+export const importStatusEnum = pgEnum("import_status", ["pending", "running", "completed", "failed", "cancelled"]);
+export const importRowStatusEnum = pgEnum("import_row_status", ["pending", "imported", "failed"]);
+export const savedViewListEnum = pgEnum("saved_view_list", ["deals_board", "deals", "contacts", "companies"]);
+export const customFieldEntityEnum = pgEnum("custom_field_entity", CUSTOM_FIELD_ENTITIES);
+export const customFieldTypeEnum = pgEnum("custom_field_type", CUSTOM_FIELD_TYPES);
+export const automationTriggerEnum = pgEnum("automation_trigger", AUTOMATION_TRIGGERS);
+export const automationEntityEnum = pgEnum("automation_entity", AUTOMATION_ENTITIES);
+export const automationRunStatusEnum = pgEnum("automation_run_status", AUTOMATION_RUN_STATUSES);
+export const dealAlertRuleEnum = pgEnum("deal_alert_rule", DEAL_ALERT_RULES);
+export const dealAlertSeverityEnum = pgEnum("deal_alert_severity", DEAL_ALERT_SEVERITIES);
+export const slaEscalationStepEnum = pgEnum("sla_escalation_step", SLA_ESCALATION_STEPS);
+export const dealAlertStatusEnum = pgEnum("deal_alert_status", DEAL_ALERT_STATUSES);
+export const dealAlertReasonEnum = pgEnum("deal_alert_reason", DEAL_ALERT_REASONS);
+export const dealAlertSensitivityEnum = pgEnum("deal_alert_sensitivity", DEAL_ALERT_SENSITIVITIES);
+export const alertChannelFormatEnum = pgEnum("alert_channel_format", ALERT_CHANNEL_FORMATS);
+export const alertDeliveryStatusEnum = pgEnum("alert_delivery_status", ALERT_DELIVERY_STATUSES);
+export const alertDeliveryTriggerEnum = pgEnum("alert_delivery_trigger", ALERT_DELIVERY_TRIGGERS);
 
 // Users table
 export const users = pgTable("users", {
@@ -27,7 +122,9 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email"),
   full_name: text("full_name"),
-  role: text("role").default("Usuario"), // Admin, Manager, Usuario
+  role: text("role").default("Usuario"), // Admin, Manager, Usuario (ver shared/permissions.ts)
+  manager_id: uuid("manager_id").references((): AnyPgColumn => users.id), // Equipo del Manager
+  alert_sensitivity: dealAlertSensitivityEnum("alert_sensitivity").notNull().default("all"), // Alertas del dashboard
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -38,12 +135,14 @@ export const companies = pgTable("companies", {
   name: text("name").notNull(),
   industry: text("industry"),
   size: text("size"), // Small, Medium, Large, Enterprise
-  revenue_estimate: decimal("revenue_estimate", { precision: 15, scale: 2 }),
+  revenue_estimate: money("revenue_estimate"),
   location: text("location"),
   website: text("website"),
   description: text("description"),
   score: integer("score").default(0),
   priority: priorityEnum("priority").default("Cold"),
+  custom_fields: customFieldValues(),
+  tag_ids: tagIds(),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -61,6 +160,19 @@ export const contacts = pgTable("contacts", {
   priority: priorityEnum("priority").default("Cold"),
   last_activity: timestamp("last_activity"),
   owner_id: uuid("owner_id").references(() => users.id),
+  custom_fields: customFieldValues(),
+  tag_ids: tagIds(),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Pipelines: cada uno agrupa sus propias etapas (nuevo negocio, renovaciones...)
+export const pipelines = pgTable("pipelines", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Pipeline que reciben los deals creados sin `pipeline_id`
+  is_default: boolean("is_default").notNull().default(false),
+  order_index: integer("order_index").notNull().default(0),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -69,8 +181,10 @@ export const contacts = pgTable("contacts", {
 export const deals = pgTable("deals", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
+  // Nombre de la empresa desnormalizado; el vínculo es company_id
   company: text("company"),
-  amount: decimal("amount", { precision: 15, scale: 2 }),
+  company_id: uuid("company_id").references(() => companies.id),
+  amount: money("amount"),
   stage: text("stage").notNull().default("Prospección"),
   probability: integer("probability").default(0),
   target_close_date: timestamp("target_close_date"),
@@ -83,7 +197,15 @@ export const deals = pgTable("deals", {
   inactivity_days: integer("inactivity_days").default(0),
   contact_id: uuid("contact_id").references(() => contacts.id),
   owner_id: uuid("owner_id").references(() => users.id),
+  pipeline_id: uuid("pipeline_id").references(() => pipelines.id),
+  // Entrada en la etapa actual; el detalle vive en deal_stage_transitions
+  stage_entered_at: timestamp("stage_entered_at"),
   close_reason: text("close_reason"), // Motivo de cierre
+  // Señales para las reglas de alerta (shared/dealAlerts.ts): las mantiene el servidor al editar
+  previous_amount: money("previous_amount"), // Importe antes del último cambio de importe
+  close_date_slips: integer("close_date_slips").default(0), // Veces que se ha retrasado la fecha objetivo
+  custom_fields: customFieldValues(),
+  tag_ids: tagIds(),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -101,6 +223,7 @@ export const tasks = pgTable("tasks", {
   deal_id: uuid("deal_id").references(() => deals.id),
   contact_id: uuid("contact_id").references(() => contacts.id),
   notes: text("notes"),
+  tag_ids: tagIds(),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -120,14 +243,262 @@ export const timeline_entries = pgTable("timeline_entries", {
 // Pipeline stages configuration
 export const pipeline_stages = pgTable("pipeline_stages", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  pipeline_id: uuid("pipeline_id")
+    .notNull()
+    .references(() => pipelines.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   order_index: integer("order_index").notNull(),
   color: text("color").default("#3B82F6"),
   is_active: boolean("is_active").default(true),
+  // Probabilidad base con la que se infiere la de los deals en esta etapa
+  default_probability: integer("default_probability").notNull().default(20),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Historial de etapa/estado de cada deal: una fila al crearlo y otra por cada cambio
+export const deal_stage_transitions = pgTable("deal_stage_transitions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  deal_id: uuid("deal_id")
+    .notNull()
+    .references(() => deals.id, { onDelete: "cascade" }),
+  pipeline_id: uuid("pipeline_id").references(() => pipelines.id, { onDelete: "set null" }),
+  from_stage: text("from_stage"), // null en la creación del deal
+  to_stage: text("to_stage").notNull(),
+  from_status: dealStatusEnum("from_status"),
+  to_status: dealStatusEnum("to_status").notNull(),
+  from_probability: integer("from_probability"),
+  to_probability: integer("to_probability"),
+  changed_by: uuid("changed_by").references(() => users.id),
+  changed_at: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Importaciones CSV/TSV. El job lleva los contadores y cada fila su resultado,
+// así un job interrumpido se reanuda por las filas que siguen pendientes.
+export const import_jobs = pgTable("import_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  entity: importEntityEnum("entity").notNull(),
+  status: importStatusEnum("status").notNull().default("pending"),
+  file_name: text("file_name"),
+  mapping: text("mapping").notNull(), // JSON: columna del fichero -> campo
+  total_rows: integer("total_rows").notNull().default(0),
+  processed_rows: integer("processed_rows").notNull().default(0),
+  imported_rows: integer("imported_rows").notNull().default(0),
+  failed_rows: integer("failed_rows").notNull().default(0),
+  error: text("error"), // Fallo que detuvo el job (no los errores por fila)
+  created_by: uuid("created_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+  finished_at: timestamp("finished_at"),
+});
+
+export const import_job_rows = pgTable("import_job_rows", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  job_id: uuid("job_id")
+    .notNull()
+    .references(() => import_jobs.id, { onDelete: "cascade" }),
+  row_number: integer("row_number").notNull(), // Línea en el fichero
+  data: text("data").notNull(), // JSON: campo -> valor tal y como venía
+  status: importRowStatusEnum("status").notNull().default("pending"),
+  error: text("error"),
+  record_id: uuid("record_id"), // Contacto, empresa o deal creado
+});
+
+// Vistas guardadas de los listados. Las compartidas las ve todo el equipo,
+// pero solo las edita quien las creó.
+export const saved_views = pgTable("saved_views", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  list: savedViewListEnum("list").notNull(),
+  name: text("name").notNull(),
+  owner_id: uuid("owner_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  shared: boolean("shared").notNull().default(false),
+  config: text("config").notNull(), // JSON: filtros, orden, columnas y agrupación (shared/savedViews.ts)
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Vista que cada usuario abre por defecto en cada listado
+export const saved_view_defaults = pgTable(
+  "saved_view_defaults",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    list: savedViewListEnum("list").notNull(),
+    view_id: uuid("view_id")
+      .notNull()
+      .references(() => saved_views.id, { onDelete: "cascade" }),
+  },
+  (table) => [uniqueIndex("saved_view_defaults_user_list_idx").on(table.user_id, table.list)],
+);
+
+// Campos personalizados que el admin define por entidad. La clave no cambia:
+// es la que usan los valores guardados en `custom_fields` de cada registro.
+export const custom_fields = pgTable(
+  "custom_fields",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    entity: customFieldEntityEnum("entity").notNull(),
+    key: text("key").notNull(),
+    label: text("label").notNull(),
+    type: customFieldTypeEnum("type").notNull(),
+    options: jsonText<string[]>("options").notNull().default(sql`'[]'`), // Opciones de las selecciones
+    order_index: integer("order_index").notNull().default(0),
+    created_at: timestamp("created_at").defaultNow(),
+    updated_at: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("custom_fields_entity_key_idx").on(table.entity, table.key)],
+);
+
+// Etiquetas libres ("evento-2026", "referido-partner"...) comunes a deals,
+// contactos, empresas y tareas. Cada registro guarda sus ids en `tag_ids`.
+export const tags = pgTable("tags", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  color: text("color").notNull().default("#64748B"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Reglas de automatización: disparador, condiciones y acciones (shared/automations.ts)
+export const automation_rules = pgTable("automation_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  trigger: automationTriggerEnum("trigger").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  conditions: jsonText<AutomationCondition[]>("conditions").notNull().default(sql`'[]'`),
+  actions: jsonText<AutomationAction[]>("actions").notNull(),
+  created_by: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  last_run_at: timestamp("last_run_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Registro de ejecuciones: una fila cada vez que una regla se aplica a un registro
+export const automation_runs = pgTable("automation_runs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  rule_id: uuid("rule_id")
+    .notNull()
+    .references(() => automation_rules.id, { onDelete: "cascade" }),
+  trigger: automationTriggerEnum("trigger").notNull(),
+  entity_type: automationEntityEnum("entity_type").notNull(),
+  entity_id: uuid("entity_id").notNull(),
+  entity_label: text("entity_label"), // Título o nombre del registro en el momento de la ejecución
+  status: automationRunStatusEnum("status").notNull(),
+  results: jsonText<AutomationActionResult[]>("results").notNull().default(sql`'[]'`),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Ajustes de las reglas de alerta de deals; sin fila, la regla usa sus valores por defecto
+export const deal_alert_rule_settings = pgTable("deal_alert_rule_settings", {
+  rule: dealAlertRuleEnum("rule").primaryKey(),
+  enabled: boolean("enabled").notNull().default(true),
+  severity: dealAlertSeverityEnum("severity"), // null: la del catálogo
+  params: jsonText<DealAlertParams>("params").notNull().default(sql`'{}'`), // Solo los umbrales cambiados
+  recommended_action: text("recommended_action"), // null: el texto del catálogo
+  updated_by: uuid("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Políticas de SLA (shared/slaPolicies.ts): una general (sin etapa) y las de las etapas que la cambian.
+// Cada valor null se hereda de la general y, si tampoco está, del valor por defecto.
+export const sla_policies = pgTable("sla_policies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  stage_id: uuid("stage_id")
+    .unique()
+    .references(() => pipeline_stages.id, { onDelete: "cascade" }),
+  sla_hot_days: integer("sla_hot_days"),
+  sla_warm_days: integer("sla_warm_days"),
+  sla_cold_days: integer("sla_cold_days"),
+  risk_medium: integer("risk_medium"),
+  risk_high: integer("risk_high"),
+  escalate_manager_after_days: integer("escalate_manager_after_days"),
+  escalate_task_after_days: integer("escalate_task_after_days"),
+  updated_by: uuid("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Pasos de escalado ya dados: uno por paso y por racha de inactividad (la marca `last_activity` del deal)
+export const sla_escalations = pgTable("sla_escalations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  deal_id: uuid("deal_id")
+    .notNull()
+    .references(() => deals.id, { onDelete: "cascade" }),
+  step: slaEscalationStepEnum("step").notNull(),
+  last_activity: timestamp("last_activity").notNull(),
+  breach_days: integer("breach_days").notNull(), // Días fuera de SLA al escalar
+  notified_user_id: uuid("notified_user_id").references(() => users.id, { onDelete: "set null" }),
+  task_id: uuid("task_id").references(() => tasks.id, { onDelete: "set null" }),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// Alertas de deals con su seguimiento: una por racha de alertas de un deal. Deja de estar vigente
+// (`cleared_at`) cuando el deal ya no dispara ninguna regla o salta una regla que la alerta no tenía.
+export const deal_alerts = pgTable("deal_alerts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  deal_id: uuid("deal_id")
+    .notNull()
+    .references(() => deals.id, { onDelete: "cascade" }),
+  owner_id: uuid("owner_id").references(() => users.id, { onDelete: "set null" }), // Owner del deal al saltar
+  rules: jsonText<DealAlertRule[]>("rules").notNull().default(sql`'[]'`),
+  severity: dealAlertSeverityEnum("severity").notNull(),
+  message: text("message").notNull(),
+  status: dealAlertStatusEnum("status").notNull().default("open"),
+  snoozed_until: timestamp("snoozed_until"),
+  reason: dealAlertReasonEnum("reason"),
+  note: text("note"),
+  closed_at: timestamp("closed_at"), // Al resolverla o descartarla
+  closed_by: uuid("closed_by").references(() => users.id, { onDelete: "set null" }),
+  cleared_at: timestamp("cleared_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Canales de alertas (shared/alertChannels.ts): webhooks a los que se envían las alertas abiertas cada
+// `interval_hours`. Las listas de owners y pipelines vacías no filtran.
+export const alert_channels = pgTable("alert_channels", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  format: alertChannelFormatEnum("format").notNull(),
+  url: text("url").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  severity: dealAlertSensitivityEnum("severity").notNull().default("all"),
+  owner_ids: jsonText<string[]>("owner_ids").notNull().default(sql`'[]'`),
+  pipeline_ids: jsonText<string[]>("pipeline_ids").notNull().default(sql`'[]'`),
+  interval_hours: integer("interval_hours").notNull().default(DEFAULT_ALERT_CHANNEL_INTERVAL_HOURS),
+  last_sent_at: timestamp("last_sent_at"), // Último envío programado, aunque fallara
+  created_by: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Registro de envíos: una fila por envío, con los intentos que hicieron falta
+export const alert_deliveries = pgTable("alert_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel_id: uuid("channel_id")
+    .notNull()
+    .references(() => alert_channels.id, { onDelete: "cascade" }),
+  trigger: alertDeliveryTriggerEnum("trigger").notNull(),
+  status: alertDeliveryStatusEnum("status").notNull(),
+  alert_count: integer("alert_count").notNull().default(0),
+  attempts: integer("attempts").notNull().default(1),
+  response_status: integer("response_status"), // Código HTTP de la última respuesta
+  error: text("error"),
   created_at: timestamp("created_at").defaultNow(),
 });
 
 // Schemas for validation
+// Las fechas llegan como ISO strings desde la API, por eso se coercionan a Date.
+const optionalDate = z.coerce.date().nullish();
+const optionalAmount = z.coerce.number().nonnegative().nullish();
+// Los valores se validan contra las definiciones en el servicio (server/crm/customFields.ts)
+const customFieldsInput = customFieldValuesInputSchema.optional();
+// Los ids se comprueban contra la tabla de etiquetas en el servicio (server/crm/tags.ts)
+const tagIdsInput = tagIdsInputSchema.optional();
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -136,7 +507,11 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
-export const insertCompanySchema = createInsertSchema(companies).pick({
+export const insertCompanySchema = createInsertSchema(companies, {
+  revenue_estimate: optionalAmount,
+  custom_fields: customFieldsInput,
+  tag_ids: tagIdsInput,
+}).pick({
   name: true,
   industry: true,
   size: true,
@@ -144,9 +519,18 @@ export const insertCompanySchema = createInsertSchema(companies).pick({
   location: true,
   website: true,
   description: true,
+  custom_fields: true,
+  tag_ids: true,
 });
 
-export const insertContactSchema = createInsertSchema(contacts).pick({
+export const updateCompanySchema = insertCompanySchema
+  .extend(createInsertSchema(companies).pick({ score: true, priority: true }).shape)
+  .partial();
+
+export const insertContactSchema = createInsertSchema(contacts, {
+  custom_fields: customFieldsInput,
+  tag_ids: tagIdsInput,
+}).pick({
   name: true,
   email: true,
   phone: true,
@@ -154,11 +538,26 @@ export const insertContactSchema = createInsertSchema(contacts).pick({
   position: true,
   source: true,
   owner_id: true,
+  custom_fields: true,
+  tag_ids: true,
 });
 
-export const insertDealSchema = createInsertSchema(deals).pick({
+export const updateContactSchema = insertContactSchema
+  .extend(
+    createInsertSchema(contacts, { last_activity: optionalDate })
+      .pick({ score: true, priority: true, last_activity: true }).shape,
+  )
+  .partial();
+
+export const insertDealSchema = createInsertSchema(deals, {
+  amount: optionalAmount,
+  target_close_date: optionalDate,
+  custom_fields: customFieldsInput,
+  tag_ids: tagIdsInput,
+}).pick({
   title: true,
   company: true,
+  company_id: true,
   amount: true,
   stage: true,
   probability: true,
@@ -167,9 +566,28 @@ export const insertDealSchema = createInsertSchema(deals).pick({
   status: true,
   contact_id: true,
   owner_id: true,
+  pipeline_id: true,
+  custom_fields: true,
+  tag_ids: true,
 });
 
-export const insertTaskSchema = createInsertSchema(tasks).pick({
+export const updateDealSchema = insertDealSchema
+  .extend(
+    createInsertSchema(deals, { last_activity: optionalDate }).pick({
+      score: true,
+      priority: true,
+      risk_level: true,
+      last_activity: true,
+      inactivity_days: true,
+      close_reason: true,
+    }).shape,
+  )
+  .partial();
+
+export const insertTaskSchema = createInsertSchema(tasks, {
+  due_at: optionalDate,
+  tag_ids: tagIdsInput,
+}).pick({
   title: true,
   description: true,
   state: true,
@@ -179,14 +597,177 @@ export const insertTaskSchema = createInsertSchema(tasks).pick({
   deal_id: true,
   contact_id: true,
   notes: true,
+  tag_ids: true,
+});
+
+export const updateTaskSchema = insertTaskSchema
+  .extend(createInsertSchema(tasks, { completed_at: optionalDate }).pick({ completed_at: true }).shape)
+  .partial();
+
+export const insertTimelineEntrySchema = createInsertSchema(timeline_entries).pick({
+  type: true,
+  description: true,
+  entity_type: true,
+  entity_id: true,
+  user_id: true,
+  metadata: true,
+});
+
+const stageColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color hexadecimal no válido (#RRGGBB)");
+
+export const insertPipelineSchema = createInsertSchema(pipelines, {
+  name: (schema) => schema.trim().min(1, "El nombre del pipeline es obligatorio"),
+}).pick({
+  name: true,
+  is_default: true,
+});
+
+export const updatePipelineSchema = insertPipelineSchema.partial();
+
+export const insertPipelineStageSchema = createInsertSchema(pipeline_stages, {
+  // Sin pipeline_id la etapa va al pipeline por defecto
+  pipeline_id: (schema) => schema.optional(),
+  name: (schema) => schema.trim().min(1, "El nombre de la etapa es obligatorio"),
+  color: stageColor.optional(),
+  default_probability: z.coerce.number().int().min(0).max(100).optional(),
+}).pick({
+  pipeline_id: true,
+  name: true,
+  color: true,
+  is_active: true,
+  default_probability: true,
+});
+
+// Una etapa no cambia de pipeline
+export const updatePipelineStageSchema = insertPipelineStageSchema.omit({ pipeline_id: true }).partial();
+
+const customFieldLabel = z.string().trim().min(1, "El campo necesita una etiqueta");
+
+export const insertCustomFieldSchema = createInsertSchema(custom_fields, {
+  // Sin clave se deriva de la etiqueta
+  key: (schema) => schema.trim().optional(),
+  label: customFieldLabel,
+  options: z.array(z.string()).optional(),
+}).pick({
+  entity: true,
+  key: true,
+  label: true,
+  type: true,
+  options: true,
 });
 
+// La entidad, la clave y el tipo no cambian: los valores guardados dependen de ellos
+export const updateCustomFieldSchema = insertCustomFieldSchema.pick({ label: true, options: true }).partial();
+
+export const insertTagSchema = createInsertSchema(tags, {
+  name: (schema) => schema.trim().min(1, "La etiqueta necesita un nombre"),
+  color: tagColorSchema.optional(),
+}).pick({
+  name: true,
+  color: true,
+});
+
+export const updateTagSchema = insertTagSchema.partial();
+
+export const insertAutomationRuleSchema = createInsertSchema(automation_rules, {
+  name: (schema) => schema.trim().min(1, "La regla necesita un nombre"),
+  conditions: automationConditionsSchema.optional(),
+  actions: automationActionsSchema,
+}).pick({
+  name: true,
+  trigger: true,
+  enabled: true,
+  conditions: true,
+  actions: true,
+});
+
+export const updateAutomationRuleSchema = insertAutomationRuleSchema.partial();
+
+// Que los owners y pipelines existen se comprueba en el servicio (server/crm/alertChannels.ts)
+export const insertAlertChannelSchema = createInsertSchema(alert_channels, {
+  name: (schema) => schema.trim().min(1, "El canal necesita un nombre"),
+  url: webhookUrlSchema,
+  owner_ids: z.array(z.string().uuid()).optional(),
+  pipeline_ids: z.array(z.string().uuid()).optional(),
+  interval_hours: z.coerce.number().int().min(1).max(MAX_ALERT_CHANNEL_INTERVAL_HOURS).optional(),
+}).pick({
+  name: true,
+  format: true,
+  url: true,
+  enabled: true,
+  severity: true,
+  owner_ids: true,
+  pipeline_ids: true,
+  interval_hours: true,
+});
+
+export const updateAlertChannelSchema = insertAlertChannelSchema.partial();
+
 // Type exports
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type UpdateCompany = z.infer<typeof updateCompanySchema>;
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type UpdateContact = z.infer<typeof updateContactSchema>;
+export type InsertDeal = z.infer<typeof insertDealSchema>;
+export type UpdateDeal = z.infer<typeof updateDealSchema>;
+export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type InsertTimelineEntry = z.infer<typeof insertTimelineEntrySchema>;
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type UpdatePipeline = z.infer<typeof updatePipelineSchema>;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type UpdatePipelineStage = z.infer<typeof updatePipelineStageSchema>;
 export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
 export type Company = typeof companies.$inferSelect;
 export type Contact = typeof contacts.$inferSelect;
 export type Deal = typeof deals.$inferSelect;
 export type Task = typeof tasks.$inferSelect;
 export type TimelineEntry = typeof timeline_entries.$inferSelect;
+export type Pipeline = typeof pipelines.$inferSelect;
 export type PipelineStage = typeof pipeline_stages.$inferSelect;
+export type NewCompany = typeof companies.$inferInsert;
+export type NewContact = typeof contacts.$inferInsert;
+export type NewDeal = typeof deals.$inferInsert;
+export type NewTask = typeof tasks.$inferInsert;
+export type NewTimelineEntry = typeof timeline_entries.$inferInsert;
+export type NewPipeline = typeof pipelines.$inferInsert;
+export type NewPipelineStage = typeof pipeline_stages.$inferInsert;
+export type DealStageTransition = typeof deal_stage_transitions.$inferSelect;
+export type NewDealStageTransition = typeof deal_stage_transitions.$inferInsert;
+export type ImportJob = typeof import_jobs.$inferSelect;
+export type NewImportJob = typeof import_jobs.$inferInsert;
+export type ImportJobRow = typeof import_job_rows.$inferSelect;
+export type NewImportJobRow = typeof import_job_rows.$inferInsert;
+export type SavedView = typeof saved_views.$inferSelect;
+export type NewSavedView = typeof saved_views.$inferInsert;
+export type SavedViewDefault = typeof saved_view_defaults.$inferSelect;
+export type CustomField = typeof custom_fields.$inferSelect;
+export type NewCustomField = typeof custom_fields.$inferInsert;
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+export type UpdateCustomField = z.infer<typeof updateCustomFieldSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type UpdateTag = z.infer<typeof updateTagSchema>;
+export type AutomationRule = typeof automation_rules.$inferSelect;
+export type NewAutomationRule = typeof automation_rules.$inferInsert;
+export type InsertAutomationRule = z.infer<typeof insertAutomationRuleSchema>;
+export type UpdateAutomationRule = z.infer<typeof updateAutomationRuleSchema>;
+export type AutomationRun = typeof automation_runs.$inferSelect;
+export type NewAutomationRun = typeof automation_runs.$inferInsert;
+export type DealAlertRuleSetting = typeof deal_alert_rule_settings.$inferSelect;
+export type NewDealAlertRuleSetting = typeof deal_alert_rule_settings.$inferInsert;
+export type SlaPolicyRow = typeof sla_policies.$inferSelect;
+export type NewSlaPolicyRow = typeof sla_policies.$inferInsert;
+export type SlaEscalation = typeof sla_escalations.$inferSelect;
+export type NewSlaEscalation = typeof sla_escalations.$inferInsert;
+export type DealAlertRecord = typeof deal_alerts.$inferSelect;
+export type NewDealAlertRecord = typeof deal_alerts.$inferInsert;
+export type AlertChannel = typeof alert_channels.$inferSelect;
+export type NewAlertChannel = typeof alert_channels.$inferInsert;
+export type InsertAlertChannel = z.infer<typeof insertAlertChannelSchema>;
+export type UpdateAlertChannel = z.infer<typeof updateAlertChannelSchema>;
+export type AlertDelivery = typeof alert_deliveries.$inferSelect;
+export type NewAlertDelivery = typeof alert_deliveries.$inferInsert;
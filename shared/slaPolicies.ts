@@ -0,0 +1,150 @@
+// Políticas de SLA: días sin actividad que tolera cada prioridad, umbrales de
+// riesgo y escalado de los deals fuera de SLA. Hay una política general y,
+// opcionalmente, una por etapa que solo cambia algunos valores; lo que no
+// cambia se hereda de la general y, al final, de los valores por defecto.
+
+import { z } from "zod";
+import type { DealPriority, DealRiskLevel } from "./dealRules";
+
+export interface SlaPolicyFieldDefinition {
+  key: SlaPolicyField;
+  label: string;
+  default: number;
+  min: number;
+  max: number;
+}
+
+export const SLA_POLICY_FIELD_KEYS = [
+  "sla_hot_days",
+  "sla_warm_days",
+  "sla_cold_days",
+  "risk_medium",
+  "risk_high",
+  "escalate_manager_after_days",
+  "escalate_task_after_days",
+] as const;
+export type SlaPolicyField = (typeof SLA_POLICY_FIELD_KEYS)[number];
+
+/** La política con todos sus valores. */
+export type SlaPolicy = Record<SlaPolicyField, number>;
+
+/** Lo guardado para un alcance; null hereda. */
+export type SlaPolicyOverride = { [K in SlaPolicyField]?: number | null };
+
+export interface SlaPolicyScope extends SlaPolicyOverride {
+  /** null: la política general. */
+  stage_id: string | null;
+}
+
+export const SLA_POLICY_FIELDS: readonly SlaPolicyFieldDefinition[] = [
+  { key: "sla_hot_days", label: "SLA Hot (días)", default: 3, min: 1, max: 365 },
+  { key: "sla_warm_days", label: "SLA Warm (días)", default: 7, min: 1, max: 365 },
+  { key: "sla_cold_days", label: "SLA Cold (días)", default: 14, min: 1, max: 365 },
+  // Puntos de riesgo de `calculateRiskLevel` (de 0 a 10)
+  { key: "risk_medium", label: "Riesgo medio desde (puntos)", default: 3, min: 1, max: 10 },
+  { key: "risk_high", label: "Riesgo alto desde (puntos)", default: 7, min: 1, max: 10 },
+  { key: "escalate_manager_after_days", label: "Avisar al manager tras (días)", default: 2, min: 0, max: 90 },
+  { key: "escalate_task_after_days", label: "Crear tarea tras (días)", default: 4, min: 0, max: 90 },
+];
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = Object.fromEntries(
+  SLA_POLICY_FIELDS.map((field) => [field.key, field.default]),
+) as SlaPolicy;
+
+const SLA_FIELD_BY_PRIORITY: Record<DealPriority, SlaPolicyField> = {
+  Hot: "sla_hot_days",
+  Warm: "sla_warm_days",
+  Cold: "sla_cold_days",
+};
+
+export function slaThresholds(policy: SlaPolicy): Record<DealPriority, number> {
+  return { Hot: policy.sla_hot_days, Warm: policy.sla_warm_days, Cold: policy.sla_cold_days };
+}
+
+/** Puntos de riesgo a partir de los que un deal es de riesgo medio o alto. */
+export function riskThresholds(policy: SlaPolicy): Record<Exclude<DealRiskLevel, "Bajo">, number> {
+  return { Medio: policy.risk_medium, Alto: policy.risk_high };
+}
+
+export const DEFAULT_SLA_THRESHOLDS = slaThresholds(DEFAULT_SLA_POLICY);
+export const DEFAULT_RISK_THRESHOLDS = riskThresholds(DEFAULT_SLA_POLICY);
+
+export function slaDaysFor(policy: SlaPolicy, priority: DealPriority): number {
+  return policy[SLA_FIELD_BY_PRIORITY[priority]];
+}
+
+/** Política de una etapa: la de la etapa sobre la general, y ambas sobre los valores por defecto. */
+export function resolveSlaPolicy(scopes: readonly SlaPolicyScope[], stageId?: string | null): SlaPolicy {
+  const general = scopes.find((scope) => scope.stage_id === null);
+  const stage = stageId ? scopes.find((scope) => scope.stage_id === stageId) : undefined;
+  return Object.fromEntries(
+    SLA_POLICY_FIELD_KEYS.map((key) => [key, stage?.[key] ?? general?.[key] ?? DEFAULT_SLA_POLICY[key]]),
+  ) as SlaPolicy;
+}
+
+/** Errores de los valores guardados: enteros dentro de su rango. */
+export function validateSlaPolicyOverride(override: SlaPolicyOverride): string[] {
+  const errors: string[] = [];
+  for (const field of SLA_POLICY_FIELDS) {
+    const value = override[field.key];
+    if (value == null) continue;
+    if (!Number.isInteger(value) || value < field.min || value > field.max) {
+      errors.push(`${field.label}: debe ser un entero entre ${field.min} y ${field.max}`);
+    }
+  }
+  return errors;
+}
+
+/** Errores de coherencia de la política ya resuelta. */
+export function validateSlaPolicy(policy: SlaPolicy): string[] {
+  const errors: string[] = [];
+  if (policy.risk_medium >= policy.risk_high) {
+    errors.push("El riesgo alto debe empezar por encima del medio");
+  }
+  if (policy.escalate_task_after_days < policy.escalate_manager_after_days) {
+    errors.push("La tarea no puede crearse antes de avisar al manager");
+  }
+  return errors;
+}
+
+const policyValue = z.coerce.number().nullable().optional();
+
+export const slaPolicyInputSchema = z.object({
+  stage_id: z.string().min(1).nullable().default(null),
+  sla_hot_days: policyValue,
+  sla_warm_days: policyValue,
+  sla_cold_days: policyValue,
+  risk_medium: policyValue,
+  risk_high: policyValue,
+  escalate_manager_after_days: policyValue,
+  escalate_task_after_days: policyValue,
+});
+export type SlaPolicyInput = z.infer<typeof slaPolicyInputSchema>;
+
+/* Escalado */
+
+export const SLA_ESCALATION_STEPS = ["owner", "manager", "task"] as const;
+export type SlaEscalationStep = (typeof SLA_ESCALATION_STEPS)[number];
+
+export const SLA_ESCALATION_STEP_LABELS: Record<SlaEscalationStep, string> = {
+  owner: "Aviso al owner",
+  manager: "Aviso al manager",
+  task: "Tarea creada",
+};
+
+/** Días que un deal lleva fuera de SLA; 0 si lo cumple. */
+export function slaBreachDays(inactivity: number, slaDays: number): number {
+  return Math.max(0, inactivity - slaDays);
+}
+
+/**
+ * Pasos de la escalera que ya tocan: el owner en cuanto se incumple el SLA,
+ * el manager y la tarea cuando el incumplimiento supera sus días.
+ */
+export function dueEscalationSteps(breachDays: number, policy: SlaPolicy): SlaEscalationStep[] {
+  if (breachDays <= 0) return [];
+  const steps: SlaEscalationStep[] = ["owner"];
+  if (breachDays > policy.escalate_manager_after_days) steps.push("manager");
+  if (breachDays > policy.escalate_task_after_days) steps.push("task");
+  return steps;
+}
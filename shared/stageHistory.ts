@@ -0,0 +1,55 @@
+// Tiempo en etapa a partir de deal_stage_transitions. Compartido entre el
+// servidor y el cliente (DealModal); sin dependencias de runtime.
+
+const dayMs = 1000 * 60 * 60 * 24;
+
+export interface StageTransitionLike {
+  from_stage: string | null;
+  to_stage: string;
+  to_status?: string | null;
+  changed_at: string | Date;
+}
+
+export interface StagePeriod {
+  stage: string;
+  entered_at: Date;
+  /** null mientras el deal sigue en la etapa. */
+  left_at: Date | null;
+  days: number;
+}
+
+/**
+ * Estancias sucesivas del deal en cada etapa, en orden cronológico. Las
+ * transiciones que solo cambian el estado no abren una estancia nueva; si la
+ * última cierra el deal (ganado o perdido), el reloj se para ahí.
+ */
+export function getStagePeriods(transitions: readonly StageTransitionLike[], now = new Date()): StagePeriod[] {
+  const periods: StagePeriod[] = [];
+  for (const transition of transitions) {
+    const at = new Date(transition.changed_at);
+    const current = periods[periods.length - 1];
+    if (current && current.stage === transition.to_stage) continue;
+    if (current) {
+      current.left_at = at;
+      current.days = (at.getTime() - current.entered_at.getTime()) / dayMs;
+    }
+    periods.push({ stage: transition.to_stage, entered_at: at, left_at: null, days: 0 });
+  }
+
+  const last = periods[periods.length - 1];
+  const final = transitions[transitions.length - 1];
+  if (last && final?.to_status && final.to_status !== "Open") {
+    last.left_at = new Date(final.changed_at);
+  }
+  if (last) last.days = Math.max(0, ((last.left_at ?? now).getTime() - last.entered_at.getTime()) / dayMs);
+  return periods;
+}
+
+/** Días acumulados por etapa (un deal puede volver a una etapa anterior). */
+export function sumDaysByStage(periods: readonly StagePeriod[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const period of periods) {
+    totals.set(period.stage, (totals.get(period.stage) ?? 0) + period.days);
+  }
+  return totals;
+}
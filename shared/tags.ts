@@ -0,0 +1,128 @@
+// Etiquetas libres con color para marcar deals, contactos, empresas y tareas
+// ("evento-2026", "referido-partner"...). Las etiquetas son comunes a todas
+// las entidades; cada registro guarda sus ids en `tag_ids`. Validación,
+// filtros de los listados y recuentos compartidos por el cliente y el servidor.
+
+import { z } from "zod";
+import { normalizeStageName } from "./pipelineStages";
+
+export const TAG_ENTITIES = ["deals", "contacts", "companies", "tasks"] as const;
+export type TagEntity = (typeof TAG_ENTITIES)[number];
+
+/** Paleta del gestor de etiquetas; por API se admite cualquier #RRGGBB. */
+export const TAG_COLORS = [
+  "#64748B",
+  "#EF4444",
+  "#F97316",
+  "#EAB308",
+  "#22C55E",
+  "#14B8A6",
+  "#3B82F6",
+  "#8B5CF6",
+  "#EC4899",
+] as const;
+export const DEFAULT_TAG_COLOR = TAG_COLORS[0];
+
+export const MAX_TAG_NAME = 40;
+/** Etiquetas por registro: más no caben en una tarjeta del Kanban. */
+export const MAX_TAGS_PER_RECORD = 10;
+
+export const tagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color hexadecimal no válido (#RRGGBB)");
+/** Lo que llega de la API: la lista completa de etiquetas del registro. */
+export const tagIdsInputSchema = z.array(z.string());
+
+/** Forma mínima de una etiqueta: vale la fila de la tabla y la que recibe el cliente. */
+export interface TagDefinition {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** Nombre tal y como se guarda: sin espacios sobrantes. */
+export function cleanTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/** Dos nombres que solo difieren en mayúsculas o tildes son la misma etiqueta. */
+export function tagNameKey(name: string): string {
+  return normalizeStageName(cleanTagName(name));
+}
+
+export function sortTags<T extends TagDefinition>(tags: readonly T[]): T[] {
+  return [...tags].sort((a, b) => a.name.localeCompare(b.name, "es"));
+}
+
+/** Etiquetas del registro en su orden, sin las que ya no existen. */
+export function resolveRecordTags<T extends TagDefinition>(
+  tagIds: readonly string[] | null | undefined,
+  tags: readonly T[],
+): T[] {
+  const byId = new Map(tags.map((tag) => [tag.id, tag]));
+  return (tagIds ?? []).flatMap((id) => byId.get(id) ?? []);
+}
+
+/** Nombres separados por comas, para exportaciones y resúmenes. */
+export function formatTagNames(tagIds: readonly string[] | null | undefined, tags: readonly TagDefinition[]): string {
+  return resolveRecordTags(tagIds, tags)
+    .map((tag) => tag.name)
+    .join(", ");
+}
+
+export function addTagId(tagIds: readonly string[] | null | undefined, id: string): string[] {
+  const current = tagIds ?? [];
+  return current.includes(id) ? [...current] : [...current, id];
+}
+
+export function removeTagId(tagIds: readonly string[] | null | undefined, id: string): string[] {
+  return (tagIds ?? []).filter((candidate) => candidate !== id);
+}
+
+/** Lo que manda el formulario: la lista nueva si cambió, o nada. */
+export function diffTagIds(
+  saved: readonly string[] | null | undefined,
+  draft: readonly string[],
+): string[] | undefined {
+  const current = saved ?? [];
+  const same = current.length === draft.length && current.every((id, index) => draft[index] === id);
+  return same ? undefined : [...draft];
+}
+
+/** Al fusionar registros se quedan las etiquetas de todos, sin repetir. */
+export function mergeTagIds(records: readonly (readonly string[] | null | undefined)[]): string[] {
+  return Array.from(new Set(records.flatMap((tagIds) => tagIds ?? [])));
+}
+
+/* Filtros de los listados */
+
+/** Parámetro de la query string con el filtro por etiqueta (`tag=<id>`). */
+export const TAG_FILTER_PARAM = "tag";
+
+/** Si el registro lleva la etiqueta del filtro; sin filtro pasa todo. */
+export function matchesTagFilter(
+  tagIds: readonly string[] | null | undefined,
+  tagId: string | null | undefined,
+): boolean {
+  return !tagId || (tagIds ?? []).includes(tagId);
+}
+
+/* Recuentos */
+
+export interface TagCount {
+  tag: TagDefinition;
+  count: number;
+}
+
+/** Registros por etiqueta, de más a menos usada; las etiquetas sin uso no salen. */
+export function countTags(
+  records: readonly { tag_ids?: readonly string[] | null }[],
+  tags: readonly TagDefinition[],
+): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    for (const id of record.tag_ids ?? []) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return tags
+    .map((tag) => ({ tag, count: counts.get(tag.id) ?? 0 }))
+    .filter((entry) => entry.count > 0)
+    .sort((a, b) => b.count - a.count || a.tag.name.localeCompare(b.tag.name, "es"));
+}
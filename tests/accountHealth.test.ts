@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { calculateAccountHealth, calculateDealScore } from "../client/src/lib/scoring";
+import type { Deal } from "../client/src/lib/types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function deal(overrides: Partial<Deal>): Deal {
+  const now = new Date().toISOString();
+  return {
+    id: Math.random().toString(36).slice(2),
+    title: "Deal",
+    stage: "Propuesta",
+    probability: 70,
+    amount: 30000,
+    status: "Open",
+    score: 0,
+    priority: "Cold",
+    risk_level: "Bajo",
+    inactivity_days: 0,
+    next_step: "Enviar propuesta",
+    target_close_date: new Date(Date.now() + 10 * DAY).toISOString(),
+    last_activity: now,
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  };
+}
+
+test("calculateAccountHealth parte de los factores del scoring de deals", () => {
+  const healthy = deal({});
+  const health = calculateAccountHealth([healthy]);
+
+  assert.equal(health.score, calculateDealScore(healthy).score);
+  assert.equal(health.status, "Buena");
+  assert.deepEqual(health.risk, { Alto: 0, Medio: 0, Bajo: 1 });
+  assert.ok(health.reasoning.includes("Actividad reciente"));
+});
+
+test("calculateAccountHealth resta el riesgo de los deals abiertos", () => {
+  const stale = new Date(Date.now() - 20 * DAY).toISOString();
+  const risky = deal({
+    probability: 20,
+    next_step: null,
+    last_activity: stale,
+    target_close_date: new Date(Date.now() - DAY).toISOString(),
+  });
+  const health = calculateAccountHealth([deal({}), risky]);
+
+  assert.deepEqual(health.risk, { Alto: 1, Medio: 0, Bajo: 1 });
+  assert.ok(health.score < calculateAccountHealth([deal({})]).score);
+  assert.ok(health.reasoning.includes("1 deal(s) abiertos con riesgo alto"));
+});
+
+test("calculateAccountHealth sin pipeline abierto usa el historial", () => {
+  assert.equal(calculateAccountHealth([]).status, "Sin datos");
+
+  const closed = calculateAccountHealth([deal({ status: "Won" }), deal({ status: "Lost" })]);
+  assert.equal(closed.factors.probability, 50);
+  assert.deepEqual(closed.risk, { Alto: 0, Medio: 0, Bajo: 0 });
+  assert.ok(closed.reasoning.includes("Sin pipeline abierto"));
+  assert.ok(closed.reasoning.includes("1 de 2 deals ganados"));
+});
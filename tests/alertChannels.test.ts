@@ -0,0 +1,241 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+
+import {
+  describeAlertChannelFilters,
+  formatAlertChannelMessage,
+  matchesAlertChannel,
+  type AlertChannelEntry,
+} from "../shared/alertChannels";
+import { MemStorage } from "../server/storage/memory";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import { syncDealAlerts, updateDealAlertState } from "../server/crm/dealAlerts";
+import { createPipeline } from "../server/crm/pipelines";
+import {
+  checkAlertChannels,
+  createAlertChannel,
+  deleteAlertChannel,
+  listAlertDeliveries,
+  sendAlertChannel,
+  updateAlertChannel,
+} from "../server/crm/alertChannels";
+
+const dayMs = 24 * 60 * 60 * 1000;
+const hourMs = 60 * 60 * 1000;
+
+const entry = (overrides: Partial<AlertChannelEntry> = {}): AlertChannelEntry => ({
+  deal: { id: "deal-1", title: "Flota", company: "Acme", owner_id: "ana", pipeline_id: "principal" },
+  owner_name: "Ana",
+  severity: "warning",
+  message: "Flota ha bajado de importe",
+  recommendedAction: "Confirmar el presupuesto",
+  priority: "Warm",
+  risk: "Medio",
+  rules: ["amount_drop"],
+  ...overrides,
+});
+
+test("cada formato envía las mismas alertas y los filtros eligen cuáles", () => {
+  const warning = entry();
+  const critical = entry({
+    deal: { id: "deal-2", title: "Licencias", company: null, owner_id: "luis", pipeline_id: "partners" },
+    owner_name: "Luis",
+    severity: "critical",
+    message: "Licencias tiene la fecha objetivo vencida",
+    rules: ["target_overdue"],
+  });
+
+  const slack = formatAlertChannelMessage("slack", [critical, warning]);
+  assert.equal(slack.text?.split("\n")[0], "⚠️ 2 deals requieren atención inmediata.");
+  assert.deepEqual(
+    slack.attachments?.map((attachment) => ("color" in attachment ? attachment.color : null)),
+    ["danger", "warning"],
+  );
+
+  const teams = formatAlertChannelMessage("teams", [warning]) as Record<string, unknown>;
+  assert.equal(teams["@type"], "MessageCard");
+  assert.equal(teams.themeColor, "F79009");
+  assert.deepEqual(teams.sections, [
+    {
+      activityTitle: "Flota ha bajado de importe",
+      text: "Acme · Prioridad Warm · Riesgo Medio. Confirmar el presupuesto",
+    },
+  ]);
+
+  const json = formatAlertChannelMessage("json", [critical]) as { alerts: Array<Record<string, unknown>> };
+  assert.equal(json.alerts[0].deal_id, "deal-2");
+  assert.equal(json.alerts[0].owner_name, "Luis");
+  assert.deepEqual(json.alerts[0].rules, ["target_overdue"]);
+  assert.equal(
+    formatAlertChannelMessage("json", []).text,
+    "✅ Sin alertas críticas en el pipeline. Buen trabajo equipo.",
+  );
+
+  const all = { severity: "all", owner_ids: [], pipeline_ids: [] } as const;
+  assert.ok(matchesAlertChannel(all, warning) && matchesAlertChannel(all, critical));
+  assert.ok(!matchesAlertChannel({ ...all, severity: "critical" }, warning));
+  assert.ok(!matchesAlertChannel({ ...all, owner_ids: ["ana"] }, critical));
+  assert.ok(matchesAlertChannel({ ...all, pipeline_ids: ["partners"] }, critical));
+
+  assert.equal(describeAlertChannelFilters(all), "Todas las alertas");
+  assert.equal(
+    describeAlertChannelFilters({ severity: "critical", owner_ids: ["ana"], pipeline_ids: ["partners"] }, (id) =>
+      id === "ana" ? "Ana" : id,
+    ),
+    "Solo críticas de Ana en partners",
+  );
+});
+
+test("el servidor envía a cada canal sus alertas cuando le toca y reintenta los fallos", async () => {
+  const received = new Map<string, unknown[]>();
+  let flaky = 0;
+  const server = createServer((req: IncomingMessage, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      // El primer intento a /intermitente falla; el resto, bien
+      const failing = req.url === "/roto" || (req.url === "/intermitente" && flaky++ === 0);
+      if (failing || req.url === "/mal") {
+        res.statusCode = failing ? 500 : 400;
+        res.end();
+        return;
+      }
+      received.set(req.url!, [...(received.get(req.url!) ?? []), JSON.parse(Buffer.concat(chunks).toString("utf8"))]);
+      res.end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = (path: string) => `http://127.0.0.1:${port}${path}`;
+
+  try {
+    const storage = new MemStorage();
+    const ana = await storage.createUser({ username: "ana", password: "x", full_name: "Ana" });
+    const luis = await storage.createUser({ username: "luis", password: "x", full_name: "Luis" });
+    const input = { amount: 1000, next_step: "Demo", target_close_date: new Date(Date.now() + 30 * dayMs) };
+    const fleet = await createDeal(storage, { ...input, title: "Flota", company: "Acme" }, ana.id);
+    await updateDeal(storage, fleet.id, { amount: 500 });
+    const licenses = await createDeal(storage, { ...input, title: "Licencias" }, luis.id);
+    await storage.updateDeal(licenses.id, { target_close_date: new Date(Date.now() - dayMs) });
+    const partners = await createPipeline(storage, { name: "Partners" });
+
+    await assert.rejects(
+      createAlertChannel(storage, {
+        name: "Nadie",
+        format: "slack",
+        url: url("/slack"),
+        owner_ids: ["00000000-0000-4000-8000-000000000000"],
+      }),
+      /Usuario desconocido/,
+    );
+    const anaChannel = await createAlertChannel(
+      storage,
+      { name: "Ventas Ana", format: "slack", url: url("/slack"), owner_ids: [ana.id], interval_hours: 1 },
+      ana.id,
+    );
+    const critical = await createAlertChannel(storage, {
+      name: "Críticas",
+      format: "teams",
+      url: url("/intermitente"),
+      severity: "critical",
+    });
+    const broken = await createAlertChannel(storage, { name: "Integración", format: "json", url: url("/roto") });
+    const invalid = await createAlertChannel(storage, { name: "Mal", format: "json", url: url("/mal") });
+    const empty = await createAlertChannel(storage, {
+      name: "Partners",
+      format: "slack",
+      url: url("/partners"),
+      pipeline_ids: [partners.id],
+    });
+    const disabled = await createAlertChannel(storage, {
+      name: "Apagado",
+      format: "json",
+      url: url("/apagado"),
+      enabled: false,
+    });
+
+    const start = new Date();
+    // Los canales envían lo que dejó la última sincronización
+    await syncDealAlerts(storage, start);
+    const deliveries = await checkAlertChannels(storage, { now: start, retryDelayMs: 1 });
+    assert.deepEqual(
+      deliveries.map((delivery) => [delivery.channel_id, delivery.status, delivery.attempts, delivery.alert_count]),
+      [
+        [anaChannel.id, "delivered", 1, 1],
+        [critical.id, "delivered", 2, 1],
+        [broken.id, "failed", 3, 2],
+        [invalid.id, "failed", 1, 2],
+      ],
+    );
+    assert.equal(deliveries[2].error, "El webhook respondió 500");
+    assert.equal(deliveries[3].response_status, 400);
+    const [slack] = received.get("/slack") as Array<{ attachments: Array<{ title: string }> }>;
+    assert.deepEqual(
+      slack.attachments.map((attachment) => attachment.title),
+      ["Flota ha bajado de importe"],
+    );
+    const [teams] = received.get("/intermitente") as Array<{ themeColor: string }>;
+    assert.equal(teams.themeColor, "D92D20");
+    // Sin alertas que le correspondan, el canal de Partners no recibe nada; el apagado, tampoco
+    assert.equal(received.has("/partners") || received.has("/apagado"), false);
+    assert.ok((await storage.getAlertChannel(empty.id))?.last_sent_at);
+    assert.equal((await storage.getAlertChannel(disabled.id))?.last_sent_at, null);
+
+    // Cada canal espera a su intervalo, haya ido bien o no
+    assert.deepEqual(await checkAlertChannels(storage, { now: new Date(start.getTime() + hourMs / 2) }), []);
+    const later = await checkAlertChannels(storage, { now: new Date(start.getTime() + hourMs), retryDelayMs: 1 });
+    assert.deepEqual(
+      later.map((delivery) => delivery.channel_id),
+      [anaChannel.id],
+    );
+
+    // "Enviar ahora" no espera al intervalo, solo manda las abiertas y también sin alertas
+    await updateDealAlertState(storage, fleet, { status: "snoozed", snoozed_until: new Date(Date.now() + dayMs) });
+    const manual = await sendAlertChannel(storage, anaChannel.id, { retryDelayMs: 1 });
+    assert.deepEqual([manual.trigger, manual.status, manual.alert_count], ["manual", "delivered", 0]);
+    assert.equal(
+      (received.get("/slack")!.at(-1) as { text: string }).text,
+      "✅ Sin alertas críticas en el pipeline. Buen trabajo equipo.",
+    );
+    assert.deepEqual(
+      (await listAlertDeliveries(storage, anaChannel.id)).map((delivery) => delivery.trigger),
+      ["manual", "schedule", "schedule"],
+    );
+
+    const updated = await updateAlertChannel(storage, critical.id, { severity: "all", interval_hours: 4 });
+    assert.equal(updated.updated_at!.getTime() >= critical.updated_at!.getTime(), true);
+    assert.equal(updated.interval_hours, 4);
+    await deleteAlertChannel(storage, broken.id);
+    assert.equal((await storage.getAlertDeliveries({ channel_id: broken.id })).length, 0);
+    await assert.rejects(listAlertDeliveries(storage, broken.id), /Alert channel not found/);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test("enviar a los canales no abre alertas aunque coincida con una sincronización", async () => {
+  const storage = new MemStorage();
+  const owner = await storage.createUser({ username: "ana", password: "x" });
+  const input = { amount: 1000, next_step: "Demo", target_close_date: new Date(Date.now() + 30 * dayMs) };
+  const deal = await createDeal(storage, { ...input, title: "Flota" }, owner.id);
+  await storage.updateDeal(deal.id, { target_close_date: new Date(Date.now() - dayMs) });
+  // Un pipeline sin deals: el canal revisa las alertas pero no llama a ningún webhook
+  const partners = await createPipeline(storage, { name: "Partners" });
+  await createAlertChannel(storage, {
+    name: "Partners",
+    format: "json",
+    url: "http://127.0.0.1:9/partners",
+    pipeline_ids: [partners.id],
+  });
+
+  const now = new Date();
+  await Promise.all([checkAlertChannels(storage, { now }), syncDealAlerts(storage, now)]);
+  assert.equal((await storage.getDealAlerts({ active: true })).length, 1);
+
+  await syncDealAlerts(storage, new Date(now.getTime() + 60_000));
+  const [alert] = await storage.getDealAlerts({ deal_id: deal.id });
+  assert.deepEqual([alert.status, alert.reason], ["open", null]);
+  assert.equal((await storage.getDealAlerts({ deal_id: deal.id })).length, 1);
+});
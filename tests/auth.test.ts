@@ -0,0 +1,141 @@
+import test, { after, before } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+
+import { MemStorage } from "../server/storage/memory";
+import { hashPassword, setupAuth, verifyPassword } from "../server/auth";
+import { registerCrmRoutes } from "../server/crm/routes";
+
+let server: Server;
+let baseUrl: string;
+const storage = new MemStorage();
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  setupAuth(app, storage);
+  registerCrmRoutes(app, storage);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+/** Cliente mínimo que conserva la cookie de sesión entre peticiones. */
+function createAgent() {
+  let cookie = "";
+  return async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(cookie ? { Cookie: cookie } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return { status: res.status, body: await res.json() };
+  };
+}
+
+test("hashPassword no guarda la contraseña en claro y verifyPassword la valida", async () => {
+  const hash = await hashPassword("secreto-123");
+  assert.ok(!hash.includes("secreto-123"));
+  assert.equal(await verifyPassword("secreto-123", hash), true);
+  assert.equal(await verifyPassword("otra-cosa", hash), false);
+});
+
+test("solo la primera cuenta registrada es Admin aunque lleguen varias a la vez", async () => {
+  const fresh = new MemStorage();
+  const registered = await Promise.all(
+    ["primera", "segunda", "tercera"].map((username) =>
+      fresh.registerUser({ username, password: "x", role: "Usuario" }),
+    ),
+  );
+  assert.deepEqual(registered.map((user) => user.role).sort(), ["Admin", "Usuario", "Usuario"]);
+});
+
+test("register, me, logout y login con sesión por cookie", async () => {
+  const agent = createAgent();
+
+  assert.equal((await agent("GET", "/api/auth/me")).status, 401);
+
+  const registered = await agent("POST", "/api/auth/register", {
+    username: "laura",
+    password: "pipeline-2024",
+    full_name: "Laura Martín",
+  });
+  assert.equal(registered.status, 201);
+  assert.equal(registered.body.user.full_name, "Laura Martín");
+  assert.equal(registered.body.user.password, undefined);
+
+  const stored = await storage.getUserByUsername("laura");
+  assert.notEqual(stored?.password, "pipeline-2024");
+
+  const me = await agent("GET", "/api/auth/me");
+  assert.equal(me.body.user.username, "laura");
+
+  const duplicate = await createAgent()("POST", "/api/auth/register", {
+    username: "laura",
+    password: "otra-clave-123",
+  });
+  assert.equal(duplicate.status, 409);
+
+  assert.equal((await agent("POST", "/api/auth/logout")).status, 200);
+  assert.equal((await agent("GET", "/api/auth/me")).status, 401);
+
+  const wrong = await agent("POST", "/api/auth/login", { username: "laura", password: "incorrecta" });
+  assert.equal(wrong.status, 401);
+
+  const login = await agent("POST", "/api/auth/login", { username: "laura", password: "pipeline-2024" });
+  assert.equal(login.status, 200);
+  assert.equal((await agent("GET", "/api/auth/me")).body.user.id, registered.body.user.id);
+});
+
+test("entrar o registrarse emite una sesión nueva e invalida la anterior", async () => {
+  const authenticate = async (path: string, body: unknown, cookie = "") => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body),
+    });
+    return res.headers.get("set-cookie")!.split(";")[0];
+  };
+  const credentials = { username: "sonia", password: "ventas-2024" };
+  const planted = await authenticate("/api/auth/register", { username: "intruso", password: "ventas-2024" });
+  const registered = await authenticate("/api/auth/register", credentials, planted);
+  const loggedIn = await authenticate("/api/auth/login", credentials, registered);
+
+  assert.notEqual(registered, planted);
+  assert.notEqual(loggedIn, registered);
+  for (const stale of [planted, registered]) {
+    assert.equal((await fetch(`${baseUrl}/api/auth/me`, { headers: { Cookie: stale } })).status, 401);
+  }
+  assert.equal((await fetch(`${baseUrl}/api/auth/me`, { headers: { Cookie: loggedIn } })).status, 200);
+});
+
+test("las rutas CRM exigen sesión y firman con el usuario actual", async () => {
+  const anonymous = createAgent();
+  assert.equal((await anonymous("GET", "/api/deals")).status, 401);
+
+  const agent = createAgent();
+  const { body } = await agent("POST", "/api/auth/register", { username: "pablo", password: "ventas-2024" });
+  const userId = body.user.id;
+
+  const created = await agent("POST", "/api/deals", {
+    title: "Renovación anual",
+    next_step: "Enviar propuesta",
+    target_close_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+  });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.deal.owner_id, userId);
+
+  const timeline = await agent("GET", `/api/timeline?entity_id=${created.body.deal.id}`);
+  assert.equal(timeline.body.entries[0].user_id, userId);
+});
@@ -0,0 +1,317 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+
+import {
+  automationRunStatus,
+  describeAutomationRule,
+  matchesAutomationCondition,
+  validateAutomationRule,
+} from "../shared/automations";
+import { MemStorage } from "../server/storage/memory";
+import {
+  AUTOMATION_WEBHOOK_QUEUED,
+  checkOverdueTasks,
+  createAutomationRule,
+  deleteAutomationRule,
+  listAutomationRuns,
+  updateAutomationRule,
+} from "../server/crm/automations";
+import { createContact } from "../server/crm/contacts";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import { createTask } from "../server/crm/tasks";
+
+const dayMs = 24 * 60 * 60 * 1000;
+const inTenDays = () => new Date(Date.now() + 10 * dayMs);
+const dealInput = (fields: { title: string; amount?: number }) => ({
+  ...fields,
+  next_step: "Llamar",
+  target_close_date: inTenDays(),
+});
+
+/** Espera a que los webhooks de la última ejecución de la regla hayan respondido. */
+async function settledRun(storage: MemStorage, ruleId: string) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const [run] = await listAutomationRuns(storage, ruleId);
+    if (run && !run.results.some((result) => result.detail === AUTOMATION_WEBHOOK_QUEUED)) return run;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("Los webhooks no respondieron");
+}
+
+test("las condiciones comparan etapas sin tildes y números solo si hay valor", () => {
+  const deal = { stage: "Negociación", amount: 12000, priority: "Hot", probability: null };
+  assert.equal(matchesAutomationCondition(deal, { field: "stage", operator: "eq", value: "negociacion" }), true);
+  assert.equal(matchesAutomationCondition(deal, { field: "priority", operator: "neq", value: "hot" }), false);
+  assert.equal(matchesAutomationCondition(deal, { field: "amount", operator: "gte", value: "12000" }), true);
+  assert.equal(matchesAutomationCondition(deal, { field: "amount", operator: "lt", value: 5000 }), false);
+  assert.equal(matchesAutomationCondition(deal, { field: "probability", operator: "lt", value: 50 }), false);
+
+  assert.deepEqual(
+    validateAutomationRule({
+      trigger: "contact_created",
+      conditions: [
+        { field: "amount", operator: "gt", value: 1 },
+        { field: "priority", operator: "gt", value: "Hot" },
+        { field: "priority", operator: "eq", value: "Templado" },
+      ],
+      actions: [{ type: "set_field", field: "risk_level", value: "Alto" }],
+    }),
+    [
+      "Campo desconocido en la condición: amount",
+      'Prioridad: solo admite "es" o "no es"',
+      "Prioridad: valor desconocido: Templado",
+      "No se puede cambiar el campo risk_level",
+    ],
+  );
+
+  assert.equal(automationRunStatus([]), "success");
+  assert.equal(
+    automationRunStatus([
+      { type: "webhook", ok: false, detail: "500" },
+      { type: "log_timeline", ok: true, detail: "" },
+    ]),
+    "partial",
+  );
+  assert.equal(
+    describeAutomationRule(
+      {
+        trigger: "deal_created",
+        conditions: [{ field: "amount", operator: "gte", value: 10000 }],
+        actions: [{ type: "create_task", title: "Llamar", due_in_days: 1, priority: "Alta" }],
+      },
+      (key) => (key === "amount" ? "Importe" : key),
+    ),
+    "Deal creado, si Importe mayor o igual que 10000: crear tarea",
+  );
+});
+
+test("las reglas se validan al guardarlas", async () => {
+  const storage = new MemStorage();
+  await assert.rejects(
+    createAutomationRule(storage, {
+      name: "Asignar",
+      trigger: "deal_created",
+      actions: [{ type: "assign_owner", owner_id: "nadie" }],
+    }),
+    /Usuario desconocido: nadie/,
+  );
+  const rule = await createAutomationRule(storage, {
+    name: "Grandes",
+    trigger: "deal_created",
+    conditions: [{ field: "amount", operator: "gte", value: 10000 }],
+    actions: [{ type: "log_timeline", message: "Deal grande" }],
+  });
+  assert.equal(rule.enabled, true);
+  // Un contacto no tiene importe: cambiar solo el disparador deja la regla incoherente
+  await assert.rejects(
+    updateAutomationRule(storage, rule.id, { trigger: "contact_created" }),
+    /Campo desconocido en la condición: amount/,
+  );
+  assert.equal((await updateAutomationRule(storage, rule.id, { enabled: false })).enabled, false);
+  await deleteAutomationRule(storage, rule.id);
+  assert.deepEqual(await storage.getAutomationRules(), []);
+});
+
+test("un deal nuevo que cumple las condiciones crea la tarea, cambia de owner y lo anota", async () => {
+  const storage = new MemStorage();
+  const seller = await storage.createUser({ username: "ana", password: "x" });
+  const keyAccount = await storage.createUser({ username: "kam", password: "x", full_name: "Key Account" });
+  const rule = await createAutomationRule(storage, {
+    name: "Deals grandes al KAM",
+    trigger: "deal_created",
+    conditions: [{ field: "amount", operator: "gte", value: 10000 }],
+    actions: [
+      { type: "create_task", title: "Preparar propuesta", due_in_days: 2, priority: "Alta" },
+      { type: "assign_owner", owner_id: keyAccount.id },
+      { type: "log_timeline", message: "Deal grande: pasa al KAM" },
+    ],
+  });
+
+  const small = await createDeal(storage, dealInput({ title: "Pequeño", amount: 500 }), seller.id);
+  assert.equal(small.owner_id, seller.id);
+
+  const big = await createDeal(storage, dealInput({ title: "Grande", amount: 25000 }), seller.id);
+  assert.equal(big.owner_id, keyAccount.id);
+  const [task] = await storage.getTasks({ deal_id: big.id });
+  assert.equal(task.title, "Preparar propuesta");
+  assert.equal(task.priority, "Alta");
+  // La tarea se crea antes de reasignar: es del owner original
+  assert.equal(task.assigned_to, seller.id);
+
+  const entries = await storage.getTimelineEntries({ entity_type: "deal", entity_id: big.id });
+  assert.ok(entries.some((entry) => entry.type === "automation" && entry.description === "Deal grande: pasa al KAM"));
+
+  const runs = await listAutomationRuns(storage, rule.id);
+  assert.equal(runs.length, 1);
+  assert.equal(runs[0].entity_id, big.id);
+  assert.equal(runs[0].entity_label, "Grande");
+  assert.equal(runs[0].status, "success");
+  assert.deepEqual(
+    runs[0].results.map((result) => result.detail),
+    ["Tarea creada: Preparar propuesta", "Asignado a Key Account", "Entrada añadida al timeline"],
+  );
+  assert.ok((await storage.getAutomationRule(rule.id))?.last_run_at);
+});
+
+test("los cambios de etapa y estado disparan sus reglas una vez y sin encadenar otras", async () => {
+  const storage = new MemStorage();
+  const stageRule = await createAutomationRule(storage, {
+    name: "Negociación es riesgo alto",
+    trigger: "deal_stage_changed",
+    conditions: [{ field: "stage", operator: "eq", value: "Negociación" }],
+    actions: [
+      { type: "set_field", field: "next_step", value: "Revisar condiciones" },
+      // Cada edición recalcula riesgo y prioridad: lo que fija la regla va al final
+      { type: "set_field", field: "risk_level", value: "Alto" },
+    ],
+  });
+  const statusRule = await createAutomationRule(storage, {
+    name: "Ganado",
+    trigger: "deal_status_changed",
+    conditions: [{ field: "status", operator: "eq", value: "Won" }],
+    actions: [{ type: "log_timeline", message: "¡Ganado!" }],
+  });
+  const disabled = await createAutomationRule(storage, {
+    name: "Apagada",
+    trigger: "deal_stage_changed",
+    enabled: false,
+    actions: [{ type: "log_timeline", message: "No debería salir" }],
+  });
+
+  const deal = await createDeal(storage, dealInput({ title: "Renovación", amount: 8000 }), null);
+  await updateDeal(storage, deal.id, { stage: "Propuesta" });
+  assert.equal((await listAutomationRuns(storage, stageRule.id)).length, 0);
+
+  const negotiating = await updateDeal(storage, deal.id, { stage: "Negociación" });
+  assert.equal(negotiating.risk_level, "Alto");
+  assert.equal(negotiating.next_step, "Revisar condiciones");
+  // Los cambios de la regla no vuelven a disparar reglas: una sola ejecución
+  assert.equal((await listAutomationRuns(storage, stageRule.id)).length, 1);
+  assert.equal((await listAutomationRuns(storage, disabled.id)).length, 0);
+
+  await updateDeal(storage, deal.id, { status: "Won", close_reason: "Precio" });
+  const [run] = await listAutomationRuns(storage, statusRule.id);
+  assert.equal(run.status, "success");
+});
+
+test("los webhooks reciben el registro y sus fallos no tumban el cambio", async () => {
+  const received: unknown[] = [];
+  const server = createServer((req: IncomingMessage, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      if (req.url === "/roto") {
+        res.statusCode = 500;
+        res.end();
+        return;
+      }
+      received.push(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      res.end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const storage = new MemStorage();
+    const rule = await createAutomationRule(storage, {
+      name: "Avisar del lead",
+      trigger: "contact_created",
+      conditions: [{ field: "source", operator: "eq", value: "web" }],
+      actions: [
+        { type: "webhook", url: `http://127.0.0.1:${port}/roto` },
+        { type: "webhook", url: `http://127.0.0.1:${port}/leads` },
+        { type: "set_field", field: "priority", value: "Warm" },
+      ],
+    });
+
+    await createContact(storage, { name: "Sin origen" });
+    const contact = await createContact(storage, { name: "Lucía", source: "Web" });
+    assert.equal(contact.priority, "Warm");
+
+    const run = await settledRun(storage, rule.id);
+    assert.equal(received.length, 1);
+    const payload = received[0] as { rule: { name: string }; trigger: string; record: { id: string } };
+    assert.equal(payload.rule.name, "Avisar del lead");
+    assert.equal(payload.trigger, "contact_created");
+    assert.equal(payload.record.id, contact.id);
+
+    assert.equal(run.status, "partial");
+    assert.deepEqual(
+      run.results.map((result) => [result.ok, result.detail]),
+      [
+        [false, "El webhook respondió 500"],
+        [true, "Webhook 200"],
+        [true, "priority = Warm"],
+      ],
+    );
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test("un webhook lento no frena el cambio que dispara la regla", async () => {
+  const pending: Array<() => void> = [];
+  const server = createServer((_req, res) => {
+    pending.push(() => res.end("ok"));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const storage = new MemStorage();
+    const rule = await createAutomationRule(storage, {
+      name: "Avisar sin esperar",
+      trigger: "deal_created",
+      conditions: [],
+      actions: [
+        { type: "webhook", url: `http://127.0.0.1:${port}/lento` },
+        { type: "set_field", field: "priority", value: "Hot" },
+      ],
+    });
+
+    const deal = await createDeal(storage, dealInput({ title: "Rápido" }));
+    assert.equal(deal.priority, "Hot");
+    const [queued] = await listAutomationRuns(storage, rule.id);
+    assert.deepEqual(queued.results.map((result) => result.detail), [AUTOMATION_WEBHOOK_QUEUED, "priority = Hot"]);
+
+    while (!pending.length) await new Promise((resolve) => setTimeout(resolve, 10));
+    pending.forEach((respond) => respond());
+    const run = await settledRun(storage, rule.id);
+    assert.equal(run.status, "success");
+    assert.equal(run.results[0].detail, "Webhook 200");
+  } finally {
+    pending.forEach((respond) => respond());
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test("las tareas vencidas disparan cada regla una sola vez", async () => {
+  const storage = new MemStorage();
+  const rule = await createAutomationRule(storage, {
+    name: "Escalar vencidas",
+    trigger: "task_overdue",
+    conditions: [{ field: "priority", operator: "eq", value: "Alta" }],
+    actions: [
+      { type: "set_field", field: "priority", value: "Alta" },
+      { type: "create_task", title: "Revisar tarea vencida", due_in_days: 0, priority: "Alta" },
+    ],
+  });
+  const now = new Date();
+  const yesterday = new Date(now.getTime() - dayMs);
+  const overdue = await createTask(storage, { title: "Enviar contrato", priority: "Alta", due_at: yesterday });
+  await createTask(storage, { title: "Hecha", priority: "Alta", due_at: yesterday, state: "Done" });
+  await createTask(storage, { title: "Baja", priority: "Baja", due_at: yesterday });
+  await createTask(storage, { title: "Futura", priority: "Alta", due_at: inTenDays() });
+
+  const runs = await checkOverdueTasks(storage, now);
+  assert.deepEqual(
+    runs.map((run) => run.entity_id),
+    [overdue.id],
+  );
+  // La tarea creada por la regla vence ahora mismo, no antes: no cuenta como vencida
+  assert.deepEqual(await checkOverdueTasks(storage, now), []);
+  assert.equal((await listAutomationRuns(storage, rule.id)).length, 1);
+});
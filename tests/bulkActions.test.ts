@@ -0,0 +1,141 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { bulkPermission, describeBulkReport } from "../shared/bulkActions";
+import { MemStorage } from "../server/storage/memory";
+import { runBulkAction } from "../server/crm/bulk";
+import { createContact } from "../server/crm/contacts";
+import { createDeal } from "../server/crm/deals";
+import { createTask } from "../server/crm/tasks";
+
+const inTenDays = () => new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+const ALL = { kind: "all" } as const;
+
+async function seedDeals(storage: MemStorage, ownerId: string, titles: string[]) {
+  const deals = [];
+  for (const title of titles) {
+    deals.push(await createDeal(storage, { title, next_step: "Llamar", target_close_date: inTenDays() }, ownerId));
+  }
+  return deals;
+}
+
+test("reasigna deals en una operación con una entrada de timeline por registro", async () => {
+  const storage = new MemStorage();
+  const leaving = await storage.createUser({ username: "sale", password: "x", full_name: "Rep saliente" });
+  const heir = await storage.createUser({ username: "entra", password: "x", full_name: "Rep entrante" });
+  const deals = await seedDeals(storage, leaving.id, ["Uno", "Dos", "Tres"]);
+
+  const report = await runBulkAction(
+    storage,
+    "deals",
+    {
+      ids: [...deals.map((deal) => deal.id), deals[0].id, "no-existe"],
+      action: { type: "set_owner", owner_id: heir.id },
+    },
+    { actorId: heir.id, scope: ALL },
+  );
+
+  assert.equal(report.total, 4);
+  assert.equal(report.succeeded, 3);
+  assert.equal(report.results[3].error, "Deal not found");
+  assert.equal(describeBulkReport(report), "3 de 4 registros procesados; 1 con error");
+  for (const deal of await storage.getDeals()) assert.equal(deal.owner_id, heir.id);
+
+  const entries = await storage.getTimelineEntries({ entity_type: "deal", entity_id: deals[1].id });
+  const bulkEntries = entries.filter((entry) => entry.type === "bulk_updated");
+  assert.equal(bulkEntries.length, 1);
+  assert.equal(entries.filter((entry) => entry.type === "deal_updated").length, 0);
+  const metadata = JSON.parse(bulkEntries[0].metadata!);
+  assert.equal(metadata.bulk_id, report.bulk_id);
+  assert.deepEqual(metadata.changes, ["Owner: Rep saliente → Rep entrante"]);
+});
+
+test("cierra deals con un motivo compartido y valida la acción antes de empezar", async () => {
+  const storage = new MemStorage();
+  const deals = await seedDeals(storage, "owner", ["Uno", "Dos"]);
+  const ids = deals.map((deal) => deal.id);
+  const context = { actorId: null, scope: ALL };
+
+  await assert.rejects(
+    runBulkAction(storage, "deals", { ids, action: { type: "set_status", status: "Lost" } }, context),
+    /motivo de cierre/,
+  );
+  await assert.rejects(
+    runBulkAction(storage, "companies", { ids, action: { type: "set_stage", stage: "Propuesta" } }, context),
+    /no está disponible/,
+  );
+
+  const report = await runBulkAction(
+    storage,
+    "deals",
+    { ids, action: { type: "set_status", status: "Lost", close_reason: "Presupuesto congelado" } },
+    context,
+  );
+  assert.equal(report.failed, 0);
+  for (const deal of await storage.getDeals()) {
+    assert.equal(deal.status, "Lost");
+    assert.equal(deal.close_reason, "Presupuesto congelado");
+  }
+});
+
+test("crea tareas de seguimiento para el owner y borra fuera del alcance solo lo permitido", async () => {
+  const storage = new MemStorage();
+  const [deal] = await seedDeals(storage, "ana", ["Renovación"]);
+  const contact = await createContact(storage, { name: "Lucía" }, "bruno");
+  const scope = { kind: "owners", ownerIds: ["ana"] } as const;
+
+  const followUp = await runBulkAction(
+    storage,
+    "deals",
+    { ids: [deal.id], action: { type: "create_task", title: "Revisar propuesta", priority: "Alta" } },
+    { actorId: "manager", scope },
+  );
+  assert.equal(followUp.succeeded, 1);
+  const [task] = await storage.getTasks({ deal_id: deal.id });
+  assert.equal(task.assigned_to, "ana");
+  assert.equal(task.priority, "Alta");
+  const [entry] = await storage.getTimelineEntries({ entity_type: "deal", entity_id: deal.id, limit: 1 });
+  assert.equal(JSON.parse(entry.metadata!).task_id, task.id);
+
+  const removed = await runBulkAction(
+    storage,
+    "contacts",
+    { ids: [contact.id], action: { type: "delete" } },
+    { actorId: "manager", scope },
+  );
+  assert.equal(removed.failed, 1);
+  assert.ok(await storage.getContact(contact.id));
+
+  const other = await createTask(storage, { title: "Llamar" });
+  const tasks = await runBulkAction(
+    storage,
+    "tasks",
+    { ids: [task.id, other.id], action: { type: "set_status", status: "Done" } },
+    { actorId: null, scope: ALL },
+  );
+  assert.equal(tasks.succeeded, 2);
+  assert.ok((await storage.getTask(other.id))?.completed_at);
+});
+
+test("los fallos inesperados de un registro no llegan al cliente y etiquetar pide permiso de edición", async (t) => {
+  const storage = new MemStorage();
+  const owner = await storage.createUser({ username: "ines", password: "x" });
+  const [deal] = await seedDeals(storage, owner.id, ["Roto"]);
+  t.mock.method(storage, "updateDeal", async () => {
+    throw new Error('relation "deals" does not exist');
+  });
+  const logged = t.mock.method(console, "error", () => {});
+
+  const report = await runBulkAction(
+    storage,
+    "deals",
+    { ids: [deal.id], action: { type: "set_priority", priority: "Hot" } },
+    { actorId: owner.id, scope: ALL },
+  );
+  assert.deepEqual(report.results, [{ id: deal.id, ok: false, error: "No se pudo procesar el registro" }]);
+  assert.equal(logged.mock.callCount(), 1);
+
+  assert.equal(bulkPermission("companies", "add_tag"), "companies:update");
+  assert.equal(bulkPermission("deals", "remove_tag"), "deals:update");
+  assert.equal(bulkPermission("tasks", "add_tag"), null);
+});
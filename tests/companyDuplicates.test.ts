@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { ensureCompanyByName, listCompanyDuplicateGroups, mergeCompanies } from "../server/crm/companies";
+import { createContact } from "../server/crm/contacts";
+import { getCompanyDomain, groupCompanyDuplicates, normalizeCompanyName } from "../shared/companyDuplicates";
+
+test("normaliza nombres de empresa y dominios", () => {
+  for (const name of ["Acme", "ACME S.L.", "Acme SL", "Acme, S. L.", "Ácme s.l.u.", "Acme Sociedad Limitada"]) {
+    assert.equal(normalizeCompanyName(name), "acme", name);
+  }
+  assert.equal(normalizeCompanyName("Globex Inc."), "globex");
+  // Una forma jurídica sola no se elimina
+  assert.equal(normalizeCompanyName("SA"), "sa");
+  assert.equal(getCompanyDomain("https://www.acme.com/about"), "acme.com");
+  assert.equal(getCompanyDomain("http://Acme.COM:8080"), "acme.com");
+  assert.equal(getCompanyDomain("n/a"), "");
+
+  const groups = groupCompanyDuplicates([
+    { id: "1", name: "Acme" },
+    { id: "2", name: "Industrias Acme", website: "acme.com" },
+    { id: "3", name: "ACME S.L.", website: "https://www.acme.com" },
+    { id: "4", name: "Globex" },
+  ]);
+  assert.equal(groups.length, 1);
+  assert.deepEqual(
+    groups[0].companies.map((company) => company.id),
+    ["1", "2", "3"],
+  );
+  assert.deepEqual(groups[0].reasons.sort(), ["domain", "name"]);
+});
+
+test("ensureCompanyByName reutiliza la empresa con el mismo nombre normalizado", async () => {
+  const storage = new MemStorage();
+  const acme = await ensureCompanyByName(storage, "Acme");
+  assert.equal((await ensureCompanyByName(storage, "ACME S.L.")).id, acme.id);
+  assert.equal((await ensureCompanyByName(storage, "Acme SL")).id, acme.id);
+  assert.equal((await storage.getCompanies()).length, 1);
+});
+
+test("mergeCompanies mueve contactos y reescribe el nombre en los deals", async () => {
+  const storage = new MemStorage();
+  const survivor = await storage.createCompany({ name: "Acme" });
+  const duplicate = await storage.createCompany({ name: "ACME S.L.", website: "acme.com", location: "Madrid" });
+  const contact = await createContact(storage, { name: "Ana Gil", company_id: duplicate.id });
+  const deal = await storage.createDeal({ title: "Renovación", company: "Acme SL" });
+  const other = await storage.createDeal({ title: "Otro", company: "Globex" });
+
+  assert.deepEqual((await listCompanyDuplicateGroups(storage))[0].reasons, ["name"]);
+
+  const result = await mergeCompanies(
+    storage,
+    survivor.id,
+    { merge_ids: [duplicate.id], fields: { name: duplicate.id } },
+    null,
+  );
+  assert.equal(result.company.name, "ACME S.L.");
+  // Los huecos de la superviviente se rellenan con los de la duplicada
+  assert.equal(result.company.website, "acme.com");
+  assert.equal(result.company.location, "Madrid");
+  assert.equal(result.contacts, 1);
+  assert.equal(result.deals, 1);
+  assert.equal((await storage.getContact(contact.id))?.company_id, survivor.id);
+  assert.equal((await storage.getDeal(deal.id))?.company, "ACME S.L.");
+  assert.equal((await storage.getDeal(other.id))?.company, "Globex");
+  assert.equal(await storage.getCompany(duplicate.id), undefined);
+
+  const entries = await storage.getTimelineEntries({ entity_type: "company", entity_id: survivor.id });
+  const merge = entries.find((entry) => entry.type === "company_merged");
+  assert.deepEqual(JSON.parse(merge!.metadata!).merged_ids, [duplicate.id]);
+
+  await assert.rejects(mergeCompanies(storage, survivor.id, { merge_ids: [survivor.id] }), /consigo misma/);
+  await assert.rejects(mergeCompanies(storage, survivor.id, { merge_ids: [duplicate.id] }), /Company not found/);
+});
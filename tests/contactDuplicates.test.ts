@@ -0,0 +1,104 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { createContact, listDuplicateGroups, mergeContacts } from "../server/crm/contacts";
+import {
+  findContactDuplicates,
+  groupContactDuplicates,
+  namesLookAlike,
+  normalizeEmail,
+  normalizePhone,
+} from "../shared/contactDuplicates";
+
+test("normaliza email, teléfono y nombre para detectar duplicados", () => {
+  assert.equal(normalizeEmail("  Ana.Gil+crm@Acme.ES "), "ana.gil@acme.es");
+  assert.equal(normalizePhone("+34 600 12 34 56"), "600123456");
+  assert.equal(normalizePhone("0034-600-123-456"), "600123456");
+  assert.equal(normalizePhone("ext. 12"), "");
+  assert.ok(namesLookAlike("Pérez, Juan", "juan perez"));
+  assert.ok(namesLookAlike("Jose Martinez", "José Martínes"));
+  assert.ok(!namesLookAlike("Juan Pérez", "Juana Gómez"));
+
+  const contacts = [
+    { id: "1", name: "Ana Gil", email: "ana@acme.es", company: "ACME" },
+    { id: "2", name: "Luis Sanz", phone: "600 123 456", company: "Globex" },
+    { id: "3", name: "Ana  Gil", company: "Acme" },
+  ];
+  const matches = findContactDuplicates({ name: "ana gil", email: "ANA+x@acme.es", company: "acme" }, contacts);
+  assert.deepEqual(
+    matches.map((match) => [match.contact.id, match.reasons]),
+    [
+      ["1", ["email", "name_company"]],
+      ["3", ["name_company"]],
+    ],
+  );
+  // Mismo nombre sin empresa común no basta
+  assert.deepEqual(findContactDuplicates({ name: "Luis Sanz", company: "Initech" }, contacts), []);
+  assert.deepEqual(findContactDuplicates({ name: "Otro", phone: "+34600123456" }, contacts, "2"), []);
+});
+
+test("agrupa duplicados de forma transitiva", () => {
+  const groups = groupContactDuplicates([
+    { id: "a", name: "Ana Gil", email: "ana@acme.es", company: "Acme" },
+    { id: "b", name: "Ana G.", email: "ana@acme.es", phone: "600123456" },
+    { id: "c", name: "A. Gil", phone: "+34 600 123 456" },
+    { id: "d", name: "Ana Gil", company: "Globex" },
+    { id: "e", name: "Luis Sanz", company: "Globex" },
+  ]);
+  assert.equal(groups.length, 1);
+  assert.deepEqual(
+    groups[0].contacts.map((contact) => contact.id),
+    ["a", "b", "c"],
+  );
+  assert.deepEqual(groups[0].reasons.sort(), ["email", "phone"]);
+});
+
+test("mergeContacts elige los campos y registra la fusión", async () => {
+  const storage = new MemStorage();
+  const owner = await storage.createUser({ username: "ana", password: "x" });
+  const survivor = await createContact(storage, { name: "Ana Gil", company: "Acme" });
+  const duplicate = await createContact(storage, {
+    name: "Ana Gil Ruiz",
+    email: "ana@acme.es",
+    phone: "600123456",
+    owner_id: owner.id,
+  });
+  await storage.updateContact(duplicate.id, { last_activity: new Date("2024-05-01T00:00:00Z") });
+
+  assert.deepEqual(
+    (await listDuplicateGroups(storage)).map((group) => group.contacts.length),
+    [],
+    "sin email, teléfono ni empresa en común no son duplicados",
+  );
+  await storage.updateContact(survivor.id, { email: "ANA@acme.es" });
+  assert.deepEqual((await listDuplicateGroups(storage))[0].reasons, ["email"]);
+
+  const result = await mergeContacts(
+    storage,
+    survivor.id,
+    { merge_ids: [duplicate.id], fields: { name: duplicate.id, email: duplicate.id } },
+    owner.id,
+  );
+  assert.equal(result.contact.name, "Ana Gil Ruiz");
+  assert.equal(result.contact.email, "ana@acme.es");
+  // Los huecos del superviviente se rellenan con los del duplicado
+  assert.equal(result.contact.phone, "600123456");
+  assert.equal(result.contact.owner_id, owner.id);
+  assert.equal(result.contact.company, "Acme");
+  assert.equal(result.contact.last_activity?.toISOString(), "2024-05-01T00:00:00.000Z");
+  assert.equal(result.merged, 1);
+
+  const entries = await storage.getTimelineEntries({ entity_type: "contact", entity_id: survivor.id });
+  const merge = entries.find((entry) => entry.type === "contact_merged");
+  assert.deepEqual(JSON.parse(merge!.metadata!).merged_ids, [duplicate.id]);
+
+  await assert.rejects(mergeContacts(storage, survivor.id, { merge_ids: [survivor.id] }), /consigo mismo/);
+  await assert.rejects(mergeContacts(storage, survivor.id, { merge_ids: [duplicate.id] }), /Contact not found/);
+  const other = await createContact(storage, { name: "Luis" });
+  await assert.rejects(
+    mergeContacts(storage, survivor.id, { merge_ids: [other.id], fields: { name: "otro" } }),
+    /debe salir de uno de los contactos/,
+  );
+  assert.ok(await storage.getContact(other.id));
+});
@@ -0,0 +1,209 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { createDeal, updateDeal, deleteDeal } from "../server/crm/deals";
+import { createContact } from "../server/crm/contacts";
+import {
+  deleteCompany,
+  getCompanyOverview,
+  linkDealsToCompanies,
+  listCompanyRollups,
+  updateCompany,
+} from "../server/crm/companies";
+import { createTask, updateTask } from "../server/crm/tasks";
+
+const inTenDays = () => new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+
+test("createDeal exige próximo paso y fecha objetivo", async () => {
+  const storage = new MemStorage();
+
+  await assert.rejects(
+    createDeal(storage, { title: "Sin paso", target_close_date: inTenDays() }),
+    /NEXT_STEP_REQUIRED/,
+  );
+  await assert.rejects(
+    createDeal(storage, { title: "Sin fecha", next_step: "Llamar" }),
+    /TARGET_CLOSE_REQUIRED/,
+  );
+  assert.equal((await storage.getDeals()).length, 0);
+});
+
+test("createDeal infiere probabilidad y registra el timeline", async () => {
+  const storage = new MemStorage();
+  const deal = await createDeal(storage, {
+    title: "Licencias",
+    amount: 60000,
+    stage: "Propuesta",
+    next_step: "  Enviar propuesta  ",
+    target_close_date: inTenDays(),
+  });
+
+  assert.equal(deal.status, "Open");
+  assert.equal(deal.next_step, "Enviar propuesta");
+  assert.equal(deal.probability, 70);
+  assert.equal(deal.priority, "Hot");
+
+  const timeline = await storage.getTimelineEntries({ entity_type: "deal", entity_id: deal.id });
+  assert.equal(timeline[0]?.type, "deal_created");
+});
+
+test("updateDeal cierra el deal solo con motivo y lo mueve a Cierre", async () => {
+  const storage = new MemStorage();
+  const deal = await createDeal(storage, {
+    title: "Renovación",
+    next_step: "Negociar",
+    target_close_date: inTenDays(),
+  });
+
+  await assert.rejects(updateDeal(storage, deal.id, { status: "Won" }), /CLOSE_REASON_REQUIRED/);
+
+  const won = await updateDeal(storage, deal.id, { status: "Won", close_reason: "Precio" });
+  assert.equal(won.stage, "Cierre");
+  assert.equal(won.close_reason, "Precio");
+
+  const [entry] = await storage.getTimelineEntries({ entity_id: deal.id, limit: 1 });
+  const metadata = JSON.parse(entry?.metadata ?? "{}");
+  assert.ok(metadata.changes.some((change: string) => change.startsWith("Etapa:")));
+});
+
+test("updateDeal borra el motivo de cierre al reabrir o con null explícito", async () => {
+  const storage = new MemStorage();
+  const deal = await createDeal(storage, {
+    title: "Ampliación",
+    next_step: "Negociar",
+    target_close_date: inTenDays(),
+  });
+  await updateDeal(storage, deal.id, { status: "Lost", close_reason: "Presupuesto" });
+
+  await assert.rejects(updateDeal(storage, deal.id, { close_reason: null }), /CLOSE_REASON_REQUIRED/);
+  assert.equal((await storage.getDeal(deal.id))?.close_reason, "Presupuesto");
+
+  const reopened = await updateDeal(storage, deal.id, { status: "Open", close_reason: null });
+  assert.equal(reopened.status, "Open");
+  assert.equal(reopened.close_reason, null);
+
+  const won = await updateDeal(storage, deal.id, { status: "Won", close_reason: "Precio" });
+  assert.equal(won.close_reason, "Precio");
+  const reopenedAgain = await updateDeal(storage, deal.id, { status: "Open" });
+  assert.equal(reopenedAgain.close_reason, null);
+});
+
+test("createContact vincula la empresa por nombre sin duplicarla", async () => {
+  const storage = new MemStorage();
+  const first = await createContact(storage, { name: "Ana", company: "Acme" });
+  const second = await createContact(storage, { name: "Luis", company: "acme" });
+
+  assert.equal(first.company, "Acme");
+  assert.equal(second.company_id, first.company_id);
+  assert.equal((await storage.getCompanies()).length, 1);
+});
+
+test("deleteDeal desvincula tareas y updateTask marca completed_at", async () => {
+  const storage = new MemStorage();
+  const deal = await createDeal(storage, { title: "Deal", next_step: "Demo", target_close_date: inTenDays() });
+  const task = await createTask(storage, { title: "Preparar demo", deal_id: deal.id });
+
+  const done = await updateTask(storage, task.id, { state: "Done" });
+  assert.ok(done.completed_at instanceof Date);
+
+  await deleteDeal(storage, deal.id);
+  assert.equal((await storage.getTask(task.id))?.deal_id, null);
+});
+
+test("los deals se vinculan a su empresa por company_id y siguen sus cambios", async () => {
+  const storage = new MemStorage();
+  const acme = await storage.createCompany({ name: "Acme" });
+  const base = { next_step: "Llamar", target_close_date: inTenDays() };
+
+  // Por nombre se enlaza con la empresa equivalente; sin coincidencia se crea
+  const byName = await createDeal(storage, { ...base, title: "Licencias", company: "ACME S.L.", amount: 1000 });
+  assert.equal(byName.company_id, acme.id);
+  assert.equal(byName.company, "Acme");
+  const created = await createDeal(storage, { ...base, title: "Piloto", company: "Globex" });
+  assert.ok(created.company_id);
+  assert.equal((await storage.getCompany(created.company_id!))?.name, "Globex");
+
+  // company_id manda sobre el texto
+  const byId = await createDeal(storage, {
+    ...base,
+    title: "Soporte",
+    company: "Otra",
+    company_id: acme.id,
+    amount: 500,
+  });
+  assert.equal(byId.company, "Acme");
+  await assert.rejects(createDeal(storage, { ...base, title: "X", company_id: "nope" }), /Empresa desconocida/);
+
+  await updateDeal(storage, byId.id, { status: "Won", close_reason: "Precio" });
+  assert.deepEqual(
+    (await listCompanyRollups(storage)).find((rollup) => rollup.company_id === acme.id),
+    { company_id: acme.id, deal_count: 2, open_count: 1, open_pipeline: 1000, won_revenue: 500 },
+  );
+
+  await updateCompany(storage, acme.id, { name: "Acme Corp" });
+  assert.equal((await storage.getDeal(byName.id))?.company, "Acme Corp");
+
+  const unlinked = await updateDeal(storage, byName.id, { company_id: null });
+  assert.equal(unlinked.company_id, null);
+  assert.equal(unlinked.company, null);
+
+  await deleteCompany(storage, acme.id);
+  const orphan = await storage.getDeal(byId.id);
+  assert.equal(orphan?.company_id, null);
+  assert.equal(orphan?.company, "Acme Corp");
+});
+
+test("linkDealsToCompanies enlaza los deals antiguos sin crear empresas", async () => {
+  const storage = new MemStorage();
+  const acme = await storage.createCompany({ name: "Acme" });
+  const legacy = await storage.createDeal({ title: "Antiguo", company: "ACME, S.L." });
+  const unknown = await storage.createDeal({ title: "Sin empresa", company: "Initech" });
+
+  assert.equal(await linkDealsToCompanies(storage), 1);
+  assert.equal((await storage.getDeal(legacy.id))?.company_id, acme.id);
+  assert.equal((await storage.getDeal(unknown.id))?.company_id, null);
+  assert.equal((await storage.getCompanies()).length, 1);
+  assert.equal(await linkDealsToCompanies(storage), 0);
+});
+
+test("getCompanyOverview junta contactos, deals, tareas y actividad de la empresa", async () => {
+  const storage = new MemStorage();
+  const base = { next_step: "Llamar", target_close_date: inTenDays() };
+  const ana = await createContact(storage, { name: "Ana", company: "Acme", position: "CTO" }, "u1");
+  const acmeId = ana.company_id!;
+  const open = await createDeal(storage, { ...base, title: "Licencias", company_id: acmeId, amount: 1000 }, "u1");
+  const won = await createDeal(storage, { ...base, title: "Soporte", company_id: acmeId, amount: 500 }, "u1");
+  await updateDeal(storage, won.id, { status: "Won", close_reason: "Precio" });
+  const foreign = await createDeal(storage, { ...base, title: "Ajeno", company_id: acmeId, amount: 9000 }, "u2");
+  await createDeal(storage, { ...base, title: "Otra empresa", company: "Globex" }, "u1");
+  const dealTask = await createTask(storage, { title: "Preparar demo", deal_id: open.id });
+  const contactTask = await createTask(storage, { title: "Llamar a Ana", contact_id: ana.id });
+  await createTask(storage, { title: "Sin relación" });
+  await createTask(storage, { title: "Del deal ajeno", deal_id: foreign.id });
+
+  const overview = await getCompanyOverview(storage, acmeId, { owner_ids: ["u1"] });
+  assert.equal(overview.company.name, "Acme");
+  assert.deepEqual(overview.contacts.map((contact) => [contact.name, contact.position, contact.company]), [
+    ["Ana", "CTO", "Acme"],
+  ]);
+  assert.deepEqual(overview.deals.map((deal) => deal.title).sort(), ["Licencias", "Soporte"]);
+  assert.deepEqual(overview.tasks.map((task) => task.id).sort(), [dealTask.id, contactTask.id].sort());
+  assert.deepEqual(overview.rollup, {
+    company_id: acmeId,
+    deal_count: 2,
+    open_count: 1,
+    open_pipeline: 1000,
+    won_revenue: 500,
+  });
+
+  const sources = new Set(overview.timeline.map((entry) => entry.entity_id));
+  assert.ok(sources.has(ana.id) && sources.has(open.id) && sources.has(won.id) && sources.has(dealTask.id));
+  assert.ok(!sources.has(foreign.id));
+  const times = overview.timeline.map((entry) => entry.created_at?.getTime() ?? 0);
+  assert.deepEqual(times, [...times].sort((a, b) => b - a));
+
+  // Sin alcance se ven también los deals de otros propietarios
+  assert.equal((await getCompanyOverview(storage, acmeId)).deals.length, 3);
+  await assert.rejects(getCompanyOverview(storage, "nope"), /Company not found/);
+});
@@ -0,0 +1,202 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  applyCustomFieldValues,
+  describeCustomFields,
+  diffCustomFieldValues,
+  matchesCustomFieldFilter,
+  type CustomFieldDefinition,
+} from "../shared/customFields";
+import { getImportFields, guessImportMapping, normalizeImportRow } from "../shared/imports";
+import { buildCsv, matchesCompanyFilters, resolveExportColumns } from "../shared/exports";
+import { MemStorage } from "../server/storage/memory";
+import { prepareExport } from "../server/crm/exports";
+import { createCompany, updateCompany } from "../server/crm/companies";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import {
+  createCustomField,
+  deleteCustomField,
+  reorderCustomFields,
+  updateCustomField,
+} from "../server/crm/customFields";
+
+const inTenDays = () => new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+
+const field = (key: string, type: CustomFieldDefinition["type"], options: string[] = []): CustomFieldDefinition => ({
+  key,
+  label: key[0].toUpperCase() + key.slice(1),
+  type,
+  options,
+});
+
+const FIELDS = [
+  field("sector", "select", ["Fintech", "Retail"]),
+  field("canales", "multiselect", ["Email", "Teléfono", "Evento"]),
+  field("empleados", "number"),
+  field("presupuesto", "currency"),
+  field("renovacion", "date"),
+  field("partner", "boolean"),
+  field("linkedin", "url"),
+];
+
+test("los valores se normalizan por tipo y los errores salen juntos", () => {
+  const { values, errors } = applyCustomFieldValues(FIELDS, {
+    sector: "fintech",
+    canales: ["evento", "Email", "email"],
+    empleados: "250",
+    presupuesto: 1234.567,
+    renovacion: "2026-03-31",
+    partner: "true",
+    linkedin: "linkedin.com/company/acme",
+  });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(values, {
+    sector: "Fintech",
+    canales: ["Email", "Evento"],
+    empleados: 250,
+    presupuesto: 1234.57,
+    renovacion: "2026-03-31",
+    partner: true,
+    linkedin: "https://linkedin.com/company/acme",
+  });
+
+  // Solo cambian las claves que llegan; null o "" borran
+  const next = applyCustomFieldValues(FIELDS, { sector: null, empleados: "" }, values);
+  assert.equal("sector" in next.values, false);
+  assert.equal("empleados" in next.values, false);
+  assert.equal(next.values.partner, true);
+
+  const invalid = applyCustomFieldValues(FIELDS, {
+    sector: "Salud",
+    renovacion: "2026-02-31",
+    linkedin: "javascript:alert(1)",
+    otro: "x",
+  });
+  assert.deepEqual(invalid.errors, [
+    "Sector: opción desconocida: Salud",
+    "Renovacion: fecha no válida: 2026-02-31 (AAAA-MM-DD)",
+    "Linkedin: URL no válida: javascript:alert(1)",
+    "Campo personalizado desconocido: otro",
+  ]);
+});
+
+test("el filtro por campo admite rangos, opciones y Sí/No", () => {
+  const values = { sector: "Fintech", canales: ["Email"], empleados: 250, renovacion: "2026-03-31", partner: true };
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "sector:fintech"), true);
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "canales:Evento"), false);
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "empleados:100..300"), true);
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "empleados:300.."), false);
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "renovacion:..2026-03-31"), true);
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "partner:false"), false);
+  assert.equal(matchesCustomFieldFilter({}, FIELDS, "partner:false"), true);
+  assert.equal(matchesCustomFieldFilter({}, FIELDS, "sector:Retail"), false);
+  // Un campo borrado no deja el listado vacío
+  assert.equal(matchesCustomFieldFilter(values, FIELDS, "borrado:x"), true);
+  assert.equal(
+    matchesCompanyFilters({ name: "Acme", custom_fields: values }, { custom_field: "sector:Retail" }, FIELDS),
+    false,
+  );
+});
+
+test("el formulario solo manda los campos que cambian", () => {
+  const saved = { sector: "Fintech", empleados: 250, canales: ["Email"] };
+  assert.equal(diffCustomFieldValues(FIELDS, saved, { ...saved, empleados: "250" }), undefined);
+  assert.deepEqual(diffCustomFieldValues(FIELDS, saved, { ...saved, sector: "", partner: false }), {
+    sector: "",
+    partner: false,
+  });
+  assert.deepEqual(describeCustomFields(FIELDS, { partner: false, empleados: 1500 }), [
+    { label: "Empleados", value: "1500" },
+    { label: "Partner", value: "No" },
+  ]);
+});
+
+test("la importación asigna y valida las columnas de campos personalizados", () => {
+  assert.equal(getImportFields("companies", FIELDS).find((item) => item.key === "cf.sector")?.label, "Sector");
+  // Las columnas fijas tienen preferencia: "Sector" sigue siendo la industria
+  assert.deepEqual(guessImportMapping("companies", ["Nombre", "Sector", "Canales", "Partner"], FIELDS), {
+    Nombre: "name",
+    Sector: "industry",
+    Canales: "cf.canales",
+    Partner: "cf.partner",
+  });
+
+  const row = normalizeImportRow(
+    "companies",
+    { name: "Acme", "cf.empleados": "1.500", "cf.partner": "Sí", "cf.canales": "Email; evento", "cf.sector": "Salud" },
+    FIELDS,
+  );
+  assert.deepEqual(row.custom_fields, { empleados: 1500, partner: true, canales: ["Email", "Evento"] });
+  assert.deepEqual(row.errors, [{ field: "cf.sector", message: "Sector: opción desconocida: Salud" }]);
+});
+
+test("la exportación añade una columna por campo, en el orden de las definiciones", () => {
+  const columns = resolveExportColumns("companies", ["name", "cf.presupuesto", "cf.canales"], FIELDS);
+  const csv = buildCsv(
+    columns,
+    [{ name: "Acme", custom_fields: { presupuesto: 1200.5, canales: ["Email", "Evento"] } }],
+    { now: new Date(), language: "es" },
+  );
+  assert.deepEqual(csv.trim().split("\r\n"), ["Nombre;Canales;Presupuesto", "Acme;Email, Evento;1200,5"]);
+});
+
+test("el admin define campos y los deals guardan valores validados", async () => {
+  const storage = new MemStorage();
+  const tier = await createCustomField(storage, {
+    entity: "deals",
+    label: "Nivel",
+    type: "select",
+    options: ["A", "B"],
+  });
+  assert.equal(tier.key, "nivel");
+  const seats = await createCustomField(storage, { entity: "deals", label: "Licencias", type: "number" });
+  await assert.rejects(createCustomField(storage, { entity: "deals", label: "Nivel", type: "text" }), /Ya existe/);
+  await assert.rejects(
+    createCustomField(storage, { entity: "deals", label: "Sin opciones", type: "select" }),
+    /al menos una opción/,
+  );
+
+  const deal = await createDeal(
+    storage,
+    { title: "Renovación", next_step: "Llamar", target_close_date: inTenDays(), custom_fields: { nivel: "a" } },
+    null,
+  );
+  assert.deepEqual(deal.custom_fields, { nivel: "A" });
+  await assert.rejects(updateDeal(storage, deal.id, { custom_fields: { licencias: "muchas" } }), /número no válido/);
+
+  const updated = await updateDeal(storage, deal.id, { custom_fields: { licencias: 40 } });
+  assert.deepEqual(updated.custom_fields, { nivel: "A", licencias: 40 });
+
+  // Las opciones retiradas se quedan en los registros hasta que se editen
+  await updateCustomField(storage, tier.id, { options: ["B", "C"] });
+  assert.equal((await storage.getDeal(deal.id))?.custom_fields.nivel, "A");
+
+  const reordered = await reorderCustomFields(storage, [seats.id, tier.id]);
+  assert.deepEqual(reordered.map((item) => item.key), ["licencias", "nivel"]);
+  await assert.rejects(reorderCustomFields(storage, [seats.id]), /todos los campos/);
+
+  await deleteCustomField(storage, tier.id);
+  assert.deepEqual((await storage.getDeal(deal.id))?.custom_fields, { licencias: 40 });
+});
+
+test("la exportación y los filtros del servidor usan los campos de la entidad", async () => {
+  const storage = new MemStorage();
+  await createCustomField(storage, { entity: "companies", label: "Sector", type: "select", options: ["Fintech"] });
+  const acme = await createCompany(storage, { name: "Acme", custom_fields: { sector: "Fintech" } });
+  await createCompany(storage, { name: "Beta" });
+  await assert.rejects(updateCompany(storage, acme.id, { custom_fields: { sector: "Otro" } }), /opción desconocida/);
+
+  const prepared = await prepareExport(storage, {
+    entity: "companies",
+    format: "csv",
+    language: "es",
+    columns: ["name", "cf.sector"],
+    filters: { custom_field: "sector:fintech" },
+  });
+  assert.equal(prepared.rows, 1);
+  await assert.rejects(
+    prepareExport(storage, { entity: "companies", format: "csv", language: "es", columns: ["cf.nope"], filters: {} }),
+    /Columnas desconocidas: cf.nope/,
+  );
+});
@@ -0,0 +1,504 @@
+import test, { after, before } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import path from "path";
+
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+
+import * as schema from "@shared/schema";
+import { DatabaseStorage } from "../server/storage/database";
+import { createDeal, deleteDeal, updateDeal } from "../server/crm/deals";
+import { createContact, deleteContact, mergeContacts } from "../server/crm/contacts";
+import { deleteCompany, mergeCompanies } from "../server/crm/companies";
+import { createImportJob, startImportJob } from "../server/crm/imports";
+import { createSavedView, deleteSavedView, listSavedViews, setDefaultSavedView } from "../server/crm/savedViews";
+import { createPipeline, deletePipeline, getDefaultPipeline } from "../server/crm/pipelines";
+import { createCustomField, deleteCustomField, reorderCustomFields } from "../server/crm/customFields";
+import { createTag, deleteTag, updateTag } from "../server/crm/tags";
+import { createAutomationRule, deleteAutomationRule, listAutomationRuns } from "../server/crm/automations";
+import { listPipelineStages, updatePipelineStage } from "../server/crm/pipelineStages";
+import { checkSlaBreaches } from "../server/crm/slaPolicies";
+import { syncDealAlerts, updateDealAlertState } from "../server/crm/dealAlerts";
+import { createTask } from "../server/crm/tasks";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+let client: PGlite;
+let storage: DatabaseStorage;
+
+before(async () => {
+  client = new PGlite();
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+  storage = new DatabaseStorage(db);
+});
+
+after(async () => {
+  await client.close();
+});
+
+// Va primero: necesita la tabla de usuarios vacía
+test("DatabaseStorage registra como Admin solo a la primera cuenta aunque lleguen a la vez", async () => {
+  const registered = await Promise.all(
+    ["primera", "segunda", "tercera"].map((username) =>
+      storage.registerUser({ username, password: "x", role: "Usuario" }),
+    ),
+  );
+  assert.deepEqual(registered.map((user) => user.role).sort(), ["Admin", "Usuario", "Usuario"]);
+});
+
+test("DatabaseStorage aplica las reglas de deals y persiste importes numéricos", async () => {
+  await assert.rejects(
+    createDeal(storage, { title: "Sin paso", target_close_date: new Date(Date.now() + 10 * dayMs) }),
+    /NEXT_STEP_REQUIRED/,
+  );
+
+  const deal = await createDeal(storage, {
+    title: "Licencias PG",
+    company: "Postgres Corp",
+    amount: 60000,
+    stage: "Propuesta",
+    next_step: "Enviar propuesta",
+    target_close_date: new Date(Date.now() + 10 * dayMs),
+  });
+  assert.equal(deal.amount, 60000);
+  assert.equal(deal.probability, 70);
+  assert.ok(deal.created_at instanceof Date);
+
+  const closed = await updateDeal(storage, deal.id, { status: "Won", close_reason: "Precio" });
+  assert.equal(closed.stage, "Cierre");
+
+  const timeline = await storage.getTimelineEntries({ entity_type: "deal", entity_id: deal.id });
+  assert.deepEqual(
+    timeline.map((entry) => entry.type).sort(),
+    ["deal_created", "deal_updated"],
+  );
+
+  assert.equal(await storage.getDeal("no-es-un-uuid"), undefined);
+});
+
+test("DatabaseStorage filtra deals, estancados y métricas rápidas", async () => {
+  await storage.createDeal({ title: "Abierto A", amount: 1000, next_step: "Llamar", status: "Open" });
+  await storage.createDeal({
+    title: "Vencido B",
+    amount: 2500.5,
+    next_step: "Seguimiento",
+    target_close_date: new Date(Date.now() - 2 * dayMs),
+    inactivity_days: 12,
+  });
+  await storage.createDeal({ title: "Perdido C", status: "Lost", close_reason: "Sin presupuesto" });
+
+  const searched = await storage.getDeals({ search: "vencido" });
+  assert.deepEqual(searched.map((deal) => deal.title), ["Vencido B"]);
+
+  const stalled = await storage.getStalledDeals();
+  assert.deepEqual(stalled.map((deal) => deal.title), ["Vencido B"]);
+
+  const metrics = await storage.getQuickMetrics();
+  assert.equal(metrics.open, 2);
+  assert.equal(metrics.won, 1);
+  assert.equal(metrics.lost, 1);
+  assert.equal(metrics.sumOpen, 3500.5);
+});
+
+test("DatabaseStorage separa etapas y deals por pipeline", async () => {
+  const main = await getDefaultPipeline(storage);
+  const partners = await createPipeline(storage, { name: "Partners" });
+  const input = { title: "Alianza", stage: "Propuesta", next_step: "Firmar", target_close_date: new Date(Date.now() + 10 * dayMs) };
+  const mainDeal = await createDeal(storage, input);
+  const partnerDeal = await createDeal(storage, { ...input, pipeline_id: partners.id });
+  assert.equal(mainDeal.pipeline_id, main.id);
+  assert.deepEqual((await storage.getDeals({ pipeline_id: partners.id })).map((deal) => deal.id), [partnerDeal.id]);
+
+  const proposal = (await listPipelineStages(storage, partners.id)).find((stage) => stage.name === "Propuesta")!;
+  await updatePipelineStage(storage, proposal.id, { name: "Propuesta partner" });
+  assert.equal((await storage.getDeal(partnerDeal.id))?.stage, "Propuesta partner");
+  assert.equal((await storage.getDeal(mainDeal.id))?.stage, "Propuesta");
+
+  await updateDeal(storage, partnerDeal.id, { pipeline_id: main.id });
+  await deletePipeline(storage, partners.id);
+  assert.equal(await storage.getPipeline(partners.id), undefined);
+  assert.deepEqual(await storage.getPipelineStages(partners.id), []);
+
+  // El historial conserva el renombrado y sobrevive al borrado del pipeline
+  const history = await storage.getDealStageTransitions({ deal_id: partnerDeal.id });
+  assert.deepEqual(
+    history.map((transition) => [transition.pipeline_id, transition.from_stage, transition.to_stage]),
+    [
+      [null, null, "Propuesta partner"],
+      [main.id, "Propuesta partner", "Propuesta"],
+    ],
+  );
+});
+
+test("DatabaseStorage limita deals y métricas al alcance de propietarios", async () => {
+  const manager = await storage.createUser({ username: "scope-manager", password: "x", role: "Manager" });
+  const member = await storage.createUser({ username: "scope-member", password: "x" });
+  assert.equal(member.role, "Usuario");
+  await storage.updateUser(member.id, { manager_id: manager.id });
+  assert.deepEqual((await storage.getUsers({ manager_id: manager.id })).map((user) => user.id), [member.id]);
+
+  await storage.createDeal({ title: "Del equipo", amount: 300, owner_id: member.id });
+  const scope = { owner_ids: [manager.id, member.id] };
+  assert.deepEqual((await storage.getDeals(scope)).map((deal) => deal.title), ["Del equipo"]);
+  assert.deepEqual(await storage.getDeals({ owner_ids: [] }), []);
+  assert.deepEqual(await storage.getQuickMetrics(scope), { open: 1, won: 0, lost: 0, sumOpen: 300 });
+  assert.deepEqual((await storage.getStalledDeals(5, scope)).map((deal) => deal.title), ["Del equipo"]);
+});
+
+test("DatabaseStorage respeta las claves foráneas al borrar", async () => {
+  const contact = await createContact(storage, { name: "Lucía Pérez", company: "Pglite SA" });
+  const companyId = contact.company_id!;
+  assert.equal((await storage.getCompanyByName("PGLITE sa"))?.id, companyId);
+
+  const deal = await createDeal(storage, {
+    title: "Renovación",
+    company: "Pglite S.A.",
+    contact_id: contact.id,
+    next_step: "Demo",
+    target_close_date: new Date(Date.now() + 5 * dayMs),
+  });
+  const task = await createTask(storage, { title: "Preparar demo", deal_id: deal.id, contact_id: contact.id });
+
+  assert.equal(deal.company_id, companyId);
+  assert.deepEqual((await storage.getDeals({ company_id: companyId })).map((item) => item.id), [deal.id]);
+
+  await deleteCompany(storage, companyId);
+  assert.equal((await storage.getContact(contact.id))?.company_id, null);
+  assert.equal((await storage.getDeal(deal.id))?.company_id, null);
+
+  await deleteContact(storage, contact.id);
+  assert.equal((await storage.getDeal(deal.id))?.contact_id, null);
+
+  await deleteDeal(storage, deal.id);
+  assert.deepEqual(await storage.getDealStageTransitions({ deal_id: deal.id }), []);
+  const orphan = await storage.getTask(task.id);
+  assert.equal(orphan?.deal_id, null);
+  assert.equal(orphan?.contact_id, null);
+});
+
+test("DatabaseStorage fusiona contactos y mueve sus deals, tareas y timeline", async () => {
+  const survivor = await createContact(storage, { name: "Marta Ruiz", company: "Fusiones SL" });
+  const duplicate = await createContact(storage, { name: "marta ruiz", email: "marta@fusiones.es" });
+  const deal = await createDeal(storage, {
+    title: "Ampliación",
+    contact_id: duplicate.id,
+    next_step: "Llamar",
+    target_close_date: new Date(Date.now() + 5 * dayMs),
+  });
+  const task = await createTask(storage, { title: "Enviar contrato", contact_id: duplicate.id });
+
+  const result = await mergeContacts(storage, survivor.id, { merge_ids: [duplicate.id] });
+  assert.equal(result.contact.email, "marta@fusiones.es");
+  assert.deepEqual([result.deals, result.tasks, result.timeline], [1, 1, 1]);
+  assert.equal(await storage.getContact(duplicate.id), undefined);
+  assert.equal((await storage.getDeal(deal.id))?.contact_id, survivor.id);
+  assert.equal((await storage.getTask(task.id))?.contact_id, survivor.id);
+  const types = (await storage.getTimelineEntries({ entity_type: "contact", entity_id: survivor.id })).map(
+    (entry) => entry.type,
+  );
+  assert.deepEqual(types.sort(), ["contact_created", "contact_created", "contact_merged"]);
+});
+
+test("DatabaseStorage fusiona empresas sin dejar deals apuntando a las borradas", async () => {
+  const survivor = await storage.createCompany({ name: "Fusión Empresas" });
+  const duplicate = await storage.createCompany({ name: "FUSION EMPRESAS S.L." });
+  const deal = await createDeal(storage, {
+    title: "Contrato marco",
+    company_id: duplicate.id,
+    next_step: "Firmar",
+    target_close_date: new Date(Date.now() + 5 * dayMs),
+  });
+
+  const result = await mergeCompanies(storage, survivor.id, { merge_ids: [duplicate.id] });
+  assert.equal(result.deals, 1);
+  assert.equal(await storage.getCompany(duplicate.id), undefined);
+  const moved = await storage.getDeal(deal.id);
+  assert.equal(moved?.company_id, survivor.id);
+  assert.equal(moved?.company, "Fusión Empresas");
+});
+
+test("DatabaseStorage guarda el progreso de las importaciones por fila", async () => {
+  const rows = Array.from({ length: 150 }, (_, index) => `Empresa ${index},sector ${index % 3}`);
+  const job = await createImportJob(storage, {
+    entity: "companies",
+    content: ["Nombre,Sector", ...rows, "Empresa 0,duplicada"].join("\n"),
+    mapping: { Nombre: "name", Sector: "industry" },
+  });
+  assert.equal((await storage.getImportJobRows(job.id, { status: "pending", limit: 10 })).length, 10);
+
+  const done = await startImportJob(storage, job.id);
+  assert.deepEqual([done?.status, done?.imported_rows, done?.failed_rows], ["completed", 150, 1]);
+  const [failed] = await storage.getImportJobRows(job.id, { status: "failed" });
+  assert.deepEqual([failed.row_number, failed.error], [152, "Ya existe la empresa Empresa 0"]);
+  const [first] = await storage.getImportJobRows(job.id, { limit: 1 });
+  assert.equal((await storage.getCompany(first.record_id!))?.industry, "sector 0");
+  assert.deepEqual((await storage.getImportJobs({ status: ["completed"] })).map((candidate) => candidate.id), [job.id]);
+});
+
+test("DatabaseStorage guarda las vistas y una vista por defecto por usuario y listado", async () => {
+  const owner = await storage.createUser({ username: "views-owner", password: "x" });
+  const other = await storage.createUser({ username: "views-other", password: "x" });
+  const config = {
+    filters: { q: "acme" },
+    sort: { key: "name", direction: "asc" as const },
+    columns: null,
+    group_by: null,
+  };
+  const shared = await createSavedView(storage, { list: "contacts", name: "Acme", shared: true, config }, owner.id);
+  const own = await createSavedView(storage, { list: "contacts", name: "Privada", config }, owner.id);
+
+  await setDefaultSavedView(storage, other.id, "contacts", shared.id);
+  await setDefaultSavedView(storage, owner.id, "contacts", shared.id);
+  await setDefaultSavedView(storage, owner.id, "contacts", own.id);
+  const views = await listSavedViews(storage, owner.id, "contacts");
+  assert.deepEqual(views.map((view) => [view.name, view.is_default]), [["Acme", false], ["Privada", true]]);
+  assert.deepEqual((await listSavedViews(storage, other.id, "contacts")).map((view) => view.id), [shared.id]);
+  assert.deepEqual(views[0].config, config);
+
+  await deleteSavedView(storage, shared.id, owner.id);
+  assert.deepEqual(await storage.getSavedViewDefaults(other.id), []);
+  assert.equal((await storage.getSavedViewDefaults(owner.id)).length, 1);
+});
+
+test("DatabaseStorage guarda las definiciones y los valores de los campos personalizados", async () => {
+  const tier = await createCustomField(storage, {
+    entity: "contacts",
+    label: "Nivel",
+    type: "select",
+    options: ["Oro"],
+  });
+  const since = await createCustomField(storage, { entity: "contacts", label: "Cliente desde", type: "date" });
+  await reorderCustomFields(storage, [since.id, tier.id]);
+  assert.deepEqual((await storage.getCustomFields("contacts")).map((field) => field.key), ["cliente_desde", "nivel"]);
+  assert.deepEqual(await storage.getCustomFields("companies"), []);
+
+  const contact = await createContact(storage, {
+    name: "Lucía Campos",
+    custom_fields: { nivel: "oro", cliente_desde: "2024-05-01" },
+  });
+  assert.deepEqual((await storage.getContact(contact.id))?.custom_fields, {
+    nivel: "Oro",
+    cliente_desde: "2024-05-01",
+  });
+
+  await deleteCustomField(storage, tier.id);
+  assert.deepEqual((await storage.getContact(contact.id))?.custom_fields, { cliente_desde: "2024-05-01" });
+  assert.equal(await storage.getCustomField(tier.id), undefined);
+});
+
+test("DatabaseStorage guarda las etiquetas y las quita de los registros al borrarlas", async () => {
+  const evento = await createTag(storage, { name: "Evento 2026" });
+  const partner = await createTag(storage, { name: "Partner", color: "#22C55E" });
+  await updateTag(storage, evento.id, { color: "#3B82F6" });
+  assert.deepEqual(
+    (await storage.getTags()).map((tag) => [tag.name, tag.color]),
+    [
+      ["Evento 2026", "#3B82F6"],
+      ["Partner", "#22C55E"],
+    ],
+  );
+
+  const contact = await createContact(storage, { name: "Pablo Ruiz", tag_ids: [evento.id, partner.id] });
+  assert.deepEqual((await storage.getContact(contact.id))?.tag_ids, [evento.id, partner.id]);
+
+  await deleteTag(storage, evento.id);
+  assert.deepEqual((await storage.getContact(contact.id))?.tag_ids, [partner.id]);
+  assert.equal(await storage.getTag(evento.id), undefined);
+});
+
+test("DatabaseStorage guarda las automatizaciones y su registro de ejecuciones", async () => {
+  const rule = await createAutomationRule(storage, {
+    name: "Deals grandes",
+    trigger: "deal_created",
+    conditions: [{ field: "amount", operator: "gte", value: 10000 }],
+    actions: [{ type: "set_field", field: "priority", value: "Hot" }],
+  });
+  await createAutomationRule(storage, {
+    name: "Apagada",
+    trigger: "deal_created",
+    enabled: false,
+    actions: [{ type: "log_timeline", message: "Nunca" }],
+  });
+  assert.deepEqual(
+    (await storage.getAutomationRules({ trigger: "deal_created", enabled: true })).map((candidate) => candidate.name),
+    ["Deals grandes"],
+  );
+  assert.deepEqual((await storage.getAutomationRule(rule.id))?.conditions, rule.conditions);
+
+  const deal = await createDeal(storage, {
+    title: "Licencias",
+    amount: 15000,
+    next_step: "Enviar propuesta",
+    target_close_date: new Date(Date.now() + 10 * dayMs),
+  });
+  assert.equal(deal.priority, "Hot");
+  const [run] = await listAutomationRuns(storage, rule.id);
+  assert.equal(run.entity_id, deal.id);
+  assert.equal(run.status, "success");
+  assert.deepEqual(run.results, [{ type: "set_field", ok: true, detail: "priority = Hot" }]);
+  assert.deepEqual(await storage.getAutomationRuns({ trigger: "task_overdue" }), []);
+  const failed = [{ type: "webhook" as const, ok: false, detail: "El webhook respondió 500" }];
+  const updated = await storage.updateAutomationRun(run.id, { status: "failed", results: failed });
+  assert.deepEqual([updated?.status, updated?.results], ["failed", failed]);
+
+  await deleteAutomationRule(storage, rule.id);
+  assert.deepEqual(await storage.getAutomationRuns({ rule_id: rule.id }), []);
+});
+
+test("DatabaseStorage guarda los ajustes de las reglas de alerta y las señales de los deals", async () => {
+  await storage.saveDealAlertRuleSetting({ rule: "amount_drop", severity: "critical", params: { percent: 30 } });
+  await storage.saveDealAlertRuleSetting({ rule: "amount_drop", enabled: false, params: { percent: 40 } });
+  const [setting] = await storage.getDealAlertRuleSettings();
+  assert.equal(setting.enabled, false);
+  assert.equal(setting.severity, null);
+  assert.deepEqual(setting.params, { percent: 40 });
+
+  const target = new Date(Date.now() + 10 * dayMs);
+  const deal = await createDeal(storage, {
+    title: "Flota",
+    amount: 3000,
+    next_step: "Demo",
+    target_close_date: target,
+  });
+  const updated = await updateDeal(storage, deal.id, {
+    amount: 1500.5,
+    target_close_date: new Date(target.getTime() + dayMs),
+  });
+  assert.equal(updated.previous_amount, 3000);
+  assert.equal(updated.close_date_slips, 1);
+});
+
+test("DatabaseStorage guarda las políticas de SLA y el registro de escalados", async () => {
+  const pipeline = await getDefaultPipeline(storage);
+  const [stage] = await listPipelineStages(storage, pipeline.id);
+  const general = await storage.createSlaPolicy({ sla_hot_days: 2 });
+  const stagePolicy = await storage.createSlaPolicy({ stage_id: stage.id, risk_high: 5 });
+  const updated = await storage.updateSlaPolicy(general.id, { sla_hot_days: null, sla_warm_days: 4 });
+  assert.equal(updated?.sla_warm_days, 4);
+  assert.equal((await storage.getSlaPolicies()).length, 2);
+  assert.equal(await storage.deleteSlaPolicy(stagePolicy.id), true);
+  assert.equal(await storage.deleteSlaPolicy(stagePolicy.id), false);
+  const [saved] = await storage.getSlaPolicies();
+  assert.equal(saved.stage_id, null);
+  assert.equal(saved.sla_hot_days, null);
+
+  const deal = await createDeal(storage, {
+    title: "Renovación",
+    next_step: "Llamar",
+    target_close_date: new Date(Date.now() + 60 * dayMs),
+  });
+  const lastActivity = deal.last_activity!;
+  const created = await checkSlaBreaches(storage, new Date(lastActivity.getTime() + 30 * dayMs));
+  const escalations = await storage.getSlaEscalations({ deal_id: deal.id });
+  assert.deepEqual(escalations.map((escalation) => escalation.step).sort(), ["manager", "owner", "task"]);
+  assert.ok(escalations.every((escalation) => created.some((candidate) => candidate.id === escalation.id)));
+  assert.equal(escalations[0].last_activity.getTime(), lastActivity.getTime());
+  assert.equal((await storage.getSlaEscalations({ deal_id: deal.id, limit: 1 })).length, 1);
+  assert.deepEqual(await storage.getSlaEscalations({ deal_id: deal.id, owner_ids: [] }), []);
+});
+
+test("DatabaseStorage guarda el seguimiento de las alertas y la sensibilidad de cada usuario", async () => {
+  const user = await storage.createUser({ username: "alertas-pg", password: "x" });
+  assert.equal(user.alert_sensitivity, "all");
+  assert.equal((await storage.updateUser(user.id, { alert_sensitivity: "critical" }))?.alert_sensitivity, "critical");
+
+  const deal = await createDeal(
+    storage,
+    { title: "Flota", amount: 1000, next_step: "Demo", target_close_date: new Date(Date.now() + 30 * dayMs) },
+    user.id,
+  );
+  await storage.updateDeal(deal.id, { close_date_slips: 2 });
+  const start = new Date();
+  const alert = (await syncDealAlerts(storage, start)).find((candidate) => candidate.deal_id === deal.id);
+  assert.deepEqual(alert?.rules, ["close_date_slipped"]);
+  const closedAt = new Date(start.getTime() + 60_000);
+  const resolved = await updateDealAlertState(
+    storage,
+    deal,
+    { status: "resolved", reason: "contacted", note: "Hecho" },
+    user.id,
+    closedAt,
+  );
+  assert.equal(resolved.reason, "contacted");
+  assert.equal(resolved.closed_at?.getTime(), closedAt.getTime());
+
+  assert.equal((await storage.getDealAlerts({ deal_id: deal.id, owner_ids: [] })).length, 0);
+  const filters = { deal_id: deal.id, status: ["resolved" as const], active: true, owner_ids: [user.id] };
+  assert.equal((await storage.getDealAlerts(filters)).length, 1);
+  assert.equal((await storage.getDealAlerts({ deal_id: deal.id, from: closedAt })).length, 0);
+  assert.equal((await storage.getDealAlerts({ deal_id: deal.id, from: start, to: start })).length, 1);
+
+  await storage.updateDeal(deal.id, { close_date_slips: 0 });
+  await syncDealAlerts(storage, closedAt);
+  assert.equal((await storage.getDealAlerts({ deal_id: deal.id, active: true })).length, 0);
+  // Se borran con el deal
+  await storage.deleteDeal(deal.id);
+  assert.equal(await storage.getDealAlert(alert!.id), undefined);
+});
+
+test("DatabaseStorage guarda los canales de alertas y su registro de envíos", async () => {
+  const pipeline = await getDefaultPipeline(storage);
+  const channel = await storage.createAlertChannel({
+    name: "Ventas",
+    format: "teams",
+    url: "https://example.com/hook",
+    pipeline_ids: [pipeline.id],
+  });
+  assert.equal(channel.enabled, true);
+  assert.equal(channel.severity, "all");
+  assert.equal(channel.interval_hours, 24);
+  assert.deepEqual(channel.owner_ids, []);
+  assert.deepEqual(channel.pipeline_ids, [pipeline.id]);
+  const sentAt = new Date();
+  const updated = await storage.updateAlertChannel(channel.id, { severity: "critical", last_sent_at: sentAt });
+  assert.equal(updated?.severity, "critical");
+  assert.equal(updated?.last_sent_at?.getTime(), sentAt.getTime());
+
+  const delivery = { channel_id: channel.id, trigger: "schedule" as const, alert_count: 2, attempts: 1 };
+  await storage.createAlertDelivery({ ...delivery, status: "failed", response_status: 500, error: "Caído" });
+  await storage.createAlertDelivery({ ...delivery, status: "delivered", response_status: 200 });
+  const [latest] = await storage.getAlertDeliveries({ channel_id: channel.id, limit: 1 });
+  assert.equal(latest.status, "delivered");
+  assert.equal((await storage.getAlertDeliveries({ channel_id: channel.id })).length, 2);
+
+  // Los envíos se borran con el canal
+  assert.equal(await storage.deleteAlertChannel(channel.id), true);
+  assert.equal(await storage.getAlertChannel(channel.id), undefined);
+  assert.deepEqual(await storage.getAlertDeliveries({ channel_id: channel.id }), []);
+});
+
+test("DatabaseStorage limita tareas y timeline al alcance de los owners", async () => {
+  const owner = await storage.createUser({ username: "alcance-pg", password: "x" });
+  const other = await storage.createUser({ username: "ajeno-pg", password: "x" });
+  const input = { next_step: "Llamar", target_close_date: new Date(Date.now() + 10 * dayMs) };
+  const deal = await createDeal(storage, { ...input, title: "Alcance" }, owner.id);
+  const contact = await createContact(storage, { name: "Contacto alcance" }, owner.id);
+  const onDeal = await createTask(storage, { title: "Del deal", deal_id: deal.id, assigned_to: other.id });
+  const onContact = await createTask(storage, { title: "Del contacto", contact_id: contact.id, assigned_to: other.id });
+  const assigned = await createTask(storage, { title: "Asignada", assigned_to: owner.id });
+  const foreign = await createTask(storage, { title: "Ajena", assigned_to: other.id });
+  const company = await storage.createTimelineEntry({
+    type: "note",
+    description: "Nota de empresa",
+    entity_type: "company",
+    entity_id: randomUUID(),
+  });
+
+  assert.deepEqual(
+    (await storage.getTasks({ owner_ids: [owner.id] })).map((task) => task.title).sort(),
+    ["Asignada", "Del contacto", "Del deal"],
+  );
+  assert.deepEqual(await storage.getTasks({ owner_ids: [] }), []);
+
+  const scoped = await storage.getTimelineEntries({ owner_ids: [owner.id] });
+  const visible = new Set(scoped.map((entry) => entry.entity_id));
+  for (const id of [deal.id, contact.id, onDeal.id, onContact.id, assigned.id, company.entity_id]) {
+    assert.ok(visible.has(id), id);
+  }
+  assert.equal(visible.has(foreign.id), false);
+  const unscoped = await storage.getTimelineEntries({ owner_ids: [] });
+  assert.ok(unscoped.every((entry) => entry.entity_type === "company"));
+});
@@ -0,0 +1,363 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  dealAlertReasonsFor,
+  evaluateDealAlertRules,
+  matchesDealAlertSensitivity,
+  resolveDealAlertRules,
+  summarizeDealAlertHistory,
+  validateDealAlertParams,
+  type DealAlertSubject,
+} from "../shared/dealAlerts";
+import { trackDealAlertSignals } from "../shared/dealRules";
+import { detectDealAlerts } from "../client/src/lib/pipelineInsights";
+import type { Deal, PipelineStage } from "../client/src/lib/types";
+import { MemStorage } from "../server/storage/memory";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import {
+  getDealAlertReport,
+  listDealAlertRules,
+  syncDealAlerts,
+  updateDealAlertRule,
+  updateDealAlertState,
+} from "../server/crm/dealAlerts";
+
+const dayMs = 24 * 60 * 60 * 1000;
+const now = new Date("2024-03-01T10:00:00.000Z");
+
+const subject = (overrides: Partial<DealAlertSubject> = {}): DealAlertSubject => ({
+  title: "Renovación",
+  stage: "Propuesta",
+  priority: "Warm",
+  inactivity: 1,
+  next_step: "Llamar",
+  target_close_date: new Date(now.getTime() + 10 * dayMs),
+  amount: 10000,
+  contact_id: "contacto",
+  ...overrides,
+});
+
+const firedRules = (overrides: Partial<DealAlertSubject>, rules = resolveDealAlertRules()) =>
+  evaluateDealAlertRules(subject(overrides), rules, now).map((hit) => hit.rule);
+
+test("cada regla del catálogo salta solo con su señal", () => {
+  assert.deepEqual(firedRules({}), []);
+  assert.deepEqual(firedRules({ target_close_date: new Date(now.getTime() - 3 * dayMs) }), ["target_overdue"]);
+  assert.deepEqual(firedRules({ next_step: " " }), ["missing_next_step"]);
+  // El SLA depende de la prioridad: 8 días es demasiado para un Warm, no para un Cold
+  assert.deepEqual(firedRules({ inactivity: 8 }), ["inactivity"]);
+  assert.deepEqual(firedRules({ inactivity: 8, priority: "Cold" }), []);
+  // ...salvo que su política de SLA diga otra cosa
+  assert.deepEqual(firedRules({ inactivity: 8, sla_days: 10 }), []);
+  assert.deepEqual(firedRules({ close_date_slips: 1 }), []);
+  assert.deepEqual(firedRules({ close_date_slips: 2 }), ["close_date_slipped"]);
+  assert.deepEqual(firedRules({ previous_amount: 11000 }), []);
+  assert.deepEqual(firedRules({ previous_amount: 20000 }), ["amount_drop"]);
+  assert.deepEqual(firedRules({ probability: 30, stage_probability: 50 }), ["probability_below_stage"]);
+  assert.deepEqual(firedRules({ probability: 30, stage_probability: null }), []);
+  assert.deepEqual(firedRules({ priority: "Hot", contact_id: null }), ["hot_without_contact"]);
+
+  const [hit] = evaluateDealAlertRules(subject({ previous_amount: 20000 }), undefined, now);
+  assert.equal(hit.severity, "warning");
+  assert.equal(hit.message, "Renovación ha bajado de importe");
+  assert.match(hit.reason, /Importe rebajado un 50%/);
+});
+
+test("la configuración activa, cambia severidad, umbrales y acción", () => {
+  const rules = resolveDealAlertRules([
+    { rule: "missing_next_step", enabled: false },
+    { rule: "inactivity", severity: "critical", recommended_action: "Llama hoy" },
+    { rule: "amount_drop", params: { percent: 60 } },
+  ]);
+  assert.deepEqual(firedRules({ next_step: "" }, rules), []);
+  assert.deepEqual(firedRules({ previous_amount: 20000 }, rules), []);
+
+  const hits = evaluateDealAlertRules(
+    subject({ inactivity: 11, sla_days: 10, previous_amount: 40000 }),
+    rules,
+    now,
+  );
+  // Las críticas primero aunque vayan después en el catálogo
+  assert.deepEqual(
+    hits.map((hit) => [hit.rule, hit.severity]),
+    [
+      ["inactivity", "critical"],
+      ["amount_drop", "warning"],
+    ],
+  );
+  assert.equal(hits[0].recommendedAction, "Llama hoy");
+  assert.equal(hits[0].reason, "Sin actividad 11 días (SLA 10)");
+
+  assert.deepEqual(validateDealAlertParams("amount_drop", { percent: 0, umbral: 3 }), [
+    "Bajada mínima (%): debe ser un entero entre 1 y 100",
+    "Parámetro desconocido: umbral",
+  ]);
+  // El SLA de la inactividad ya no es un parámetro de la regla: está en las políticas de SLA
+  assert.deepEqual(validateDealAlertParams("inactivity", { Hot: 2 }), ["Parámetro desconocido: Hot"]);
+});
+
+test("detectDealAlerts agrupa las reglas de cada deal y usa la probabilidad de su etapa", () => {
+  const stage = (pipeline_id: string, default_probability: number) =>
+    ({ id: `${pipeline_id}-propuesta`, pipeline_id, name: "Propuesta", default_probability }) as PipelineStage;
+  const deal = {
+    id: "deal-1",
+    title: "Licencias",
+    stage: "Propuesta",
+    status: "Open",
+    probability: 40,
+    amount: 5000,
+    next_step: "",
+    target_close_date: new Date(now.getTime() + 5 * dayMs).toISOString(),
+    inactivity_days: 0,
+    contact_id: "contacto",
+  } as Deal;
+  const stages = [stage("principal", 60), stage("renovaciones", 30)];
+
+  const [alert] = detectDealAlerts([deal], { stages, defaultPipelineId: "principal", now });
+  assert.deepEqual(
+    alert.hits.map((hit) => hit.rule),
+    ["missing_next_step", "probability_below_stage"],
+  );
+  assert.equal(alert.type, "missing_next_step");
+  assert.equal(alert.reasons[1], "Probabilidad 40% por debajo del 60% de Propuesta");
+
+  const renewal = detectDealAlerts([{ ...deal, pipeline_id: "renovaciones" }], { stages, now });
+  assert.deepEqual(
+    renewal[0].hits.map((hit) => hit.rule),
+    ["missing_next_step"],
+  );
+  assert.deepEqual(detectDealAlerts([{ ...deal, status: "Won" }], { stages, now }), []);
+});
+
+test("el servidor anota bajadas de importe y aplazamientos de la fecha objetivo", async () => {
+  assert.deepEqual(trackDealAlertSignals({ amount: 100 }, { amount: undefined }), {});
+  assert.deepEqual(
+    trackDealAlertSignals(
+      { amount: 100, target_close_date: null },
+      { amount: 80, target_close_date: "2024-05-01" },
+    ),
+    { previous_amount: 100 },
+  );
+
+  const storage = new MemStorage();
+  const target = new Date(Date.now() + 10 * dayMs);
+  const deal = await createDeal(storage, {
+    title: "Flota",
+    amount: 30000,
+    next_step: "Demo",
+    target_close_date: target,
+  });
+  assert.equal(deal.close_date_slips, 0);
+
+  const later = new Date(target.getTime() + 7 * dayMs);
+  const slipped = await updateDeal(storage, deal.id, { target_close_date: later, amount: 20000 });
+  assert.equal(slipped.previous_amount, 30000);
+  assert.equal(slipped.close_date_slips, 1);
+
+  // Adelantar la fecha o no tocar el importe no cuenta
+  const earlier = await updateDeal(storage, deal.id, { target_close_date: target, next_step: "Propuesta" });
+  assert.equal(earlier.close_date_slips, 1);
+  assert.equal(earlier.previous_amount, 30000);
+  const again = await updateDeal(storage, deal.id, { target_close_date: later });
+  assert.equal(again.close_date_slips, 2);
+});
+
+test("los ajustes de las reglas se validan y solo guardan lo que cambia", async () => {
+  const storage = new MemStorage();
+  await assert.rejects(
+    updateDealAlertRule(storage, "amount_drop", { params: { percent: 150 } }),
+    /Bajada mínima \(%\): debe ser un entero entre 1 y 100/,
+  );
+
+  const updated = await updateDealAlertRule(storage, "close_date_slipped", {
+    severity: "critical",
+    params: { times: 3 },
+    recommended_action: "  Llama hoy  ",
+  });
+  assert.deepEqual(updated, {
+    rule: "close_date_slipped",
+    enabled: true,
+    severity: "critical",
+    params: { times: 3 },
+    recommended_action: "Llama hoy",
+  });
+  const [saved] = await storage.getDealAlertRuleSettings();
+  assert.deepEqual(saved.params, { times: 3 });
+
+  // Volver a los valores por defecto no deja nada guardado
+  await updateDealAlertRule(storage, "close_date_slipped", {
+    severity: "warning",
+    params: { times: 2 },
+    recommended_action: null,
+  });
+  const [reset] = await storage.getDealAlertRuleSettings();
+  assert.equal(reset.severity, null);
+  assert.deepEqual(reset.params, {});
+  assert.equal(reset.recommended_action, null);
+
+  await updateDealAlertRule(storage, "hot_without_contact", { enabled: false });
+  const rules = await listDealAlertRules(storage);
+  assert.equal(rules.length, 7);
+  assert.equal(rules.find((rule) => rule.rule === "hot_without_contact")?.enabled, false);
+});
+
+test("los motivos dependen del cierre y el historial mide lo que tarda cada owner", () => {
+  assert.deepEqual(dealAlertReasonsFor("dismissed"), ["false_positive", "not_applicable"]);
+  assert.ok(!dealAlertReasonsFor("resolved").includes("condition_cleared"));
+  assert.equal(matchesDealAlertSensitivity("warning", "all"), true);
+  assert.equal(matchesDealAlertSensitivity("warning", "critical"), false);
+
+  const at = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+  const summary = summarizeDealAlertHistory([
+    { owner_id: "ana", status: "resolved", reason: "contacted", created_at: now, closed_at: at(2) },
+    { owner_id: "ana", status: "resolved", reason: "deal_updated", created_at: now, closed_at: at(10) },
+    { owner_id: "ana", status: "resolved", reason: "next_step_planned", created_at: now, closed_at: at(3) },
+    // Resuelta sola: cuenta como resuelta pero no en el tiempo de resolución
+    { owner_id: "ana", status: "resolved", reason: "condition_cleared", created_at: now, closed_at: at(100) },
+    { owner_id: "bruno", status: "dismissed", reason: "false_positive", created_at: now, closed_at: at(1) },
+    { owner_id: "bruno", status: "snoozed", reason: null, created_at: now, closed_at: null },
+  ]);
+  assert.deepEqual(summary, [
+    {
+      owner_id: "ana",
+      opened: 4,
+      pending: 0,
+      resolved: 4,
+      auto_resolved: 1,
+      dismissed: 0,
+      avg_resolution_hours: 5,
+      median_resolution_hours: 3,
+    },
+    {
+      owner_id: "bruno",
+      opened: 2,
+      pending: 1,
+      resolved: 0,
+      auto_resolved: 0,
+      dismissed: 1,
+      avg_resolution_hours: null,
+      median_resolution_hours: null,
+    },
+  ]);
+});
+
+test("las alertas guardadas se posponen, se cierran con motivo y se resuelven solas", async () => {
+  const storage = new MemStorage();
+  const ana = await storage.createUser({ username: "ana", password: "x", full_name: "Ana" });
+  const target = new Date(Date.now() + 30 * dayMs);
+  const input = { title: "Flota", amount: 1000, next_step: "Demo", target_close_date: target };
+  const deal = await createDeal(storage, input, ana.id);
+  await updateDeal(storage, deal.id, { amount: 500 });
+  const start = new Date();
+  const at = (hours: number) => new Date(start.getTime() + hours * 60 * 60 * 1000);
+
+  const [alert] = await syncDealAlerts(storage, start);
+  assert.deepEqual(alert.rules, ["amount_drop"]);
+  assert.equal(alert.message, "Flota ha bajado de importe");
+  assert.equal(alert.owner_id, ana.id);
+  assert.equal((await syncDealAlerts(storage, at(1)))[0].id, alert.id);
+
+  await assert.rejects(
+    updateDealAlertState(storage, deal, { status: "snoozed", snoozed_until: at(-1) }, ana.id, at(1)),
+    /Indica una fecha futura/,
+  );
+  await assert.rejects(
+    updateDealAlertState(storage, deal, { status: "resolved", reason: "false_positive" }, ana.id, at(1)),
+    /Indica por qué la alerta queda resuelta/,
+  );
+  const snoozed = await updateDealAlertState(
+    storage,
+    deal,
+    { status: "snoozed", snoozed_until: at(24) },
+    ana.id,
+    at(1),
+  );
+  assert.equal(snoozed.status, "snoozed");
+  assert.equal((await syncDealAlerts(storage, at(12)))[0].status, "snoozed");
+  // Al vencer el plazo vuelve a estar abierta
+  const reopened = (await syncDealAlerts(storage, at(25)))[0];
+  assert.equal(reopened.status, "open");
+  assert.equal(reopened.snoozed_until, null);
+
+  const resolved = await updateDealAlertState(
+    storage,
+    deal,
+    { status: "resolved", reason: "contacted", note: "Llamado" },
+    ana.id,
+    at(26),
+  );
+  assert.equal(resolved.closed_by, ana.id);
+  // Sigue vigente, pero resuelta, mientras salten las mismas reglas
+  assert.equal((await syncDealAlerts(storage, at(27)))[0].status, "resolved");
+  const [entry] = await storage.getTimelineEntries({ entity_type: "deal", entity_id: deal.id });
+  assert.equal(entry.type, "deal_alert_resolved");
+  assert.equal(entry.description, "Alerta resuelta: Cliente contactado · Llamado");
+
+  // Al recuperar el importe deja de saltar y deja de estar vigente
+  await updateDeal(storage, deal.id, { amount: 1000 });
+  assert.deepEqual(await syncDealAlerts(storage, at(28)), []);
+  assert.ok((await storage.getDealAlert(alert.id))?.cleared_at);
+
+  // Una que nadie cierra se resuelve sola
+  const other = await createDeal(storage, { ...input, title: "Licencias" }, ana.id);
+  await updateDeal(storage, other.id, { amount: 100 });
+  const [pending] = await syncDealAlerts(storage, at(30));
+  assert.equal(pending.deal_id, other.id);
+  await updateDeal(storage, other.id, { amount: 1000 });
+  await syncDealAlerts(storage, at(40));
+  const cleared = await storage.getDealAlert(pending.id);
+  assert.equal(cleared?.status, "resolved");
+  assert.equal(cleared?.reason, "condition_cleared");
+
+  const report = await getDealAlertReport(storage, { from: start });
+  assert.deepEqual(
+    report.owners.map((owner) => [owner.owner_name, owner.opened, owner.resolved, owner.avg_resolution_hours]),
+    [["Ana", 2, 2, 26]],
+  );
+  assert.deepEqual(report.reasons, [
+    { reason: "contacted", count: 1 },
+    { reason: "condition_cleared", count: 1 },
+  ]);
+  assert.equal((await getDealAlertReport(storage, { owner_ids: [] })).owners.length, 0);
+});
+
+test("salta una regla nueva sobre una alerta cerrada: se abre otra", async () => {
+  const storage = new MemStorage();
+  const deal = await createDeal(storage, {
+    title: "Flota",
+    amount: 1000,
+    next_step: "Demo",
+    target_close_date: new Date(Date.now() + 30 * dayMs),
+  });
+  await updateDeal(storage, deal.id, { amount: 500 });
+  const start = new Date();
+  const [first] = await syncDealAlerts(storage, start);
+  await updateDealAlertState(storage, deal, { status: "dismissed", reason: "not_applicable" }, null, start);
+
+  await storage.updateDeal(deal.id, { close_date_slips: 2 });
+  const [second] = await syncDealAlerts(storage, start);
+  assert.notEqual(second.id, first.id);
+  assert.equal(second.status, "open");
+  assert.deepEqual(second.rules.sort(), ["amount_drop", "close_date_slipped"]);
+  assert.ok((await storage.getDealAlert(first.id))?.cleared_at);
+
+  // Solo se cambia el estado de una alerta que el servidor levantaría ahora
+  const quiet = await createDeal(storage, {
+    title: "Sin alertas",
+    next_step: "Demo",
+    target_close_date: new Date(Date.now() + 30 * dayMs),
+  });
+  await assert.rejects(
+    updateDealAlertState(storage, quiet, { status: "resolved", reason: "contacted" }),
+    /DealAlert not found/,
+  );
+  // Sin la alerta en el servidor se crea con lo que evalúa él
+  await storage.updateDeal(quiet.id, { close_date_slips: 2 });
+  const created = await updateDealAlertState(storage, quiet, { status: "resolved", reason: "contacted" });
+  assert.deepEqual(created.rules, ["close_date_slipped"]);
+  assert.equal(created.status, "resolved");
+  // Guardada pero sin disparar ya ninguna regla, tampoco
+  const recovered = (await storage.updateDeal(quiet.id, { close_date_slips: 0 }))!;
+  await assert.rejects(updateDealAlertState(storage, recovered, { status: "open" }), /DealAlert not found/);
+});
@@ -0,0 +1,186 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough } from "node:stream";
+import { inflateRawSync } from "node:zlib";
+
+import { MemStorage } from "../server/storage/memory";
+import { prepareExport } from "../server/crm/exports";
+import { createPipeline } from "../server/crm/pipelines";
+import { customFieldColumnKey } from "../shared/customFields";
+import { buildCsv, matchesDealFilters, resolveExportColumns } from "../shared/exports";
+
+const now = new Date("2024-06-15T12:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+async function collect(write: (out: PassThrough) => Promise<void>): Promise<Buffer> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on("data", (chunk: Buffer) => chunks.push(chunk));
+  await write(out);
+  out.end();
+  return Buffer.concat(chunks);
+}
+
+/** Lee las entradas de un ZIP a partir de su directorio central. */
+function unzip(zip: Buffer): Map<string, string> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries = new Map<string, string>();
+  let offset = zip.readUInt32LE(end + 16);
+  for (let index = 0; index < zip.readUInt16LE(end + 10); index += 1) {
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    const local = zip.readUInt32LE(offset + 42);
+    const dataStart = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    entries.set(name, inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString("utf8"));
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+test("los filtros de deals coinciden con los del tablero y el CSV escapa y localiza", () => {
+  const deal = {
+    title: "Renovación ACME",
+    company: "ACME; Iberia",
+    amount: 12500.5,
+    stage: "Propuesta",
+    status: "Open",
+    risk_level: "Bajo",
+    next_step: "=HYPERLINK(\"x\")",
+    target_close_date: "2024-06-01T00:00:00.000Z",
+    last_activity: daysAgo(4).toISOString(),
+  };
+  assert.ok(matchesDealFilters(deal, { search: " acme ", amount_range: "bt10_50", target: "overdue" }, now));
+  assert.ok(matchesDealFilters(deal, { needs_attention: true }, now));
+  assert.ok(!matchesDealFilters(deal, { status: "Won" }, now));
+  assert.ok(!matchesDealFilters(deal, { target: "thisMonth", amount_range: "gt50" }, now));
+
+  const columns = resolveExportColumns("deals", ["title", "company", "amount", "next_step", "inactivity_days"]);
+  const es = buildCsv(columns, [deal], { now, language: "es" });
+  assert.equal(
+    es,
+    '\uFEFFTítulo;Empresa;Importe;Próximo paso;Días sin actividad\r\n' +
+      'Renovación ACME;"ACME; Iberia";12500,5;"\'=HYPERLINK(""x"")";4\r\n',
+  );
+  const dates = resolveExportColumns("deals", ["amount", "target_close_date"]);
+  const en = buildCsv(dates, [deal], { now, language: "en" });
+  assert.equal(en, "\uFEFFAmount,Target close date\r\n12500.5,2024-06-01\r\n");
+});
+
+test("el CSV neutraliza textos y cabeceras que Excel tomaría por fórmula, no los números", () => {
+  const customFields = [{ key: "codigo", label: "=cmd|' /C calc'!A0", type: "text" as const, options: [] }];
+  const columns = resolveExportColumns(
+    "deals",
+    ["title", "company", "amount", "next_step", customFieldColumnKey("codigo")],
+    customFields,
+  );
+  const deal = {
+    title: "+34 600 000 000",
+    company: "@SUM(A1)",
+    amount: -1500.5,
+    next_step: "\t=1+1",
+    custom_fields: { codigo: "-2+3" },
+  };
+  const [header, row] = buildCsv(columns, [deal], { now, language: "es" }).replace("\uFEFF", "").split("\r\n");
+  assert.equal(header, "Título;Empresa;Importe;Próximo paso;'=cmd|' /C calc'!A0");
+  assert.equal(row, "'+34 600 000 000;'@SUM(A1);-1500,5;'\t=1+1;'-2+3");
+  assert.equal(
+    buildCsv(columns, [{ ...deal, next_step: "\r=1+1" }], { now, language: "en" }).split("\r\n")[1],
+    "'+34 600 000 000,'@SUM(A1),-1500.5,\"'\r=1+1\",'-2+3",
+  );
+});
+
+test("la exportación aplica alcance, pipeline y filtros y genera CSV y XLSX", async () => {
+  const storage = new MemStorage();
+  const ana = await storage.createUser({ username: "ana", password: "x", full_name: "Ana Gil" });
+  const luis = await storage.createUser({ username: "luis", password: "x" });
+  const other = await createPipeline(storage, { name: "Partners" });
+  await storage.createDeal({
+    title: "Alfa",
+    amount: 5000,
+    owner_id: ana.id,
+    priority: "Hot",
+    created_at: daysAgo(10),
+  });
+  await storage.createDeal({ title: "Beta", amount: 60000, owner_id: ana.id, pipeline_id: other.id });
+  await storage.createDeal({ title: "Gamma", amount: 7000, owner_id: luis.id });
+  await storage.createDeal({ title: "Delta", status: "Won", owner_id: ana.id });
+
+  const csv = await prepareExport(
+    storage,
+    {
+      entity: "deals",
+      format: "csv",
+      language: "en",
+      columns: ["title", "owner", "days_in_stage"],
+      filters: { status: "Open" },
+    },
+    { owner_ids: [ana.id] },
+    now,
+  );
+  assert.equal(csv.rows, 2);
+  assert.equal(csv.fileName, "deals-2024-06-15.csv");
+  const text = (await collect((out) => csv.write(out))).toString("utf8");
+  assert.deepEqual(text.trim().split("\r\n").slice(1).sort(), ["Alfa,10,Ana Gil", "Beta,0,Ana Gil"]);
+
+  // Los deals sin pipeline cuentan en el de por defecto
+  const xlsx = await prepareExport(
+    storage,
+    {
+      entity: "deals",
+      format: "xlsx",
+      language: "es",
+      columns: ["title", "amount", "created_at"],
+      filters: { pipeline_id: (await storage.getPipelines()).find((p) => p.is_default)!.id, priority: "Hot" },
+    },
+    {},
+    now,
+  );
+  assert.equal(xlsx.rows, 1);
+  const entries = unzip(await collect((out) => xlsx.write(out)));
+  assert.deepEqual(
+    [...entries.keys()],
+    [
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ],
+  );
+  assert.match(entries.get("xl/workbook.xml")!, /<sheet name="Deals"/);
+  const sheet = entries.get("xl/worksheets/sheet1.xml")!;
+  assert.match(sheet, /<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Título<\/t>/);
+  // Importe como número y fecha de creación como serial de Excel con formato de fecha y hora
+  assert.match(sheet, /<c r="A2" t="inlineStr"><is><t xml:space="preserve">Alfa<\/t><\/is><\/c>/);
+  assert.match(sheet, /<c r="B2"><v>5000<\/v><\/c><c r="C2" s="3"><v>45448\.5<\/v><\/c><\/row>/);
+
+  await assert.rejects(
+    prepareExport(storage, { entity: "tasks", format: "csv", language: "es", columns: ["nope"], filters: {} }),
+    /Columnas desconocidas: nope/,
+  );
+});
+
+test("la exportación de tareas respeta el alcance de tareas, deals y contactos", async () => {
+  const storage = new MemStorage();
+  const ana = await storage.createUser({ username: "ana", password: "x" });
+  const luis = await storage.createUser({ username: "luis", password: "x" });
+  const ownDeal = await storage.createDeal({ title: "Alfa", owner_id: ana.id });
+  const foreignDeal = await storage.createDeal({ title: "Secreto", owner_id: luis.id });
+  const foreignContact = await storage.createContact({ name: "Marta Ruiz", owner_id: luis.id });
+  await storage.createTask({ title: "Llamar", assigned_to: ana.id, deal_id: ownDeal.id });
+  await storage.createTask({ title: "Revisar", assigned_to: luis.id, deal_id: foreignDeal.id });
+  await storage.createTask({ title: "Escribir", assigned_to: luis.id, contact_id: foreignContact.id });
+
+  const csv = await prepareExport(
+    storage,
+    { entity: "tasks", format: "csv", language: "en", columns: ["title", "deal", "contact"], filters: {} },
+    { owner_ids: [ana.id] },
+    now,
+  );
+  assert.equal(csv.rows, 1);
+  const text = (await collect((out) => csv.write(out))).toString("utf8");
+  assert.deepEqual(text.trim().split("\r\n").slice(1), ["Llamar,Alfa,"]);
+  assert.doesNotMatch(text, /Secreto|Marta Ruiz|Revisar|Escribir/);
+});
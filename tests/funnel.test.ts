@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { getFunnelReport } from "../server/crm/funnel";
+import { getDefaultPipeline } from "../server/crm/pipelines";
+import type { IStorage } from "../server/storage";
+
+const dayMs = 24 * 60 * 60 * 1000;
+const start = new Date("2024-03-01T00:00:00Z");
+const at = (days: number) => new Date(start.getTime() + days * dayMs);
+
+type Step = [stage: string, status: "Open" | "Won" | "Lost", day: number];
+
+async function seedHistory(
+  storage: IStorage,
+  pipelineId: string,
+  deal: { title: string; created: number; owner_id?: string; close_reason?: string },
+  steps: Step[],
+) {
+  const created = await storage.createDeal({
+    title: deal.title,
+    owner_id: deal.owner_id,
+    close_reason: deal.close_reason,
+    pipeline_id: pipelineId,
+    created_at: at(deal.created),
+  });
+  let previous: Step | null = null;
+  for (const step of steps) {
+    await storage.createDealStageTransition({
+      deal_id: created.id,
+      pipeline_id: pipelineId,
+      from_stage: previous?.[0] ?? null,
+      to_stage: step[0],
+      from_status: previous?.[1] ?? null,
+      to_status: step[1],
+      changed_at: at(step[2]),
+    });
+    previous = step;
+  }
+  return created;
+}
+
+test("el funnel cuenta las etapas atravesadas, la mediana de días y los motivos de pérdida", async () => {
+  const storage = new MemStorage();
+  const pipeline = await getDefaultPipeline(storage);
+  const ana = await storage.createUser({ username: "ana", password: "x" });
+  const luis = await storage.createUser({ username: "luis", password: "x" });
+
+  // Salta de Prospección a Negociación y se gana
+  await seedHistory(storage, pipeline.id, { title: "A", created: 0, owner_id: ana.id }, [
+    ["Prospección", "Open", 0],
+    ["Negociación", "Open", 4],
+    ["Cierre", "Won", 10],
+  ]);
+  // Se pierde en Calificación aunque el cierre lo mueva a la última etapa
+  await seedHistory(storage, pipeline.id, { title: "B", created: 0, owner_id: ana.id, close_reason: "Precio" }, [
+    ["Prospección", "Open", 0],
+    ["Calificación", "Open", 2],
+    ["Cierre", "Lost", 5],
+  ]);
+  // Entró antes de la ventana: solo cuenta su salida de Prospección
+  await seedHistory(storage, pipeline.id, { title: "C", created: -20, owner_id: luis.id }, [
+    ["Prospección", "Open", -20],
+    ["Calificación", "Open", 6],
+  ]);
+
+  const report = await getFunnelReport(storage, { from: at(0), to: at(60) });
+  assert.deepEqual(
+    report.stages.map((row) => [row.stage, row.entered, row.exited, row.converted, row.lost, row.median_days]),
+    [
+      ["Prospección", 2, 3, 3, 0, 4],
+      ["Calificación", 3, 2, 1, 1, 3],
+      ["Propuesta", 1, 1, 1, 0, null],
+      ["Negociación", 1, 1, 1, 0, 6],
+      ["Cierre", 1, 1, 1, 0, null],
+    ],
+  );
+  assert.equal(report.stages[1].conversion_rate, 0.5);
+  assert.deepEqual(report.stages[1].drop_off_reasons, [{ reason: "Precio", count: 1 }]);
+  assert.deepEqual([report.deals, report.won, report.lost], [3, 1, 1]);
+
+  const cohort = await getFunnelReport(storage, { from: at(0), to: at(60), cohort: "2024-02" });
+  assert.deepEqual(
+    cohort.stages.slice(0, 2).map((row) => [row.stage, row.entered, row.exited]),
+    [
+      ["Prospección", 0, 1],
+      ["Calificación", 1, 0],
+    ],
+  );
+
+  const byOwner = await getFunnelReport(storage, { from: at(0), to: at(60), owner_id: ana.id });
+  assert.equal(byOwner.deals, 2);
+  const scoped = await getFunnelReport(storage, { from: at(0), to: at(60) }, { owner_ids: [luis.id] });
+  assert.equal(scoped.deals, 1);
+
+  // Fuera de la ventana no hay movimientos
+  const empty = await getFunnelReport(storage, { from: at(30), to: at(60) });
+  assert.ok(empty.stages.every((row) => row.entered === 0 && row.exited === 0));
+  await assert.rejects(getFunnelReport(storage, { from: at(60), to: at(0) }), /anterior/);
+});
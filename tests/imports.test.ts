@@ -0,0 +1,181 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { createContact } from "../server/crm/contacts";
+import {
+  cancelImportJob,
+  createImportJob,
+  resumeImportJob,
+  resumeInterruptedImports,
+  startImportJob,
+} from "../server/crm/imports";
+import {
+  guessImportMapping,
+  normalizeImportRow,
+  parseDelimited,
+  parseImportDate,
+  parseImportNumber,
+} from "../shared/imports";
+
+test("parseDelimited entiende comillas, saltos de línea, BOM y TSV", () => {
+  const csv = '﻿Nombre,Notas,Nombre\n"Gil, Marta","Dijo ""sí""\nayer",x\n\n  ,  \nAna,,y\n';
+  const parsed = parseDelimited(csv);
+  assert.equal(parsed.delimiter, ",");
+  assert.deepEqual(parsed.headers, ["Nombre", "Notas", "Nombre (2)"]);
+  assert.deepEqual(parsed.rows, [
+    { line: 2, cells: ["Gil, Marta", 'Dijo "sí"\nayer', "x"] },
+    { line: 6, cells: ["Ana", "", "y"] },
+  ]);
+  assert.equal(parseDelimited(csv, undefined, 1).rows.length, 1);
+
+  const tsv = parseDelimited("Empresa\tWeb\r\nACME\tacme.test\r\n");
+  assert.equal(tsv.delimiter, "\t");
+  assert.deepEqual(tsv.rows[0].cells, ["ACME", "acme.test"]);
+  assert.deepEqual(guessImportMapping("contacts", ["Nombre completo", "Correo", "Compañía", "Otro"]), {
+    "Nombre completo": "name",
+    Correo: "email",
+    Compañía: "company",
+  });
+});
+
+test("normalizeImportRow valida emails, importes y fechas", () => {
+  assert.equal(parseImportNumber("1.234,50 €"), 1234.5);
+  assert.equal(parseImportNumber("1,234.50"), 1234.5);
+  assert.equal(parseImportNumber("1.500"), 1500);
+  assert.equal(parseImportNumber("12,5"), 12.5);
+  assert.equal(parseImportNumber("doce"), null);
+  assert.equal(parseImportDate("31/12/2024")?.toISOString(), "2024-12-31T00:00:00.000Z");
+  assert.equal(parseImportDate("2024-02-30"), null);
+  assert.equal(parseImportDate("31/02/2024"), null);
+
+  const { values, errors } = normalizeImportRow("deals", {
+    title: "Renovación",
+    amount: "-3",
+    next_step: "",
+    target_close_date: "mañana",
+    contact_email: "no-es-email",
+    status: "Ganado",
+  });
+  assert.equal(values.status, "Won");
+  assert.deepEqual(
+    errors.map((error) => error.field),
+    ["amount", "next_step", "target_close_date", "contact_email", "close_reason"],
+  );
+});
+
+test("un job de contactos vincula empresas e informa de los errores por fila", async () => {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: "ana", password: "x" });
+  const content = [
+    "Nombre;Email;Empresa;Ignorada",
+    "Marta Gil;MARTA@acme.test;ACME;1",
+    ";sin-nombre@acme.test;ACME;2",
+    "Luis Pérez;luis@;Globex;3",
+    "Eva Ruiz;;acme;4",
+  ].join("\n");
+
+  await assert.rejects(
+    createImportJob(storage, { entity: "contacts", content, mapping: { Email: "email" } }, user.id),
+    /Falta asignar: Nombre/,
+  );
+
+  const job = await createImportJob(
+    storage,
+    { entity: "contacts", file_name: "contactos.csv", content, mapping: { Nombre: "name", Email: "email", Empresa: "company" } },
+    user.id,
+  );
+  assert.equal(job.status, "pending");
+  assert.equal(job.total_rows, 4);
+
+  const done = await startImportJob(storage, job.id);
+  assert.equal(done?.status, "completed");
+  assert.deepEqual([done?.processed_rows, done?.imported_rows, done?.failed_rows], [4, 2, 2]);
+
+  const failed = await storage.getImportJobRows(job.id, { status: "failed" });
+  assert.deepEqual(
+    failed.map((row) => [row.row_number, row.error]),
+    [
+      [3, "Falta nombre"],
+      [4, "Email no válido: luis@"],
+    ],
+  );
+
+  const contacts = await storage.getContacts();
+  assert.equal(contacts.length, 2);
+  assert.ok(contacts.every((contact) => contact.owner_id === user.id));
+  const acme = await storage.getCompanyByName("ACME");
+  assert.ok(contacts.every((contact) => contact.company_id === acme?.id));
+  assert.equal(contacts.find((contact) => contact.name === "Marta Gil")?.email, "marta@acme.test");
+});
+
+test("los jobs se cancelan, se reanudan por las filas pendientes y se retoman al arrancar", async () => {
+  const storage = new MemStorage();
+  const contact = await createContact(storage, { name: "Marta", email: "marta@acme.test" });
+  const content = [
+    "Título,Próximo paso,Fecha de cierre,Email del contacto,Estado,Motivo",
+    "Licencias,Demo,2030-01-15,marta@acme.test,,",
+    "Soporte,Llamar,15/01/2030,nadie@acme.test,,",
+    "Renovación,Firmar,2030-02-01,,Ganado,Mejor precio",
+  ].join("\n");
+  const input = {
+    entity: "deals" as const,
+    content,
+    mapping: guessImportMapping("deals", parseDelimited(content).headers),
+  };
+
+  const job = await createImportJob(storage, input);
+  assert.equal((await cancelImportJob(storage, job.id)).status, "cancelled");
+  assert.equal((await startImportJob(storage, job.id))?.status, "cancelled");
+  assert.equal((await storage.getImportJobRows(job.id, { status: "pending" })).length, 3);
+
+  // Una fila ya importada antes del corte no se repite al reanudar
+  const [first] = await storage.getImportJobRows(job.id);
+  await storage.updateImportJobRow(first.id, { status: "imported" });
+  assert.equal((await resumeImportJob(storage, job.id)).status, "pending");
+  const resumed = await startImportJob(storage, job.id);
+  assert.deepEqual([resumed?.status, resumed?.imported_rows, resumed?.failed_rows], ["completed", 2, 1]);
+  await assert.rejects(resumeImportJob(storage, job.id), /ya ha terminado/);
+
+  const deals = await storage.getDeals();
+  assert.deepEqual(
+    deals.map((deal) => [deal.title, deal.status, deal.close_reason]),
+    [["Renovación", "Won", "Mejor precio"]],
+  );
+  const [failed] = await storage.getImportJobRows(job.id, { status: "failed" });
+  assert.equal(failed.error, "No hay ningún contacto con email nadie@acme.test");
+
+  // Un job que quedó "running" tras un reinicio se retoma
+  const interrupted = await createImportJob(storage, input);
+  await storage.updateImportJob(interrupted.id, { status: "running" });
+  await resumeInterruptedImports(storage);
+  const finished = await startImportJob(storage, interrupted.id);
+  assert.equal(finished?.imported_rows, 2);
+  const linked = (await storage.getDeals()).find((deal) => deal.title === "Licencias");
+  assert.equal(linked?.contact_id, contact.id);
+});
+
+test("los deals importados solo se enlazan con contactos del alcance de quien importa", async () => {
+  const storage = new MemStorage();
+  const ana = await storage.createUser({ username: "ana", password: "x" });
+  const luis = await storage.createUser({ username: "luis", password: "x" });
+  const own = await createContact(storage, { name: "Marta", email: "marta@acme.test" }, ana.id);
+  await createContact(storage, { name: "Pedro", email: "pedro@globex.test" }, luis.id);
+  const content = [
+    "Título,Próximo paso,Fecha de cierre,Email del contacto",
+    "Licencias,Demo,2030-01-15,marta@acme.test",
+    "Soporte,Llamar,2030-01-15,pedro@globex.test",
+  ].join("\n");
+  const job = await createImportJob(
+    storage,
+    { entity: "deals", content, mapping: guessImportMapping("deals", parseDelimited(content).headers) },
+    ana.id,
+  );
+
+  const done = await startImportJob(storage, job.id);
+  assert.deepEqual([done?.imported_rows, done?.failed_rows], [1, 1]);
+  const [failed] = await storage.getImportJobRows(job.id, { status: "failed" });
+  assert.equal(failed.error, "No hay ningún contacto con email pedro@globex.test");
+  const deals = await storage.getDeals();
+  assert.deepEqual(deals.map((deal) => [deal.title, deal.contact_id]), [["Licencias", own.id]]);
+});
@@ -0,0 +1,548 @@
+import test, { after, before } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+
+import { can } from "../shared/permissions";
+import type { BulkReport } from "../shared/bulkActions";
+import type { DealAlertReport, DealAlertRuleConfig } from "../shared/dealAlerts";
+import { MemStorage } from "../server/storage/memory";
+import { setupAuth } from "../server/auth";
+import { syncDealAlerts } from "../server/crm/dealAlerts";
+import { registerCrmRoutes } from "../server/crm/routes";
+import { registerAiRoutes } from "../server/ai/routes";
+
+let server: Server;
+let baseUrl: string;
+const storage = new MemStorage();
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  setupAuth(app, storage);
+  registerCrmRoutes(app, storage);
+  registerAiRoutes(app, storage);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+/** Cada llamada declara la forma de la respuesta que lee; sin declararla, el cuerpo queda como `unknown`. */
+type Agent = <T = unknown>(method: string, path: string, body?: unknown) => Promise<{ status: number; body: T }>;
+type Item = { id: string };
+type Message = { message: string };
+
+function createAgent(): Agent {
+  let cookie = "";
+  return async <T>(method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(cookie ? { Cookie: cookie } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return { status: res.status, body: await res.json() };
+  };
+}
+
+async function signUp(username: string) {
+  const agent = createAgent();
+  const credentials = { username, password: "ventas-2024" };
+  const { body } = await agent<{ user: { id: string; role: string } }>("POST", "/api/auth/register", credentials);
+  return { agent, user: body.user };
+}
+
+const dealInput = (title: string) => ({
+  title,
+  next_step: "Llamada de seguimiento",
+  target_close_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(),
+  amount: 1000,
+});
+
+test("la matriz de permisos escala de Usuario a Admin", () => {
+  assert.equal(can("Usuario", "deals:update"), true);
+  assert.equal(can("Usuario", "deals:delete"), false);
+  assert.equal(can("Manager", "metrics:team"), true);
+  assert.equal(can("Manager", "users:manage"), false);
+  assert.equal(can("Admin", "scoring:configure"), true);
+  assert.equal(can(null, "deals:create"), true);
+  assert.equal(can("Desconocido", "companies:delete"), false);
+});
+
+test("los roles limitan qué deals se ven y qué acciones devuelven 403", async () => {
+  const admin = await signUp("admin");
+  assert.equal(admin.user.role, "Admin");
+  const manager = await signUp("marta");
+  const ana = await signUp("ana");
+  const bruno = await signUp("bruno");
+  assert.equal(ana.user.role, "Usuario");
+
+  // Solo el Admin gestiona usuarios
+  assert.equal((await ana.agent("PATCH", `/api/users/${manager.user.id}`, { role: "Manager" })).status, 403);
+  assert.equal((await admin.agent("PATCH", `/api/users/${manager.user.id}`, { role: "Manager" })).status, 200);
+  const assigned = await admin.agent<{ user: { manager_id: string | null } }>("PATCH", `/api/users/${ana.user.id}`, {
+    manager_id: manager.user.id,
+  });
+  assert.equal(assigned.body.user.manager_id, manager.user.id);
+
+  const anaDeal = (await ana.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Licencias Ana"))).body.deal;
+  const brunoDeal = (await bruno.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Licencias Bruno"))).body.deal;
+
+  const anaList = await ana.agent<{ deals: Item[] }>("GET", "/api/deals");
+  assert.deepEqual(
+    anaList.body.deals.map((deal) => deal.id),
+    [anaDeal.id],
+  );
+  assert.equal((await ana.agent("GET", `/api/deals/${brunoDeal.id}`)).status, 403);
+  assert.equal((await ana.agent("PATCH", `/api/deals/${brunoDeal.id}`, { amount: 1 })).status, 403);
+  // Dejarlo sin owner también lo saca del alcance
+  assert.equal((await ana.agent("PATCH", `/api/deals/${anaDeal.id}`, { owner_id: null })).status, 403);
+  assert.equal((await ana.agent("DELETE", `/api/deals/${anaDeal.id}`)).status, 403);
+  assert.equal(
+    (await ana.agent("POST", "/api/deals", { ...dealInput("Ajeno"), owner_id: bruno.user.id })).status,
+    403,
+  );
+
+  // La sesión relee el usuario en cada petición: el nuevo rol aplica sin volver a entrar.
+  // El manager ve su equipo (Ana) pero no a Bruno
+  const teamDeals = await manager.agent<{ deals: Item[] }>("GET", "/api/deals");
+  assert.deepEqual(
+    teamDeals.body.deals.map((deal) => deal.id),
+    [anaDeal.id],
+  );
+  assert.equal((await manager.agent<{ metrics: { open: number } }>("GET", "/api/metrics/quick")).body.metrics.open, 1);
+  const team = await manager.agent<{ users: Array<{ username: string; password?: string }> }>("GET", "/api/users");
+  assert.deepEqual(
+    team.body.users.map((user) => user.username).sort(),
+    ["ana", "marta"],
+  );
+  assert.equal(team.body.users[0].password, undefined);
+  assert.equal((await manager.agent("DELETE", `/api/deals/${anaDeal.id}`)).status, 200);
+  assert.equal((await ana.agent("GET", "/api/users")).status, 403);
+
+  // El Admin lo ve todo y es el único que borra empresas o carga la demo
+  const allDeals = await admin.agent<{ deals: Item[] }>("GET", "/api/deals");
+  assert.deepEqual(
+    allDeals.body.deals.map((deal) => deal.id),
+    [brunoDeal.id],
+  );
+  const company = (await ana.agent<{ company: Item }>("POST", "/api/companies", { name: "Acme" })).body.company;
+  assert.equal((await manager.agent("DELETE", `/api/companies/${company.id}`)).status, 403);
+  assert.equal((await admin.agent("DELETE", `/api/companies/${company.id}`)).status, 200);
+  assert.equal((await bruno.agent("POST", "/api/seed-demo")).status, 403);
+});
+
+test("un Usuario solo ve y edita sus contactos", async () => {
+  const owner = await signUp("carla");
+  const other = await signUp("diego");
+
+  type ContactBody = { contact: Item & { owner_id: string | null } };
+  const contact = (await owner.agent<ContactBody>("POST", "/api/contacts", { name: "Lucía Pérez" })).body.contact;
+  assert.equal(contact.owner_id, owner.user.id);
+
+  assert.equal((await other.agent<{ contacts: Item[] }>("GET", "/api/contacts")).body.contacts.length, 0);
+  assert.equal((await other.agent("PATCH", `/api/contacts/${contact.id}`, { phone: "600" })).status, 403);
+  assert.equal((await owner.agent("PATCH", `/api/contacts/${contact.id}`, { phone: "600" })).status, 200);
+  assert.equal((await owner.agent("PATCH", `/api/contacts/${contact.id}`, { owner_id: null })).status, 403);
+  assert.equal((await owner.agent("DELETE", `/api/contacts/${contact.id}`)).status, 403);
+});
+
+test("las tareas y la actividad siguen el alcance de su asignado, deal o contacto", async () => {
+  const sara = await signUp("sara");
+  const tomas = await signUp("tomas");
+  const deal = (await sara.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Renovación Sara"))).body.deal;
+  type TaskBody = { task: Item & { assigned_to: string | null } };
+  const task = (await sara.agent<TaskBody>("POST", "/api/tasks", { title: "Llamar", deal_id: deal.id })).body.task;
+  assert.equal(task.assigned_to, sara.user.id);
+
+  const ids = async (agent: Agent, path: string, key: string) =>
+    (await agent<Record<string, Item[]>>("GET", path)).body[key].map((item) => item.id);
+  assert.ok(!(await ids(tomas.agent, "/api/tasks", "tasks")).includes(task.id));
+  assert.equal((await tomas.agent("GET", `/api/tasks/${task.id}`)).status, 403);
+  assert.equal((await tomas.agent("PATCH", `/api/tasks/${task.id}`, { title: "Mía" })).status, 403);
+  assert.equal((await tomas.agent("DELETE", `/api/tasks/${task.id}`)).status, 403);
+  assert.equal((await tomas.agent("POST", "/api/tasks", { title: "Colarse", deal_id: deal.id })).status, 403);
+  assert.equal((await sara.agent("POST", "/api/tasks", { title: "Pasar", assigned_to: tomas.user.id })).status, 403);
+
+  // Asignada a Tomás, la ve él aunque el deal sea de otro
+  const admin = createAgent();
+  await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" });
+  await admin("PATCH", `/api/tasks/${task.id}`, { assigned_to: tomas.user.id });
+  assert.equal((await tomas.agent("GET", `/api/tasks/${task.id}`)).status, 200);
+  assert.ok((await ids(sara.agent, "/api/tasks", "tasks")).includes(task.id));
+
+  // La actividad del deal solo la ve quien ve el deal, y la firma quien tiene la sesión
+  const dealTimeline = `/api/timeline?entity_type=deal&entity_id=${deal.id}`;
+  assert.deepEqual(await ids(tomas.agent, dealTimeline, "entries"), []);
+  const note = { type: "note", description: "Llamada hecha", entity_type: "deal", entity_id: deal.id };
+  assert.equal((await tomas.agent("POST", "/api/timeline", note)).status, 403);
+  type EntryBody = { entry: Item & { user_id: string | null } };
+  const own = await sara.agent<EntryBody>("POST", "/api/timeline", { ...note, user_id: tomas.user.id });
+  assert.equal(own.body.entry.user_id, sara.user.id);
+  assert.equal((await tomas.agent("GET", `/api/timeline/${own.body.entry.id}`)).status, 403);
+  assert.ok(!(await ids(tomas.agent, "/api/timeline", "entries")).includes(own.body.entry.id));
+
+  // Solo quien la escribió (o un Admin) cambia una entrada
+  const [created] = (await sara.agent<{ entries: Item[] }>("GET", dealTimeline)).body.entries.slice(-1);
+  const byAdmin = (await admin<{ entry: Item }>("POST", "/api/timeline", note)).body.entry;
+  assert.equal((await sara.agent("PATCH", `/api/timeline/${byAdmin.id}`, { description: "Otra" })).status, 403);
+  assert.equal((await sara.agent("DELETE", `/api/timeline/${byAdmin.id}`)).status, 403);
+  assert.equal((await sara.agent("PATCH", `/api/timeline/${own.body.entry.id}`, { description: "Hecha" })).status, 200);
+  assert.equal((await tomas.agent("DELETE", `/api/timeline/${created.id}`)).status, 403);
+  assert.equal((await admin("DELETE", `/api/timeline/${created.id}`)).status, 200);
+});
+
+test("las acciones en bloque respetan permisos y alcance registro a registro", async () => {
+  const elena = await signUp("elena");
+  const fede = await signUp("fede");
+  const own = (await elena.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Bloque Elena"))).body.deal;
+  const foreign = (await fede.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Bloque Fede"))).body.deal;
+
+  const bulk = await elena.agent<{ report: BulkReport }>("POST", "/api/bulk/deals", {
+    ids: [own.id, foreign.id],
+    action: { type: "set_priority", priority: "Hot" },
+  });
+  assert.equal(bulk.status, 200);
+  assert.equal(bulk.body.report.succeeded, 1);
+  assert.deepEqual(bulk.body.report.results[1], { id: foreign.id, ok: false, error: "Fuera de tu alcance" });
+
+  // Borrar pide el permiso de borrado y asignar a otro, que esté en el alcance
+  const remove = { ids: [own.id], action: { type: "delete" } };
+  assert.equal((await elena.agent("POST", "/api/bulk/deals", remove)).status, 403);
+  const reassign = { ids: [own.id], action: { type: "set_owner", owner_id: fede.user.id } };
+  assert.equal((await elena.agent("POST", "/api/bulk/deals", reassign)).status, 403);
+  assert.equal((await elena.agent("POST", "/api/bulk/pipelines", remove)).status, 400);
+
+  // Las tareas siguen el alcance de su asignado, deal o contacto, también en bloque
+  const ownTask = (await elena.agent<{ task: Item }>("POST", "/api/tasks", { title: "Llamar" })).body.task;
+  const foreignTask = (await fede.agent<{ task: Item }>("POST", "/api/tasks", { title: "Llamar" })).body.task;
+  const tasks = await elena.agent<{ report: BulkReport }>("POST", "/api/bulk/tasks", {
+    ids: [ownTask.id, foreignTask.id],
+    action: { type: "delete" },
+  });
+  assert.deepEqual(tasks.body.report.results[1], { id: foreignTask.id, ok: false, error: "Fuera de tu alcance" });
+  assert.equal((await fede.agent("GET", `/api/tasks/${foreignTask.id}`)).status, 200);
+  assert.equal((await elena.agent("POST", "/api/bulk/tasks", { ...reassign, ids: [ownTask.id] })).status, 403);
+});
+
+test("solo el Admin configura campos personalizados; el resto los rellena", async () => {
+  assert.equal(can("Manager", "fields:configure"), false);
+  assert.equal(can("Admin", "fields:configure"), true);
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const gema = await signUp("gema");
+
+  const definition = { entity: "deals", label: "Origen", type: "select", options: ["Web", "Evento"] };
+  assert.equal((await gema.agent("POST", "/api/custom-fields", definition)).status, 403);
+  const created = await admin<{ field: Item & { key: string } }>("POST", "/api/custom-fields", definition);
+  assert.equal(created.status, 201);
+  assert.equal(created.body.field.key, "origen");
+  assert.equal((await admin("POST", "/api/custom-fields", { ...definition, type: "color" })).status, 400);
+
+  const listed = await gema.agent<{ fields: Array<{ key: string }> }>("GET", "/api/custom-fields?entity=deals");
+  assert.deepEqual(listed.body.fields.map((field) => field.key), ["origen"]);
+
+  const withOrigin = { ...dealInput("Con origen"), custom_fields: { origen: "web" } };
+  const deal = await gema.agent<{ deal: Item & { custom_fields: unknown } }>("POST", "/api/deals", withOrigin);
+  assert.equal(deal.status, 201);
+  assert.deepEqual(deal.body.deal.custom_fields, { origen: "Web" });
+  const invalid = await gema.agent<Message>("PATCH", `/api/deals/${deal.body.deal.id}`, {
+    custom_fields: { origen: "Radio" },
+  });
+  assert.equal(invalid.status, 400);
+  assert.match(invalid.body.message, /opción desconocida/);
+
+  assert.equal((await gema.agent("DELETE", `/api/custom-fields/${created.body.field.id}`)).status, 403);
+  assert.equal((await admin("DELETE", `/api/custom-fields/${created.body.field.id}`)).status, 200);
+  const after = await gema.agent<{ deal: { custom_fields: unknown } }>("GET", `/api/deals/${deal.body.deal.id}`);
+  assert.deepEqual(after.body.deal.custom_fields, {});
+});
+
+test("Manager y Admin gestionan las etiquetas; el Usuario solo las asigna", async () => {
+  assert.equal(can("Usuario", "tags:manage"), false);
+  assert.equal(can("Manager", "tags:manage"), true);
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const manager = await signUp("hugo");
+  const irene = await signUp("irene");
+  assert.equal((await admin("PATCH", `/api/users/${manager.user.id}`, { role: "Manager" })).status, 200);
+
+  assert.equal((await irene.agent("POST", "/api/tags", { name: "evento-2026" })).status, 403);
+  const created = await manager.agent<{ tag: Item }>("POST", "/api/tags", { name: "evento-2026", color: "#3B82F6" });
+  assert.equal(created.status, 201);
+  assert.equal((await manager.agent("POST", "/api/tags", { name: "Evento-2026" })).status, 409);
+  assert.equal((await manager.agent("POST", "/api/tags", { name: "rojo", color: "red" })).status, 400);
+
+  const tagId = created.body.tag.id;
+  const listed = await irene.agent<{ tags: Array<{ name: string }> }>("GET", "/api/tags");
+  assert.deepEqual(listed.body.tags.map((tag) => tag.name), ["evento-2026"]);
+  const tagged = { ...dealInput("Con etiqueta"), tag_ids: [tagId] };
+  const deal = await irene.agent<{ deal: Item & { tag_ids: string[] } }>("POST", "/api/deals", tagged);
+  assert.equal(deal.status, 201);
+  assert.deepEqual(deal.body.deal.tag_ids, [tagId]);
+
+  assert.equal((await irene.agent("PATCH", `/api/tags/${tagId}`, { color: "#EF4444" })).status, 403);
+  assert.equal((await irene.agent("DELETE", `/api/tags/${tagId}`)).status, 403);
+  assert.equal((await manager.agent("DELETE", `/api/tags/${tagId}`)).status, 200);
+  const after = await irene.agent<{ deal: { tag_ids: string[] } }>("GET", `/api/deals/${deal.body.deal.id}`);
+  assert.deepEqual(after.body.deal.tag_ids, []);
+});
+
+test("solo el Admin configura automatizaciones y consulta sus ejecuciones", async () => {
+  assert.equal(can("Manager", "automations:manage"), false);
+  assert.equal(can("Admin", "automations:manage"), true);
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const julia = await signUp("julia");
+
+  const rule = {
+    name: "Anotar deals grandes",
+    trigger: "deal_created",
+    conditions: [{ field: "amount", operator: "gte", value: 50000 }],
+    actions: [{ type: "log_timeline", message: "Deal grande" }],
+  };
+  assert.equal((await julia.agent("POST", "/api/automations", rule)).status, 403);
+  assert.equal((await julia.agent("GET", "/api/automations")).status, 403);
+  const invalid = await admin<Message>("POST", "/api/automations", { ...rule, actions: [] });
+  assert.equal(invalid.status, 400);
+  assert.match(invalid.body.message, /al menos una acción/);
+  const created = await admin<{ rule: Item }>("POST", "/api/automations", rule);
+  assert.equal(created.status, 201);
+  const ruleId = created.body.rule.id;
+
+  // Las reglas se aplican también a los deals de quien no puede verlas
+  const large = { ...dealInput("Contrato marco"), amount: 60000 };
+  const deal = await julia.agent<{ deal: Item }>("POST", "/api/deals", large);
+  assert.equal(deal.status, 201);
+  type RunsBody = { runs: Array<{ entity_id: string; status: string }> };
+  const runs = await admin<RunsBody>("GET", `/api/automations/${ruleId}/runs`);
+  assert.deepEqual(
+    runs.body.runs.map((run) => [run.entity_id, run.status]),
+    [[deal.body.deal.id, "success"]],
+  );
+  assert.equal((await julia.agent("GET", `/api/automations/${ruleId}/runs`)).status, 403);
+
+  const disabled = await admin<{ rule: { enabled: boolean } }>("PATCH", `/api/automations/${ruleId}`, {
+    enabled: false,
+  });
+  assert.equal(disabled.body.rule.enabled, false);
+  assert.equal((await admin("DELETE", `/api/automations/${ruleId}`)).status, 200);
+  assert.equal((await admin("GET", `/api/automations/${ruleId}/runs`)).status, 404);
+});
+
+test("todos leen las reglas de alerta; solo el Admin las configura", async () => {
+  assert.equal(can("Manager", "alerts:configure"), false);
+  assert.equal(can("Admin", "alerts:configure"), true);
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const mario = await signUp("mario");
+
+  const rules = await mario.agent<{ rules: DealAlertRuleConfig[] }>("GET", "/api/alert-rules");
+  assert.equal(rules.status, 200);
+  assert.equal(rules.body.rules[0].rule, "target_overdue");
+  assert.equal((await mario.agent("PATCH", "/api/alert-rules/inactivity", { enabled: false })).status, 403);
+
+  assert.equal((await admin("PATCH", "/api/alert-rules/desconocida", { enabled: false })).status, 400);
+  const invalid = await admin<Message>("PATCH", "/api/alert-rules/amount_drop", { params: { percent: 0 } });
+  assert.equal(invalid.status, 400);
+  assert.match(invalid.body.message, /Bajada mínima \(%\)/);
+  const updated = await admin<{ rule: DealAlertRuleConfig }>("PATCH", "/api/alert-rules/amount_drop", {
+    severity: "critical",
+    params: { percent: "5" },
+  });
+  assert.equal(updated.status, 200);
+  assert.deepEqual(updated.body.rule.params, { percent: 5 });
+  const after = await mario.agent<{ rules: DealAlertRuleConfig[] }>("GET", "/api/alert-rules");
+  assert.equal(after.body.rules.find((rule) => rule.rule === "amount_drop")?.severity, "critical");
+});
+
+test("todos leen las políticas de SLA; Manager y Admin las cambian", async () => {
+  assert.equal(can("Usuario", "sla:configure"), false);
+  assert.equal(can("Manager", "sla:configure"), true);
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const manager = await signUp("nuria");
+  const oscar = await signUp("oscar");
+  assert.equal((await admin("PATCH", `/api/users/${manager.user.id}`, { role: "Manager" })).status, 200);
+
+  assert.equal((await oscar.agent("PUT", "/api/sla-policies", { sla_hot_days: 2 })).status, 403);
+  assert.equal((await oscar.agent("GET", "/api/sla-escalations")).status, 403);
+  type SlaPolicy = { id: string; stage_id: string | null; sla_hot_days: number };
+  const invalid = await manager.agent<Message>("PUT", "/api/sla-policies", { sla_hot_days: 0 });
+  assert.equal(invalid.status, 400);
+  assert.match(invalid.body.message, /SLA Hot \(días\)/);
+  const saved = await manager.agent<{ policy: SlaPolicy }>("PUT", "/api/sla-policies", { sla_hot_days: "2" });
+  assert.equal(saved.status, 200);
+  assert.equal(saved.body.policy.stage_id, null);
+  assert.equal(saved.body.policy.sla_hot_days, 2);
+
+  const listed = await oscar.agent<{ policies: SlaPolicy[] }>("GET", "/api/sla-policies");
+  assert.equal(listed.status, 200);
+  assert.equal(listed.body.policies[0].sla_hot_days, 2);
+  assert.equal((await manager.agent("DELETE", `/api/sla-policies/${saved.body.policy.id}`)).status, 400);
+  assert.equal((await manager.agent("GET", "/api/sla-escalations")).status, 200);
+  // Vuelve a los valores por defecto para el resto de pruebas
+  assert.equal((await admin("PUT", "/api/sla-policies", {})).status, 200);
+});
+
+test("un Manager solo ve los escalados de SLA de los deals de su equipo", async () => {
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const manager = await signUp("rosa");
+  const member = await signUp("sergio");
+  const outsider = await signUp("ulises");
+  assert.equal((await admin("PATCH", `/api/users/${manager.user.id}`, { role: "Manager" })).status, 200);
+  assert.equal((await admin("PATCH", `/api/users/${member.user.id}`, { manager_id: manager.user.id })).status, 200);
+
+  const own = await member.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Del equipo"));
+  const foreign = await outsider.agent<{ deal: Item }>("POST", "/api/deals", dealInput("De otro equipo"));
+  for (const deal of [own.body.deal, foreign.body.deal]) {
+    await storage.createSlaEscalation({ deal_id: deal.id, step: "owner", last_activity: new Date(), breach_days: 3 });
+  }
+
+  type Escalation = { deal_id: string };
+  const scoped = await manager.agent<{ escalations: Escalation[] }>("GET", "/api/sla-escalations");
+  assert.equal(scoped.status, 200);
+  assert.deepEqual(scoped.body.escalations.map((escalation) => escalation.deal_id), [own.body.deal.id]);
+  const filtered = await manager.agent<{ escalations: Escalation[] }>(
+    "GET",
+    `/api/sla-escalations?deal_id=${foreign.body.deal.id}`,
+  );
+  assert.deepEqual(filtered.body.escalations, []);
+  const all = await admin<{ escalations: Escalation[] }>("GET", "/api/sla-escalations");
+  assert.ok(all.body.escalations.some((escalation) => escalation.deal_id === foreign.body.deal.id));
+});
+
+test("cada uno trabaja las alertas de sus deals; el historial es de Manager y Admin", async () => {
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const pablo = await signUp("pablo");
+  const quique = await signUp("quique");
+  const created = await pablo.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Recortado"));
+  assert.equal(created.status, 201);
+  const dealId = created.body.deal.id;
+  assert.equal((await pablo.agent("PATCH", `/api/deals/${dealId}`, { amount: 100 })).status, 200);
+
+  type DealAlertItem = { deal_id: string };
+  type AlertUser = { alert_sensitivity: string; password?: string };
+  // La consulta solo lee: la alerta aparece cuando sincroniza el planificador
+  const pending = await pablo.agent<{ alerts: DealAlertItem[] }>("GET", "/api/deal-alerts");
+  assert.ok(!pending.body.alerts.some((alert) => alert.deal_id === dealId));
+  await syncDealAlerts(storage);
+  const own = await pablo.agent<{ alerts: DealAlertItem[] }>("GET", "/api/deal-alerts");
+  assert.equal(own.status, 200);
+  assert.ok(own.body.alerts.some((alert) => alert.deal_id === dealId));
+  const others = await quique.agent<{ alerts: DealAlertItem[] }>("GET", "/api/deal-alerts");
+  assert.ok(!others.body.alerts.some((alert) => alert.deal_id === dealId));
+
+  const snooze = { status: "snoozed", snoozed_until: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() };
+  assert.equal((await quique.agent("PATCH", `/api/deals/${dealId}/alert`, snooze)).status, 403);
+  const invalid = await pablo.agent("PATCH", `/api/deals/${dealId}/alert`, { status: "dismissed" });
+  assert.equal(invalid.status, 400);
+  const snoozed = await pablo.agent<{ alert: { status: string } }>("PATCH", `/api/deals/${dealId}/alert`, snooze);
+  assert.equal(snoozed.status, 200);
+  assert.equal(snoozed.body.alert.status, "snoozed");
+
+  assert.equal((await pablo.agent("PUT", "/api/deal-alerts/preferences", { sensitivity: "nada" })).status, 400);
+  const critical = { sensitivity: "critical" };
+  const preference = await pablo.agent<{ user: AlertUser }>("PUT", "/api/deal-alerts/preferences", critical);
+  assert.equal(preference.status, 200);
+  assert.equal(preference.body.user.alert_sensitivity, "critical");
+  assert.equal(preference.body.user.password, undefined);
+  assert.equal((await pablo.agent<{ user: AlertUser }>("GET", "/api/auth/me")).body.user.alert_sensitivity, "critical");
+
+  assert.equal((await pablo.agent("GET", "/api/deal-alerts/report")).status, 403);
+  const report = await admin<{ report: DealAlertReport }>("GET", "/api/deal-alerts/report?from=2020-01-01");
+  assert.equal(report.status, 200);
+  const owner = report.body.report.owners.find((entry) => entry.owner_id === pablo.user.id);
+  assert.equal(owner?.pending, 1);
+
+  // Al reasignar el deal la alerta pasa al nuevo owner sin esperar a la sincronización
+  await storage.updateDeal(dealId, { owner_id: quique.user.id });
+  const previous = await pablo.agent<{ alerts: DealAlertItem[] }>("GET", "/api/deal-alerts");
+  assert.ok(!previous.body.alerts.some((alert) => alert.deal_id === dealId));
+  const reassigned = await quique.agent<{ alerts: Array<DealAlertItem & { owner_id: string }> }>(
+    "GET",
+    "/api/deal-alerts",
+  );
+  assert.equal(reassigned.body.alerts.find((alert) => alert.deal_id === dealId)?.owner_id, quique.user.id);
+});
+
+test("solo el Admin configura los canales de alertas y consulta sus envíos", async () => {
+  const admin = createAgent();
+  assert.equal((await admin("POST", "/api/auth/login", { username: "admin", password: "ventas-2024" })).status, 200);
+  const raquel = await signUp("raquel");
+
+  const channel = { name: "Ventas", format: "slack", url: `${baseUrl}/webhook-inexistente`, owner_ids: [] };
+  assert.equal((await raquel.agent("GET", "/api/alert-channels")).status, 403);
+  assert.equal((await raquel.agent("POST", "/api/alert-channels", channel)).status, 403);
+  const invalid = await admin<Message>("POST", "/api/alert-channels", { ...channel, url: "ftp://example.com" });
+  assert.equal(invalid.status, 400);
+  assert.match(invalid.body.message, /http\(s\)/);
+  const unknownOwner = await admin("POST", "/api/alert-channels", { ...channel, owner_ids: [raquel.user.id, "nadie"] });
+  assert.equal(unknownOwner.status, 400);
+  const ownChannel = { ...channel, owner_ids: [raquel.user.id] };
+  const created = await admin<{ channel: Item }>("POST", "/api/alert-channels", ownChannel);
+  assert.equal(created.status, 201);
+  const channelId = created.body.channel.id;
+
+  // Un 404 del webhook no se reintenta: queda como fallido al primer intento
+  type DeliveryBody = { delivery: { status: string; attempts: number } };
+  const sent = await admin<DeliveryBody>("POST", `/api/alert-channels/${channelId}/send`);
+  assert.equal(sent.status, 200);
+  assert.deepEqual([sent.body.delivery.status, sent.body.delivery.attempts], ["failed", 1]);
+  assert.equal((await raquel.agent("GET", `/api/alert-channels/${channelId}/deliveries`)).status, 403);
+  type DeliveriesBody = { deliveries: Array<{ response_status: number | null }> };
+  const deliveries = await admin<DeliveriesBody>("GET", `/api/alert-channels/${channelId}/deliveries`);
+  assert.equal(deliveries.body.deliveries[0].response_status, 404);
+
+  type ChannelBody = { channel: { enabled: boolean; interval_hours: number } };
+  const patch = { enabled: false, interval_hours: 4 };
+  const patched = await admin<ChannelBody>("PATCH", `/api/alert-channels/${channelId}`, patch);
+  assert.deepEqual([patched.body.channel.enabled, patched.body.channel.interval_hours], [false, 4]);
+  assert.equal((await admin("DELETE", `/api/alert-channels/${channelId}`)).status, 200);
+  assert.equal((await admin("GET", `/api/alert-channels/${channelId}/deliveries`)).status, 404);
+});
+
+test("la IA pide sesión y solo acepta deals y contactos del alcance", async (t) => {
+  // Sin OPENAI_API_KEY responde con el texto de respaldo y lo anota en consola
+  t.mock.method(console, "error", () => {});
+  t.mock.method(console, "warn", () => {});
+  const vera = await signUp("vera");
+  const walter = await signUp("walter");
+  const own = (await vera.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Propio"))).body.deal;
+  const foreign = (await walter.agent<{ deal: Item }>("POST", "/api/deals", dealInput("Ajeno"))).body.deal;
+  const contact = (await walter.agent<{ contact: Item }>("POST", "/api/contacts", { name: "Xenia Ros" })).body.contact;
+  const nextStep = (id: string) => ({
+    deal: { id, title: "Deal", stage: "Prospección" },
+    fallbackText: "Llamar",
+  });
+
+  assert.equal((await createAgent()("POST", "/api/ai/next-step", nextStep(own.id))).status, 401);
+  assert.equal((await vera.agent("POST", "/api/ai/next-step", nextStep(own.id))).status, 200);
+  assert.equal((await vera.agent("POST", "/api/ai/next-step", nextStep(foreign.id))).status, 403);
+  assert.equal((await vera.agent("POST", "/api/ai/next-step", nextStep("no-existe"))).status, 403);
+
+  const summary = await vera.agent("POST", "/api/ai/contact-summary", {
+    contact: { id: contact.id, name: "Xenia Ros" },
+    fallbackText: "Revisar",
+  });
+  assert.equal(summary.status, 403);
+  const digest = await vera.agent("POST", "/api/ai/digest", {
+    timeframe: "today",
+    stats: { hotDeals: 0, riskDeals: 0, overdueTasks: 0 },
+    topDeals: [{ id: own.id }, { id: foreign.id }],
+    alerts: [],
+    fallbackText: "Sin novedades",
+  });
+  assert.equal(digest.status, 403);
+});
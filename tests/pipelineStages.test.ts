@@ -0,0 +1,107 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import {
+  createPipelineStage,
+  listPipelineStages,
+  reorderPipelineStages,
+  updatePipelineStage,
+} from "../server/crm/pipelineStages";
+import { getDefaultPipeline } from "../server/crm/pipelines";
+import { DEFAULT_PIPELINE_STAGES, getStageRank } from "../shared/pipelineStages";
+import type { IStorage } from "../server/storage";
+
+const inTenDays = () => new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+
+async function defaultStages(storage: IStorage) {
+  return listPipelineStages(storage, (await getDefaultPipeline(storage)).id);
+}
+
+test("listPipelineStages siembra las etapas por defecto una sola vez", async () => {
+  const storage = new MemStorage();
+  const { id } = await getDefaultPipeline(storage);
+  const [first, second] = await Promise.all([listPipelineStages(storage, id), listPipelineStages(storage, id)]);
+
+  assert.deepEqual(
+    first.map((stage) => stage.name),
+    DEFAULT_PIPELINE_STAGES.map((stage) => stage.name),
+  );
+  assert.equal(second.length, DEFAULT_PIPELINE_STAGES.length);
+  assert.equal((await storage.getPipelineStages()).length, DEFAULT_PIPELINE_STAGES.length);
+});
+
+test("renombrar una etapa mueve sus deals y rechaza nombres repetidos", async () => {
+  const storage = new MemStorage();
+  const deal = await createDeal(storage, {
+    title: "Consultoría",
+    stage: "Propuesta",
+    next_step: "Enviar propuesta",
+    target_close_date: inTenDays(),
+  });
+  const stages = await defaultStages(storage);
+  const proposal = stages.find((stage) => stage.name === "Propuesta")!;
+
+  await assert.rejects(updatePipelineStage(storage, proposal.id, { name: "cierre" }), /Ya existe/);
+
+  await updatePipelineStage(storage, proposal.id, { name: "Oferta enviada" });
+  assert.equal((await storage.getDeal(deal.id))?.stage, "Oferta enviada");
+});
+
+test("el pipeline conserva al menos una etapa activa", async () => {
+  const storage = new MemStorage();
+  const stages = await defaultStages(storage);
+
+  for (const stage of stages.slice(1)) {
+    await updatePipelineStage(storage, stage.id, { is_active: false });
+  }
+  await assert.rejects(updatePipelineStage(storage, stages[0].id, { is_active: false }), /al menos una etapa activa/);
+});
+
+test("reorderPipelineStages exige todas las etapas una sola vez", async () => {
+  const storage = new MemStorage();
+  const stages = await defaultStages(storage);
+  const ids = stages.map((stage) => stage.id);
+
+  await assert.rejects(reorderPipelineStages(storage, ids.slice(1)), /todas las etapas/);
+  await assert.rejects(reorderPipelineStages(storage, [ids[0], ...ids.slice(0, -1)]), /todas las etapas/);
+
+  const reordered = await reorderPipelineStages(storage, [...ids].reverse());
+  assert.deepEqual(
+    reordered.map((stage) => stage.name),
+    DEFAULT_PIPELINE_STAGES.map((stage) => stage.name).reverse(),
+  );
+  assert.deepEqual(getStageRank(reordered, "Cierre"), { rank: 1, total: ids.length });
+});
+
+test("los deals usan la configuración de etapas: probabilidad, entrada y cierre", async () => {
+  const storage = new MemStorage();
+  const stages = await defaultStages(storage);
+  const discovery = await createPipelineStage(storage, stages[0].pipeline_id, {
+    name: "Descubrimiento",
+    default_probability: 40,
+  });
+  await reorderPipelineStages(storage, [discovery.id, ...stages.map((stage) => stage.id)]);
+
+  const deal = await createDeal(storage, {
+    title: "Piloto",
+    next_step: "Agendar demo",
+    target_close_date: inTenDays(),
+  });
+  assert.equal(deal.stage, "Descubrimiento");
+  // 40 de la etapa + 5 por próximo paso, cierre en menos de 14 días y actividad reciente
+  assert.equal(deal.probability, 55);
+
+  const renamed = await updateDeal(storage, deal.id, { stage: "negociacion" });
+  assert.equal(renamed.stage, "Negociación");
+
+  await assert.rejects(updateDeal(storage, deal.id, { stage: "Inventada" }), /Etapa desconocida/);
+
+  const closing = stages.find((stage) => stage.name === "Cierre")!;
+  await updatePipelineStage(storage, closing.id, { is_active: false });
+  await assert.rejects(updateDeal(storage, deal.id, { stage: "Cierre" }), /desactivada/);
+
+  const won = await updateDeal(storage, deal.id, { status: "Won", close_reason: "Precio" });
+  assert.equal(won.stage, "Negociación");
+});
@@ -0,0 +1,118 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import { listPipelineStages, updatePipelineStage } from "../server/crm/pipelineStages";
+import {
+  createPipeline,
+  deletePipeline,
+  getDefaultPipeline,
+  listPipelines,
+  updatePipeline,
+} from "../server/crm/pipelines";
+import { DEFAULT_PIPELINE_NAME, mapStageToPipeline } from "../shared/pipelineStages";
+
+const inTenDays = () => new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+
+const dealInput = (title: string, extra: Record<string, unknown> = {}) => ({
+  title,
+  next_step: "Llamar",
+  target_close_date: inTenDays(),
+  ...extra,
+});
+
+test("listPipelines crea un único pipeline por defecto", async () => {
+  const storage = new MemStorage();
+  const [first, second] = await Promise.all([listPipelines(storage), listPipelines(storage)]);
+
+  assert.equal(first.length, 1);
+  assert.equal(second.length, 1);
+  assert.equal(first[0].name, DEFAULT_PIPELINE_NAME);
+  assert.equal(first[0].is_default, true);
+
+  const deal = await createDeal(storage, dealInput("Sin pipeline"));
+  assert.equal(deal.pipeline_id, first[0].id);
+});
+
+test("cada pipeline tiene sus etapas y los renombrados no cruzan pipelines", async () => {
+  const storage = new MemStorage();
+  const main = await getDefaultPipeline(storage);
+  const renewals = await createPipeline(storage, { name: "Renovaciones" });
+  await assert.rejects(createPipeline(storage, { name: "renovaciones" }), /Ya existe un pipeline/);
+
+  const renewalStages = await listPipelineStages(storage, renewals.id);
+  assert.equal(renewalStages.length, 5);
+  assert.ok(renewalStages.every((stage) => stage.pipeline_id === renewals.id));
+
+  const mainDeal = await createDeal(storage, dealInput("Nuevo cliente", { stage: "Propuesta" }));
+  const renewalDeal = await createDeal(storage, dealInput("Renovación", { stage: "Propuesta", pipeline_id: renewals.id }));
+
+  const proposal = renewalStages.find((stage) => stage.name === "Propuesta")!;
+  await updatePipelineStage(storage, proposal.id, { name: "Oferta de renovación" });
+
+  assert.equal((await storage.getDeal(renewalDeal.id))?.stage, "Oferta de renovación");
+  assert.equal((await storage.getDeal(mainDeal.id))?.stage, "Propuesta");
+  assert.equal((await storage.getDeals({ pipeline_id: main.id })).length, 1);
+});
+
+test("mover un deal de pipeline traslada su etapa y lo registra en el timeline", async () => {
+  const storage = new MemStorage();
+  const partners = await createPipeline(storage, { name: "Partners" });
+  const partnerStages = await listPipelineStages(storage, partners.id);
+  // Partners: Registro → Cualificado → Firma
+  await updatePipelineStage(storage, partnerStages[0].id, { name: "Registro" });
+  await updatePipelineStage(storage, partnerStages[1].id, { name: "Cualificado" });
+  await updatePipelineStage(storage, partnerStages[2].id, { is_active: false });
+  await updatePipelineStage(storage, partnerStages[3].id, { is_active: false });
+  await updatePipelineStage(storage, partnerStages[4].id, { name: "Firma" });
+
+  const deal = await createDeal(storage, dealInput("Alianza", { stage: "Negociación" }));
+  const moved = await updateDeal(storage, deal.id, { pipeline_id: partners.id });
+  assert.equal(moved.pipeline_id, partners.id);
+  // Negociación es la 4.ª de 5: la posición relativa más cercana en 3 etapas es la última
+  assert.equal(moved.stage, "Firma");
+
+  const [entry] = await storage.getTimelineEntries({ entity_id: deal.id, limit: 1 });
+  const metadata = JSON.parse(entry?.metadata ?? "{}");
+  assert.equal(metadata.changes[0], `Pipeline: ${DEFAULT_PIPELINE_NAME} → Partners`);
+
+  const back = await updateDeal(storage, deal.id, { pipeline_id: (await getDefaultPipeline(storage)).id, stage: "Calificación" });
+  assert.equal(back.stage, "Calificación");
+  await assert.rejects(updateDeal(storage, deal.id, { pipeline_id: partners.id, stage: "Calificación" }), /Etapa desconocida/);
+  await assert.rejects(updateDeal(storage, deal.id, { pipeline_id: partners.id, stage: "Propuesta" }), /desactivada/);
+});
+
+test("mapStageToPipeline prefiere el mismo nombre y si no la posición relativa", () => {
+  const from = ["A", "B", "C", "D", "E"].map((name, order_index) => ({ name, order_index }));
+  const to = [
+    { name: "Inicio", order_index: 0 },
+    { name: "c", order_index: 1 },
+    { name: "Fin", order_index: 2 },
+  ];
+
+  assert.equal(mapStageToPipeline(from, to, "C"), "c");
+  assert.equal(mapStageToPipeline(from, to, "A"), "Inicio");
+  assert.equal(mapStageToPipeline(from, to, "B"), "c");
+  assert.equal(mapStageToPipeline(from, to, "E"), "Fin");
+});
+
+test("el pipeline por defecto es único y solo se borran pipelines vacíos", async () => {
+  const storage = new MemStorage();
+  const main = await getDefaultPipeline(storage);
+  const renewals = await createPipeline(storage, { name: "Renovaciones" });
+
+  await assert.rejects(updatePipeline(storage, main.id, { is_default: false }), /predeterminado/);
+  await updatePipeline(storage, renewals.id, { is_default: true });
+  assert.equal((await getDefaultPipeline(storage)).id, renewals.id);
+  assert.equal((await storage.getPipeline(main.id))?.is_default, false);
+
+  await assert.rejects(deletePipeline(storage, renewals.id), /predeterminado/);
+  const deal = await createDeal(storage, dealInput("Renovación anual", { pipeline_id: main.id }));
+  await assert.rejects(deletePipeline(storage, main.id), /tiene deals/);
+
+  await updateDeal(storage, deal.id, { pipeline_id: renewals.id });
+  await deletePipeline(storage, main.id);
+  assert.equal((await listPipelines(storage)).length, 1);
+  assert.equal((await storage.getPipelineStages(main.id)).length, 0);
+});
@@ -0,0 +1,24 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { dealPath, sectionForPath, sectionPath, updateSearch } from "../client/src/lib/routes";
+
+test("cada ruta abre su sección del dashboard", () => {
+  assert.equal(sectionForPath("/"), "Dashboard");
+  assert.equal(sectionForPath("/pipeline"), "Pipeline");
+  assert.equal(sectionForPath("/tasks/"), "Tareas");
+  assert.equal(sectionForPath(dealPath("d-1")), "Pipeline");
+  assert.equal(sectionForPath("/contacts/c-1"), "Contactos");
+  assert.equal(sectionForPath("/companies/e-1"), "Empresas");
+  assert.equal(sectionForPath("/deals"), null);
+  assert.equal(sectionForPath("/nada"), null);
+  assert.equal(sectionPath("Métricas"), "/metrics");
+  assert.equal(sectionPath("Desconocida"), "/");
+});
+
+test("updateSearch solo deja en la URL los filtros activos", () => {
+  assert.equal(updateSearch("", { state: "Doing" }), "?state=Doing");
+  assert.equal(updateSearch("?state=Doing&q=acme", { state: null }), "?q=acme");
+  assert.equal(updateSearch("?q=acme", { q: "" }), "");
+  assert.equal(updateSearch("?pipeline=p1", { q: "a b" }), "?pipeline=p1&q=a+b");
+});
@@ -0,0 +1,79 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import {
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  setDefaultSavedView,
+  updateSavedView,
+} from "../server/crm/savedViews";
+import { applyViewConfigToSearch, hasViewParams, viewConfigFromSearch } from "../shared/savedViews";
+
+test("la vista se lee y se aplica sobre la query string de su listado", () => {
+  const search = "?pipeline=p1&q=acme&priority=Hot&sort=-amount&cols=&list_q=otro&list_group=stage";
+  assert.deepEqual(viewConfigFromSearch("deals_board", search), {
+    filters: { q: "acme", priority: "Hot" },
+    sort: { key: "amount", direction: "desc" },
+    columns: [],
+    group_by: null,
+  });
+  assert.deepEqual(viewConfigFromSearch("deals", search), {
+    filters: { q: "otro" },
+    sort: null,
+    columns: null,
+    group_by: "stage",
+  });
+
+  const applied = applyViewConfigToSearch("deals", search, {
+    filters: { status: "all", unknown: "x" },
+    sort: { key: "title", direction: "asc" },
+    columns: ["amount", "stage"],
+    group_by: null,
+  });
+  const params = new URLSearchParams(applied);
+  assert.equal(params.get("q"), "acme");
+  assert.equal(params.get("pipeline"), "p1");
+  assert.equal(params.get("list_q"), null);
+  assert.equal(params.get("list_status"), "all");
+  assert.equal(params.get("list_unknown"), null);
+  assert.equal(params.get("list_sort"), "title");
+  assert.equal(params.get("list_cols"), "amount,stage");
+  assert.equal(hasViewParams("contacts", "?pipeline=p1"), false);
+  assert.equal(hasViewParams("deals", applied), true);
+});
+
+test("las vistas compartidas las ve el equipo pero solo las cambia quien las creó", async () => {
+  const storage = new MemStorage();
+  const ana = await storage.createUser({ username: "ana", password: "x" });
+  const luis = await storage.createUser({ username: "luis", password: "x" });
+  const config = { filters: { priority: "Hot" }, sort: null, columns: null, group_by: null };
+
+  const hot = await createSavedView(storage, { list: "deals_board", name: "Calientes", shared: true, config }, ana.id);
+  await createSavedView(storage, { list: "deals_board", name: "Mías", config }, ana.id);
+  await assert.rejects(
+    createSavedView(storage, { list: "deals_board", name: "calientes ", config }, ana.id),
+    /Ya tienes una vista/,
+  );
+  await assert.rejects(
+    createSavedView(storage, { list: "contacts", name: "Rara", config: { ...config, group_by: "stage" } }, ana.id),
+    /Agrupación desconocida/,
+  );
+
+  assert.deepEqual((await listSavedViews(storage, luis.id, "deals_board")).map((view) => view.name), ["Calientes"]);
+  assert.deepEqual((await listSavedViews(storage, ana.id)).map((view) => view.name), ["Calientes", "Mías"]);
+  await assert.rejects(updateSavedView(storage, hot.id, { name: "Otra" }, luis.id), /Solo quien creó la vista/);
+
+  await setDefaultSavedView(storage, luis.id, "deals_board", hot.id);
+  await assert.rejects(setDefaultSavedView(storage, luis.id, "contacts", hot.id), /otro listado/);
+  const [luisView] = await listSavedViews(storage, luis.id, "deals_board");
+  assert.equal(luisView.is_default, true);
+  assert.deepEqual(luisView.config.filters, { priority: "Hot" });
+
+  const renamed = await updateSavedView(storage, hot.id, { name: "Hot" }, ana.id);
+  assert.deepEqual([renamed.name, renamed.shared, renamed.is_default], ["Hot", true, false]);
+
+  await deleteSavedView(storage, hot.id, ana.id);
+  assert.deepEqual(await storage.getSavedViewDefaults(luis.id), []);
+});
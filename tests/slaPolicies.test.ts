@@ -0,0 +1,184 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  DEFAULT_SLA_POLICY,
+  dueEscalationSteps,
+  resolveSlaPolicy,
+  validateSlaPolicy,
+  validateSlaPolicyOverride,
+} from "../shared/slaPolicies";
+import { computeDealAttention, dealSlaPolicy } from "../client/src/lib/pipelineInsights";
+import { calculateRiskLevel } from "../client/src/lib/scoring";
+import type { Deal, PipelineStage } from "../client/src/lib/types";
+import { MemStorage } from "../server/storage/memory";
+import { createDeal } from "../server/crm/deals";
+import { getDefaultPipeline } from "../server/crm/pipelines";
+import { listPipelineStages } from "../server/crm/pipelineStages";
+import { checkSlaBreaches, deleteSlaPolicy, listSlaEscalations, saveSlaPolicy } from "../server/crm/slaPolicies";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+test("la política de una etapa se impone a la general y ambas a los valores por defecto", () => {
+  const scopes = [
+    { stage_id: null, sla_hot_days: 2, risk_high: 6 },
+    { stage_id: "negociacion", sla_hot_days: 1, sla_warm_days: null },
+  ];
+  assert.deepEqual(resolveSlaPolicy([]), DEFAULT_SLA_POLICY);
+  assert.equal(resolveSlaPolicy(scopes).sla_hot_days, 2);
+  assert.equal(resolveSlaPolicy(scopes, "propuesta").sla_hot_days, 2);
+  const negotiation = resolveSlaPolicy(scopes, "negociacion");
+  assert.equal(negotiation.sla_hot_days, 1);
+  assert.equal(negotiation.sla_warm_days, 7);
+  assert.equal(negotiation.risk_high, 6);
+
+  assert.deepEqual(validateSlaPolicyOverride({ sla_hot_days: 0, risk_high: 7.5, escalate_task_after_days: null }), [
+    "SLA Hot (días): debe ser un entero entre 1 y 365",
+    "Riesgo alto desde (puntos): debe ser un entero entre 1 y 10",
+  ]);
+  assert.deepEqual(validateSlaPolicy({ ...DEFAULT_SLA_POLICY, risk_medium: 7, escalate_task_after_days: 1 }), [
+    "El riesgo alto debe empezar por encima del medio",
+    "La tarea no puede crearse antes de avisar al manager",
+  ]);
+
+  assert.deepEqual(dueEscalationSteps(0, DEFAULT_SLA_POLICY), []);
+  assert.deepEqual(dueEscalationSteps(2, DEFAULT_SLA_POLICY), ["owner"]);
+  assert.deepEqual(dueEscalationSteps(3, DEFAULT_SLA_POLICY), ["owner", "manager"]);
+  assert.deepEqual(dueEscalationSteps(5, DEFAULT_SLA_POLICY), ["owner", "manager", "task"]);
+});
+
+test("el cliente aplica el SLA y los umbrales de riesgo de la etapa de cada deal", () => {
+  const stages = [{ id: "propuesta", pipeline_id: "principal", name: "Propuesta" }] as PipelineStage[];
+  const deal = {
+    id: "deal-1",
+    title: "Licencias",
+    stage: "Propuesta",
+    status: "Open",
+    priority: "Hot",
+    probability: 80,
+    next_step: "Llamar",
+    target_close_date: new Date(Date.now() + 10 * dayMs).toISOString(),
+    last_activity: new Date(Date.now() - 16 * dayMs).toISOString(),
+    created_at: new Date(Date.now() - 30 * dayMs).toISOString(),
+    inactivity_days: 16,
+  } as Deal;
+  const context = {
+    stages,
+    defaultPipelineId: "principal",
+    slaPolicies: [{ stage_id: "propuesta", sla_hot_days: 20, sla_warm_days: 20, sla_cold_days: 20, risk_medium: 5 }],
+  };
+
+  assert.equal(dealSlaPolicy(deal, context).sla_hot_days, 20);
+  assert.equal(dealSlaPolicy({ ...deal, pipeline_id: "otro" }, context).sla_hot_days, 3);
+  // 16 días sin actividad: fuera de cualquier SLA por defecto, dentro del de la etapa
+  assert.ok(computeDealAttention([deal]).length > 0);
+  assert.deepEqual(computeDealAttention([deal], context), []);
+
+  // 16 días sin actividad suman 4 puntos de riesgo: medio por defecto, bajo si el medio empieza en 5
+  assert.equal(calculateRiskLevel(deal), "Medio");
+  assert.equal(calculateRiskLevel(deal, { Medio: 5, Alto: 7 }), "Bajo");
+  assert.equal(computeDealAttention([deal], { ...context, slaPolicies: [] })[0].risk, "Medio");
+});
+
+test("las políticas se validan al guardarlas y una etapa sin valores deja de tenerla", async () => {
+  const storage = new MemStorage();
+  const pipeline = await getDefaultPipeline(storage);
+  const [stage] = await listPipelineStages(storage, pipeline.id);
+
+  await assert.rejects(saveSlaPolicy(storage, { stage_id: "nada" }), /Etapa desconocida: nada/);
+  await assert.rejects(
+    saveSlaPolicy(storage, { stage_id: null, risk_medium: 8 }),
+    /El riesgo alto debe empezar por encima del medio/,
+  );
+
+  const general = await saveSlaPolicy(storage, { stage_id: null, sla_hot_days: 2 }, null);
+  assert.equal(general?.sla_hot_days, 2);
+  const stagePolicy = await saveSlaPolicy(storage, { stage_id: stage.id, risk_high: 5 });
+  assert.equal(stagePolicy?.risk_high, 5);
+
+  // La general no puede dejar incoherente a una etapa que hereda de ella
+  await assert.rejects(
+    saveSlaPolicy(storage, { stage_id: null, sla_hot_days: 2, risk_medium: 6 }),
+    new RegExp(`Etapa ${stage.name}: El riesgo alto debe empezar por encima del medio`),
+  );
+
+  // Guardar de nuevo sustituye los valores del alcance
+  const replaced = await saveSlaPolicy(storage, { stage_id: null, sla_warm_days: 5 });
+  assert.equal(replaced?.id, general?.id);
+  assert.equal(replaced?.sla_hot_days, null);
+
+  assert.equal(await saveSlaPolicy(storage, { stage_id: stage.id }), null);
+  assert.equal((await storage.getSlaPolicies()).length, 1);
+  await assert.rejects(deleteSlaPolicy(storage, general!.id), /La política general no se puede borrar/);
+});
+
+test("un deal fuera de SLA avisa al owner, luego a su manager y por último crea una tarea", async () => {
+  const storage = new MemStorage();
+  const manager = await storage.createUser({ username: "marta", password: "x", full_name: "Marta" });
+  const seller = await storage.createUser({ username: "ana", password: "x", full_name: "Ana" });
+  await storage.updateUser(seller.id, { manager_id: manager.id });
+
+  const deal = await createDeal(
+    storage,
+    { title: "Flota", amount: 30000, next_step: "Demo", target_close_date: new Date(Date.now() + 30 * dayMs) },
+    seller.id,
+  );
+  await storage.updateDeal(deal.id, { priority: "Hot" });
+  const quiet = await createDeal(
+    storage,
+    { title: "Sin prisa", next_step: "Demo", target_close_date: new Date(Date.now() + 30 * dayMs) },
+    seller.id,
+  );
+  await storage.updateDeal(quiet.id, { priority: "Cold" });
+  const pipeline = await getDefaultPipeline(storage);
+  const stage = (await listPipelineStages(storage, pipeline.id)).find((candidate) => candidate.name === deal.stage);
+  // En la etapa del deal el Cold aguanta más que por defecto
+  await saveSlaPolicy(storage, { stage_id: stage!.id, sla_cold_days: 30 });
+
+  const lastActivity = deal.last_activity!.getTime();
+  const at = (days: number) => new Date(lastActivity + days * dayMs + 60_000);
+
+  // SLA Hot de 3 días: al cuarto solo se avisa al owner
+  assert.deepEqual(
+    (await checkSlaBreaches(storage, at(4))).map((escalation) => [escalation.step, escalation.breach_days]),
+    [["owner", 1]],
+  );
+  assert.deepEqual(await checkSlaBreaches(storage, at(4)), []);
+
+  const escalations = await checkSlaBreaches(storage, at(8));
+  assert.deepEqual(
+    escalations.map((escalation) => [escalation.step, escalation.notified_user_id]),
+    [
+      ["manager", manager.id],
+      ["task", null],
+    ],
+  );
+  const [task] = await storage.getTasks({ deal_id: deal.id });
+  assert.equal(task.title, "Reactivar Flota");
+  assert.equal(task.priority, "Alta");
+  assert.equal(task.assigned_to, seller.id);
+  assert.equal(escalations[1].task_id, task.id);
+
+  const entries = await storage.getTimelineEntries({ entity_type: "deal", entity_id: deal.id });
+  assert.deepEqual(
+    entries
+      .filter((entry) => entry.type === "sla_escalation")
+      .map((entry) => entry.description)
+      .sort(),
+    [
+      "Flota lleva 8 días sin actividad (SLA 3): tarea creada para reactivarlo",
+      "Flota lleva 8 días sin actividad (SLA 3): aviso al manager Marta",
+      "Flota lleva 4 días sin actividad (SLA 3): aviso a Ana",
+    ].sort(),
+  );
+  assert.equal((await listSlaEscalations(storage, { deal_id: quiet.id })).length, 0);
+
+  // Con actividad nueva la escalera vuelve a empezar
+  await storage.updateDeal(deal.id, { last_activity: at(9) });
+  assert.deepEqual(await checkSlaBreaches(storage, at(10)), []);
+  assert.deepEqual(
+    (await checkSlaBreaches(storage, at(13))).map((escalation) => escalation.step),
+    ["owner"],
+  );
+  assert.equal((await listSlaEscalations(storage, { deal_id: deal.id })).length, 4);
+});
@@ -0,0 +1,109 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MemStorage } from "../server/storage/memory";
+import { createDeal, deleteDeal, updateDeal } from "../server/crm/deals";
+import { createPipeline, getDefaultPipeline } from "../server/crm/pipelines";
+import { listPipelineStages, updatePipelineStage } from "../server/crm/pipelineStages";
+import { getStagePeriods, sumDaysByStage } from "../shared/stageHistory";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const dealInput = (title: string) => ({
+  title,
+  next_step: "Llamar",
+  target_close_date: new Date(Date.now() + 10 * dayMs),
+});
+
+test("cada cambio de etapa o estado deja una transición con probabilidades y autor", async () => {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ username: "ana", password: "x" });
+  const deal = await createDeal(storage, dealInput("Licencias"), user.id);
+  assert.ok(deal.stage_entered_at);
+
+  const advanced = await updateDeal(storage, deal.id, { stage: "Propuesta" }, user.id);
+  assert.ok(advanced.stage_entered_at!.getTime() >= deal.stage_entered_at!.getTime());
+  // Sin cambios de etapa, estado ni pipeline no hay transición nueva
+  await updateDeal(storage, deal.id, { next_step: "Enviar propuesta" });
+  await updateDeal(storage, deal.id, { status: "Won", close_reason: "Mejor precio" }, user.id);
+
+  const transitions = await storage.getDealStageTransitions({ deal_id: deal.id });
+  assert.deepEqual(
+    transitions.map((transition) => [transition.from_stage, transition.to_stage, transition.to_status]),
+    [
+      [null, "Prospección", "Open"],
+      ["Prospección", "Propuesta", "Open"],
+      ["Propuesta", "Cierre", "Won"],
+    ],
+  );
+  assert.equal(transitions[1].from_probability, deal.probability);
+  assert.equal(transitions[1].to_probability, advanced.probability);
+  assert.ok(transitions.every((transition) => transition.changed_by === user.id));
+  assert.ok(transitions.every((transition) => transition.pipeline_id === deal.pipeline_id));
+
+  await deleteDeal(storage, deal.id);
+  assert.deepEqual(await storage.getDealStageTransitions({ deal_id: deal.id }), []);
+});
+
+test("renombrar una etapa reescribe el historial de su pipeline", async () => {
+  const storage = new MemStorage();
+  const main = await getDefaultPipeline(storage);
+  const renewals = await createPipeline(storage, { name: "Renovaciones" });
+  const mainDeal = await createDeal(storage, dealInput("Nuevo"));
+  const renewalDeal = await createDeal(storage, { ...dealInput("Renovación"), pipeline_id: renewals.id });
+  await updateDeal(storage, renewalDeal.id, { stage: "Calificación" });
+
+  const first = (await listPipelineStages(storage, renewals.id))[0];
+  await updatePipelineStage(storage, first.id, { name: "Aviso de renovación" });
+
+  const renewalHistory = await storage.getDealStageTransitions({ deal_id: renewalDeal.id });
+  assert.deepEqual(
+    renewalHistory.map((transition) => [transition.from_stage, transition.to_stage]),
+    [
+      [null, "Aviso de renovación"],
+      ["Aviso de renovación", "Calificación"],
+    ],
+  );
+  const [mainEntry] = await storage.getDealStageTransitions({ deal_id: mainDeal.id });
+  assert.equal(mainEntry.to_stage, "Prospección");
+  assert.equal((await storage.getDealStageTransitions({ pipeline_id: main.id })).length, 1);
+});
+
+test("getStagePeriods reparte el tiempo por etapa e ignora los cambios solo de estado", () => {
+  const start = new Date("2024-03-01T00:00:00Z");
+  const at = (days: number) => new Date(start.getTime() + days * dayMs);
+  const periods = getStagePeriods(
+    [
+      { from_stage: null, to_stage: "Prospección", changed_at: at(0) },
+      { from_stage: "Prospección", to_stage: "Propuesta", changed_at: at(4) },
+      { from_stage: "Propuesta", to_stage: "Prospección", changed_at: at(6).toISOString() },
+      { from_stage: "Prospección", to_stage: "Prospección", changed_at: at(7) },
+    ],
+    at(10),
+  );
+
+  assert.deepEqual(
+    periods.map((period) => [period.stage, period.days, period.left_at?.getTime() ?? null]),
+    [
+      ["Prospección", 4, at(4).getTime()],
+      ["Propuesta", 2, at(6).getTime()],
+      ["Prospección", 4, null],
+    ],
+  );
+  assert.deepEqual(Array.from(sumDaysByStage(periods)), [
+    ["Prospección", 8],
+    ["Propuesta", 2],
+  ]);
+
+  // Un deal ganado deja de acumular tiempo en su última etapa
+  const won = getStagePeriods(
+    [
+      { from_stage: null, to_stage: "Propuesta", to_status: "Open", changed_at: at(0) },
+      { from_stage: "Propuesta", to_stage: "Cierre", to_status: "Open", changed_at: at(3) },
+      { from_stage: "Cierre", to_stage: "Cierre", to_status: "Won", changed_at: at(5) },
+    ],
+    at(30),
+  );
+  assert.deepEqual(won.map((period) => period.days), [3, 2]);
+  assert.equal(won[1].left_at?.getTime(), at(5).getTime());
+});
@@ -0,0 +1,141 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough } from "stream";
+
+import { countTags, diffTagIds, formatTagNames, matchesTagFilter, mergeTagIds, tagNameKey } from "../shared/tags";
+import { matchesDealFilters } from "../shared/exports";
+import { MemStorage } from "../server/storage/memory";
+import { runBulkAction } from "../server/crm/bulk";
+import { prepareExport } from "../server/crm/exports";
+import { createCompany } from "../server/crm/companies";
+import { createContact, updateContact } from "../server/crm/contacts";
+import { createDeal, updateDeal } from "../server/crm/deals";
+import { createTask } from "../server/crm/tasks";
+import { createTag, deleteTag, updateTag } from "../server/crm/tags";
+
+const inTenDays = () => new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+const ALL = { kind: "all" } as const;
+
+const TAGS = [
+  { id: "t1", name: "evento-2026", color: "#3B82F6" },
+  { id: "t2", name: "referido-partner", color: "#22C55E" },
+  { id: "t3", name: "sin uso", color: "#64748B" },
+];
+
+test("las etiquetas se comparan sin mayúsculas ni tildes y se cuentan por uso", () => {
+  assert.equal(tagNameKey("  Evento  Málaga "), tagNameKey("evento malaga"));
+  assert.equal(formatTagNames(["t2", "borrada", "t1"], TAGS), "referido-partner, evento-2026");
+  assert.deepEqual(mergeTagIds([["t1"], null, ["t2", "t1"]]), ["t1", "t2"]);
+
+  assert.equal(diffTagIds(["t1", "t2"], ["t1", "t2"]), undefined);
+  assert.deepEqual(diffTagIds(undefined, ["t1"]), ["t1"]);
+  assert.deepEqual(diffTagIds(["t1", "t2"], []), []);
+
+  assert.equal(matchesTagFilter(["t1"], undefined), true);
+  assert.equal(matchesTagFilter(null, "t1"), false);
+  assert.equal(matchesDealFilters({ title: "Alfa", tag_ids: ["t2"] }, { tag: "t1" }), false);
+
+  const counts = countTags([{ tag_ids: ["t1", "t2"] }, { tag_ids: ["t2"] }, {}], TAGS);
+  assert.deepEqual(
+    counts.map(({ tag, count }) => [tag.name, count]),
+    [
+      ["referido-partner", 2],
+      ["evento-2026", 1],
+    ],
+  );
+});
+
+test("los registros solo guardan etiquetas existentes y el borrado las quita de todos", async () => {
+  const storage = new MemStorage();
+  const evento = await createTag(storage, { name: " Evento  2026 " });
+  assert.equal(evento.name, "Evento 2026");
+  assert.equal(evento.color, "#64748B");
+  const partner = await createTag(storage, { name: "Referido partner", color: "#22C55E" });
+  await assert.rejects(createTag(storage, { name: "evento 2026" }), /Ya existe la etiqueta "Evento 2026"/);
+  await assert.rejects(updateTag(storage, partner.id, { name: "EVENTO 2026" }), /Ya existe/);
+  assert.equal((await updateTag(storage, partner.id, { color: "#EC4899" })).color, "#EC4899");
+
+  const deal = await createDeal(
+    storage,
+    { title: "Stand", next_step: "Llamar", target_close_date: inTenDays(), tag_ids: [evento.id, evento.id] },
+    null,
+  );
+  assert.deepEqual(deal.tag_ids, [evento.id]);
+  await assert.rejects(updateDeal(storage, deal.id, { tag_ids: ["nope"] }), /Etiquetas desconocidas: nope/);
+  await assert.rejects(
+    updateDeal(storage, deal.id, { tag_ids: Array.from({ length: 11 }, (_, index) => `t${index}`) }),
+    /Como máximo 10 etiquetas/,
+  );
+  // Sin tag_ids la edición no toca las etiquetas
+  assert.deepEqual((await updateDeal(storage, deal.id, { next_step: "Enviar propuesta" })).tag_ids, [evento.id]);
+
+  const contact = await createContact(storage, { name: "Lucía", tag_ids: [partner.id, evento.id] });
+  const company = await createCompany(storage, { name: "Acme", tag_ids: [evento.id] });
+  const task = await createTask(storage, { title: "Preparar stand", tag_ids: [evento.id] });
+  assert.deepEqual((await updateContact(storage, contact.id, { tag_ids: [partner.id] })).tag_ids, [partner.id]);
+
+  await deleteTag(storage, evento.id);
+  assert.deepEqual((await storage.getDeal(deal.id))?.tag_ids, []);
+  assert.deepEqual((await storage.getContact(contact.id))?.tag_ids, [partner.id]);
+  assert.deepEqual((await storage.getCompany(company.id))?.tag_ids, []);
+  assert.deepEqual((await storage.getTask(task.id))?.tag_ids, []);
+  assert.deepEqual((await storage.getTags()).map((tag) => tag.name), ["Referido partner"]);
+});
+
+test("las acciones en bloque añaden y quitan etiquetas con su entrada de timeline", async () => {
+  const storage = new MemStorage();
+  const tag = await createTag(storage, { name: "evento-2026" });
+  const first = await createContact(storage, { name: "Uno" });
+  const second = await createContact(storage, { name: "Dos", tag_ids: [tag.id] });
+  const ids = [first.id, second.id];
+
+  const context = { actorId: null, scope: ALL };
+  await assert.rejects(
+    runBulkAction(storage, "contacts", { ids, action: { type: "add_tag", tag_id: "nope" } }, context),
+    /Etiqueta desconocida: nope/,
+  );
+
+  const added = await runBulkAction(
+    storage,
+    "contacts",
+    { ids, action: { type: "add_tag", tag_id: tag.id } },
+    context,
+  );
+  assert.equal(added.succeeded, 2);
+  for (const id of ids) assert.deepEqual((await storage.getContact(id))?.tag_ids, [tag.id]);
+  const entries = await storage.getTimelineEntries({ entity_type: "contact", entity_id: first.id });
+  const bulkEntry = entries.find((entry) => entry.type === "bulk_updated");
+  assert.deepEqual(JSON.parse(bulkEntry!.metadata!).changes, ["Etiqueta añadida: evento-2026"]);
+
+  const removed = await runBulkAction(
+    storage,
+    "contacts",
+    { ids: [first.id], action: { type: "remove_tag", tag_id: tag.id } },
+    context,
+  );
+  assert.equal(removed.succeeded, 1);
+  assert.deepEqual((await storage.getContact(first.id))?.tag_ids, []);
+});
+
+test("la exportación filtra por etiqueta y añade la columna con sus nombres", async () => {
+  const storage = new MemStorage();
+  const evento = await createTag(storage, { name: "evento-2026" });
+  const partner = await createTag(storage, { name: "partner" });
+  await createCompany(storage, { name: "Acme", tag_ids: [partner.id, evento.id] });
+  await createCompany(storage, { name: "Beta", tag_ids: [partner.id] });
+
+  const prepared = await prepareExport(storage, {
+    entity: "companies",
+    format: "csv",
+    language: "es",
+    columns: ["name", "tags"],
+    filters: { tag: evento.id },
+  });
+  assert.equal(prepared.rows, 1);
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on("data", (chunk: Buffer) => chunks.push(chunk));
+  await prepared.write(out);
+  out.end();
+  assert.equal(Buffer.concat(chunks).toString("utf8"), "\uFEFFNombre;Etiquetas\r\nAcme;partner, evento-2026\r\n");
+});